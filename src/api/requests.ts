@@ -11,27 +11,50 @@ import type { GetUserResponse, User, PersonalSettings, EditPersonalSettingsReque
 import type { OnboardingStatus } from "@/models/auth/onboarding";
 import type { Organization, OrgCurrencyResponse, UpdateOrgCurrencyRequest, OrgLedgerProfileResponse,
   UpdateOrgLedgerProfileRequest } from '@/models/auth/organization';
+import type { AddFxRateRequest, EditFxRateRequest, FxRate, FxRateQuote, GetFxRateQuoteParams, GetFxRatesRequest,
+  GetFxRatesResponse, ImportFxRatesResponse } from '@/models/settings/fxRates';
+import type { AddHolidayCalendarRequest, AddHolidayRequest, EditHolidayCalendarRequest, EditHolidayRequest,
+  GetHolidaysParams, GetNonBusinessDaysParams, Holiday, HolidayCalendar, NonBusinessDay } from '@/models/settings/holidays';
+import type { AddApprovalRuleRequest, ApprovalRule, EditApprovalRuleRequest } from '@/models/settings/approvalRules';
+import type { AddCustomFieldRequest, CustomFieldDefinition, EditCustomFieldRequest,
+  GetEntryTagsResponse } from '@/models/settings/customFields';
+import type { AddCategorizationRuleRequest, ApplyCategorizationRulesResponse, CategorizationRule,
+  EditCategorizationRuleRequest } from '@/models/settings/categorizationRules';
+import type { AddCsvMappingProfileRequest, CsvMappingProfile, EditCsvMappingProfileRequest,
+  GetCsvMappingProfilesParams } from '@/models/settings/csvMappingProfiles';
+import type { ApprovalRequest, DecideApprovalRequest, GetApprovalRequestsParams,
+  GetApprovalRequestsResponse } from '@/models/entries/approvals';
+import type { MergeEntriesRequest, MergeEntriesResponse, GetDuplicateDismissalsResponse,
+  AddDuplicateDismissalRequest, AddDuplicateDismissalResponse } from '@/models/entries/duplicates';
 import type { GetEntitlementLimitsResponse } from '@/models/auth/entitlements';
 import type { CreateCheckoutSessionRequest, CreateCheckoutSessionResponse, CreateCustomerPortalSessionRequest,
   CreateCustomerPortalSessionResponse, 
   GetSubscriptionStatusResponse,
   PlanCode} from '@/models/auth/billing';
-import type { GetNotificationPreferencesResponse, UpdateNotificationPreferencesRequest,
+import type { GetInboxNotificationsParams, GetInboxNotificationsResponse, GetNotificationPreferencesResponse,
+  MarkNotificationsReadRequest, UpdateNotificationPreferencesRequest,
   UpdateNotificationPreferencesResponse } from '@/models/auth/notifications';
 import type { AddGroupRequest, EditGroupRequest, GetGroupPermissionsResponse, GetGroupResponse,
   GetGroupsResponse, GetPermissionsResponse, UpdateGroupPermissionsResponse } from '@/models/auth/rbac';
 import type { AddMemberRequest, EditMemberRequest, GetMemberResponse, GetMembersParams, GetMembersResponse } from '@/models/auth/members';
 import type { CashflowKpis, KpiQueryParams, SettledKpis } from '@/models/components/cardKpis';
 import type { DashboardOverview } from '@/models/components/dashboard';
-import type { ReportsSummaryParams, ReportsSummary } from '@/models/components/reports';
+import type { AgingReport, AgingReportParams, ReportsSummaryParams, ReportsSummary } from '@/models/components/reports';
+import type { AddForecastAssumptionRequest, AddForecastScenarioRequest, EditForecastAssumptionRequest,
+  EditForecastScenarioRequest, ForecastAssumption, ForecastScenario } from '@/models/components/forecast';
 import type { AddViewPresetRequest, AddViewPresetResponse, EditViewPresetRequest, EditViewPresetResponse,
-  GetViewPresetsResponse } from '@/models/components/viewPresets';
-import type { AddEntryRequest, Entry, EntryWriteResponse, GetEntriesBulkRequest, GetEntriesBulkResponse,
+  GetViewPresetsResponse, PinViewPresetRequest } from '@/models/components/viewPresets';
+import type { AddEntriesBulkRequest, AddEntriesBulkResponse, AddEntryRequest, Entry, EntryWriteResponse, GetEntriesBulkRequest, GetEntriesBulkResponse,
   GetEntryRequest, EditEntriesBulkResponse, EditEntryRequest, GetEntryResponse,
-  DeleteEntriesBulkRequest } from '@/models/entries/entries';
+  DeleteEntriesBulkRequest, DeleteEntriesBulkResponse } from '@/models/entries/entries';
 import type { GetSettledEntryRequest, GetSettledEntryResponse, SettledEntry, BulkSettleItem, BulkSettleResponse,
-  EditSettledEntryRequest, DeleteSettledEntriesBulkRequest } from '@/models/entries/settlements';
+  EditSettledEntryRequest, DeleteSettledEntriesBulkRequest,
+  DeleteSettledEntriesBulkResponse } from '@/models/entries/settlements';
 import type { AddTransferenceRequest, Transference } from "@/models/entries/transferences";
+import type { Attachment, AttachmentOwnerType, GetAttachmentsResponse } from "@/models/entries/attachments";
+import type { GetEntryHistoryParams, GetEntryHistoryResponse } from "@/models/entries/history";
+import type { AddEntryCommentRequest, CommentOwnerType, EntryComment, GetEntryCommentsParams,
+  GetEntryCommentsResponse } from "@/models/entries/comments";
 import type { GetDocumentTypesResponse } from 'src/models/entries/documentTypes';
 import type { AddBankRequest, AddBankResponse, EditBankRequest, EditBankResponse, GetBankResponse,
   GetBanksBulkRequest, GetBanksBulkResponse, GetBanksParams, GetBanksResponse, 
@@ -98,9 +121,25 @@ import type {
   PrepareStatementImportResponse,
   AcceptConfidentStatementImportRowsResponse,
   CommitStatementImportSessionResponse,
+  CheckStatementImportDuplicatesRequest,
+  CheckStatementImportDuplicatesResponse,
   BulkUpdateStatementImportRowsRequest,
   UpdateStatementImportRowRequest,
 } from "@/models/settings/statements";
+import type {
+  GetStatementLinesParams,
+  GetStatementLinesResponse,
+  ReconciliationMatch,
+  GetReconciliationMatchesParams,
+  AddReconciliationMatchRequest,
+  AddReconciliationMatchesBulkRequest,
+  GetReconciliationSummaryParams,
+  GetReconciliationSummaryResponse,
+  ReconciliationPeriodLock,
+  LockReconciliationPeriodRequest,
+} from "@/models/settings/reconciliation";
+import type { GetTrashParams, GetTrashResponse, PurgeTrashRequest, PurgeTrashResponse, RestoreTrashRequest,
+  RestoreTrashResponse, TrashReceipt } from "@/models/settings/trash";
 import type {
   EntryAccountingPreviewEnvelope,
   EntryAccountingReadinessEnvelope,
@@ -146,6 +185,15 @@ function filenameFromContentDisposition(
 }
 
 
+async function fetchAttachmentBlob(attachmentId: string) {
+  const res = await http.get(`cashflow/attachments/${attachmentId}/content/`, {
+    responseType: "blob",
+    validateStatus: (s: number) => s >= 200 && s < 300,
+  });
+  return res.data as Blob;
+}
+
+
 export const api = {
   /* --- Auth --- */
   signIn: (payload: SignInRequest) =>
@@ -247,6 +295,57 @@ export const api = {
   updateOrgLedgerProfile: (payload: UpdateOrgLedgerProfileRequest) =>
     request<OrgLedgerProfileResponse>('organizations/current/ledger-profile/', 'PUT', payload),
 
+  /* --- FX Rates --- */
+  getFxRates: (params: GetFxRatesRequest) =>
+    request<GetFxRatesResponse>("organizations/current/fx-rates/", "GET", params),
+
+  addFxRate: (payload: AddFxRateRequest) =>
+    request<FxRate>("organizations/current/fx-rates/", "POST", payload),
+
+  editFxRate: (rateId: string, payload: EditFxRateRequest) =>
+    request<FxRate>(`organizations/current/fx-rates/${rateId}/`, "PATCH", payload),
+
+  deleteFxRate: (rateId: string) =>
+    request<void>(`organizations/current/fx-rates/${rateId}/`, "DELETE"),
+
+  importFxRates: (formData: FormData) =>
+    request<ImportFxRatesResponse>("organizations/current/fx-rates/import/", "POST", formData),
+
+  downloadFxRatesCsvTemplate: () =>
+    downloadTemplate("organizations/current/fx-rates/template/csv/", "template_fx_rates.csv"),
+
+  getFxRateQuote: (params: GetFxRateQuoteParams) =>
+    request<FxRateQuote>("organizations/current/fx-rates/quote/", "GET", params),
+
+  /* --- Holiday calendars --- */
+  getHolidayCalendars: () =>
+    request<HolidayCalendar[]>("organizations/current/holiday-calendars/", "GET"),
+
+  addHolidayCalendar: (payload: AddHolidayCalendarRequest) =>
+    request<HolidayCalendar>("organizations/current/holiday-calendars/", "POST", payload),
+
+  editHolidayCalendar: (calendarId: string, payload: EditHolidayCalendarRequest) =>
+    request<HolidayCalendar>(`organizations/current/holiday-calendars/${calendarId}/`, "PATCH", payload),
+
+  deleteHolidayCalendar: (calendarId: string) =>
+    request<void>(`organizations/current/holiday-calendars/${calendarId}/`, "DELETE"),
+
+  getHolidays: (calendarId: string, params?: GetHolidaysParams) =>
+    request<Holiday[]>(`organizations/current/holiday-calendars/${calendarId}/holidays/`, "GET", params),
+
+  addHoliday: (calendarId: string, payload: AddHolidayRequest) =>
+    request<Holiday>(`organizations/current/holiday-calendars/${calendarId}/holidays/`, "POST", payload),
+
+  editHoliday: (calendarId: string, holidayId: string, payload: EditHolidayRequest) =>
+    request<Holiday>(
+      `organizations/current/holiday-calendars/${calendarId}/holidays/${holidayId}/`, "PATCH", payload),
+
+  deleteHoliday: (calendarId: string, holidayId: string) =>
+    request<void>(`organizations/current/holiday-calendars/${calendarId}/holidays/${holidayId}/`, "DELETE"),
+
+  getNonBusinessDays: (params: GetNonBusinessDaysParams) =>
+    request<NonBusinessDay[]>("organizations/current/non-business-days/", "GET", params),
+
   /* --- Entitlements --- */
   getEntitlementLimits:() =>
     request<GetEntitlementLimitsResponse>("entitlements/limits/", "GET"),
@@ -272,6 +371,12 @@ export const api = {
   updateNotificationPreferences: (payload: UpdateNotificationPreferencesRequest) =>
     request<UpdateNotificationPreferencesResponse>("identity/notifications/preferences/", "PUT", payload),
 
+  getInboxNotifications: (params?: GetInboxNotificationsParams) =>
+    request<GetInboxNotificationsResponse>("identity/notifications/inbox/", "GET", params),
+
+  markNotificationsRead: (payload: MarkNotificationsReadRequest) =>
+    request<void>("identity/notifications/inbox/read/", "POST", payload),
+
   /* --- Permissions --- */
   getPermissions: () =>
     request<GetPermissionsResponse>("rbac/permissions/", "GET"),
@@ -302,7 +407,7 @@ export const api = {
     request<GetGroupResponse>(`rbac/groups/${groupId}/`, "PATCH", payload),
 
   deleteAllGroups: () =>
-    request<void>("rbac/groups/", "DELETE"),
+    request<TrashReceipt>("rbac/groups/", "DELETE"),
 
   deleteGroup: (groupId: string) =>
     request<void>(`rbac/groups/${groupId}/`, "DELETE"),
@@ -338,6 +443,34 @@ export const api = {
   getReportsSummary: (params: ReportsSummaryParams) =>
     request<ReportsSummary>("cashflow/reports/summary/", "GET", params),
 
+  getAgingReport: (params: AgingReportParams) =>
+    request<AgingReport>("cashflow/reports/aging/", "GET", params),
+
+  /* --- Forecast --- */
+  getForecastScenarios: () =>
+    request<ForecastScenario[]>("cashflow/forecast/scenarios/", "GET"),
+
+  addForecastScenario: (payload: AddForecastScenarioRequest) =>
+    request<ForecastScenario>("cashflow/forecast/scenarios/", "POST", payload),
+
+  editForecastScenario: (scenarioId: string, payload: EditForecastScenarioRequest) =>
+    request<ForecastScenario>(`cashflow/forecast/scenarios/${scenarioId}/`, "PATCH", payload),
+
+  deleteForecastScenario: (scenarioId: string) =>
+    request<void>(`cashflow/forecast/scenarios/${scenarioId}/`, "DELETE"),
+
+  getForecastAssumptions: () =>
+    request<ForecastAssumption[]>("cashflow/forecast/assumptions/", "GET"),
+
+  addForecastAssumption: (payload: AddForecastAssumptionRequest) =>
+    request<ForecastAssumption>("cashflow/forecast/assumptions/", "POST", payload),
+
+  editForecastAssumption: (assumptionId: string, payload: EditForecastAssumptionRequest) =>
+    request<ForecastAssumption>(`cashflow/forecast/assumptions/${assumptionId}/`, "PATCH", payload),
+
+  deleteForecastAssumption: (assumptionId: string) =>
+    request<void>(`cashflow/forecast/assumptions/${assumptionId}/`, "DELETE"),
+
   /* --- View Presets --- */
   getViewPresets: (settlementStatus: boolean) =>
     request<GetViewPresetsResponse>(
@@ -353,6 +486,9 @@ export const api = {
 
   deleteViewPreset: (viewId: string) =>
     request<void>(`cashflow/view-preset/${viewId}/`, "DELETE"),
+
+  pinViewPreset: (viewId: string, payload: PinViewPresetRequest) =>
+    request<EditViewPresetResponse>(`cashflow/view-preset/${viewId}/org-default/`, "POST", payload),
   
   /* --- Cash-flow Entries --- */
   getEntries: (payload: GetEntryRequest) =>
@@ -372,6 +508,10 @@ export const api = {
   addEntry: (payload: AddEntryRequest) =>
     request<EntryWriteResponse>(`cashflow/entries/`, "POST", payload),
 
+  addEntriesBulk: (items: AddEntryRequest[], atomic: boolean = true) =>
+    request<AddEntriesBulkResponse>(`cashflow/entries/bulk/create/`, "POST",
+      { items, atomic } satisfies AddEntriesBulkRequest),
+
   editEntry: (id: string, payload: Partial<EditEntryRequest>) =>
     request<EntryWriteResponse>(`cashflow/entries/${id}/`, "PATCH", payload),
 
@@ -380,10 +520,36 @@ export const api = {
       { ids, data, atomic }),
 
   deleteEntry: (id: string) =>
-    request<void>(`cashflow/entries/${id}/`, "DELETE"),
+    request<TrashReceipt>(`cashflow/entries/${id}/`, "DELETE"),
 
   deleteEntriesBulk: (ids: string[]) =>
-    request<void>(`cashflow/entries/bulk/delete/`, "POST", { ids } satisfies DeleteEntriesBulkRequest),
+    request<DeleteEntriesBulkResponse>(`cashflow/entries/bulk/delete/`, "POST", { ids } satisfies DeleteEntriesBulkRequest),
+
+  /* --- Duplicates --- */
+  mergeEntries: (payload: MergeEntriesRequest) =>
+    request<MergeEntriesResponse>(`cashflow/entries/merge/`, "POST", payload),
+
+  getDuplicateDismissals: () =>
+    request<GetDuplicateDismissalsResponse>(`cashflow/entries/duplicates/dismissals/`, "GET"),
+
+  addDuplicateDismissal: (payload: AddDuplicateDismissalRequest) =>
+    request<AddDuplicateDismissalResponse>(`cashflow/entries/duplicates/dismissals/`, "POST", payload),
+
+  /* --- Custom fields & tags --- */
+  getCustomFields: () =>
+    request<CustomFieldDefinition[]>(`cashflow/custom-fields/`, "GET"),
+
+  addCustomField: (payload: AddCustomFieldRequest) =>
+    request<CustomFieldDefinition>(`cashflow/custom-fields/`, "POST", payload),
+
+  editCustomField: (fieldId: string, payload: EditCustomFieldRequest) =>
+    request<CustomFieldDefinition>(`cashflow/custom-fields/${fieldId}/`, "PATCH", payload),
+
+  deleteCustomField: (fieldId: string) =>
+    request<void>(`cashflow/custom-fields/${fieldId}/`, "DELETE"),
+
+  getEntryTags: (params?: { search?: string }) =>
+    request<GetEntryTagsResponse>(`cashflow/entries/tags/`, "GET", params),
 
   /* --- Settle Process --- */
   // * Analyze \/
@@ -422,7 +588,98 @@ export const api = {
     request<Entry>(`cashflow/settlements/${id}/`, "DELETE"),
   
   deleteSettledEntriesBulk: (ids: string[]) =>
-    request<void>(`cashflow/settlements/bulk/delete/`, "POST", { ids } satisfies DeleteSettledEntriesBulkRequest),
+    request<DeleteSettledEntriesBulkResponse>(`cashflow/settlements/bulk/delete/`, "POST", {
+      ids
+    } satisfies DeleteSettledEntriesBulkRequest),
+
+  /* --- Approvals --- */
+  getApprovalRules: () =>
+    request<ApprovalRule[]>("cashflow/approval-rules/", "GET"),
+
+  addApprovalRule: (payload: AddApprovalRuleRequest) =>
+    request<ApprovalRule>("cashflow/approval-rules/", "POST", payload),
+
+  editApprovalRule: (ruleId: string, payload: EditApprovalRuleRequest) =>
+    request<ApprovalRule>(`cashflow/approval-rules/${ruleId}/`, "PATCH", payload),
+
+  deleteApprovalRule: (ruleId: string) =>
+    request<void>(`cashflow/approval-rules/${ruleId}/`, "DELETE"),
+
+  getApprovalRequests: (params?: GetApprovalRequestsParams) =>
+    request<GetApprovalRequestsResponse>("cashflow/approvals/", "GET", params),
+
+  approveRequest: (requestId: string, payload?: DecideApprovalRequest) =>
+    request<ApprovalRequest>(`cashflow/approvals/${requestId}/approve/`, "POST", payload ?? {}),
+
+  rejectRequest: (requestId: string, payload: DecideApprovalRequest) =>
+    request<ApprovalRequest>(`cashflow/approvals/${requestId}/reject/`, "POST", payload),
+
+  /* --- Attachments --- */
+  getAttachments: (ownerType: AttachmentOwnerType, ownerId: string) =>
+    request<GetAttachmentsResponse>(
+      `cashflow/${ownerType === "entry" ? "entries" : "settlements"}/${ownerId}/attachments/`,
+      "GET"
+    ),
+
+  uploadAttachment: async (
+    ownerType: AttachmentOwnerType,
+    ownerId: string,
+    file: File,
+    onProgress?: (pct: number) => void
+  ) => {
+    const form = new FormData();
+    form.append("file", file);
+
+    const res = await http.post(
+      `cashflow/${ownerType === "entry" ? "entries" : "settlements"}/${ownerId}/attachments/`,
+      form,
+      {
+        onUploadProgress: (evt: AxiosProgressEvent) => {
+          if (!onProgress || !evt.total) return;
+          onProgress(Math.round((evt.loaded * 100) / evt.total));
+        },
+      }
+    );
+
+    return (res.data?.data ?? res.data) as Attachment;
+  },
+
+  deleteAttachment: (attachmentId: string) =>
+    request<void>(`cashflow/attachments/${attachmentId}/`, "DELETE"),
+
+  getAttachmentBlob: (attachmentId: string) => fetchAttachmentBlob(attachmentId),
+
+  downloadAttachment: async (attachment: Attachment) => {
+    const blob = await fetchAttachmentBlob(attachment.id);
+    downloadBlob(blob, attachment.filename);
+  },
+
+  /* --- Entry history --- */
+  getEntryHistory: (entryId: string, params?: GetEntryHistoryParams) =>
+    request<GetEntryHistoryResponse>(`cashflow/entries/${entryId}/history/`, "GET", params),
+
+  /** Settlement events plus those of the originating entry, newest first. */
+  getSettlementHistory: (settlementId: string, params?: GetEntryHistoryParams) =>
+    request<GetEntryHistoryResponse>(`cashflow/settlements/${settlementId}/history/`, "GET", params),
+
+  /* --- Entry comments --- */
+  getEntryComments: (ownerType: CommentOwnerType, ownerId: string, params?: GetEntryCommentsParams) =>
+    request<GetEntryCommentsResponse>(
+      `cashflow/${ownerType === "entry" ? "entries" : "settlements"}/${ownerId}/comments/`,
+      "GET",
+      params
+    ),
+
+  /** Mentioned members get an inbox notification and a `notification.created` event. */
+  addEntryComment: (ownerType: CommentOwnerType, ownerId: string, payload: AddEntryCommentRequest) =>
+    request<EntryComment>(
+      `cashflow/${ownerType === "entry" ? "entries" : "settlements"}/${ownerId}/comments/`,
+      "POST",
+      payload
+    ),
+
+  deleteEntryComment: (commentId: string) =>
+    request<void>(`cashflow/comments/${commentId}/`, "DELETE"),
 
   /* --- Transferences --- */
   addTransference: (payload: AddTransferenceRequest) =>
@@ -466,7 +723,7 @@ export const api = {
     request<EditBankResponse>(`banking/accounts/${bankId}/`, "PATCH", payload),
 
   deleteBank: (bankId: string) =>
-    request<void>(`banking/accounts/${bankId}/`, "DELETE"),
+    request<TrashReceipt>(`banking/accounts/${bankId}/`, "DELETE"),
 
   /* --- Document Types --- */
   getDocumentTypes: () =>
@@ -801,6 +1058,50 @@ export const api = {
     return res.data;
   },
 
+  applyStatementImportRules: async (sessionId: string) => {
+    const res = await request<ApplyCategorizationRulesResponse>(
+      `banking/statement-import-sessions/${sessionId}/apply-rules/`,
+      "POST",
+      {}
+    );
+    return res.data;
+  },
+
+  checkStatementImportDuplicates: async (sessionId: string, payload: CheckStatementImportDuplicatesRequest) => {
+    const res = await request<CheckStatementImportDuplicatesResponse>(
+      `banking/statement-import-sessions/${sessionId}/check-duplicates/`,
+      "POST",
+      payload
+    );
+    return res.data;
+  },
+
+  /* --- Categorization rules --- */
+  getCategorizationRules: () =>
+    request<CategorizationRule[]>("banking/categorization-rules/", "GET"),
+
+  addCategorizationRule: (payload: AddCategorizationRuleRequest) =>
+    request<CategorizationRule>("banking/categorization-rules/", "POST", payload),
+
+  editCategorizationRule: (ruleId: string, payload: EditCategorizationRuleRequest) =>
+    request<CategorizationRule>(`banking/categorization-rules/${ruleId}/`, "PATCH", payload),
+
+  deleteCategorizationRule: (ruleId: string) =>
+    request<void>(`banking/categorization-rules/${ruleId}/`, "DELETE"),
+
+  /* --- CSV mapping profiles --- */
+  getCsvMappingProfiles: (params?: GetCsvMappingProfilesParams) =>
+    request<CsvMappingProfile[]>("banking/csv-profiles/", "GET", params),
+
+  addCsvMappingProfile: (payload: AddCsvMappingProfileRequest) =>
+    request<CsvMappingProfile>("banking/csv-profiles/", "POST", payload),
+
+  editCsvMappingProfile: (profileId: string, payload: EditCsvMappingProfileRequest) =>
+    request<CsvMappingProfile>(`banking/csv-profiles/${profileId}/`, "PATCH", payload),
+
+  deleteCsvMappingProfile: (profileId: string) =>
+    request<void>(`banking/csv-profiles/${profileId}/`, "DELETE"),
+
   downloadStatement: async (statementId: string) => {
     const res = await http.get(`banking/statements/${statementId}/download/`, {
       responseType: "blob",
@@ -813,6 +1114,47 @@ export const api = {
     downloadBlob(res.data as Blob, filename);
   },
 
+  /* --- Bank Reconciliation --- */
+  getStatementLines: (params: GetStatementLinesParams) =>
+    request<GetStatementLinesResponse>("banking/statements/lines/", "GET", params),
+
+  getReconciliationSummary: (params?: GetReconciliationSummaryParams) =>
+    request<GetReconciliationSummaryResponse>("banking/reconciliation/summary/", "GET", params),
+
+  getReconciliationMatches: (params: GetReconciliationMatchesParams) =>
+    request<ReconciliationMatch[]>("banking/reconciliation/matches/", "GET", params),
+
+  addReconciliationMatch: (payload: AddReconciliationMatchRequest) =>
+    request<ReconciliationMatch>("banking/reconciliation/matches/", "POST", payload),
+
+  addReconciliationMatchesBulk: (matches: AddReconciliationMatchRequest[]) =>
+    request<ReconciliationMatch[]>("banking/reconciliation/matches/bulk/", "POST", {
+      matches
+    } satisfies AddReconciliationMatchesBulkRequest),
+
+  deleteReconciliationMatch: (matchId: string) =>
+    request<void>(`banking/reconciliation/matches/${matchId}/`, "DELETE"),
+
+  getReconciliationLocks: (bankAccountId?: string) =>
+    request<ReconciliationPeriodLock[]>("banking/reconciliation/locks/", "GET",
+      bankAccountId ? { bank_account_id: bankAccountId } : undefined),
+
+  lockReconciliationPeriod: (payload: LockReconciliationPeriodRequest) =>
+    request<ReconciliationPeriodLock>("banking/reconciliation/locks/", "POST", payload),
+
+  unlockReconciliationPeriod: (lockId: string) =>
+    request<void>(`banking/reconciliation/locks/${lockId}/`, "DELETE"),
+
+  /* --- Trash --- */
+  getTrash: (params?: GetTrashParams) =>
+    request<GetTrashResponse>("trash/", "GET", params),
+
+  restoreTrash: (payload: RestoreTrashRequest) =>
+    request<RestoreTrashResponse>("trash/restore/", "POST", payload),
+
+  purgeTrash: (payload: PurgeTrashRequest) =>
+    request<PurgeTrashResponse>("trash/purge/", "POST", payload),
+
 
 
 }
@@ -0,0 +1,161 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/Attachments/AttachmentViewer.tsx                      */
+/* -------------------------------------------------------------------------- */
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslation } from "react-i18next";
+import { ChevronLeft, ChevronRight, Download, X } from "lucide-react";
+
+import Spinner from "@/shared/ui/Loaders/Spinner";
+import { api } from "@/api/requests";
+import type { Attachment } from "@/models/entries/attachments";
+
+type Props = {
+  attachments: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+};
+
+const isImage = (a: Attachment) => a.content_type.startsWith("image/");
+const isPdf = (a: Attachment) => a.content_type === "application/pdf";
+
+const AttachmentViewer: React.FC<Props> = ({ attachments, index, onIndexChange, onClose }) => {
+  const { t } = useTranslation("attachments");
+
+  const current = attachments[index] ?? null;
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!current) return;
+
+    let alive = true;
+    let objectUrl: string | null = null;
+
+    setUrl(null);
+    setError(false);
+    setLoading(true);
+
+    api
+      .getAttachmentBlob(current.id)
+      .then((blob) => {
+        if (!alive) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (alive) setError(true);
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+
+    return () => {
+      alive = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [current]);
+
+  useEffect(() => {
+    if (!current) return;
+
+    // Capture phase so Escape closes only the viewer and not the modal underneath
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        onClose();
+        return;
+      }
+      if (e.key === "ArrowLeft" && index > 0) onIndexChange(index - 1);
+      if (e.key === "ArrowRight" && index < attachments.length - 1) onIndexChange(index + 1);
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [attachments.length, current, index, onClose, onIndexChange]);
+
+  if (!current) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[10000] flex flex-col bg-black/80"
+      role="dialog"
+      aria-modal="true"
+      aria-label={current.filename}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <header className="flex items-center justify-between gap-3 px-4 py-3 text-white">
+        <div className="min-w-0">
+          <p className="truncate text-[13px] font-medium">{current.filename}</p>
+          <p className="text-[11px] text-white/60">
+            {t("viewer.position", { current: index + 1, total: attachments.length })}
+          </p>
+        </div>
+
+        <div className="flex shrink-0 items-center gap-2">
+          <button
+            type="button"
+            className="grid h-9 w-9 place-items-center rounded-full border border-white/20 hover:bg-white/10"
+            onClick={() => void api.downloadAttachment(current)}
+            aria-label={t("actions.download")}
+            title={t("actions.download")}
+          >
+            <Download size={16} />
+          </button>
+          <button
+            type="button"
+            className="grid h-9 w-9 place-items-center rounded-full border border-white/20 hover:bg-white/10"
+            onClick={onClose}
+            aria-label={t("actions.close")}
+            title={t("actions.close")}
+          >
+            <X size={18} />
+          </button>
+        </div>
+      </header>
+
+      <div className="relative flex min-h-0 flex-1 items-center justify-center px-4 pb-4">
+        {index > 0 ? (
+          <button
+            type="button"
+            className="absolute left-4 z-10 grid h-10 w-10 place-items-center rounded-full bg-white/10 text-white hover:bg-white/20"
+            onClick={() => onIndexChange(index - 1)}
+            aria-label={t("viewer.previous")}
+          >
+            <ChevronLeft size={20} />
+          </button>
+        ) : null}
+
+        {loading ? (
+          <Spinner />
+        ) : error || !url ? (
+          <p className="text-sm text-white/80">{t("viewer.loadError")}</p>
+        ) : isImage(current) ? (
+          <img src={url} alt={current.filename} className="max-h-full max-w-full object-contain" />
+        ) : isPdf(current) ? (
+          <iframe src={url} title={current.filename} className="h-full w-full max-w-5xl rounded bg-white" />
+        ) : (
+          <p className="text-sm text-white/80">{t("viewer.unsupported")}</p>
+        )}
+
+        {index < attachments.length - 1 ? (
+          <button
+            type="button"
+            className="absolute right-4 z-10 grid h-10 w-10 place-items-center rounded-full bg-white/10 text-white hover:bg-white/20"
+            onClick={() => onIndexChange(index + 1)}
+            aria-label={t("viewer.next")}
+          >
+            <ChevronRight size={20} />
+          </button>
+        ) : null}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AttachmentViewer;
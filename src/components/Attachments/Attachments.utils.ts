@@ -0,0 +1,36 @@
+// src/components/Attachments/Attachments.utils.ts
+import { api } from "@/api/requests";
+import type { AttachmentOwnerType } from "@/models/entries/attachments";
+
+export const ATTACHMENT_ACCEPT = "application/pdf,image/png,image/jpeg,image/webp,image/heic";
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+export const isAcceptedAttachment = (file: File) =>
+  file.type === "application/pdf" || file.type.startsWith("image/");
+
+export function formatFileSize(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) return "0 KB";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Uploads files staged before their owner existed (e.g. a new entry).
+ * Returns the names of files that failed so the caller can report them.
+ */
+export async function uploadPendingAttachments(
+  ownerType: AttachmentOwnerType,
+  ownerId: string,
+  files: File[]
+): Promise<string[]> {
+  const failed: string[] = [];
+  for (const file of files) {
+    try {
+      await api.uploadAttachment(ownerType, ownerId, file);
+    } catch (e) {
+      console.error(e);
+      failed.push(file.name);
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,364 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/Attachments/AttachmentsPanel.tsx                      */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { FileText, ImageIcon, Paperclip, Trash2, UploadCloud } from "lucide-react";
+
+import Spinner from "@/shared/ui/Loaders/Spinner";
+import { api } from "@/api/requests";
+import { formatDateFromISO } from "@/lib";
+import type { Attachment, AttachmentOwnerType } from "@/models/entries/attachments";
+
+import AttachmentViewer from "./AttachmentViewer";
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_BYTES, formatFileSize, isAcceptedAttachment } from "./Attachments.utils";
+
+type Upload = {
+  key: string;
+  file: File;
+  progress: number;
+  error: string | null;
+};
+
+type Props = {
+  ownerType: AttachmentOwnerType;
+  /** Null while the owner does not exist yet; files are then kept in `pending`. */
+  ownerId: string | null;
+  pending?: File[];
+  onPendingChange?: (files: File[]) => void;
+  /** Called with the new total after uploads/deletes, e.g. to refresh a badge. */
+  onCountChange?: (count: number) => void;
+  readOnly?: boolean;
+  compact?: boolean;
+};
+
+const Thumb: React.FC<{ contentType: string; thumbnailUrl?: string | null; alt: string }> = ({
+  contentType,
+  thumbnailUrl,
+  alt,
+}) => {
+  if (thumbnailUrl) {
+    return <img src={thumbnailUrl} alt={alt} className="h-full w-full object-cover" loading="lazy" />;
+  }
+
+  return contentType.startsWith("image/") ? (
+    <ImageIcon size={20} className="text-gray-400" />
+  ) : (
+    <FileText size={20} className="text-gray-400" />
+  );
+};
+
+const AttachmentsPanel: React.FC<Props> = ({
+  ownerType,
+  ownerId,
+  pending = [],
+  onPendingChange,
+  onCountChange,
+  readOnly = false,
+  compact = false,
+}) => {
+  const { t } = useTranslation("attachments");
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  // Kept in a ref so an inline callback does not re-trigger the initial fetch
+  const countRef = useRef(onCountChange);
+  countRef.current = onCountChange;
+
+  const load = useCallback(async () => {
+    if (!ownerId) {
+      setAttachments([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getAttachments(ownerType, ownerId);
+      const list = Array.isArray(res.data) ? res.data : [];
+      setAttachments(list);
+      countRef.current?.(list.length);
+    } catch (e) {
+      console.error(e);
+      setError(t("errors.load"));
+    } finally {
+      setLoading(false);
+    }
+  }, [ownerId, ownerType, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const uploadOne = useCallback(
+    async (upload: Upload) => {
+      if (!ownerId) return;
+
+      try {
+        const created = await api.uploadAttachment(ownerType, ownerId, upload.file, (pct) => {
+          setUploads((prev) => prev.map((u) => (u.key === upload.key ? { ...u, progress: pct } : u)));
+        });
+
+        setUploads((prev) => prev.filter((u) => u.key !== upload.key));
+        setAttachments((prev) => {
+          const next = [...prev, created];
+          countRef.current?.(next.length);
+          return next;
+        });
+      } catch (e) {
+        console.error(e);
+        setUploads((prev) =>
+          prev.map((u) => (u.key === upload.key ? { ...u, error: t("errors.upload") } : u))
+        );
+      }
+    },
+    [ownerId, ownerType, t]
+  );
+
+  const addFiles = useCallback(
+    (fileList: FileList | File[]) => {
+      const files = Array.from(fileList);
+      const rejected = files.filter((f) => !isAcceptedAttachment(f) || f.size > MAX_ATTACHMENT_BYTES);
+      const accepted = files.filter((f) => !rejected.includes(f));
+
+      setError(
+        rejected.length
+          ? t("errors.rejected", {
+              files: rejected.map((f) => f.name).join(", "),
+              max: formatFileSize(MAX_ATTACHMENT_BYTES),
+            })
+          : null
+      );
+      if (!accepted.length) return;
+
+      if (!ownerId) {
+        onPendingChange?.([...pending, ...accepted]);
+        return;
+      }
+
+      const batch = accepted.map((file, i) => ({
+        key: `${Date.now()}-${i}-${file.name}`,
+        file,
+        progress: 0,
+        error: null,
+      }));
+
+      setUploads((prev) => [...prev, ...batch]);
+      batch.forEach((u) => void uploadOne(u));
+    },
+    [onPendingChange, ownerId, pending, t, uploadOne]
+  );
+
+  const handleDelete = useCallback(
+    async (attachment: Attachment) => {
+      if (!window.confirm(t("confirmDelete", { name: attachment.filename }))) return;
+
+      try {
+        await api.deleteAttachment(attachment.id);
+        setAttachments((prev) => {
+          const next = prev.filter((a) => a.id !== attachment.id);
+          countRef.current?.(next.length);
+          return next;
+        });
+      } catch (e) {
+        console.error(e);
+        setError(t("errors.delete"));
+      }
+    },
+    [t]
+  );
+
+  const retryUpload = (upload: Upload) => {
+    setUploads((prev) => prev.map((u) => (u.key === upload.key ? { ...u, progress: 0, error: null } : u)));
+    void uploadOne({ ...upload, progress: 0, error: null });
+  };
+
+  const dismissUpload = (key: string) => setUploads((prev) => prev.filter((u) => u.key !== key));
+
+  const removePending = (index: number) => onPendingChange?.(pending.filter((_, i) => i !== index));
+
+  const isEmpty = !attachments.length && !uploads.length && !pending.length;
+  const tileClass = compact ? "h-12 w-12" : "h-16 w-16";
+
+  return (
+    <div className="space-y-3">
+      {!readOnly ? (
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === " ") {
+              e.preventDefault();
+              inputRef.current?.click();
+            }
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragOver(false);
+            if (e.dataTransfer.files?.length) addFiles(e.dataTransfer.files);
+          }}
+          className={[
+            "flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed text-center",
+            compact ? "px-3 py-2" : "px-4 py-6",
+            dragOver
+              ? "border-[color:var(--accentPrimary)] bg-gray-50"
+              : "border-gray-300 hover:bg-gray-50",
+          ].join(" ")}
+        >
+          <UploadCloud size={compact ? 16 : 20} className="shrink-0 text-gray-500" />
+          <div className={compact ? "text-left" : ""}>
+            <p className="text-[12px] text-gray-700">{t("dropzone.title")}</p>
+            {!compact ? (
+              <p className="mt-0.5 text-[11px] text-gray-500">
+                {t("dropzone.hint", { max: formatFileSize(MAX_ATTACHMENT_BYTES) })}
+              </p>
+            ) : null}
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      ) : null}
+
+      {error ? <p className="text-[11px] text-red-600">{error}</p> : null}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : isEmpty ? (
+        <p className="flex items-center gap-1.5 text-[12px] text-gray-500">
+          <Paperclip size={13} />
+          {t("empty")}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {attachments.map((a, i) => (
+            <li key={a.id} className="flex items-center gap-3 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => setViewerIndex(i)}
+                className={`${tileClass} grid shrink-0 place-items-center overflow-hidden rounded border border-gray-200 bg-gray-50 hover:border-gray-400`}
+                aria-label={t("actions.preview", { name: a.filename })}
+                title={t("actions.preview", { name: a.filename })}
+              >
+                <Thumb contentType={a.content_type} thumbnailUrl={a.thumbnail_url} alt={a.filename} />
+              </button>
+
+              <div className="min-w-0 flex-1">
+                <button
+                  type="button"
+                  onClick={() => setViewerIndex(i)}
+                  className="block max-w-full truncate text-left text-[13px] text-gray-900 hover:underline"
+                >
+                  {a.filename}
+                </button>
+                <p className="mt-0.5 text-[11px] text-gray-500">
+                  {formatFileSize(a.size_bytes)} · {formatDateFromISO(a.uploaded_at)}
+                  {a.inherited_from_entry_id ? ` · ${t("inherited")}` : ""}
+                </p>
+              </div>
+
+              {!readOnly && !a.inherited_from_entry_id ? (
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(a)}
+                  className="grid h-8 w-8 shrink-0 place-items-center rounded-md text-gray-400 hover:bg-red-50 hover:text-red-600"
+                  aria-label={t("actions.delete")}
+                  title={t("actions.delete")}
+                >
+                  <Trash2 size={15} />
+                </button>
+              ) : null}
+            </li>
+          ))}
+
+          {uploads.map((u) => (
+            <li key={u.key} className="flex items-center gap-3 px-3 py-2">
+              <div className={`${tileClass} grid shrink-0 place-items-center rounded border border-gray-200 bg-gray-50`}>
+                <Thumb contentType={u.file.type} alt={u.file.name} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-[13px] text-gray-900">{u.file.name}</p>
+                {u.error ? (
+                  <p className="mt-0.5 text-[11px] text-red-600">
+                    {u.error}{" "}
+                    <button type="button" className="underline" onClick={() => retryUpload(u)}>
+                      {t("actions.retry")}
+                    </button>{" "}
+                    <button type="button" className="underline" onClick={() => dismissUpload(u.key)}>
+                      {t("actions.dismiss")}
+                    </button>
+                  </p>
+                ) : (
+                  <div className="mt-1.5 h-1.5 overflow-hidden rounded-full bg-gray-100">
+                    <div
+                      className="h-full rounded-full bg-[color:var(--accentPrimary)] transition-all duration-200"
+                      style={{ width: `${u.progress}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+
+          {pending.map((file, i) => (
+            <li key={`${file.name}-${i}`} className="flex items-center gap-3 px-3 py-2">
+              <div className={`${tileClass} grid shrink-0 place-items-center rounded border border-gray-200 bg-gray-50`}>
+                <Thumb contentType={file.type} alt={file.name} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-[13px] text-gray-900">{file.name}</p>
+                <p className="mt-0.5 text-[11px] text-gray-500">
+                  {formatFileSize(file.size)} · {t("pending")}
+                </p>
+              </div>
+              {!readOnly ? (
+                <button
+                  type="button"
+                  onClick={() => removePending(i)}
+                  className="grid h-8 w-8 shrink-0 place-items-center rounded-md text-gray-400 hover:bg-red-50 hover:text-red-600"
+                  aria-label={t("actions.delete")}
+                  title={t("actions.delete")}
+                >
+                  <Trash2 size={15} />
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {viewerIndex !== null ? (
+        <AttachmentViewer
+          attachments={attachments}
+          index={viewerIndex}
+          onIndexChange={setViewerIndex}
+          onClose={() => setViewerIndex(null)}
+        />
+      ) : null}
+    </div>
+  );
+};
+
+export default AttachmentsPanel;
@@ -0,0 +1,3 @@
+export { default as AttachmentsPanel } from './AttachmentsPanel';
+export { default as AttachmentViewer } from './AttachmentViewer';
+export * from './Attachments.utils';
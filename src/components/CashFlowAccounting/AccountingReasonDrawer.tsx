@@ -119,7 +119,17 @@ const AccountingReasonDrawer: React.FC<Props> = ({
 
             <section className="rounded-2xl border border-gray-200 bg-white p-4">
               <div className="grid gap-3 text-sm">
-                <Row label="Category" value={accounting?.category_name || "Not classified"} />
+                {accounting?.allocations && accounting.allocations.length > 1 ? (
+                  accounting.allocations.map((a) => (
+                    <Row
+                      key={a.category_id}
+                      label={`Category · ${Number(a.percent)}%`}
+                      value={`${a.category_name || "Not classified"} (${a.policy_configured ? "policy configured" : "policy missing"})`}
+                    />
+                  ))
+                ) : (
+                  <Row label="Category" value={accounting?.category_name || "Not classified"} />
+                )}
                 <Row label="Operational mapping" value={accounting?.ledger_account_name || "Not selected"} />
                 <Row label="Posting policy" value={boolLabel(accounting?.policy_configured)} />
                 <Row label="Bank mapping" value={boolLabel(accounting?.bank_mapping_configured)} />
@@ -0,0 +1,186 @@
+// src/components/CashFlowCalendar/CalendarParts.tsx
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Check, ChevronLeft, ChevronRight } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import { formatCurrency } from "@/lib";
+
+import type { Entry } from "@/models/entries/entries";
+import type { SettledEntry } from "@/models/entries/settlements";
+
+import { signedOpenAmount, signedSettledAmount, type CalendarMode, type DaySummary } from "./calendar";
+
+/* -------------------------------- Toolbar --------------------------------- */
+
+export const CalendarToolbar: React.FC<{
+  title: string;
+  mode: CalendarMode;
+  modes: CalendarMode[];
+  onModeChange: (mode: CalendarMode) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onToday: () => void;
+  loading?: boolean;
+}> = ({ title, mode, modes, onModeChange, onPrev, onNext, onToday, loading }) => {
+  const { t } = useTranslation("cashFlowCalendar");
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-1.5 bg-gray-50 border-b border-gray-300 shrink-0">
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="sm" onClick={onPrev} aria-label={t("nav.prev")} title={t("nav.prev")}>
+          <ChevronLeft size={14} />
+        </Button>
+        <Button variant="outline" size="sm" onClick={onToday}>
+          {t("nav.today")}
+        </Button>
+        <Button variant="outline" size="sm" onClick={onNext} aria-label={t("nav.next")} title={t("nav.next")}>
+          <ChevronRight size={14} />
+        </Button>
+        <span className="ml-2 text-[13px] font-semibold text-gray-800 capitalize">{title}</span>
+        {loading && (
+          <span
+            className="ml-2 inline-block h-3.5 w-3.5 rounded-full border-2 border-gray-300 border-t-transparent animate-spin"
+            aria-label={t("aria.loading")}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-1" role="tablist">
+        {modes.map((m) => (
+          <button
+            key={m}
+            type="button"
+            role="tab"
+            aria-selected={mode === m}
+            onClick={() => onModeChange(m)}
+            className={`rounded-md border px-2 py-1 text-[11px] ${
+              mode === m
+                ? "border-gray-900 bg-gray-900 text-white"
+                : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {t(`modes.${m}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/* ------------------------------- Day totals ------------------------------- */
+
+export const DayTotals: React.FC<{ day: DaySummary; compact?: boolean }> = ({ day, compact }) => {
+  const { t } = useTranslation("cashFlowCalendar");
+
+  return (
+    <div className={`tabular-nums leading-tight ${compact ? "text-[10px]" : "text-[11px]"}`}>
+      {day.inflow > 0 && (
+        <div className="text-green-900" title={t("labels.inflow")}>
+          +{formatCurrency(day.inflow)}
+        </div>
+      )}
+      {day.outflow > 0 && (
+        <div className="text-red-900" title={t("labels.outflow")}>
+          −{formatCurrency(day.outflow)}
+        </div>
+      )}
+      {day.closing !== null && (
+        <div className={day.closing < 0 ? "text-red-700 font-semibold" : "text-gray-500"} title={t("labels.closing")}>
+          {t("labels.closingShort")} {formatCurrency(day.closing)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/* --------------------------------- Items ---------------------------------- */
+
+export const OpenEntryChip: React.FC<{
+  entry: Entry;
+  draggable?: boolean;
+  onDragStart?: (e: React.DragEvent, entry: Entry) => void;
+  onClick: (entry: Entry) => void;
+}> = ({ entry, draggable, onDragStart, onClick }) => {
+  const { t } = useTranslation("cashFlowCalendar");
+  const value = signedOpenAmount(entry);
+
+  return (
+    <button
+      type="button"
+      draggable={draggable}
+      onDragStart={draggable ? (e) => onDragStart?.(e, entry) : undefined}
+      onClick={() => onClick(entry)}
+      title={draggable ? `${entry.description} — ${t("aria.dragHint")}` : entry.description}
+      className={`w-full flex items-center justify-between gap-1 rounded border px-1.5 py-0.5 text-left text-[11px] ${
+        value >= 0 ? "border-green-200 bg-green-50 text-green-900" : "border-red-200 bg-red-50 text-red-900"
+      } ${draggable ? "cursor-grab active:cursor-grabbing" : ""}`}
+    >
+      <span className="truncate">{entry.description}</span>
+      <span className="shrink-0 tabular-nums font-medium">{formatCurrency(value)}</span>
+    </button>
+  );
+};
+
+/** Settlements are read-only here and drawn muted so they don't read as pending. */
+export const SettledChip: React.FC<{ settled: SettledEntry }> = ({ settled }) => {
+  const { t } = useTranslation("cashFlowCalendar");
+
+  return (
+    <div
+      className="w-full flex items-center justify-between gap-1 rounded border border-dashed border-gray-300 bg-gray-50 px-1.5 py-0.5 text-[11px] text-gray-500"
+      title={`${settled.description} — ${t("labels.settled")}`}
+    >
+      <span className="flex min-w-0 items-center gap-1">
+        <Check size={11} className="shrink-0" aria-label={t("labels.settled")} />
+        <span className="truncate">{settled.description}</span>
+      </span>
+      <span className="shrink-0 tabular-nums">{formatCurrency(signedSettledAmount(settled))}</span>
+    </div>
+  );
+};
+
+/* -------------------------------- Agenda ---------------------------------- */
+
+export const AgendaList: React.FC<{
+  days: DaySummary[];
+  formatDay: (iso: string) => string;
+  today: string;
+  onEdit: (entry: Entry) => void;
+}> = ({ days, formatDay, today, onEdit }) => {
+  const { t } = useTranslation("cashFlowCalendar");
+  const withItems = days.filter((d) => d.open.length || d.settled.length);
+
+  if (!withItems.length) {
+    return <p className="p-6 text-center text-[12px] text-gray-500">{t("labels.empty")}</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-200">
+      {withItems.map((day) => (
+        <section key={day.date} className="px-3 py-2">
+          <header className="mb-1.5 flex items-start justify-between gap-2">
+            <h3
+              className={`text-[11px] font-semibold uppercase tracking-wide ${
+                day.date === today ? "text-blue-700" : "text-gray-700"
+              }`}
+            >
+              {formatDay(day.date)}
+            </h3>
+            <div className="text-right">
+              <DayTotals day={day} compact />
+            </div>
+          </header>
+          <div className="space-y-1">
+            {day.open.map((e) => (
+              <OpenEntryChip key={e.id} entry={e} onClick={onEdit} />
+            ))}
+            {day.settled.map((s) => (
+              <SettledChip key={s.id} settled={s} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
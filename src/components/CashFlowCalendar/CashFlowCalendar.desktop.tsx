@@ -0,0 +1,179 @@
+// src/components/CashFlowCalendar/CashFlowCalendar.desktop.tsx
+import React, { useCallback, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { parseISO } from "date-fns";
+
+import type { Entry } from "@/models/entries/entries";
+
+import type { CalendarViewProps } from "./CashFlowCalendar";
+import { AgendaList, DayTotals, OpenEntryChip, SettledChip } from "./CalendarParts";
+import type { DaySummary } from "./calendar";
+
+const DRAG_TYPE = "application/x-cashflow-entry";
+const MONTH_CELL_ITEMS = 3;
+
+const CashFlowCalendarDesktop: React.FC<CalendarViewProps> = ({
+  mode,
+  days,
+  anchor,
+  today,
+  isInRange,
+  canReschedule,
+  onReschedule,
+  onEdit,
+  onOpenDay,
+  formatDay,
+}) => {
+  const { t, i18n } = useTranslation("cashFlowCalendar");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const openById = useMemo(() => {
+    const map = new Map<string, Entry>();
+    for (const d of days) for (const e of d.open) map.set(e.id, e);
+    return map;
+  }, [days]);
+
+  const weekdayLabels = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat(i18n.language || "en", { weekday: "short" });
+    return days.slice(0, 7).map((d) => fmt.format(parseISO(d.date)));
+  }, [days, i18n.language]);
+
+  /* -------------------------------- DnD ----------------------------------- */
+
+  const handleDragStart = useCallback((e: React.DragEvent, entry: Entry) => {
+    e.dataTransfer.setData(DRAG_TYPE, entry.id);
+    e.dataTransfer.effectAllowed = "move";
+  }, []);
+
+  const dropHandlers = (date: string) => {
+    if (!canReschedule || !isInRange(date)) return {};
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        if (dropTarget !== date) setDropTarget(date);
+      },
+      onDragLeave: () => setDropTarget((cur) => (cur === date ? null : cur)),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const entry = openById.get(e.dataTransfer.getData(DRAG_TYPE));
+        if (entry) onReschedule(entry, date);
+      },
+    };
+  };
+
+  const renderItems = (day: DaySummary, limit?: number) => {
+    const items = [
+      ...day.open.map((e) => (
+        <OpenEntryChip
+          key={e.id}
+          entry={e}
+          draggable={canReschedule}
+          onDragStart={handleDragStart}
+          onClick={onEdit}
+        />
+      )),
+      ...day.settled.map((s) => <SettledChip key={`s-${s.id}`} settled={s} />),
+    ];
+    const shown = limit != null ? items.slice(0, limit) : items;
+    const hidden = items.length - shown.length;
+
+    return (
+      <div className="space-y-0.5">
+        {shown}
+        {hidden > 0 && (
+          <button
+            type="button"
+            onClick={() => onOpenDay(day.date)}
+            className="w-full text-left text-[10px] text-blue-700 hover:underline"
+          >
+            {t("labels.more", { count: hidden })}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const cellClass = (day: DaySummary, extra = "") =>
+    [
+      "border-r border-b border-gray-200 p-1.5 flex flex-col gap-1 min-w-0",
+      isInRange(day.date) ? "bg-white" : "bg-gray-50 opacity-60",
+      dropTarget === day.date ? "ring-2 ring-inset ring-blue-400" : "",
+      extra,
+    ].join(" ");
+
+  const dayNumberClass = (day: DaySummary, muted: boolean) =>
+    `text-[11px] font-semibold ${
+      day.date === today ? "text-blue-700" : muted ? "text-gray-400" : "text-gray-700"
+    }`;
+
+  /* ------------------------------- Render --------------------------------- */
+
+  if (mode === "agenda") {
+    return <AgendaList days={days} formatDay={formatDay} today={today} onEdit={onEdit} />;
+  }
+
+  const header = (
+    <div className="grid grid-cols-7 border-b border-gray-300 bg-gray-50 sticky top-0 z-10">
+      {weekdayLabels.map((w, i) => (
+        <div key={i} className="px-1.5 py-1 text-[10px] uppercase tracking-wide text-gray-600">
+          {w}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (mode === "week") {
+    return (
+      <div className="min-h-full flex flex-col">
+        {header}
+        <div className="grid grid-cols-7 flex-1">
+          {days.map((day) => (
+            <div key={day.date} className={cellClass(day, "min-h-[320px]")} {...dropHandlers(day.date)}>
+              <div className="flex items-start justify-between gap-1">
+                <span className={dayNumberClass(day, false)}>{formatDay(day.date)}</span>
+              </div>
+              <DayTotals day={day} />
+              {renderItems(day)}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const month = anchor.getMonth();
+
+  return (
+    <div>
+      {header}
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const muted = parseISO(day.date).getMonth() !== month;
+          return (
+            <div key={day.date} className={cellClass(day, "min-h-[120px]")} {...dropHandlers(day.date)}>
+              <div className="flex items-start justify-between gap-1">
+                <button
+                  type="button"
+                  onClick={() => onOpenDay(day.date)}
+                  className={`${dayNumberClass(day, muted)} hover:underline`}
+                  aria-label={formatDay(day.date)}
+                >
+                  {parseISO(day.date).getDate()}
+                </button>
+                <div className="text-right">
+                  <DayTotals day={day} compact />
+                </div>
+              </div>
+              {renderItems(day, MONTH_CELL_ITEMS)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CashFlowCalendarDesktop;
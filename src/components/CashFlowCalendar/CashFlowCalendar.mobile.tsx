@@ -0,0 +1,76 @@
+// src/components/CashFlowCalendar/CashFlowCalendar.mobile.tsx
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { parseISO } from "date-fns";
+
+import type { CalendarViewProps } from "./CashFlowCalendar";
+import { AgendaList } from "./CalendarParts";
+
+/**
+ * Touch screens have no drag and drop: the month grid only marks days with
+ * movement, and entries are rescheduled from the entry modal.
+ */
+const CashFlowCalendarMobile: React.FC<CalendarViewProps> = ({
+  mode,
+  days,
+  anchor,
+  today,
+  onEdit,
+  formatDay,
+}) => {
+  const { i18n } = useTranslation("cashFlowCalendar");
+
+  const month = anchor.getMonth();
+  const [selected, setSelected] = useState<string>(() =>
+    days.some((d) => d.date === today) ? today : (days.find((d) => parseISO(d.date).getMonth() === month)?.date ?? "")
+  );
+
+  const weekdayLabels = useMemo(() => {
+    const fmt = new Intl.DateTimeFormat(i18n.language || "en", { weekday: "narrow" });
+    return days.slice(0, 7).map((d) => fmt.format(parseISO(d.date)));
+  }, [days, i18n.language]);
+
+  if (mode !== "month") {
+    return <AgendaList days={days} formatDay={formatDay} today={today} onEdit={onEdit} />;
+  }
+
+  const selectedDay = days.filter((d) => d.date === selected);
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 border-b border-gray-200 px-1 py-1">
+        {weekdayLabels.map((w, i) => (
+          <div key={i} className="text-center text-[10px] uppercase text-gray-500">
+            {w}
+          </div>
+        ))}
+        {days.map((day) => {
+          const muted = parseISO(day.date).getMonth() !== month;
+          const isSelected = day.date === selected;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              onClick={() => setSelected(day.date)}
+              aria-pressed={isSelected}
+              aria-label={formatDay(day.date)}
+              className={`flex h-10 flex-col items-center justify-center rounded-md text-[12px] ${
+                isSelected ? "bg-gray-900 text-white" : muted ? "text-gray-400" : "text-gray-800"
+              } ${day.date === today && !isSelected ? "font-semibold text-blue-700" : ""}`}
+            >
+              {parseISO(day.date).getDate()}
+              <span className="mt-0.5 flex h-1.5 gap-0.5">
+                {day.inflow > 0 && <span className="h-1.5 w-1.5 rounded-full bg-green-600" />}
+                {day.outflow > 0 && <span className="h-1.5 w-1.5 rounded-full bg-red-600" />}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <AgendaList days={selectedDay} formatDay={formatDay} today={today} onEdit={onEdit} />
+    </div>
+  );
+};
+
+export default CashFlowCalendarMobile;
@@ -0,0 +1,214 @@
+// src/components/CashFlowCalendar/CashFlowCalendar.tsx
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { addMonths, addWeeks, parseISO, subMonths, subWeeks } from "date-fns";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { useNonBusinessDays } from "@/hooks/useNonBusinessDays";
+import { formatDateFromISO, shiftToBusinessDay } from "@/lib";
+
+import type { EntryFilters } from "@/models/components/filterBar";
+import type { Entry } from "@/models/entries/entries";
+
+import CashFlowCalendarDesktop from "./CashFlowCalendar.desktop";
+import CashFlowCalendarMobile from "./CashFlowCalendar.mobile";
+import { CalendarToolbar } from "./CalendarParts";
+import {
+  buildDaySummaries,
+  clampRange,
+  getVisibleRange,
+  listDays,
+  toISO,
+  type CalendarMode,
+  type DaySummary,
+} from "./calendar";
+import { useCalendarEntries } from "./useCalendarEntries";
+
+type Notify = (snack: { message: string; severity: "success" | "error" | "warning" | "info" }) => void;
+
+export interface CashFlowCalendarProps {
+  filters?: EntryFilters;
+  onEdit(entry: Entry): void;
+  onNotify?: Notify;
+  /** Called after a drag-and-drop reschedule so KPIs can refresh. */
+  onRescheduled?: () => void;
+}
+
+/** What the desktop and mobile layouts receive from the container. */
+export interface CalendarViewProps {
+  mode: CalendarMode;
+  days: DaySummary[];
+  anchor: Date;
+  today: string;
+  isInRange: (date: string) => boolean;
+  canReschedule: boolean;
+  onReschedule: (entry: Entry, date: string) => void;
+  onEdit: (entry: Entry) => void;
+  onOpenDay: (date: string) => void;
+  formatDay: (iso: string) => string;
+}
+
+const MOBILE_MQL = "(max-width: 639px)";
+
+const CashFlowCalendar = ({ filters, onEdit, onNotify, onRescheduled }: CashFlowCalendarProps) => {
+  const { t, i18n } = useTranslation("cashFlowCalendar");
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canReschedule = isOwner || isSuperUser || handlePermissionExists("change_cash_flow_entries");
+  const canViewSettled = isOwner || isSuperUser || handlePermissionExists("view_settled_entries");
+
+  const [isMobile, setIsMobile] = useState(() => {
+    if (typeof window === "undefined") return false;
+    return window.matchMedia(MOBILE_MQL).matches;
+  });
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const mql = window.matchMedia(MOBILE_MQL);
+    const apply = () => setIsMobile(mql.matches);
+    apply();
+    mql.addEventListener("change", apply);
+    return () => mql.removeEventListener("change", apply);
+  }, []);
+
+  const today = useMemo(() => toISO(new Date()), []);
+
+  // Open on the filtered period when there is one, otherwise on today
+  const [anchor, setAnchor] = useState<Date>(() => {
+    const start = filters?.start_date;
+    return start && start > today ? parseISO(start) : new Date();
+  });
+  const [mode, setMode] = useState<CalendarMode>(isMobile ? "agenda" : "month");
+
+  const range = useMemo(() => getVisibleRange(mode, anchor), [mode, anchor]);
+  const fetchRange = useMemo(() => clampRange(range, filters), [range, filters]);
+
+  const { open, settled, loading, error, reload, moveEntry } = useCalendarEntries({
+    filters,
+    range: fetchRange,
+    includeSettled: canViewSettled,
+  });
+
+  // A few spare days past the grid so drops near its end can still be shifted forward
+  const { days: closedDays } = useNonBusinessDays(range.from, toISO(addWeeks(parseISO(range.to), 1)));
+
+  const days = useMemo(() => {
+    const list = listDays(range);
+    const summaries = buildDaySummaries(list, open, settled);
+    return list.map((d) => summaries.get(d) as DaySummary);
+  }, [open, range, settled]);
+
+  const isInRange = useCallback(
+    (date: string) => !!fetchRange && date >= fetchRange.from && date <= fetchRange.to,
+    [fetchRange]
+  );
+
+  /* ------------------------------ Navigation ------------------------------ */
+
+  const step = useCallback(
+    (dir: 1 | -1) =>
+      setAnchor((a) =>
+        mode === "week" ? (dir > 0 ? addWeeks(a, 1) : subWeeks(a, 1)) : dir > 0 ? addMonths(a, 1) : subMonths(a, 1)
+      ),
+    [mode]
+  );
+
+  const openDay = useCallback((date: string) => {
+    setAnchor(parseISO(date));
+    setMode("week");
+  }, []);
+
+  const lang = i18n.language || "en";
+
+  const title = useMemo(() => {
+    if (mode === "week") return `${formatDateFromISO(range.from)} – ${formatDateFromISO(range.to)}`;
+    return new Intl.DateTimeFormat(lang, { month: "long", year: "numeric" }).format(anchor);
+  }, [anchor, lang, mode, range]);
+
+  const formatDay = useCallback(
+    (iso: string) =>
+      new Intl.DateTimeFormat(lang, { weekday: "short", day: "numeric", month: "short" }).format(parseISO(iso)),
+    [lang]
+  );
+
+  /* ------------------------------ Reschedule ------------------------------ */
+
+  const reschedule = useCallback(
+    async (entry: Entry, dropped: string) => {
+      // Same rule the entry follows everywhere else: its `weekend_action` moves it off closed days
+      const date = shiftToBusinessDay(dropped, entry.weekend_action, closedDays);
+      if (!canReschedule || entry.due_date === date) return;
+
+      moveEntry(entry.id, date);
+      try {
+        await api.editEntry(entry.id, { due_date: date });
+        onNotify?.({
+          message:
+            date === dropped
+              ? t("toast.rescheduled", { date: formatDateFromISO(date) })
+              : t("toast.rescheduledShifted", { dropped: formatDateFromISO(dropped), date: formatDateFromISO(date) }),
+          severity: "success",
+        });
+        onRescheduled?.();
+      } catch (err) {
+        console.error(err);
+        onNotify?.({ message: t("errors.reschedule"), severity: "error" });
+      } finally {
+        // Running balances change for every later day, so refetch either way
+        reload();
+      }
+    },
+    [canReschedule, closedDays, moveEntry, onNotify, onRescheduled, reload, t]
+  );
+
+  const viewProps: CalendarViewProps = {
+    mode,
+    days,
+    anchor,
+    today,
+    isInRange,
+    canReschedule,
+    onReschedule: (entry, date) => void reschedule(entry, date),
+    onEdit,
+    onOpenDay: openDay,
+    formatDay,
+  };
+
+  return (
+    <div className="h-full min-h-0 flex flex-col rounded-md border border-gray-300 bg-white overflow-hidden">
+      <CalendarToolbar
+        title={title}
+        mode={mode}
+        modes={["month", "week", "agenda"]}
+        onModeChange={setMode}
+        onPrev={() => step(-1)}
+        onNext={() => step(1)}
+        onToday={() => setAnchor(new Date())}
+        loading={loading}
+      />
+
+      {error ? (
+        <div className="p-6 text-center">
+          <p className="text-[13px] font-medium text-red-700 mb-2">{t("errors.fetch")}</p>
+          <button type="button" onClick={reload} className="text-[12px] text-blue-700 hover:underline">
+            {t("nav.retry")}
+          </button>
+        </div>
+      ) : !fetchRange ? (
+        <p className="p-6 text-center text-[12px] text-gray-500">{t("labels.outOfRange")}</p>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-auto">
+          {isMobile ? (
+            // Remount per period so the selected day starts inside the new month
+            <CashFlowCalendarMobile key={range.from} {...viewProps} />
+          ) : (
+            <CashFlowCalendarDesktop {...viewProps} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashFlowCalendar;
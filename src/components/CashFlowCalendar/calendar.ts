@@ -0,0 +1,144 @@
+// src/components/CashFlowCalendar/calendar.ts
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+import { convertToOrg, isForeignCurrency } from "@/lib/currency";
+import type { EntryFilters } from "@/models/components/filterBar";
+import type { Entry } from "@/models/entries/entries";
+import type { SettledEntry } from "@/models/entries/settlements";
+
+export type CalendarMode = "month" | "week" | "agenda";
+
+export type CalendarRange = { from: string; to: string };
+
+export type DaySummary = {
+  date: string;
+  open: Entry[];
+  settled: SettledEntry[];
+  inflow: number;
+  outflow: number;
+  /** Projected balance at the end of the day; null before any open entry is known. */
+  closing: number | null;
+};
+
+const ISO = "yyyy-MM-dd";
+const WEEK = { weekStartsOn: 1 as const };
+
+export const toISO = (d: Date) => format(d, ISO);
+
+/* ------------------------------- Ranges ----------------------------------- */
+
+/** Days shown by the grid: whole weeks around the month, one week, or the month for the agenda. */
+export function getVisibleRange(mode: CalendarMode, anchor: Date): CalendarRange {
+  if (mode === "week") {
+    return { from: toISO(startOfWeek(anchor, WEEK)), to: toISO(endOfWeek(anchor, WEEK)) };
+  }
+  if (mode === "agenda") {
+    return { from: toISO(startOfMonth(anchor)), to: toISO(endOfMonth(anchor)) };
+  }
+  return {
+    from: toISO(startOfWeek(startOfMonth(anchor), WEEK)),
+    to: toISO(endOfWeek(endOfMonth(anchor), WEEK)),
+  };
+}
+
+/** Visible range narrowed by the FilterBar dates; null when they don't overlap. */
+export function clampRange(range: CalendarRange, filters?: EntryFilters): CalendarRange | null {
+  const from = filters?.start_date && filters.start_date > range.from ? filters.start_date : range.from;
+  const to = filters?.end_date && filters.end_date < range.to ? filters.end_date : range.to;
+  return from <= to ? { from, to } : null;
+}
+
+export function listDays(range: CalendarRange): string[] {
+  const out: string[] = [];
+  for (let d = parseISO(range.from); toISO(d) <= range.to; d = addDays(d, 1)) out.push(toISO(d));
+  return out;
+}
+
+/* ------------------------------- Amounts ---------------------------------- */
+
+const isCredit = (txType: string) => String(txType ?? "").toLowerCase().includes("credit");
+
+/**
+ * Signed org-currency amount still open, so partly settled entries only count
+ * their remainder. Foreign entries convert at the booked rate, falling back to
+ * the same share of `amount_org`; unconverted ones count as zero like in the table.
+ */
+export function signedOpenAmount(e: Entry): number {
+  const open = parseFloat(e.open_amount ?? e.amount ?? "0") || 0;
+  let n = open;
+  if (isForeignCurrency(e.currency)) {
+    const full = parseFloat(e.amount ?? "0") || 0;
+    const org = parseFloat(e.amount_org ?? "") || 0;
+    n = convertToOrg(open, e.fx_rate) ?? (full ? (org * open) / full : 0);
+  }
+  return isCredit(e.tx_type) ? n : -n;
+}
+
+export function signedSettledAmount(s: SettledEntry): number {
+  if (isForeignCurrency(s.currency) && !s.amount_org) return 0;
+  const n = parseFloat(s.amount_org ?? s.amount ?? "0") || 0;
+  return isCredit(s.tx_type) ? n : -n;
+}
+
+const serverRunning = (e: Entry): number | null => {
+  if (typeof e.running_balance !== "string" || !e.running_balance.length) return null;
+  const n = Number(e.running_balance);
+  return Number.isFinite(n) ? n : null;
+};
+
+/* ------------------------------ Day totals -------------------------------- */
+
+/**
+ * Groups entries by day. The closing balance comes from the server running
+ * balance of the day's last open entry and is carried over empty days; days
+ * before the first open entry use that entry's opening balance.
+ */
+export function buildDaySummaries(
+  days: string[],
+  open: Entry[],
+  settled: SettledEntry[]
+): Map<string, DaySummary> {
+  const out = new Map<string, DaySummary>();
+  for (const date of days) out.set(date, { date, open: [], settled: [], inflow: 0, outflow: 0, closing: null });
+
+  const sortedOpen = [...open].sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+  for (const e of sortedOpen) {
+    const day = out.get(e.due_date);
+    if (!day) continue;
+    const v = signedOpenAmount(e);
+    day.open.push(e);
+    if (v >= 0) day.inflow += v;
+    else day.outflow += -v;
+    const running = serverRunning(e);
+    if (running !== null) day.closing = running;
+  }
+
+  for (const s of settled) {
+    const day = out.get(s.value_date);
+    if (!day) continue;
+    const v = signedSettledAmount(s);
+    day.settled.push(s);
+    if (v >= 0) day.inflow += v;
+    else day.outflow += -v;
+  }
+
+  const first = sortedOpen.find((e) => serverRunning(e) !== null);
+  let carry: number | null = first ? (serverRunning(first) as number) - signedOpenAmount(first) : null;
+
+  for (const date of days) {
+    const day = out.get(date) as DaySummary;
+    if (day.closing === null) day.closing = carry;
+    else carry = day.closing;
+  }
+
+  return out;
+}
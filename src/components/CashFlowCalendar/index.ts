@@ -0,0 +1,2 @@
+export { default as CashFlowCalendar } from "./CashFlowCalendar";
+export type { CashFlowCalendarProps } from "./CashFlowCalendar";
@@ -0,0 +1,82 @@
+// src/components/CashFlowCalendar/useCalendarEntries.ts
+import { useCallback, useEffect, useState } from "react";
+
+import { api } from "@/api/requests";
+import { buildEntryQuery, buildSettledEntryQuery, fetchAllCursor } from "@/lib/list";
+import type { EntryFilters } from "@/models/components/filterBar";
+import type { Entry } from "@/models/entries/entries";
+import type { SettledEntry } from "@/models/entries/settlements";
+
+import type { CalendarRange } from "./calendar";
+
+type Options = {
+  filters?: EntryFilters;
+  range: CalendarRange | null;
+  includeSettled: boolean;
+};
+
+/** Open entries and settlements inside `range`, using the same filters as the tables. */
+export function useCalendarEntries({ filters, range, includeSettled }: Options) {
+  const [open, setOpen] = useState<Entry[]>([]);
+  const [settled, setSettled] = useState<SettledEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    if (!from || !to) {
+      setOpen([]);
+      setSettled([]);
+      setLoading(false);
+      return;
+    }
+
+    let alive = true;
+    setLoading(true);
+    setError(false);
+
+    (async () => {
+      try {
+        const [openRows, settledRows] = await Promise.all([
+          fetchAllCursor<Entry>((p) =>
+            api.getEntriesTable({ ...buildEntryQuery(filters), date_from: from, date_to: to, cursor: p.cursor })
+          ),
+          includeSettled
+            ? fetchAllCursor<SettledEntry>((p) =>
+                api.getSettledEntriesTable({
+                  ...buildSettledEntryQuery(filters),
+                  value_from: from,
+                  value_to: to,
+                  cursor: p.cursor,
+                })
+              )
+            : Promise.resolve([] as SettledEntry[]),
+        ]);
+        if (!alive) return;
+        setOpen(openRows);
+        setSettled(settledRows);
+      } catch (err) {
+        console.error(err);
+        if (alive) setError(true);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [filters, from, to, includeSettled, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((k) => k + 1), []);
+
+  /** Moves an entry locally so a drop shows immediately; `reload` brings back server balances. */
+  const moveEntry = useCallback((id: string, dueDate: string) => {
+    setOpen((prev) => prev.map((e) => (e.id === id ? { ...e, due_date: dueDate } : e)));
+  }, []);
+
+  return { open, settled, loading, error, reload, moveEntry };
+}
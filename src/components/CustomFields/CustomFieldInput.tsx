@@ -0,0 +1,77 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+
+import Input from "@/shared/ui/Input";
+import { Select } from "src/shared/ui/Select";
+
+import type { CustomFieldDefinition, CustomFieldValue } from "@/models/settings/customFields";
+
+type Option = { value: string };
+
+type Props = {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  id?: string;
+  disabled?: boolean;
+};
+
+/** One control per field type; values stay strings (or string lists) as the API stores them. */
+const CustomFieldInput: React.FC<Props> = ({ field, value, onChange, id, disabled }) => {
+  const { t } = useTranslation("entriesModal");
+  const label = field.is_required ? `${field.label} *` : field.label;
+
+  switch (field.field_type) {
+    case "select":
+    case "multi_select": {
+      const items: Option[] = field.options.map((o) => ({ value: o }));
+      const picked = Array.isArray(value) ? value : value ? [value] : [];
+      const single = field.field_type === "select";
+      return (
+        <div id={id}>
+          <Select<Option>
+            label={label}
+            items={items}
+            selected={items.filter((o) => picked.includes(o.value))}
+            onChange={(list) => onChange(single ? list[0]?.value ?? "" : list.map((o) => o.value))}
+            getItemKey={(o) => o.value}
+            getItemLabel={(o) => o.value}
+            buttonLabel={t("customFields.choose")}
+            singleSelect={single}
+            hideCheckboxes={single}
+            clearOnClickOutside={false}
+            customStyles={{ maxHeight: "200px" }}
+            disabled={disabled}
+          />
+        </div>
+      );
+    }
+
+    case "date":
+      return (
+        <Input
+          kind="date"
+          id={id}
+          label={label}
+          value={typeof value === "string" ? value : ""}
+          onValueChange={(iso) => onChange(iso)}
+          disabled={disabled}
+        />
+      );
+
+    default:
+      return (
+        <Input
+          kind="text"
+          id={id}
+          label={label}
+          inputMode={field.field_type === "number" ? "decimal" : undefined}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      );
+  }
+};
+
+export default CustomFieldInput;
@@ -0,0 +1 @@
+export { default as CustomFieldInput } from './CustomFieldInput';
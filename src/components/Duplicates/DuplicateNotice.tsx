@@ -0,0 +1,55 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { CopyCheck } from "lucide-react";
+
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { formatDateFromISO } from "@/lib";
+import type { DuplicateHit } from "@/hooks/useDuplicateCheck";
+
+type Props = {
+  matches: DuplicateHit[];
+  /** Rows listed before collapsing the rest into "+N more". */
+  max?: number;
+  className?: string;
+};
+
+const DuplicateNotice: React.FC<Props> = ({ matches, max = 3, className = "" }) => {
+  const { t } = useTranslation("duplicates");
+
+  if (!matches.length) return null;
+
+  const visible = matches.slice(0, max);
+  const hidden = matches.length - visible.length;
+
+  return (
+    <div className={`rounded-md border border-amber-200 bg-amber-50 px-3 py-2 ${className}`} role="status">
+      <div className="flex items-center gap-2 text-[12px] font-medium text-amber-800">
+        <CopyCheck size={14} className="shrink-0" aria-hidden="true" />
+        {t("notice.title", { count: matches.length })}
+      </div>
+
+      <ul className="mt-1.5 space-y-1">
+        {visible.map(({ entry, score, signals }) => (
+          <li key={entry.id} className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[11px] text-amber-900">
+            <span className="tabular-nums">{formatDateFromISO(entry.due_date)}</span>
+            <span className="font-semibold tabular-nums">{formatCurrency(entry.amount, entry.currency ?? undefined)}</span>
+            <span className="min-w-0 max-w-[260px] truncate">{entry.description || "—"}</span>
+            {entry.is_settled ? (
+              <span className="rounded-full bg-white px-1.5 py-0.5 text-[10px] text-gray-600">{t("notice.settled")}</span>
+            ) : null}
+            <span className="text-amber-700">{t("notice.score", { percent: Math.round(score * 100) })}</span>
+            {signals.length ? (
+              <span className="text-amber-700">
+                ({signals.map((s) => t(`signals.${s}`)).join(", ")})
+              </span>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      {hidden > 0 ? <p className="mt-1 text-[11px] text-amber-700">{t("notice.more", { count: hidden })}</p> : null}
+    </div>
+  );
+};
+
+export default DuplicateNotice;
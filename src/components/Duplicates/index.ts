@@ -0,0 +1 @@
+export { default as DuplicateNotice } from './DuplicateNotice';
@@ -0,0 +1,42 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { MessageSquare } from "lucide-react";
+
+type Props = {
+  count?: number;
+  onClick: () => void;
+  /** Touch layouts have no hover, so the empty badge stays visible there. */
+  alwaysVisible?: boolean;
+  className?: string;
+};
+
+/** Row counter that opens the thread; without comments it only shows on row hover (`group`). */
+const CommentsBadge: React.FC<Props> = ({ count = 0, onClick, alwaysVisible = false, className = "" }) => {
+  const { t } = useTranslation("entryComments");
+  const label = count ? t("badge.count", { count }) : t("badge.start");
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      // Rows select themselves on Enter/Space
+      onKeyDown={(e) => e.stopPropagation()}
+      className={[
+        "inline-flex items-center gap-0.5 rounded px-1 leading-none hover:bg-gray-100 hover:text-gray-700 focus:opacity-100",
+        count ? "text-gray-600" : "text-gray-400",
+        count || alwaysVisible ? "" : "opacity-0 group-hover:opacity-100",
+        className,
+      ].join(" ")}
+      aria-label={label}
+      title={label}
+    >
+      <MessageSquare size={10} aria-hidden="true" />
+      {count ? <span className="tabular-nums">{count}</span> : null}
+    </button>
+  );
+};
+
+export default CommentsBadge;
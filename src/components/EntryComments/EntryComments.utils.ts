@@ -0,0 +1,63 @@
+// src/components/EntryComments/EntryComments.utils.ts
+
+import type { CommentMention } from "@/models/entries/comments";
+
+/** "@" token being typed right before the caret. */
+export type MentionQuery = {
+  start: number; // index of the "@"
+  query: string;
+};
+
+export type BodySegment = {
+  text: string;
+  mention: boolean;
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const m = /(^|\s)@([^\s@]{0,30})$/.exec(text.slice(0, caret));
+  if (!m) return null;
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
+
+/** Replaces the "@query" under the caret with "@Name " and returns the new caret. */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  name: string
+): { text: string; caret: number } {
+  const token = `@${name} `;
+  return {
+    text: text.slice(0, mention.start) + token + text.slice(caret),
+    caret: mention.start + token.length,
+  };
+}
+
+/**
+ * Ids of picked members whose "@Name" is still in the text; a mention deleted
+ * while editing does not notify anyone.
+ */
+export function mentionedIds(text: string, picked: Map<string, string>): string[] {
+  return [...picked].filter(([, name]) => text.includes(`@${name}`)).map(([id]) => id);
+}
+
+/** Splits a body so "@Name" runs of mentioned members can be highlighted. */
+export function splitMentions(body: string, mentions: CommentMention[]): BodySegment[] {
+  const names = [...new Set(mentions.map((m) => m.name).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (!names.length) return [{ text: body, mention: false }];
+
+  const re = new RegExp(`@(?:${names.map(escapeRegExp).join("|")})`, "g");
+  const out: BodySegment[] = [];
+  let last = 0;
+
+  for (const m of body.matchAll(re)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push({ text: body.slice(last, at), mention: false });
+    out.push({ text: m[0], mention: true });
+    last = at + m[0].length;
+  }
+  if (last < body.length) out.push({ text: body.slice(last), mention: false });
+  return out;
+}
@@ -0,0 +1,352 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/EntryComments/EntryCommentsThread.tsx                 */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { MessageSquare, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+import Button from "@/shared/ui/Button";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { formatDateFromISO, getCursorFromUrl } from "@/lib";
+import type { Member } from "@/models/auth/members";
+import type { CommentOwnerType, EntryComment } from "@/models/entries/comments";
+
+import {
+  findMentionQuery,
+  insertMention,
+  mentionedIds,
+  splitMentions,
+  type MentionQuery,
+} from "./EntryComments.utils";
+
+type Props = {
+  ownerType: CommentOwnerType;
+  ownerId: string;
+  /** Called after posting (+1) or deleting (-1), e.g. to bump a row badge. */
+  onCommentsChange?: (delta: 1 | -1) => void;
+};
+
+const PAGE_SIZE = 50;
+const MAX_SUGGESTIONS = 6;
+
+const CommentItem: React.FC<{
+  comment: EntryComment;
+  canDelete: boolean;
+  busy: boolean;
+  onDelete: (comment: EntryComment) => void;
+}> = ({ comment, canDelete, busy, onDelete }) => {
+  const { t } = useTranslation("entryComments");
+
+  const when = new Date(comment.created_at);
+  const stamp = Number.isNaN(when.getTime())
+    ? ""
+    : `${formatDateFromISO(comment.created_at)} ${format(when, "HH:mm")}`;
+
+  return (
+    <li className="group rounded-md border border-gray-200 bg-white px-3 py-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[12px] font-medium text-gray-900">{comment.author.name || comment.author.email}</span>
+        <span className="text-[11px] text-gray-500">{stamp}</span>
+        {comment.edited_at ? <span className="text-[11px] text-gray-400">{t("edited")}</span> : null}
+        {canDelete ? (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => onDelete(comment)}
+            className="ml-auto grid h-6 w-6 place-items-center rounded text-gray-400 opacity-0 hover:bg-gray-100 hover:text-gray-700 focus:opacity-100 group-hover:opacity-100"
+            aria-label={t("actions.delete")}
+            title={t("actions.delete")}
+          >
+            <Trash2 size={12} />
+          </button>
+        ) : null}
+      </div>
+      <p className="mt-1 whitespace-pre-wrap break-words text-[13px] text-gray-800">
+        {splitMentions(comment.body, comment.mentions).map((seg, i) =>
+          seg.mention ? (
+            <span key={i} className="rounded bg-sky-50 px-0.5 font-medium text-sky-700">
+              {seg.text}
+            </span>
+          ) : (
+            <React.Fragment key={i}>{seg.text}</React.Fragment>
+          )
+        )}
+      </p>
+    </li>
+  );
+};
+
+const EntryCommentsThread: React.FC<Props> = ({ ownerType, ownerId, onCommentsChange }) => {
+  const { t } = useTranslation("entryComments");
+  const { user } = useAuthContext();
+
+  const [comments, setComments] = useState<EntryComment[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [members, setMembers] = useState<Member[]>([]);
+  const [draft, setDraft] = useState("");
+  const [picked, setPicked] = useState<Map<string, string>>(new Map());
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [highlight, setHighlight] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Guards against a slow response for a previous owner landing after a switch
+  const requestRef = useRef(0);
+
+  const load = useCallback(
+    async (nextCursor?: string) => {
+      const reqId = ++requestRef.current;
+      if (nextCursor) setLoadingMore(true);
+      else setLoading(true);
+      setError(null);
+
+      try {
+        const { data } = await api.getEntryComments(ownerType, ownerId, { page_size: PAGE_SIZE, cursor: nextCursor });
+        if (reqId !== requestRef.current) return;
+
+        const incoming = data.results ?? [];
+        setComments((prev) => (nextCursor ? [...prev, ...incoming] : incoming));
+        setCursor(getCursorFromUrl(data.next) ?? null);
+      } catch (e) {
+        console.error(e);
+        if (reqId === requestRef.current) setError(t("errors.load"));
+      } finally {
+        if (reqId === requestRef.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [ownerId, ownerType, t]
+  );
+
+  useEffect(() => {
+    setComments([]);
+    setCursor(null);
+    setDraft("");
+    setPicked(new Map());
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    let alive = true;
+    api
+      .getMembers()
+      .then(({ data }) => {
+        if (alive) setMembers(data.members ?? []);
+      })
+      .catch((err) => console.error("Failed to load members:", err));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const suggestions = useMemo(() => {
+    if (!mention) return [];
+    const q = mention.query.toLowerCase();
+    return members
+      .filter((m) => m.id !== user?.id)
+      .filter((m) => !q || m.name.toLowerCase().includes(q) || m.email.toLowerCase().includes(q))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [members, mention, user?.id]);
+
+  const syncMention = useCallback((text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setHighlight(0);
+  }, []);
+
+  const pickMember = useCallback(
+    (member: Member) => {
+      const el = textareaRef.current;
+      if (!mention || !el) return;
+
+      const next = insertMention(draft, mention, el.selectionStart ?? draft.length, member.name);
+      setDraft(next.text);
+      setPicked((prev) => new Map(prev).set(member.id, member.name));
+      setMention(null);
+
+      window.requestAnimationFrame(() => {
+        el.focus();
+        el.setSelectionRange(next.caret, next.caret);
+      });
+    },
+    [draft, mention]
+  );
+
+  const submit = useCallback(async () => {
+    const body = draft.trim();
+    if (!body || busy) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const { data } = await api.addEntryComment(ownerType, ownerId, {
+        body,
+        mention_ids: mentionedIds(body, picked),
+      });
+      setComments((prev) => [...prev, data]);
+      setDraft("");
+      setPicked(new Map());
+      setMention(null);
+      onCommentsChange?.(1);
+    } catch (e) {
+      console.error(e);
+      setError(t("errors.post"));
+    } finally {
+      setBusy(false);
+    }
+  }, [busy, draft, onCommentsChange, ownerId, ownerType, picked, t]);
+
+  const remove = useCallback(
+    async (comment: EntryComment) => {
+      if (!window.confirm(t("confirm.delete"))) return;
+
+      setBusy(true);
+      setError(null);
+      try {
+        await api.deleteEntryComment(comment.id);
+        setComments((prev) => prev.filter((c) => c.id !== comment.id));
+        onCommentsChange?.(-1);
+      } catch (e) {
+        console.error(e);
+        setError(t("errors.delete"));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onCommentsChange, t]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlight((h) => (h + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pickMember(suggestions[highlight] ?? suggestions[0]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      void submit();
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <div className="min-h-0 flex-1">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Spinner />
+          </div>
+        ) : comments.length ? (
+          <ul className="space-y-2">
+            {comments.map((c) => (
+              <CommentItem
+                key={c.id}
+                comment={c}
+                canDelete={!!user?.id && c.author.id === user.id}
+                busy={busy}
+                onDelete={(comment) => void remove(comment)}
+              />
+            ))}
+          </ul>
+        ) : (
+          <p className="flex items-center gap-1.5 py-2 text-[12px] text-gray-500">
+            <MessageSquare size={13} />
+            {t("empty")}
+          </p>
+        )}
+
+        {cursor ? (
+          <div className="mt-3 flex justify-center">
+            <button
+              type="button"
+              disabled={loadingMore}
+              onClick={() => void load(cursor)}
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-3 py-1.5 text-[12px] text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loadingMore ? <Spinner size={12} /> : null}
+              {t("actions.loadMore")}
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="relative shrink-0 border-t border-gray-200 pt-3">
+        {suggestions.length ? (
+          <ul
+            role="listbox"
+            aria-label={t("composer.suggestions")}
+            className="absolute bottom-full left-0 right-0 mb-1 max-h-56 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+          >
+            {suggestions.map((m, i) => (
+              <li key={m.id} role="option" aria-selected={i === highlight}>
+                <button
+                  type="button"
+                  // Keep focus in the textarea so the caret position survives the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => pickMember(m)}
+                  className={`flex w-full flex-col px-3 py-1.5 text-left ${i === highlight ? "bg-gray-100" : "hover:bg-gray-50"}`}
+                >
+                  <span className="text-[12px] text-gray-900">{m.name}</span>
+                  <span className="text-[11px] text-gray-500">{m.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <label htmlFor={`comment-input-${ownerId}`} className="sr-only">
+          {t("composer.label")}
+        </label>
+        <textarea
+          id={`comment-input-${ownerId}`}
+          ref={textareaRef}
+          rows={3}
+          value={draft}
+          disabled={busy}
+          placeholder={t("composer.placeholder")}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            syncMention(e.target.value, e.target.selectionStart ?? e.target.value.length);
+          }}
+          onSelect={(e) => syncMention(e.currentTarget.value, e.currentTarget.selectionStart ?? 0)}
+          onBlur={() => setMention(null)}
+          onKeyDown={handleKeyDown}
+          className="w-full resize-none rounded-md border border-gray-300 px-3 py-2 text-[13px] text-gray-900 focus:border-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-200 disabled:opacity-60"
+        />
+
+        {error ? <p className="mt-1 text-[12px] text-red-600">{error}</p> : null}
+
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <span className="text-[11px] text-gray-500">{t("composer.hint")}</span>
+          <Button size="sm" onClick={() => void submit()} disabled={busy || !draft.trim()}>
+            {t("actions.post")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryCommentsThread;
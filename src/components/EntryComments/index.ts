@@ -0,0 +1,3 @@
+export { default as EntryCommentsThread } from './EntryCommentsThread';
+export { default as EntryCommentsDrawer } from './EntryCommentsDrawer';
+export { default as CommentsBadge } from './CommentsBadge';
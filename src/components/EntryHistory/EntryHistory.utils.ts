@@ -0,0 +1,76 @@
+// src/components/EntryHistory/EntryHistory.utils.ts
+
+import type { TFunction } from "i18next";
+
+import { formatCurrency, formatDateFromISO } from "@/lib";
+import type { EntryFieldChange, EntryHistoryEvent } from "@/models/entries/history";
+
+/** Fields shown with a translated label; anything else falls back to the raw name. */
+export const KNOWN_FIELDS = [
+  "description",
+  "observation",
+  "notes",
+  "amount",
+  "due_date",
+  "value_date",
+  "tx_type",
+  "cashflow_category",
+  "bank",
+  "project",
+  "entity",
+  "document_type",
+  "departments",
+  "items",
+  "installment_count",
+  "interval_months",
+  "weekend_action",
+  "settled",
+] as const;
+
+const AMOUNT_FIELDS = new Set(["amount", "amount_min", "amount_max"]);
+const DATE_FIELDS = new Set(["due_date", "value_date", "settled_on"]);
+
+export function fieldLabel(t: TFunction, field: string): string {
+  return (KNOWN_FIELDS as readonly string[]).includes(field) ? t(`fields.${field}`) : field;
+}
+
+export function formatChangeValue(
+  t: TFunction,
+  change: EntryFieldChange,
+  side: "old" | "new"
+): string {
+  const label = side === "old" ? change.old_label : change.new_label;
+  if (label) return label;
+
+  const raw = side === "old" ? change.old_value : change.new_value;
+  if (raw === null || raw === undefined || raw === "") return t("values.empty");
+  if (typeof raw === "boolean") return raw ? t("values.yes") : t("values.no");
+
+  if (AMOUNT_FIELDS.has(change.field)) return formatCurrency(raw);
+  if (DATE_FIELDS.has(change.field)) return formatDateFromISO(String(raw));
+  if (change.field === "tx_type") {
+    const v = String(raw);
+    if (v === "1" || v === "credit") return t("values.credit");
+    if (v === "-1" || v === "debit") return t("values.debit");
+  }
+
+  return String(raw);
+}
+
+/** Groups events by local calendar day, keeping the incoming (newest first) order. */
+export function groupEventsByDay(events: EntryHistoryEvent[]) {
+  const groups: Array<{ day: string; events: EntryHistoryEvent[] }> = [];
+
+  for (const ev of events) {
+    const d = new Date(ev.occurred_at);
+    const day = Number.isNaN(d.getTime())
+      ? ev.occurred_at.slice(0, 10)
+      : `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) last.events.push(ev);
+    else groups.push({ day, events: [ev] });
+  }
+
+  return groups;
+}
@@ -0,0 +1,112 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/EntryHistory/EntryHistoryDrawer.tsx                   */
+/* -------------------------------------------------------------------------- */
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { X } from "lucide-react";
+
+import EntryHistoryTimeline from "./EntryHistoryTimeline";
+
+interface Props {
+  open: boolean;
+  ownerType: "entry" | "settlement";
+  ownerId: string | null;
+  /** Shown under the title, usually the entry description. */
+  subtitle?: string;
+  onClose: () => void;
+}
+
+const EntryHistoryDrawer: React.FC<Props> = ({ open, ownerType, ownerId, subtitle, onClose }) => {
+  const { t } = useTranslation("entryHistory");
+
+  const [mounted, setMounted] = React.useState(open);
+  const [visible, setVisible] = React.useState(open);
+
+  React.useEffect(() => {
+    if (open) {
+      setMounted(true);
+      setVisible(false);
+
+      const id = window.setTimeout(() => setVisible(true), 16);
+      return () => window.clearTimeout(id);
+    }
+
+    setVisible(false);
+
+    const id = window.setTimeout(() => setMounted(false), 300);
+    return () => window.clearTimeout(id);
+  }, [open]);
+
+  React.useEffect(() => {
+    if (!mounted) return;
+
+    const prevOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.body.style.overflow = prevOverflow;
+    };
+  }, [mounted]);
+
+  React.useEffect(() => {
+    if (!mounted) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [mounted, onClose]);
+
+  if (!mounted) return null;
+
+  return (
+    <div className="fixed inset-0 z-[9999]">
+      <div className="absolute inset-0" onClick={onClose} aria-hidden="true" />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="entry-history-drawer-title"
+        className={[
+          "absolute inset-y-0 right-0 flex h-full w-full max-w-[420px] flex-col border-l border-gray-200 bg-white",
+          "transition-transform duration-300 ease-out",
+          visible ? "translate-x-0" : "translate-x-full",
+        ].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="shrink-0 border-b border-gray-200 bg-white/95 backdrop-blur">
+          <div className="flex items-center justify-between gap-3 px-4 py-3 md:px-6 md:py-4">
+            <div className="min-w-0">
+              <div className="text-[10px] uppercase tracking-[0.18em] text-gray-500">{t("drawer.eyebrow")}</div>
+              <h2 id="entry-history-drawer-title" className="mt-1 truncate text-[18px] font-semibold text-gray-900">
+                {t("drawer.title")}
+              </h2>
+              {subtitle ? <p className="mt-0.5 truncate text-[12px] text-gray-500">{subtitle}</p> : null}
+            </div>
+
+            <button
+              type="button"
+              onClick={onClose}
+              className="h-9 w-9 rounded-full border border-gray-200 text-gray-500 hover:text-gray-700 hover:bg-gray-50 grid place-items-center shrink-0"
+              aria-label={t("actions.close")}
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </header>
+
+        <div className="min-h-0 flex-1 overflow-y-auto px-4 py-4 md:px-6 md:py-6">
+          {ownerId ? <EntryHistoryTimeline ownerType={ownerType} ownerId={ownerId} /> : null}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryHistoryDrawer;
@@ -0,0 +1,199 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/EntryHistory/EntryHistoryTimeline.tsx                 */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowRight, History } from "lucide-react";
+import { format } from "date-fns";
+
+import Spinner from "@/shared/ui/Loaders/Spinner";
+import { api } from "@/api/requests";
+import { formatDateFromISO, getCursorFromUrl } from "@/lib";
+import type { EntryHistoryEvent, EntryHistorySource } from "@/models/entries/history";
+
+import { fieldLabel, formatChangeValue, groupEventsByDay } from "./EntryHistory.utils";
+
+type Props = {
+  ownerType: "entry" | "settlement";
+  ownerId: string;
+};
+
+const PAGE_SIZE = 30;
+
+const SOURCE_STYLES: Record<EntryHistorySource, string> = {
+  manual: "bg-gray-100 text-gray-700",
+  bulk_edit: "bg-amber-50 text-amber-700",
+  statement_import: "bg-sky-50 text-sky-700",
+  transfer: "bg-violet-50 text-violet-700",
+  settlement: "bg-emerald-50 text-emerald-700",
+  reversal: "bg-red-50 text-red-700",
+  system: "bg-gray-50 text-gray-500",
+};
+
+const EventItem: React.FC<{ event: EntryHistoryEvent }> = ({ event }) => {
+  const { t } = useTranslation("entryHistory");
+
+  const when = new Date(event.occurred_at);
+  const time = Number.isNaN(when.getTime()) ? "" : format(when, "HH:mm");
+  const actor = event.actor?.name || event.actor?.email || t("actor.system");
+
+  const ctx = event.context;
+  const ref = ctx?.bulk_operation_id
+    ? t("context.bulk", { id: ctx.bulk_operation_id })
+    : ctx?.import_session_id
+      ? t("context.import", { id: ctx.import_session_id })
+      : ctx?.transfer_id
+        ? t("context.transfer", { id: ctx.transfer_id })
+        : ctx?.journal_entry_id
+          ? t("context.journal", { id: ctx.journal_entry_id })
+          : null;
+
+  return (
+    <li className="relative pl-5">
+      <span className="absolute left-0 top-1.5 h-2 w-2 rounded-full bg-gray-400" aria-hidden="true" />
+
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+        <span className="text-[13px] font-medium text-gray-900">{actor}</span>
+        <span className="text-[12px] text-gray-600">{t(`events.${event.action}`)}</span>
+        <span
+          className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide ${
+            SOURCE_STYLES[event.source] ?? SOURCE_STYLES.system
+          }`}
+        >
+          {t(`sources.${event.source}`)}
+        </span>
+        <span className="ml-auto text-[11px] text-gray-500">{time}</span>
+      </div>
+
+      {ref ? <p className="mt-0.5 text-[11px] text-gray-500">{ref}</p> : null}
+
+      {event.changes.length ? (
+        <ul className="mt-2 space-y-1 rounded-md border border-gray-200 bg-gray-50 px-3 py-2">
+          {event.changes.map((c) => (
+            <li key={c.field} className="grid grid-cols-[110px_1fr] gap-2 text-[12px]">
+              <span className="truncate text-gray-500" title={c.field}>
+                {fieldLabel(t, c.field)}
+              </span>
+              <span className="flex min-w-0 flex-wrap items-center gap-1">
+                <span className="break-all text-gray-500 line-through">{formatChangeValue(t, c, "old")}</span>
+                <ArrowRight size={12} className="shrink-0 text-gray-400" />
+                <span className="break-all text-gray-900">{formatChangeValue(t, c, "new")}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+};
+
+const EntryHistoryTimeline: React.FC<Props> = ({ ownerType, ownerId }) => {
+  const { t } = useTranslation("entryHistory");
+
+  const [events, setEvents] = useState<EntryHistoryEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Guards against a slow response for a previous owner landing after a switch
+  const requestRef = useRef(0);
+
+  const load = useCallback(
+    async (nextCursor?: string) => {
+      const reqId = ++requestRef.current;
+      if (nextCursor) setLoadingMore(true);
+      else setLoading(true);
+      setError(null);
+
+      try {
+        const params = { page_size: PAGE_SIZE, cursor: nextCursor };
+        const { data } =
+          ownerType === "entry"
+            ? await api.getEntryHistory(ownerId, params)
+            : await api.getSettlementHistory(ownerId, params);
+        if (reqId !== requestRef.current) return;
+
+        const incoming = data.results ?? [];
+        setEvents((prev) => (nextCursor ? [...prev, ...incoming] : incoming));
+        setCursor(getCursorFromUrl(data.next) ?? null);
+      } catch (e) {
+        console.error(e);
+        if (reqId === requestRef.current) setError(t("errors.load"));
+      } finally {
+        if (reqId === requestRef.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [ownerId, ownerType, t]
+  );
+
+  useEffect(() => {
+    setEvents([]);
+    setCursor(null);
+    void load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-2 py-2">
+        <p className="text-[12px] text-red-600">{error}</p>
+        <button type="button" className="text-[12px] underline" onClick={() => void load()}>
+          {t("actions.retry")}
+        </button>
+      </div>
+    );
+  }
+
+  if (!events.length) {
+    return (
+      <p className="flex items-center gap-1.5 py-2 text-[12px] text-gray-500">
+        <History size={13} />
+        {t("empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {groupEventsByDay(events).map((group) => (
+        <section key={group.day}>
+          <h3 className="mb-2 text-[11px] font-semibold uppercase tracking-wide text-gray-500">
+            {formatDateFromISO(`${group.day}T00:00:00`)}
+          </h3>
+          <ul className="space-y-4 border-l border-gray-200 pl-3">
+            {group.events.map((ev) => (
+              <EventItem key={ev.id} event={ev} />
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      {cursor ? (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            disabled={loadingMore}
+            onClick={() => void load(cursor)}
+            className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-3 py-1.5 text-[12px] text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? <Spinner size={12} /> : null}
+            {t("actions.loadMore")}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default EntryHistoryTimeline;
@@ -0,0 +1,2 @@
+export { default as EntryHistoryTimeline } from './EntryHistoryTimeline';
+export { default as EntryHistoryDrawer } from './EntryHistoryDrawer';
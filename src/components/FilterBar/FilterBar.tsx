@@ -8,6 +8,9 @@ import {
   Save,
   Eye,
   Star,
+  Download,
+  Link2,
+  Building2,
 } from "lucide-react";
 
 import Button from "@/shared/ui/Button";
@@ -19,12 +22,15 @@ import { useOnClickOutside } from "@/components/FilterBar/hooks/useOnClickOutsid
 import { useBankOptions } from "@/components/FilterBar/hooks/useBankOptions";
 import { useCashflowCategories } from "src/components/FilterBar/hooks/useCategories";
 import { useSavedViews } from "@/components/FilterBar/hooks/useSavedViews";
+import { useFilterLookups } from "@/components/FilterBar/hooks/useFilterLookups";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { PermissionMiddleware } from "src/middlewares";
 
 import { buildClearedLocalFilters, buildInitialLocalFilters, toEntryFilters } from "@/components/FilterBar/FilterBar.utils";
 import type { FilterDefinition } from "@/components/FilterBar/FilterBar.types";
 
 import { getFilterDefinitions } from "@/components/FilterBar/filters/registry";
+import { collapseQuery } from "@/components/FilterBar/query/queryAst";
 import { ChipsSearchBar } from "@/components/FilterBar/sections/ChipsSearchBar";
 import { Popover } from "@/components/FilterBar/ui/Popover";
 import { Menu, type MenuEntry } from "@/components/FilterBar/ui/Menu";
@@ -55,6 +61,18 @@ function filtersSignature(filters: EntryFilters): string {
     amount_max: normalizeNumString(filters.amount_max),
     bank_id: normalizeIdArray(filters.bank_id),
     cashflow_category_id: normalizeIdArray(filters.cashflow_category_id),
+    project_id: normalizeIdArray(filters.project_id),
+    entity_id: normalizeIdArray(filters.entity_id),
+    department_id: normalizeIdArray(filters.department_id),
+    inventory_item_id: normalizeIdArray(filters.inventory_item_id),
+    document_type: normalizeIdArray(filters.document_type),
+    tags: normalizeIdArray(filters.tags),
+    custom_fields: Object.entries(filters.custom_fields ?? {})
+      .map(([key, values]) => [key, normalizeIdArray(values)] as const)
+      .sort(([a], [b]) => a.localeCompare(b)),
+    installment: filters.installment ?? "",
+    settlement_state: filters.settlement_state ?? "",
+    query: filters.query ? JSON.stringify(filters.query) : "",
   };
 
   return JSON.stringify(sig);
@@ -68,6 +86,10 @@ interface FilterBarProps {
   bankActive?: boolean;
   contextSettlement: boolean;
   shortcutsEnabled?: boolean;
+  /** Shows an Export button; the page owns the export dialog. */
+  onExport?: () => void;
+  /** Shows a Copy link button for the current view. */
+  onShareLink?: () => void;
 }
 
 const FilterBar: React.FC<FilterBarProps> = ({
@@ -76,6 +98,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
   bankActive,
   contextSettlement,
   shortcutsEnabled = true,
+  onExport,
+  onShareLink,
 }) => {
   const { t } = useTranslation(["filterBar"]);
   const isMobile = useMediaQuery("(max-width: 639px)");
@@ -116,7 +140,10 @@ const FilterBar: React.FC<FilterBarProps> = ({
   const [configModalOpen, setConfigModalOpen] = useState(false);
   const [saveModalOpen, setSaveModalOpen] = useState(false);
   const [panelOpen, setPanelOpen] = useState<boolean>(false);
-  const [lastAppliedSig, setLastAppliedSig] = useState<string | null>(null);
+  // Pages apply `initial` themselves (e.g. from a shared link), so it counts as applied
+  const [lastAppliedSig, setLastAppliedSig] = useState<string | null>(() =>
+    initial ? filtersSignature(toEntryFilters(buildInitialLocalFilters(initial, contextSettlement))) : null
+  );
 
   useEffect(() => {
     if (!isMobile) {
@@ -176,6 +203,19 @@ const FilterBar: React.FC<FilterBarProps> = ({
     return [...selected, ...filtered.filter((c) => !selectedIds.has(String(c.id)))];
   }, [allCategories, localFilters.cashflow_category_id, localFilters.tx_type]);
 
+  // Lookup lists load on first use: an active lookup chip or its editor being opened
+  const needsLookups = useMemo(
+    () =>
+      filterDefs.some(
+        (d) =>
+          (d.lookupKey || d.usesLookups) &&
+          (d.isActive(localFilters) || openEditor === d.key || addFilterMenuOpen)
+      ),
+    [addFilterMenuOpen, filterDefs, localFilters, openEditor]
+  );
+  const { lookups, loading: lookupsLoading } = useFilterLookups(needsLookups, t);
+  const { fields: customFields } = useCustomFields();
+
   const hasActiveFilters = useMemo(() => {
     const anyRegistryActive = filterDefs.some((d) => d.isActive(localFilters));
     return anyRegistryActive || !!localFilters.description;
@@ -202,6 +242,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
 
     onApply({ filters: next });
     setLastAppliedSig(nextSig);
+    // Simple queries go back to plain chips
+    if (localFilters.query) setLocalFilters(collapseQuery(localFilters));
     return true;
   }, [localFilters, lastAppliedSig, hasActiveFilters, onApply]);
 
@@ -260,12 +302,20 @@ const FilterBar: React.FC<FilterBarProps> = ({
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [shortcutsEnabled, panelVisible, tryApplyCurrentFilters]);
 
+  // Filters handed in by the page (e.g. a shared link) take precedence over the default view
+  const initialHasFiltersRef = useRef(
+    !!localFilters.description || filterDefs.some((d) => d.isActive(localFilters))
+  );
+
   const bootstrappedRef = useRef(false);
   useEffect(() => {
     if (bootstrappedRef.current) return;
     if (!viewsLoaded) return;
 
-    const defaultView = scopedViews.find((v) => v.is_default);
+    // A personal default beats the org-wide one pinned by an admin
+    const defaultView = initialHasFiltersRef.current
+      ? undefined
+      : scopedViews.find((v) => v.is_default && v.can_edit !== false) ?? scopedViews.find((v) => v.is_org_default);
 
     if (defaultView) {
       const nextLocal = buildInitialLocalFilters(defaultView.filters, contextSettlement);
@@ -375,6 +425,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
               localFilters={localFilters}
               selectedBanks={selectedBanks}
               selectedCategories={selectedCategories}
+              lookups={lookups}
+              customFields={customFields}
               onToggleEditor={(key) => toggleEditorFromChip(key)}
               onRemoveChip={removeChip}
               searchInputRef={searchInputRef}
@@ -450,8 +502,21 @@ const FilterBar: React.FC<FilterBarProps> = ({
                         key: v.id,
                         label: (
                           <span className="flex items-center justify-between w-full">
-                            <span className="truncate">{v.name}</span>
-                            {v.is_default && <Star className="w-3 h-3 text-amber-500 shrink-0 ml-2" aria-hidden />}
+                            <span className="truncate">
+                              {v.name}
+                              {v.can_edit === false && v.owner && (
+                                <span className="ml-1 text-[11px] text-gray-500">· {v.owner.name}</span>
+                              )}
+                            </span>
+                            {v.is_default && v.can_edit !== false && (
+                              <Star className="w-3 h-3 text-amber-500 shrink-0 ml-2" aria-hidden />
+                            )}
+                            {v.is_org_default && (
+                              <Building2
+                                className="w-3 h-3 text-gray-500 shrink-0 ml-2"
+                                aria-label={t("filterBar:configModal.orgDefaultTag")}
+                              />
+                            )}
                           </span>
                         ),
                         onAction: () => {
@@ -464,6 +529,35 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   )}
                 </div>
               </PermissionMiddleware>
+
+              {onExport && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label={t("filterBar:buttons.export")}
+                  className="font-semibold bg-white hover:bg-gray-50"
+                  onClick={onExport}
+                >
+                  <span className="sm:hidden" aria-hidden>
+                    <Download className="h-4 w-4" />
+                  </span>
+                  <span className="hidden sm:inline">{t("filterBar:buttons.export")}</span>
+                </Button>
+              )}
+              {onShareLink && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label={t("filterBar:buttons.copyLink")}
+                  className="font-semibold bg-white hover:bg-gray-50"
+                  onClick={onShareLink}
+                >
+                  <span className="sm:hidden" aria-hidden>
+                    <Link2 className="h-4 w-4" />
+                  </span>
+                  <span className="hidden sm:inline">{t("filterBar:buttons.copyLink")}</span>
+                </Button>
+              )}
             </div>
           </div>
 
@@ -529,12 +623,16 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 <activeEditorDef.Editor
                   t={t}
                   isMobile={isMobile}
+                  contextSettlement={contextSettlement}
                   localFilters={localFilters}
                   setLocalFilters={setLocalFilters}
                   bankOptions={bankOptions}
                   selectedBanks={selectedBanks}
                   categoriesForPicker={categoriesForPicker}
                   selectedCategories={selectedCategories}
+                  lookups={lookups}
+                  lookupsLoading={lookupsLoading}
+                  customFields={customFields}
                   onRemove={() => removeChip(activeEditorDef.key)}
                   onApply={closeEditorsAndApply}
                 />
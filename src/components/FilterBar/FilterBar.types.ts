@@ -4,12 +4,24 @@ import type { TFunction } from "i18next";
 import type { ChipKey, LocalFilters } from "@/models/components/filterBar";
 import type { BankAccountTableRow } from "@/models/settings/banking";
 import type { CashflowCategory } from "@/models/settings/categories";
+import type { CustomFieldDefinition } from "@/models/settings/customFields";
 
-export type FilterIcon = "calendar" | "bank" | "accounts" | "note";
+export type FilterIcon = "calendar" | "bank" | "accounts" | "note" | "tag";
+
+/** Id/label pair for the project, entity, department, item and document type pickers. */
+export type LookupOption = { id: string; label: string };
+
+export type LookupKey = "projects" | "entities" | "departments" | "items" | "document_types";
+
+export type FilterLookups = Record<LookupKey, LookupOption[]>;
+
+/** `LocalFilters` field each lookup writes to. */
+export type LookupField = "project_id" | "entity_id" | "department_id" | "inventory_item_id" | "document_type";
 
 export type FilterEditorProps = {
   t: TFunction;
   isMobile: boolean;
+  contextSettlement: boolean;
 
   localFilters: LocalFilters;
   setLocalFilters: React.Dispatch<React.SetStateAction<LocalFilters>>;
@@ -20,6 +32,11 @@ export type FilterEditorProps = {
   categoriesForPicker: CashflowCategory[];
   selectedCategories: CashflowCategory[];
 
+  lookups: FilterLookups;
+  lookupsLoading: boolean;
+
+  customFields: CustomFieldDefinition[];
+
   onRemove: () => void;
   onApply: () => void;
 };
@@ -40,8 +57,15 @@ export type FilterDefinition = {
     filters: LocalFilters;
     selectedBanks: BankAccountTableRow[];
     selectedCategories: CashflowCategory[];
+    lookups: FilterLookups;
+    customFields: CustomFieldDefinition[];
   }) => string;
 
+  /** Lookup lists the chip/editor needs; they are only fetched once such a filter is used. */
+  lookupKey?: LookupKey;
+  /** Needs every lookup list, e.g. the advanced query builder. */
+  usesLookups?: boolean;
+
   clear: (prev: LocalFilters) => LocalFilters;
   Editor: React.FC<FilterEditorProps>;
 };
\ No newline at end of file
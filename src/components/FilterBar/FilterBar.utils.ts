@@ -1,6 +1,7 @@
 import { formatCurrency } from "@/lib/currency";
 import type { ApiResponse, ApiError as ApiErrorResponse } from "@/models/Api";
-import type { EntryFilters, LocalFilters } from "@/models/components/filterBar";
+import type { CustomFieldFilters, EntryFilters, LocalFilters } from "@/models/components/filterBar";
+import { collapseQuery } from "./query/queryAst";
 
 export function isApiError<T>(res: ApiResponse<T>): res is ApiErrorResponse {
   return "error" in res;
@@ -10,6 +11,17 @@ export function normalizeStringArray(value: unknown): string[] {
   return Array.isArray(value) ? value.map(String) : [];
 }
 
+/** Drops keys without values so an emptied custom field chip does not linger in saved views. */
+export function normalizeCustomFieldFilters(value: unknown): CustomFieldFilters {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const out: CustomFieldFilters = {};
+  for (const [key, values] of Object.entries(value as Record<string, unknown>)) {
+    const list = normalizeStringArray(values).filter(Boolean);
+    if (list.length) out[key] = list;
+  }
+  return out;
+}
+
 export function parseLooseNumber(value: string): number | null {
   const normalized = value.trim().replace(/\s+/g, "").replace(",", ".");
   if (!normalized) return null;
@@ -89,6 +101,16 @@ export function buildInitialLocalFilters(initial: EntryFilters | undefined, cont
     observation: initial?.observation ?? "",
     cashflow_category_id: normalizeStringArray(initial?.cashflow_category_id),
     bank_id: normalizeStringArray(initial?.bank_id),
+    project_id: normalizeStringArray(initial?.project_id),
+    entity_id: normalizeStringArray(initial?.entity_id),
+    department_id: normalizeStringArray(initial?.department_id),
+    inventory_item_id: normalizeStringArray(initial?.inventory_item_id),
+    document_type: normalizeStringArray(initial?.document_type),
+    tags: normalizeStringArray(initial?.tags),
+    custom_fields: normalizeCustomFieldFilters(initial?.custom_fields),
+    installment: initial?.installment,
+    settlement_state: initial?.settlement_state,
+    query: initial?.query,
     tx_type: initial?.tx_type,
     amount_min: initial?.amount_min ? String(initial.amount_min) : "",
     amount_max: initial?.amount_max ? String(initial.amount_max) : "",
@@ -104,6 +126,16 @@ export function buildClearedLocalFilters(contextSettlement: boolean): LocalFilte
     observation: "",
     cashflow_category_id: [],
     bank_id: [],
+    project_id: [],
+    entity_id: [],
+    department_id: [],
+    inventory_item_id: [],
+    document_type: [],
+    tags: [],
+    custom_fields: {},
+    installment: undefined,
+    settlement_state: undefined,
+    query: undefined,
     tx_type: undefined,
     amount_min: "",
     amount_max: "",
@@ -111,7 +143,9 @@ export function buildClearedLocalFilters(contextSettlement: boolean): LocalFilte
   };
 }
 
-export function toEntryFilters(local: LocalFilters): EntryFilters {
+/** Queries that fit in plain chips are stored as plain fields, so old presets and the API stay simple. */
+export function toEntryFilters(input: LocalFilters): EntryFilters {
+  const local = collapseQuery(input);
   const min = isPositiveMajor(local.amount_min) ? String(local.amount_min) : undefined;
   const max = isPositiveMajor(local.amount_max) ? String(local.amount_max) : undefined;
 
@@ -122,6 +156,16 @@ export function toEntryFilters(local: LocalFilters): EntryFilters {
     observation: local.observation || undefined,
     cashflow_category_id: local.cashflow_category_id.length ? local.cashflow_category_id : undefined,
     bank_id: local.bank_id.length ? local.bank_id : undefined,
+    project_id: local.project_id.length ? local.project_id : undefined,
+    entity_id: local.entity_id.length ? local.entity_id : undefined,
+    department_id: local.department_id.length ? local.department_id : undefined,
+    inventory_item_id: local.inventory_item_id.length ? local.inventory_item_id : undefined,
+    document_type: local.document_type.length ? local.document_type : undefined,
+    tags: local.tags.length ? local.tags : undefined,
+    custom_fields: Object.keys(local.custom_fields).length ? local.custom_fields : undefined,
+    installment: local.installment,
+    settlement_state: local.settlement_state,
+    query: local.query,
     tx_type: local.tx_type,
     amount_min: min,
     amount_max: max,
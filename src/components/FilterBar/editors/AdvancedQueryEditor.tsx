@@ -0,0 +1,79 @@
+import React, { useCallback, useEffect } from "react";
+import Button from "@/shared/ui/Button";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+
+import type { QueryIdField } from "@/models/components/filterBar";
+import type { FilterEditorProps, LookupKey, LookupOption } from "../FilterBar.types";
+import { QueryGroupEditor } from "../query/QueryGroupEditor";
+import { clearSeededFields, emptyGroup, simpleFiltersToQuery } from "../query/queryAst";
+
+const LOOKUP_BY_FIELD: Record<Exclude<QueryIdField, "cashflow_category" | "bank" | "tx_type">, LookupKey> = {
+  project: "projects",
+  entity: "entities",
+  department: "departments",
+  inventory_item: "items",
+  document_type: "document_types",
+};
+
+export const AdvancedQueryEditor: React.FC<FilterEditorProps> = ({
+  t,
+  localFilters,
+  setLocalFilters,
+  bankOptions,
+  categoriesForPicker,
+  lookups,
+  lookupsLoading,
+  onRemove,
+  onApply,
+}) => {
+  // First open moves the current chips into the builder so nothing is applied twice
+  useEffect(() => {
+    setLocalFilters((prev) => (prev.query ? prev : { ...clearSeededFields(prev), query: simpleFiltersToQuery(prev) }));
+  }, [setLocalFilters]);
+
+  const optionsFor = useCallback(
+    (field: QueryIdField): LookupOption[] => {
+      switch (field) {
+        case "cashflow_category":
+          return categoriesForPicker.map((c) => ({
+            id: String(c.id),
+            label: [c.code, c.name].filter(Boolean).join(" — ") || c.name || "—",
+          }));
+        case "bank":
+          return bankOptions.map((b) => ({ id: String(b.id), label: b.institution }));
+        case "tx_type":
+          return (["credit", "debit"] as const).map((id) => ({ id, label: t(`filterBar:editors.txType.${id}`) }));
+        default:
+          return lookups[LOOKUP_BY_FIELD[field]];
+      }
+    },
+    [bankOptions, categoriesForPicker, lookups, t]
+  );
+
+  const query = localFilters.query ?? emptyGroup();
+
+  return (
+    <>
+      <p className="mb-3 text-[11px] text-gray-500">{t("filterBar:query.hint")}</p>
+
+      <div className="max-h-[55vh] overflow-y-auto pr-1">
+        <QueryGroupEditor
+          t={t}
+          group={query}
+          optionsFor={optionsFor}
+          onChange={(next) => setLocalFilters((prev) => ({ ...prev, query: next }))}
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-2 mt-3">
+        {lookupsLoading && <Spinner size={14} className="mr-auto" />}
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onRemove}>
+          {t("filterBar:buttons.remove")}
+        </Button>
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onApply}>
+          {t("filterBar:buttons.apply")}
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useCallback } from "react";
+import Select from "src/shared/ui/Select/Select";
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+
+import type { FilterEditorProps } from "../FilterBar.types";
+import type { CustomFieldDefinition } from "@/models/settings/customFields";
+
+type Option = { value: string };
+
+/** Select fields pick any of their options; text, number and date fields take one exact value. */
+export const CustomFieldsEditor: React.FC<FilterEditorProps> = ({
+  t,
+  customFields,
+  localFilters,
+  setLocalFilters,
+  onRemove,
+  onApply,
+}) => {
+  const setValues = useCallback(
+    (key: string, values: string[]) =>
+      setLocalFilters((prev) => {
+        const next = { ...prev.custom_fields };
+        const clean = values.filter((v) => v.trim());
+        if (clean.length) next[key] = clean;
+        else delete next[key];
+        return { ...prev, custom_fields: next };
+      }),
+    [setLocalFilters]
+  );
+
+  const renderField = (field: CustomFieldDefinition) => {
+    const values = localFilters.custom_fields[field.key] ?? [];
+
+    if (field.field_type === "select" || field.field_type === "multi_select") {
+      const items = field.options.map((value) => ({ value }));
+      return (
+        <Select<Option>
+          key={field.key}
+          label={field.label}
+          items={items}
+          selected={items.filter((o) => values.includes(o.value))}
+          onChange={(list) => setValues(field.key, list.map((o) => o.value))}
+          getItemKey={(o) => o.value}
+          getItemLabel={(o) => o.value}
+          buttonLabel={t("filterBar:editors.customFields.any")}
+          customStyles={{ maxHeight: "200px" }}
+        />
+      );
+    }
+
+    if (field.field_type === "date") {
+      return (
+        <Input
+          key={field.key}
+          kind="date"
+          label={field.label}
+          value={values[0] ?? ""}
+          onValueChange={(iso) => setValues(field.key, [iso])}
+        />
+      );
+    }
+
+    return (
+      <Input
+        key={field.key}
+        kind="text"
+        label={field.label}
+        inputMode={field.field_type === "number" ? "decimal" : undefined}
+        placeholder={t("filterBar:editors.customFields.equals")}
+        value={values[0] ?? ""}
+        onChange={(e) => setValues(field.key, [e.currentTarget.value])}
+      />
+    );
+  };
+
+  return (
+    <>
+      {customFields.length ? (
+        <div className="space-y-3 max-h-[360px] overflow-y-auto pr-1">{customFields.map(renderField)}</div>
+      ) : (
+        <p className="py-2 text-[12px] text-gray-500">{t("filterBar:editors.customFields.empty")}</p>
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onRemove}>
+          {t("filterBar:buttons.remove")}
+        </Button>
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onApply}>
+          {t("filterBar:buttons.apply")}
+        </Button>
+      </div>
+    </>
+  );
+};
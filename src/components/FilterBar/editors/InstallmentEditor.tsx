@@ -0,0 +1,34 @@
+import React from "react";
+import Button from "@/shared/ui/Button";
+import type { FilterEditorProps } from "../FilterBar.types";
+import type { InstallmentFilter } from "@/models/components/filterBar";
+
+const OPTIONS: InstallmentFilter[] = ["single", "installments"];
+
+export const InstallmentEditor: React.FC<FilterEditorProps> = ({ t, localFilters, setLocalFilters, onRemove, onApply }) => (
+  <>
+    <div className="grid grid-cols-2 gap-2">
+      {OPTIONS.map((value) => (
+        <Button
+          key={value}
+          variant="outline"
+          size="sm"
+          className={`bg-white hover:bg-gray-50 ${localFilters.installment === value ? "!border-gray-400 font-semibold" : ""}`}
+          aria-pressed={localFilters.installment === value}
+          onClick={() => setLocalFilters((prev) => ({ ...prev, installment: value }))}
+        >
+          {t(`filterBar:editors.installment.${value}`)}
+        </Button>
+      ))}
+    </div>
+
+    <div className="flex justify-end gap-2 mt-3">
+      <Button variant="outline" size="sm" className="bg-white hover:bg-gray-50" onClick={onRemove}>
+        {t("filterBar:buttons.remove")}
+      </Button>
+      <Button variant="outline" size="sm" className="bg-white hover:bg-gray-50" onClick={onApply}>
+        {t("filterBar:buttons.apply")}
+      </Button>
+    </div>
+  </>
+);
@@ -0,0 +1,66 @@
+import React, { useMemo } from "react";
+import Select from "src/shared/ui/Select/Select";
+import Button from "@/shared/ui/Button";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+
+import type { FilterEditorProps, LookupField, LookupKey, LookupOption } from "../FilterBar.types";
+
+type Props = FilterEditorProps & {
+  lookupKey: LookupKey;
+  field: LookupField;
+  /** i18n key prefix under `filterBar:editors`, e.g. "projects". */
+  labelKey: string;
+};
+
+export const LookupEditor: React.FC<Props> = ({
+  t,
+  lookups,
+  lookupsLoading,
+  localFilters,
+  setLocalFilters,
+  onRemove,
+  onApply,
+  lookupKey,
+  field,
+  labelKey,
+}) => {
+  const options = lookups[lookupKey];
+
+  const selected = useMemo(() => {
+    const ids = new Set(localFilters[field].map(String));
+    return options.filter((o) => ids.has(o.id));
+  }, [field, localFilters, options]);
+
+  return (
+    <>
+      {lookupsLoading && !options.length ? (
+        <div className="flex justify-center py-4">
+          <Spinner size={16} />
+        </div>
+      ) : (
+        <Select<LookupOption>
+          label={t(`filterBar:editors.${labelKey}.label`)}
+          items={options}
+          selected={selected}
+          onChange={(list) => setLocalFilters((prev) => ({ ...prev, [field]: list.map((x) => x.id) }))}
+          getItemKey={(item) => item.id}
+          getItemLabel={(item) => item.label}
+          buttonLabel={t(`filterBar:editors.${labelKey}.button`)}
+          customStyles={{ maxHeight: "240px" }}
+          virtualize
+          virtualRowHeight={32}
+          virtualThreshold={300}
+        />
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onRemove}>
+          {t("filterBar:buttons.remove")}
+        </Button>
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onApply}>
+          {t("filterBar:buttons.apply")}
+        </Button>
+      </div>
+    </>
+  );
+};
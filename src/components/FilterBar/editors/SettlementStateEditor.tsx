@@ -0,0 +1,47 @@
+import React from "react";
+import Button from "@/shared/ui/Button";
+import type { FilterEditorProps } from "../FilterBar.types";
+import type { SettlementStateFilter } from "@/models/components/filterBar";
+
+// Open entries are never fully settled and settlements are never unsettled
+const OPTIONS: Record<"open" | "settled", SettlementStateFilter[]> = {
+  open: ["unsettled", "partial"],
+  settled: ["partial", "settled"],
+};
+
+export const SettlementStateEditor: React.FC<FilterEditorProps> = ({
+  t,
+  contextSettlement,
+  localFilters,
+  setLocalFilters,
+  onRemove,
+  onApply,
+}) => (
+  <>
+    <div className="grid grid-cols-2 gap-2">
+      {OPTIONS[contextSettlement ? "settled" : "open"].map((value) => (
+        <Button
+          key={value}
+          variant="outline"
+          size="sm"
+          className={`bg-white hover:bg-gray-50 ${
+            localFilters.settlement_state === value ? "!border-gray-400 font-semibold" : ""
+          }`}
+          aria-pressed={localFilters.settlement_state === value}
+          onClick={() => setLocalFilters((prev) => ({ ...prev, settlement_state: value }))}
+        >
+          {t(`filterBar:editors.settlementState.${value}`)}
+        </Button>
+      ))}
+    </div>
+
+    <div className="flex justify-end gap-2 mt-3">
+      <Button variant="outline" size="sm" className="bg-white hover:bg-gray-50" onClick={onRemove}>
+        {t("filterBar:buttons.remove")}
+      </Button>
+      <Button variant="outline" size="sm" className="bg-white hover:bg-gray-50" onClick={onApply}>
+        {t("filterBar:buttons.apply")}
+      </Button>
+    </div>
+  </>
+);
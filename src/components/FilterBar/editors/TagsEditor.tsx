@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Select from "src/shared/ui/Select/Select";
+import Button from "@/shared/ui/Button";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+
+import { api } from "@/api/requests";
+
+import type { FilterEditorProps } from "../FilterBar.types";
+import type { EntryTag } from "@/models/settings/customFields";
+
+export const TagsEditor: React.FC<FilterEditorProps> = ({ t, localFilters, setLocalFilters, onRemove, onApply }) => {
+  const [tags, setTags] = useState<EntryTag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    api
+      .getEntryTags()
+      .then(({ data }) => {
+        if (alive) setTags(data ?? []);
+      })
+      .catch((err) => console.error("Failed to load tags:", err))
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // Keep tags from a saved view selectable even if no entry carries them anymore
+  const items = useMemo(() => {
+    const known = new Set(tags.map((tag) => tag.name));
+    const missing = localFilters.tags.filter((name) => !known.has(name)).map((name) => ({ name, entry_count: 0 }));
+    return [...missing, ...tags];
+  }, [localFilters.tags, tags]);
+
+  const selected = useMemo(() => items.filter((tag) => localFilters.tags.includes(tag.name)), [items, localFilters.tags]);
+
+  return (
+    <>
+      {loading && !items.length ? (
+        <div className="flex justify-center py-4">
+          <Spinner size={16} />
+        </div>
+      ) : (
+        <Select<EntryTag>
+          label={t("filterBar:editors.tags.label")}
+          items={items}
+          selected={selected}
+          onChange={(list) => setLocalFilters((prev) => ({ ...prev, tags: list.map((x) => x.name) }))}
+          getItemKey={(item) => item.name}
+          getItemLabel={(item) => (item.entry_count ? `${item.name} (${item.entry_count})` : item.name)}
+          buttonLabel={t("filterBar:editors.tags.button")}
+          customStyles={{ maxHeight: "240px" }}
+          virtualize
+          virtualRowHeight={32}
+          virtualThreshold={300}
+        />
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onRemove}>
+          {t("filterBar:buttons.remove")}
+        </Button>
+        <Button variant="outline" size="sm" className="font-semibold bg-white hover:bg-gray-50" onClick={onApply}>
+          {t("filterBar:buttons.apply")}
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -1,4 +1,6 @@
-import type { FilterDefinition } from "../FilterBar.types";
+import type { TFunction } from "i18next";
+
+import type { FilterDefinition, LookupField, LookupKey, LookupOption } from "../FilterBar.types";
 import { formatDateFromISO } from "@/lib/date";
 import { amountChipLabel, isPositiveMajor } from "../FilterBar.utils";
 
@@ -8,6 +10,48 @@ import { CategoriesEditor } from "../editors/CategoriesEditor";
 import { ObservationEditor } from "../editors/ObservationEditor";
 import { TxTypeEditor } from "../editors/TxTypeEditor";
 import { AmountEditor } from "../editors/AmountEditor";
+import { LookupEditor } from "../editors/LookupEditor";
+import { InstallmentEditor } from "../editors/InstallmentEditor";
+import { SettlementStateEditor } from "../editors/SettlementStateEditor";
+import { TagsEditor } from "../editors/TagsEditor";
+import { CustomFieldsEditor } from "../editors/CustomFieldsEditor";
+import { AdvancedQueryEditor } from "../editors/AdvancedQueryEditor";
+import { pruneQuery, queryFields } from "../query/queryAst";
+
+const POPOVER_WIDE = "w-[calc(100vw-1rem)] sm:min-w-[360px] sm:max-w-[360px]";
+const POPOVER_NARROW = "w-[calc(100vw-1rem)] sm:min-w-[260px] sm:max-w-[360px]";
+
+function lookupChipLabel(t: TFunction, chipKey: string, ids: string[], options: LookupOption[]): string {
+  const byId = new Map(options.map((o) => [o.id, o.label]));
+  const names = ids.map((id) => byId.get(id)).filter(Boolean) as string[];
+
+  // Options may still be loading when a saved view is applied
+  const body = names.length
+    ? `${names.slice(0, 2).join(", ")}${ids.length > 2 ? ` +${ids.length - 2}` : ""}`
+    : t("filterBar:chips.selectedCount", { count: ids.length });
+
+  return `${t(`filterBar:chips.${chipKey}`)}  ${body}`;
+}
+
+function lookupFilter(
+  key: Extract<FilterDefinition["key"], LookupKey>,
+  field: LookupField,
+  i18nKey: string
+): FilterDefinition {
+  return {
+    key,
+    icon: "tag",
+    menuGroup: 2,
+    menuLabelKey: `filterBar:menu.${i18nKey}`,
+    editorTitleKey: `filterBar:menu.${i18nKey}`,
+    popoverClassName: POPOVER_WIDE,
+    lookupKey: key,
+    isActive: (f) => f[field].length > 0,
+    getChipLabel: ({ t, filters, lookups }) => lookupChipLabel(t, i18nKey, filters[field], lookups[key]),
+    clear: (prev) => ({ ...prev, [field]: [] }),
+    Editor: (props) => <LookupEditor {...props} lookupKey={key} field={field} labelKey={i18nKey} />,
+  };
+}
 
 export function getFilterDefinitions(): FilterDefinition[] {
   return [
@@ -107,5 +151,91 @@ export function getFilterDefinitions(): FilterDefinition[] {
       clear: (prev) => ({ ...prev, amount_min: "", amount_max: "" }),
       Editor: AmountEditor,
     },
+
+    {
+      key: "installment",
+      icon: "note",
+      menuGroup: 1,
+      menuLabelKey: "filterBar:menu.installment",
+      editorTitleKey: "filterBar:menu.installment",
+      popoverClassName: POPOVER_NARROW,
+      isActive: (f) => !!f.installment,
+      getChipLabel: ({ t, filters }) =>
+        `${t("filterBar:chips.installment")} ${t(`filterBar:editors.installment.${filters.installment}`)}`,
+      clear: (prev) => ({ ...prev, installment: undefined }),
+      Editor: InstallmentEditor,
+    },
+
+    {
+      key: "settlement_state",
+      icon: "note",
+      menuGroup: 1,
+      menuLabelKey: "filterBar:menu.settlementState",
+      editorTitleKey: "filterBar:menu.settlementState",
+      popoverClassName: POPOVER_NARROW,
+      isActive: (f) => !!f.settlement_state,
+      getChipLabel: ({ t, filters }) =>
+        `${t("filterBar:chips.settlementState")} ${t(`filterBar:editors.settlementState.${filters.settlement_state}`)}`,
+      clear: (prev) => ({ ...prev, settlement_state: undefined }),
+      Editor: SettlementStateEditor,
+    },
+
+    lookupFilter("projects", "project_id", "projects"),
+    lookupFilter("entities", "entity_id", "entities"),
+    lookupFilter("departments", "department_id", "departments"),
+    lookupFilter("items", "inventory_item_id", "items"),
+    lookupFilter("document_types", "document_type", "documentTypes"),
+
+    {
+      key: "tags",
+      icon: "tag",
+      menuGroup: 2,
+      menuLabelKey: "filterBar:menu.tags",
+      editorTitleKey: "filterBar:menu.tags",
+      popoverClassName: POPOVER_WIDE,
+      isActive: (f) => f.tags.length > 0,
+      getChipLabel: ({ t, filters }) =>
+        `${t("filterBar:chips.tags")}  ${filters.tags.slice(0, 2).join(", ")}${
+          filters.tags.length > 2 ? ` +${filters.tags.length - 2}` : ""
+        }`,
+      clear: (prev) => ({ ...prev, tags: [] }),
+      Editor: TagsEditor,
+    },
+
+    {
+      key: "custom_fields",
+      icon: "tag",
+      menuGroup: 2,
+      menuLabelKey: "filterBar:menu.customFields",
+      editorTitleKey: "filterBar:menu.customFields",
+      popoverClassName: POPOVER_WIDE,
+      isActive: (f) => Object.keys(f.custom_fields).length > 0,
+      getChipLabel: ({ t, filters, customFields }) => {
+        const byKey = new Map(customFields.map((c) => [c.key, c.label]));
+        const parts = Object.entries(filters.custom_fields).map(
+          ([key, values]) => `${byKey.get(key) ?? key} = ${values.join(" / ")}`
+        );
+        return `${t("filterBar:chips.customFields")}  ${parts.join(", ")}`;
+      },
+      clear: (prev) => ({ ...prev, custom_fields: {} }),
+      Editor: CustomFieldsEditor,
+    },
+
+    {
+      key: "advanced",
+      icon: "note",
+      menuGroup: 3,
+      menuLabelKey: "filterBar:menu.advanced",
+      editorTitleKey: "filterBar:menu.advanced",
+      popoverClassName: "w-[calc(100vw-1rem)] sm:min-w-[640px] sm:max-w-[720px]",
+      usesLookups: true,
+      isActive: (f) => !!pruneQuery(f.query),
+      getChipLabel: ({ t, filters }) => {
+        const fields = queryFields(pruneQuery(filters.query) ?? { type: "group", op: "and", children: [] });
+        return `${t("filterBar:chips.advanced")}  ${fields.map((f) => t(`filterBar:query.fields.${f}`)).join(", ")}`;
+      },
+      clear: (prev) => ({ ...prev, query: undefined }),
+      Editor: AdvancedQueryEditor,
+    },
   ];
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useState } from "react";
+import type { TFunction } from "i18next";
+
+import { api } from "@/api/requests";
+import { fetchAllCursor } from "@/lib/list";
+import type { Project } from "@/models/settings/projects";
+import type { Entity } from "@/models/settings/entities";
+import type { Department } from "@/models/settings/departments";
+import type { InventoryItem } from "@/models/settings/inventory";
+import type { DocumentType } from "@/models/entries/documentTypes";
+import type { FilterLookups, LookupOption } from "../FilterBar.types";
+
+const codeLabel = (code: string | undefined | null, name: string) =>
+  [code, name].filter(Boolean).join(" — ") || "—";
+
+type Raw = {
+  projects: LookupOption[];
+  entities: LookupOption[];
+  departments: LookupOption[];
+  items: LookupOption[];
+  documentTypeCodes: string[];
+};
+
+const EMPTY: Raw = { projects: [], entities: [], departments: [], items: [], documentTypeCodes: [] };
+
+/**
+ * Options for the project/entity/department/item/document type filters. These
+ * lists can be large, so nothing is fetched until `enabled` first turns true.
+ */
+export function useFilterLookups(enabled: boolean, t: TFunction) {
+  const [raw, setRaw] = useState<Raw>(EMPTY);
+  const [loading, setLoading] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  useEffect(() => {
+    if (enabled) setRequested(true);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!requested) return;
+    let alive = true;
+
+    (async () => {
+      setLoading(true);
+      try {
+        const [projects, entities, departments, items, docTypes] = await Promise.all([
+          fetchAllCursor<Project>(api.getProjectsOptions),
+          fetchAllCursor<Entity>(api.getEntitiesOptions),
+          fetchAllCursor<Department>(api.getDepartmentsOptions),
+          fetchAllCursor<InventoryItem>(api.getInventoryOptions),
+          fetchAllCursor<DocumentType>(api.getDocumentTypes),
+        ]);
+        if (!alive) return;
+
+        setRaw({
+          projects: projects.map((p) => ({ id: String(p.id), label: codeLabel(p.code, p.name) })),
+          entities: entities.map((e) => ({
+            id: String(e.id),
+            label: e.alias_name || e.full_name || "—",
+          })),
+          departments: departments.map((d) => ({ id: String(d.id), label: codeLabel(d.code, d.name) })),
+          items: items.map((i) => ({ id: String(i.id), label: codeLabel(i.sku, i.name) })),
+          documentTypeCodes: docTypes.filter((d) => d.is_active).map((d) => d.code),
+        });
+      } catch (err) {
+        console.error("Failed to load filter options", err);
+        if (alive) setRaw(EMPTY);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [requested]);
+
+  const lookups = useMemo<FilterLookups>(
+    () => ({
+      projects: raw.projects,
+      entities: raw.entities,
+      departments: raw.departments,
+      items: raw.items,
+      document_types: raw.documentTypeCodes.map((code) => ({
+        id: code,
+        label: t(`entriesModal:documentTypes.${code}`, { defaultValue: code }),
+      })),
+    }),
+    [raw, t]
+  );
+
+  return { lookups, loading };
+}
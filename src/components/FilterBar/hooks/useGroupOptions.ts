@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { api } from "@/api/requests";
+import type { GroupListItem } from "@/models/auth/rbac";
+import type { LookupOption } from "../FilterBar.types";
+import { extractArray } from "../FilterBar.utils";
+
+/** RBAC groups for preset sharing; fetched the first time `enabled` is true. */
+export function useGroupOptions(enabled: boolean) {
+  const [groups, setGroups] = useState<LookupOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || loaded) return;
+    let alive = true;
+
+    (async () => {
+      setLoading(true);
+      try {
+        const { data } = await api.getGroups();
+        if (!alive) return;
+        setGroups(extractArray<GroupListItem>(data).map((g) => ({ id: String(g.id), label: g.name })));
+        setLoaded(true);
+      } catch (err) {
+        console.error("Failed to load groups", err);
+        if (!alive) return;
+        setGroups([]);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [enabled, loaded]);
+
+  return { groups, loading };
+}
@@ -7,10 +7,15 @@ import Checkbox from "@/shared/ui/Checkbox";
 import Input from "@/shared/ui/Input";
 
 import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
 import type { ApiResponse } from "@/models/Api";
 import type { LocalFilters, Visualization } from "@/models/components/filterBar";
 import { isApiError, toEntryFilters } from "../FilterBar.utils";
 import { ModalShell } from "../ui/ModalShell";
+import { useGroupOptions } from "../hooks/useGroupOptions";
+import { ViewSharingFields, type ViewSharing } from "./ViewSharingFields";
+
+const PRIVATE: ViewSharing = { visibility: "private", group_ids: [] };
 
 export const SaveViewModal: React.FC<{
   t: TFunction;
@@ -23,11 +28,19 @@ export const SaveViewModal: React.FC<{
   onRefreshViews: () => Promise<void>;
 }> = ({ t, open, onClose, scopedViews, localFilters, onRefreshViews }) => {
   const [busy, setBusy] = useState(false);
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+  const canShare = isOwner || isSuperUser || handlePermissionExists("share_entry_view");
 
   const [saveName, setSaveName] = useState("");
   const [saveDefault, setSaveDefault] = useState(false);
   const [saveMode, setSaveMode] = useState<"create" | "overwrite">("create");
   const [overwriteView, setOverwriteView] = useState<Visualization | null>(null);
+  const [sharing, setSharing] = useState<ViewSharing>(PRIVATE);
+
+  const { groups, loading: groupsLoading } = useGroupOptions(open && canShare && sharing.visibility === "groups");
+
+  // Presets shared by others are read-only, so they can't be overwritten
+  const editableViews = useMemo(() => scopedViews.filter((v) => v.can_edit !== false), [scopedViews]);
 
   const isOverwrite = saveMode === "overwrite";
   const defaultLocked = isOverwrite && !!overwriteView?.is_default;
@@ -37,6 +50,7 @@ export const SaveViewModal: React.FC<{
     setSaveDefault(false);
     setSaveMode("create");
     setOverwriteView(null);
+    setSharing(PRIVATE);
   }, []);
 
   useEffect(() => {
@@ -51,8 +65,9 @@ export const SaveViewModal: React.FC<{
   const canSave = useMemo(() => {
     const nameOk = isOverwrite ? !!overwriteView : !!effectiveName;
     const overwriteOk = !isOverwrite || !!overwriteView;
-    return nameOk && overwriteOk && !busy;
-  }, [busy, effectiveName, isOverwrite, overwriteView]);
+    const sharingOk = sharing.visibility !== "groups" || sharing.group_ids.length > 0;
+    return nameOk && overwriteOk && sharingOk && !busy;
+  }, [busy, effectiveName, isOverwrite, overwriteView, sharing]);
 
   const saveView = useCallback(async () => {
     const name = effectiveName;
@@ -64,6 +79,8 @@ export const SaveViewModal: React.FC<{
       is_default: defaultLocked ? true : saveDefault,
       settlement_status: !!localFilters.settlement_status,
       filters: toEntryFilters(localFilters),
+      // Without the share permission the existing scope is left untouched
+      ...(canShare ? sharing : {}),
     };
 
     try {
@@ -73,7 +90,7 @@ export const SaveViewModal: React.FC<{
         const r: ApiResponse<unknown> = await api.editViewPreset(overwriteView.id, payload);
         if (isApiError(r)) throw r.error;
       } else {
-        const sameName = scopedViews.find((v) => v.name.toLowerCase() === name.toLowerCase());
+        const sameName = editableViews.find((v) => v.name.toLowerCase() === name.toLowerCase());
         if (sameName) {
           const r: ApiResponse<unknown> = await api.editViewPreset(sameName.id, payload);
           if (isApiError(r)) throw r.error;
@@ -92,7 +109,9 @@ export const SaveViewModal: React.FC<{
       setBusy(false);
     }
   }, [
+    canShare,
     defaultLocked,
+    editableViews,
     effectiveName,
     isOverwrite,
     localFilters,
@@ -101,7 +120,7 @@ export const SaveViewModal: React.FC<{
     overwriteView,
     reset,
     saveDefault,
-    scopedViews,
+    sharing,
   ]);
 
   if (!open) return null;
@@ -183,7 +202,7 @@ export const SaveViewModal: React.FC<{
               <div className="mt-2 space-y-1">
                 <Select<Visualization>
                   label={t("filterBar:saveModal.chooseView")}
-                  items={scopedViews}
+                  items={editableViews}
                   selected={overwriteView ? [overwriteView] : []}
                   onChange={(list) => {
                     const v = list?.[0] ?? null;
@@ -192,6 +211,7 @@ export const SaveViewModal: React.FC<{
                     // Fill name (input is disabled) and sync default state
                     setSaveName(v?.name ?? "");
                     setSaveDefault(!!v?.is_default);
+                    setSharing(v ? { visibility: v.visibility ?? "private", group_ids: v.group_ids ?? [] } : PRIVATE);
                   }}
                   getItemKey={(item) => item.id}
                   getItemLabel={(item) =>
@@ -207,6 +227,16 @@ export const SaveViewModal: React.FC<{
             )}
           </div>
 
+          {canShare && (
+            <ViewSharingFields
+              t={t}
+              value={sharing}
+              onChange={setSharing}
+              groups={groups}
+              groupsLoading={groupsLoading}
+            />
+          )}
+
           <div className="flex justify-end gap-2 pt-1">
             <Button
               variant="outline"
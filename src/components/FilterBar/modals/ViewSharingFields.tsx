@@ -0,0 +1,70 @@
+import React from "react";
+import type { TFunction } from "i18next";
+import { Building2, Lock, Users } from "lucide-react";
+
+import Select from "src/shared/ui/Select/Select";
+
+import type { ViewPresetVisibility } from "@/models/components/viewPresets";
+import type { LookupOption } from "../FilterBar.types";
+
+export type ViewSharing = { visibility: ViewPresetVisibility; group_ids: string[] };
+
+const VISIBILITY_OPTIONS: Array<{ id: ViewPresetVisibility; icon: React.ReactNode }> = [
+  { id: "private", icon: <Lock className="h-3.5 w-3.5" aria-hidden /> },
+  { id: "organization", icon: <Building2 className="h-3.5 w-3.5" aria-hidden /> },
+  { id: "groups", icon: <Users className="h-3.5 w-3.5" aria-hidden /> },
+];
+
+export const VisibilityIcon: React.FC<{ visibility?: ViewPresetVisibility }> = ({ visibility = "private" }) => (
+  <>{VISIBILITY_OPTIONS.find((o) => o.id === visibility)?.icon}</>
+);
+
+/** Sharing scope picker shared by the save and config modals. */
+export const ViewSharingFields: React.FC<{
+  t: TFunction;
+  value: ViewSharing;
+  onChange: (next: ViewSharing) => void;
+  groups: LookupOption[];
+  groupsLoading: boolean;
+  disabled?: boolean;
+}> = ({ t, value, onChange, groups, groupsLoading, disabled }) => (
+  <div className="space-y-2">
+    <div className="font-semibold text-[12px]">{t("filterBar:sharing.title")}</div>
+
+    <div className="grid grid-cols-3 gap-2">
+      {VISIBILITY_OPTIONS.map((o) => (
+        <button
+          key={o.id}
+          type="button"
+          disabled={disabled}
+          aria-pressed={value.visibility === o.id}
+          onClick={() => onChange({ visibility: o.id, group_ids: o.id === "groups" ? value.group_ids : [] })}
+          className={`flex items-center justify-center gap-1.5 rounded-md border px-2 py-1.5 text-[12px] ${
+            value.visibility === o.id
+              ? "border-gray-900 bg-gray-50 text-gray-900"
+              : "border-gray-200 text-gray-600 hover:bg-gray-50"
+          }`}
+        >
+          {o.icon}
+          {t(`filterBar:sharing.visibility.${o.id}`)}
+        </button>
+      ))}
+    </div>
+
+    {value.visibility === "groups" && (
+      <Select<LookupOption>
+        label={t("filterBar:sharing.groups")}
+        items={groups}
+        selected={groups.filter((g) => value.group_ids.includes(g.id))}
+        onChange={(list) => onChange({ ...value, group_ids: list.map((g) => g.id) })}
+        getItemKey={(g) => g.id}
+        getItemLabel={(g) => g.label}
+        buttonLabel={groupsLoading ? t("filterBar:sharing.groupsLoading") : t("filterBar:sharing.groupsPlaceholder")}
+        customStyles={{ maxHeight: "200px" }}
+        disabled={disabled}
+      />
+    )}
+
+    <p className="text-[11px] text-gray-500">{t(`filterBar:sharing.hint.${value.visibility}`)}</p>
+  </div>
+);
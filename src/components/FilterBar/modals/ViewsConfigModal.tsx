@@ -3,14 +3,19 @@ import type { TFunction } from "i18next";
 
 import Button from "@/shared/ui/Button";
 import Checkbox from "@/shared/ui/Checkbox";
-import { Pencil } from "lucide-react";
+import { Building2, Lock, Pencil, Pin, Share2 } from "lucide-react";
 
 import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
 import type { ApiResponse } from "@/models/Api";
 import type { Visualization } from "@/models/components/filterBar";
 import { isApiError } from "../FilterBar.utils";
 import { ModalShell } from "../ui/ModalShell";
 import { PermissionMiddleware } from "src/middlewares";
+import { useGroupOptions } from "../hooks/useGroupOptions";
+import { ViewSharingFields, VisibilityIcon, type ViewSharing } from "./ViewSharingFields";
+
+const isEditable = (v: Visualization) => v.can_edit !== false;
 
 export const ViewsConfigModal: React.FC<{
   t: TFunction;
@@ -23,13 +28,25 @@ export const ViewsConfigModal: React.FC<{
 }> = ({ t, open, onClose, scopedViews, onApplyViewToForm, onRefreshViews }) => {
   const [busy, setBusy] = useState(false);
 
+  const { user, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+  const canShare = isOwner || isSuperUser || handlePermissionExists("share_entry_view");
+  const canPin = isOwner || isSuperUser || handlePermissionExists("pin_entry_view");
+
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renamingName, setRenamingName] = useState("");
 
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [sharingDraft, setSharingDraft] = useState<ViewSharing>({ visibility: "private", group_ids: [] });
+
+  const needsGroups = open && (sharingId !== null || scopedViews.some((v) => v.visibility === "groups"));
+  const { groups, loading: groupsLoading } = useGroupOptions(needsGroups);
+  const groupNameById = useMemo(() => new Map(groups.map((g) => [g.id, g.label])), [groups]);
+
   useEffect(() => {
     if (!open) {
       setRenamingId(null);
       setRenamingName("");
+      setSharingId(null);
       setBusy(false);
     }
   }, [open]);
@@ -39,7 +56,7 @@ export const ViewsConfigModal: React.FC<{
   const toggleDefaultView = useCallback(
     async (view: Visualization) => {
       // Freeze checkboxes while renaming any view
-      if (renamingId) return;
+      if (renamingId || !isEditable(view)) return;
 
       try {
         setBusy(true);
@@ -48,7 +65,8 @@ export const ViewsConfigModal: React.FC<{
         if (isApiError(r1)) throw r1.error;
 
         if (!view.is_default) {
-          const others = scopedViews.filter((o) => o.id !== view.id && o.is_default);
+          // Only the user's own presets carry their personal default
+          const others = scopedViews.filter((o) => o.id !== view.id && o.is_default && isEditable(o));
           if (others.length) {
             await Promise.all(
               others.map(async (o) => {
@@ -88,6 +106,39 @@ export const ViewsConfigModal: React.FC<{
     }
   }, [onRefreshViews, renamingId, renamingName]);
 
+  const saveSharing = useCallback(async () => {
+    const id = sharingId;
+    if (!id) return;
+
+    try {
+      setBusy(true);
+      const r: ApiResponse<unknown> = await api.editViewPreset(id, sharingDraft);
+      if (isApiError(r)) throw r.error;
+      await onRefreshViews();
+    } catch (err) {
+      console.error("Failed to update view sharing", err);
+    } finally {
+      setBusy(false);
+      setSharingId(null);
+    }
+  }, [onRefreshViews, sharingDraft, sharingId]);
+
+  const toggleOrgDefault = useCallback(
+    async (view: Visualization) => {
+      try {
+        setBusy(true);
+        const r: ApiResponse<unknown> = await api.pinViewPreset(view.id, { is_org_default: !view.is_org_default });
+        if (isApiError(r)) throw r.error;
+        await onRefreshViews();
+      } catch (err) {
+        console.error("Failed to pin organization default view", err);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onRefreshViews]
+  );
+
   const deleteView = useCallback(
     async (id: string) => {
       try {
@@ -104,6 +155,15 @@ export const ViewsConfigModal: React.FC<{
     [onRefreshViews]
   );
 
+  const ownerLabel = (v: Visualization) =>
+    !v.owner || v.owner.id === user?.id ? t("filterBar:configModal.ownerYou") : v.owner.name;
+
+  const scopeLabel = (v: Visualization) => {
+    if (v.visibility !== "groups") return t(`filterBar:sharing.visibility.${v.visibility ?? "private"}`);
+    const names = (v.group_ids ?? []).map((id) => groupNameById.get(id)).filter(Boolean) as string[];
+    return names.length ? names.join(", ") : t("filterBar:sharing.groupCount", { count: v.group_ids?.length ?? 0 });
+  };
+
   if (!open) return null;
 
   const isRenamingAny = renamingId != null;
@@ -111,97 +171,193 @@ export const ViewsConfigModal: React.FC<{
   return (
     <ModalShell busy={busy} title={t("filterBar:configModal.title")} onClose={onClose}>
       <div className={busy ? "pointer-events-none opacity-60" : ""}>
-        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
           {scopedViews.length === 0 && (
             <div className="px-3 py-2 text-xs text-gray-500">{t("filterBar:configModal.empty")}</div>
           )}
 
           {scopedViews.map((v) => {
             const isRenaming = renamingId === v.id;
+            const editable = isEditable(v);
+            const isSharingOpen = sharingId === v.id;
 
             return (
-              <div key={v.id} className="px-3 py-2 flex items-center gap-3">
-                <label className="inline-flex items-center gap-2">
-                  <Checkbox
-                    checked={!!v.is_default}
-                    size="small"
-                    disabled={busy || isRenamingAny} // freeze while renaming
-                    onChange={() => void toggleDefaultView(v)}
-                  />
-
-                  {isRenaming ? (
-                    <input
-                      className="border border-gray-300 rounded px-2 py-1 text-sm"
-                      value={renamingName}
-                      onChange={(e) => setRenamingName(e.target.value)}
-                      autoFocus
+              <div key={v.id} className="px-3 py-2 space-y-2">
+                <div className="flex items-center gap-3">
+                  <label className="inline-flex items-center gap-2 min-w-0">
+                    <Checkbox
+                      checked={!!v.is_default}
+                      size="small"
+                      disabled={busy || isRenamingAny || !editable} // freeze while renaming
+                      onChange={() => void toggleDefaultView(v)}
                     />
-                  ) : (
-                    <span className="text-sm text-gray-800">{v.name}</span>
-                  )}
-                </label>
-
-                <div className="ml-auto flex items-center gap-2">
-                  {isRenaming ? (
-                    <>
+
+                    {isRenaming ? (
+                      <input
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        value={renamingName}
+                        onChange={(e) => setRenamingName(e.target.value)}
+                        autoFocus
+                      />
+                    ) : (
+                      <span className="min-w-0">
+                        <span className="block text-sm text-gray-800 truncate">{v.name}</span>
+                        <span className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[11px] text-gray-500">
+                          <span>{t("filterBar:configModal.owner", { name: ownerLabel(v) })}</span>
+                          <span className="inline-flex items-center gap-1">
+                            <VisibilityIcon visibility={v.visibility} />
+                            {scopeLabel(v)}
+                          </span>
+                          {v.is_org_default && (
+                            <span className="inline-flex items-center gap-1 text-amber-700">
+                              <Building2 className="h-3 w-3" aria-hidden />
+                              {t("filterBar:configModal.orgDefaultTag")}
+                            </span>
+                          )}
+                          {!editable && (
+                            <span className="inline-flex items-center gap-1">
+                              <Lock className="h-3 w-3" aria-hidden />
+                              {t("filterBar:configModal.readOnlyTag")}
+                            </span>
+                          )}
+                        </span>
+                      </span>
+                    )}
+                  </label>
+
+                  <div className="ml-auto flex items-center gap-2 shrink-0">
+                    {isRenaming ? (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy || !renamingName.trim()}
+                          className="bg-white hover:bg-gray-50"
+                          onClick={() => void renameView()}
+                        >
+                          {t("filterBar:configModal.saveName")}
+                        </Button>
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy}
+                          className="bg-white hover:bg-gray-50"
+                          onClick={() => {
+                            setRenamingId(null);
+                            setRenamingName("");
+                          }}
+                        >
+                          {t("filterBar:configModal.cancel")}
+                        </Button>
+                      </>
+                    ) : (
+                      editable && (
+                        <PermissionMiddleware codeName="change_entry_view">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => {
+                              setRenamingId(v.id);
+                              setRenamingName(v.name);
+                            }}
+                            className="inline-flex items-center gap-2"
+                          >
+                            <Pencil className="h-4 w-4" aria-hidden />
+                            {t("filterBar:configModal.rename")}
+                          </Button>
+                        </PermissionMiddleware>
+                      )
+                    )}
+
+                    {editable && canShare && !isRenaming && (
                       <Button
                         variant="outline"
                         size="sm"
-                        disabled={busy || !renamingName.trim()}
-                        className="bg-white hover:bg-gray-50"
-                        onClick={() => void renameView()}
+                        disabled={busy}
+                        aria-expanded={isSharingOpen}
+                        onClick={() => {
+                          setSharingId(isSharingOpen ? null : v.id);
+                          setSharingDraft({ visibility: v.visibility ?? "private", group_ids: v.group_ids ?? [] });
+                        }}
+                        className="inline-flex items-center gap-2"
                       >
-                        {t("filterBar:configModal.saveName")}
+                        <Share2 className="h-4 w-4" aria-hidden />
+                        {t("filterBar:configModal.share")}
                       </Button>
+                    )}
 
+                    {canPin && v.visibility === "organization" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        aria-pressed={!!v.is_org_default}
+                        title={t("filterBar:configModal.pinHint")}
+                        onClick={() => void toggleOrgDefault(v)}
+                        className="inline-flex items-center gap-2"
+                      >
+                        <Pin className="h-4 w-4" aria-hidden />
+                        {v.is_org_default ? t("filterBar:configModal.unpin") : t("filterBar:configModal.pin")}
+                      </Button>
+                    )}
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => {
+                        const fresh = viewById.get(v.id) ?? v;
+                        onApplyViewToForm(fresh);
+                      }}
+                    >
+                      {t("filterBar:configModal.apply")}
+                    </Button>
+                    {editable && (
+                      <PermissionMiddleware codeName="delete_entry_view">
+                        <Button variant="outline" size="sm" disabled={busy} onClick={() => void deleteView(v.id)}>
+                          {t("filterBar:configModal.delete")}
+                        </Button>
+                      </PermissionMiddleware>
+                    )}
+                  </div>
+                </div>
+
+                {isSharingOpen && (
+                  <div className="rounded-md border border-gray-200 bg-gray-50 p-3 text-xs text-gray-700">
+                    <ViewSharingFields
+                      t={t}
+                      value={sharingDraft}
+                      onChange={setSharingDraft}
+                      groups={groups}
+                      groupsLoading={groupsLoading}
+                      disabled={busy}
+                    />
+                    <div className="flex justify-end gap-2 mt-3">
                       <Button
                         variant="outline"
                         size="sm"
                         disabled={busy}
                         className="bg-white hover:bg-gray-50"
-                        onClick={() => {
-                          setRenamingId(null);
-                          setRenamingName("");
-                        }}
+                        onClick={() => setSharingId(null)}
                       >
                         {t("filterBar:configModal.cancel")}
                       </Button>
-                    </>
-                  ) : (
-                    <PermissionMiddleware codeName="change_entry_view">
                       <Button
                         variant="outline"
                         size="sm"
-                        disabled={busy}
-                        onClick={() => {
-                          setRenamingId(v.id);
-                          setRenamingName(v.name);
-                        }}
-                        className="inline-flex items-center gap-2"
+                        disabled={
+                          busy || (sharingDraft.visibility === "groups" && sharingDraft.group_ids.length === 0)
+                        }
+                        className="bg-white hover:bg-gray-50"
+                        onClick={() => void saveSharing()}
                       >
-                        <Pencil className="h-4 w-4" aria-hidden />
-                        {t("filterBar:configModal.rename")}
+                        {t("filterBar:configModal.saveSharing")}
                       </Button>
-                    </PermissionMiddleware>
-                  )}
-
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    disabled={busy}
-                    onClick={() => {
-                      const fresh = viewById.get(v.id) ?? v;
-                      onApplyViewToForm(fresh);
-                    }}
-                  >
-                    {t("filterBar:configModal.apply")}
-                  </Button>
-                  <PermissionMiddleware codeName="delete_entry_view">
-                    <Button variant="outline" size="sm" disabled={busy} onClick={() => void deleteView(v.id)}>
-                      {t("filterBar:configModal.delete")}
-                    </Button>
-                  </PermissionMiddleware>
-                </div>
+                    </div>
+                  </div>
+                )}
               </div>
             );
           })}
@@ -0,0 +1,153 @@
+import React from "react";
+import type { TFunction } from "i18next";
+import { Trash2 } from "lucide-react";
+
+import Select from "src/shared/ui/Select/Select";
+import Input from "@/shared/ui/Input";
+
+import type { QueryCondition, QueryField, QueryIdField, QueryTextOperator } from "@/models/components/filterBar";
+import type { LookupOption } from "../FilterBar.types";
+import { QUERY_FIELDS, emptyCondition } from "./queryAst";
+
+const TEXT_OPERATORS: QueryTextOperator[] = ["contains", "starts_with", "equals"];
+
+type Item<T extends string> = { id: T; label: string };
+
+export const NegateToggle: React.FC<{ t: TFunction; value?: boolean; onChange: (v: boolean) => void }> = ({
+  t,
+  value,
+  onChange,
+}) => (
+  <button
+    type="button"
+    onClick={() => onChange(!value)}
+    aria-pressed={!!value}
+    title={t("filterBar:query.notHint")}
+    className={`h-7 shrink-0 rounded border px-2 text-[11px] font-semibold ${
+      value ? "border-red-300 bg-red-50 text-red-700" : "border-gray-300 bg-white text-gray-500 hover:bg-gray-50"
+    }`}
+  >
+    {t("filterBar:query.not")}
+  </button>
+);
+
+export const QueryConditionRow: React.FC<{
+  t: TFunction;
+  condition: QueryCondition;
+  optionsFor: (field: QueryIdField) => LookupOption[];
+  onChange: (next: QueryCondition) => void;
+  onRemove: () => void;
+}> = ({ t, condition, optionsFor, onChange, onRemove }) => {
+  const fieldItems: Item<QueryField>[] = QUERY_FIELDS.map((f) => ({ id: f, label: t(`filterBar:query.fields.${f}`) }));
+  const opItems: Item<QueryTextOperator>[] = TEXT_OPERATORS.map((op) => ({ id: op, label: t(`filterBar:query.ops.${op}`) }));
+
+  const changeField = (field: QueryField) => {
+    if (field === condition.field) return;
+    onChange({ ...emptyCondition(field), negate: condition.negate });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <NegateToggle t={t} value={condition.negate} onChange={(negate) => onChange({ ...condition, negate })} />
+
+      <div className="w-[150px] shrink-0">
+        <Select<Item<QueryField>>
+          items={fieldItems}
+          selected={fieldItems.filter((i) => i.id === condition.field)}
+          onChange={(sel) => sel[0] && changeField(sel[0].id)}
+          getItemKey={(i) => i.id}
+          getItemLabel={(i) => i.label}
+          singleSelect
+          hideCheckboxes
+          hideFilter
+          size="xs"
+        />
+      </div>
+
+      {condition.type === "text" && (
+        <>
+          <div className="w-[120px] shrink-0">
+            <Select<Item<QueryTextOperator>>
+              items={opItems}
+              selected={opItems.filter((i) => i.id === condition.op)}
+              onChange={(sel) => sel[0] && onChange({ ...condition, op: sel[0].id })}
+              getItemKey={(i) => i.id}
+              getItemLabel={(i) => i.label}
+              singleSelect
+              hideCheckboxes
+              hideFilter
+              size="xs"
+            />
+          </div>
+          <div className="min-w-[140px] flex-1">
+            <Input
+              kind="text"
+              size="xs"
+              value={condition.value}
+              placeholder={t("filterBar:query.valuePlaceholder")}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+
+      {condition.type === "in" && (
+        <div className="min-w-[200px] flex-1">
+          <Select<LookupOption>
+            items={optionsFor(condition.field)}
+            selected={optionsFor(condition.field).filter((o) => condition.values.includes(o.id))}
+            onChange={(sel) => onChange({ ...condition, values: sel.map((o) => o.id) })}
+            getItemKey={(o) => o.id}
+            getItemLabel={(o) => o.label}
+            buttonLabel={t("filterBar:query.selectValues")}
+            customStyles={{ maxHeight: "240px" }}
+            virtualize
+            virtualRowHeight={32}
+            virtualThreshold={300}
+            size="xs"
+          />
+        </div>
+      )}
+
+      {condition.type === "range" && (
+        <div className="flex min-w-[220px] flex-1 items-center gap-2">
+          {(["min", "max"] as const).map((bound, i) => (
+            <React.Fragment key={bound}>
+              {i > 0 && <span className="text-[11px] text-gray-500">–</span>}
+              {condition.field === "date" ? (
+                <Input
+                  kind="date"
+                  size="xs"
+                  value={condition[bound] ?? ""}
+                  aria-label={t(`filterBar:query.${bound}`)}
+                  onValueChange={(iso) => onChange({ ...condition, [bound]: iso })}
+                />
+              ) : (
+                <Input
+                  kind="amount"
+                  size="xs"
+                  display="currency"
+                  value={condition[bound] ?? ""}
+                  aria-label={t(`filterBar:query.${bound}`)}
+                  placeholder={t(`filterBar:query.${bound}`)}
+                  onValueChange={(next: string) => onChange({ ...condition, [bound]: next })}
+                  zeroAsEmpty
+                />
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="grid h-7 w-7 shrink-0 place-items-center rounded text-gray-400 hover:bg-red-50 hover:text-red-600"
+        aria-label={t("filterBar:query.removeCondition")}
+        title={t("filterBar:query.removeCondition")}
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+};
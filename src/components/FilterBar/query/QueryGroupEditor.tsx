@@ -0,0 +1,110 @@
+import React from "react";
+import type { TFunction } from "i18next";
+import { Plus, X } from "lucide-react";
+
+import type { QueryGroup, QueryIdField, QueryNode } from "@/models/components/filterBar";
+import type { LookupOption } from "../FilterBar.types";
+import { NegateToggle, QueryConditionRow } from "./QueryConditionRow";
+import { emptyCondition, emptyGroup } from "./queryAst";
+
+/** Groups deeper than this only accept conditions, which keeps the popover readable. */
+const MAX_DEPTH = 2;
+
+export const QueryGroupEditor: React.FC<{
+  t: TFunction;
+  group: QueryGroup;
+  depth?: number;
+  optionsFor: (field: QueryIdField) => LookupOption[];
+  onChange: (next: QueryGroup) => void;
+  onRemove?: () => void;
+}> = ({ t, group, depth = 0, optionsFor, onChange, onRemove }) => {
+  const setChild = (index: number, next: QueryNode) =>
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? next : c)) });
+
+  const removeChild = (index: number) =>
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+
+  const addChild = (node: QueryNode) => onChange({ ...group, children: [...group.children, node] });
+
+  return (
+    <div className={depth > 0 ? "space-y-2 border-l-2 border-gray-200 pl-3" : "space-y-2"}>
+      <div className="flex items-center gap-2">
+        <NegateToggle t={t} value={group.negate} onChange={(negate) => onChange({ ...group, negate })} />
+
+        <div className="inline-flex overflow-hidden rounded border border-gray-300">
+          {(["and", "or"] as const).map((op) => (
+            <button
+              key={op}
+              type="button"
+              onClick={() => onChange({ ...group, op })}
+              aria-pressed={group.op === op}
+              className={`h-7 px-2 text-[11px] font-semibold ${
+                group.op === op ? "bg-gray-900 text-white" : "bg-white text-gray-600 hover:bg-gray-50"
+              }`}
+            >
+              {t(`filterBar:query.${op}`)}
+            </button>
+          ))}
+        </div>
+
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto grid h-7 w-7 place-items-center rounded text-gray-400 hover:bg-red-50 hover:text-red-600"
+            aria-label={t("filterBar:query.removeGroup")}
+            title={t("filterBar:query.removeGroup")}
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {group.children.length === 0 && <p className="text-[12px] text-gray-500">{t("filterBar:query.empty")}</p>}
+
+      {group.children.map((child, i) =>
+        child.type === "group" ? (
+          <QueryGroupEditor
+            key={i}
+            t={t}
+            group={child}
+            depth={depth + 1}
+            optionsFor={optionsFor}
+            onChange={(next) => setChild(i, next)}
+            onRemove={() => removeChild(i)}
+          />
+        ) : (
+          <QueryConditionRow
+            key={i}
+            t={t}
+            condition={child}
+            optionsFor={optionsFor}
+            onChange={(next) => setChild(i, next)}
+            onRemove={() => removeChild(i)}
+          />
+        )
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => addChild(emptyCondition("description"))}
+          className="inline-flex items-center gap-1 text-[12px] font-medium text-gray-700 hover:text-gray-900"
+        >
+          <Plus size={12} />
+          {t("filterBar:query.addCondition")}
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addChild({ ...emptyGroup(group.op === "and" ? "or" : "and"), children: [emptyCondition("description")] })}
+            className="inline-flex items-center gap-1 text-[12px] font-medium text-gray-700 hover:text-gray-900"
+          >
+            <Plus size={12} />
+            {t("filterBar:query.addGroup")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
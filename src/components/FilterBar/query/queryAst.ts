@@ -0,0 +1,208 @@
+import type {
+  LocalFilters,
+  QueryCondition,
+  QueryField,
+  QueryGroup,
+  QueryIdField,
+  QueryNode,
+  QueryRangeField,
+  QueryTextField,
+} from "@/models/components/filterBar";
+
+// Same rule as FilterBar.utils#isPositiveMajor; kept local since the utils import this module
+function isPositiveMajor(value?: string): boolean {
+  const n = Number(String(value ?? "").trim().replace(/\s+/g, "").replace(",", "."));
+  return !!String(value ?? "").trim() && Number.isFinite(n) && n > 0;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Field metadata                                                             */
+/* -------------------------------------------------------------------------- */
+
+export const TEXT_FIELDS: QueryTextField[] = ["description", "observation"];
+export const RANGE_FIELDS: QueryRangeField[] = ["amount", "date"];
+export const ID_FIELDS: QueryIdField[] = [
+  "cashflow_category",
+  "bank",
+  "project",
+  "entity",
+  "department",
+  "inventory_item",
+  "document_type",
+  "tx_type",
+];
+
+export const QUERY_FIELDS: QueryField[] = [...TEXT_FIELDS, ...ID_FIELDS, ...RANGE_FIELDS];
+
+/** Id fields that have a multi-value counterpart in the simple (chip) filters. */
+const SIMPLE_ID_FIELDS = {
+  cashflow_category: "cashflow_category_id",
+  bank: "bank_id",
+  project: "project_id",
+  entity: "entity_id",
+  department: "department_id",
+  inventory_item: "inventory_item_id",
+  document_type: "document_type",
+} as const satisfies Record<Exclude<QueryIdField, "tx_type">, keyof LocalFilters>;
+
+type SimpleIdField = keyof typeof SIMPLE_ID_FIELDS;
+
+const isTextField = (f: QueryField): f is QueryTextField => (TEXT_FIELDS as QueryField[]).includes(f);
+const isRangeField = (f: QueryField): f is QueryRangeField => (RANGE_FIELDS as QueryField[]).includes(f);
+
+export function emptyCondition(field: QueryField): QueryCondition {
+  if (isTextField(field)) return { type: "text", field, op: "contains", value: "" };
+  if (isRangeField(field)) return { type: "range", field, min: "", max: "" };
+  return { type: "in", field, values: [] };
+}
+
+export function emptyGroup(op: QueryGroup["op"] = "and"): QueryGroup {
+  return { type: "group", op, children: [] };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Normalization                                                              */
+/* -------------------------------------------------------------------------- */
+
+function isConditionComplete(c: QueryCondition): boolean {
+  if (c.type === "text") return !!c.value.trim();
+  if (c.type === "in") return c.values.length > 0;
+  return !!(c.min || c.max);
+}
+
+/** Drops incomplete conditions and empty groups; null when nothing is left. */
+export function pruneQuery(group: QueryGroup | undefined): QueryGroup | null {
+  if (!group) return null;
+
+  const children = group.children
+    .map((child): QueryNode | null => {
+      if (child.type === "group") return pruneQuery(child);
+      return isConditionComplete(child) ? child : null;
+    })
+    .filter((c): c is QueryNode => c !== null);
+
+  if (!children.length) return null;
+  return { ...group, children };
+}
+
+export function countConditions(group: QueryGroup): number {
+  return group.children.reduce((acc, c) => acc + (c.type === "group" ? countConditions(c) : 1), 0);
+}
+
+export function queryFields(group: QueryGroup): QueryField[] {
+  const out = new Set<QueryField>();
+  const walk = (g: QueryGroup) =>
+    g.children.forEach((c) => (c.type === "group" ? walk(c) : out.add(c.field)));
+  walk(group);
+  return QUERY_FIELDS.filter((f) => out.has(f));
+}
+
+/* -------------------------------------------------------------------------- */
+/* Simple filters <-> query                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Seeds the builder from the current chips. The search box (description) and
+ * the installment/settlement chips stay outside the query.
+ */
+export function simpleFiltersToQuery(local: LocalFilters): QueryGroup {
+  const children: QueryCondition[] = [];
+
+  if (local.observation) {
+    children.push({ type: "text", field: "observation", op: "contains", value: local.observation });
+  }
+
+  (Object.keys(SIMPLE_ID_FIELDS) as SimpleIdField[]).forEach((field) => {
+    const values = local[SIMPLE_ID_FIELDS[field]];
+    if (values.length) children.push({ type: "in", field, values: [...values] });
+  });
+
+  if (local.tx_type) children.push({ type: "in", field: "tx_type", values: [local.tx_type] });
+
+  if (local.start_date || local.end_date) {
+    children.push({ type: "range", field: "date", min: local.start_date, max: local.end_date });
+  }
+
+  if (isPositiveMajor(local.amount_min) || isPositiveMajor(local.amount_max)) {
+    children.push({
+      type: "range",
+      field: "amount",
+      min: isPositiveMajor(local.amount_min) ? local.amount_min : "",
+      max: isPositiveMajor(local.amount_max) ? local.amount_max : "",
+    });
+  }
+
+  return { type: "group", op: "and", children };
+}
+
+/** Clears every simple field that `simpleFiltersToQuery` moved into the query. */
+export function clearSeededFields(local: LocalFilters): LocalFilters {
+  const next: LocalFilters = {
+    ...local,
+    observation: "",
+    tx_type: undefined,
+    start_date: "",
+    end_date: "",
+    amount_min: "",
+    amount_max: "",
+  };
+  (Object.keys(SIMPLE_ID_FIELDS) as SimpleIdField[]).forEach((field) => {
+    next[SIMPLE_ID_FIELDS[field]] = [];
+  });
+  return next;
+}
+
+/**
+ * Folds the query back into chips when it is a plain AND of positive
+ * conditions with at most one condition per field and no text operator other
+ * than "contains". Otherwise the pruned query is kept as is.
+ */
+export function collapseQuery(local: LocalFilters): LocalFilters {
+  const query = pruneQuery(local.query);
+  if (!query) return { ...local, query: undefined };
+
+  const keep = { ...local, query };
+  if (query.op !== "and" || query.negate) return keep;
+
+  const next: LocalFilters = { ...local, query: undefined };
+  const seen = new Set<QueryField>();
+
+  for (const node of query.children) {
+    if (node.type === "group" || node.negate || seen.has(node.field)) return keep;
+    seen.add(node.field);
+
+    if (node.type === "text") {
+      if (node.op !== "contains" || next[node.field]) return keep;
+      next[node.field] = node.value;
+      continue;
+    }
+
+    if (node.type === "in") {
+      if (node.field === "tx_type") {
+        if (node.values.length !== 1 || next.tx_type) return keep;
+        next.tx_type = node.values[0] === "credit" ? "credit" : "debit";
+        continue;
+      }
+      const target = SIMPLE_ID_FIELDS[node.field];
+      if (next[target].length) return keep;
+      next[target] = [...node.values];
+      continue;
+    }
+
+    if (node.field === "date") {
+      if (next.start_date || next.end_date) return keep;
+      next.start_date = node.min ?? "";
+      next.end_date = node.max ?? "";
+      continue;
+    }
+
+    // Chips only express positive amount bounds
+    const validBound = (v?: string) => !v || isPositiveMajor(v);
+    if (!validBound(node.min) || !validBound(node.max)) return keep;
+    if (isPositiveMajor(next.amount_min) || isPositiveMajor(next.amount_max)) return keep;
+    next.amount_min = node.min ?? "";
+    next.amount_max = node.max ?? "";
+  }
+
+  return next;
+}
@@ -1,10 +1,11 @@
 import React from "react";
 import type { TFunction } from "i18next";
 
-import type { FilterDefinition } from "../FilterBar.types";
+import type { FilterDefinition, FilterLookups } from "../FilterBar.types";
 import type { LocalFilters, ChipKey } from "@/models/components/filterBar";
 import type { BankAccountTableRow } from "@/models/settings/banking";
 import type { CashflowCategory } from "@/models/settings/categories";
+import type { CustomFieldDefinition } from "@/models/settings/customFields";
 
 import { Chip } from "../ui/Chip";
 
@@ -15,6 +16,8 @@ export const ChipsSearchBar: React.FC<{
   localFilters: LocalFilters;
   selectedBanks: BankAccountTableRow[];
   selectedCategories: CashflowCategory[];
+  lookups: FilterLookups;
+  customFields: CustomFieldDefinition[];
 
   onToggleEditor: (key: ChipKey) => void;
   onRemoveChip: (key: ChipKey) => void;
@@ -28,6 +31,8 @@ export const ChipsSearchBar: React.FC<{
   localFilters,
   selectedBanks,
   selectedCategories,
+  lookups,
+  customFields,
   onToggleEditor,
   onRemoveChip,
   searchInputRef,
@@ -51,7 +56,7 @@ export const ChipsSearchBar: React.FC<{
             key={d.key}
             t={t}
             icon={d.icon}
-            label={d.getChipLabel({ t, filters: localFilters, selectedBanks, selectedCategories })}
+            label={d.getChipLabel({ t, filters: localFilters, selectedBanks, selectedCategories, lookups, customFields })}
             onClick={() => onToggleEditor(d.key)}
             onRemove={() => onRemoveChip(d.key)}
           />
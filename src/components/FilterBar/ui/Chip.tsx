@@ -1,7 +1,7 @@
 import React, { useMemo } from "react";
 import type { TFunction } from "i18next";
 import type { FilterIcon } from "../FilterBar.types";
-import { Calendar, Landmark, Receipt, StickyNote } from "lucide-react";
+import { Calendar, Landmark, Receipt, StickyNote, Tag } from "lucide-react";
 
 export const Chip: React.FC<{
   t: TFunction;
@@ -16,6 +16,7 @@ export const Chip: React.FC<{
     if (icon === "bank") return <Landmark className={cls} aria-hidden />;
     if (icon === "accounts") return <Receipt className={cls} aria-hidden />;
     if (icon === "note") return <StickyNote className={cls} aria-hidden />;
+    if (icon === "tag") return <Tag className={cls} aria-hidden />;
     return null;
   }, [icon]);
 
@@ -170,6 +170,13 @@ const KpiCards: React.FC<KpiCardsProps> = ({
     });
   }, [filters?.cashflow_category_id, tr]);
 
+  // Amounts are org-currency; flag foreign entries the backend could not convert
+  const fxHint = useMemo(() => {
+    const missing = (contextSettlement ? st?.fx?.missing_rates : cf?.fx?.missing_rates) ?? 0;
+    if (!missing) return undefined;
+    return tr("kpiCards:common.fxMissing", { count: missing });
+  }, [cf, st, contextSettlement, tr]);
+
   const cashflowKpis: KpiItem[] = useMemo(() => {
     if (!cf) {
       const loadingTxt = tr("kpiCards:loading");
@@ -205,6 +212,7 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             outAmt: currencyFromDecimal(cf.mtd.out),
           }),
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
@@ -223,6 +231,7 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             payAmt: currencyFromDecimal(cf.overdue.pay),
           }),
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
@@ -237,12 +246,13 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             payAmt: currencyFromDecimal(cf.next7.pay),
           }),
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
       },
     ];
-  }, [cf, tr, categoryHint]);
+  }, [cf, tr, categoryHint, fxHint]);
 
   const settledKpis: KpiItem[] = useMemo(() => {
     if (!st) {
@@ -278,7 +288,11 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             recAmt: currencyFromDecimal(st.mtd.in),
             payAmt: currencyFromDecimal(st.mtd.out),
           }),
+          parseMoney(st.fx?.realized_mtd)
+            ? tr("kpiCards:settled.hints.fxRealized", { amount: signedCurrencyFromDecimal(st.fx?.realized_mtd) })
+            : undefined,
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
@@ -297,6 +311,7 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             payAmt: currencyFromDecimal(st.prev.out),
           }),
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
@@ -311,12 +326,13 @@ const KpiCards: React.FC<KpiCardsProps> = ({
             payAmt: currencyFromDecimal(st.last7.out),
           }),
           categoryHint,
+          fxHint,
         ]
           .filter(Boolean)
           .join(" • "),
       },
     ];
-  }, [st, tr, categoryHint]);
+  }, [st, tr, categoryHint, fxHint]);
 
   const autoKpis = contextSettlement ? settledKpis : cashflowKpis;
 
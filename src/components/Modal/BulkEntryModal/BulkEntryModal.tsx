@@ -0,0 +1,700 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/Modal/BulkEntryModal/BulkEntryModal.tsx               */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, CheckCircle2, ClipboardPaste, Plus, Trash2, X, XCircle } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+import { Select } from "@/shared/ui/Select";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+
+import { api } from "@/api/requests";
+import { fetchAllCursor } from "@/lib/list";
+import { duplicateSearchRange, fetchDuplicatePool, type DuplicateCandidate } from "@/lib/duplicates";
+
+import type { ApiErrorBody } from "@/models/Api";
+import type { CashflowCategory } from "@/models/settings/categories";
+import type { Project } from "@/models/settings/projects";
+import type { Entity } from "@/models/settings/entities";
+import type { DocumentType } from "@/models/entries/documentTypes";
+
+import {
+  BULK_FIELDS,
+  defaultMapping,
+  findBatchDuplicates,
+  guessMapping,
+  looksLikeHeader,
+  missingRequiredFields,
+  normalizeKey,
+  parseClipboardTable,
+  validateRow,
+  type BulkField,
+  type BulkLookups,
+} from "./BulkEntryModal.utils";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+};
+
+type Snack = { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" } | null;
+
+const EMPTY_LOOKUPS: BulkLookups = {
+  cashflow_category: new Map(),
+  project: new Map(),
+  entity: new Map(),
+  document_type: new Map(),
+};
+
+const LOOKUP_FIELDS = ["cashflow_category", "project", "entity", "document_type"] as const;
+const STARTER_COLUMNS: BulkField[] = ["due_date", "description", "amount", "cashflow_category"];
+const STARTER_ROWS = 5;
+
+const emptyRow = (width: number) => Array.from({ length: width }, () => "");
+const isBlank = (row: string[]) => row.every((c) => !c.trim());
+
+/** Collects the per-item messages DRF returns for list payloads (`fields.items[i]`). */
+function extractItemErrors(err: unknown): Map<number, string> {
+  const out = new Map<number, string>();
+  const items = (err as ApiErrorBody | null)?.fields?.items;
+  if (!Array.isArray(items)) return out;
+
+  items.forEach((item, i) => {
+    if (!item || typeof item !== "object") return;
+    const messages = Object.entries(item as Record<string, unknown>).map(([field, v]) => {
+      const text = Array.isArray(v) ? v.join(" ") : String(v);
+      return `${field}: ${text}`;
+    });
+    if (messages.length) out.set(i, messages.join(" · "));
+  });
+
+  return out;
+}
+
+const BulkEntryModal: React.FC<Props> = ({ isOpen, onClose, onSave }) => {
+  const { t } = useTranslation(["bulkEntryModal", "entriesModal"]);
+
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<BulkField[]>([]);
+  const [defaultTxType, setDefaultTxType] = useState<"credit" | "debit">("debit");
+
+  const [lookups, setLookups] = useState<BulkLookups>(EMPTY_LOOKUPS);
+  const [suggestions, setSuggestions] = useState<Record<(typeof LOOKUP_FIELDS)[number], string[]>>({
+    cashflow_category: [],
+    project: [],
+    entity: [],
+    document_type: [],
+  });
+  const [loadingOptions, setLoadingOptions] = useState(false);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [serverErrors, setServerErrors] = useState<Map<number, string>>(new Map());
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  /* ------------------------------ Option sources ------------------------------ */
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let alive = true;
+
+    (async () => {
+      setLoadingOptions(true);
+      try {
+        const [catRes, projects, entities, docTypes] = await Promise.all([
+          api.getCashflowCategories(),
+          fetchAllCursor<Project>(api.getProjectsOptions),
+          fetchAllCursor<Entity>(api.getEntitiesOptions),
+          fetchAllCursor<DocumentType>(api.getDocumentTypes),
+        ]);
+        if (!alive) return;
+
+        const categories: CashflowCategory[] = Array.isArray(catRes.data) ? catRes.data : [];
+        const next: BulkLookups = {
+          cashflow_category: new Map(),
+          project: new Map(),
+          entity: new Map(),
+          document_type: new Map(),
+        };
+
+        for (const c of categories.filter((c) => c.is_active !== false)) {
+          const value = { id: c.id, tx_type_hint: c.tx_type_hint };
+          next.cashflow_category.set(normalizeKey(c.name), value);
+          if (c.code) {
+            next.cashflow_category.set(normalizeKey(c.code), value);
+            next.cashflow_category.set(normalizeKey(`${c.code} - ${c.name}`), value);
+          }
+        }
+        for (const p of projects) {
+          next.project.set(normalizeKey(p.name), p.id);
+          if (p.code) next.project.set(normalizeKey(p.code), p.id);
+        }
+        for (const e of entities) {
+          if (e.full_name) next.entity.set(normalizeKey(e.full_name), e.id);
+          if (e.alias_name) next.entity.set(normalizeKey(e.alias_name), e.id);
+        }
+        for (const dt of docTypes.filter((d) => d.is_active !== false)) {
+          next.document_type.set(normalizeKey(dt.code), dt.code);
+          next.document_type.set(
+            normalizeKey(t(`entriesModal:documentTypes.${dt.code}`, { defaultValue: dt.code })),
+            dt.code
+          );
+        }
+
+        setLookups(next);
+        setSuggestions({
+          cashflow_category: categories.map((c) => c.name),
+          project: projects.map((p) => p.name),
+          entity: entities.map((e) => e.full_name || e.alias_name || "").filter(Boolean),
+          document_type: docTypes.map((d) => t(`entriesModal:documentTypes.${d.code}`, { defaultValue: d.code })),
+        });
+      } catch (e) {
+        console.error("Error loading bulk entry sources:", e);
+        if (alive) setSnack({ message: t("bulkEntryModal:errors.loadOptions"), severity: "error" });
+      } finally {
+        if (alive) setLoadingOptions(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [isOpen, t]);
+
+  /* ---------------------------------- Grid ---------------------------------- */
+
+  const width = useMemo(
+    () => Math.max(mapping.length, ...rows.map((r) => r.length), 0),
+    [mapping.length, rows]
+  );
+
+  const validations = useMemo(
+    () => rows.map((row) => (isBlank(row) ? null : validateRow(row, mapping, lookups, defaultTxType))),
+    [rows, mapping, lookups, defaultTxType]
+  );
+
+  const missingFields = useMemo(() => missingRequiredFields(mapping), [mapping]);
+
+  /* ------------------------------- Duplicates ------------------------------- */
+
+  const [savedPool, setSavedPool] = useState<DuplicateCandidate[]>([]);
+
+  // Joined into a string so edits that keep the same date span do not refetch
+  const dueRange = useMemo(() => {
+    const dates = validations.flatMap((v) => (v?.payload ? [v.payload.due_date] : [])).sort();
+    return dates.length ? `${dates[0]}|${dates[dates.length - 1]}` : "";
+  }, [validations]);
+
+  useEffect(() => {
+    if (!isOpen || !dueRange) {
+      setSavedPool([]);
+      return;
+    }
+
+    let alive = true;
+    const [from, to] = dueRange.split("|");
+    const timer = window.setTimeout(async () => {
+      try {
+        const pool = await fetchDuplicatePool(duplicateSearchRange(from, to));
+        if (alive) setSavedPool(pool.candidates);
+      } catch (e) {
+        console.error("Error loading entries for duplicate check:", e);
+      }
+    }, 500);
+
+    return () => {
+      alive = false;
+      window.clearTimeout(timer);
+    };
+  }, [isOpen, dueRange]);
+
+  const duplicateRows = useMemo(
+    () => findBatchDuplicates(validations.map((v) => v?.payload), savedPool),
+    [validations, savedPool]
+  );
+  const validCount = validations.filter((v) => v?.payload).length;
+  const invalidCount = validations.filter((v) => v && !v.payload).length;
+
+  const resetGrid = useCallback(() => {
+    setRows([]);
+    setMapping([]);
+    setServerErrors(new Map());
+  }, []);
+
+  const startEmpty = () => {
+    setMapping(STARTER_COLUMNS);
+    setRows(Array.from({ length: STARTER_ROWS }, () => emptyRow(STARTER_COLUMNS.length)));
+  };
+
+  /** Pastes a block at `at`; into an empty grid it also detects a header row. */
+  const pasteBlock = useCallback(
+    (text: string, at?: { row: number; col: number }) => {
+      const block = parseClipboardTable(text);
+      if (!block.length) return;
+
+      setServerErrors(new Map());
+
+      if (!at) {
+        const hasHeader = looksLikeHeader(block[0]);
+        const body = hasHeader ? block.slice(1) : block;
+        const cols = Math.max(...block.map((r) => r.length));
+        const nextMapping = hasHeader ? guessMapping(block[0]) : defaultMapping(cols);
+
+        setMapping([...nextMapping, ...Array(Math.max(0, cols - nextMapping.length)).fill("ignore")]);
+        setRows(body.map((r) => [...r, ...emptyRow(cols - r.length)]));
+        return;
+      }
+
+      setRows((prev) => {
+        const next = prev.map((r) => [...r]);
+        block.forEach((cells, i) => {
+          const r = at.row + i;
+          while (next.length <= r) next.push(emptyRow(width));
+          cells.forEach((value, j) => {
+            const c = at.col + j;
+            while (next[r].length <= c) next[r].push("");
+            next[r][c] = value;
+          });
+        });
+        return next;
+      });
+
+      const rightEdge = at.col + Math.max(...block.map((r) => r.length));
+      setMapping((prev) =>
+        prev.length >= rightEdge ? prev : [...prev, ...Array(rightEdge - prev.length).fill("ignore")]
+      );
+    },
+    [width]
+  );
+
+  const setCell = (r: number, c: number, value: string) => {
+    setRows((prev) =>
+      prev.map((row, i) => {
+        if (i !== r) return row;
+        const next = [...row, ...emptyRow(Math.max(0, c + 1 - row.length))];
+        next[c] = value;
+        return next;
+      })
+    );
+    setServerErrors((prev) => {
+      if (!prev.has(r)) return prev;
+      const next = new Map(prev);
+      next.delete(r);
+      return next;
+    });
+  };
+
+  const addRow = () => setRows((prev) => [...prev, emptyRow(width)]);
+
+  const removeRow = (r: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== r));
+    setServerErrors(new Map());
+  };
+
+  const setColumnField = (col: number, field: BulkField) => {
+    setMapping((prev) =>
+      prev.map((f, i) => {
+        if (i === col) return field;
+        // Each field maps to at most one column
+        return field !== "ignore" && f === field ? "ignore" : f;
+      })
+    );
+  };
+
+  const focusCell = (r: number, c: number) => {
+    const el = gridRef.current?.querySelector<HTMLInputElement>(`[data-cell="${r}:${c}"]`);
+    el?.focus();
+  };
+
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, r: number, c: number) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (r === rows.length - 1) addRow();
+      requestAnimationFrame(() => focusCell(r + 1, c));
+    } else if (e.key === "ArrowDown" && r < rows.length - 1) {
+      e.preventDefault();
+      focusCell(r + 1, c);
+    } else if (e.key === "ArrowUp" && r > 0) {
+      e.preventDefault();
+      focusCell(r - 1, c);
+    }
+  };
+
+  /* --------------------------------- Close --------------------------------- */
+
+  const hasData = rows.some((r) => !isBlank(r));
+
+  const handleClose = useCallback(() => {
+    if (isSubmitting) return;
+    if (hasData && !window.confirm(t("bulkEntryModal:confirmDiscard"))) return;
+    resetGrid();
+    onClose();
+  }, [hasData, isSubmitting, onClose, resetGrid, t]);
+
+  window.useGlobalEsc(isOpen, handleClose);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const prevOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.body.style.overflow = prevOverflow;
+    };
+  }, [isOpen]);
+
+  /* --------------------------------- Submit --------------------------------- */
+
+  const handleSubmit = async () => {
+    const indices: number[] = [];
+    const items = validations.flatMap((v, i) => {
+      if (!v?.payload) return [];
+      indices.push(i);
+      return [v.payload];
+    });
+    if (!items.length) return;
+
+    const flagged = indices.filter((i) => duplicateRows.has(i)).length;
+    if (flagged && !window.confirm(t("bulkEntryModal:duplicates.confirm", { count: flagged }))) return;
+
+    setIsSubmitting(true);
+    setServerErrors(new Map());
+
+    try {
+      const res = await api.addEntriesBulk(items, true);
+      const created = res.data?.created?.length ?? items.length;
+
+      // Keep the rows that still need fixing; everything valid went in
+      const submitted = new Set(indices);
+      const remaining = rows.filter((row, i) => !submitted.has(i) && !isBlank(row));
+
+      onSave();
+
+      if (!remaining.length) {
+        resetGrid();
+        onClose();
+        return;
+      }
+
+      setRows(remaining);
+      setSnack({ message: t("bulkEntryModal:submit.partial", { count: created }), severity: "success" });
+    } catch (err) {
+      const itemErrors = extractItemErrors(err);
+
+      if (itemErrors.size) {
+        const byRow = new Map<number, string>();
+        itemErrors.forEach((msg, i) => byRow.set(indices[i], msg));
+        setServerErrors(byRow);
+        setSnack({ message: t("bulkEntryModal:submit.rejected", { count: byRow.size }), severity: "error" });
+      } else {
+        const message = (err as ApiErrorBody | null)?.message || t("bulkEntryModal:submit.error");
+        setSnack({ message, severity: "error" });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const fieldItems = BULK_FIELDS.map((f) => ({ id: f, label: t(`bulkEntryModal:fields.${f}`) }));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[9999] bg-black/30 md:grid md:place-items-center">
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label={t("bulkEntryModal:aria.dialog")}
+          className={[
+            "fixed inset-x-0 bottom-0 h-[100dvh] max-h-[100dvh] rounded-none border-0",
+            "md:static md:rounded-lg md:border md:border-gray-200",
+            "md:w-[1500px] md:max-w-[96vw] md:h-[720px] md:max-h-[92vh]",
+            "bg-white shadow-xl overflow-hidden flex flex-col",
+          ].join(" ")}
+        >
+          <header className="border-b border-gray-200 bg-white shrink-0">
+            <div className="px-4 md:px-5 pt-3 md:pt-4 pb-2 flex items-center justify-between">
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="h-8 w-8 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700 shrink-0">
+                  BG
+                </div>
+                <div className="min-w-0">
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("bulkEntryModal:header.kind")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("bulkEntryModal:header.title")}
+                  </h1>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                className="h-9 w-9 rounded-full border border-gray-200 text-gray-500 hover:text-gray-700 hover:bg-gray-50 grid place-items-center shrink-0"
+                onClick={handleClose}
+                aria-label={t("bulkEntryModal:actions.close")}
+                title={t("bulkEntryModal:actions.close")}
+              >
+                <X size={18} />
+              </button>
+            </div>
+          </header>
+
+          <div className="shrink-0 flex flex-wrap items-center gap-2 border-b border-gray-200 bg-gray-50 px-4 md:px-5 py-2">
+            <span className="text-[11px] text-gray-600">{t("bulkEntryModal:toolbar.defaultType")}</span>
+            <div className="inline-flex rounded-md border border-gray-300 bg-white p-0.5">
+              {(["credit", "debit"] as const).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setDefaultTxType(type)}
+                  className={`rounded px-2.5 py-1 text-[12px] ${
+                    defaultTxType === type ? "bg-gray-900 text-white" : "text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  {t(`bulkEntryModal:toolbar.${type}`)}
+                </button>
+              ))}
+            </div>
+
+            <span className="text-[11px] text-gray-500">{t("bulkEntryModal:toolbar.signHint")}</span>
+
+            <div className="ml-auto flex items-center gap-2">
+              {loadingOptions ? <Spinner size={14} className="text-gray-500" /> : null}
+              {rows.length ? (
+                <>
+                  <Button type="button" variant="common" size="sm" onClick={addRow}>
+                    <Plus size={14} className="mr-1" />
+                    {t("bulkEntryModal:actions.addRow")}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="common"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm(t("bulkEntryModal:confirmDiscard"))) resetGrid();
+                    }}
+                  >
+                    {t("bulkEntryModal:actions.clear")}
+                  </Button>
+                </>
+              ) : null}
+            </div>
+          </div>
+
+          {missingFields.length && rows.length ? (
+            <p className="shrink-0 border-b border-amber-200 bg-amber-50 px-4 md:px-5 py-2 text-[12px] text-amber-800">
+              {t("bulkEntryModal:mapping.missing", {
+                fields: missingFields.map((f) => t(`bulkEntryModal:fields.${f}`)).join(", "),
+              })}
+            </p>
+          ) : null}
+
+          <div ref={gridRef} className="min-h-0 flex-1 overflow-auto">
+            {!rows.length ? (
+              <div className="h-full grid place-items-center p-6">
+                <div
+                  tabIndex={0}
+                  role="textbox"
+                  aria-label={t("bulkEntryModal:empty.title")}
+                  onPaste={(e) => {
+                    e.preventDefault();
+                    pasteBlock(e.clipboardData.getData("text/plain"));
+                  }}
+                  className="w-full max-w-xl rounded-lg border-2 border-dashed border-gray-300 px-6 py-10 text-center outline-none focus:border-[color:var(--accentPrimary)]"
+                >
+                  <ClipboardPaste size={28} className="mx-auto text-gray-400" />
+                  <p className="mt-3 text-[14px] font-medium text-gray-900">{t("bulkEntryModal:empty.title")}</p>
+                  <p className="mt-1 text-[12px] text-gray-600">{t("bulkEntryModal:empty.hint")}</p>
+                  <button
+                    type="button"
+                    onClick={startEmpty}
+                    className="mt-4 text-[12px] text-gray-700 underline hover:text-gray-900"
+                  >
+                    {t("bulkEntryModal:empty.startBlank")}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <table className="min-w-full border-separate border-spacing-0 text-[12px]">
+                <thead className="sticky top-0 z-10 bg-white">
+                  <tr>
+                    <th className="w-10 border-b border-gray-200 bg-gray-50 px-2 py-1.5 text-[10px] font-normal text-gray-500">
+                      #
+                    </th>
+                    {Array.from({ length: width }, (_, c) => {
+                      const field = mapping[c] ?? "ignore";
+                      return (
+                        <th
+                          key={c}
+                          className="min-w-[160px] border-b border-l border-gray-200 bg-gray-50 px-1.5 py-1.5 text-left font-normal"
+                        >
+                          <Select<{ id: BulkField; label: string }>
+                            items={fieldItems}
+                            selected={fieldItems.filter((i) => i.id === field)}
+                            onChange={(sel) => setColumnField(c, sel[0]?.id ?? "ignore")}
+                            getItemKey={(i) => i.id}
+                            getItemLabel={(i) => i.label}
+                            buttonLabel={t("bulkEntryModal:fields.ignore")}
+                            singleSelect
+                            hideCheckboxes
+                            hideFilter
+                            size="xs"
+                          />
+                        </th>
+                      );
+                    })}
+                    <th className="w-10 border-b border-l border-gray-200 bg-gray-50" />
+                  </tr>
+                </thead>
+
+                <tbody>
+                  {rows.map((row, r) => {
+                    const v = validations[r];
+                    const serverError = serverErrors.get(r);
+                    const duplicateCount = duplicateRows.get(r) ?? 0;
+                    const rowError = serverError || (v && !v.payload && v.errors.has(-1) ? t("bulkEntryModal:errors.mapping") : "");
+
+                    return (
+                      <tr key={r} className="group">
+                        <td
+                          className="border-b border-gray-200 px-2 text-center text-[11px] text-gray-500"
+                          title={rowError || undefined}
+                        >
+                          {!v ? (
+                            r + 1
+                          ) : v.payload && !serverError && duplicateCount ? (
+                            <span title={t("bulkEntryModal:duplicates.rowHint", { count: duplicateCount })}>
+                              <AlertTriangle
+                                size={14}
+                                className="mx-auto text-amber-600"
+                                aria-label={t("bulkEntryModal:duplicates.rowHint", { count: duplicateCount })}
+                              />
+                            </span>
+                          ) : v.payload && !serverError ? (
+                            <CheckCircle2 size={14} className="mx-auto text-green-600" aria-label={t("bulkEntryModal:status.valid")} />
+                          ) : (
+                            <XCircle size={14} className="mx-auto text-red-600" aria-label={t("bulkEntryModal:status.invalid")} />
+                          )}
+                        </td>
+
+                        {Array.from({ length: width }, (_, c) => {
+                          const field = mapping[c] ?? "ignore";
+                          const errorKey = v?.errors.get(c);
+                          const listId = (LOOKUP_FIELDS as readonly string[]).includes(field)
+                            ? `bulk-entry-${field}`
+                            : undefined;
+
+                          return (
+                            <td key={c} className="border-b border-l border-gray-200 p-0">
+                              <input
+                                data-cell={`${r}:${c}`}
+                                value={row[c] ?? ""}
+                                list={listId}
+                                onChange={(e) => setCell(r, c, e.target.value)}
+                                onKeyDown={(e) => handleCellKeyDown(e, r, c)}
+                                onPaste={(e) => {
+                                  const text = e.clipboardData.getData("text/plain");
+                                  if (!/[\t\n]/.test(text.trim())) return;
+                                  e.preventDefault();
+                                  pasteBlock(text, { row: r, col: c });
+                                }}
+                                title={errorKey ? t(`bulkEntryModal:errors.${errorKey}`) : undefined}
+                                aria-invalid={!!errorKey}
+                                className={[
+                                  "h-8 w-full bg-transparent px-2 outline-none focus:ring-2 focus:ring-inset focus:ring-[color:var(--accentPrimary)]",
+                                  field === "ignore" ? "text-gray-400" : "text-gray-900",
+                                  errorKey ? "bg-red-50 ring-1 ring-inset ring-red-300" : "",
+                                  serverError ? "bg-red-50/60" : "",
+                                ].join(" ")}
+                              />
+                            </td>
+                          );
+                        })}
+
+                        <td className="border-b border-l border-gray-200 text-center">
+                          <button
+                            type="button"
+                            onClick={() => removeRow(r)}
+                            className="grid h-7 w-7 mx-auto place-items-center rounded-md text-gray-400 opacity-0 hover:bg-red-50 hover:text-red-600 focus:opacity-100 group-hover:opacity-100"
+                            aria-label={t("bulkEntryModal:actions.removeRow")}
+                            title={t("bulkEntryModal:actions.removeRow")}
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {LOOKUP_FIELDS.map((field) => (
+              <datalist key={field} id={`bulk-entry-${field}`}>
+                {suggestions[field].map((s) => (
+                  <option key={s} value={s} />
+                ))}
+              </datalist>
+            ))}
+          </div>
+
+          <footer
+            className="border-t border-gray-200 bg-white px-4 md:px-5 py-3 shrink-0 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+            style={{ paddingBottom: "max(0.75rem, env(safe-area-inset-bottom))" }}
+          >
+            <div className="text-[12px] text-gray-600">
+              <span className="mr-3">
+                {t("bulkEntryModal:footer.valid")}&nbsp;<b className="text-gray-900 tabular-nums">{validCount}</b>
+              </span>
+              <span className="mr-3">
+                {t("bulkEntryModal:footer.invalid")}&nbsp;
+                <b className={`tabular-nums ${invalidCount ? "text-red-700" : "text-gray-900"}`}>{invalidCount}</b>
+              </span>
+              {duplicateRows.size ? (
+                <span className="mr-3">
+                  {t("bulkEntryModal:footer.duplicates")}&nbsp;
+                  <b className="tabular-nums text-amber-700">{duplicateRows.size}</b>
+                </span>
+              ) : null}
+              {invalidCount ? <span className="text-gray-500">{t("bulkEntryModal:footer.invalidHint")}</span> : null}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 md:flex">
+              <Button variant="cancel" type="button" onClick={handleClose} disabled={isSubmitting}>
+                {t("bulkEntryModal:actions.cancel")}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => void handleSubmit()}
+                disabled={!validCount || isSubmitting || loadingOptions}
+              >
+                {isSubmitting ? <Spinner size={14} className="mr-2" /> : null}
+                {t("bulkEntryModal:actions.submit", { count: validCount })}
+              </Button>
+            </div>
+          </footer>
+        </div>
+      </div>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={6000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default BulkEntryModal;
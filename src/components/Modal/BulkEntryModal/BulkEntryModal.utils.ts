@@ -0,0 +1,353 @@
+// src/components/Modal/BulkEntryModal/BulkEntryModal.utils.ts
+
+import {
+  findDuplicates,
+  getEffectiveDateFormat,
+  toCanonicalMajorString,
+  toSignedMinor,
+  type DuplicateCandidate,
+} from "@/lib";
+import type { AddEntryRequest } from "@/models/entries/entries";
+
+/* --------------------------------- Types --------------------------------- */
+
+export type BulkField =
+  | "ignore"
+  | "due_date"
+  | "description"
+  | "amount"
+  | "tx_type"
+  | "cashflow_category"
+  | "project"
+  | "entity"
+  | "document_type"
+  | "observation"
+  | "notes";
+
+export const BULK_FIELDS: BulkField[] = [
+  "ignore",
+  "due_date",
+  "description",
+  "amount",
+  "tx_type",
+  "cashflow_category",
+  "project",
+  "entity",
+  "document_type",
+  "observation",
+  "notes",
+];
+
+/** Normalized name/code → id, per lookup column. */
+export type BulkLookups = {
+  cashflow_category: Map<string, { id: string; tx_type_hint: "credit" | "debit" | null }>;
+  project: Map<string, string>;
+  entity: Map<string, string>;
+  document_type: Map<string, string>;
+};
+
+/** Error keys live under `bulkEntryModal:errors.*`. */
+export type CellErrorKey =
+  | "required"
+  | "invalidDate"
+  | "invalidAmount"
+  | "invalidTxType"
+  | "unknownCategory"
+  | "categoryTypeMismatch"
+  | "unknownProject"
+  | "unknownEntity"
+  | "unknownDocumentType";
+
+export type RowValidation = {
+  payload: AddEntryRequest | null;
+  /** Column index → error key. Missing required columns are reported on -1. */
+  errors: Map<number, CellErrorKey>;
+};
+
+/* ------------------------------ Clipboard ------------------------------ */
+
+/**
+ * Parses the TSV Excel / Google Sheets put on the clipboard. Cells containing
+ * tabs, newlines or quotes come wrapped in double quotes with `""` escapes.
+ */
+export function parseClipboardTable(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const src = text.replace(/\r\n?/g, "\n");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/* ------------------------------- Mapping ------------------------------- */
+
+export const normalizeKey = (raw: string) =>
+  raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+const HEADER_ALIASES: Record<Exclude<BulkField, "ignore">, string[]> = {
+  due_date: ["due date", "due", "date", "vencimento", "data", "echeance", "date d'echeance", "falligkeit", "datum"],
+  description: ["description", "descricao", "historico", "libelle", "beschreibung", "verwendungszweck"],
+  amount: ["amount", "value", "valor", "montant", "betrag"],
+  tx_type: ["type", "tipo", "sens", "typ", "credit/debit", "debit/credit"],
+  cashflow_category: ["category", "categoria", "categorie", "kategorie"],
+  project: ["project", "projeto", "projet", "projekt"],
+  entity: ["entity", "supplier", "customer", "fornecedor", "cliente", "entidade", "fournisseur", "lieferant", "kunde"],
+  document_type: ["document type", "document", "tipo de documento", "documento", "type de document", "belegart"],
+  observation: ["observation", "observacao", "bemerkung", "remarque"],
+  notes: ["notes", "notas", "note", "notizen"],
+};
+
+/** Best-effort column mapping from a header row; unmatched columns are ignored. */
+export function guessMapping(header: string[]): BulkField[] {
+  const used = new Set<BulkField>();
+
+  return header.map((h) => {
+    const key = normalizeKey(h);
+    const match = (Object.keys(HEADER_ALIASES) as Array<Exclude<BulkField, "ignore">>).find(
+      (field) => !used.has(field) && HEADER_ALIASES[field].includes(key)
+    );
+    if (!match) return "ignore";
+    used.add(match);
+    return match;
+  });
+}
+
+/** True when the row has no date or amount-looking cell, i.e. it is most likely a header. */
+export function looksLikeHeader(row: string[]): boolean {
+  return row.every((c) => !parseLooseDate(c) && !/\d/.test(c));
+}
+
+/** Positional mapping used when the pasted block has no header row. */
+export function defaultMapping(columns: number): BulkField[] {
+  const order: BulkField[] = ["due_date", "description", "amount", "cashflow_category", "project", "entity"];
+  return Array.from({ length: columns }, (_, i) => order[i] ?? "ignore");
+}
+
+/* -------------------------------- Parsers -------------------------------- */
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function toIso(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/**
+ * Accepts ISO dates, slashed/dotted/dashed dates in the user's preferred
+ * day/month order, and raw Excel serial numbers.
+ */
+export function parseLooseDate(raw: string): string | null {
+  const s = raw.trim();
+  if (!s) return null;
+
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(s);
+  if (m) return toIso(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(s);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    const y = Number(m[3]);
+    return getEffectiveDateFormat().code === "MDY_SLASH" ? toIso(y, a, b) : toIso(y, b, a);
+  }
+
+  // Excel serial (days since 1899-12-30); only plausible ranges
+  if (/^\d{5}$/.test(s)) {
+    const serial = Number(s);
+    if (serial > 20000 && serial < 80000) {
+      const d = new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+      return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+    }
+  }
+
+  return null;
+}
+
+const CREDIT_WORDS = ["credit", "c", "+", "in", "receipt", "recebimento", "receita", "entrada", "credito", "encaissement", "recette", "einnahme", "gutschrift", "haben"];
+const DEBIT_WORDS = ["debit", "d", "-", "out", "payment", "pagamento", "despesa", "saida", "debito", "decaissement", "depense", "ausgabe", "lastschrift", "soll"];
+
+export function parseTxType(raw: string): "credit" | "debit" | null {
+  const key = normalizeKey(raw);
+  if (CREDIT_WORDS.includes(key)) return "credit";
+  if (DEBIT_WORDS.includes(key)) return "debit";
+  return null;
+}
+
+/* ------------------------------- Validation ------------------------------- */
+
+const REQUIRED: BulkField[] = ["due_date", "amount", "cashflow_category"];
+
+export function missingRequiredFields(mapping: BulkField[]): BulkField[] {
+  return REQUIRED.filter((f) => !mapping.includes(f));
+}
+
+/**
+ * Turns one grid row into an `AddEntryRequest`. Without a type column the
+ * sign of the amount decides, falling back to `defaultTxType`.
+ */
+export function validateRow(
+  cells: string[],
+  mapping: BulkField[],
+  lookups: BulkLookups,
+  defaultTxType: "credit" | "debit"
+): RowValidation {
+  const errors = new Map<number, CellErrorKey>();
+  const payload: Partial<AddEntryRequest> = {};
+  let signedType: "credit" | "debit" | null = null;
+  let explicitType: "credit" | "debit" | null = null;
+  let categoryHint: { col: number; hint: "credit" | "debit" | null } | null = null;
+
+  mapping.forEach((field, col) => {
+    if (field === "ignore") return;
+    const raw = (cells[col] ?? "").trim();
+
+    switch (field) {
+      case "due_date": {
+        if (!raw) return void errors.set(col, "required");
+        const iso = parseLooseDate(raw);
+        if (!iso) return void errors.set(col, "invalidDate");
+        payload.due_date = iso;
+        return;
+      }
+
+      case "amount": {
+        if (!raw) return void errors.set(col, "required");
+        const major = toCanonicalMajorString(raw);
+        if (!major || /^-?0\.0+$/.test(major)) return void errors.set(col, "invalidAmount");
+        signedType = major.startsWith("-") ? "debit" : null;
+        payload.amount = major.replace(/^-/, "");
+        return;
+      }
+
+      case "tx_type": {
+        if (!raw) return;
+        explicitType = parseTxType(raw);
+        if (!explicitType) errors.set(col, "invalidTxType");
+        return;
+      }
+
+      case "cashflow_category": {
+        if (!raw) return void errors.set(col, "required");
+        const hit = lookups.cashflow_category.get(normalizeKey(raw));
+        if (!hit) return void errors.set(col, "unknownCategory");
+        payload.cashflow_category = hit.id;
+        categoryHint = { col, hint: hit.tx_type_hint };
+        return;
+      }
+
+      case "project":
+      case "entity":
+      case "document_type": {
+        if (!raw) return;
+        const id = lookups[field].get(normalizeKey(raw));
+        if (!id) {
+          errors.set(
+            col,
+            field === "project" ? "unknownProject" : field === "entity" ? "unknownEntity" : "unknownDocumentType"
+          );
+          return;
+        }
+        payload[field] = id;
+        return;
+      }
+
+      case "description":
+      case "observation":
+      case "notes":
+        payload[field] = raw;
+        return;
+    }
+  });
+
+  const txType = explicitType ?? signedType ?? defaultTxType;
+  payload.tx_type = txType;
+
+  const hint = categoryHint as { col: number; hint: "credit" | "debit" | null } | null;
+  if (hint?.hint && hint.hint !== txType) errors.set(hint.col, "categoryTypeMismatch");
+
+  if (missingRequiredFields(mapping).length) errors.set(-1, "required");
+
+  return {
+    payload: errors.size ? null : (payload as AddEntryRequest),
+    errors,
+  };
+}
+
+/* ------------------------------ Duplicates ------------------------------ */
+
+const batchId = (row: number) => `batch:${row}`;
+
+export function payloadToDuplicateCandidate(payload: AddEntryRequest, row: number): DuplicateCandidate {
+  return {
+    id: batchId(row),
+    dueDate: payload.due_date,
+    amountMinor: toSignedMinor(payload.amount, payload.tx_type),
+    currency: payload.currency || null,
+    entityId: payload.entity || null,
+    description: payload.description || "",
+  };
+}
+
+/**
+ * Row index → number of likely duplicates, counting both saved entries in
+ * `saved` and other rows of the same paste.
+ */
+export function findBatchDuplicates(
+  payloads: Array<AddEntryRequest | null | undefined>,
+  saved: DuplicateCandidate[]
+): Map<number, number> {
+  const batch = payloads.flatMap((p, row) => (p ? [payloadToDuplicateCandidate(p, row)] : []));
+  const pool = [...saved, ...batch];
+
+  const out = new Map<number, number>();
+  payloads.forEach((p, row) => {
+    if (!p) return;
+    const hits = findDuplicates(payloadToDuplicateCandidate(p, row), pool).length;
+    if (hits) out.set(row, hits);
+  });
+  return out;
+}
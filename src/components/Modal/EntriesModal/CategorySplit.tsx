@@ -0,0 +1,202 @@
+// src/components/Modal/EntriesModal/CategorySplit.tsx
+
+import React, { useCallback, useMemo } from "react";
+import type { TFunction } from "i18next";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import { Select } from "src/shared/ui/Select";
+
+import {
+  convertSplitRows,
+  evenSplit,
+  splitTarget,
+  splitTotal,
+  type CategorySplitMode,
+} from "@/lib/allocations";
+import { formatCurrency } from "@/lib/currency";
+
+import type { FormData } from "../Modal.types";
+import type { CashflowCategory } from "@/models/settings/categories";
+
+type Props = {
+  t: TFunction;
+
+  formData: FormData;
+  setFormData: React.Dispatch<React.SetStateAction<FormData>>;
+
+  cashflowCategories: CashflowCategory[];
+  getCategoryLabel: (c: CashflowCategory) => string;
+
+  splitValuePrefix: string;
+  currency: string;
+  isFinancialLocked: boolean;
+};
+
+const MODES: CategorySplitMode[] = ["percent", "amount"];
+
+const CategorySplit: React.FC<Props> = ({
+  t,
+  formData,
+  setFormData,
+  cashflowCategories,
+  getCategoryLabel,
+  splitValuePrefix,
+  currency,
+  isFinancialLocked,
+}) => {
+  const { mode, rows } = formData.categorySplit;
+  const amount = formData.details.amount;
+
+  const byId = useMemo(() => new Map(cashflowCategories.map((c) => [String(c.id), c])), [cashflowCategories]);
+
+  const selectedCategories = useMemo(
+    () => rows.map((r) => byId.get(r.categoryId)).filter(Boolean) as CashflowCategory[],
+    [byId, rows]
+  );
+
+  const total = splitTotal(rows);
+  const target = splitTarget(mode, amount);
+  const isBalanced = rows.length > 1 && Math.abs(total - target) <= 0.001;
+
+  const handleCategoriesChange = useCallback(
+    (updated: CashflowCategory[]) => {
+      if (isFinancialLocked) return;
+
+      setFormData((p) => {
+        const ids = updated.map((c) => String(c.id));
+        const shares = evenSplit(ids.length, splitTarget(p.categorySplit.mode, p.details.amount));
+        return {
+          ...p,
+          categorySplit: { ...p.categorySplit, rows: ids.map((id, i) => ({ categoryId: id, value: shares[i] })) },
+        };
+      });
+    },
+    [isFinancialLocked, setFormData]
+  );
+
+  const handleValueChange = useCallback(
+    (index: number, value: string) => {
+      if (isFinancialLocked) return;
+
+      setFormData((p) => {
+        const next = [...p.categorySplit.rows];
+        next[index] = { ...next[index], value };
+        return { ...p, categorySplit: { ...p.categorySplit, rows: next } };
+      });
+    },
+    [isFinancialLocked, setFormData]
+  );
+
+  const handleModeChange = useCallback(
+    (next: CategorySplitMode) => {
+      if (isFinancialLocked) return;
+
+      setFormData((p) =>
+        p.categorySplit.mode === next
+          ? p
+          : {
+              ...p,
+              categorySplit: {
+                ...p.categorySplit,
+                mode: next,
+                rows: convertSplitRows(p.categorySplit.rows, next, p.details.amount),
+              },
+            }
+      );
+    },
+    [isFinancialLocked, setFormData]
+  );
+
+  const formatValue = (n: number) => (mode === "percent" ? `${n}%` : formatCurrency(n, currency));
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-[12px] text-gray-700">{t("entriesModal:categorySplit.title")}</span>
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1" role="group" aria-label={t("entriesModal:categorySplit.mode")}>
+            {MODES.map((m) => (
+              <Button
+                key={m}
+                type="button"
+                size="xs"
+                variant={mode === m ? "primary" : "outline"}
+                onClick={() => handleModeChange(m)}
+                disabled={isFinancialLocked}
+                aria-pressed={mode === m}
+              >
+                {t(`entriesModal:categorySplit.modes.${m}`)}
+              </Button>
+            ))}
+          </div>
+
+          <span
+            className={`text-[11px] px-2 py-[2px] rounded-full border ${
+              isBalanced
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                : "border-amber-200 bg-amber-50 text-amber-700"
+            }`}
+          >
+            {t("entriesModal:categorySplit.total", { value: formatValue(total), target: formatValue(target) })}
+          </span>
+        </div>
+      </div>
+
+      <div className="mt-2">
+        <Select<CashflowCategory>
+          label={t("entriesModal:categorySplit.categories")}
+          items={cashflowCategories}
+          selected={selectedCategories}
+          onChange={handleCategoriesChange}
+          getItemKey={(c) => c.id}
+          getItemLabel={getCategoryLabel}
+          clearOnClickOutside={false}
+          buttonLabel={t("entriesModal:categorySplit.categoriesBtn")}
+          customStyles={{ maxHeight: "220px" }}
+          virtualize
+          virtualRowHeight={32}
+          virtualThreshold={300}
+          disabled={isFinancialLocked}
+        />
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
+        {rows.map((row, index) => {
+          const category = byId.get(row.categoryId);
+          const label = category ? getCategoryLabel(category) : row.categoryId;
+
+          return mode === "percent" ? (
+            <Input
+              key={row.categoryId}
+              kind="percentage"
+              id={`${splitValuePrefix}${index}`}
+              label={label}
+              value={row.value}
+              onValueChange={(next) => handleValueChange(index, next)}
+              disabled={isFinancialLocked}
+              zeroAsEmpty
+            />
+          ) : (
+            <Input
+              key={row.categoryId}
+              kind="amount"
+              id={`${splitValuePrefix}${index}`}
+              label={label}
+              value={row.value}
+              onValueChange={(next: string) => handleValueChange(index, next)}
+              currency={currency}
+              disabled={isFinancialLocked}
+              zeroAsEmpty
+            />
+          );
+        })}
+      </div>
+
+      {rows.length < 2 && <p className="mt-2 text-[12px] text-gray-500">{t("entriesModal:categorySplit.needTwo")}</p>}
+    </div>
+  );
+};
+
+export default CategorySplit;
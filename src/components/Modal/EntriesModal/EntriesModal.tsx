@@ -9,7 +9,21 @@ import Spinner from "@/shared/ui/Loaders/Spinner";
 import { api } from "@/api/requests";
 import { ApiError } from "@/models/Api";
 import { fetchAllCursor } from "@/lib/list";
-import { formatCurrency, formatDateFromISO } from "@/lib";
+import {
+  cleanCustomFieldValues,
+  formatCurrency,
+  formatDateFromISO,
+  isEmptyCustomFieldValue,
+  isSplitBalanced,
+  primarySplitCategory,
+  sameCustomFieldValues,
+  splitRowsFromAllocations,
+  toCategoryAllocationsPayload,
+  toSignedMinor,
+  type DuplicateCandidate,
+} from "@/lib";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
+import { useCustomFields } from "@/hooks/useCustomFields";
 
 import type {
   FormData,
@@ -19,8 +33,9 @@ import type {
   IntervalMonths,
 } from "@/components/Modal/Modal.types";
 
-import type { AddEntryRequest, EditEntryRequest } from "@/models/entries/entries";
-import type { CashflowCategory } from "@/models/settings/categories";
+import type { AddEntryRequest, EditEntryRequest, EntryWriteResponse } from "@/models/entries/entries";
+import type { CashflowCategory, CategoryAllocation } from "@/models/settings/categories";
+import type { CustomFieldValues } from "@/models/settings/customFields";
 import type { Department } from "@/models/settings/departments";
 import type { Project } from "@/models/settings/projects";
 import type { InventoryItem } from "@/models/settings/inventory";
@@ -31,7 +46,12 @@ import DetailsTab from "@/components/Modal/EntriesModal/Tab.details";
 import CostCentersTab from "@/components/Modal/EntriesModal/Tab.costCenters";
 import InventoryTab from "@/components/Modal/EntriesModal/Tab.inventory";
 import EntitiesTab from "@/components/Modal/EntriesModal/Tab.entities";
+import CustomFieldsTab from "@/components/Modal/EntriesModal/Tab.customFields";
 import RecurrenceTab from "@/components/Modal/EntriesModal/Tab.recurrence";
+import AttachmentsTab from "@/components/Modal/EntriesModal/Tab.attachments";
+import HistoryTab from "@/components/Modal/EntriesModal/Tab.history";
+import { uploadPendingAttachments } from "@/components/Attachments";
+import { DuplicateNotice } from "@/components/Duplicates";
 
 /* ---------------------------------- Types --------------------------------- */
 
@@ -44,6 +64,7 @@ type EntryDiffable = {
   observation?: string | null;
   notes?: string | null;
   amount: string;
+  currency?: string | null;
   tx_type: "credit" | "debit";
   cashflow_category?: string | null;
   document_type?: string | null;
@@ -54,6 +75,9 @@ type EntryDiffable = {
   weekend_action?: number | null;
   last_settled_on?: string | null;
   departments?: Array<{ department_id: string; percent: string | number }>;
+  category_allocations?: CategoryAllocation[];
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
 };
 
 /* ------------------------------ Stable constants ------------------------------ */
@@ -67,6 +91,9 @@ const IDS = {
   entityTypeWrap: "entity-type-wrap",
   entityWrap: "entity-wrap",
   deptPercPrefix: "dept-perc-",
+  splitValuePrefix: "category-split-",
+  customFieldPrefix: "custom-field-",
+  tagsInput: "entry-tags-input",
 } as const;
 
 const TAB_LIST_BASE: { id: Tab; label: string }[] = [
@@ -74,7 +101,10 @@ const TAB_LIST_BASE: { id: Tab; label: string }[] = [
   { id: "costCenters", label: "entriesModal:tabs.costCenters" },
   { id: "inventory", label: "entriesModal:tabs.inventory" },
   { id: "entities", label: "entriesModal:tabs.entities" },
+  { id: "customFields", label: "entriesModal:tabs.customFields" },
   { id: "recurrence", label: "entriesModal:tabs.recurrence" },
+  { id: "attachments", label: "entriesModal:tabs.attachments" },
+  { id: "history", label: "entriesModal:tabs.history" },
 ];
 
 const PERIOD_OPTIONS_BASE: PeriodOption[] = [
@@ -106,10 +136,16 @@ function getEmptyFormData(): FormData {
       description: "",
       observation: "",
       amount: "",
+      currency: "",
       cashflowCategory: "",
       documentType: "",
       notes: "",
     },
+    categorySplit: {
+      enabled: false,
+      mode: "percent",
+      rows: [],
+    },
     costCenters: {
       departments: [],
       department_percentage: [],
@@ -123,6 +159,10 @@ function getEmptyFormData(): FormData {
       entityType: "",
       entity: "",
     },
+    customFields: {
+      values: {},
+      tags: [],
+    },
     recurrence: {
       recurrence: 0,
       installments: "",
@@ -211,9 +251,14 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
     [t]
   );
 
+  // History only exists for saved entries
   const TAB_LIST = useMemo(
-    () => TAB_LIST_BASE.map((tab) => ({ ...tab, label: t(tab.label) })),
-    [t]
+    () =>
+      TAB_LIST_BASE.filter((tab) => tab.id !== "history" || !!initialEntry?.id).map((tab) => ({
+        ...tab,
+        label: t(tab.label),
+      })),
+    [initialEntry?.id, t]
   );
 
   const [docTypes, setDocTypes] = useState<DocumentType[]>([]);
@@ -235,9 +280,15 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCloseConfirm, setShowCloseConfirm] = useState(false);
 
-  const [warning, setWarning] = useState<{ title: string; message: string; focusId?: string } | null>(
-    null
-  );
+  const [warning, setWarning] = useState<{
+    title: string;
+    message: string;
+    focusId?: string;
+    closeOnDismiss?: boolean;
+  } | null>(null);
+
+  // Files picked before the entry exists; uploaded right after it is created
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
 
   const [cashflowCategories, setCashflowCategories] = useState<CashflowCategory[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
@@ -274,6 +325,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
 
   const hasMeaningfulData = useMemo(() => {
     if (formData.details.amount > "") return true;
+    if (pendingAttachments.length > 0) return true;
 
     const d = formData.details;
     if (
@@ -281,6 +333,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
       d.observation.trim() ||
       d.notes.trim() ||
       d.cashflowCategory ||
+      formData.categorySplit.rows.length > 0 ||
       d.documentType
     ) {
       return true;
@@ -295,16 +348,50 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
     const ent = formData.entities;
     if (ent.entityType || ent.entity) return true;
 
+    const cf = formData.customFields;
+    if (cf.tags.length > 0 || Object.keys(cleanCustomFieldValues(cf.values)).length > 0) return true;
+
     const rec = formData.recurrence;
     if (rec.recurrence === 1 || !!rec.installments || !!rec.weekend || Number(rec.periods) !== 1) {
       return true;
     }
 
     return false;
-  }, [formData]);
+  }, [formData, pendingAttachments.length]);
+
+  // Only new entries are checked; editing one should not flag itself or its installments
+  const duplicateDraft = useMemo<DuplicateCandidate | null>(() => {
+    if (!isOpen || initialEntry || !formData.details.dueDate || !(formData.details.amount > "")) return null;
+    return {
+      id: "",
+      dueDate: formData.details.dueDate,
+      amountMinor: toSignedMinor(formData.details.amount, type),
+      currency: formData.details.currency || null,
+      entityId: formData.entities.entity || null,
+      description: formData.details.description || "",
+    };
+  }, [
+    isOpen,
+    initialEntry,
+    type,
+    formData.details.dueDate,
+    formData.details.amount,
+    formData.details.currency,
+    formData.details.description,
+    formData.entities.entity,
+  ]);
+
+  const { matches: duplicateMatches } = useDuplicateCheck(duplicateDraft);
+  const { fields: customFields } = useCustomFields();
+
+  // The first save with open matches only warns; acknowledging it lets the next save through
+  const [duplicatesAcknowledged, setDuplicatesAcknowledged] = useState<string>("");
+  const duplicateKey = duplicateMatches.map((m) => m.id).join(",");
 
   const resetInternalState = useCallback(() => {
     setFormData(getEmptyFormData());
+    setDuplicatesAcknowledged("");
+    setPendingAttachments([]);
     setActiveTab("details");
     setWarning(null);
     setShowCloseConfirm(false);
@@ -332,6 +419,10 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
 
     if (warning) {
       setWarning(null);
+      if (warning.closeOnDismiss) {
+        handleClose();
+        onSave();
+      }
       return;
     }
     if (showCloseConfirm) {
@@ -340,7 +431,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
     }
     if (closeTransientOverlays()) return;
     attemptClose();
-  }, [attemptClose, showCloseConfirm, warning, isSubmitting]);
+  }, [attemptClose, handleClose, onSave, showCloseConfirm, warning, isSubmitting]);
 
   const fetchAllCashflowCategories = useCallback(async () => {
     const response = await api.getCashflowCategories();
@@ -439,16 +530,24 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
       typeof d.percent === "number" ? d.percent.toFixed(2) : String(d.percent)
     );
 
+    const splitRows = splitRowsFromAllocations(ie.category_allocations ?? []);
+
     setFormData({
       details: {
         dueDate: ie.due_date,
         description: ie.description ?? "",
         observation: ie.observation ?? "",
         amount: ie.amount ?? "",
+        currency: ie.currency ?? "",
         cashflowCategory: ie.cashflow_category || "",
         documentType: ie.document_type || "",
         notes: ie.notes ?? "",
       },
+      categorySplit: {
+        enabled: splitRows.length > 1,
+        mode: "percent",
+        rows: splitRows.length > 1 ? splitRows : [],
+      },
       costCenters: {
         departments: depIds,
         department_percentage: depPercs,
@@ -459,6 +558,10 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
         entityType: "",
         entity: ie.entity || "",
       },
+      customFields: {
+        values: ie.custom_fields ?? {},
+        tags: ie.tags ?? [],
+      },
       recurrence: {
         recurrence: recCount > 1 ? 1 : 0,
         installments: recCount > 1 ? String(recCount) : "",
@@ -500,7 +603,18 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
       };
     }
 
-    if (!formData.details.cashflowCategory) {
+    if (formData.categorySplit.enabled) {
+      const { rows, mode } = formData.categorySplit;
+      if (!isSplitBalanced(rows, mode, formData.details.amount)) {
+        return {
+          ok: false,
+          tab: "details",
+          focusId: rows.length ? `${IDS.splitValuePrefix}0` : IDS.categoryWrap,
+          title: t("entriesModal:errors.categorySplit.title"),
+          message: t(`entriesModal:errors.categorySplit.${mode}`),
+        };
+      }
+    } else if (!formData.details.cashflowCategory) {
       return {
         ok: false,
         tab: "details",
@@ -550,6 +664,19 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
       };
     }
 
+    const missingField = customFields.find(
+      (f) => f.is_required && isEmptyCustomFieldValue(formData.customFields.values[f.key])
+    );
+    if (missingField) {
+      return {
+        ok: false,
+        tab: "customFields",
+        focusId: `${IDS.customFieldPrefix}${missingField.key}`,
+        title: t("entriesModal:errors.customField.title"),
+        message: t("entriesModal:errors.customField.message", { field: missingField.label }),
+      };
+    }
+
     if (formData.costCenters.departments.length > 0) {
       const percs = formData.costCenters.department_percentage;
 
@@ -579,7 +706,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
     }
 
     return { ok: true };
-  }, [formData, isRecurrenceLocked, percentageSum, t]);
+  }, [customFields, formData, isRecurrenceLocked, percentageSum, t]);
 
   const goTabRelative = useCallback(
     (delta: number) => {
@@ -659,6 +786,15 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
         return;
       }
 
+      if (duplicateKey && duplicatesAcknowledged !== duplicateKey) {
+        setDuplicatesAcknowledged(duplicateKey);
+        setWarning({
+          title: t("entriesModal:duplicates.confirm.title"),
+          message: t("entriesModal:duplicates.confirm.message", { count: duplicateMatches.length }),
+        });
+        return;
+      }
+
       setIsSubmitting(true);
 
       try {
@@ -670,6 +806,13 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
         const deps = buildDepartmentsPayload();
         const items = buildItemsPayload();
 
+        const split = formData.categorySplit;
+        const category = split.enabled ? primarySplitCategory(split.rows) : formData.details.cashflowCategory;
+        const allocations = split.enabled ? toCategoryAllocationsPayload(split.rows, split.mode) : undefined;
+
+        const customValues = cleanCustomFieldValues(formData.customFields.values);
+        const tags = formData.customFields.tags;
+
         if (!initialEntry) {
           const isRecurring = formData.recurrence.recurrence === 1;
           const installmentCount = isRecurring ? Number(formData.recurrence.installments || 1) : 1;
@@ -681,14 +824,18 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
             notes: formData.details.notes || "",
             amount: formData.details.amount || "",
             tx_type: type,
+            ...(formData.details.currency ? { currency: formData.details.currency } : {}),
 
-            cashflow_category: formData.details.cashflowCategory,
+            cashflow_category: category,
+            ...(allocations ? { category_allocations: allocations } : {}),
 
             ...(formData.details.documentType ? { document_type: formData.details.documentType } : {}),
             ...(formData.costCenters.projects ? { project: formData.costCenters.projects } : {}),
             ...(formData.entities.entity ? { entity: formData.entities.entity } : {}),
             ...(deps ? { departments: deps } : {}),
             ...(items ? { items } : {}),
+            ...(Object.keys(customValues).length ? { custom_fields: customValues } : {}),
+            ...(tags.length ? { tags } : {}),
             ...(isRecurring && installmentCount > 1
               ? {
                   installment_count: installmentCount,
@@ -723,12 +870,21 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
             changes.amount = formData.details.amount;
           }
 
+          if (!isFinancialLocked && (formData.details.currency || "") !== (ie.currency || "")) {
+            changes.currency = formData.details.currency || null;
+          }
+
           const initialCategory = ie.cashflow_category || "";
-          const newCategory = formData.details.cashflowCategory || "";
+          const newCategory = category || "";
           if (!isFinancialLocked && newCategory !== initialCategory) {
             changes.cashflow_category = newCategory || null;
           }
 
+          if (!isFinancialLocked) {
+            if (allocations) changes.category_allocations = allocations;
+            else if (ie.category_allocations?.length) changes.category_allocations = [];
+          }
+
           const initialDocType = ie.document_type || "";
           const newDocType = formData.details.documentType || "";
           if (newDocType !== initialDocType) {
@@ -748,6 +904,10 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
           }
 
           if (!isFinancialLocked && deps) changes.departments = deps;
+
+          if (!sameCustomFieldValues(customValues, ie.custom_fields ?? {})) changes.custom_fields = customValues;
+          // Tags never contain commas, so the joined form is a safe comparison
+          if (tags.join(",") !== (ie.tags ?? []).join(",")) changes.tags = tags;
           if (!isFinancialLocked && items) changes.items = items;
 
           const initialRecCount = ie.installment_count ?? 1;
@@ -782,6 +942,24 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
           return;
         }
 
+        if (!initialEntry && pendingAttachments.length) {
+          const created = (res as ApiOk<EntryWriteResponse>).data;
+          const first = Array.isArray(created) ? created[0] : created;
+
+          if (first?.id) {
+            const failed = await uploadPendingAttachments("entry", first.id, pendingAttachments);
+            if (failed.length) {
+              // The entry is saved; let the user read which files are missing before closing
+              setWarning({
+                title: t("entriesModal:attachments.uploadFailed.title"),
+                message: t("entriesModal:attachments.uploadFailed.message", { files: failed.join(", ") }),
+                closeOnDismiss: true,
+              });
+              return;
+            }
+          }
+        }
+
         handleClose();
         onSave();
       } catch (err) {
@@ -797,6 +975,9 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
     },
     [
       validateAll,
+      duplicateKey,
+      duplicatesAcknowledged,
+      duplicateMatches.length,
       t,
       buildDepartmentsPayload,
       buildItemsPayload,
@@ -806,11 +987,14 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
       isFinancialLocked,
       handleClose,
       onSave,
+      pendingAttachments,
     ]
   );
 
   const isAmountValid = formData.details.amount > "";
-  const isCategoryValid = !!formData.details.cashflowCategory;
+  const isCategoryValid = formData.categorySplit.enabled
+    ? isSplitBalanced(formData.categorySplit.rows, formData.categorySplit.mode, formData.details.amount)
+    : !!formData.details.cashflowCategory;
 
   const isRecurrenceValid =
     isRecurrenceLocked ||
@@ -873,6 +1057,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
             descriptionRef={descriptionRef}
             cashflowCategories={cashflowCategories}
             categoryWrapId={IDS.categoryWrap}
+            splitValuePrefix={IDS.splitValuePrefix}
             documentTypes={DOCUMENT_TYPES}
             isFinancialLocked={isFinancialLocked}
           />
@@ -917,6 +1102,18 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
           />
         );
 
+      case "customFields":
+        return (
+          <CustomFieldsTab
+            t={t}
+            formData={formData}
+            setFormData={setFormData}
+            customFields={customFields}
+            fieldIdPrefix={IDS.customFieldPrefix}
+            tagsInputId={IDS.tagsInput}
+          />
+        );
+
       case "recurrence":
         return (
           <RecurrenceTab
@@ -929,6 +1126,19 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
           />
         );
 
+      case "attachments":
+        return (
+          <AttachmentsTab
+            t={t}
+            entryId={initialEntry?.id ?? null}
+            pendingFiles={pendingAttachments}
+            onPendingChange={setPendingAttachments}
+          />
+        );
+
+      case "history":
+        return initialEntry?.id ? <HistoryTab t={t} entryId={initialEntry.id} /> : null;
+
       default:
         return null;
     }
@@ -1000,6 +1210,8 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
             ) : (
               renderTabContent()
             )}
+
+            {duplicateMatches.length > 0 && <DuplicateNotice matches={duplicateMatches} className="mt-4" />}
           </div>
 
           <footer
@@ -1010,7 +1222,7 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
               <p className="text-[12px] text-gray-600 hidden md:block">
                 {formData.details.amount > "" ? (
                   <>
-                    {t("entriesModal:footer.value")} <b>{formatCurrency(formData.details.amount)}</b>
+                    {t("entriesModal:footer.value")} <b>{formatCurrency(formData.details.amount, formData.details.currency)}</b>
                   </>
                 ) : (
                   <>{t("entriesModal:footer.enterValue")}</>
@@ -1102,7 +1314,13 @@ const EntriesModal: React.FC<EntriesModalProps> = ({
                   className="w-full md:w-auto"
                   onClick={() => {
                     const fId = warning.focusId;
+                    const closeAfter = warning.closeOnDismiss;
                     setWarning(null);
+                    if (closeAfter) {
+                      handleClose();
+                      onSave();
+                      return;
+                    }
                     setTimeout(() => focusFirstInteractive(fId, amountRef), 0);
                   }}
                 >
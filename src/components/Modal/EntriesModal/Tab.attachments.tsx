@@ -0,0 +1,35 @@
+// src/components/Modal/Tab.attachments.tsx
+
+import React from "react";
+import type { TFunction } from "i18next";
+
+import { AttachmentsPanel } from "@/components/Attachments";
+
+type Props = {
+  t: TFunction;
+
+  /** Null while creating; files are staged and uploaded after save. */
+  entryId: string | null;
+
+  pendingFiles: File[];
+  onPendingChange: (files: File[]) => void;
+};
+
+const AttachmentsTab: React.FC<Props> = ({ t, entryId, pendingFiles, onPendingChange }) => {
+  return (
+    <div className="space-y-2">
+      <p className="text-[12px] text-gray-600">
+        {entryId ? t("entriesModal:attachments.hint") : t("entriesModal:attachments.hintNew")}
+      </p>
+
+      <AttachmentsPanel
+        ownerType="entry"
+        ownerId={entryId}
+        pending={pendingFiles}
+        onPendingChange={onPendingChange}
+      />
+    </div>
+  );
+};
+
+export default AttachmentsTab;
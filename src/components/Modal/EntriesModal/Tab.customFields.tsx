@@ -0,0 +1,166 @@
+// src/components/Modal/EntriesModal/Tab.customFields.tsx
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { TFunction } from "i18next";
+import { X } from "lucide-react";
+
+import Input from "@/shared/ui/Input";
+import { CustomFieldInput } from "@/components/CustomFields";
+
+import { api } from "@/api/requests";
+import { parseTags } from "@/lib/customFields";
+
+import type { FormData } from "../Modal.types";
+import type { CustomFieldDefinition, CustomFieldValue, EntryTag } from "@/models/settings/customFields";
+
+type Props = {
+  t: TFunction;
+
+  formData: FormData;
+  setFormData: React.Dispatch<React.SetStateAction<FormData>>;
+
+  customFields: CustomFieldDefinition[];
+  fieldIdPrefix: string;
+  tagsInputId: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const CustomFieldsTab: React.FC<Props> = ({ t, formData, setFormData, customFields, fieldIdPrefix, tagsInputId }) => {
+  const { values, tags } = formData.customFields;
+
+  const [tagDraft, setTagDraft] = useState("");
+  const [knownTags, setKnownTags] = useState<EntryTag[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+    api
+      .getEntryTags()
+      .then(({ data }) => {
+        if (alive) setKnownTags(data ?? []);
+      })
+      .catch((err) => console.error("Failed to load tags:", err));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const setValue = useCallback(
+    (key: string, value: CustomFieldValue) =>
+      setFormData((p) => ({
+        ...p,
+        customFields: { ...p.customFields, values: { ...p.customFields.values, [key]: value } },
+      })),
+    [setFormData]
+  );
+
+  const addTags = useCallback(
+    (raw: string) => {
+      const incoming = parseTags(raw);
+      if (!incoming.length) return;
+      setFormData((p) => {
+        const have = new Set(p.customFields.tags.map((tag) => tag.toLowerCase()));
+        const next = incoming.filter((tag) => !have.has(tag.toLowerCase()));
+        return next.length ? { ...p, customFields: { ...p.customFields, tags: [...p.customFields.tags, ...next] } } : p;
+      });
+      setTagDraft("");
+    },
+    [setFormData]
+  );
+
+  const removeTag = useCallback(
+    (tag: string) =>
+      setFormData((p) => ({
+        ...p,
+        customFields: { ...p.customFields, tags: p.customFields.tags.filter((x) => x !== tag) },
+      })),
+    [setFormData]
+  );
+
+  const suggestions = useMemo(() => {
+    const have = new Set(tags.map((tag) => tag.toLowerCase()));
+    const query = tagDraft.trim().toLowerCase();
+    return knownTags
+      .filter((tag) => !have.has(tag.name.toLowerCase()) && (!query || tag.name.toLowerCase().includes(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [knownTags, tagDraft, tags]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Input
+          kind="text"
+          id={tagsInputId}
+          label={t("entriesModal:customFields.tags")}
+          placeholder={t("entriesModal:customFields.tagsPlaceholder")}
+          value={tagDraft}
+          onChange={(e) => setTagDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addTags(tagDraft);
+            } else if (e.key === "Backspace" && !tagDraft && tags.length) {
+              removeTag(tags[tags.length - 1]);
+            }
+          }}
+          onBlur={() => addTags(tagDraft)}
+        />
+
+        {tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-gray-50 px-2 py-[2px] text-[11px] text-gray-700"
+              >
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="text-gray-400 hover:text-gray-700"
+                  aria-label={t("entriesModal:customFields.removeTag", { tag })}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="mt-2 flex flex-wrap items-center gap-1.5">
+            <span className="text-[11px] text-gray-500">{t("entriesModal:customFields.suggested")}</span>
+            {suggestions.map((tag) => (
+              <button
+                key={tag.name}
+                type="button"
+                onClick={() => addTags(tag.name)}
+                className="rounded-full border border-dashed border-gray-300 px-2 py-[2px] text-[11px] text-gray-600 hover:bg-gray-50"
+              >
+                + {tag.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {customFields.length > 0 ? (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          {customFields.map((field) => (
+            <CustomFieldInput
+              key={field.key}
+              id={`${fieldIdPrefix}${field.key}`}
+              field={field}
+              value={values[field.key]}
+              onChange={(value) => setValue(field.key, value)}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-[12px] text-gray-500">{t("entriesModal:customFields.none")}</p>
+      )}
+    </div>
+  );
+};
+
+export default CustomFieldsTab;
@@ -1,9 +1,19 @@
 import React, { useCallback, useMemo } from "react";
 import type { TFunction } from "i18next";
+import { useTranslation } from "react-i18next";
 
 import Input from "@/shared/ui/Input";
 import { Select } from "src/shared/ui/Select";
 
+import { useFxQuote } from "@/hooks/useFxQuote";
+import { useNonBusinessDays } from "@/hooks/useNonBusinessDays";
+import { formatDateFromISO, isBusinessDay, isWeekendISO, shiftToBusinessDay } from "@/lib";
+import { convertToOrg, formatCurrency, getCurrencies, getEffectiveCurrency } from "@/lib/currency";
+import type { CurrencyOption } from "@/lib/currency/currencies";
+import { primarySplitCategory } from "@/lib/allocations";
+
+import CategorySplit from "./CategorySplit";
+
 import type { FormData } from "../Modal.types";
 import type { CashflowCategory } from "@/models/settings/categories";
 import type { DocumentType } from "src/models/entries/documentTypes";
@@ -21,6 +31,7 @@ type Props = {
 
   cashflowCategories: CashflowCategory[];
   categoryWrapId: string;
+  splitValuePrefix: string;
 
   documentTypes: DocumentTypeItem[];
 
@@ -35,6 +46,7 @@ const DetailsTab: React.FC<Props> = ({
   descriptionRef,
   cashflowCategories,
   categoryWrapId,
+  splitValuePrefix,
   documentTypes,
   isFinancialLocked,
 }) => {
@@ -57,6 +69,26 @@ const DetailsTab: React.FC<Props> = ({
     [isFinancialLocked, setFormData]
   );
 
+  const handleSplitToggle = useCallback(() => {
+    if (isFinancialLocked) return;
+    setFormData((p) => {
+      if (p.categorySplit.enabled) {
+        // Leaving the split keeps its largest slice as the single category
+        const primary = primarySplitCategory(p.categorySplit.rows);
+        return {
+          ...p,
+          details: { ...p.details, cashflowCategory: primary || p.details.cashflowCategory },
+          categorySplit: { ...p.categorySplit, enabled: false, rows: [] },
+        };
+      }
+
+      const current = p.details.cashflowCategory;
+      const whole = p.categorySplit.mode === "percent" ? "100.00" : p.details.amount;
+      const seed = current ? [{ categoryId: current, value: whole }] : [];
+      return { ...p, categorySplit: { ...p.categorySplit, enabled: true, rows: seed } };
+    });
+  }, [isFinancialLocked, setFormData]);
+
   const selectedDocumentTypes = useMemo(() => {
     const id = String(formData.details.documentType || "");
     if (!id) return [];
@@ -95,6 +127,47 @@ const DetailsTab: React.FC<Props> = ({
     [isFinancialLocked, setFormData]
   );
 
+  const { i18n } = useTranslation();
+  const currencies = useMemo(() => getCurrencies(i18n.language || "en"), [i18n.language]);
+  const orgCurrency = getEffectiveCurrency();
+  const entryCurrency = formData.details.currency || orgCurrency;
+
+  const selectedCurrency = useMemo(
+    () => currencies.filter((c) => c.value === entryCurrency),
+    [currencies, entryCurrency]
+  );
+
+  const handleCurrencyChange = useCallback(
+    (updated: CurrencyOption[]) => {
+      if (isFinancialLocked) return;
+      const code = updated[0]?.value ?? "";
+      // The org currency is stored as empty so entries follow a later org currency change
+      setFormData((p) => ({ ...p, details: { ...p.details, currency: code === orgCurrency ? "" : code } }));
+    },
+    [isFinancialLocked, orgCurrency, setFormData]
+  );
+
+  // Current and next year cover what the picker usually shows
+  const dueYear = Number((formData.details.dueDate || new Date().toISOString()).slice(0, 4));
+  const { days: closedDays } = useNonBusinessDays(`${dueYear}-01-01`, `${dueYear + 1}-12-31`);
+
+  const dueDateHint = useMemo(() => {
+    const due = formData.details.dueDate;
+    if (!due || isBusinessDay(due, closedDays)) return null;
+
+    const reason = closedDays.get(due)?.name ?? (isWeekendISO(due) ? t("entriesModal:details.weekendDay") : "");
+    const weekend = formData.recurrence.weekend;
+    if (!weekend) return t("entriesModal:details.nonBusinessDay", { reason });
+
+    return t(weekend === 1 ? "entriesModal:details.shiftedForward" : "entriesModal:details.shiftedBack", {
+      reason,
+      date: formatDateFromISO(shiftToBusinessDay(due, weekend, closedDays)),
+    });
+  }, [closedDays, formData.details.dueDate, formData.recurrence.weekend, t]);
+
+  const quote = useFxQuote(formData.details.currency, formData.details.dueDate);
+  const converted = convertToOrg(formData.details.amount, quote.rate);
+
   const handleDescriptionChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       setFormData((p) => ({ ...p, details: { ...p.details, description: e.target.value } }));
@@ -123,42 +196,117 @@ const DetailsTab: React.FC<Props> = ({
 
   return (
     <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
-      <Input
-        kind="date"
-        label={t("entriesModal:details.dueDate")}
-        value={formData.details.dueDate}
-        onValueChange={handleDueDateChange}
-      />
+      <div className="space-y-1">
+        <Input
+          kind="date"
+          label={t("entriesModal:details.dueDate")}
+          value={formData.details.dueDate}
+          onValueChange={handleDueDateChange}
+          nonBusinessDays={closedDays}
+        />
+        {dueDateHint && <p className="text-[11px] text-amber-700">{dueDateHint}</p>}
+      </div>
 
-      <Input
-        kind="amount"
-        ref={amountRef}
-        id="amount-input"
-        label={t("entriesModal:details.amount")}
-        value={formData.details.amount}
-        onValueChange={handleAmountChange}
-        disabled={isFinancialLocked}
-        zeroAsEmpty
-      />
+      <div className="space-y-1">
+        <div className="flex items-end gap-2">
+          <div className="min-w-0 flex-1">
+            <Input
+              kind="amount"
+              ref={amountRef}
+              id="amount-input"
+              label={t("entriesModal:details.amount")}
+              value={formData.details.amount}
+              onValueChange={handleAmountChange}
+              currency={entryCurrency}
+              disabled={isFinancialLocked}
+              zeroAsEmpty
+            />
+          </div>
+          <div className="w-[120px] shrink-0">
+            <Select<CurrencyOption>
+              label={t("entriesModal:details.currency")}
+              items={currencies}
+              selected={selectedCurrency}
+              onChange={handleCurrencyChange}
+              getItemKey={(c) => c.value}
+              getItemLabel={(c) => c.label}
+              buttonLabel={entryCurrency}
+              singleSelect
+              hideCheckboxes
+              clearOnClickOutside={false}
+              customStyles={{ maxHeight: "220px" }}
+              disabled={isFinancialLocked}
+            />
+          </div>
+        </div>
+
+        {formData.details.currency && (
+          <p className="text-[11px] text-gray-500">
+            {quote.loading
+              ? t("entriesModal:details.fx.loading")
+              : converted !== null
+                ? t("entriesModal:details.fx.converted", {
+                    amount: formatCurrency(converted, orgCurrency),
+                    rate: quote.rate,
+                    date: formatDateFromISO(quote.rateDate),
+                  })
+                : formData.details.dueDate
+                  ? t("entriesModal:details.fx.missing", { currency: formData.details.currency })
+                  : null}
+          </p>
+        )}
+      </div>
 
       <div id={categoryWrapId} className="space-y-1.5">
-        <Select<CashflowCategory>
-          label={t("entriesModal:details.cashflowCategory", { defaultValue: "Category" })}
-          items={cashflowCategories}
-          selected={selectedCategories}
-          onChange={handleCategoryChange}
-          getItemKey={(i) => i.id}
-          getItemLabel={getCategoryLabel}
-          buttonLabel={t("entriesModal:details.cashflowCategoryBtn", { defaultValue: "Choose category" })}
-          singleSelect
-          customStyles={{ maxHeight: "220px" }}
-          virtualize
-          virtualRowHeight={32}
-          virtualThreshold={300}
-          disabled={isFinancialLocked}
-        />
+        {formData.categorySplit.enabled ? (
+          <p className="pt-6 text-[12px] text-gray-700">
+            {t("entriesModal:categorySplit.summary", { count: formData.categorySplit.rows.length })}
+          </p>
+        ) : (
+          <Select<CashflowCategory>
+            label={t("entriesModal:details.cashflowCategory", { defaultValue: "Category" })}
+            items={cashflowCategories}
+            selected={selectedCategories}
+            onChange={handleCategoryChange}
+            getItemKey={(i) => i.id}
+            getItemLabel={getCategoryLabel}
+            buttonLabel={t("entriesModal:details.cashflowCategoryBtn", { defaultValue: "Choose category" })}
+            singleSelect
+            customStyles={{ maxHeight: "220px" }}
+            virtualize
+            virtualRowHeight={32}
+            virtualThreshold={300}
+            disabled={isFinancialLocked}
+          />
+        )}
+        {!isFinancialLocked && (
+          <button
+            type="button"
+            onClick={handleSplitToggle}
+            className="text-[11px] text-gray-600 underline hover:text-gray-800"
+          >
+            {formData.categorySplit.enabled
+              ? t("entriesModal:categorySplit.disable")
+              : t("entriesModal:categorySplit.enable")}
+          </button>
+        )}
       </div>
 
+      {formData.categorySplit.enabled && (
+        <div className="md:col-span-3">
+          <CategorySplit
+            t={t}
+            formData={formData}
+            setFormData={setFormData}
+            cashflowCategories={cashflowCategories}
+            getCategoryLabel={getCategoryLabel}
+            splitValuePrefix={splitValuePrefix}
+            currency={entryCurrency}
+            isFinancialLocked={isFinancialLocked}
+          />
+        </div>
+      )}
+
       <div className="md:col-span-3">
         <Input
           label={t("entriesModal:details.description")}
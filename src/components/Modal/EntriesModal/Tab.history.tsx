@@ -0,0 +1,22 @@
+// src/components/Modal/Tab.history.tsx
+
+import React from "react";
+import type { TFunction } from "i18next";
+
+import { EntryHistoryTimeline } from "@/components/EntryHistory";
+
+type Props = {
+  t: TFunction;
+  entryId: string;
+};
+
+const HistoryTab: React.FC<Props> = ({ t, entryId }) => {
+  return (
+    <div className="space-y-3">
+      <p className="text-[12px] text-gray-600">{t("entriesModal:history.hint")}</p>
+      <EntryHistoryTimeline ownerType="entry" ownerId={entryId} />
+    </div>
+  );
+};
+
+export default HistoryTab;
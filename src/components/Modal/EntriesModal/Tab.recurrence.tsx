@@ -2,14 +2,30 @@
 
 import React, { useCallback, useMemo } from "react";
 import type { TFunction } from "i18next";
+import { addMonths, addWeeks, format, parseISO } from "date-fns";
 
 import Input from "@/shared/ui/Input";
 import { Select } from "src/shared/ui/Select";
 
+import { useNonBusinessDays } from "@/hooks/useNonBusinessDays";
+import { formatDateFromISO, shiftToBusinessDay } from "@/lib";
+
 import type { FormData, PeriodOption, RecurrenceOption } from "../Modal.types";
 
 type WeekendOption = { id: number; label: string; value: 1 | -1 };
 
+type PreviewDate = { nominal: string; due: string; reason: string | null };
+
+const PREVIEW_COUNT = 6;
+
+/** Nominal schedule from the first due date; period 0 is weekly, anything else is months. */
+function buildSchedule(first: string, periods: number, count: number): string[] {
+  const start = parseISO(first);
+  return Array.from({ length: count }, (_, i) =>
+    format(periods === 0 ? addWeeks(start, i) : addMonths(start, i * periods), "yyyy-MM-dd")
+  );
+}
+
 type Props = {
   t: TFunction;
 
@@ -115,6 +131,35 @@ const RecurrenceTab: React.FC<Props> = ({
 
   const isRecurring = formData.recurrence.recurrence === 1;
 
+  const schedule = useMemo(() => {
+    const first = formData.details.dueDate;
+    if (!isRecurring || !first) return [];
+    const total = Number(formData.recurrence.installments) || 1;
+    return buildSchedule(first, Number(formData.recurrence.periods), Math.min(total, PREVIEW_COUNT));
+  }, [formData.details.dueDate, formData.recurrence.installments, formData.recurrence.periods, isRecurring]);
+
+  const { days: closedDays } = useNonBusinessDays(
+    schedule[0],
+    schedule[schedule.length - 1],
+    schedule.length > 0
+  );
+
+  // Mirrors the backend: each installment moves off weekends and holidays per `weekend_action`
+  const preview = useMemo<PreviewDate[]>(
+    () =>
+      schedule.map((nominal) => {
+        const due = shiftToBusinessDay(nominal, formData.recurrence.weekend || 0, closedDays);
+        const reason =
+          due === nominal
+            ? null
+            : (closedDays.get(nominal)?.name ?? t("entriesModal:recurrence.preview.weekend"));
+        return { nominal, due, reason };
+      }),
+    [closedDays, formData.recurrence.weekend, schedule, t]
+  );
+
+  const total = Number(formData.recurrence.installments) || 1;
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
       <Select<RecurrenceOption>
@@ -171,6 +216,34 @@ const RecurrenceTab: React.FC<Props> = ({
             hideFilter
             disabled={isRecurrenceLocked}
           />
+
+          {preview.length > 0 && (
+            <div className="md:col-span-2 rounded-md border border-gray-200 bg-gray-50 px-3 py-2">
+              <p className="text-[10px] uppercase tracking-wide text-gray-600 mb-1">
+                {t("entriesModal:recurrence.preview.title")}
+              </p>
+              <ul className="space-y-0.5">
+                {preview.map((p) => (
+                  <li key={p.nominal} className="text-[12px] text-gray-800 tabular-nums">
+                    {formatDateFromISO(p.due)}
+                    {p.reason && (
+                      <span className="ml-2 text-[11px] text-amber-700">
+                        {t("entriesModal:recurrence.preview.shifted", {
+                          date: formatDateFromISO(p.nominal),
+                          reason: p.reason,
+                        })}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {total > preview.length && (
+                <p className="mt-1 text-[11px] text-gray-500">
+                  {t("entriesModal:recurrence.preview.more", { count: total - preview.length })}
+                </p>
+              )}
+            </div>
+          )}
         </>
       )}
     </div>
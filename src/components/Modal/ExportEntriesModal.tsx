@@ -0,0 +1,232 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/Modal/ExportEntriesModal.tsx                          */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { FileSpreadsheet, FileText, FileType2, X } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+import Spinner from "@/shared/ui/Loaders/Spinner";
+
+import { exportEntries, type EntriesExportContext, type EntriesExportFormat } from "@/lib/export";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  context: EntriesExportContext;
+  filters: EntryFilters;
+  sort?: EntrySortOrder;
+  selectedIds: string[];
+};
+
+type Scope = "filtered" | "selected";
+type Snack = { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" } | null;
+
+const FORMATS: Array<{ id: EntriesExportFormat; icon: React.ReactNode }> = [
+  { id: "xlsx", icon: <FileSpreadsheet size={18} /> },
+  { id: "csv", icon: <FileType2 size={18} /> },
+  { id: "pdf", icon: <FileText size={18} /> },
+];
+
+const ExportEntriesModal: React.FC<Props> = ({ isOpen, onClose, context, filters, sort, selectedIds }) => {
+  const { t } = useTranslation("entriesExport");
+
+  const [format, setFormat] = useState<EntriesExportFormat>("xlsx");
+  const [scope, setScope] = useState<Scope>("filtered");
+  const [isExporting, setIsExporting] = useState(false);
+  const [fetched, setFetched] = useState(0);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const hasSelection = selectedIds.length > 0;
+
+  // Default to the selection when the dialog opens with rows checked
+  useEffect(() => {
+    if (!isOpen) return;
+    setScope(hasSelection ? "selected" : "filtered");
+    setFetched(0);
+  }, [hasSelection, isOpen]);
+
+  const handleClose = useCallback(() => {
+    if (isExporting) return;
+    onClose();
+  }, [isExporting, onClose]);
+
+  window.useGlobalEsc(isOpen, handleClose);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const prevOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.body.style.overflow = prevOverflow;
+    };
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setFetched(0);
+
+    const result = await exportEntries({
+      context,
+      format,
+      filters,
+      sort,
+      selectedIds: scope === "selected" ? selectedIds : undefined,
+      onProgress: setFetched,
+    });
+
+    setIsExporting(false);
+
+    if (result.success) {
+      onClose();
+      setSnack({ message: result.message, severity: "success" });
+    } else {
+      setSnack({ message: result.message, severity: result.rowCount === 0 ? "warning" : "error" });
+    }
+  };
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] bg-black/30 md:grid md:place-items-center">
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label={t("modal.title")}
+            className={[
+              "fixed inset-x-0 bottom-0 max-h-[100dvh] rounded-t-lg border-0",
+              "md:static md:rounded-lg md:border md:border-gray-200 md:w-[480px] md:max-w-[96vw]",
+              "bg-white shadow-xl overflow-hidden flex flex-col",
+            ].join(" ")}
+          >
+            <header className="border-b border-gray-200 bg-white shrink-0">
+              <div className="px-4 md:px-5 pt-3 md:pt-4 pb-2 flex items-center justify-between">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="h-8 w-8 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700 shrink-0">
+                    EX
+                  </div>
+                  <div className="min-w-0">
+                    <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                      {t(`title.${context}`)}
+                    </div>
+                    <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">{t("modal.title")}</h1>
+                  </div>
+                </div>
+
+                <button
+                  type="button"
+                  className="h-9 w-9 rounded-full border border-gray-200 text-gray-500 hover:text-gray-700 hover:bg-gray-50 grid place-items-center shrink-0"
+                  onClick={handleClose}
+                  aria-label={t("modal.close")}
+                  title={t("modal.close")}
+                >
+                  <X size={18} />
+                </button>
+              </div>
+            </header>
+
+            <div className="px-4 md:px-5 py-4 space-y-5 overflow-y-auto">
+              <fieldset>
+                <legend className="text-[11px] uppercase tracking-wide text-gray-600 mb-2">
+                  {t("modal.format")}
+                </legend>
+                <div className="grid grid-cols-3 gap-2">
+                  {FORMATS.map((f) => (
+                    <button
+                      key={f.id}
+                      type="button"
+                      onClick={() => setFormat(f.id)}
+                      disabled={isExporting}
+                      aria-pressed={format === f.id}
+                      className={`flex flex-col items-center gap-1 rounded-md border px-3 py-3 text-[12px] ${
+                        format === f.id
+                          ? "border-gray-900 bg-gray-50 text-gray-900"
+                          : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                      }`}
+                    >
+                      {f.icon}
+                      <span className="font-semibold">{t(`formats.${f.id}.label`)}</span>
+                      <span className="text-[11px] text-gray-500">{t(`formats.${f.id}.hint`)}</span>
+                    </button>
+                  ))}
+                </div>
+              </fieldset>
+
+              <fieldset>
+                <legend className="text-[11px] uppercase tracking-wide text-gray-600 mb-2">
+                  {t("modal.scope")}
+                </legend>
+                <div className="space-y-2">
+                  {(["filtered", "selected"] as const).map((s) => {
+                    const disabled = isExporting || (s === "selected" && !hasSelection);
+                    return (
+                      <label
+                        key={s}
+                        className={`flex items-start gap-2 rounded-md border border-gray-200 px-3 py-2 text-[13px] ${
+                          disabled ? "opacity-50" : "cursor-pointer hover:bg-gray-50"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="export-scope"
+                          className="mt-0.5"
+                          checked={scope === s}
+                          disabled={disabled}
+                          onChange={() => setScope(s)}
+                        />
+                        <span>
+                          <span className="block text-gray-900">
+                            {t(`scope.${s}.label`, { count: selectedIds.length })}
+                          </span>
+                          <span className="block text-[11px] text-gray-500">{t(`scope.${s}.hint`)}</span>
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
+              <p className="text-[11px] text-gray-500">{t("modal.includes")}</p>
+            </div>
+
+            <footer
+              className="border-t border-gray-200 bg-white px-4 md:px-5 py-3 shrink-0 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+              style={{ paddingBottom: "max(0.75rem, env(safe-area-inset-bottom))" }}
+            >
+              <div className="text-[12px] text-gray-600" aria-live="polite">
+                {isExporting ? t("modal.progress", { count: fetched }) : null}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 md:flex">
+                <Button variant="cancel" type="button" onClick={handleClose} disabled={isExporting}>
+                  {t("modal.cancel")}
+                </Button>
+                <Button type="button" onClick={() => void handleExport()} disabled={isExporting}>
+                  {isExporting ? <Spinner size={14} className="mr-2" /> : null}
+                  {t("modal.submit")}
+                </Button>
+              </div>
+            </footer>
+          </div>
+        </div>
+      )}
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={6000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default ExportEntriesModal;
@@ -1,6 +1,8 @@
 // src/components/Modal/Modal.types.ts
 
+import type { CategorySplitMode, CategorySplitRow } from "@/lib/allocations";
 import type { Entry } from "@/models/entries/entries";
+import type { CustomFieldValues } from "@/models/settings/customFields";
 
 export interface FormData {
     details: {
@@ -8,10 +10,18 @@ export interface FormData {
       description: string;
       observation: string;
       amount: string;
+      /** ISO 4217; empty means the organization currency. */
+      currency: string;
       cashflowCategory: string;
       documentType: string;
       notes: string;
     };
+    /** While enabled, the saved category is the largest slice and `details.cashflowCategory` is ignored. */
+    categorySplit: {
+      enabled: boolean;
+      mode: CategorySplitMode;
+      rows: CategorySplitRow[];
+    };
     costCenters: {
       departments: string[];
       department_percentage: string[];
@@ -25,6 +35,10 @@ export interface FormData {
       entityType: string;
       entity: string;
     };
+    customFields: {
+      values: CustomFieldValues;
+      tags: string[];
+    };
     recurrence: {
       recurrence: number;
       installments: string;
@@ -44,7 +58,15 @@ export interface FormData {
     isLoadingEntry?: boolean;
   }
   
-  export type Tab = 'details' | 'costCenters' | 'inventory' | 'entities' | 'recurrence';
+  export type Tab =
+    | 'details'
+    | 'costCenters'
+    | 'inventory'
+    | 'entities'
+    | 'customFields'
+    | 'recurrence'
+    | 'attachments'
+    | 'history';
 
   export type RecurrenceOption = {
     id: number;
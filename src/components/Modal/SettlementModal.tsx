@@ -2,18 +2,23 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import axios from "axios";
 import { useTranslation } from "react-i18next";
-import { X } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Paperclip, ShieldAlert, X } from "lucide-react";
 
 import Button from "@/shared/ui/Button";
 import Checkbox from "@/shared/ui/Checkbox";
 import Input from "@/shared/ui/Input";
 import Snackbar from "@/shared/ui/Snackbar";
+import { AttachmentsPanel } from "@/components/Attachments";
 
 import { api } from "@/api/requests";
+import { useNonBusinessDays } from "@/hooks/useNonBusinessDays";
 import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { convertToOrg, isForeignCurrency, realizedFxGainLoss } from "@/lib/currency/fx";
+import { getSettlementBlock, type SettlementBlock } from "@/lib/approvals";
 
 import type { Entry } from "@/models/entries/entries";
-import type { BulkSettleItem } from "@/models/entries/settlements";
+import type { BulkSettleError, BulkSettleItem } from "@/models/entries/settlements";
 import type { BankAccount } from "@/models/settings/banking";
 import type { ApiError } from "@/models/Api";
 
@@ -39,6 +44,13 @@ type LocalEntryState = {
   tx_type: TxType;
   isPartial: boolean;
   partial_amount: string;
+  /** Set only for foreign-currency entries. */
+  currency: string | null;
+  booked_rate: string | null;
+  /** Manual settlement rate; empty follows the table rate for `value_date`. */
+  fx_rate: string;
+  /** Set while an approval rule still holds the entry back. */
+  block: SettlementBlock | null;
 };
 
 const FORM_ID = "settlementForm";
@@ -72,6 +84,10 @@ function signedEffect(tx: TxType, amountRaw: unknown): number {
   return tx === "debit" ? -n : n;
 }
 
+const RATE_RE = /^\d{1,10}(?:\.\d{1,8})?$/;
+
+const quoteKey = (currency: string, date: string) => `${currency}|${date}`;
+
 function firstText(value: unknown): string | null {
   if (typeof value === "string" && value.trim()) return value.trim();
 
@@ -95,6 +111,7 @@ function firstText(value: unknown): string | null {
       firstText(obj.book) ||
       firstText(obj.category) ||
       firstText(obj.policy) ||
+      firstText(obj.approval) ||
       firstText(obj.items) ||
       firstText(obj.error) ||
       null
@@ -117,6 +134,34 @@ function getSettlementErrorMessage(errorLike: unknown, fallback: string): string
   return fallback;
 }
 
+const APPROVAL_CODES: Record<NonNullable<BulkSettleError["code"]>, SettlementBlock> = {
+  approval_pending: "pending",
+  approval_rejected: "rejected",
+  self_approved: "self_approved",
+};
+
+/** Per-entry errors the API attaches to a refused bulk settle, wherever the envelope puts them. */
+function findBulkSettleErrors(value: unknown, depth = 0): BulkSettleError[] {
+  if (!value || typeof value !== "object" || depth > 3) return [];
+  const obj = value as Record<string, unknown>;
+  if (Array.isArray(obj.errors)) return obj.errors as BulkSettleError[];
+  return ["error", "detail", "details"].flatMap((key) => findBulkSettleErrors(obj[key], depth + 1));
+}
+
+/** Approval refusals among them, mapped to the reasons the rows already show. */
+function getApprovalRefusals(errorLike: unknown): SettlementBlock[] {
+  const body = axios.isAxiosError(errorLike) ? errorLike.response?.data : errorLike;
+  const errors = findBulkSettleErrors(body);
+  // A single refused entry may come back as the envelope code alone
+  const envelopeCode = (body as ApiError | undefined)?.error?.code;
+  if (!errors.length && envelopeCode && envelopeCode in APPROVAL_CODES) {
+    return [APPROVAL_CODES[envelopeCode as keyof typeof APPROVAL_CODES]];
+  }
+  return errors
+    .map((e) => (e.code ? APPROVAL_CODES[e.code] : undefined))
+    .filter((b): b is SettlementBlock => !!b);
+}
+
 /* ------------------------------ component ------------------------------ */
 
 const SettlementModal: React.FC<SettlementModalProps> = ({
@@ -134,6 +179,17 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
   const [bulkDate, setBulkDate] = useState<string>("");
   const [snack, setSnack] = useState<Snack>(null);
 
+  // Receipts are attached to the entry itself so they carry over to the settlement
+  const [attachmentsOpenId, setAttachmentsOpenId] = useState<string | null>(null);
+  const [attachmentCounts, setAttachmentCounts] = useState<Record<string, number>>({});
+
+  // Table rates keyed by `currency|value_date`; null means the table has none
+  const [fxQuotes, setFxQuotes] = useState<Record<string, string | null>>({});
+
+  // Value dates are usually recent; the previous year covers late settlements in January
+  const thisYear = new Date().getFullYear();
+  const { days: closedDays } = useNonBusinessDays(`${thisYear - 1}-01-01`, `${thisYear}-12-31`, isOpen);
+
   const formRef = useRef<HTMLFormElement>(null);
   const submitDisabledRef = useRef(true);
 
@@ -161,25 +217,85 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
 
   const somePartialInvalid = useMemo(() => entriesState.some(rowHasError), [entriesState, rowHasError]);
 
+  const settleRateFor = useCallback(
+    (row: LocalEntryState): string | null => {
+      if (!row.currency) return null;
+      if (row.fx_rate) return row.fx_rate.trim().replace(",", ".");
+      return fxQuotes[quoteKey(row.currency, row.value_date)] ?? null;
+    },
+    [fxQuotes]
+  );
+
+  const rowFxError = useCallback(
+    (row: LocalEntryState): "invalid" | "missing" | null => {
+      if (!row.currency) return null;
+
+      if (row.fx_rate) {
+        const rate = row.fx_rate.trim().replace(",", ".");
+        return RATE_RE.test(rate) && Number(rate) > 0 ? null : "invalid";
+      }
+
+      // Not looked up yet: let the backend resolve it
+      const key = quoteKey(row.currency, row.value_date);
+      return key in fxQuotes && !fxQuotes[key] ? "missing" : null;
+    },
+    [fxQuotes]
+  );
+
+  const someFxInvalid = useMemo(() => entriesState.some((r) => !!rowFxError(r)), [entriesState, rowFxError]);
+
+  const rowFxGainLoss = useCallback(
+    (row: LocalEntryState): number | null =>
+      row.currency
+        ? realizedFxGainLoss({
+            amount: row.isPartial ? row.partial_amount : row.amount,
+            txType: row.tx_type,
+            bookedRate: row.booked_rate,
+            settledRate: settleRateFor(row),
+          })
+        : null,
+    [settleRateFor]
+  );
+
+  // Totals are in the org currency; foreign rows without a rate count as zero
   const totalOriginalSigned = useMemo(() => {
     return selectedEntries.reduce((sum, e) => {
       const tx = e.tx_type as TxType;
-      return sum + signedEffect(tx, e.amount);
+      const amount = isForeignCurrency(e.currency) ? e.amount_org ?? 0 : e.amount;
+      return sum + signedEffect(tx, amount);
     }, 0);
   }, [selectedEntries]);
 
   const totalToSettleSigned = useMemo(() => {
     return entriesState.reduce((sum, row) => {
       const raw = row.isPartial ? row.partial_amount : row.amount;
-      return sum + signedEffect(row.tx_type, raw);
+      const amount = row.currency ? convertToOrg(raw, settleRateFor(row)) ?? 0 : raw;
+      return sum + signedEffect(row.tx_type, amount);
     }, 0);
-  }, [entriesState]);
+  }, [entriesState, settleRateFor]);
+
+  const hasForeignRows = useMemo(() => entriesState.some((r) => !!r.currency), [entriesState]);
+
+  const totalFxGainLoss = useMemo(
+    () => entriesState.reduce((sum, row) => sum + (rowFxGainLoss(row) ?? 0), 0),
+    [entriesState, rowFxGainLoss]
+  );
 
   const partialCount = useMemo(() => entriesState.filter((r) => r.isPartial).length, [entriesState]);
 
+  const blockedCount = useMemo(() => entriesState.filter((r) => !!r.block).length, [entriesState]);
+
   const isSubmitDisabled = useMemo(() => {
-    return loadingBanks || !!banksError || !selectedBankId || entriesState.length === 0 || somePartialInvalid;
-  }, [banksError, entriesState.length, loadingBanks, selectedBankId, somePartialInvalid]);
+    return (
+      loadingBanks ||
+      !!banksError ||
+      !selectedBankId ||
+      entriesState.length === 0 ||
+      somePartialInvalid ||
+      someFxInvalid ||
+      blockedCount > 0
+    );
+  }, [banksError, blockedCount, entriesState.length, loadingBanks, selectedBankId, somePartialInvalid, someFxInvalid]);
 
   useEffect(() => {
     submitDisabledRef.current = isSubmitDisabled;
@@ -205,13 +321,57 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
         tx_type: e.tx_type as TxType,
         isPartial: false,
         partial_amount: "",
+        currency: e.currency && isForeignCurrency(e.currency) ? e.currency : null,
+        booked_rate: e.fx_rate ?? null,
+        fx_rate: "",
+        block: getSettlementBlock(e),
       };
     });
 
     setEntriesState(mapped);
+    setFxQuotes({});
     setBulkDate(today);
+    setAttachmentsOpenId(null);
+    setAttachmentCounts(
+      Object.fromEntries(selectedEntries.map((e) => [e.id, e.attachments_count ?? 0]))
+    );
   }, [isOpen, selectedEntries]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const missing = Array.from(
+      new Set(
+        entriesState
+          .filter((r) => r.currency && r.value_date)
+          .map((r) => quoteKey(r.currency as string, r.value_date))
+      )
+    ).filter((key) => !(key in fxQuotes));
+    if (!missing.length) return;
+
+    let alive = true;
+
+    (async () => {
+      const results = await Promise.all(
+        missing.map(async (key) => {
+          const [currency, date] = key.split("|");
+          try {
+            const { data } = await api.getFxRateQuote({ currency, date });
+            return [key, data.rate] as const;
+          } catch (err) {
+            console.error("Failed to load exchange rate:", err);
+            return [key, null] as const;
+          }
+        })
+      );
+      if (alive) setFxQuotes((prev) => ({ ...prev, ...Object.fromEntries(results) }));
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [isOpen, entriesState, fxQuotes]);
+
   window.useGlobalEsc(isOpen, onClose);
 
   useEffect(() => {
@@ -250,6 +410,10 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
     setEntriesState((prev) => prev.map((row) => (row.id === id ? { ...row, partial_amount: val } : row)));
   }, []);
 
+  const updateFxRate = useCallback((id: string, val: string) => {
+    setEntriesState((prev) => prev.map((row) => (row.id === id ? { ...row, fx_rate: val } : row)));
+  }, []);
+
   const applyDateToAll = useCallback(() => {
     if (!bulkDate) return;
     setEntriesState((prev) => prev.map((row) => ({ ...row, value_date: bulkDate })));
@@ -263,12 +427,100 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
     setEntriesState((prev) => prev.map((row) => ({ ...row, isPartial: false, partial_amount: "" })));
   }, []);
 
+  const toggleAttachments = useCallback((id: string) => {
+    setAttachmentsOpenId((prev) => (prev === id ? null : id));
+  }, []);
+
+  const setAttachmentCount = useCallback((id: string, count: number) => {
+    setAttachmentCounts((prev) => (prev[id] === count ? prev : { ...prev, [id]: count }));
+  }, []);
+
+  const renderAttachmentsButton = (id: string) => {
+    const count = attachmentCounts[id] ?? 0;
+    const open = attachmentsOpenId === id;
+
+    return (
+      <button
+        type="button"
+        onClick={() => toggleAttachments(id)}
+        className={`inline-flex h-7 items-center gap-1 rounded-md border px-1.5 text-[11px] ${
+          open ? "border-gray-400 bg-gray-100 text-gray-900" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+        }`}
+        aria-expanded={open}
+        aria-label={t("table.attachments")}
+        title={t("table.attachments")}
+      >
+        <Paperclip size={13} />
+        {count > 0 ? <span className="tabular-nums">{count}</span> : null}
+      </button>
+    );
+  };
+
+  const renderBlockLine = (row: LocalEntryState) =>
+    row.block ? (
+      <p className="flex items-center gap-1.5 pt-2 text-[11px] text-amber-800">
+        <ShieldAlert size={13} className="shrink-0" />
+        {t(`approval.row.${row.block}`)}
+      </p>
+    ) : null;
+
+  const renderFxLine = (row: LocalEntryState) => {
+    if (!row.currency) return null;
+
+    const error = rowFxError(row);
+    const result = rowFxGainLoss(row);
+    const tableRate = fxQuotes[quoteKey(row.currency, row.value_date)];
+
+    return (
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pt-2 text-[11px] text-gray-600">
+        <span>{t("fx.booked", { currency: row.currency, rate: row.booked_rate ?? "—" })}</span>
+
+        <div className="inline-flex items-center gap-1.5">
+          <span>{t("fx.settleRate")}</span>
+          <Input
+            kind="text"
+            size="sm"
+            inputMode="decimal"
+            value={row.fx_rate}
+            placeholder={tableRate ?? ""}
+            onChange={(e) => updateFxRate(row.id, e.target.value)}
+            className={`w-[110px] ${error ? "!border-red-400 bg-red-50" : ""}`}
+            aria-invalid={!!error || undefined}
+            aria-label={t("fx.settleRate")}
+          />
+        </div>
+
+        {result !== null && (
+          <span className={result >= 0 ? "text-green-700" : "text-red-700"}>
+            {t("fx.result")}&nbsp;
+            <b className="tabular-nums">
+              {result > 0 ? "+" : ""}
+              {formatCurrency(result)}
+            </b>
+          </span>
+        )}
+
+        {error && <span className="text-red-700">{t(`fx.errors.${error}`)}</span>}
+      </div>
+    );
+  };
+
   /* -------------------------------- submit --------------------------------- */
 
+  // Approvals can change after the modal opened; the server then refuses the entries it gates
+  const getBulkErrorMessage = useCallback(
+    (errorLike: unknown) => {
+      const refusals = getApprovalRefusals(errorLike);
+      if (!refusals.length) return getSettlementErrorMessage(errorLike, t("errors.bulk"));
+      return t("approval.refused", { count: refusals.length, reason: t(`approval.row.${refusals[0]}`) });
+    },
+    [t]
+  );
+
   const handleSubmit = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!selectedBankId) return;
+      if (!selectedBankId || blockedCount > 0) return;
 
       try {
         const items: BulkSettleItem[] = entriesState.map((row) => {
@@ -279,6 +531,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
             bank_id: selectedBankId,
             amount: raw || "0",
             value_date: row.value_date,
+            ...(row.currency && row.fx_rate ? { fx_rate: row.fx_rate.trim().replace(",", ".") } : {}),
           };
         });
 
@@ -290,7 +543,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
         if (!("data" in res)) {
           const apiError = res as ApiError;
           setSnack({
-            message: getSettlementErrorMessage(apiError, t("errors.bulk")),
+            message: getBulkErrorMessage(apiError),
             severity: "error",
           });
           return;
@@ -300,12 +553,12 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
         onClose();
       } catch (err) {
         setSnack({
-          message: getSettlementErrorMessage(err, t("errors.bulk")),
+          message: getBulkErrorMessage(err),
           severity: "error",
         });
       }
     },
-    [entriesState, onClose, onSave, selectedBankId, t]
+    [blockedCount, entriesState, getBulkErrorMessage, onClose, onSave, selectedBankId]
   );
 
   /* --------------------------------- UI ------------------------------------ */
@@ -380,6 +633,16 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
           </div>
         </div>
 
+        {blockedCount > 0 && (
+          <div className="shrink-0 mx-4 md:mx-5 mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-[12px] text-amber-900">
+            <ShieldAlert size={15} className="shrink-0" />
+            <span className="min-w-0 flex-1">{t("approval.banner", { count: blockedCount })}</span>
+            <Link to="/approvals" className="font-medium text-amber-900 underline" onClick={onClose}>
+              {t("approval.openQueue")}
+            </Link>
+          </div>
+        )}
+
         {/* Content — desktop: unchanged grid; mobile: single scrollable column */}
         <form
           id={FORM_ID}
@@ -469,6 +732,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                   <div className="flex items-center gap-2 flex-wrap">
                     <Input
                       kind="date"
+                      nonBusinessDays={closedDays}
                       value={bulkDate}
                       size="sm"
                       onValueChange={(iso: string) => setBulkDate(iso)}
@@ -501,12 +765,13 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
 
             {/* Desktop table — unchanged */}
             <div className="hidden md:block flex-1 min-h-0 overflow-y-auto">
-              <div className="grid grid-cols-[140px_1fr_140px_80px_180px] gap-2 items-center px-3 py-2 bg-white text-[11px] text-gray-600 border-b border-gray-200 sticky top-0 z-[9999]">
+              <div className="grid grid-cols-[140px_1fr_140px_80px_180px_56px] gap-2 items-center px-3 py-2 bg-white text-[11px] text-gray-600 border-b border-gray-200 sticky top-0 z-[9999]">
                 <div className="text-center">{t("table.due")}</div>
                 <div className="text-center">{t("table.desc")}</div>
                 <div className="text-center">{t("table.amount")}</div>
                 <div className="text-center">{t("table.partialQ")}</div>
                 <div className="text-center">{t("table.partialAmount")}</div>
+                <div className="text-center">{t("table.attachmentsShort")}</div>
               </div>
 
               {entriesState.length === 0 ? (
@@ -517,10 +782,11 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
 
                   return (
                     <div key={row.id} className="px-3 py-2 border-b border-gray-200 hover:bg-gray-50">
-                      <div className="grid grid-cols-[140px_1fr_140px_80px_180px] gap-2 items-center text-[12px]">
+                      <div className="grid grid-cols-[140px_1fr_140px_80px_180px_56px] gap-2 items-center text-[12px]">
                         <div className="text-center">
                           <Input
                             kind="date"
+                            nonBusinessDays={closedDays}
                             value={row.value_date}
                             size="sm"
                             onValueChange={(iso: string) => updateEntryDate(row.id, iso)}
@@ -534,7 +800,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
 
                         <div className="text-center tabular-nums font-semibold text-gray-900">
                           <span className="mr-1">{row.tx_type === "debit" ? "-" : ""}</span>
-                          {formatCurrency(row.amount)}
+                          {formatCurrency(row.amount, row.currency ?? undefined)}
                         </div>
 
                         <div className="flex items-center justify-center">
@@ -549,6 +815,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                               size="sm"
                               onValueChange={(val: string) => updatePartialAmount(row.id, val)}
                               display="currency"
+                              currency={row.currency ?? undefined}
                               zeroAsEmpty
                               className={invalid ? "!border-red-400 bg-red-50" : ""}
                               aria-invalid={invalid || undefined}
@@ -558,9 +825,26 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                             <span className="text-gray-400">—</span>
                           )}
                         </div>
+
+                        <div className="flex items-center justify-center">{renderAttachmentsButton(row.id)}</div>
                       </div>
 
                       {invalid ? <p className="pt-2 text-[11px] text-red-700">{t("table.partialInvalid")}</p> : null}
+
+                      {renderBlockLine(row)}
+
+                      {renderFxLine(row)}
+
+                      {attachmentsOpenId === row.id ? (
+                        <div className="pt-2">
+                          <AttachmentsPanel
+                            ownerType="entry"
+                            ownerId={row.id}
+                            onCountChange={(n) => setAttachmentCount(row.id, n)}
+                            compact
+                          />
+                        </div>
+                      ) : null}
                     </div>
                   );
                 })
@@ -585,17 +869,29 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                           </p>
                           <p className="mt-0.5 text-[11px] text-gray-500">
                             <span className={`font-semibold ${row.tx_type === "debit" ? "text-red-600" : "text-green-700"}`}>
-                              {row.tx_type === "debit" ? "−" : "+"}{formatCurrency(row.amount)}
+                              {row.tx_type === "debit" ? "−" : "+"}{formatCurrency(row.amount, row.currency ?? undefined)}
                             </span>
                           </p>
                         </div>
 
-                        <label className="flex items-center gap-1.5 shrink-0 cursor-pointer">
-                          <Checkbox size="sm" checked={row.isPartial} onChange={() => togglePartial(row.id)} />
-                          <span className="text-[11px] text-gray-600 select-none">{t("table.partialQ")}</span>
-                        </label>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {renderAttachmentsButton(row.id)}
+                          <label className="flex items-center gap-1.5 cursor-pointer">
+                            <Checkbox size="sm" checked={row.isPartial} onChange={() => togglePartial(row.id)} />
+                            <span className="text-[11px] text-gray-600 select-none">{t("table.partialQ")}</span>
+                          </label>
+                        </div>
                       </div>
 
+                      {attachmentsOpenId === row.id ? (
+                        <AttachmentsPanel
+                          ownerType="entry"
+                          ownerId={row.id}
+                          onCountChange={(n) => setAttachmentCount(row.id, n)}
+                          compact
+                        />
+                      ) : null}
+
                       {/* Date + optional partial amount */}
                       <div className="grid grid-cols-2 gap-2">
                         <div>
@@ -604,6 +900,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                           </label>
                           <Input
                             kind="date"
+                            nonBusinessDays={closedDays}
                             value={row.value_date}
                             size="sm"
                             onValueChange={(iso: string) => updateEntryDate(row.id, iso)}
@@ -623,6 +920,7 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                               size="sm"
                               onValueChange={(val: string) => updatePartialAmount(row.id, val)}
                               display="currency"
+                              currency={row.currency ?? undefined}
                               zeroAsEmpty
                               className={invalid ? "!border-red-400 bg-red-50" : ""}
                               aria-invalid={invalid || undefined}
@@ -637,6 +935,10 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                           {t("table.partialInvalid")}
                         </p>
                       )}
+
+                      {renderBlockLine(row)}
+
+                      {renderFxLine(row)}
                     </div>
                   );
                 })
@@ -663,6 +965,16 @@ const SettlementModal: React.FC<SettlementModalProps> = ({
                 <b className="text-gray-900 tabular-nums">{formatCurrency(totalToSettleSigned.toFixed(2))}</b>
               </span>
 
+              {hasForeignRows && (
+                <span className="mr-3">
+                  {t("fx.totalResult")}&nbsp;
+                  <b className={`tabular-nums ${totalFxGainLoss >= 0 ? "text-green-700" : "text-red-700"}`}>
+                    {totalFxGainLoss > 0 ? "+" : ""}
+                    {formatCurrency(totalFxGainLoss.toFixed(2))}
+                  </b>
+                </span>
+              )}
+
               {chosenBank ? (
                 <span className="text-gray-600">
                   {t("footer.bankLabel")}&nbsp;
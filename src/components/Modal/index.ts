@@ -1,4 +1,6 @@
 export { default as EntriesModal } from './EntriesModal/EntriesModal';
 export { default as TransferenceModal } from './TransferenceModal';
 export { default as SettlementModal } from './SettlementModal';
-export { default as StatementImportModal } from './StatementImportModal';
\ No newline at end of file
+export { default as StatementImportModal } from './StatementImportModal';
+export { default as BulkEntryModal } from './BulkEntryModal/BulkEntryModal';
+export { default as ExportEntriesModal } from './ExportEntriesModal';
@@ -0,0 +1,167 @@
+/* -------------------------------------------------------------------------- */
+/* File: src/components/NotificationInbox/NotificationInbox.tsx               */
+/* -------------------------------------------------------------------------- */
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslation } from "react-i18next";
+import { Bell } from "lucide-react";
+import { format } from "date-fns";
+
+import Spinner from "@/shared/ui/Loaders/Spinner";
+import { EntryCommentsDrawer } from "@/components/EntryComments";
+import { useNotificationInbox } from "@/hooks/useNotificationInbox";
+import { formatDateFromISO } from "@/lib";
+import type { InboxNotification } from "@/models/auth/notifications";
+
+type Props = {
+  /** Mobile navbar uses a larger touch target. */
+  compact?: boolean;
+};
+
+type Target = NonNullable<InboxNotification["target"]>;
+
+const MAX_BADGE = 99;
+
+function stamp(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : `${formatDateFromISO(iso)} ${format(d, "HH:mm")}`;
+}
+
+const NotificationInbox: React.FC<Props> = ({ compact = false }) => {
+  const { t } = useTranslation("notificationInbox");
+  const { items, unreadCount, loading, markRead, markAllRead } = useNotificationInbox();
+
+  const [open, setOpen] = useState(false);
+  const [thread, setThread] = useState<Target | null>(null);
+  const wrapRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const onDown = (event: Event) => {
+      if (wrapRef.current && !wrapRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+
+    document.addEventListener("mousedown", onDown);
+    document.addEventListener("touchstart", onDown, { passive: true });
+    window.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", onDown);
+      document.removeEventListener("touchstart", onDown);
+      window.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  const openItem = useCallback(
+    (n: InboxNotification) => {
+      if (!n.read_at) void markRead([n.id]);
+      setOpen(false);
+      if (n.target) setThread(n.target);
+    },
+    [markRead]
+  );
+
+  const describe = (n: InboxNotification) => {
+    const actor = n.actor?.name || t("actor.someone");
+    const label = n.target?.label || t("target.untitled");
+    return n.kind === "comment_mention"
+      ? t("kinds.comment_mention", { actor, label })
+      : t("kinds.generic", { actor });
+  };
+
+  const badge = unreadCount > MAX_BADGE ? `${MAX_BADGE}+` : String(unreadCount);
+
+  return (
+    <div className="relative" ref={wrapRef}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className={`relative grid place-items-center rounded-md text-gray-600 hover:bg-gray-50 hover:text-gray-800 focus:outline-none ${
+          compact ? "h-10 w-10" : "h-9 w-9"
+        }`}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+        aria-label={unreadCount ? t("button.unread", { count: unreadCount }) : t("button.label")}
+        title={t("button.label")}
+      >
+        <Bell className="h-5 w-5" aria-hidden="true" />
+        {unreadCount ? (
+          <span className="absolute -right-0.5 -top-0.5 min-w-[18px] rounded-full bg-orange-500 px-1 text-center text-[10px] font-semibold leading-[18px] text-white tabular-nums">
+            {badge}
+          </span>
+        ) : null}
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label={t("title")}
+          className="absolute right-0 mt-2 w-[360px] max-w-[calc(100vw-2rem)] overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg"
+        >
+          <div className="flex items-center justify-between gap-2 border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+            <span className="text-[11px] uppercase tracking-wide text-gray-700">{t("title")}</span>
+            {unreadCount ? (
+              <button
+                type="button"
+                onClick={() => void markAllRead()}
+                className="text-[11px] text-gray-600 underline hover:text-gray-800"
+              >
+                {t("actions.markAllRead")}
+              </button>
+            ) : null}
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto">
+            {loading && !items.length ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : items.length ? (
+              <ul className="divide-y divide-gray-100">
+                {items.map((n) => (
+                  <li key={n.id}>
+                    <button
+                      type="button"
+                      onClick={() => openItem(n)}
+                      className={`flex w-full gap-2 px-4 py-2.5 text-left hover:bg-gray-50 ${n.read_at ? "" : "bg-sky-50/50"}`}
+                    >
+                      <span
+                        className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${n.read_at ? "bg-transparent" : "bg-sky-500"}`}
+                        aria-hidden="true"
+                      />
+                      <span className="min-w-0 flex-1">
+                        <span className="block text-[12px] text-gray-900">{describe(n)}</span>
+                        {n.excerpt ? (
+                          <span className="mt-0.5 block truncate text-[12px] text-gray-500">{n.excerpt}</span>
+                        ) : null}
+                        <span className="mt-0.5 block text-[11px] text-gray-400">{stamp(n.created_at)}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="p-6 text-center text-[12px] text-gray-500">{t("empty")}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {createPortal(
+        <EntryCommentsDrawer
+          open={!!thread}
+          ownerType={thread?.owner_type ?? "entry"}
+          ownerId={thread?.owner_id ?? null}
+          subtitle={thread?.label}
+          onClose={() => setThread(null)}
+        />,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
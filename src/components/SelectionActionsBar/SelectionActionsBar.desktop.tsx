@@ -80,6 +80,10 @@ export type SelectionActionsBarProps = {
   onAccountingReview?: () => void;
   accountingReviewCount?: number;
 
+  /** Selected entries an approval rule still holds back from settlement. */
+  approvalBlockedCount?: number;
+  onApprovalQueue?: () => void;
+
   currency?: string | null;
   className?: string;
 };
@@ -132,6 +136,8 @@ const SelectionActionsBarDesktop: React.FC<SelectionActionsBarProps> = ({
   onReturn,
   onAccountingReview,
   accountingReviewCount,
+  approvalBlockedCount,
+  onApprovalQueue,
   currency,
   className = "",
 }) => {
@@ -221,6 +227,7 @@ const SelectionActionsBarDesktop: React.FC<SelectionActionsBarProps> = ({
   const showDelete = !contextSettlement && typeof onDelete === "function";
   const showReturn = contextSettlement && typeof onReturn === "function";
   const showAccountingReview = !contextSettlement && typeof onAccountingReview === "function" && (accountingReviewCount ?? 0) > 0;
+  const showApprovalBlock = !contextSettlement && (approvalBlockedCount ?? 0) > 0;
 
   const toggleMinimize = useCallback(() => setMinimized((p) => !p), []);
 
@@ -288,6 +295,27 @@ const SelectionActionsBarDesktop: React.FC<SelectionActionsBarProps> = ({
           </div>
         ) : null}
 
+        {showApprovalBlock ? (
+          <div className="flex items-center gap-2 rounded-2xl border border-amber-200 bg-amber-50 px-3 py-2">
+            <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-amber-100 text-[11px] font-semibold text-amber-700">
+              !
+            </span>
+            <div className="min-w-0 flex-1 text-xs text-amber-900">
+              <span className="font-medium">{t("approval.title")}.</span>{" "}
+              <span className="text-amber-800">{t("approval.subtitle", { count: approvalBlockedCount ?? 0 })}</span>
+            </div>
+            {onApprovalQueue ? (
+              <button
+                type="button"
+                onClick={onApprovalQueue}
+                className="shrink-0 text-xs font-medium text-amber-900 underline"
+              >
+                {t("approval.action")}
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+
         <div className="max-w-7xl mx-auto flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-4 w-full">
           <div className="min-w-0 flex-1">
             <div className="flex flex-wrap items-center gap-x-3 gap-y-1 min-w-0">
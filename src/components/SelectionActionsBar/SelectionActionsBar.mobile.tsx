@@ -64,6 +64,10 @@ export type SelectionActionsBarProps = {
   onAccountingReview?: () => void;
   accountingReviewCount?: number;
 
+  /** Selected entries an approval rule still holds back from settlement. */
+  approvalBlockedCount?: number;
+  onApprovalQueue?: () => void;
+
   currency?: string | null;
   className?: string;
 };
@@ -179,6 +183,8 @@ const SelectionActionsBarMobile: React.FC<SelectionActionsBarProps> = ({
   onReturn,
   onAccountingReview,
   accountingReviewCount,
+  approvalBlockedCount,
+  onApprovalQueue,
   currency,
   className = "",
 }) => {
@@ -240,6 +246,7 @@ const SelectionActionsBarMobile: React.FC<SelectionActionsBarProps> = ({
   const showDelete = !contextSettlement && typeof onDelete === "function";
   const showReturn = contextSettlement && typeof onReturn === "function";
   const showAccountingReview = !contextSettlement && typeof onAccountingReview === "function" && (accountingReviewCount ?? 0) > 0;
+  const showApprovalBlock = !contextSettlement && (approvalBlockedCount ?? 0) > 0;
 
   const toggleCollapsed = useCallback(() => setCollapsed((v) => !v), []);
 
@@ -402,6 +409,15 @@ const SelectionActionsBarMobile: React.FC<SelectionActionsBarProps> = ({
             </div>
           </div>
         ) : null}
+
+        {showApprovalBlock ? (
+          <div className="mt-2 px-1">
+            <button type="button" onClick={onApprovalQueue} className="text-left text-[11px] text-amber-800">
+              <span className="font-medium">{t("approval.title")}.</span>{" "}
+              {t("approval.subtitleShort", { count: approvalBlockedCount ?? 0 })}
+            </button>
+          </div>
+        ) : null}
       </div>
     </nav>
   );
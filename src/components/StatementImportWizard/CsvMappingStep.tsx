@@ -0,0 +1,349 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, FileSpreadsheet, Loader2, Sparkles } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import Input from "@/shared/ui/Input";
+import { Select } from "src/shared/ui/Select";
+
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import {
+  applyCsvMapping,
+  CSV_DATE_FORMATS,
+  type CsvMapping,
+  type ParsedStatement,
+} from "@/lib/statementParsers";
+import type { CsvColumnMap, CsvMappingProfile } from "@/models/settings/csvMappingProfiles";
+
+type Option = { label: string; value: string };
+
+export type CsvProfileChoice = { name: string } | null;
+
+type Props = {
+  fileName: string;
+  text: string;
+  initialMapping: CsvMapping;
+  /** Saved profile whose header fingerprint matched this file. */
+  profile: CsvMappingProfile | null;
+  defaultProfileName: string;
+  busy: boolean;
+  /** `save` is null when the mapping should not be stored. */
+  onContinue: (mapping: CsvMapping, statement: ParsedStatement, save: CsvProfileChoice) => void;
+  onAnalyze: () => void;
+  onCancel: () => void;
+};
+
+const DELIMITER_OPTIONS: Option[] = [
+  { label: "Comma (,)", value: "," },
+  { label: "Semicolon (;)", value: ";" },
+  { label: "Tab", value: "\t" },
+  { label: "Pipe (|)", value: "|" },
+];
+
+const DECIMAL_OPTIONS: Option[] = [
+  { label: "Dot (1,234.56)", value: "." },
+  { label: "Comma (1.234,56)", value: "," },
+];
+
+const AMOUNT_MODE_OPTIONS: Option[] = [
+  { label: "One signed amount column", value: "signed" },
+  { label: "Separate debit and credit columns", value: "split" },
+];
+
+const DATE_FORMAT_OPTIONS: Option[] = CSV_DATE_FORMATS.map((f) => ({ label: f, value: f }));
+
+const MAX_PREVIEW_ROWS = 20;
+
+function sameMapping(a: CsvMapping, b: CsvMapping): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const CsvMappingStep: React.FC<Props> = ({
+  fileName,
+  text,
+  initialMapping,
+  profile,
+  defaultProfileName,
+  busy,
+  onContinue,
+  onAnalyze,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<CsvMapping>(initialMapping);
+  const [saveProfile, setSaveProfile] = useState(!profile);
+  const [profileName, setProfileName] = useState(profile?.name ?? defaultProfileName);
+
+  const result = useMemo(() => applyCsvMapping(text, mapping), [text, mapping]);
+  const { statement, columns, errors } = result;
+
+  const changed = !sameMapping(mapping, initialMapping);
+  const canSave = saveProfile && (!profile || changed);
+
+  const columnOptions = useMemo<Option[]>(
+    () => columns.map((label, index) => ({ label: `${index + 1}. ${label}`, value: String(index) })),
+    [columns]
+  );
+  const optionalColumnOptions = useMemo<Option[]>(
+    () => [{ label: "None", value: "" }, ...columnOptions],
+    [columnOptions]
+  );
+
+  const set = <K extends keyof CsvMapping>(key: K, value: CsvMapping[K]) =>
+    setMapping((prev) => ({ ...prev, [key]: value }));
+
+  const setColumn = <K extends keyof CsvColumnMap>(key: K, value: CsvColumnMap[K]) =>
+    setMapping((prev) => ({ ...prev, columns: { ...prev.columns, [key]: value } }));
+
+  const money = (minor: number | null) => (minor === null ? "—" : formatCurrency(minor / 100));
+
+  const singleSelect = (
+    label: string,
+    items: Option[],
+    value: string,
+    onChange: (value: string) => void,
+    placeholder = "Select"
+  ) => (
+    <Select<Option>
+      label={label}
+      items={items}
+      selected={items.filter((o) => o.value === value)}
+      onChange={(selected) => onChange(selected[0]?.value ?? "")}
+      getItemKey={(item) => item.value || "none"}
+      getItemLabel={(item) => item.label}
+      singleSelect
+      hideCheckboxes
+      hideFilter={items.length < 8}
+      buttonLabel={placeholder}
+      customStyles={{ maxHeight: "220px" }}
+      disabled={busy}
+    />
+  );
+
+  const columnSelect = (label: string, key: "date" | "amount" | "debit" | "credit" | "reference" | "balance") =>
+    singleSelect(
+      label,
+      key === "date" ? columnOptions : optionalColumnOptions,
+      mapping.columns[key] === null ? "" : String(mapping.columns[key]),
+      (value) => setColumn(key, value === "" ? null : Number(value)),
+      key === "date" ? "Select column" : "None"
+    );
+
+  const readable = statement.transactions.length;
+  const canContinue = readable > 0 && (!canSave || !!profileName.trim()) && !busy;
+
+  return (
+    <div className="absolute inset-0 z-30 overflow-y-auto bg-gray-50/95 p-4 md:p-6">
+      <div className="mx-auto max-w-5xl space-y-4">
+        <section className="rounded-2xl border border-gray-200 bg-white p-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[13px] font-semibold text-gray-900">
+                <FileSpreadsheet size={16} className="text-emerald-600" />
+                <span className="truncate">{fileName}</span>
+              </div>
+              <div className="mt-1 text-[12px] text-gray-600">
+                {profile
+                  ? `Matched the saved profile "${profile.name}". Adjust it below if this export changed.`
+                  : "No saved profile matches this file. Check the columns below; the mapping can be saved for next time."}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" onClick={onAnalyze} disabled={busy}>
+                <Sparkles size={14} className="mr-1" />
+                Analyze with AI instead
+              </Button>
+              <Button variant="cancel" onClick={onCancel} disabled={busy}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => onContinue(mapping, statement, canSave ? { name: profileName.trim() } : null)}
+                disabled={!canContinue}
+              >
+                {busy ? (
+                  <>
+                    <Loader2 size={16} className="mr-2 animate-spin" />
+                    Saving
+                  </>
+                ) : (
+                  "Continue"
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+            {singleSelect("Delimiter", DELIMITER_OPTIONS, mapping.delimiter, (v) =>
+              set("delimiter", (v || ",") as CsvMapping["delimiter"])
+            )}
+            <Input
+              label="Lines to skip"
+              type="number"
+              min={0}
+              value={String(mapping.skip_rows)}
+              onChange={(e) => set("skip_rows", Math.max(0, Number(e.target.value) || 0))}
+              disabled={busy}
+            />
+            <label className="flex items-center gap-2 self-end pb-2 text-[12px] text-gray-700">
+              <Checkbox
+                size="sm"
+                checked={mapping.has_header}
+                onChange={() => set("has_header", !mapping.has_header)}
+                disabled={busy}
+              />
+              First line is a header
+            </label>
+
+            {singleSelect("Date format", DATE_FORMAT_OPTIONS, mapping.date_format, (v) =>
+              set("date_format", (v || "YYYY-MM-DD") as CsvMapping["date_format"])
+            )}
+            {singleSelect("Decimal separator", DECIMAL_OPTIONS, mapping.decimal_separator, (v) =>
+              set("decimal_separator", v === "," ? "," : ".")
+            )}
+            {singleSelect("Amounts", AMOUNT_MODE_OPTIONS, mapping.amount_mode, (v) =>
+              set("amount_mode", v === "split" ? "split" : "signed")
+            )}
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-3 border-t border-gray-100 pt-4 md:grid-cols-3">
+            {columnSelect("Date column", "date")}
+            <Select<Option>
+              label="Description column(s)"
+              items={columnOptions}
+              selected={columnOptions.filter((o) => mapping.columns.description.includes(Number(o.value)))}
+              onChange={(selected) =>
+                setColumn(
+                  "description",
+                  selected.map((o) => Number(o.value)).sort((a, b) => a - b)
+                )
+              }
+              getItemKey={(item) => item.value}
+              getItemLabel={(item) => item.label}
+              buttonLabel="Select columns"
+              customStyles={{ maxHeight: "220px" }}
+              disabled={busy}
+            />
+            {mapping.amount_mode === "signed" ? (
+              columnSelect("Amount column", "amount")
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {columnSelect("Debit column", "debit")}
+                {columnSelect("Credit column", "credit")}
+              </div>
+            )}
+            {columnSelect("Reference column", "reference")}
+            {columnSelect("Balance column", "balance")}
+            <label className="flex items-center gap-2 self-end pb-2 text-[12px] text-gray-700">
+              <Checkbox
+                size="sm"
+                checked={mapping.invert_sign}
+                onChange={() => set("invert_sign", !mapping.invert_sign)}
+                disabled={busy}
+              />
+              Invert signs (debits are positive in this file)
+            </label>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-end gap-3 border-t border-gray-100 pt-4">
+            {profile && !changed ? (
+              <div className="text-[12px] text-gray-600">Using the saved profile as is.</div>
+            ) : (
+              <>
+                <label className="flex items-center gap-2 pb-2 text-[12px] text-gray-700">
+                  <Checkbox
+                    size="sm"
+                    checked={saveProfile}
+                    onChange={() => setSaveProfile((v) => !v)}
+                    disabled={busy}
+                  />
+                  {profile ? `Update the profile "${profile.name}"` : "Save as a profile for this bank account"}
+                </label>
+                {saveProfile ? (
+                  <div className="min-w-[240px] flex-1">
+                    <Input
+                      label="Profile name"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      disabled={busy}
+                    />
+                  </div>
+                ) : null}
+              </>
+            )}
+          </div>
+        </section>
+
+        <section className="overflow-hidden rounded-2xl border border-gray-200 bg-white">
+          <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-200 px-4 py-2 text-[12px]">
+            <span className="font-semibold text-gray-900">
+              {readable} transaction(s) read
+              {statement.periodStart ? ` • ${statement.periodStart} to ${statement.periodEnd}` : ""}
+            </span>
+            {statement.closingBalanceMinor !== null ? (
+              <span className="text-gray-600">
+                Opening {money(statement.openingBalanceMinor)} • Closing {money(statement.closingBalanceMinor)}
+              </span>
+            ) : null}
+          </div>
+
+          {errors.length ? (
+            <div className="flex items-start gap-2 border-b border-amber-200 bg-amber-50 px-4 py-2 text-[12px] text-amber-800">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              <div>
+                {errors.length} line(s) could not be read and will be skipped.
+                {errors.slice(0, 3).map((e) => (
+                  <div key={e.line} className="text-[11px]">
+                    Line {e.line}: {e.message}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          <table className="w-full text-left text-[12px]">
+            <thead className="bg-gray-50 text-[11px] uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Date</th>
+                <th className="px-4 py-2 font-medium">Description</th>
+                <th className="hidden px-4 py-2 font-medium md:table-cell">Reference</th>
+                <th className="px-4 py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {statement.transactions.slice(0, MAX_PREVIEW_ROWS).map((tx, index) => (
+                <tr key={`${tx.reference ?? ""}-${index}`}>
+                  <td className="whitespace-nowrap px-4 py-2 text-gray-600">{tx.date}</td>
+                  <td className="px-4 py-2 text-gray-900">{tx.description || "—"}</td>
+                  <td className="hidden px-4 py-2 text-gray-500 md:table-cell">{tx.reference || "—"}</td>
+                  <td
+                    className={`whitespace-nowrap px-4 py-2 text-right font-medium ${
+                      tx.amountMinor < 0 ? "text-amber-700" : "text-emerald-700"
+                    }`}
+                  >
+                    {money(tx.amountMinor)}
+                  </td>
+                </tr>
+              ))}
+              {!readable ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                    No rows can be read with this mapping yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+
+          {readable > MAX_PREVIEW_ROWS ? (
+            <div className="border-t border-gray-200 px-4 py-2 text-[12px] text-gray-600">
+              And {readable - MAX_PREVIEW_ROWS} more transaction(s).
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default CsvMappingStep;
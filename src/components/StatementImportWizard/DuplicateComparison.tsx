@@ -0,0 +1,122 @@
+import React from "react";
+import { CopyCheck } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import type { StatementImportRow } from "@/models/settings/statements";
+
+type Props = {
+  row: StatementImportRow;
+  /** Draft status, which may differ from the saved one until it is persisted. */
+  status: string;
+  onSkip: () => void;
+  onImport: () => void;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  same_reference: "same bank reference",
+  same_amount_date: "same amount and date",
+  same_amount: "same amount",
+  nearby_date: "date within a few days",
+  similar_description: "similar description",
+};
+
+type SideProps = {
+  title: string;
+  subtitle?: string | null;
+  date: string | null;
+  amountMinor: number | null;
+  description: string;
+};
+
+const Side: React.FC<SideProps> = ({ title, subtitle, date, amountMinor, description }) => (
+  <div className="min-w-0 rounded-xl border border-gray-200 bg-white px-3 py-2">
+    <div className="text-[11px] font-semibold uppercase tracking-wide text-gray-500">{title}</div>
+    {subtitle ? <div className="truncate text-[11px] text-gray-500">{subtitle}</div> : null}
+    <dl className="mt-2 space-y-1 text-[12px]">
+      <div className="flex justify-between gap-3">
+        <dt className="text-gray-500">Date</dt>
+        <dd className="tabular-nums text-gray-900">{date || "-"}</dd>
+      </div>
+      <div className="flex justify-between gap-3">
+        <dt className="text-gray-500">Amount</dt>
+        <dd
+          className={`font-semibold tabular-nums ${
+            (amountMinor ?? 0) < 0 ? "text-amber-700" : "text-emerald-700"
+          }`}
+        >
+          {amountMinor === null ? "-" : formatCurrency(amountMinor / 100)}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Description</dt>
+        <dd className="break-words text-gray-900">{description || "—"}</dd>
+      </div>
+    </dl>
+  </div>
+);
+
+const DuplicateComparison: React.FC<Props> = ({ row, status, onSkip, onImport }) => {
+  const match = row.duplicate_of;
+  if (!match) return null;
+
+  const reasons = match.reasons.map((r) => REASON_LABELS[r] ?? r.replace(/_/g, " "));
+  const existingTitle = match.source === "settled_entry" ? "Settled entry" : "Earlier import";
+  const existingSubtitle =
+    match.source === "import_row" ? match.statement_filename || "Committed import session" : "Same bank account";
+
+  return (
+    <section className="rounded-2xl border border-rose-200 bg-rose-50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="flex items-center gap-2 text-[12px] font-semibold uppercase tracking-wide text-rose-800">
+            <CopyCheck size={14} />
+            {status === "duplicate"
+              ? "Likely duplicate"
+              : status === "excluded"
+              ? "Skipped as duplicate"
+              : "Kept although it looks like a duplicate"}
+          </h4>
+          <p className="mt-1 text-[12px] text-rose-700">
+            {Math.round(match.confidence * 100)}% match
+            {reasons.length ? `: ${reasons.join(", ")}` : ""}.
+            {status === "duplicate" ? " It is left out of Create entries until you decide." : ""}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {status !== "excluded" ? (
+            <Button variant="cancel" onClick={onSkip}>
+              Skip as duplicate
+            </Button>
+          ) : null}
+          {status === "duplicate" || status === "excluded" ? (
+            <Button variant="outline" onClick={onImport}>
+              Import anyway
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-2">
+        <Side
+          title="This statement"
+          subtitle={`Row ${row.line_index}`}
+          date={row.source_date}
+          amountMinor={row.source_amount_minor}
+          description={row.source_description}
+        />
+        <Side
+          title={existingTitle}
+          subtitle={existingSubtitle}
+          date={match.date}
+          amountMinor={match.amount_minor}
+          description={match.description}
+        />
+      </div>
+    </section>
+  );
+};
+
+export default DuplicateComparison;
@@ -0,0 +1,131 @@
+import React from "react";
+import { Link2, Link2Off, ShieldAlert } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+
+import { getSettlementBlock, type SettlementBlock } from "@/lib/approvals";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { toSignedMinor } from "@/lib/duplicates";
+import type { OpenEntryMatch, OpenEntrySignal } from "@/lib/reconciliation";
+import type { Entry } from "@/models/entries/entries";
+import type { StatementImportRow } from "@/models/settings/statements";
+
+type Props = {
+  row: StatementImportRow;
+  /** Signed minor units the row currently carries. */
+  amountMinor: number | null;
+  matches: OpenEntryMatch[];
+  entriesById: Map<string, Entry>;
+  busy: boolean;
+  onLink: (entryId: string) => void;
+  onUnlink: () => void;
+};
+
+const SIGNAL_LABELS: Record<OpenEntrySignal, string> = {
+  amount: "same amount",
+  date: "close to the due date",
+  entity: "same entity",
+  description: "similar description",
+};
+
+/** Same approval gate as the settlement modal: these entries can be matched but not settled. */
+const BLOCK_LABELS: Record<SettlementBlock, string> = {
+  pending: "Waiting on approval",
+  rejected: "Approval rejected",
+  self_approved: "You approved this entry; someone else must settle it",
+};
+
+function money(minor: number | null) {
+  return minor === null ? "-" : formatCurrency(minor / 100);
+}
+
+const OpenEntryMatches: React.FC<Props> = ({ row, amountMinor, matches, entriesById, busy, onLink, onUnlink }) => {
+  const link = row.linked_entry;
+
+  if (link) {
+    const remainder = amountMinor === null ? null : Math.abs(link.open_amount_minor) - Math.abs(amountMinor);
+
+    return (
+      <section className="rounded-2xl border border-sky-200 bg-sky-50 p-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h4 className="flex items-center gap-2 text-[12px] font-semibold uppercase tracking-wide text-sky-800">
+              <Link2 size={14} />
+              {link.partial ? "Partly settles an open entry" : "Settles an open entry"}
+            </h4>
+            <div className="mt-1 truncate text-[13px] font-medium text-gray-900">{link.description || "—"}</div>
+            <div className="mt-1 text-[12px] text-sky-800">
+              Due {link.due_date} • Open {money(link.open_amount_minor)}
+              {link.partial && remainder !== null && remainder > 0
+                ? ` • ${money(remainder)} stays open`
+                : ""}
+              {link.partial_index !== null ? ` • Partial settlement #${link.partial_index}` : ""}
+            </div>
+            <p className="mt-1 text-[12px] text-sky-700">
+              Create entries settles this entry on the statement&apos;s bank account instead of creating a new one.
+            </p>
+          </div>
+
+          {row.status !== "created" ? (
+            <Button variant="outline" onClick={onUnlink} disabled={busy}>
+              <Link2Off size={14} className="mr-1" />
+              Unlink
+            </Button>
+          ) : null}
+        </div>
+      </section>
+    );
+  }
+
+  if (!matches.length) return null;
+
+  return (
+    <section className="rounded-2xl border border-gray-200 bg-white p-4">
+      <h4 className="text-[12px] font-semibold uppercase tracking-wide text-gray-700">Open entries this may pay</h4>
+      <p className="mt-1 text-[12px] text-gray-600">
+        Settling an open entry keeps the forecast in step with the bank instead of booking the payment twice.
+      </p>
+
+      <ul className="mt-3 space-y-2">
+        {matches.map((match) => {
+          const entry = entriesById.get(match.id);
+          if (!entry) return null;
+          const openMinor = toSignedMinor(entry.open_amount ?? entry.amount, entry.tx_type);
+          const block = getSettlementBlock(entry);
+
+          return (
+            <li
+              key={match.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-gray-200 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <div className="truncate text-[13px] font-medium text-gray-900">{entry.description || "—"}</div>
+                <div className="mt-0.5 text-[12px] text-gray-600">
+                  Due {entry.due_date} • Open {money(openMinor)}
+                  {match.partial ? " • Partial payment" : ""}
+                </div>
+                <div className="mt-0.5 text-[11px] text-gray-500">
+                  {Math.round(match.score * 100)}% match
+                  {match.signals.length ? `: ${match.signals.map((s) => SIGNAL_LABELS[s]).join(", ")}` : ""}
+                </div>
+                {block ? (
+                  <div className="mt-0.5 flex items-center gap-1 text-[11px] text-amber-800">
+                    <ShieldAlert size={12} className="shrink-0" />
+                    {BLOCK_LABELS[block]}
+                  </div>
+                ) : null}
+              </div>
+
+              <Button variant="outline" onClick={() => onLink(match.id)} disabled={busy || !!block}>
+                <Link2 size={14} className="mr-1" />
+                Settle this entry
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default OpenEntryMatches;
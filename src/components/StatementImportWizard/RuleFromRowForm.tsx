@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from "react";
+
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import Input from "@/shared/ui/Input";
+
+import { isValidRulePattern, patternFromDescription, ruleMatches } from "@/lib/categorizationRules";
+import type { AddCategorizationRuleRequest, CategorizationRule } from "@/models/settings/categorizationRules";
+import type { StatementImportLookups, StatementImportRow } from "@/models/settings/statements";
+
+/** The corrected values the rule will set; mirrors the wizard's row draft. */
+export type RuleFromRowValues = {
+  tx_type: string;
+  ledger_account_id: string;
+  entity_id: string;
+  project_id: string;
+  document_type: string;
+};
+
+type Props = {
+  row: StatementImportRow;
+  values: RuleFromRowValues;
+  rows: StatementImportRow[];
+  bankAccountId: string | null;
+  lookups: StatementImportLookups | null;
+  busy: boolean;
+  onSubmit: (payload: AddCategorizationRuleRequest) => void;
+  onCancel: () => void;
+};
+
+function lookupLabel(options: { id: string; label: string }[] | undefined, id: string) {
+  return options?.find((o) => o.id === id)?.label || id;
+}
+
+const RuleFromRowForm: React.FC<Props> = ({ row, values, rows, bankAccountId, lookups, busy, onSubmit, onCancel }) => {
+  const [name, setName] = useState(row.source_description.trim().slice(0, 80));
+  const [pattern, setPattern] = useState(() => patternFromDescription(row.source_description));
+  const [sameTxType, setSameTxType] = useState(!!values.tx_type);
+  const [sameBank, setSameBank] = useState(!!bankAccountId);
+
+  const departments = useMemo(() => row.resolved_departments ?? [], [row.resolved_departments]);
+
+  const payload = useMemo<AddCategorizationRuleRequest>(
+    () => ({
+      name: name.trim(),
+      is_active: true,
+      description_pattern: pattern.trim(),
+      amount_min: null,
+      amount_max: null,
+      tx_type: sameTxType && values.tx_type ? (values.tx_type === "1" ? "credit" : "debit") : "any",
+      bank_account_ids: sameBank && bankAccountId ? [bankAccountId] : [],
+      ledger_account_id: values.ledger_account_id || null,
+      entity_id: values.entity_id || null,
+      project_id: values.project_id || null,
+      departments,
+      document_type: values.document_type || null,
+    }),
+    [bankAccountId, departments, name, pattern, sameBank, sameTxType, values]
+  );
+
+  const patternValid = isValidRulePattern(pattern);
+
+  // How many rows of this statement the rule would fill, as a sanity check on the pattern
+  const matchCount = useMemo(() => {
+    if (!patternValid) return 0;
+    const rule: CategorizationRule = { ...payload, id: "", priority: 0 };
+    return rows.filter((r) =>
+      ruleMatches(rule, {
+        description: r.source_description,
+        amountMinor: r.source_amount_minor,
+        txType: r.source_tx_type,
+        bankAccountId,
+      })
+    ).length;
+  }, [bankAccountId, patternValid, payload, rows]);
+
+  const actions = [
+    values.ledger_account_id && `category ${lookupLabel(lookups?.ledger_accounts, values.ledger_account_id)}`,
+    values.entity_id && `entity ${lookupLabel(lookups?.entities, values.entity_id)}`,
+    values.project_id && `project ${lookupLabel(lookups?.projects, values.project_id)}`,
+    departments.length &&
+      `departments ${departments
+        .map((d) => `${lookupLabel(lookups?.departments, d.department_id)} ${Number(d.percent)}%`)
+        .join(", ")}`,
+    values.document_type && `document ${lookupLabel(lookups?.document_types, values.document_type)}`,
+  ].filter(Boolean) as string[];
+
+  const canSubmit = !!payload.name && !!payload.description_pattern && patternValid && actions.length > 0 && !busy;
+
+  return (
+    <div className="mt-3 space-y-3 rounded-xl border border-sky-200 bg-sky-50/50 p-3">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input kind="text" label="Rule name" value={name} onChange={(e) => setName(e.target.value)} disabled={busy} />
+        <div className="md:col-span-2">
+          <Input
+            kind="text"
+            label="Description matches (regular expression)"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            disabled={busy}
+          />
+          <div className={`mt-1 text-[11px] ${patternValid ? "text-gray-600" : "text-red-600"}`}>
+            {patternValid
+              ? `Matches ${matchCount} row(s) in this statement.`
+              : "This is not a valid regular expression."}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-[12px] text-gray-700">
+        {values.tx_type ? (
+          <label className="flex items-center gap-2">
+            <Checkbox size="sm" checked={sameTxType} onChange={() => setSameTxType((v) => !v)} disabled={busy} />
+            Only {values.tx_type === "1" ? "credits" : "debits"}
+          </label>
+        ) : null}
+        {bankAccountId ? (
+          <label className="flex items-center gap-2">
+            <Checkbox size="sm" checked={sameBank} onChange={() => setSameBank((v) => !v)} disabled={busy} />
+            Only this bank account
+          </label>
+        ) : null}
+      </div>
+
+      <div className="text-[12px] text-gray-700">
+        {actions.length ? (
+          <>
+            <span className="font-semibold">Sets:</span> {actions.join(" • ")}
+          </>
+        ) : (
+          <span className="text-amber-700">Pick a category, entity, project or document type first.</span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Button type="button" variant="cancel" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={() => onSubmit(payload)} disabled={!canSubmit}>
+          Create rule
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RuleFromRowForm;
@@ -29,12 +29,53 @@ import type {
   RowCandidate,
 } from "@/models/settings/statements";
 
+import {
+  duplicateSearchRange,
+  fetchDuplicatePool,
+  findDuplicates,
+  toSignedMinor,
+  type DuplicateCandidate,
+  type DuplicatePool,
+} from "@/lib/duplicates";
+import type { DuplicateHit } from "@/hooks/useDuplicateCheck";
+import { DuplicateNotice } from "@/components/Duplicates";
+import {
+  fetchOpenEntryPool,
+  suggestOpenEntries,
+  type OpenEntryMatch,
+  type OpenEntryPool,
+} from "@/lib/reconciliation";
+import { getSettlementBlock } from "@/lib/approvals";
+import { cleanCustomFieldValues, parseTags } from "@/lib/customFields";
+import {
+  findCsvProfile,
+  guessCsvMapping,
+  headerFingerprint,
+  mappingFromProfile,
+  readStatementText,
+  readStructuredStatement,
+  toStructuredStatement,
+  type CsvMapping,
+  type ParsedStatement,
+} from "@/lib/statementParsers";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldInput } from "@/components/CustomFields";
+import type { CustomFieldValues } from "@/models/settings/customFields";
+import type { AddCategorizationRuleRequest } from "@/models/settings/categorizationRules";
+import type { CsvMappingProfile } from "@/models/settings/csvMappingProfiles";
+
 import Button from "@/shared/ui/Button";
 import Input from "@/shared/ui/Input";
 import Snackbar from "@/shared/ui/Snackbar";
 import TopProgress from "@/shared/ui/Loaders/TopProgress";
 import { Select } from "src/shared/ui/Select";
 
+import CsvMappingStep, { type CsvProfileChoice } from "./CsvMappingStep";
+import DuplicateComparison from "./DuplicateComparison";
+import OpenEntryMatches from "./OpenEntryMatches";
+import RuleFromRowForm from "./RuleFromRowForm";
+import StructuredStatementPreview from "./StructuredStatementPreview";
+
 type BankOption = { label: string; value: string };
 type SelectItem = { label: string; value: string };
 type EntityOption = SelectItem & { entity_type?: string };
@@ -54,9 +95,18 @@ type Props = {
 };
 
 type Snack =
-  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | {
+      message: React.ReactNode;
+      severity: "success" | "error" | "warning" | "info";
+      action?: { label: string; onClick: () => void };
+    }
   | null;
 
+type StructuredPreview = { file: File; statement: ParsedStatement };
+
+/** `profile` is only set for a profile of the selected bank account, which can then be updated. */
+type CsvMappingDraft = { file: File; text: string; mapping: CsvMapping; profile: CsvMappingProfile | null };
+
 type RowDraft = {
   due_date: string;
   amount: string;
@@ -72,6 +122,9 @@ type RowDraft = {
   interval_months: string;
   weekend_action: string;
   status: string;
+  /** Comma-separated while editing; split on save. */
+  tags: string;
+  custom_fields: CustomFieldValues;
 };
 
 type InfoHintProps = {
@@ -115,6 +168,7 @@ const rowStatusOptions: SelectItem[] = [
   { label: "Pending", value: "pending" },
   { label: "Ready", value: "ready" },
   { label: "Excluded", value: "excluded" },
+  { label: "Likely duplicate", value: "duplicate" },
 ];
 
 const txTypeOptions: SelectItem[] = [
@@ -187,6 +241,11 @@ function normalizeText(value?: string | null) {
   return (value || "").trim();
 }
 
+/** Excluded rows and unconfirmed duplicates stay out of the commit. */
+function isLeftOut(status: string) {
+  return status === "excluded" || status === "duplicate";
+}
+
 function sortRows(rows: StatementImportRow[]) {
   return [...rows].sort((a, b) => a.line_index - b.line_index);
 }
@@ -216,6 +275,8 @@ function normalizeRow(row: StatementImportRow): StatementImportRow {
       row.resolved_interval_months ?? row.interval_months ?? 1,
     resolved_weekend_action:
       row.resolved_weekend_action ?? row.weekend_action ?? 0,
+    resolved_tags: row.resolved_tags ?? [],
+    resolved_custom_fields: row.resolved_custom_fields ?? {},
     candidate_payload:
       row.candidate_payload ?? { row_candidates: [], field_suggestions: {} },
   };
@@ -254,6 +315,8 @@ function createDraftFromRow(row: StatementImportRow): RowDraft {
     interval_months: String(row.resolved_interval_months ?? 1),
     weekend_action: String(row.resolved_weekend_action ?? 0),
     status: row.status || "pending",
+    tags: (row.resolved_tags || []).join(", "),
+    custom_fields: row.resolved_custom_fields || {},
   };
 }
 
@@ -276,6 +339,8 @@ function buildPatchPayloadFromDraft(draft: RowDraft): Record<string, unknown> {
     interval_months: Number(draft.interval_months || 1),
     weekend_action: Number(draft.weekend_action || 0),
     status: draft.status || "pending",
+    tags: parseTags(draft.tags),
+    custom_fields: cleanCustomFieldValues(draft.custom_fields),
   };
 }
 
@@ -302,6 +367,21 @@ function getEffectiveDraft(
   return draftsByRowId[row.id] || createDraftFromRow(row);
 }
 
+/**
+ * Rows the duplicate check may flag: still pending, not settling an open
+ * entry, and not already kept by the user after an earlier warning.
+ */
+function getDuplicateCheckRowIds(rows: StatementImportRow[], draftsByRowId: Record<string, RowDraft>) {
+  return rows
+    .filter(
+      (row) =>
+        (getEffectiveDraft(row, draftsByRowId).status || row.status) === "pending" &&
+        !row.duplicate_of &&
+        !row.linked_entry
+    )
+    .map((row) => row.id);
+}
+
 function getRowMandatoryMissingLabel(draft?: RowDraft | null) {
   const missingAmount = !isDraftAmountValid(draft);
   const missingLedger = !isDraftLedgerValid(draft);
@@ -312,6 +392,32 @@ function getRowMandatoryMissingLabel(draft?: RowDraft | null) {
   return "";
 }
 
+function draftToDuplicateCandidate(row: StatementImportRow, draft: RowDraft): DuplicateCandidate | null {
+  const dueDate = draft.due_date || row.resolved_due_date || "";
+  if (!dueDate || !isDraftAmountValid(draft) || !draft.tx_type) return null;
+
+  return {
+    id: row.id,
+    dueDate,
+    amountMinor: toSignedMinor(draft.amount, Number(draft.tx_type)),
+    currency: null,
+    entityId: draft.entity_id || null,
+    description: draft.description || row.source_description || "",
+  };
+}
+
+function draftToBankLine(row: StatementImportRow, draft: RowDraft) {
+  const date = draft.due_date || row.source_date || "";
+  if (!date || !isDraftAmountValid(draft) || !draft.tx_type) return null;
+
+  return {
+    date,
+    amountMinor: toSignedMinor(draft.amount, Number(draft.tx_type)),
+    entityId: draft.entity_id || null,
+    description: draft.description || row.source_description || "",
+  };
+}
+
 function hasDraggedFiles(event: React.DragEvent<HTMLElement>) {
   return Array.from(event.dataTransfer?.types || []).includes("Files");
 }
@@ -334,6 +440,8 @@ const StatementImportWizard: React.FC<Props> = ({
   const [savingField, setSavingField] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
 
+  const { fields: customFields } = useCustomFields();
+
   const [, setStatementItem] = useState<Statement | null>(statement || null);
   const [statementId, setStatementId] = useState<string | null>(
     statement?.id ?? initialStatementId ?? null
@@ -353,6 +461,10 @@ const StatementImportWizard: React.FC<Props> = ({
   );
   const [draftsByRowId, setDraftsByRowId] = useState<Record<string, RowDraft>>({});
   const [mobileEditorOpen, setMobileEditorOpen] = useState(false);
+  const [ruleFormRowId, setRuleFormRowId] = useState<string | null>(null);
+  const [structuredPreview, setStructuredPreview] = useState<StructuredPreview | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvMappingDraft | null>(null);
+  const [openEntryPool, setOpenEntryPool] = useState<OpenEntryPool | null>(null);
 
   const hasActiveReview = !!session || !!statement?.import_session_id || !!statementId;
 
@@ -402,6 +514,7 @@ const StatementImportWizard: React.FC<Props> = ({
           ready_rows: merged.filter((r) => r.status === "ready").length,
           pending_rows: merged.filter((r) => r.status === "pending").length,
           excluded_rows: merged.filter((r) => r.status === "excluded").length,
+          duplicate_rows: merged.filter((r) => r.status === "duplicate").length,
           created_rows: merged.filter((r) => r.status === "created").length,
         },
       };
@@ -448,14 +561,50 @@ const StatementImportWizard: React.FC<Props> = ({
 
       if (!selectedRowId && hydratedSession.rows.length > 0) {
         setSelectedRowId(
-          hydratedSession.rows.find((row) => row.status !== "excluded")?.id ||
+          hydratedSession.rows.find((row) => !isLeftOut(row.status))?.id ||
             hydratedSession.rows[0].id
         );
       }
+
+      return hydratedSession;
     },
     [selectedRowId]
   );
 
+  /** Flags pending rows already booked on this account as duplicates, which keeps them out of the commit. */
+  const runDuplicateCheck = useCallback(
+    async (sessionId: string, rows: StatementImportRow[], drafts: Record<string, RowDraft>) => {
+      const rowIds = getDuplicateCheckRowIds(rows, drafts);
+      if (!rowIds.length) return 0;
+
+      const result = await api.checkStatementImportDuplicates(sessionId, { row_ids: rowIds });
+      replaceRows(result.rows);
+      return result.marked;
+    },
+    [replaceRows]
+  );
+
+  /** Runs once a new session has its rows so duplicates are set aside before anyone reviews them. */
+  const checkNewSession = useCallback(
+    async (loaded: StatementImportSession) => {
+      try {
+        const marked = await runDuplicateCheck(loaded.id, loaded.rows, {});
+        if (marked) {
+          setSnack({
+            message: `${marked} row(s) look like entries already booked on this account. They are left out until you review them.`,
+            severity: "warning",
+          });
+        }
+      } catch (err) {
+        setSnack({
+          message: getErrorMessage(err, "Could not check for duplicates. Use Check duplicates to try again."),
+          severity: "warning",
+        });
+      }
+    },
+    [runDuplicateCheck]
+  );
+
   const pollAnalysis = useCallback(async (currentStatementId: string) => {
     setPolling(true);
     try {
@@ -493,17 +642,8 @@ const StatementImportWizard: React.FC<Props> = ({
     }
   }, []);
 
-  const handleUpload = useCallback(
+  const uploadForAnalysis = useCallback(
     async (file: File) => {
-      if (!file) return;
-      if (!selectedBankId) {
-        setSnack({
-          message: "Select a bank account before uploading.",
-          severity: "warning",
-        });
-        return;
-      }
-
       setUploadBusy(true);
       try {
         const form = new FormData();
@@ -524,7 +664,8 @@ const StatementImportWizard: React.FC<Props> = ({
           force_rebuild: true,
         })) as PrepareStatementImportResponse;
 
-        await loadSession(prepared.session_id);
+        const loaded = await loadSession(prepared.session_id);
+        await checkNewSession(loaded);
       } catch (err) {
         setSnack({
           message: getErrorMessage(err, "Could not upload statement."),
@@ -534,9 +675,132 @@ const StatementImportWizard: React.FC<Props> = ({
         setUploadBusy(false);
       }
     },
-    [selectedBankId, onStatementCreated, pollAnalysis, loadSession]
+    [selectedBankId, onStatementCreated, pollAnalysis, loadSession, checkNewSession]
   );
 
+  const openCsvMapping = useCallback(
+    async (file: File) => {
+      const text = await readStatementText(file);
+
+      let profiles: CsvMappingProfile[] = [];
+      try {
+        const { data } = await api.getCsvMappingProfiles();
+        profiles = data ?? [];
+      } catch {
+        // Mapping by hand still works without saved profiles
+      }
+
+      // A profile saved for another account with the same layout is a good start too
+      const profile = findCsvProfile(profiles, text, selectedBankId);
+      setCsvMapping({
+        file,
+        text,
+        mapping: profile ? mappingFromProfile(profile) : guessCsvMapping(text),
+        profile: profile?.bank_account_id === selectedBankId ? profile : null,
+      });
+    },
+    [selectedBankId]
+  );
+
+  const handleUpload = useCallback(
+    async (file: File) => {
+      if (!file) return;
+      if (!selectedBankId) {
+        setSnack({
+          message: "Select a bank account before uploading.",
+          severity: "warning",
+        });
+        return;
+      }
+
+      if (file.name.toLowerCase().endsWith(".csv")) {
+        await openCsvMapping(file);
+        return;
+      }
+
+      // Structured bank files are read here and previewed before anything is uploaded
+      let statement: ParsedStatement | null = null;
+      try {
+        statement = await readStructuredStatement(file);
+      } catch (err) {
+        setSnack({
+          message: `Could not read ${file.name}: ${err instanceof Error ? err.message : "unknown format."}`,
+          severity: "error",
+          action: { label: "Analyze with AI", onClick: () => void uploadForAnalysis(file) },
+        });
+        return;
+      }
+
+      if (statement) setStructuredPreview({ file, statement });
+      else await uploadForAnalysis(file);
+    },
+    [openCsvMapping, selectedBankId, uploadForAnalysis]
+  );
+
+  const handleCsvContinue = useCallback(
+    async (mapping: CsvMapping, parsed: ParsedStatement, save: CsvProfileChoice) => {
+      if (!csvMapping) return;
+
+      if (save) {
+        setUploadBusy(true);
+        const payload = {
+          ...mapping,
+          bank_account_id: selectedBankId,
+          name: save.name,
+          header_fingerprint: headerFingerprint(csvMapping.text, mapping),
+        };
+        try {
+          if (csvMapping.profile) await api.editCsvMappingProfile(csvMapping.profile.id, payload);
+          else await api.addCsvMappingProfile(payload);
+        } catch (err) {
+          setSnack({
+            message: getErrorMessage(err, "Could not save the CSV profile. The import can still continue."),
+            severity: "warning",
+          });
+        } finally {
+          setUploadBusy(false);
+        }
+      }
+
+      setCsvMapping(null);
+      setStructuredPreview({ file: csvMapping.file, statement: parsed });
+    },
+    [csvMapping, selectedBankId]
+  );
+
+  const handleImportStructured = useCallback(async () => {
+    if (!structuredPreview || !selectedBankId) return;
+
+    setUploadBusy(true);
+    try {
+      const form = new FormData();
+      form.append("file", structuredPreview.file);
+      form.append("bank_account_id", selectedBankId);
+
+      const created = (await api.uploadStatement(form)) as Statement;
+      setStatementItem(created);
+      setStatementId(created.id);
+      onStatementCreated?.(created);
+
+      const prepared = (await api.prepareStatementImport(created.id, {
+        bank_account_id: selectedBankId,
+        force_rebuild: true,
+        structured: toStructuredStatement(structuredPreview.statement),
+      })) as PrepareStatementImportResponse;
+
+      setStructuredPreview(null);
+      const loaded = await loadSession(prepared.session_id);
+      await checkNewSession(loaded);
+    } catch (err) {
+      setSnack({
+        message: getErrorMessage(err, "Could not import statement."),
+        severity: "error",
+      });
+    } finally {
+      setUploadBusy(false);
+    }
+  }, [checkNewSession, loadSession, onStatementCreated, selectedBankId, structuredPreview]);
+
   const getFamilyRows = useCallback(
     (referenceRow: StatementImportRow) => {
       if (!session) return [];
@@ -583,6 +847,8 @@ const StatementImportWizard: React.FC<Props> = ({
             interval_months: nextDraft.interval_months,
             weekend_action: nextDraft.weekend_action,
             status: nextDraft.status,
+            tags: nextDraft.tags,
+            custom_fields: nextDraft.custom_fields,
           };
         }
         return next;
@@ -639,6 +905,8 @@ const StatementImportWizard: React.FC<Props> = ({
           interval_months: draft.interval_months,
           weekend_action: draft.weekend_action,
           status: draft.status,
+          tags: draft.tags,
+          custom_fields: draft.custom_fields,
         };
         return !areDraftsEqual(comparableDraft, currentDraft);
       });
@@ -757,7 +1025,9 @@ const StatementImportWizard: React.FC<Props> = ({
       const draft = getEffectiveDraft(row, draftsByRowId);
       const localStatus = draft.status || row.status;
 
-      if (localStatus === "excluded") return false;
+      if (isLeftOut(localStatus)) return false;
+      // Linked rows settle an entry that already has its ledger account
+      if (row.linked_entry) return !isDraftAmountValid(draft);
 
       return !isDraftAmountValid(draft) || !isDraftLedgerValid(draft);
     });
@@ -769,13 +1039,20 @@ const StatementImportWizard: React.FC<Props> = ({
 
     const includedRows = session.rows.filter((row) => {
       const draft = getEffectiveDraft(row, draftsByRowId);
-      return (draft.status || row.status) !== "excluded";
+      return !isLeftOut(draft.status || row.status);
     });
 
     if (!includedRows.length) return false;
     return invalidRowsForCreation.length === 0;
   }, [busy, draftsByRowId, invalidRowsForCreation.length, polling, session, uploadBusy]);
 
+  const unconfirmedDuplicates = useMemo(() => {
+    if (!session) return 0;
+    return session.rows.filter(
+      (row) => (getEffectiveDraft(row, draftsByRowId).status || row.status) === "duplicate"
+    ).length;
+  }, [draftsByRowId, session]);
+
   const createEntriesHint = useMemo(() => {
     if (!session) {
       return "Upload a statement and review the rows first.";
@@ -786,8 +1063,11 @@ const StatementImportWizard: React.FC<Props> = ({
     if (!canCreateEntries) {
       return "All non-excluded rows must have amount and ledger account before creating entries.";
     }
+    if (unconfirmedDuplicates > 0) {
+      return `Saves all local edits first, then creates the final cashflow entries. ${unconfirmedDuplicates} likely duplicate(s) will be skipped.`;
+    }
     return "Saves all local edits first, then creates the final cashflow entries.";
-  }, [canCreateEntries, session]);
+  }, [canCreateEntries, session, unconfirmedDuplicates]);
 
   const handleCommit = useCallback(async () => {
     if (!session) return;
@@ -830,7 +1110,11 @@ const StatementImportWizard: React.FC<Props> = ({
       setSnack({
         message: `${result.created_count} cashflow entr${
           result.created_count === 1 ? "y" : "ies"
-        } created.`,
+        } created.${
+          result.settled_count ? ` ${result.settled_count} open entr${result.settled_count === 1 ? "y" : "ies"} settled.` : ""
+        }${
+          result.skipped_duplicates ? ` ${result.skipped_duplicates} likely duplicate(s) skipped.` : ""
+        }`,
         severity: "success",
       });
 
@@ -859,23 +1143,29 @@ const StatementImportWizard: React.FC<Props> = ({
     statementId,
   ]);
 
+  const persistChangedDrafts = useCallback(async () => {
+    if (!session) return;
+
+    const pendingRows = session.rows.filter((row) => {
+      const draft = draftsByRowId[row.id];
+      if (!draft) return false;
+      return !areDraftsEqual(draft, createDraftFromRow(row));
+    });
+
+    for (const row of pendingRows) {
+      const draft = draftsByRowId[row.id];
+      if (draft) {
+        await persistRowDraft(row, draft);
+      }
+    }
+  }, [draftsByRowId, persistRowDraft, session]);
+
   const handleAcceptConfident = useCallback(async () => {
     if (!session) return;
 
     setBusy(true);
     try {
-      const pendingRows = session.rows.filter((row) => {
-        const draft = draftsByRowId[row.id];
-        if (!draft) return false;
-        return !areDraftsEqual(draft, createDraftFromRow(row));
-      });
-
-      for (const row of pendingRows) {
-        const draft = draftsByRowId[row.id];
-        if (draft) {
-          await persistRowDraft(row, draft);
-        }
-      }
+      await persistChangedDrafts();
 
       const result = (await api.acceptConfidentStatementImportRows(
         session.id
@@ -895,7 +1185,118 @@ const StatementImportWizard: React.FC<Props> = ({
     } finally {
       setBusy(false);
     }
-  }, [draftsByRowId, loadSession, persistRowDraft, session]);
+  }, [loadSession, persistChangedDrafts, session]);
+
+  const handleApplyRules = useCallback(async () => {
+    if (!session) return;
+
+    setBusy(true);
+    try {
+      await persistChangedDrafts();
+
+      const result = await api.applyStatementImportRules(session.id);
+      replaceRows(result.rows);
+
+      setSnack({
+        message: `${result.matched} row(s) matched a rule.`,
+        severity: "success",
+      });
+    } catch (err) {
+      setSnack({
+        message: getErrorMessage(err, "Could not apply categorization rules."),
+        severity: "error",
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, [persistChangedDrafts, replaceRows, session]);
+
+  const handleCheckDuplicates = useCallback(async () => {
+    if (!session) return;
+
+    setBusy(true);
+    try {
+      await persistChangedDrafts();
+
+      const marked = await runDuplicateCheck(session.id, session.rows, draftsByRowId);
+
+      setSnack({
+        message: marked
+          ? `${marked} row(s) look like entries already booked on this account.`
+          : "No new duplicates found.",
+        severity: marked ? "warning" : "success",
+      });
+    } catch (err) {
+      setSnack({
+        message: getErrorMessage(err, "Could not check for duplicates."),
+        severity: "error",
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, [draftsByRowId, persistChangedDrafts, runDuplicateCheck, session]);
+
+  /** Saves the row's draft together with the link so local edits are not lost on reload. */
+  const handleLinkEntry = useCallback(
+    async (row: StatementImportRow, entryId: string | null) => {
+      if (!session) return;
+
+      const entry = entryId ? openEntryPool?.byId.get(entryId) : undefined;
+      if (entry && getSettlementBlock(entry)) {
+        setSnack({ message: "This entry needs approval before it can be settled.", severity: "warning" });
+        return;
+      }
+
+      const draft = getEffectiveDraft(row, draftsByRowId);
+      setBusy(true);
+      try {
+        const nextRow = await api.updateStatementImportRow(session.id, row.id, {
+          ...buildPatchPayloadFromDraft(draft),
+          linked_entry_id: entryId,
+          status: entryId ? "ready" : row.linked_entry?.previous_status || "pending",
+        });
+        replaceRows([nextRow]);
+      } catch (err) {
+        setSnack({
+          message: getErrorMessage(err, entryId ? "Could not link the open entry." : "Could not unlink the entry."),
+          severity: "error",
+        });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [draftsByRowId, openEntryPool, replaceRows, session]
+  );
+
+  const handleCreateRule = useCallback(
+    async (payload: AddCategorizationRuleRequest) => {
+      if (!session) return;
+
+      setBusy(true);
+      try {
+        await persistChangedDrafts();
+        await api.addCategorizationRule(payload);
+        setRuleFormRowId(null);
+
+        // Rows already reviewed keep their values; the backend only fills pending ones
+        const result = await api.applyStatementImportRules(session.id);
+        replaceRows(result.rows);
+
+        setSnack({
+          message: `Rule "${payload.name}" created. ${result.matched} row(s) matched it.`,
+          severity: "success",
+        });
+      } catch (err) {
+        setSnack({
+          message: getErrorMessage(err, "Could not create the rule."),
+          severity: "error",
+        });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [persistChangedDrafts, replaceRows, session]
+  );
 
   const resetDragState = useCallback(() => {
     dragDepthRef.current = 0;
@@ -1010,6 +1411,108 @@ const StatementImportWizard: React.FC<Props> = ({
     [selectedRow]
   );
 
+  const [duplicatePool, setDuplicatePool] = useState<DuplicatePool | null>(null);
+
+  // Joined into a string so row edits inside the same date span do not refetch
+  const duplicateRange = useMemo(() => {
+    const dates = (session?.rows || [])
+      .map((row) => row.resolved_due_date || "")
+      .filter(Boolean)
+      .sort();
+    return dates.length ? `${dates[0]}|${dates[dates.length - 1]}` : "";
+  }, [session?.rows]);
+
+  useEffect(() => {
+    if (!duplicateRange) {
+      setDuplicatePool(null);
+      return;
+    }
+
+    let alive = true;
+    const [from, to] = duplicateRange.split("|");
+
+    (async () => {
+      try {
+        const pool = await fetchDuplicatePool(duplicateSearchRange(from, to));
+        if (alive) setDuplicatePool(pool);
+      } catch (err) {
+        console.error("Failed to load entries for the duplicate check:", err);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [duplicateRange]);
+
+  useEffect(() => {
+    if (!duplicateRange) {
+      setOpenEntryPool(null);
+      return;
+    }
+
+    let alive = true;
+    const [from, to] = duplicateRange.split("|");
+
+    (async () => {
+      try {
+        const pool = await fetchOpenEntryPool(duplicateSearchRange(from, to, 15));
+        if (alive) setOpenEntryPool(pool);
+      } catch (err) {
+        if (alive) {
+          setSnack({
+            message: getErrorMessage(err, "Could not load open entries to match against."),
+            severity: "warning",
+          });
+        }
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [duplicateRange]);
+
+  /** Open entries each unlinked row may pay; entries already linked elsewhere are left out. */
+  const openEntryMatchesByRowId = useMemo(() => {
+    const out = new Map<string, OpenEntryMatch[]>();
+    if (!session || !openEntryPool) return out;
+
+    const linked = new Set(session.rows.flatMap((row) => (row.linked_entry ? [row.linked_entry.entry_id] : [])));
+    const pool = openEntryPool.candidates.filter((c) => !linked.has(c.id));
+
+    for (const row of session.rows) {
+      if (row.linked_entry || row.status === "created" || isLeftOut(row.status)) continue;
+      const line = draftToBankLine(row, getEffectiveDraft(row, draftsByRowId));
+      if (!line) continue;
+
+      const matches = suggestOpenEntries(line, pool);
+      if (matches.length) out.set(row.id, matches);
+    }
+    return out;
+  }, [draftsByRowId, openEntryPool, session]);
+
+  /** Same scoring as the entry form, run on each row's current draft. */
+  const duplicatesByRowId = useMemo(() => {
+    const out = new Map<string, DuplicateHit[]>();
+    if (!session || !duplicatePool) return out;
+
+    for (const row of session.rows) {
+      if (row.status === "created" || isLeftOut(row.status) || row.linked_entry) continue;
+      const candidate = draftToDuplicateCandidate(row, getEffectiveDraft(row, draftsByRowId));
+      if (!candidate) continue;
+
+      // An open entry with the same amount is more likely paid than booked twice
+      const openMatchIds = new Set((openEntryMatchesByRowId.get(row.id) || []).map((m) => m.id));
+      const hits = findDuplicates(candidate, duplicatePool.candidates).flatMap((m) => {
+        const entry = duplicatePool.byId.get(m.id);
+        return entry && !openMatchIds.has(m.id) ? [{ ...m, entry }] : [];
+      });
+      if (hits.length) out.set(row.id, hits);
+    }
+    return out;
+  }, [draftsByRowId, duplicatePool, openEntryMatchesByRowId, session]);
+
   const visibleCandidateCards = useMemo(() => {
     if (!selectedRow) return [];
     const dismissed = new Set(dismissedCandidatesByRow[selectedRow.id] || []);
@@ -1076,6 +1579,12 @@ const StatementImportWizard: React.FC<Props> = ({
                 : ""}
             </p>
           ) : null}
+
+          {selectedRow?.matched_rule ? (
+            <p className="mt-1 text-[12px] font-medium text-sky-700">
+              Matched rule {selectedRow.matched_rule.name}
+            </p>
+          ) : null}
         </div>
 
         <div className="md:hidden">
@@ -1104,6 +1613,36 @@ const StatementImportWizard: React.FC<Props> = ({
         topOffset={0}
       />
 
+      {csvMapping && !hasActiveReview ? (
+        <CsvMappingStep
+          fileName={csvMapping.file.name}
+          text={csvMapping.text}
+          initialMapping={csvMapping.mapping}
+          profile={csvMapping.profile}
+          defaultProfileName={`${
+            bankOptions.find((o) => o.value === selectedBankId)?.label ?? "Bank"
+          } CSV`}
+          busy={uploadBusy}
+          onContinue={(mapping, parsed, save) => void handleCsvContinue(mapping, parsed, save)}
+          onAnalyze={() => {
+            const { file } = csvMapping;
+            setCsvMapping(null);
+            void uploadForAnalysis(file);
+          }}
+          onCancel={() => setCsvMapping(null)}
+        />
+      ) : null}
+
+      {structuredPreview && !hasActiveReview ? (
+        <StructuredStatementPreview
+          fileName={structuredPreview.file.name}
+          statement={structuredPreview.statement}
+          busy={uploadBusy}
+          onImport={() => void handleImportStructured()}
+          onCancel={() => setStructuredPreview(null)}
+        />
+      ) : null}
+
       {dragActive && !hasActiveReview ? (
         <div className="pointer-events-none absolute inset-0 z-40">
           <div className="absolute inset-0 bg-emerald-500/10 backdrop-blur-[1px]" />
@@ -1117,7 +1656,7 @@ const StatementImportWizard: React.FC<Props> = ({
                 Drop statement to upload
               </div>
               <div className="mt-2 text-[13px] text-gray-600">
-                PDF, image, CSV, OFX or XML
+                PDF, image, CSV, OFX, CAMT, MT940 or CNAB
               </div>
             </div>
           </div>
@@ -1163,7 +1702,7 @@ const StatementImportWizard: React.FC<Props> = ({
                     Upload or drag a statement here
                   </div>
                   <div className="mt-1 text-[12px] text-gray-600">
-                    PDF, PNG, JPG, WEBP, CSV, OFX or XML
+                    PDF, PNG, JPG, WEBP, CSV, OFX, CAMT.053, MT940 or CNAB 240
                   </div>
                 </div>
 
@@ -1202,7 +1741,7 @@ const StatementImportWizard: React.FC<Props> = ({
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf,.png,.jpg,.jpeg,.webp,.csv,.ofx,.xml"
+                  accept=".pdf,.png,.jpg,.jpeg,.webp,.csv,.ofx,.qfx,.xml,.sta,.mt940,.940,.txt,.ret,.cnab"
                   className="hidden"
                   onChange={(e) => {
                     const file = e.target.files?.[0];
@@ -1262,6 +1801,28 @@ const StatementImportWizard: React.FC<Props> = ({
                   <InfoHint text="Saves local edits first, then automatically marks highly confident rows as ready." />
                 </div>
 
+                <div className="inline-flex items-center">
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyRules}
+                    disabled={!session || busy || uploadBusy || polling}
+                  >
+                    Apply rules
+                  </Button>
+                  <InfoHint text="Saves local edits first, then fills pending rows from your categorization rules." />
+                </div>
+
+                <div className="inline-flex items-center">
+                  <Button
+                    variant="outline"
+                    onClick={handleCheckDuplicates}
+                    disabled={!session || busy || uploadBusy || polling}
+                  >
+                    Check duplicates
+                  </Button>
+                  <InfoHint text="New statements are checked when they load. Saves local edits first, then compares pending rows again with settled entries on this bank account and with earlier imports. Likely duplicates are left out until you confirm them." />
+                </div>
+
                 <div className="inline-flex items-center">
                   <Button
                     variant="primary"
@@ -1295,6 +1856,17 @@ const StatementImportWizard: React.FC<Props> = ({
                     </div>
                     <div>Pending</div>
                   </div>
+
+                  {session.summary?.duplicate_rows ? (
+                    <button
+                      type="button"
+                      onClick={() => setStatusFilter("duplicate")}
+                      className="col-span-2 rounded-xl bg-rose-50 px-3 py-2 text-left text-rose-700 hover:bg-rose-100"
+                    >
+                      <div className="font-semibold">{session.summary.duplicate_rows}</div>
+                      <div>Likely duplicates to review</div>
+                    </button>
+                  ) : null}
                 </div>
               ) : null}
             </section>
@@ -1317,7 +1889,7 @@ const StatementImportWizard: React.FC<Props> = ({
                       effectiveDraft.description || row.resolved_description || row.source_description;
                     const localStatus = effectiveDraft.status || row.status;
                     const rowMissingLabel =
-                      localStatus !== "excluded"
+                      !isLeftOut(localStatus) && !row.linked_entry
                         ? getRowMandatoryMissingLabel(effectiveDraft)
                         : "";
 
@@ -1361,6 +1933,28 @@ const StatementImportWizard: React.FC<Props> = ({
                                   {rowMissingLabel}
                                 </div>
                               ) : null}
+
+                              {!isLeftOut(localStatus) && duplicatesByRowId.has(row.id) ? (
+                                <div className="mt-1 text-[11px] font-medium text-amber-700">
+                                  Possible duplicate of a saved entry
+                                </div>
+                              ) : null}
+
+                              {row.linked_entry ? (
+                                <div className="mt-1 truncate text-[11px] font-medium text-sky-700">
+                                  {row.linked_entry.partial ? "Partly settles" : "Settles"}: {row.linked_entry.description}
+                                </div>
+                              ) : openEntryMatchesByRowId.has(row.id) ? (
+                                <div className="mt-1 text-[11px] font-medium text-sky-700">
+                                  May pay an open entry
+                                </div>
+                              ) : null}
+
+                              {row.matched_rule ? (
+                                <div className="mt-1 truncate text-[11px] font-medium text-sky-700">
+                                  Rule: {row.matched_rule.name}
+                                </div>
+                              ) : null}
                             </div>
 
                             <div className="flex flex-col items-end gap-1">
@@ -1370,6 +1964,8 @@ const StatementImportWizard: React.FC<Props> = ({
                                     ? "bg-emerald-100 text-emerald-700"
                                     : localStatus === "excluded"
                                     ? "bg-gray-100 text-gray-600"
+                                    : localStatus === "duplicate"
+                                    ? "bg-rose-100 text-rose-700"
                                     : "bg-amber-100 text-amber-700"
                                 }`}
                               >
@@ -1436,6 +2032,39 @@ const StatementImportWizard: React.FC<Props> = ({
               {editorHeader}
 
               <div className="space-y-4 p-4 md:p-5">
+                {selectedRow.duplicate_of ? (
+                  <DuplicateComparison
+                    row={selectedRow}
+                    status={selectedDraft.status || selectedRow.status}
+                    onSkip={() =>
+                      updateDraft(selectedRow.id, (prev) => ({
+                        ...prev,
+                        status: "excluded",
+                      }))
+                    }
+                    onImport={() =>
+                      updateDraft(selectedRow.id, (prev) => ({
+                        ...prev,
+                        status: "pending",
+                      }))
+                    }
+                  />
+                ) : null}
+
+                <OpenEntryMatches
+                  row={selectedRow}
+                  amountMinor={draftToBankLine(selectedRow, selectedDraft)?.amountMinor ?? null}
+                  matches={openEntryMatchesByRowId.get(selectedRow.id) || []}
+                  entriesById={openEntryPool?.byId ?? new Map()}
+                  busy={busy}
+                  onLink={(entryId) => void handleLinkEntry(selectedRow, entryId)}
+                  onUnlink={() => void handleLinkEntry(selectedRow, null)}
+                />
+
+                {duplicatesByRowId.has(selectedRow.id) ? (
+                  <DuplicateNotice matches={duplicatesByRowId.get(selectedRow.id) || []} />
+                ) : null}
+
                 {visibleCandidateCards.length > 0 ? (
                   <section className="rounded-2xl border border-gray-200 bg-white p-4">
                     <div className="flex items-start justify-between gap-3">
@@ -1517,13 +2146,40 @@ const StatementImportWizard: React.FC<Props> = ({
                       Details
                     </h4>
 
-                    {selectedFamilyCount > 1 ? (
-                      <div className="rounded-full bg-sky-50 px-3 py-1 text-[11px] font-medium text-sky-700">
-                        {selectedFamilyCount} linked installments
-                      </div>
-                    ) : null}
+                    <div className="flex items-center gap-2">
+                      {selectedFamilyCount > 1 ? (
+                        <div className="rounded-full bg-sky-50 px-3 py-1 text-[11px] font-medium text-sky-700">
+                          {selectedFamilyCount} linked installments
+                        </div>
+                      ) : null}
+
+                      {ruleFormRowId !== selectedRow.id ? (
+                        <button
+                          type="button"
+                          onClick={() => setRuleFormRowId(selectedRow.id)}
+                          className="text-[11px] text-gray-600 underline hover:text-gray-800"
+                          disabled={busy}
+                        >
+                          Create rule from this correction
+                        </button>
+                      ) : null}
+                    </div>
                   </div>
 
+                  {ruleFormRowId === selectedRow.id ? (
+                    <RuleFromRowForm
+                      key={selectedRow.id}
+                      row={selectedRow}
+                      values={selectedDraft}
+                      rows={session?.rows || []}
+                      bankAccountId={session?.bank_account_id ?? null}
+                      lookups={lookups}
+                      busy={busy}
+                      onSubmit={(payload) => void handleCreateRule(payload)}
+                      onCancel={() => setRuleFormRowId(null)}
+                    />
+                  ) : null}
+
                   <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-3">
                     <Input
                       kind="date"
@@ -1673,6 +2329,34 @@ const StatementImportWizard: React.FC<Props> = ({
                         }
                       />
                     </div>
+
+                    <div className="md:col-span-3">
+                      <Input
+                        label="Tags"
+                        placeholder="Separate tags with commas"
+                        value={selectedDraft.tags}
+                        onChange={(e) =>
+                          updateDraft(selectedRow.id, (prev) => ({
+                            ...prev,
+                            tags: e.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+
+                    {customFields.map((field) => (
+                      <CustomFieldInput
+                        key={field.key}
+                        field={field}
+                        value={selectedDraft.custom_fields[field.key]}
+                        onChange={(value) =>
+                          updateDraft(selectedRow.id, (prev) => ({
+                            ...prev,
+                            custom_fields: { ...prev.custom_fields, [field.key]: value },
+                          }))
+                        }
+                      />
+                    ))}
                   </div>
                 </section>
 
@@ -1968,6 +2652,7 @@ const StatementImportWizard: React.FC<Props> = ({
         message={snack?.message}
         severity={snack?.severity}
         anchor={{ vertical: "bottom", horizontal: "center" }}
+        action={snack?.action}
         pauseOnHover
         showCloseButton
       />
@@ -0,0 +1,165 @@
+import React, { useMemo } from "react";
+import { CheckCircle2, AlertTriangle, FileText, Loader2 } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { checkStatementBalance, type ParsedStatement } from "@/lib/statementParsers";
+import type { StructuredStatementFormat } from "@/models/settings/statements";
+
+type Props = {
+  fileName: string;
+  statement: ParsedStatement;
+  busy: boolean;
+  onImport: () => void;
+  onCancel: () => void;
+};
+
+const FORMAT_LABELS: Record<StructuredStatementFormat, string> = {
+  ofx: "OFX",
+  camt053: "CAMT.053",
+  camt054: "CAMT.054",
+  mt940: "MT940",
+  cnab240: "CNAB 240",
+  csv: "CSV",
+};
+
+const MAX_PREVIEW_ROWS = 200;
+
+const StructuredStatementPreview: React.FC<Props> = ({ fileName, statement, busy, onImport, onCancel }) => {
+  const check = useMemo(() => checkStatementBalance(statement), [statement]);
+  const money = (minor: number | null) =>
+    minor === null ? "—" : formatCurrency(minor / 100, statement.currency ?? undefined);
+
+  const count = statement.transactions.length;
+  const movementsMinor = check.creditsMinor + check.debitsMinor;
+
+  return (
+    <div className="absolute inset-0 z-30 overflow-y-auto bg-gray-50/95 p-4 md:p-6">
+      <div className="mx-auto max-w-4xl space-y-4">
+        <section className="rounded-2xl border border-gray-200 bg-white p-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-[13px] font-semibold text-gray-900">
+                <FileText size={16} className="text-emerald-600" />
+                <span className="truncate">{fileName}</span>
+                <span className="rounded-full bg-gray-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-gray-600">
+                  {FORMAT_LABELS[statement.format]}
+                </span>
+              </div>
+              <div className="mt-1 text-[12px] text-gray-600">
+                {statement.account ? `Account ${statement.account} • ` : ""}
+                {statement.periodStart || "?"} to {statement.periodEnd || "?"}
+                {statement.currency ? ` • ${statement.currency}` : ""}
+              </div>
+              <div className="mt-1 text-[12px] text-gray-600">
+                Read in your browser. Structured files skip AI analysis.
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="cancel" onClick={onCancel} disabled={busy}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={onImport} disabled={busy}>
+                {busy ? (
+                  <>
+                    <Loader2 size={16} className="mr-2 animate-spin" />
+                    Importing
+                  </>
+                ) : (
+                  `Import ${count} transaction(s)`
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-2 text-[12px] md:grid-cols-4">
+            <div className="rounded-xl bg-gray-50 px-3 py-2">
+              <div className="text-gray-500">Opening balance</div>
+              <div className="font-semibold text-gray-900">{money(statement.openingBalanceMinor)}</div>
+            </div>
+            <div className="rounded-xl bg-emerald-50 px-3 py-2">
+              <div className="text-emerald-700">Credits</div>
+              <div className="font-semibold text-emerald-800">{money(check.creditsMinor)}</div>
+            </div>
+            <div className="rounded-xl bg-amber-50 px-3 py-2">
+              <div className="text-amber-700">Debits</div>
+              <div className="font-semibold text-amber-800">{money(check.debitsMinor)}</div>
+            </div>
+            <div className="rounded-xl bg-gray-50 px-3 py-2">
+              <div className="text-gray-500">Closing balance</div>
+              <div className="font-semibold text-gray-900">{money(statement.closingBalanceMinor)}</div>
+            </div>
+          </div>
+
+          {check.status === "balanced" ? (
+            <div className="mt-3 flex items-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-[12px] text-emerald-800">
+              <CheckCircle2 size={14} />
+              Opening balance plus movements matches the closing balance.
+            </div>
+          ) : check.status === "mismatch" ? (
+            <div className="mt-3 flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[12px] text-red-700">
+              <AlertTriangle size={14} />
+              Expected a closing balance of {money(check.expectedClosingMinor)} but the file says{" "}
+              {money(statement.closingBalanceMinor)} (off by {money(check.differenceMinor)}). Some
+              transactions may be missing.
+            </div>
+          ) : (
+            <div className="mt-3 flex items-center gap-2 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2 text-[12px] text-gray-600">
+              <AlertTriangle size={14} />
+              {statement.closingBalanceMinor !== null
+                ? `The file has no opening balance, so balances cannot be checked. Implied opening: ${money(
+                    statement.closingBalanceMinor - movementsMinor
+                  )}.`
+                : "The file has no balances, so they cannot be checked."}
+            </div>
+          )}
+
+          {statement.skipped > 0 ? (
+            <div className="mt-2 text-[11px] text-amber-700">
+              {statement.skipped} line(s) were skipped (pending or unreadable).
+            </div>
+          ) : null}
+        </section>
+
+        <section className="overflow-hidden rounded-2xl border border-gray-200 bg-white">
+          <table className="w-full text-left text-[12px]">
+            <thead className="bg-gray-50 text-[11px] uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Date</th>
+                <th className="px-4 py-2 font-medium">Description</th>
+                <th className="hidden px-4 py-2 font-medium md:table-cell">Reference</th>
+                <th className="px-4 py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {statement.transactions.slice(0, MAX_PREVIEW_ROWS).map((tx, index) => (
+                <tr key={`${tx.reference ?? ""}-${index}`}>
+                  <td className="whitespace-nowrap px-4 py-2 text-gray-600">{tx.date}</td>
+                  <td className="px-4 py-2 text-gray-900">{tx.description || "—"}</td>
+                  <td className="hidden px-4 py-2 text-gray-500 md:table-cell">{tx.reference || "—"}</td>
+                  <td
+                    className={`whitespace-nowrap px-4 py-2 text-right font-medium ${
+                      tx.amountMinor < 0 ? "text-amber-700" : "text-emerald-700"
+                    }`}
+                  >
+                    {money(tx.amountMinor)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {count > MAX_PREVIEW_ROWS ? (
+            <div className="border-t border-gray-200 px-4 py-2 text-[12px] text-gray-600">
+              And {count - MAX_PREVIEW_ROWS} more transaction(s).
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StructuredStatementPreview;
@@ -14,54 +14,50 @@ import Button from "@/shared/ui/Button";
 import Checkbox from "@/shared/ui/Checkbox";
 
 import EntryAccountingStatusCell from "@/components/CashFlowAccounting/EntryAccountingStatusCell";
+import { CommentsBadge, EntryCommentsDrawer } from "@/components/EntryComments";
 
 import { api } from "@/api/requests";
-import { getCursorFromUrl } from "@/lib/list";
+import { getCursorFromUrl, buildEntryQuery } from "@/lib/list";
 import { useShiftSelect } from "@/hooks/useShiftSelect";
-import { formatDateFromISO, formatCurrency } from "@/lib";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { formatCustomFieldValue, formatDateFromISO, formatCurrency, isForeignCurrency } from "@/lib";
 import { PermissionMiddleware } from "@/middlewares";
 
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 import type { Entry, GetEntryRequest, GetEntryResponse } from "@/models/entries/entries";
 import type { AccountingReadiness } from "@/models/entries/accountingReadiness";
+import type { CustomFieldDefinition } from "@/models/settings/customFields";
 
 /* -------------------------------------------------------------------------- */
 /* Helpers (strongly typed to backend EntryReadSerializer)                    */
 /* -------------------------------------------------------------------------- */
 
 const getId = (e: Entry): string => e.id;
-const getAmount = (e: Entry): number => parseFloat(e.amount ?? "0") || 0;
+/** Foreign-currency entry the backend could not convert (no rate on or before its date). */
+const hasMissingRate = (e: Entry): boolean => isForeignCurrency(e.currency) && !e.amount_org;
+/** Org-currency amount; unconverted entries count as zero like in the KPIs. */
+const getAmount = (e: Entry): number =>
+  hasMissingRate(e) ? 0 : parseFloat(e.amount_org ?? e.amount ?? "0") || 0;
 const getTxString = (e: Entry): string => (e.tx_type ?? "").toLowerCase();
 const isCredit = (e: Entry): boolean => getTxString(e) === "credit";
 
+/** Signed amount in the entry's own currency, only for foreign-currency entries. */
+const getForeignLabel = (e: Entry): string | null => {
+  if (!e.currency || !isForeignCurrency(e.currency)) return null;
+  const n = parseFloat(e.amount ?? "0") || 0;
+  return formatCurrency(isCredit(e) ? n : -n, e.currency);
+};
+
 const getDueDate = (e: Entry): string => e.due_date;
 const getDescription = (e: Entry): string => e.description ?? "";
 
+const getTagsLabel = (e: Entry): string => (e.tags ?? []).map((tag) => `#${tag}`).join(" ");
+
 const getInstallments = (e: Entry) => ({
   index: e.installment_index ?? null,
   count: e.installment_count ?? null,
 });
 
-const parseOptionalAmount = (v: unknown): number | undefined => {
-  if (v === null || v === undefined) return undefined;
-
-  if (typeof v === "number") {
-    return Number.isFinite(v) ? v : undefined;
-  }
-
-  const raw = String(v).trim();
-  if (!raw) return undefined;
-
-  const cleaned = raw.replace(/[^\d.,-]/g, "").replace(/\s+/g, "");
-  const normalized =
-    cleaned.includes(",") && cleaned.includes(".")
-      ? cleaned.replace(/\./g, "").replace(",", ".")
-      : cleaned.replace(",", ".");
-
-  const n = Number(normalized);
-  return Number.isFinite(n) ? n : undefined;
-};
-
 /**
  * Prefer *_minor if present (convert minor->major). Fallback to decimal string.
  * NOTE: assumes 2 decimals.
@@ -98,6 +94,9 @@ export interface CashFlowTableProps {
   onSelectionChange?: (ids: string[], entries: Entry[]) => void;
   onOpenAccountingReason?: (entry: Entry) => void;
   accountingStateById?: Record<string, AccountingReadiness>;
+  /** Date order; owned by the page so it can be kept in the URL. */
+  sortOrder?: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -131,7 +130,10 @@ const TableHeader: React.FC<{
   selectedCount: number;
   totalCount: number;
   onSelectAll: () => void;
-}> = ({ selectedCount, totalCount, onSelectAll }) => {
+  sortOrder: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
+  columns: CustomFieldDefinition[];
+}> = ({ selectedCount, totalCount, onSelectAll, sortOrder, onSortOrderChange, columns }) => {
   const { t } = useTranslation("cashFlowTable");
 
   return (
@@ -153,10 +155,26 @@ const TableHeader: React.FC<{
               {t("labels.selectedCount", { count: selectedCount })}
             </span>
           )}
+          {onSortOrderChange && (
+            <button
+              type="button"
+              onClick={() => onSortOrderChange(sortOrder === "asc" ? "desc" : "asc")}
+              className="text-[10px] uppercase tracking-wide text-gray-600 hover:text-gray-900"
+              title={t(sortOrder === "asc" ? "labels.sortAsc" : "labels.sortDesc")}
+              aria-label={t(sortOrder === "asc" ? "labels.sortAsc" : "labels.sortDesc")}
+            >
+              {t("labels.sortByDate")} {sortOrder === "asc" ? "↑" : "↓"}
+            </button>
+          )}
         </div>
       </div>
 
       <div className="hidden md:flex items-center text-[10px] uppercase tracking-wide text-gray-600">
+        {columns.map((c) => (
+          <div key={c.key} className="hidden lg:block w-[120px] px-1 text-center truncate" title={c.label}>
+            {c.label}
+          </div>
+        ))}
         <div className="w-[140px] text-center">Accounting</div>
         <div className="w-[150px] text-center">{t("columns.amount")}</div>
         <div className="w-[150px] text-center">{t("columns.balance")}</div>
@@ -175,7 +193,9 @@ const EntryRow: React.FC<{
   onSelect: (id: string, event: React.MouseEvent) => void;
   onEdit: (entry: Entry) => void;
   onOpenAccountingReason?: (entry: Entry) => void;
+  onOpenComments: (entry: Entry) => void;
   accounting?: AccountingReadiness | null;
+  columns: CustomFieldDefinition[];
 }> = ({
   entry,
   runningBalance,
@@ -183,12 +203,17 @@ const EntryRow: React.FC<{
   onSelect,
   onEdit,
   onOpenAccountingReason,
+  onOpenComments,
   accounting,
+  columns,
 }) => {
   const { t } = useTranslation("cashFlowTable");
   const transactionValue = getTransactionValue(entry);
-  const isPositive = transactionValue >= 0;
+  const isPositive = isCredit(entry);
+  const foreignLabel = getForeignLabel(entry);
+  const missingRate = hasMissingRate(entry);
   const installments = getInstallments(entry);
+  const tagsLabel = getTagsLabel(entry);
 
   const due = formatDateFromISO(getDueDate(entry));
   const installmentsLabel =
@@ -251,10 +276,25 @@ const EntryRow: React.FC<{
                   {t("labels.due")}: {due}
                 </span>
                 {(installments.index || installments.count) && <span>{installmentsLabel}</span>}
+                {tagsLabel && <span className="truncate text-gray-400">{tagsLabel}</span>}
+                <CommentsBadge count={entry.comments_count} onClick={() => onOpenComments(entry)} />
               </div>
             </div>
 
             <div className="flex items-center shrink-0">
+              {columns.map((c) => {
+                const value = formatCustomFieldValue(c, entry.custom_fields?.[c.key]);
+                return (
+                  <div
+                    key={c.key}
+                    className="hidden lg:block w-[120px] px-1 text-center text-[12px] text-gray-700 truncate"
+                    title={value}
+                  >
+                    {value || "—"}
+                  </div>
+                );
+              })}
+
               <div className="w-[140px] text-center hidden md:flex justify-center">
                 <EntryAccountingStatusCell
                   accounting={accounting}
@@ -268,8 +308,15 @@ const EntryRow: React.FC<{
                     isPositive ? "text-green-900" : "text-red-900"
                   }`}
                 >
-                  {formatCurrency(transactionValue)}
+                  {missingRate ? (
+                    <span title={t("labels.noFxRate")}>—</span>
+                  ) : (
+                    formatCurrency(transactionValue)
+                  )}
                 </div>
+                {foreignLabel && (
+                  <div className="mt-0.5 text-[10px] leading-none tabular-nums text-gray-500">{foreignLabel}</div>
+                )}
               </div>
 
               <div className="w-[150px] text-center">
@@ -291,7 +338,8 @@ const SummaryRow: React.FC<{
   displayMonth: string;
   monthlySum: number;
   runningBalance: number;
-}> = ({ displayMonth, monthlySum, runningBalance }) => {
+  columns: CustomFieldDefinition[];
+}> = ({ displayMonth, monthlySum, runningBalance, columns }) => {
   const { t } = useTranslation("cashFlowTable");
   const monthsShort =
     (t("months.short", { returnObjects: true }) as string[]) ?? [
@@ -323,6 +371,9 @@ const SummaryRow: React.FC<{
       </div>
 
       <div className="flex items-center">
+        {columns.map((c) => (
+          <div key={c.key} className="hidden lg:block w-[120px]" />
+        ))}
         <div className="w-[140px]" />
 
         <div className="w-[150px] text-center">
@@ -467,11 +518,41 @@ const BottomLoader: React.FC = () => {
 /* -------------------------------------------------------------------------- */
 
 const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
-  ({ filters, onEdit, onSelectionChange, onOpenAccountingReason, accountingStateById }, ref) => {
+  (
+    {
+      filters,
+      onEdit,
+      onSelectionChange,
+      onOpenAccountingReason,
+      accountingStateById,
+      sortOrder = "asc",
+      onSortOrderChange,
+    },
+    ref
+  ) => {
     const { t } = useTranslation("cashFlowTable");
 
+    // Optional columns picked in Settings → Custom fields
+    const { fields: customFields } = useCustomFields();
+    const columns = useMemo(() => customFields.filter((f) => f.show_in_table), [customFields]);
+
     // Data
     const [entries, setEntries] = useState<Entry[]>([]);
+
+    // Comment thread opened from a row badge
+    const [commentsFor, setCommentsFor] = useState<Entry | null>(null);
+    const closeComments = useCallback(() => setCommentsFor(null), []);
+    const bumpComments = useCallback(
+      (delta: 1 | -1) => {
+        const id = commentsFor ? getId(commentsFor) : null;
+        setEntries((prev) =>
+          prev.map((e) =>
+            getId(e) === id ? { ...e, comments_count: Math.max(0, (e.comments_count ?? 0) + delta) } : e
+          )
+        );
+      },
+      [commentsFor]
+    );
     const [loading, setLoading] = useState(true);
     const [loadingMore, setLoadingMore] = useState(false);
     const [isFetching, setIsFetching] = useState(false);
@@ -486,17 +567,19 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
     // Latest for fetch
     const latest = useRef<{
       filters: EntryFilters | undefined;
+      sortOrder: EntrySortOrder;
       nextCursor: string | null;
       isFetching: boolean;
     }>({
       filters,
+      sortOrder,
       nextCursor,
       isFetching,
     });
 
     useEffect(() => {
-      latest.current = { filters, nextCursor, isFetching };
-    }, [filters, nextCursor, isFetching]);
+      latest.current = { filters, sortOrder, nextCursor, isFetching };
+    }, [filters, sortOrder, nextCursor, isFetching]);
 
     // notify selection
     useEffect(() => {
@@ -505,37 +588,7 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
     }, [selectedIds, entries, onSelectionChange]);
 
     const buildPayload = useCallback((reset: boolean): GetEntryRequest => {
-      const f = latest.current.filters;
-
-      const qCombined =
-        (f?.description ? String(f.description).trim() : "") +
-        (f?.observation ? ` ${String(f.observation).trim()}` : "");
-      const q = qCombined.trim() || undefined;
-
-      const cashflow_category =
-        Array.isArray(f?.cashflow_category_id) && f.cashflow_category_id.length
-          ? f.cashflow_category_id.map(String).join(",")
-          : undefined;
-
-      const tx_type = f?.tx_type === "credit" ? 1 : f?.tx_type === "debit" ? -1 : undefined;
-
-      const bank =
-        Array.isArray(f?.bank_id) && f.bank_id.length
-          ? f.bank_id.map(String).join(",")
-          : undefined;
-
-      const base: GetEntryRequest = {
-        date_from: f?.start_date || undefined,
-        date_to: f?.end_date || undefined,
-        description: f?.description || undefined,
-        observation: f?.observation || undefined,
-        q,
-        cashflow_category,
-        tx_type,
-        amount_min: parseOptionalAmount(f?.amount_min),
-        amount_max: parseOptionalAmount(f?.amount_max),
-        bank,
-      };
+      const base = buildEntryQuery(latest.current.filters, latest.current.sortOrder);
 
       if (!reset && latest.current.nextCursor) {
         base.cursor = latest.current.nextCursor;
@@ -568,7 +621,7 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
               merged.sort((a, b) => {
                 const ad = new Date(getDueDate(a)).getTime();
                 const bd = new Date(getDueDate(b)).getTime();
-                if (ad !== bd) return ad - bd;
+                if (ad !== bd) return latest.current.sortOrder === "desc" ? bd - ad : ad - bd;
                 return getId(a).localeCompare(getId(b));
               });
             }
@@ -751,7 +804,7 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
     useEffect(() => {
       setNextCursor(null);
       void fetchEntries(true);
-    }, [filters, fetchEntries]);
+    }, [filters, sortOrder, fetchEntries]);
 
     /* --------------------------------- UI --------------------------------- */
 
@@ -795,6 +848,9 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
           selectedCount={selectedIds.length}
           totalCount={entries.length}
           onSelectAll={handleSelectAll}
+          sortOrder={sortOrder}
+          onSortOrderChange={onSortOrderChange}
+          columns={columns}
         />
 
         <div
@@ -837,7 +893,9 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
                           onSelect={handleSelectRow}
                           onEdit={onEdit}
                           onOpenAccountingReason={onOpenAccountingReason}
+                          onOpenComments={setCommentsFor}
                           accounting={resolvedAccounting}
+                          columns={columns}
                         />
                       );
                     }
@@ -849,6 +907,7 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
                           displayMonth={row.displayMonth!}
                           monthlySum={row.monthlySum!}
                           runningBalance={row.runningBalance!}
+                          columns={columns}
                         />
                       );
                     }
@@ -862,6 +921,15 @@ const CashFlowTableDesktop = forwardRef<CashFlowTableHandle, CashFlowTableProps>
         </div>
 
         {loadingMore && <BottomLoader />}
+
+        <EntryCommentsDrawer
+          open={!!commentsFor}
+          ownerType="entry"
+          ownerId={commentsFor ? getId(commentsFor) : null}
+          subtitle={commentsFor ? getDescription(commentsFor) : undefined}
+          onClose={closeComments}
+          onCommentsChange={bumpComments}
+        />
       </section>
     );
   }
@@ -14,14 +14,15 @@ import Button from "@/shared/ui/Button";
 import Checkbox from "@/shared/ui/Checkbox";
 
 import EntryAccountingStatusCell from "@/components/CashFlowAccounting/EntryAccountingStatusCell";
+import { CommentsBadge, EntryCommentsDrawer } from "@/components/EntryComments";
 
 import { api } from "@/api/requests";
-import { getCursorFromUrl } from "@/lib/list";
+import { getCursorFromUrl, buildEntryQuery } from "@/lib/list";
 import { useShiftSelect } from "@/hooks/useShiftSelect";
-import { formatDateFromISO, formatCurrency } from "@/lib";
+import { formatDateFromISO, formatCurrency, isForeignCurrency } from "@/lib";
 import { PermissionMiddleware } from "@/middlewares";
 
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 import type { Entry, GetEntryRequest, GetEntryResponse } from "@/models/entries/entries";
 import type { AccountingReadiness } from "@/models/entries/accountingReadiness";
 
@@ -30,9 +31,20 @@ import type { AccountingReadiness } from "@/models/entries/accountingReadiness";
 /* -------------------------------------------------------------------------- */
 
 const getId = (e: Entry): string => e.id;
-const getAmount = (e: Entry): number => parseFloat(e.amount ?? "0") || 0;
+/** Foreign-currency entry the backend could not convert (no rate on or before its date). */
+const hasMissingRate = (e: Entry): boolean => isForeignCurrency(e.currency) && !e.amount_org;
+/** Org-currency amount; unconverted entries count as zero like in the KPIs. */
+const getAmount = (e: Entry): number =>
+  hasMissingRate(e) ? 0 : parseFloat(e.amount_org ?? e.amount ?? "0") || 0;
 const getTxString = (e: Entry): string => (e.tx_type ?? "").toLowerCase();
 const isCredit = (e: Entry): boolean => getTxString(e) === "credit";
+
+/** Signed amount in the entry's own currency, only for foreign-currency entries. */
+const getForeignLabel = (e: Entry): string | null => {
+  if (!e.currency || !isForeignCurrency(e.currency)) return null;
+  const n = parseFloat(e.amount ?? "0") || 0;
+  return formatCurrency(isCredit(e) ? n : -n, e.currency);
+};
 const getDueDate = (e: Entry): string => e.due_date;
 const getDescription = (e: Entry): string => e.description ?? "";
 
@@ -41,26 +53,6 @@ const getInstallments = (e: Entry) => ({
   count: e.installment_count ?? null,
 });
 
-const parseOptionalAmount = (v: unknown): number | undefined => {
-  if (v === null || v === undefined) return undefined;
-
-  if (typeof v === "number") {
-    return Number.isFinite(v) ? v : undefined;
-  }
-
-  const raw = String(v).trim();
-  if (!raw) return undefined;
-
-  const cleaned = raw.replace(/[^\d.,-]/g, "").replace(/\s+/g, "");
-  const normalized =
-    cleaned.includes(",") && cleaned.includes(".")
-      ? cleaned.replace(/\./g, "").replace(",", ".")
-      : cleaned.replace(",", ".");
-
-  const n = Number(normalized);
-  return Number.isFinite(n) ? n : undefined;
-};
-
 const getServerRunning = (e: Entry): number | null => {
   if (typeof e.running_balance === "string" && e.running_balance.length) {
     const n = Number(e.running_balance);
@@ -119,6 +111,9 @@ export interface CashFlowTableProps {
   onSelectionChange?: (ids: string[], entries: Entry[]) => void;
   onOpenAccountingReason?: (entry: Entry) => void;
   accountingStateById?: Record<string, AccountingReadiness>;
+  /** Date order; owned by the page so it can be kept in the URL. */
+  sortOrder?: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -130,7 +125,9 @@ const MobileHeader: React.FC<{
   selectedCount: number;
   onSelectAll: () => void;
   onClear: () => void;
-}> = ({ totalCount, selectedCount, onSelectAll, onClear }) => {
+  sortOrder: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
+}> = ({ totalCount, selectedCount, onSelectAll, onClear, sortOrder, onSortOrderChange }) => {
   const { t } = useTranslation("cashFlowTable");
 
   return (
@@ -165,16 +162,29 @@ const MobileHeader: React.FC<{
             </div>
           </div>
 
-          {selectedCount > 0 ? (
-            <Button
-              variant="outline"
-              size="sm"
-              className="!h-8 text-[11px] font-semibold"
-              onClick={onClear}
-            >
-              {safeT(t, "actions.clear", "Clear")}
-            </Button>
-          ) : null}
+          <div className="flex items-center gap-2 shrink-0">
+            {onSortOrderChange ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="!h-8 text-[11px] font-semibold"
+                onClick={() => onSortOrderChange(sortOrder === "asc" ? "desc" : "asc")}
+                aria-label={t(sortOrder === "asc" ? "labels.sortAsc" : "labels.sortDesc")}
+              >
+                {sortOrder === "asc" ? "↑" : "↓"}
+              </Button>
+            ) : null}
+            {selectedCount > 0 ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="!h-8 text-[11px] font-semibold"
+                onClick={onClear}
+              >
+                {safeT(t, "actions.clear", "Clear")}
+              </Button>
+            ) : null}
+          </div>
         </div>
       </div>
     </div>
@@ -249,6 +259,7 @@ const MobileEntryRow: React.FC<{
   onSelect: (id: string, event: React.MouseEvent) => void;
   onEdit: (entry: Entry) => void;
   onOpenAccountingReason?: (entry: Entry) => void;
+  onOpenComments: (entry: Entry) => void;
   accounting?: AccountingReadiness | null;
 }> = ({
   entry,
@@ -257,12 +268,15 @@ const MobileEntryRow: React.FC<{
   onSelect,
   onEdit,
   onOpenAccountingReason,
+  onOpenComments,
   accounting,
 }) => {
   const { t } = useTranslation("cashFlowTable");
 
   const transactionValue = getTransactionValue(entry);
-  const positive = transactionValue >= 0;
+  const positive = isCredit(entry);
+  const foreignLabel = getForeignLabel(entry);
+  const missingRate = hasMissingRate(entry);
 
   const due = formatDateFromISO(getDueDate(entry));
   const installments = getInstallments(entry);
@@ -306,6 +320,15 @@ const MobileEntryRow: React.FC<{
               <div className="text-[10px] text-gray-500 truncate mt-1">
                 {due}
                 {installmentsLabel ? <span className="ml-2">• {installmentsLabel}</span> : null}
+                {entry.tags?.length ? (
+                  <span className="ml-2 text-gray-400">{entry.tags.map((tag) => `#${tag}`).join(" ")}</span>
+                ) : null}
+                <CommentsBadge
+                  count={entry.comments_count}
+                  onClick={() => onOpenComments(entry)}
+                  alwaysVisible
+                  className="ml-2 align-middle"
+                />
               </div>
               <div className="mt-2">
                 <EntryAccountingStatusCell
@@ -322,8 +345,11 @@ const MobileEntryRow: React.FC<{
                   positive ? "text-green-900" : "text-red-900",
                 ].join(" ")}
               >
-                {formatCurrency(transactionValue)}
+                {missingRate ? <span title={t("labels.noFxRate")}>—</span> : formatCurrency(transactionValue)}
               </div>
+              {foreignLabel && (
+                <div className="text-[10px] tabular-nums text-gray-500 leading-tight">{foreignLabel}</div>
+              )}
               <div className="text-[10px] font-semibold tabular-nums text-gray-700 mt-1">
                 {formatCurrency(runningBalance)}
               </div>
@@ -423,7 +449,18 @@ const MobileSummaryRow: React.FC<{
 /* -------------------------------------------------------------------------- */
 
 const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
-  ({ filters, onEdit, onSelectionChange, onOpenAccountingReason, accountingStateById }, ref) => {
+  (
+    {
+      filters,
+      onEdit,
+      onSelectionChange,
+      onOpenAccountingReason,
+      accountingStateById,
+      sortOrder = "asc",
+      onSortOrderChange,
+    },
+    ref
+  ) => {
     const { t } = useTranslation("cashFlowTable");
 
     const hideScrollbarCls = useMemo(
@@ -433,6 +470,21 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
 
     // Data
     const [entries, setEntries] = useState<Entry[]>([]);
+
+    // Comment thread opened from a row badge
+    const [commentsFor, setCommentsFor] = useState<Entry | null>(null);
+    const closeComments = useCallback(() => setCommentsFor(null), []);
+    const bumpComments = useCallback(
+      (delta: 1 | -1) => {
+        const id = commentsFor ? getId(commentsFor) : null;
+        setEntries((prev) =>
+          prev.map((e) =>
+            getId(e) === id ? { ...e, comments_count: Math.max(0, (e.comments_count ?? 0) + delta) } : e
+          )
+        );
+      },
+      [commentsFor]
+    );
     const [loading, setLoading] = useState(true);
     const [loadingMore, setLoadingMore] = useState(false);
     const [isFetching, setIsFetching] = useState(false);
@@ -449,17 +501,19 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
     // Latest for fetch
     const latest = useRef<{
       filters: EntryFilters | undefined;
+      sortOrder: EntrySortOrder;
       nextCursor: string | null;
       isFetching: boolean;
     }>({
       filters,
+      sortOrder,
       nextCursor,
       isFetching,
     });
 
     useEffect(() => {
-      latest.current = { filters, nextCursor, isFetching };
-    }, [filters, nextCursor, isFetching]);
+      latest.current = { filters, sortOrder, nextCursor, isFetching };
+    }, [filters, sortOrder, nextCursor, isFetching]);
 
     // notify selection
     useEffect(() => {
@@ -468,37 +522,7 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
     }, [selectedIds, entries, onSelectionChange]);
 
     const buildPayload = useCallback((reset: boolean): GetEntryRequest => {
-      const f = latest.current.filters;
-
-      const qCombined =
-        (f?.description ? String(f.description).trim() : "") +
-        (f?.observation ? ` ${String(f.observation).trim()}` : "");
-      const q = qCombined.trim() || undefined;
-
-      const cashflow_category =
-        Array.isArray(f?.cashflow_category_id) && f.cashflow_category_id.length
-          ? f.cashflow_category_id.map(String).join(",")
-          : undefined;
-
-      const tx_type = f?.tx_type === "credit" ? 1 : f?.tx_type === "debit" ? -1 : undefined;
-
-      const bank =
-        Array.isArray(f?.bank_id) && f.bank_id.length
-          ? f.bank_id.map(String).join(",")
-          : undefined;
-
-      const base: GetEntryRequest = {
-        date_from: f?.start_date || undefined,
-        date_to: f?.end_date || undefined,
-        description: f?.description || undefined,
-        observation: f?.observation || undefined,
-        q,
-        cashflow_category,
-        tx_type,
-        amount_min: parseOptionalAmount(f?.amount_min),
-        amount_max: parseOptionalAmount(f?.amount_max),
-        bank,
-      };
+      const base = buildEntryQuery(latest.current.filters, latest.current.sortOrder);
 
       if (!reset && latest.current.nextCursor) base.cursor = latest.current.nextCursor;
       return base;
@@ -526,7 +550,7 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
               merged.sort((a, b) => {
                 const ad = new Date(getDueDate(a)).getTime();
                 const bd = new Date(getDueDate(b)).getTime();
-                if (ad !== bd) return ad - bd;
+                if (ad !== bd) return latest.current.sortOrder === "desc" ? bd - ad : ad - bd;
                 return getId(a).localeCompare(getId(b));
               });
             }
@@ -702,7 +726,7 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
     useEffect(() => {
       setNextCursor(null);
       void fetchEntries(true);
-    }, [filters, fetchEntries]);
+    }, [filters, sortOrder, fetchEntries]);
 
     /* --------------------------------- UI --------------------------------- */
 
@@ -750,6 +774,8 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
           selectedCount={selectedCount}
           onSelectAll={handleSelectAll}
           onClear={clearSelection}
+          sortOrder={sortOrder}
+          onSortOrderChange={onSortOrderChange}
         />
 
         <div
@@ -796,6 +822,7 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
                           onSelect={handleSelectRow}
                           onEdit={onEdit}
                           onOpenAccountingReason={onOpenAccountingReason}
+                          onOpenComments={setCommentsFor}
                           accounting={resolvedAccounting}
                         />
                       );
@@ -821,6 +848,15 @@ const CashFlowTableMobile = forwardRef<CashFlowTableHandle, CashFlowTableProps>(
         </div>
 
         {loadingMore && <BottomLoader />}
+
+        <EntryCommentsDrawer
+          open={!!commentsFor}
+          ownerType="entry"
+          ownerId={commentsFor ? getId(commentsFor) : null}
+          subtitle={commentsFor ? getDescription(commentsFor) : undefined}
+          onClose={closeComments}
+          onCommentsChange={bumpComments}
+        />
       </section>
     );
   }
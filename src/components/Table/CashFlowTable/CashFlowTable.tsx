@@ -4,7 +4,7 @@ import { forwardRef, useEffect, useState } from "react";
 import CashFlowTableDesktop from "./CashFlowTable.desktop";
 import CashFlowTableMobile from "./CashFlowTable.mobile";
 
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 import type { Entry } from "@/models/entries/entries";
 import type { AccountingReadiness } from "@/models/entries/accountingReadiness";
 
@@ -19,6 +19,9 @@ export interface CashFlowTableProps {
   onSelectionChange?: (ids: string[], entries: Entry[]) => void;
   onOpenAccountingReason?: (entry: Entry) => void;
   accountingStateById?: Record<string, AccountingReadiness>;
+  /** Date order; owned by the page so it can be kept in the URL. */
+  sortOrder?: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
 }
 
 const MOBILE_MQL = "(max-width: 639px)";
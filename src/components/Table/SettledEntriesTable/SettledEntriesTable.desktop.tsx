@@ -8,15 +8,18 @@ import React, {
   forwardRef,
 } from "react";
 import { useTranslation } from "react-i18next";
+import { History } from "lucide-react";
 
 import Checkbox from "@/shared/ui/Checkbox";
+import { EntryHistoryDrawer } from "@/components/EntryHistory";
+import { CommentsBadge, EntryCommentsDrawer } from "@/components/EntryComments";
 
 import { api } from "@/api/requests";
-import { getCursorFromUrl } from "@/lib/list";
+import { getCursorFromUrl, buildSettledEntryQuery } from "@/lib/list";
 import { useShiftSelect } from "@/hooks/useShiftSelect";
-import { formatDateFromISO, formatCurrency } from "@/lib";
+import { formatDateFromISO, formatCurrency, isForeignCurrency } from "@/lib";
 
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 import type { GetSettledEntryRequest, GetSettledEntryResponse, SettledEntry } from "@/models/entries/settlements";
 import type { SettledEntriesTableHandle, SettledEntriesTableProps } from "./SettledEntriesTable";
 
@@ -26,8 +29,9 @@ import type { SettledEntriesTableHandle, SettledEntriesTableProps } from "./Sett
 
 const getId = (e: SettledEntry): string => e.external_id;
 
+/** Org-currency amount; settlements always carry the rate of their value date. */
 const getAmount = (e: SettledEntry): number => {
-  const raw = e.amount;
+  const raw = e.amount_org ?? e.amount;
   if (typeof raw === "number") return Number.isFinite(raw) ? raw : 0;
 
   const s = String(raw ?? "0").trim();
@@ -41,6 +45,18 @@ const getAmount = (e: SettledEntry): number => {
 const getTxString = (e: SettledEntry): string => String(e.tx_type ?? "").toLowerCase();
 const isCredit = (e: SettledEntry): boolean => getTxString(e).includes("credit");
 
+/** Signed amount in the settlement's own currency, only for foreign-currency rows. */
+const getForeignLabel = (e: SettledEntry): string | null => {
+  if (!e.currency || !isForeignCurrency(e.currency)) return null;
+  const n = Number(e.amount) || 0;
+  return formatCurrency(isCredit(e) ? n : -n, e.currency);
+};
+
+const getFxGainLoss = (e: SettledEntry): number | null => {
+  const n = Number(e.fx_gain_loss);
+  return e.fx_gain_loss && Number.isFinite(n) && n !== 0 ? n : null;
+};
+
 const getValueDate = (e: SettledEntry): string => e.value_date;
 const getDescription = (e: SettledEntry): string => e.description ?? "";
 
@@ -49,26 +65,6 @@ const getInstallments = (e: SettledEntry) => ({
   count: e.installment_count ?? null,
 });
 
-const parseOptionalAmount = (v: unknown): number | undefined => {
-  if (v === null || v === undefined) return undefined;
-
-  if (typeof v === "number") {
-    return Number.isFinite(v) ? v : undefined;
-  }
-
-  const raw = String(v).trim();
-  if (!raw) return undefined;
-
-  const cleaned = raw.replace(/[^\d.,-]/g, "").replace(/\s+/g, "");
-  const normalized =
-    cleaned.includes(",") && cleaned.includes(".")
-      ? cleaned.replace(/\./g, "").replace(",", ".")
-      : cleaned.replace(",", ".");
-
-  const n = Number(normalized);
-  return Number.isFinite(n) ? n : undefined;
-};
-
 const getServerRunning = (e: SettledEntry): number | null => {
   const raw = e.running_balance;
   if (typeof raw === "string" && raw.trim().length) {
@@ -114,7 +110,9 @@ const TableHeader: React.FC<{
   selectedCount: number;
   totalCount: number;
   onSelectAll: () => void;
-}> = ({ selectedCount, totalCount, onSelectAll }) => {
+  sortOrder: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
+}> = ({ selectedCount, totalCount, onSelectAll, sortOrder, onSortOrderChange }) => {
   const { t } = useTranslation("settledTable");
 
   return (
@@ -136,6 +134,17 @@ const TableHeader: React.FC<{
               {t("labels.selectedCount", { count: selectedCount })}
             </span>
           )}
+          {onSortOrderChange && (
+            <button
+              type="button"
+              onClick={() => onSortOrderChange(sortOrder === "asc" ? "desc" : "asc")}
+              className="text-[10px] uppercase tracking-wide text-gray-600 hover:text-gray-900"
+              title={t(sortOrder === "asc" ? "labels.sortAsc" : "labels.sortDesc")}
+              aria-label={t(sortOrder === "asc" ? "labels.sortAsc" : "labels.sortDesc")}
+            >
+              {t("labels.sortByDate")} {sortOrder === "asc" ? "↑" : "↓"}
+            </button>
+          )}
         </div>
       </div>
 
@@ -153,11 +162,15 @@ const EntryRow: React.FC<{
   runningBalance: number;
   isSelected: boolean;
   onSelect: (id: string, event: React.MouseEvent) => void;
-}> = ({ entry, runningBalance, isSelected, onSelect }) => {
+  onOpenHistory: (entry: SettledEntry) => void;
+  onOpenComments: (entry: SettledEntry) => void;
+}> = ({ entry, runningBalance, isSelected, onSelect, onOpenHistory, onOpenComments }) => {
   const { t } = useTranslation("settledTable");
 
   const transactionValue = getTransactionValue(entry);
   const isPositive = transactionValue >= 0;
+  const foreignLabel = getForeignLabel(entry);
+  const fxGainLoss = getFxGainLoss(entry);
 
   const valueDate = formatDateFromISO(getValueDate(entry));
   const installments = getInstallments(entry);
@@ -191,6 +204,19 @@ const EntryRow: React.FC<{
                 {installmentsLabel ? <span className="ml-2">• {installmentsLabel}</span> : null}
                 {partialLabel ? <span className="ml-2">• {partialLabel}</span> : null}
                 {bankName ? <span className="ml-2">• {bankName}</span> : null}
+                {fxGainLoss !== null ? (
+                  <span className={`ml-2 ${fxGainLoss > 0 ? "text-green-700" : "text-red-700"}`}>
+                    • {t("labels.fxGainLoss", { amount: `${fxGainLoss > 0 ? "+" : ""}${formatCurrency(fxGainLoss)}` })}
+                  </span>
+                ) : null}
+                {entry.attachments_count ? (
+                  <span className="ml-2">• {t("labels.attachments", { count: entry.attachments_count })}</span>
+                ) : null}
+                <CommentsBadge
+                  count={entry.comments_count}
+                  onClick={() => onOpenComments(entry)}
+                  className="ml-2 align-middle"
+                />
               </div>
             </div>
 
@@ -203,6 +229,9 @@ const EntryRow: React.FC<{
                 >
                   {formatCurrency(transactionValue)}
                 </div>
+                {foreignLabel && (
+                  <div className="mt-0.5 text-[10px] leading-none tabular-nums text-gray-500">{foreignLabel}</div>
+                )}
               </div>
 
               <div className="w-[150px] text-center">
@@ -211,7 +240,17 @@ const EntryRow: React.FC<{
                 </div>
               </div>
 
-              <div className="w-[32px]" />
+              <div className="w-[32px] flex justify-center">
+                <button
+                  type="button"
+                  onClick={() => onOpenHistory(entry)}
+                  className="grid h-7 w-7 place-items-center rounded-md text-gray-400 opacity-0 hover:bg-gray-100 hover:text-gray-700 focus:opacity-100 group-hover:opacity-100"
+                  aria-label={t("actions.history")}
+                  title={t("actions.history")}
+                >
+                  <History size={14} />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -308,7 +347,10 @@ const BottomLoader: React.FC = () => {
 /* -------------------------------------------------------------------------- */
 
 const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, SettledEntriesTableProps>(
-  ({ filters, onSelectionChange }, ref) => {
+  (
+    { filters, onSelectionChange, sortOrder = "asc", onSortOrderChange, openEntryId, onOpenEntryChange },
+    ref
+  ) => {
     const { t } = useTranslation("settledTable");
 
     const [entries, setEntries] = useState<SettledEntry[]>([]);
@@ -319,22 +361,51 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
     const [error, setError] = useState<string | null>(null);
     const [nextCursor, setNextCursor] = useState<string | null>(null);
 
+    const [localHistoryId, setLocalHistoryId] = useState<string | null>(null);
+    const historyId = openEntryId !== undefined ? openEntryId : localHistoryId;
+    const setHistoryId = onOpenEntryChange ?? setLocalHistoryId;
+    const openHistory = useCallback((entry: SettledEntry) => setHistoryId(getId(entry)), [setHistoryId]);
+    const closeHistory = useCallback(() => setHistoryId(null), [setHistoryId]);
+
+    // Deep links may open a settlement that isn't on the loaded pages yet
+    const historyEntry = useMemo(
+      () => (historyId ? entries.find((e) => getId(e) === historyId) ?? null : null),
+      [entries, historyId]
+    );
+
+    // Comment thread opened from a row badge
+    const [commentsFor, setCommentsFor] = useState<SettledEntry | null>(null);
+    const closeComments = useCallback(() => setCommentsFor(null), []);
+    const bumpComments = useCallback(
+      (delta: 1 | -1) => {
+        const id = commentsFor ? getId(commentsFor) : null;
+        setEntries((prev) =>
+          prev.map((e) =>
+            getId(e) === id ? { ...e, comments_count: Math.max(0, (e.comments_count ?? 0) + delta) } : e
+          )
+        );
+      },
+      [commentsFor]
+    );
+
     const { selectedIds, handleSelectRow, handleSelectAll, clearSelection } =
       useShiftSelect<SettledEntry, string>(entries, getId);
 
     const latest = useRef<{
       filters: EntryFilters | undefined;
+      sortOrder: EntrySortOrder;
       nextCursor: string | null;
       isFetching: boolean;
     }>({
       filters,
+      sortOrder,
       nextCursor,
       isFetching,
     });
 
     useEffect(() => {
-      latest.current = { filters, nextCursor, isFetching };
-    }, [filters, nextCursor, isFetching]);
+      latest.current = { filters, sortOrder, nextCursor, isFetching };
+    }, [filters, sortOrder, nextCursor, isFetching]);
 
     useEffect(() => {
       const selectedRows = entries.filter((e) => selectedIds.includes(getId(e)));
@@ -342,36 +413,7 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
     }, [selectedIds, entries, onSelectionChange]);
 
     const buildPayload = useCallback((reset: boolean): GetSettledEntryRequest => {
-      const f = latest.current.filters;
-
-      const qCombined =
-        (f?.description ? String(f.description).trim() : "") +
-        (f?.observation ? ` ${String(f.observation).trim()}` : "");
-      const q = qCombined.trim() || undefined;
-
-      const bank =
-        Array.isArray(f?.bank_id) && f.bank_id.length ? f.bank_id.map(String).join(",") : undefined;
-
-      const cashflow_category =
-        Array.isArray(f?.cashflow_category_id) && f.cashflow_category_id.length
-          ? f.cashflow_category_id.map(String).join(",")
-          : undefined;
-
-      const tx_type = f?.tx_type === "credit" ? 1 : f?.tx_type === "debit" ? -1 : undefined;
-
-      const base: GetSettledEntryRequest = {
-        value_from: f?.start_date || undefined,
-        value_to: f?.end_date || undefined,
-        bank,
-        q,
-        description: f?.description || undefined,
-        observation: f?.observation || undefined,
-        cashflow_category,
-        tx_type,
-        amount_min: parseOptionalAmount(f?.amount_min),
-        amount_max: parseOptionalAmount(f?.amount_max),
-        include_inactive: true,
-      };
+      const base = buildSettledEntryQuery(latest.current.filters, latest.current.sortOrder);
 
       if (!reset && latest.current.nextCursor) base.cursor = latest.current.nextCursor;
       return base;
@@ -399,7 +441,7 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
               merged.sort((a, b) => {
                 const ad = new Date(getValueDate(a)).getTime();
                 const bd = new Date(getValueDate(b)).getTime();
-                if (ad !== bd) return ad - bd;
+                if (ad !== bd) return latest.current.sortOrder === "desc" ? bd - ad : ad - bd;
                 return getId(a).localeCompare(getId(b));
               });
             }
@@ -562,7 +604,7 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
     useEffect(() => {
       setNextCursor(null);
       fetchEntries(true);
-    }, [filters, fetchEntries]);
+    }, [filters, sortOrder, fetchEntries]);
 
     if (error) {
       return (
@@ -596,6 +638,8 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
           selectedCount={selectedIds.length}
           totalCount={entries.length}
           onSelectAll={handleSelectAll}
+          sortOrder={sortOrder}
+          onSortOrderChange={onSortOrderChange}
         />
 
         <div
@@ -629,6 +673,8 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
                           runningBalance={row.runningBalance!}
                           isSelected={isSelected}
                           onSelect={handleSelectRow}
+                          onOpenHistory={openHistory}
+                          onOpenComments={setCommentsFor}
                         />
                       );
                     }
@@ -653,6 +699,23 @@ const SettledEntriesTableDesktop = forwardRef<SettledEntriesTableHandle, Settled
         </div>
 
         {loadingMore && <BottomLoader />}
+
+        <EntryHistoryDrawer
+          open={!!historyId}
+          ownerType="settlement"
+          ownerId={historyId}
+          subtitle={historyEntry ? getDescription(historyEntry) : undefined}
+          onClose={closeHistory}
+        />
+
+        <EntryCommentsDrawer
+          open={!!commentsFor}
+          ownerType="settlement"
+          ownerId={commentsFor ? getId(commentsFor) : null}
+          subtitle={commentsFor ? getDescription(commentsFor) : undefined}
+          onClose={closeComments}
+          onCommentsChange={bumpComments}
+        />
       </section>
     );
   }
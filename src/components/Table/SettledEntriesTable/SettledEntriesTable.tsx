@@ -4,7 +4,7 @@ import { forwardRef, useEffect, useState } from "react";
 import SettledEntriesTableDesktop from "./SettledEntriesTable.desktop";
 import SettledEntriesTableMobile from "./SettledEntriesTable.mobile";
 
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 import type { SettledEntry } from "@/models/entries/settlements";
 
 export type SettledEntriesTableHandle = {
@@ -15,6 +15,12 @@ export type SettledEntriesTableHandle = {
 export interface SettledEntriesTableProps {
   filters?: EntryFilters;
   onSelectionChange?: (ids: string[], entries: SettledEntry[]) => void; // settlement external_ids
+  /** Date order; owned by the page so it can be kept in the URL. */
+  sortOrder?: EntrySortOrder;
+  onSortOrderChange?: (next: EntrySortOrder) => void;
+  /** Settlement whose history drawer is open; uncontrolled when omitted. */
+  openEntryId?: string | null;
+  onOpenEntryChange?: (id: string | null) => void;
 }
 
 const MOBILE_MQL = "(max-width: 639px)";
@@ -0,0 +1,73 @@
+// src/hooks/useCustomFields.ts
+import { useEffect, useState } from "react";
+
+import { api } from "@/api/requests";
+import type { CustomFieldDefinition } from "@/models/settings/customFields";
+
+export type CustomFieldsState = {
+  /** Active definitions in `sort_order`. */
+  fields: CustomFieldDefinition[];
+  loading: boolean;
+};
+
+/* --------------------------------- Cache ---------------------------------- */
+
+// Definitions change rarely, so the modal, table, filters and exports share one request
+let cache: Promise<CustomFieldDefinition[]> | null = null;
+const listeners = new Set<() => void>();
+
+export function loadCustomFields(): Promise<CustomFieldDefinition[]> {
+  if (!cache) {
+    cache = api
+      .getCustomFields()
+      .then(({ data }) =>
+        (data ?? []).filter((f) => f.is_active).sort((a, b) => a.sort_order - b.sort_order)
+      )
+      .catch((err) => {
+        cache = null;
+        throw err;
+      });
+  }
+  return cache;
+}
+
+/** Drops the cached definitions after the settings page edits them; mounted hooks refetch. */
+export function invalidateCustomFields() {
+  cache = null;
+  listeners.forEach((fn) => fn());
+}
+
+/* --------------------------------- Hook ----------------------------------- */
+
+export function useCustomFields(): CustomFieldsState {
+  const [state, setState] = useState<CustomFieldsState>({ fields: [], loading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const bump = () => setVersion((v) => v + 1);
+    listeners.add(bump);
+    return () => {
+      listeners.delete(bump);
+    };
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    setState((prev) => ({ ...prev, loading: true }));
+
+    loadCustomFields()
+      .then((fields) => {
+        if (alive) setState({ fields, loading: false });
+      })
+      .catch((err) => {
+        console.error("Failed to load custom fields:", err);
+        if (alive) setState({ fields: [], loading: false });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [version]);
+
+  return state;
+}
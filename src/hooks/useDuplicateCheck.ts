@@ -0,0 +1,76 @@
+// src/hooks/useDuplicateCheck.ts
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  duplicateSearchRange,
+  fetchDuplicatePool,
+  findDuplicates,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type DuplicatePool,
+} from "@/lib/duplicates";
+import type { Entry } from "@/models/entries/entries";
+
+export type DuplicateHit = DuplicateMatch & { entry: Entry };
+
+export type DuplicateCheckState = {
+  matches: DuplicateHit[];
+  loading: boolean;
+};
+
+// Wait for the user to stop typing the amount before hitting the API
+const DEBOUNCE_MS = 450;
+
+/**
+ * Saved entries that look like `draft`; stays empty until amount and due date
+ * are set. Only amount and due date refetch; entity and wording re-score locally.
+ */
+export function useDuplicateCheck(draft: DuplicateCandidate | null): DuplicateCheckState {
+  const [pool, setPool] = useState<DuplicatePool | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const dueDate = draft?.dueDate || "";
+  const amountMinor = draft?.amountMinor || 0;
+
+  useEffect(() => {
+    if (!dueDate || !amountMinor) {
+      setPool(null);
+      return;
+    }
+
+    let alive = true;
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const major = Math.abs(amountMinor) / 100;
+        const next = await fetchDuplicatePool({
+          ...duplicateSearchRange(dueDate),
+          amount_min: Math.floor(major * 0.99),
+          amount_max: Math.ceil(major * 1.01),
+          tx_type: amountMinor < 0 ? -1 : 1,
+        });
+        if (alive) setPool(next);
+      } catch (err) {
+        console.error("Failed to check for duplicate entries:", err);
+        if (alive) setPool(null);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      alive = false;
+      window.clearTimeout(timer);
+    };
+  }, [dueDate, amountMinor]);
+
+  const matches = useMemo<DuplicateHit[]>(() => {
+    if (!draft || !pool) return [];
+    return findDuplicates(draft, pool.candidates).flatMap((m) => {
+      const entry = pool.byId.get(m.id);
+      return entry ? [{ ...m, entry }] : [];
+    });
+  }, [draft, pool]);
+
+  return { matches, loading };
+}
@@ -0,0 +1,77 @@
+// src/hooks/useEntryViewLink.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+
+import { api } from "@/api/requests";
+import { buildEntryViewParams, parseEntryViewParams } from "@/lib/list";
+import type { EntryFilters, EntryViewState } from "@/models/components/filterBar";
+
+export type UseEntryViewLinkOptions = {
+  contextSettlement: boolean;
+  /** Called once when the link referenced banks the viewer can't access; receives the cleaned filters. */
+  onFiltersPruned?: (filters: EntryFilters) => void;
+};
+
+export type UseEntryViewLinkReturn = {
+  /** View decoded from the URL on first render. */
+  initialView: EntryViewState;
+  /** Mirrors the current view into the URL without adding history entries. */
+  writeView: (view: EntryViewState) => void;
+  /** Absolute link to the current view. */
+  getShareUrl: () => string;
+};
+
+/**
+ * Keeps the CashFlow/Settled view (filters, sort, open entry) in the query string
+ * so it can be shared as a link.
+ */
+export function useEntryViewLink({
+  contextSettlement,
+  onFiltersPruned,
+}: UseEntryViewLinkOptions): UseEntryViewLinkReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialView] = useState(() => parseEntryViewParams(searchParams, contextSettlement));
+
+  const onPrunedRef = useRef(onFiltersPruned);
+  onPrunedRef.current = onFiltersPruned;
+
+  const setParamsRef = useRef(setSearchParams);
+  setParamsRef.current = setSearchParams;
+
+  // Banks are the only ids the client can check; other lookups are scoped by the API
+  useEffect(() => {
+    const shared = initialView.filters.bank_id ?? [];
+    if (!shared.length) return;
+
+    let alive = true;
+
+    (async () => {
+      try {
+        const { data } = await api.getBanksTable({});
+        if (!alive) return;
+
+        const allowed = new Set((data?.banks ?? []).map((b) => String(b.id)));
+        const kept = shared.filter((id) => allowed.has(id));
+        if (kept.length === shared.length) return;
+
+        onPrunedRef.current?.({ ...initialView.filters, bank_id: kept });
+      } catch (err) {
+        console.error("Failed to verify shared bank filters:", err);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [initialView]);
+
+  const writeView = useCallback((view: EntryViewState) => {
+    const next = buildEntryViewParams(view).toString();
+    if (next === window.location.search.replace(/^\?/, "")) return;
+    setParamsRef.current(next, { replace: true });
+  }, []);
+
+  const getShareUrl = useCallback(() => window.location.href, []);
+
+  return { initialView, writeView, getShareUrl };
+}
@@ -0,0 +1,45 @@
+// src/hooks/useFxQuote.ts
+import { useEffect, useState } from "react";
+
+import { api } from "@/api/requests";
+import { isForeignCurrency } from "@/lib/currency";
+
+export type FxQuoteState = {
+  /** Org-currency units per one unit of `currency`; null when unknown. */
+  rate: string | null;
+  rateDate: string | null;
+  loading: boolean;
+};
+
+const EMPTY: FxQuoteState = { rate: null, rateDate: null, loading: false };
+
+/** Table rate for `currency` on `date`; stays empty for the organization currency. */
+export function useFxQuote(currency?: string | null, date?: string | null): FxQuoteState {
+  const [state, setState] = useState<FxQuoteState>(EMPTY);
+
+  useEffect(() => {
+    if (!currency || !date || !isForeignCurrency(currency)) {
+      setState(EMPTY);
+      return;
+    }
+
+    let alive = true;
+    setState((prev) => ({ ...prev, loading: true }));
+
+    (async () => {
+      try {
+        const { data } = await api.getFxRateQuote({ currency, date });
+        if (alive) setState({ rate: data.rate, rateDate: data.rate_date, loading: false });
+      } catch (err) {
+        console.error("Failed to load exchange rate:", err);
+        if (alive) setState(EMPTY);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [currency, date]);
+
+  return state;
+}
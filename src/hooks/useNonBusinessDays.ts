@@ -0,0 +1,97 @@
+// src/hooks/useNonBusinessDays.ts
+import { useEffect, useMemo, useState } from "react";
+
+import { api } from "@/api/requests";
+import type { NonBusinessDay } from "@/models/settings/holidays";
+
+export type NonBusinessDaysState = {
+  /** Closed dates (YYYY-MM-DD) from every active holiday calendar. Weekends are not included. */
+  days: ReadonlyMap<string, NonBusinessDay>;
+  loading: boolean;
+};
+
+/* ------------------------------ Year cache -------------------------------- */
+
+// Calendars change rarely, so every DateField and chart shares one request per year
+const cache = new Map<number, Promise<NonBusinessDay[]>>();
+const listeners = new Set<() => void>();
+
+function loadYear(year: number): Promise<NonBusinessDay[]> {
+  let pending = cache.get(year);
+  if (!pending) {
+    pending = api
+      .getNonBusinessDays({ date_from: `${year}-01-01`, date_to: `${year}-12-31` })
+      .then(({ data }) => data ?? [])
+      .catch((err) => {
+        cache.delete(year);
+        throw err;
+      });
+    cache.set(year, pending);
+  }
+  return pending;
+}
+
+/** Drops cached years after a calendar or holiday changes; mounted hooks refetch. */
+export function invalidateNonBusinessDays() {
+  cache.clear();
+  listeners.forEach((fn) => fn());
+}
+
+/* --------------------------------- Hook ----------------------------------- */
+
+const EMPTY: ReadonlyMap<string, NonBusinessDay> = new Map();
+
+function yearsBetween(from?: string | null, to?: string | null): number[] {
+  const start = Number((from || "").slice(0, 4));
+  const end = Number((to || from || "").slice(0, 4));
+  if (!start || !end || end < start) return [];
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+/** Holidays and bank closures between `from` and `to`; pass `enabled=false` to skip loading. */
+export function useNonBusinessDays(
+  from?: string | null,
+  to?: string | null,
+  enabled = true
+): NonBusinessDaysState {
+  const [state, setState] = useState<NonBusinessDaysState>({ days: EMPTY, loading: false });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const bump = () => setVersion((v) => v + 1);
+    listeners.add(bump);
+    return () => {
+      listeners.delete(bump);
+    };
+  }, []);
+
+  const yearsKey = useMemo(() => (enabled ? yearsBetween(from, to).join(",") : ""), [enabled, from, to]);
+
+  useEffect(() => {
+    if (!yearsKey) {
+      setState({ days: EMPTY, loading: false });
+      return;
+    }
+
+    let alive = true;
+    setState((prev) => ({ ...prev, loading: true }));
+
+    (async () => {
+      try {
+        const lists = await Promise.all(yearsKey.split(",").map((y) => loadYear(Number(y))));
+        const days = new Map<string, NonBusinessDay>();
+        for (const d of lists.flat()) if (!days.has(d.date)) days.set(d.date, d);
+        if (alive) setState({ days, loading: false });
+      } catch (err) {
+        console.error("Failed to load holiday calendars:", err);
+        if (alive) setState({ days: EMPTY, loading: false });
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [yearsKey, version]);
+
+  return state;
+}
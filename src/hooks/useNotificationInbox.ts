@@ -0,0 +1,82 @@
+// src/hooks/useNotificationInbox.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { api } from "@/api/requests";
+import { onNotificationCreated } from "@/lib/ws/notificationEvents";
+import type { InboxNotification } from "@/models/auth/notifications";
+
+export type NotificationInboxState = {
+  /** Latest notifications, newest first. */
+  items: InboxNotification[];
+  unreadCount: number;
+  loading: boolean;
+  reload: () => Promise<void>;
+  /** Expects unread ids only; the badge drops by their count. */
+  markRead: (ids: string[]) => Promise<void>;
+  markAllRead: () => Promise<void>;
+};
+
+const PAGE_SIZE = 20;
+
+/** In-app inbox; refetches whenever LiveSync announces a new notification. */
+export function useNotificationInbox(enabled = true): NotificationInboxState {
+  const [items, setItems] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // Guards against an older response landing after a newer one
+  const requestRef = useRef(0);
+
+  const reload = useCallback(async () => {
+    const reqId = ++requestRef.current;
+    setLoading(true);
+    try {
+      const { data } = await api.getInboxNotifications({ page_size: PAGE_SIZE });
+      if (reqId !== requestRef.current) return;
+      setItems(data.results ?? []);
+      setUnreadCount(data.unread_count ?? 0);
+    } catch (err) {
+      console.error("Failed to load notifications:", err);
+    } finally {
+      if (reqId === requestRef.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void reload();
+    return onNotificationCreated(() => void reload());
+  }, [enabled, reload]);
+
+  const markRead = useCallback(async (ids: string[]) => {
+    if (!ids.length) return;
+    const now = new Date().toISOString();
+    const pending = new Set(ids);
+
+    // Optimistic; the next reload corrects any drift
+    setItems((prev) => prev.map((n) => (pending.has(n.id) && !n.read_at ? { ...n, read_at: now } : n)));
+    setUnreadCount((c) => Math.max(0, c - ids.length));
+
+    try {
+      await api.markNotificationsRead({ ids });
+    } catch (err) {
+      console.error("Failed to mark notifications as read:", err);
+      void reload();
+    }
+  }, [reload]);
+
+  const markAllRead = useCallback(async () => {
+    const now = new Date().toISOString();
+    setItems((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: now })));
+    setUnreadCount(0);
+
+    try {
+      await api.markNotificationsRead({ all: true });
+    } catch (err) {
+      console.error("Failed to mark notifications as read:", err);
+      void reload();
+    }
+  }, [reload]);
+
+  return { items, unreadCount, loading, reload, markRead, markAllRead };
+}
@@ -0,0 +1,113 @@
+// src/lib/allocations/categorySplit.ts
+
+import type { CategoryAllocation, CategoryAllocationInput } from "@/models/settings/categories";
+
+/** Percent slices add up to 100; amount slices add up to the entry amount. */
+export type CategorySplitMode = "percent" | "amount";
+
+export type CategorySplitRow = {
+  categoryId: string;
+  value: string;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function parseDecimal(raw: string | number | null | undefined): number {
+  const n = Number(String(raw ?? "").replace(",", "."));
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** `count` equal two-decimal shares of `total`; the last one absorbs the rounding. */
+export function evenSplit(count: number, total: number): string[] {
+  if (count <= 0) return [];
+  const base = round2(total / count);
+  const shares = Array.from({ length: count }, () => base);
+  shares[count - 1] = round2(total - base * (count - 1));
+  return shares.map((n) => n.toFixed(2));
+}
+
+/** What the slices must add up to in `mode`. */
+export function splitTarget(mode: CategorySplitMode, amount: string): number {
+  return mode === "percent" ? 100 : round2(parseDecimal(amount));
+}
+
+export function splitTotal(rows: CategorySplitRow[]): number {
+  return round2(rows.reduce((acc, r) => acc + parseDecimal(r.value), 0));
+}
+
+/** At least two distinct categories, every slice positive, and the total on target. */
+export function isSplitBalanced(rows: CategorySplitRow[], mode: CategorySplitMode, amount: string): boolean {
+  if (rows.length < 2) return false;
+  if (new Set(rows.map((r) => r.categoryId)).size !== rows.length) return false;
+  if (!rows.every((r) => r.categoryId && parseDecimal(r.value) > 0)) return false;
+  return Math.abs(splitTotal(rows) - splitTarget(mode, amount)) <= 0.001;
+}
+
+export function toCategoryAllocationsPayload(
+  rows: CategorySplitRow[],
+  mode: CategorySplitMode
+): CategoryAllocationInput[] {
+  return rows.map((r) => {
+    const value = parseDecimal(r.value).toFixed(2);
+    return mode === "percent"
+      ? { cashflow_category_id: r.categoryId, percent: value }
+      : { cashflow_category_id: r.categoryId, amount: value };
+  });
+}
+
+/**
+ * The category with the largest share. Split entries keep it in
+ * `cashflow_category` so filters and single-category views still place them.
+ */
+export function primarySplitCategory(rows: CategorySplitRow[]): string {
+  let best: CategorySplitRow | null = null;
+  for (const r of rows) {
+    if (!best || parseDecimal(r.value) > parseDecimal(best.value)) best = r;
+  }
+  return best?.categoryId ?? "";
+}
+
+export function splitRowsFromAllocations(allocations: CategoryAllocation[]): CategorySplitRow[] {
+  return allocations.map((a) => ({
+    categoryId: a.cashflow_category_id,
+    value: parseDecimal(a.percent).toFixed(2),
+  }));
+}
+
+/** Converts slices between modes, keeping their proportions against `amount`. */
+export function convertSplitRows(
+  rows: CategorySplitRow[],
+  to: CategorySplitMode,
+  amount: string
+): CategorySplitRow[] {
+  const total = parseDecimal(amount);
+  if (!total) return rows.map((r) => ({ ...r, value: "" }));
+
+  const shares = rows.map((r) => {
+    const v = parseDecimal(r.value);
+    return to === "amount" ? round2((v / 100) * total) : round2((v / total) * 100);
+  });
+
+  // Push the rounding remainder into the last slice so a balanced split stays balanced
+  const target = to === "amount" ? round2(total) : 100;
+  const current = round2(shares.reduce((a, n) => a + n, 0));
+  const source = to === "amount" ? 100 : round2(total);
+  if (shares.length && Math.abs(splitTotal(rows) - source) <= 0.001) {
+    shares[shares.length - 1] = round2(shares[shares.length - 1] + target - current);
+  }
+
+  return rows.map((r, i) => ({ ...r, value: shares[i].toFixed(2) }));
+}
+
+/** "Electricity · Production 60% | Electricity · Office 40%", for exports and tooltips. */
+export function formatCategoryAllocations(
+  allocations: CategoryAllocation[],
+  names?: Map<string, string>
+): string {
+  return allocations
+    .map((a) => {
+      const label = names?.get(a.cashflow_category_id) ?? (a.code ? `${a.code} · ${a.name}` : a.name);
+      return `${label} ${parseDecimal(a.percent)}%`;
+    })
+    .join(" | ");
+}
@@ -0,0 +1 @@
+export * from "./settlementBlock"
\ No newline at end of file
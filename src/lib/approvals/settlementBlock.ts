@@ -0,0 +1,21 @@
+// src/lib/approvals/settlementBlock.ts
+
+import type { Entry } from "@/models/entries/entries";
+
+/**
+ * Why an entry cannot be settled yet. `self_approved` is segregation of
+ * duties: the approver of a payable may not also pay it.
+ */
+export type SettlementBlock = "pending" | "rejected" | "self_approved";
+
+export function getSettlementBlock(entry: Pick<Entry, "approval">): SettlementBlock | null {
+  const approval = entry.approval;
+  if (!approval) return null;
+  if (approval.status === "pending" || approval.status === "rejected") return approval.status;
+  if (approval.status === "approved" && !approval.can_settle) return "self_approved";
+  return null;
+}
+
+export function countSettlementBlocks(entries: Array<Pick<Entry, "approval">>): number {
+  return entries.reduce((n, e) => n + (getSettlementBlock(e) ? 1 : 0), 0);
+}
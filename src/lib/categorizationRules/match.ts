@@ -0,0 +1,93 @@
+// src/lib/categorizationRules/match.ts
+
+import type { CategorizationRule } from "@/models/settings/categorizationRules";
+
+/** What a rule is tested against; mirrors a statement import row. */
+export type RuleSample = {
+  description: string;
+  /** Signed or unsigned minor units; rules compare the absolute value. */
+  amountMinor: number | null;
+  /** 1 for credit, -1 for debit. */
+  txType: number | null;
+  bankAccountId: string | null;
+};
+
+const patternCache = new Map<string, RegExp | null>();
+
+/** Case-insensitive regex for a rule pattern, or null when it does not compile. */
+export function compileRulePattern(pattern: string): RegExp | null {
+  if (patternCache.has(pattern)) return patternCache.get(pattern) ?? null;
+  let re: RegExp | null = null;
+  try {
+    re = new RegExp(pattern, "i");
+  } catch {
+    re = null;
+  }
+  patternCache.set(pattern, re);
+  return re;
+}
+
+export function isValidRulePattern(pattern: string): boolean {
+  return !pattern.trim() || compileRulePattern(pattern) !== null;
+}
+
+function toMinor(amount: string | null): number | null {
+  if (amount == null || amount === "") return null;
+  const n = Number(amount);
+  return Number.isFinite(n) ? Math.round(n * 100) : null;
+}
+
+/** Every set condition has to hold; a broken pattern never matches. */
+export function ruleMatches(rule: CategorizationRule, sample: RuleSample): boolean {
+  if (!rule.is_active) return false;
+
+  const pattern = rule.description_pattern.trim();
+  if (pattern) {
+    const re = compileRulePattern(pattern);
+    if (!re || !re.test(sample.description)) return false;
+  }
+
+  if (rule.tx_type !== "any") {
+    const wanted = rule.tx_type === "credit" ? 1 : -1;
+    if (sample.txType !== wanted) return false;
+  }
+
+  if (rule.bank_account_ids.length && !rule.bank_account_ids.includes(sample.bankAccountId ?? "")) {
+    return false;
+  }
+
+  const min = toMinor(rule.amount_min);
+  const max = toMinor(rule.amount_max);
+  if (min !== null || max !== null) {
+    if (sample.amountMinor == null) return false;
+    const abs = Math.abs(sample.amountMinor);
+    if (min !== null && abs < min) return false;
+    if (max !== null && abs > max) return false;
+  }
+
+  return true;
+}
+
+/** Priority first, then name, so ties resolve the same way everywhere. */
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+/** First rule that matches, in the order the backend applies them. */
+export function findMatchingRule(rules: CategorizationRule[], sample: RuleSample): CategorizationRule | null {
+  return sortRules(rules).find((rule) => ruleMatches(rule, sample)) ?? null;
+}
+
+/**
+ * Pattern that matches `description` and its monthly variants: special
+ * characters are escaped and digit runs such as card or invoice numbers
+ * become `\d+`.
+ */
+export function patternFromDescription(description: string): string {
+  return description
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\d+/g, "\\d+")
+    .replace(/ /g, "\\s+");
+}
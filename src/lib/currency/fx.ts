@@ -0,0 +1,43 @@
+import { getEffectiveCurrency, normalizeCurrencyCode } from "./formatCurrency";
+
+/* Rates are org-currency units per one unit of the foreign currency (BRL org, USD entry: 5.12). */
+
+const toNumber = (v: unknown): number | null => {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** True when `currency` is set and is not the organization currency. */
+export function isForeignCurrency(currency?: string | null): boolean {
+  const code = normalizeCurrencyCode(currency);
+  return !!code && code !== getEffectiveCurrency();
+}
+
+/** Org-currency value of a MAJOR amount; null when the rate is missing or invalid. */
+export function convertToOrg(amount: unknown, rate: unknown): number | null {
+  const a = toNumber(amount);
+  const r = toNumber(rate);
+  if (a === null || r === null || r <= 0) return null;
+  return round2(a * r);
+}
+
+/**
+ * Realized difference when an entry booked at `bookedRate` is settled at `settledRate`.
+ * Receivables gain when the foreign currency appreciates; payables lose.
+ */
+export function realizedFxGainLoss(params: {
+  amount: unknown;
+  txType: "credit" | "debit" | string;
+  bookedRate: unknown;
+  settledRate: unknown;
+}): number | null {
+  const booked = convertToOrg(params.amount, params.bookedRate);
+  const settled = convertToOrg(params.amount, params.settledRate);
+  if (booked === null || settled === null) return null;
+
+  const diff = round2(settled - booked);
+  return params.txType === "debit" ? -diff : diff;
+}
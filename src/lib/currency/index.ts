@@ -1,2 +1,3 @@
 export * from "./currencies"
-export * from "./formatCurrency"
\ No newline at end of file
+export * from "./formatCurrency"
+export * from "./fx"
\ No newline at end of file
@@ -0,0 +1,83 @@
+// src/lib/customFields/values.ts
+
+import { formatDateFromISO } from "@/lib/date";
+import type { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "@/models/settings/customFields";
+
+export function isEmptyCustomFieldValue(value: CustomFieldValue | null | undefined): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return !String(value ?? "").trim();
+}
+
+/** Drops empty values so the payload only carries keys that are set. */
+export function cleanCustomFieldValues(values: CustomFieldValues): CustomFieldValues {
+  const out: CustomFieldValues = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (isEmptyCustomFieldValue(value)) continue;
+    out[key] = Array.isArray(value) ? value : String(value).trim();
+  }
+  return out;
+}
+
+/** Compares two value maps after cleaning, ignoring key order. */
+export function sameCustomFieldValues(a: CustomFieldValues, b: CustomFieldValues): boolean {
+  const ca = cleanCustomFieldValues(a);
+  const cb = cleanCustomFieldValues(b);
+  const keys = Object.keys(ca);
+  if (keys.length !== Object.keys(cb).length) return false;
+  return keys.every((k) => JSON.stringify(ca[k]) === JSON.stringify(cb[k]));
+}
+
+/** Display text for tables and exports; dates follow the user's date format. */
+export function formatCustomFieldValue(
+  field: Pick<CustomFieldDefinition, "field_type">,
+  value: CustomFieldValue | null | undefined
+): string {
+  if (isEmptyCustomFieldValue(value)) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field.field_type === "date") return formatDateFromISO(value);
+  return String(value);
+}
+
+/**
+ * Reads a typed value out of free text (CSV cells, pasted rows). Returns null
+ * when the text does not fit the field, e.g. an unknown option or a bad date.
+ */
+export function parseCustomFieldInput(
+  field: Pick<CustomFieldDefinition, "field_type" | "options">,
+  raw: string
+): CustomFieldValue | null {
+  const text = String(raw ?? "").trim();
+  if (!text) return null;
+
+  const matchOption = (v: string) => field.options.find((o) => o.toLowerCase() === v.toLowerCase()) ?? null;
+
+  switch (field.field_type) {
+    case "number": {
+      const n = Number(text.replace(/\s+/g, "").replace(",", "."));
+      return Number.isFinite(n) ? String(n) : null;
+    }
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+    case "select":
+      return matchOption(text);
+    case "multi_select": {
+      const picked = text.split(/[;,]/).map((v) => matchOption(v.trim()));
+      return picked.every(Boolean) ? [...new Set(picked as string[])] : null;
+    }
+    default:
+      return text;
+  }
+}
+
+/** Splits "a, b; c" into trimmed, de-duplicated tags (case-insensitive). */
+export function parseTags(raw: string): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const part of String(raw ?? "").split(/[;,]/)) {
+    const tag = part.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    out.push(tag);
+  }
+  return out;
+}
@@ -0,0 +1,41 @@
+// src/lib/date/businessDays.ts
+import { addDays, format, isWeekend, parseISO } from "date-fns";
+
+/**
+ * Same convention as `weekend_action` on entries:
+ * 1 = postpone to the next business day, -1 = bring forward, 0 = keep the date.
+ */
+export type BusinessDayShift = 1 | -1 | 0;
+
+/** Anything keyed by YYYY-MM-DD: a Set of closed dates or a Map of date -> holiday. */
+export type ClosedDays = { has(date: string): boolean };
+
+const ISO = "yyyy-MM-dd";
+
+// A year never has this many closed days in a row; guards against bad calendars
+const MAX_STEPS = 31;
+
+export function isWeekendISO(iso: string): boolean {
+  return isWeekend(parseISO(iso));
+}
+
+export function isBusinessDay(iso: string, closed?: ClosedDays | null): boolean {
+  return !isWeekendISO(iso) && !closed?.has(iso);
+}
+
+/** Moves `iso` off weekends and closed days in the given direction. */
+export function shiftToBusinessDay(
+  iso: string,
+  direction: BusinessDayShift | number | null | undefined,
+  closed?: ClosedDays | null
+): string {
+  if (!iso || (direction !== 1 && direction !== -1)) return iso;
+
+  let d = parseISO(iso);
+  for (let i = 0; i < MAX_STEPS; i += 1) {
+    const current = format(d, ISO);
+    if (isBusinessDay(current, closed)) return current;
+    d = addDays(d, direction);
+  }
+  return iso;
+}
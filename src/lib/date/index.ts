@@ -1 +1,2 @@
 export * from "./formatDate"
+export * from "./businessDays"
@@ -0,0 +1,31 @@
+// src/lib/duplicates/duplicatePool.ts
+
+import { api } from "@/api/requests";
+import type { Entry, GetEntryRequest } from "@/models/entries/entries";
+import { fetchAllCursor } from "../list";
+import { entryToDuplicateCandidate, type DuplicateCandidate } from "./scoreDuplicates";
+
+export type DuplicatePool = {
+  candidates: DuplicateCandidate[];
+  byId: Map<string, Entry>;
+};
+
+function shiftISO(iso: string, days: number): string {
+  const d = new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Due-date range to search around `from`..`to`, widened by the scorer's window. */
+export function duplicateSearchRange(from: string, to: string = from, windowDays = 10) {
+  return { date_from: shiftISO(from, -windowDays), date_to: shiftISO(to, windowDays) };
+}
+
+/** Saved entries that could collide with new ones; settled entries are included on purpose. */
+export async function fetchDuplicatePool(params: GetEntryRequest): Promise<DuplicatePool> {
+  const entries = await fetchAllCursor<Entry>((p) => api.getEntries({ ...params, ...p }), { pageSize: 200 });
+  return {
+    candidates: entries.map(entryToDuplicateCandidate),
+    byId: new Map(entries.map((e) => [e.id, e])),
+  };
+}
@@ -0,0 +1,2 @@
+export * from "./scoreDuplicates"
+export * from "./duplicatePool"
\ No newline at end of file
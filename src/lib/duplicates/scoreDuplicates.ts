@@ -0,0 +1,208 @@
+// src/lib/duplicates/scoreDuplicates.ts
+
+import { isForeignCurrency, normalizeCurrencyCode } from "@/lib/currency";
+import type { Entry } from "@/models/entries/entries";
+import { daysBetween, descriptionSimilarity } from "../reconciliation/suggestMatches";
+
+/**
+ * Minimal shape shared by saved entries, modal drafts, pasted rows and
+ * statement import rows. Amounts are signed minor units (credit > 0, debit < 0).
+ */
+export type DuplicateCandidate = {
+  id: string;
+  dueDate: string; // YYYY-MM-DD
+  amountMinor: number;
+  /** ISO 4217; null means the organization currency. */
+  currency: string | null;
+  entityId: string | null;
+  description: string;
+};
+
+/** Which fields agreed; drives the "why" chips next to each match. */
+export type DuplicateSignal = "amount" | "date" | "entity" | "description";
+
+export type DuplicateMatch = {
+  id: string;
+  score: number; // 0..1
+  signals: DuplicateSignal[];
+};
+
+export type DuplicateGroup = {
+  ids: string[];
+  /** Best pairwise score inside the group. */
+  score: number;
+};
+
+export type DuplicateOptions = {
+  /** Max distance in days between the two due dates. */
+  dateWindowDays?: number;
+  /** Matches below this score are dropped. */
+  minScore?: number;
+  /** Pair keys (see `duplicatePairKey`) the user already marked as distinct. */
+  ignoredPairs?: ReadonlySet<string>;
+};
+
+const DEFAULTS: Required<Omit<DuplicateOptions, "ignoredPairs">> = {
+  dateWindowDays: 10,
+  minScore: 0.7,
+};
+
+// Rounding and FX noise on re-keyed invoices rarely goes past this
+const NEAR_AMOUNT_RATIO = 0.01;
+
+const WEIGHTS = { amount: 0.45, date: 0.25, entity: 0.15, description: 0.15 } as const;
+
+/** Order-independent key for a pair of ids. */
+export function duplicatePairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/** Signed minor units from a major-unit amount and a credit/debit label or sign. */
+export function toSignedMinor(amount: string | number | null | undefined, txType: string | number | null): number {
+  const major = Math.abs(Number(String(amount ?? "").replace(",", ".")));
+  if (!Number.isFinite(major)) return 0;
+  const minor = Math.round(major * 100);
+  const isDebit = typeof txType === "number" ? txType < 0 : String(txType ?? "").toLowerCase().includes("debit");
+  return isDebit ? -minor : minor;
+}
+
+/** Org currency and "no currency" are the same thing; foreign codes stay as normalized codes. */
+function currencyKey(currency: string | null | undefined): string | null {
+  return isForeignCurrency(currency) ? normalizeCurrencyCode(currency) : null;
+}
+
+export function entryToDuplicateCandidate(
+  entry: Pick<Entry, "id" | "due_date" | "amount" | "tx_type" | "currency" | "entity" | "description">
+): DuplicateCandidate {
+  return {
+    id: entry.id,
+    dueDate: entry.due_date,
+    amountMinor: toSignedMinor(entry.amount, entry.tx_type),
+    currency: currencyKey(entry.currency),
+    entityId: entry.entity || null,
+    description: entry.description || "",
+  };
+}
+
+function normalizeDescription(text: string): string {
+  return String(text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Scores how likely two items are the same obligation booked twice.
+ * Same direction and currency are required, and different entities rule a
+ * pair out; amount carries most of the weight, then due date, entity and
+ * wording.
+ */
+export function scoreDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  dateWindowDays: number = DEFAULTS.dateWindowDays
+): DuplicateMatch {
+  const none: DuplicateMatch = { id: b.id, score: 0, signals: [] };
+
+  if (!a.amountMinor || Math.sign(a.amountMinor) !== Math.sign(b.amountMinor)) return none;
+  if (currencyKey(a.currency) !== currencyKey(b.currency)) return none;
+  if (a.entityId && b.entityId && a.entityId !== b.entityId) return none;
+
+  const absA = Math.abs(a.amountMinor);
+  const absB = Math.abs(b.amountMinor);
+  const amountScore = absA === absB ? 1 : Math.abs(absA - absB) / Math.max(absA, absB) <= NEAR_AMOUNT_RATIO ? 0.5 : 0;
+  if (!amountScore) return none;
+
+  const gap = daysBetween(a.dueDate, b.dueDate);
+  if (gap > dateWindowDays) return none;
+  const dateScore = dateWindowDays > 0 ? 1 - gap / (dateWindowDays + 1) : 1;
+
+  // A missing entity on either side is neutral rather than a mismatch
+  const entityScore = a.entityId && b.entityId ? 1 : 0.5;
+
+  const descA = normalizeDescription(a.description);
+  const descB = normalizeDescription(b.description);
+  const descriptionScore = descA && descA === descB ? 1 : descriptionSimilarity(a.description, b.description);
+
+  const score =
+    amountScore * WEIGHTS.amount +
+    dateScore * WEIGHTS.date +
+    entityScore * WEIGHTS.entity +
+    descriptionScore * WEIGHTS.description;
+
+  const signals: DuplicateSignal[] = [];
+  if (amountScore === 1) signals.push("amount");
+  if (gap <= 1) signals.push("date");
+  if (entityScore === 1) signals.push("entity");
+  if (descriptionScore >= 0.5) signals.push("description");
+
+  return { id: b.id, score: Math.max(0, Math.min(1, score)), signals };
+}
+
+/** Likely duplicates of `draft` in `pool`, best first. Items with the draft's id are skipped. */
+export function findDuplicates(
+  draft: DuplicateCandidate,
+  pool: DuplicateCandidate[],
+  options?: DuplicateOptions
+): DuplicateMatch[] {
+  const opts = { ...DEFAULTS, ...(options ?? {}) };
+
+  return pool
+    .filter((item) => item.id !== draft.id && !opts.ignoredPairs?.has(duplicatePairKey(draft.id, item.id)))
+    .map((item) => scoreDuplicate(draft, item, opts.dateWindowDays))
+    .filter((m) => m.score >= opts.minScore)
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Clusters `items` into groups of likely duplicates. Pairs above the
+ * threshold are linked transitively, so A~B and B~C end up in one group.
+ */
+export function groupDuplicates(items: DuplicateCandidate[], options?: DuplicateOptions): DuplicateGroup[] {
+  const opts = { ...DEFAULTS, ...(options ?? {}) };
+
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const bestScore = new Map<string, number>();
+  items.forEach((i) => parent.set(i.id, i.id));
+
+  // Only near-equal amounts can score, so sweep the list sorted by amount
+  const sorted = [...items].sort((x, y) => x.amountMinor - y.amountMinor);
+  for (let i = 0; i < sorted.length; i += 1) {
+    const a = sorted[i];
+    for (let j = i + 1; j < sorted.length; j += 1) {
+      const b = sorted[j];
+      const limit = Math.max(Math.abs(a.amountMinor), Math.abs(b.amountMinor)) * NEAR_AMOUNT_RATIO;
+      if (b.amountMinor - a.amountMinor > limit) break;
+      if (opts.ignoredPairs?.has(duplicatePairKey(a.id, b.id))) continue;
+
+      const { score } = scoreDuplicate(a, b, opts.dateWindowDays);
+      if (score < opts.minScore) continue;
+
+      const ra = find(a.id);
+      const rb = find(b.id);
+      const best = Math.max(score, bestScore.get(ra) ?? 0, bestScore.get(rb) ?? 0);
+      if (ra !== rb) parent.set(rb, ra);
+      bestScore.set(ra, best);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const item of items) {
+    const root = find(item.id);
+    groups.set(root, [...(groups.get(root) ?? []), item.id]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, ids]) => ids.length > 1)
+    .map(([root, ids]) => ({ ids, score: bestScore.get(root) ?? 0 }))
+    .sort((x, y) => y.score - x.score);
+}
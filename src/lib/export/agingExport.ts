@@ -0,0 +1,156 @@
+/* -------------------------------------------------------------------------- */
+/*  File: src/lib/export/agingExport.ts                                       */
+/* -------------------------------------------------------------------------- */
+
+import i18next from "i18next";
+import Papa from "papaparse";
+
+import { formatMajorNumber, getNumberFormatCode } from "@/lib/currency";
+
+import { saveBlob } from "./entriesExport";
+import { buildXlsx, type XlsxCell, type XlsxColumn } from "./xlsxWriter";
+
+import type { AgingBucket, AgingBuckets, AgingReport } from "@/models/components/reports";
+
+/* --------------------------------- Types --------------------------------- */
+
+export type AgingExportFormat = "csv" | "xlsx";
+
+export interface AgingExportResult {
+  success: boolean;
+  message: string;
+  filename?: string;
+}
+
+type ColumnKey = "entity" | "currency" | AgingBucket | "total" | "items";
+
+/* -------------------------------- Constants ------------------------------- */
+
+const NS = "agingExport";
+
+const COLUMNS: ColumnKey[] = ["entity", "currency", "current", "d1_30", "d31_60", "d61_90", "d90_plus", "total", "items"];
+const MONEY_COLUMNS = new Set<ColumnKey>(["current", "d1_30", "d31_60", "d61_90", "d90_plus", "total"]);
+
+const XLSX_WIDTHS: Record<ColumnKey, number> = {
+  entity: 36,
+  currency: 10,
+  current: 14,
+  d1_30: 14,
+  d31_60: 14,
+  d61_90: 14,
+  d90_plus: 14,
+  total: 16,
+  items: 10,
+};
+
+/* ------------------------------- i18n helpers ------------------------------ */
+
+function t(key: string, opts?: Record<string, unknown>): string {
+  const fullKey = `${NS}:${key}`;
+  const out = i18next?.t ? i18next.t(fullKey, opts) : fullKey;
+  return typeof out === "string" ? out : String(out ?? "");
+}
+
+/* -------------------------------- Helpers -------------------------------- */
+
+function toNumber(raw: unknown): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function bucketCells(buckets: AgingBuckets): number[] {
+  return [
+    toNumber(buckets.current),
+    toNumber(buckets.d1_30),
+    toNumber(buckets.d31_60),
+    toNumber(buckets.d61_90),
+    toNumber(buckets.d90_plus),
+    toNumber(buckets.total),
+  ];
+}
+
+function buildRows(report: AgingReport): XlsxCell[][] {
+  return report.rows.map((row) => [
+    row.entity_name || t("unassigned"),
+    row.currency,
+    ...bucketCells(row.buckets),
+    row.open_items,
+  ]);
+}
+
+/** One totals line per currency; amounts in different currencies are never summed. */
+function buildFooter(report: AgingReport): XlsxCell[][] {
+  return report.totals_by_currency.map((total) => [
+    t("totals", { currency: total.currency }),
+    total.currency,
+    ...bucketCells(total.buckets),
+    null,
+  ]);
+}
+
+function generateFilename(report: AgingReport, ext: AgingExportFormat): string {
+  const prefix = (t(`filename.${report.side}`) || report.side)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9\-_.]/gi, "");
+
+  return `${prefix}-${report.as_of}.${ext}`;
+}
+
+/* --------------------------------- Writers -------------------------------- */
+
+function writeCsv(report: AgingReport, filename: string) {
+  const fmt = (key: ColumnKey, v: XlsxCell) => {
+    if (v === null || v === undefined) return "";
+    if (MONEY_COLUMNS.has(key) && typeof v === "number") return formatMajorNumber(v.toFixed(2));
+    return String(v);
+  };
+
+  const toLine = (cells: XlsxCell[]) => cells.map((v, i) => fmt(COLUMNS[i], v));
+
+  // Same separator rule as the entries export so both open alike in Excel
+  const csv = Papa.unparse(
+    {
+      fields: COLUMNS.map((k) => t(`columns.${k}`)),
+      data: [...buildRows(report).map(toLine), [], ...buildFooter(report).map(toLine)],
+    },
+    { delimiter: getNumberFormatCode() === "EU" ? ";" : "," }
+  );
+
+  saveBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+function writeXlsx(report: AgingReport, filename: string) {
+  const kinds: Partial<Record<ColumnKey, XlsxColumn["kind"]>> = Object.fromEntries(
+    [...MONEY_COLUMNS].map((k) => [k, "amount" as const])
+  );
+
+  const blob = buildXlsx({
+    name: t(`title.${report.side}`),
+    columns: COLUMNS.map((k) => ({ header: t(`columns.${k}`), kind: kinds[k], width: XLSX_WIDTHS[k] })),
+    rows: buildRows(report),
+    footerRows: buildFooter(report),
+  });
+
+  saveBlob(blob, filename);
+}
+
+/* --------------------------------- Public --------------------------------- */
+
+/** Exports an aging report as loaded on screen: one row per entity and currency, totals per currency. */
+export function exportAgingReport(report: AgingReport, format: AgingExportFormat): AgingExportResult {
+  if (!report.rows.length) {
+    return { success: false, message: t("messages.empty") };
+  }
+
+  try {
+    const filename = generateFilename(report, format);
+    if (format === "csv") writeCsv(report, filename);
+    else writeXlsx(report, filename);
+    return { success: true, message: t("messages.ok"), filename };
+  } catch (error: unknown) {
+    console.error("Error exporting aging report:", error);
+    return { success: false, message: t("messages.error") };
+  }
+}
@@ -0,0 +1,600 @@
+/* -------------------------------------------------------------------------- */
+/*  File: src/lib/export/entriesExport.ts                                     */
+/* -------------------------------------------------------------------------- */
+
+import { jsPDF } from "jspdf";
+import autoTable, { RowInput } from "jspdf-autotable";
+import i18next from "i18next";
+import Papa from "papaparse";
+
+import { api } from "@/api/requests";
+import { fetchAllCursor, buildEntryQuery, buildSettledEntryQuery } from "@/lib/list";
+import { convertToOrg, formatCurrency, formatMajorNumber, getNumberFormatCode, isForeignCurrency } from "@/lib/currency";
+import { formatDateFromISO } from "@/lib/date";
+import { formatCategoryAllocations } from "@/lib/allocations";
+import { formatCustomFieldValue } from "@/lib/customFields";
+
+import { buildXlsx, type XlsxCell, type XlsxColumn } from "./xlsxWriter";
+
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
+import type { Entry } from "@/models/entries/entries";
+import type { SettledEntry } from "@/models/entries/settlements";
+import type { CustomFieldDefinition, CustomFieldValues } from "@/models/settings/customFields";
+
+/* --------------------------------- Types --------------------------------- */
+
+export type EntriesExportContext = "cashflow" | "settled";
+export type EntriesExportFormat = "csv" | "xlsx" | "pdf";
+
+export interface EntriesExportOptions {
+  context: EntriesExportContext;
+  format: EntriesExportFormat;
+  /** Same filters the table is showing; exports always match the on-screen query. */
+  filters?: EntryFilters;
+  /** The table's sort order, so rows come out in the order they are shown. */
+  sort?: EntrySortOrder;
+  /** When set, only these rows are exported (entry ids / settlement external ids). */
+  selectedIds?: string[];
+  /** Called with the number of rows fetched so far. */
+  onProgress?: (fetched: number) => void;
+}
+
+export interface EntriesExportResult {
+  success: boolean;
+  message: string;
+  filename?: string;
+  rowCount?: number;
+}
+
+interface ExportRow {
+  date: string;
+  description: string;
+  observation: string;
+  category: string;
+  tags: string;
+  /** Formatted custom field values by field key. */
+  fields: Record<string, string>;
+  bank: string;
+  isCredit: boolean;
+  installment: string;
+  amount: number;
+  running: number;
+}
+
+interface ExportTotals {
+  credits: number;
+  debits: number;
+  net: number;
+  closing: number;
+}
+
+type BaseColumnKey =
+  | "date"
+  | "description"
+  | "observation"
+  | "category"
+  | "tags"
+  | "bank"
+  | "type"
+  | "installment"
+  | "amount"
+  | "running";
+
+/** Custom fields export as one column each, keyed by the field key. */
+type FieldColumnKey = `field:${string}`;
+type ColumnKey = BaseColumnKey | FieldColumnKey;
+
+interface ExportLayout {
+  columns: ColumnKey[];
+  fields: CustomFieldDefinition[];
+}
+
+/* -------------------------------- Constants ------------------------------- */
+
+const NS = "entriesExport";
+const PAGE_SIZE = 200;
+
+const COLUMNS: Record<EntriesExportContext, BaseColumnKey[]> = {
+  cashflow: ["date", "description", "observation", "category", "tags", "type", "installment", "amount", "running"],
+  settled: ["date", "description", "observation", "category", "tags", "bank", "type", "installment", "amount", "running"],
+};
+
+const XLSX_WIDTHS: Record<BaseColumnKey, number> = {
+  date: 12,
+  description: 40,
+  observation: 30,
+  category: 24,
+  tags: 20,
+  bank: 20,
+  type: 10,
+  installment: 10,
+  amount: 14,
+  running: 16,
+};
+
+const XLSX_FIELD_WIDTH = 18;
+
+/* ------------------------------- i18n helpers ------------------------------ */
+
+function t(key: string, opts?: Record<string, unknown>): string {
+  const fullKey = `${NS}:${key}`;
+  const out = i18next?.t ? i18next.t(fullKey, opts) : fullKey;
+  return typeof out === "string" ? out : String(out ?? "");
+}
+
+function getLocale(): string {
+  const lng = (i18next?.language || "en").trim();
+  if (lng === "pt") return "pt-BR";
+  if (lng === "de") return "de-DE";
+  if (lng === "fr") return "fr-FR";
+  return lng;
+}
+
+function isFieldColumn(key: ColumnKey): key is FieldColumnKey {
+  return key.startsWith("field:");
+}
+
+function columnLabel(key: ColumnKey, context: EntriesExportContext, fields: CustomFieldDefinition[]): string {
+  if (isFieldColumn(key)) return fields.find((f) => `field:${f.key}` === key)?.label ?? key.slice(6);
+  if (key === "date") return context === "settled" ? t("columns.valueDate") : t("columns.dueDate");
+  return t(`columns.${key}`);
+}
+
+/* -------------------------------- Helpers -------------------------------- */
+
+function toNumber(raw: unknown): number | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function installmentLabel(index: number | null, count: number | null): string {
+  return index && count && count > 1 ? `${index}/${count}` : "";
+}
+
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function generateFilename(context: EntriesExportContext, ext: EntriesExportFormat): string {
+  const prefix = (t(`filename.${context}`) || context)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9\-_.]/gi, "");
+
+  const now = new Date();
+  const d = now.toISOString().slice(0, 10);
+  const tm = now.toTimeString().slice(0, 8).replace(/:/g, "-");
+  return `${prefix}-${d}-${tm}.${ext}`;
+}
+
+/* ---------------------------------- Data ---------------------------------- */
+
+async function loadCategoryNames(): Promise<Map<string, string>> {
+  try {
+    const { data } = await api.getCashflowCategories();
+    const list = Array.isArray(data) ? data : [];
+    return new Map(list.map((c) => [c.id, c.code ? `${c.code} · ${c.name}` : c.name]));
+  } catch (e) {
+    // Category names are cosmetic; export the rest rather than failing
+    console.error(e);
+    return new Map();
+  }
+}
+
+async function loadFields(): Promise<CustomFieldDefinition[]> {
+  try {
+    const { data } = await api.getCustomFields();
+    return (data ?? []).filter((f) => f.is_active).sort((a, b) => a.sort_order - b.sort_order);
+  } catch (e) {
+    // Without definitions the custom columns are left out, not the export
+    console.error(e);
+    return [];
+  }
+}
+
+// Custom fields sit right after the tags column
+function layoutFor(context: EntriesExportContext, fields: CustomFieldDefinition[]): ExportLayout {
+  const columns: ColumnKey[] = [];
+  for (const key of COLUMNS[context]) {
+    columns.push(key);
+    if (key === "tags") columns.push(...fields.map((f): FieldColumnKey => `field:${f.key}`));
+  }
+  return { columns, fields };
+}
+
+function fieldCells(values: CustomFieldValues | undefined, fields: CustomFieldDefinition[]): Record<string, string> {
+  return Object.fromEntries(fields.map((f) => [f.key, formatCustomFieldValue(f, values?.[f.key])]));
+}
+
+// Split entries list every slice with its share instead of the primary category alone
+function categoryLabel(
+  e: Pick<Entry, "cashflow_category" | "category_allocations">,
+  categories: Map<string, string>
+): string {
+  if (e.category_allocations?.length) return formatCategoryAllocations(e.category_allocations, categories);
+  return e.cashflow_category ? categories.get(e.cashflow_category) ?? "" : "";
+}
+
+// Totals are in the org currency, as on the cash-flow screens; foreign rows without a rate count as zero
+function orgAmount(e: Pick<Entry, "amount" | "amount_org" | "currency">): number {
+  return (isForeignCurrency(e.currency) ? toNumber(e.amount_org) : toNumber(e.amount)) ?? 0;
+}
+
+// Open entries show what is still open, like the calendar; partly settled ones count their remainder
+function openOrgAmount(e: Pick<Entry, "amount" | "open_amount" | "amount_org" | "currency" | "fx_rate">): number {
+  const open = toNumber(e.open_amount) ?? toNumber(e.amount) ?? 0;
+  if (!isForeignCurrency(e.currency)) return open;
+  const full = toNumber(e.amount);
+  const org = toNumber(e.amount_org) ?? 0;
+  return convertToOrg(open, e.fx_rate) ?? (full ? round2((org * open) / full) : 0);
+}
+
+// Selected rows are requested by id instead of paging the whole filtered list
+async function fetchByIds<T>(
+  ids: string[],
+  load: (chunk: string[]) => Promise<{ data: T[] }>,
+  onBatch: (count: number) => void
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+    const { data } = await load(ids.slice(i, i + PAGE_SIZE));
+    const batch = Array.isArray(data) ? data : [];
+    out.push(...batch);
+    onBatch(batch.length);
+  }
+  return out;
+}
+
+// Bulk lookups come back in no particular order; put them in the table's date order
+function byDate<T>(rows: T[], date: (row: T) => string, sort?: EntrySortOrder): T[] {
+  const dir = sort === "desc" ? -1 : 1;
+  return [...rows].sort((a, b) => dir * date(a).localeCompare(date(b)));
+}
+
+async function fetchRows(options: EntriesExportOptions, fields: CustomFieldDefinition[]): Promise<ExportRow[]> {
+  const { context, filters, sort, selectedIds, onProgress } = options;
+  const categories = await loadCategoryNames();
+  const only = selectedIds?.length ? selectedIds : null;
+
+  let fetched = 0;
+  const progress = (count: number) => {
+    fetched += count;
+    onProgress?.(fetched);
+  };
+  const track = <T>(res: { data: { results?: T[]; next?: string | null } }) => {
+    progress(res.data?.results?.length ?? 0);
+    return res;
+  };
+
+  const mapped: Array<Omit<ExportRow, "running"> & { serverRunning: number | null }> = [];
+
+  if (context === "cashflow") {
+    const base = buildEntryQuery(filters, sort);
+    const all = only
+      ? byDate(await fetchByIds(only, (ids) => api.getEntriesBulk(ids), progress), (e) => e.due_date, sort)
+      : await fetchAllCursor<Entry>(
+          (params) => api.getEntriesTable({ ...base, ...params }).then(track),
+          { pageSize: PAGE_SIZE }
+        );
+
+    for (const e of all) {
+      const isCredit = String(e.tx_type ?? "").toLowerCase().includes("credit");
+      const amount = openOrgAmount(e);
+      mapped.push({
+        date: e.due_date,
+        description: e.description ?? "",
+        observation: e.observation ?? "",
+        category: categoryLabel(e, categories),
+        tags: (e.tags ?? []).join(", "),
+        fields: fieldCells(e.custom_fields, fields),
+        bank: "",
+        isCredit,
+        installment: installmentLabel(e.installment_index, e.installment_count),
+        amount: isCredit ? amount : -amount,
+        serverRunning: toNumber(e.running_balance),
+      });
+    }
+  } else {
+    const base = buildSettledEntryQuery(filters, sort);
+    const all = only
+      ? byDate(await fetchByIds(only, (ids) => api.getSettledEntriesBulk(ids), progress), (e) => e.value_date, sort)
+      : await fetchAllCursor<SettledEntry>(
+          (params) => api.getSettledEntriesTable({ ...base, ...params }).then(track),
+          { pageSize: PAGE_SIZE }
+        );
+
+    for (const e of all) {
+      const isCredit = String(e.tx_type ?? "").toLowerCase().includes("credit");
+      const amount = orgAmount(e);
+      mapped.push({
+        date: e.value_date,
+        description: e.description ?? "",
+        observation: e.observation ?? "",
+        category: categoryLabel(e, categories),
+        tags: (e.tags ?? []).join(", "),
+        fields: fieldCells(e.custom_fields, fields),
+        bank: e.bank?.institution ?? "",
+        isCredit,
+        installment: installmentLabel(e.installment_index, e.installment_count),
+        amount: isCredit ? amount : -amount,
+        serverRunning: toNumber(e.running_balance),
+      });
+    }
+  }
+
+  // Server balances include rows outside the export (opening balance, unselected rows),
+  // so they win; the local sum only fills gaps.
+  let running = 0;
+  return mapped.map(({ serverRunning, ...row }) => {
+    running = serverRunning ?? round2(running + row.amount);
+    return { ...row, running };
+  });
+}
+
+function computeTotals(rows: ExportRow[]): ExportTotals {
+  let credits = 0;
+  let debits = 0;
+  for (const r of rows) {
+    if (r.amount >= 0) credits += r.amount;
+    else debits += -r.amount;
+  }
+  return {
+    credits: round2(credits),
+    debits: round2(debits),
+    net: round2(credits - debits),
+    closing: rows.length ? rows[rows.length - 1].running : 0,
+  };
+}
+
+function cellValue(row: ExportRow, key: ColumnKey): string | number {
+  if (isFieldColumn(key)) return row.fields[key.slice(6)] ?? "";
+  switch (key) {
+    case "date":
+      return row.date;
+    case "type":
+      return row.isCredit ? t("txType.credit") : t("txType.debit");
+    case "amount":
+      return row.amount;
+    case "running":
+      return row.running;
+    default:
+      return row[key];
+  }
+}
+
+/** Label in the first column, value under "amount" (totals) or "running" (closing balance). */
+function totalRows(columns: ColumnKey[], totals: ExportTotals) {
+  const line = (label: string, value: number, at: ColumnKey) =>
+    columns.map((c, i) => (i === 0 ? label : c === at ? value : null));
+
+  return [
+    line(t("totals.credits"), totals.credits, "amount"),
+    line(t("totals.debits"), -totals.debits, "amount"),
+    line(t("totals.net"), totals.net, "amount"),
+    line(t("totals.closingBalance"), totals.closing, "running"),
+  ];
+}
+
+function describePeriod(filters?: EntryFilters): string {
+  const from = filters?.start_date ? formatDateFromISO(filters.start_date) : "";
+  const to = filters?.end_date ? formatDateFromISO(filters.end_date) : "";
+  if (from && to) return t("pdf.period.range", { from, to });
+  if (from) return t("pdf.period.from", { from });
+  if (to) return t("pdf.period.to", { to });
+  return t("pdf.period.all");
+}
+
+/* --------------------------------- Writers -------------------------------- */
+
+function writeCsv(
+  context: EntriesExportContext,
+  layout: ExportLayout,
+  rows: ExportRow[],
+  totals: ExportTotals,
+  filename: string
+) {
+  const { columns, fields } = layout;
+  const isMoney = (k: ColumnKey) => k === "amount" || k === "running";
+
+  const fmt = (key: ColumnKey, v: string | number | null) => {
+    if (v === null) return "";
+    if (isMoney(key) && typeof v === "number") return formatMajorNumber(v.toFixed(2));
+    if (key === "date" && typeof v === "string") return formatDateFromISO(v);
+    return String(v);
+  };
+
+  const data = rows.map((r) => columns.map((k) => fmt(k, cellValue(r, k))));
+  const footer = totalRows(columns, totals).map((line) =>
+    line.map((v, i) => (i === 0 ? String(v) : fmt(columns[i], v)))
+  );
+
+  // Decimal commas clash with "," as separator; Excel in those locales expects ";"
+  const csv = Papa.unparse(
+    { fields: columns.map((k) => columnLabel(k, context, fields)), data: [...data, [], ...footer] },
+    { delimiter: getNumberFormatCode() === "EU" ? ";" : "," }
+  );
+
+  // BOM so Excel picks up UTF-8 accents
+  saveBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+function writeXlsx(
+  context: EntriesExportContext,
+  layout: ExportLayout,
+  rows: ExportRow[],
+  totals: ExportTotals,
+  filename: string
+) {
+  const { columns, fields } = layout;
+  const kinds: Partial<Record<BaseColumnKey, XlsxColumn["kind"]>> = { date: "date", amount: "amount", running: "amount" };
+
+  const blob = buildXlsx({
+    name: t(`title.${context}`),
+    columns: columns.map((k) =>
+      isFieldColumn(k)
+        ? { header: columnLabel(k, context, fields), width: XLSX_FIELD_WIDTH }
+        : { header: columnLabel(k, context, fields), kind: kinds[k], width: XLSX_WIDTHS[k] }
+    ),
+    rows: rows.map((r) => columns.map((k) => cellValue(r, k) as XlsxCell)),
+    footerRows: totalRows(columns, totals),
+  });
+
+  saveBlob(blob, filename);
+}
+
+function writePdf(
+  options: EntriesExportOptions,
+  layout: ExportLayout,
+  rows: ExportRow[],
+  totals: ExportTotals,
+  filename: string
+) {
+  const { context } = options;
+  const { columns, fields } = layout;
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(t(`title.${context}`), pageWidth / 2, 14, { align: "center" });
+
+  const dateStr = new Date().toLocaleString(getLocale(), {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  const subtitle = [
+    describePeriod(options.filters),
+    options.selectedIds?.length ? t("pdf.selectedOnly", { count: rows.length }) : null,
+    t("pdf.generatedAt", { date: dateStr }),
+  ]
+    .filter(Boolean)
+    .join("  ·  ");
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.text(subtitle, pageWidth / 2, 21, { align: "center" });
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(14, 25, pageWidth - 14, 25);
+
+  const fmt = (key: ColumnKey, v: string | number | null) => {
+    if (v === null) return "";
+    if ((key === "amount" || key === "running") && typeof v === "number") return formatCurrency(v);
+    if (key === "date" && typeof v === "string") return formatDateFromISO(v);
+    return String(v);
+  };
+
+  const body: RowInput[] = rows.map((r) => columns.map((k) => fmt(k, cellValue(r, k))));
+  const foot: RowInput[] = totalRows(columns, totals).map((line) =>
+    line.map((v, i) => (i === 0 ? String(v) : fmt(columns[i], v)))
+  );
+
+  const amountCols = Object.fromEntries(
+    columns
+      .map((k, i) => [k, i] as const)
+      .filter(([k]) => k === "amount" || k === "running")
+      .map(([, i]) => [i, { halign: "right" as const, cellWidth: 28 }])
+  );
+
+  autoTable(doc, {
+    startY: 30,
+    head: [columns.map((k) => columnLabel(k, context, fields))],
+    body,
+    foot,
+    showFoot: "lastPage",
+    theme: "striped",
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+      textColor: [33, 37, 41],
+      overflow: "linebreak",
+      valign: "middle",
+    },
+    headStyles: {
+      fillColor: [52, 144, 220],
+      textColor: [255, 255, 255],
+      fontStyle: "bold",
+      fontSize: 9,
+    },
+    footStyles: {
+      fillColor: [241, 243, 245],
+      textColor: [33, 37, 41],
+      fontStyle: "bold",
+    },
+    alternateRowStyles: {
+      fillColor: [248, 249, 250],
+    },
+    margin: { left: 14, right: 14 },
+    columnStyles: { 0: { cellWidth: 22 }, ...amountCols },
+  });
+
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(108, 117, 125);
+    doc.text(t("pdf.footer.page", { current: i, total: totalPages }), pageWidth / 2, pageHeight - 8, {
+      align: "center",
+    });
+    doc.setDrawColor(220, 220, 220);
+    doc.line(14, pageHeight - 12, pageWidth - 14, pageHeight - 12);
+  }
+
+  doc.save(filename);
+}
+
+/* --------------------------------- Public --------------------------------- */
+
+/**
+ * Exports the CashFlow or Settled table as CSV, XLSX or PDF. Fetches every page
+ * of the current filter (not just what is loaded on screen) and appends
+ * credit/debit/net totals and the closing running balance.
+ */
+export async function exportEntries(options: EntriesExportOptions): Promise<EntriesExportResult> {
+  const { context, format } = options;
+
+  try {
+    const fields = await loadFields();
+    const rows = await fetchRows(options, fields);
+
+    if (!rows.length) {
+      return { success: false, message: t("messages.empty"), rowCount: 0 };
+    }
+
+    const layout = layoutFor(context, fields);
+    const totals = computeTotals(rows);
+    const filename = generateFilename(context, format);
+
+    if (format === "csv") writeCsv(context, layout, rows, totals, filename);
+    else if (format === "xlsx") writeXlsx(context, layout, rows, totals, filename);
+    else writePdf(options, layout, rows, totals, filename);
+
+    return {
+      success: true,
+      message: t("messages.ok", { count: rows.length }),
+      filename,
+      rowCount: rows.length,
+    };
+  } catch (error: unknown) {
+    console.error("Error exporting entries:", error);
+    return { success: false, message: t("messages.error") };
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./entriesExport"
+export * from "./agingExport"
+export * from "./xlsxWriter"
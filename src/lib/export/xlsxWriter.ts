@@ -0,0 +1,192 @@
+/* -------------------------------------------------------------------------- */
+/*  File: src/lib/export/xlsxWriter.ts                                        */
+/* -------------------------------------------------------------------------- */
+
+import { strToU8, zipSync } from "fflate";
+
+/* --------------------------------- Types --------------------------------- */
+
+export type XlsxColumnKind = "text" | "amount" | "date";
+
+export interface XlsxColumn {
+  header: string;
+  kind?: XlsxColumnKind;
+  /** Width in characters. */
+  width?: number;
+}
+
+/** Amount cells take numbers, date cells take `YYYY-MM-DD` strings. */
+export type XlsxCell = string | number | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+  /** Rendered in bold after a blank row, e.g. totals. */
+  footerRows?: XlsxCell[][];
+}
+
+/* -------------------------------- Constants ------------------------------- */
+
+const MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Indexes into <cellXfs> below
+const STYLE = {
+  text: 0,
+  bold: 1,
+  amount: 2,
+  date: 3,
+  boldAmount: 4,
+} as const;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Built-in numFmt 4 = "#,##0.00" and 14 = locale short date, so Excel applies the reader's separators
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+/* -------------------------------- Helpers -------------------------------- */
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Control chars other than tab/CR/LF are invalid in XML 1.0 and break the workbook. */
+function stripControlChars(s: string): string {
+  let out = "";
+  for (const ch of s) {
+    const code = ch.charCodeAt(0);
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) out += ch;
+  }
+  return out;
+}
+
+function columnLetter(index: number): string {
+  let n = index + 1;
+  let out = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    out = String.fromCharCode(65 + rem) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+/** `YYYY-MM-DD` → Excel serial day (1900 date system). */
+function toExcelSerial(iso: string): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(iso);
+  if (!m) return null;
+  const utc = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return Math.round((utc - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+function sheetName(raw: string): string {
+  const cleaned = raw.replace(/[\\/?*[\]:]/g, " ").trim();
+  return (cleaned || "Sheet1").slice(0, 31);
+}
+
+function renderCell(ref: string, value: XlsxCell, kind: XlsxColumnKind, bold: boolean): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (kind === "amount" && typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}" s="${bold ? STYLE.boldAmount : STYLE.amount}"><v>${value}</v></c>`;
+  }
+
+  if (kind === "date" && typeof value === "string") {
+    const serial = toExcelSerial(value);
+    if (serial !== null) return `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`;
+  }
+
+  const s = bold ? ` s="${STYLE.bold}"` : "";
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(stripControlChars(String(value)))}</t></is></c>`;
+}
+
+function renderSheet(sheet: XlsxSheet): string {
+  const lines: string[] = [];
+  let r = 0;
+
+  const pushRow = (cells: XlsxCell[], bold: boolean, asText = false) => {
+    r += 1;
+    const xml = cells
+      .map((v, c) => renderCell(`${columnLetter(c)}${r}`, v, asText ? "text" : sheet.columns[c]?.kind ?? "text", bold))
+      .join("");
+    lines.push(`<row r="${r}">${xml}</row>`);
+  };
+
+  pushRow(sheet.columns.map((c) => c.header), true, true);
+  sheet.rows.forEach((row) => pushRow(row, false));
+
+  if (sheet.footerRows?.length) {
+    r += 1;
+    sheet.footerRows.forEach((row) => pushRow(row, true));
+  }
+
+  const cols = sheet.columns
+    .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? 14}" customWidth="1"/>`)
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${lines.join("")}</sheetData>
+</worksheet>`;
+}
+
+/* --------------------------------- Public --------------------------------- */
+
+/**
+ * Single-sheet XLSX with typed amount/date cells, so totals and sorting work
+ * in Excel without re-parsing localized strings.
+ */
+export function buildXlsx(sheet: XlsxSheet): Blob {
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  const zipped = zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(ROOT_RELS),
+    "xl/workbook.xml": strToU8(workbook),
+    "xl/_rels/workbook.xml.rels": strToU8(WORKBOOK_RELS),
+    "xl/styles.xml": strToU8(STYLES),
+    "xl/worksheets/sheet1.xml": strToU8(renderSheet(sheet)),
+  });
+
+  return new Blob([zipped], { type: MIME });
+}
@@ -106,6 +106,11 @@ import enCashFlow from "./locales/en/cashFlow.json";
 import frCashFlow from "./locales/fr/cashFlow.json";
 import deCashFlow from "./locales/de/cashFlow.json";
 
+import ptCashFlowCalendar from "./locales/pt/cashFlowCalendar.json";
+import enCashFlowCalendar from "./locales/en/cashFlowCalendar.json";
+import frCashFlowCalendar from "./locales/fr/cashFlowCalendar.json";
+import deCashFlowCalendar from "./locales/de/cashFlowCalendar.json";
+
 import ptSettled from "./locales/pt/settled.json";
 import enSettled from "./locales/en/settled.json";
 import frSettled from "./locales/fr/settled.json";
@@ -116,6 +121,16 @@ import enReports from "./locales/en/reports.json";
 import frReports from "./locales/fr/reports.json";
 import deReports from "./locales/de/reports.json";
 
+import ptApprovals from "./locales/pt/approvals.json";
+import enApprovals from "./locales/en/approvals.json";
+import frApprovals from "./locales/fr/approvals.json";
+import deApprovals from "./locales/de/approvals.json";
+
+import ptDuplicates from "./locales/pt/duplicates.json";
+import enDuplicates from "./locales/en/duplicates.json";
+import frDuplicates from "./locales/fr/duplicates.json";
+import deDuplicates from "./locales/de/duplicates.json";
+
 /* -------------------------------------------------------------------------- */
 /* Generic UI                                                                   */
 /* -------------------------------------------------------------------------- */
@@ -149,6 +164,21 @@ import enEntriesModal from "./locales/en/entriesModal.json";
 import frEntriesModal from "./locales/fr/entriesModal.json";
 import deEntriesModal from "./locales/de/entriesModal.json";
 
+import ptBulkEntryModal from "./locales/pt/bulkEntryModal.json";
+import enBulkEntryModal from "./locales/en/bulkEntryModal.json";
+import frBulkEntryModal from "./locales/fr/bulkEntryModal.json";
+import deBulkEntryModal from "./locales/de/bulkEntryModal.json";
+
+import ptEntriesExport from "./locales/pt/entriesExport.json";
+import enEntriesExport from "./locales/en/entriesExport.json";
+import frEntriesExport from "./locales/fr/entriesExport.json";
+import deEntriesExport from "./locales/de/entriesExport.json";
+
+import ptAgingExport from "./locales/pt/agingExport.json";
+import enAgingExport from "./locales/en/agingExport.json";
+import frAgingExport from "./locales/fr/agingExport.json";
+import deAgingExport from "./locales/de/agingExport.json";
+
 import ptTransferenceModal from "./locales/pt/transferenceModal.json";
 import enTransferenceModal from "./locales/en/transferenceModal.json";
 import frTransferenceModal from "./locales/fr/transferenceModal.json";
@@ -159,6 +189,26 @@ import enSettlementModal from "./locales/en/settlementModal.json";
 import frSettlementModal from "./locales/fr/settlementModal.json";
 import deSettlementModal from "./locales/de/settlementModal.json";
 
+import ptAttachments from "./locales/pt/attachments.json";
+import enAttachments from "./locales/en/attachments.json";
+import frAttachments from "./locales/fr/attachments.json";
+import deAttachments from "./locales/de/attachments.json";
+
+import ptEntryHistory from "./locales/pt/entryHistory.json";
+import enEntryHistory from "./locales/en/entryHistory.json";
+import frEntryHistory from "./locales/fr/entryHistory.json";
+import deEntryHistory from "./locales/de/entryHistory.json";
+
+import ptEntryComments from "./locales/pt/entryComments.json";
+import enEntryComments from "./locales/en/entryComments.json";
+import frEntryComments from "./locales/fr/entryComments.json";
+import deEntryComments from "./locales/de/entryComments.json";
+
+import ptNotificationInbox from "./locales/pt/notificationInbox.json";
+import enNotificationInbox from "./locales/en/notificationInbox.json";
+import frNotificationInbox from "./locales/fr/notificationInbox.json";
+import deNotificationInbox from "./locales/de/notificationInbox.json";
+
 import ptBanksTable from "./locales/pt/banksTable.json";
 import enBanksTable from "./locales/en/banksTable.json";
 import frBanksTable from "./locales/fr/banksTable.json";
@@ -247,6 +297,31 @@ import enCurrencySettings from "./locales/en/currencySettings.json";
 import frCurrencySettings from "./locales/fr/currencySettings.json";
 import deCurrencySettings from "./locales/de/currencySettings.json";
 
+import ptBusinessCalendarSettings from "./locales/pt/businessCalendarSettings.json";
+import enBusinessCalendarSettings from "./locales/en/businessCalendarSettings.json";
+import frBusinessCalendarSettings from "./locales/fr/businessCalendarSettings.json";
+import deBusinessCalendarSettings from "./locales/de/businessCalendarSettings.json";
+
+import ptApprovalRulesSettings from "./locales/pt/approvalRulesSettings.json";
+import enApprovalRulesSettings from "./locales/en/approvalRulesSettings.json";
+import frApprovalRulesSettings from "./locales/fr/approvalRulesSettings.json";
+import deApprovalRulesSettings from "./locales/de/approvalRulesSettings.json";
+
+import ptCustomFieldsSettings from "./locales/pt/customFieldsSettings.json";
+import enCustomFieldsSettings from "./locales/en/customFieldsSettings.json";
+import frCustomFieldsSettings from "./locales/fr/customFieldsSettings.json";
+import deCustomFieldsSettings from "./locales/de/customFieldsSettings.json";
+
+import ptTrashSettings from "./locales/pt/trashSettings.json";
+import enTrashSettings from "./locales/en/trashSettings.json";
+import frTrashSettings from "./locales/fr/trashSettings.json";
+import deTrashSettings from "./locales/de/trashSettings.json";
+
+import ptCategorizationRulesSettings from "./locales/pt/categorizationRulesSettings.json";
+import enCategorizationRulesSettings from "./locales/en/categorizationRulesSettings.json";
+import frCategorizationRulesSettings from "./locales/fr/categorizationRulesSettings.json";
+import deCategorizationRulesSettings from "./locales/de/categorizationRulesSettings.json";
+
 import ptSecurityAndPrivacy from "./locales/pt/securityAndPrivacy.json";
 import enSecurityAndPrivacy from "./locales/en/securityAndPrivacy.json";
 import frSecurityAndPrivacy from "./locales/fr/securityAndPrivacy.json";
@@ -368,8 +443,11 @@ const NAMESPACES = [
   "limits",
 
   "cashFlow",
+  "cashFlowCalendar",
   "settled",
   "reports",
+  "approvals",
+  "duplicates",
 
   "selectionActionsBar",
   "select",
@@ -377,8 +455,15 @@ const NAMESPACES = [
   "filterBar",
   "kpiCards",
   "entriesModal",
+  "bulkEntryModal",
+  "entriesExport",
+  "agingExport",
   "transferenceModal",
   "settlementModal",
+  "attachments",
+  "entryHistory",
+  "entryComments",
+  "notificationInbox",
   "banksTable",
   "cashFlowTable",
   "settledTable",
@@ -397,6 +482,11 @@ const NAMESPACES = [
   "groupSettings",
   "groupPermissionsTable",
   "currencySettings",
+  "businessCalendarSettings",
+  "approvalRulesSettings",
+  "customFieldsSettings",
+  "trashSettings",
+  "categorizationRulesSettings",
   "securityAndPrivacy",
 
   "memberSettings",
@@ -443,8 +533,11 @@ const resources: Resource = {
     limits: ptLimits,
 
     cashFlow: ptCashFlow,
+    cashFlowCalendar: ptCashFlowCalendar,
     settled: ptSettled,
     reports: ptReports,
+    approvals: ptApprovals,
+    duplicates: ptDuplicates,
 
     selectionActionsBar: ptSelectionActionsBar,
     select: ptSelect,
@@ -452,8 +545,15 @@ const resources: Resource = {
     filterBar: ptFilterBar,
     kpiCards: ptKpiCards,
     entriesModal: ptEntriesModal,
+    bulkEntryModal: ptBulkEntryModal,
+    entriesExport: ptEntriesExport,
+    agingExport: ptAgingExport,
     transferenceModal: ptTransferenceModal,
     settlementModal: ptSettlementModal,
+    attachments: ptAttachments,
+    entryHistory: ptEntryHistory,
+    entryComments: ptEntryComments,
+    notificationInbox: ptNotificationInbox,
     banksTable: ptBanksTable,
     cashFlowTable: ptCashFlowTable,
     settledTable: ptSettledTable,
@@ -472,6 +572,11 @@ const resources: Resource = {
     groupSettings: ptGroupSettings,
     groupPermissionsTable: ptGroupPermissionsTable,
     currencySettings: ptCurrencySettings,
+    businessCalendarSettings: ptBusinessCalendarSettings,
+    approvalRulesSettings: ptApprovalRulesSettings,
+    customFieldsSettings: ptCustomFieldsSettings,
+    trashSettings: ptTrashSettings,
+    categorizationRulesSettings: ptCategorizationRulesSettings,
     securityAndPrivacy: ptSecurityAndPrivacy,
 
     memberSettings: ptMemberSettings,
@@ -513,8 +618,11 @@ const resources: Resource = {
     limits: enLimits,
 
     cashFlow: enCashFlow,
+    cashFlowCalendar: enCashFlowCalendar,
     settled: enSettled,
     reports: enReports,
+    approvals: enApprovals,
+    duplicates: enDuplicates,
 
     selectionActionsBar: enSelectionActionsBar,
     select: enSelect,
@@ -522,8 +630,15 @@ const resources: Resource = {
     filterBar: enFilterBar,
     kpiCards: enKpiCards,
     entriesModal: enEntriesModal,
+    bulkEntryModal: enBulkEntryModal,
+    entriesExport: enEntriesExport,
+    agingExport: enAgingExport,
     transferenceModal: enTransferenceModal,
     settlementModal: enSettlementModal,
+    attachments: enAttachments,
+    entryHistory: enEntryHistory,
+    entryComments: enEntryComments,
+    notificationInbox: enNotificationInbox,
     banksTable: enBanksTable,
     cashFlowTable: enCashFlowTable,
     settledTable: enSettledTable,
@@ -542,6 +657,11 @@ const resources: Resource = {
     groupSettings: enGroupSettings,
     groupPermissionsTable: enGroupPermissionsTable,
     currencySettings: enCurrencySettings,
+    businessCalendarSettings: enBusinessCalendarSettings,
+    approvalRulesSettings: enApprovalRulesSettings,
+    customFieldsSettings: enCustomFieldsSettings,
+    trashSettings: enTrashSettings,
+    categorizationRulesSettings: enCategorizationRulesSettings,
     securityAndPrivacy: enSecurityAndPrivacy,
 
     memberSettings: enMemberSettings,
@@ -583,8 +703,11 @@ const resources: Resource = {
     limits: frLimits,
 
     cashFlow: frCashFlow,
+    cashFlowCalendar: frCashFlowCalendar,
     settled: frSettled,
     reports: frReports,
+    approvals: frApprovals,
+    duplicates: frDuplicates,
 
     selectionActionsBar: frSelectionActionsBar,
     select: frSelect,
@@ -592,8 +715,15 @@ const resources: Resource = {
     filterBar: frFilterBar,
     kpiCards: frKpiCards,
     entriesModal: frEntriesModal,
+    bulkEntryModal: frBulkEntryModal,
+    entriesExport: frEntriesExport,
+    agingExport: frAgingExport,
     transferenceModal: frTransferenceModal,
     settlementModal: frSettlementModal,
+    attachments: frAttachments,
+    entryHistory: frEntryHistory,
+    entryComments: frEntryComments,
+    notificationInbox: frNotificationInbox,
     banksTable: frBanksTable,
     cashFlowTable: frCashFlowTable,
     settledTable: frSettledTable,
@@ -612,6 +742,11 @@ const resources: Resource = {
     groupSettings: frGroupSettings,
     groupPermissionsTable: frGroupPermissionsTable,
     currencySettings: frCurrencySettings,
+    businessCalendarSettings: frBusinessCalendarSettings,
+    approvalRulesSettings: frApprovalRulesSettings,
+    customFieldsSettings: frCustomFieldsSettings,
+    trashSettings: frTrashSettings,
+    categorizationRulesSettings: frCategorizationRulesSettings,
     securityAndPrivacy: frSecurityAndPrivacy,
 
     memberSettings: frMemberSettings,
@@ -653,8 +788,11 @@ const resources: Resource = {
     limits: deLimits,
 
     cashFlow: deCashFlow,
+    cashFlowCalendar: deCashFlowCalendar,
     settled: deSettled,
     reports: deReports,
+    approvals: deApprovals,
+    duplicates: deDuplicates,
 
     selectionActionsBar: deSelectionActionsBar,
     select: deSelect,
@@ -662,8 +800,15 @@ const resources: Resource = {
     filterBar: deFilterBar,
     kpiCards: deKpiCards,
     entriesModal: deEntriesModal,
+    bulkEntryModal: deBulkEntryModal,
+    entriesExport: deEntriesExport,
+    agingExport: deAgingExport,
     transferenceModal: deTransferenceModal,
     settlementModal: deSettlementModal,
+    attachments: deAttachments,
+    entryHistory: deEntryHistory,
+    entryComments: deEntryComments,
+    notificationInbox: deNotificationInbox,
     banksTable: deBanksTable,
     cashFlowTable: deCashFlowTable,
     settledTable: deSettledTable,
@@ -682,6 +827,11 @@ const resources: Resource = {
     groupSettings: deGroupSettings,
     groupPermissionsTable: deGroupPermissionsTable,
     currencySettings: deCurrencySettings,
+    businessCalendarSettings: deBusinessCalendarSettings,
+    approvalRulesSettings: deApprovalRulesSettings,
+    customFieldsSettings: deCustomFieldsSettings,
+    trashSettings: deTrashSettings,
+    categorizationRulesSettings: deCategorizationRulesSettings,
     securityAndPrivacy: deSecurityAndPrivacy,
 
     memberSettings: deMemberSettings,
@@ -1,6 +1,14 @@
+export * from "./allocations";
+export * from "./approvals";
+export * from "./categorizationRules";
 export * from "./currency";
+export * from "./customFields";
 export * from "./date";
+export * from "./duplicates";
+export * from "./export";
 export * from "./list";
 export * from "./location";
 export * from "./pdf";
+export * from "./reconciliation";
+export * from "./statementParsers";
 export * from "./validation";
@@ -0,0 +1,77 @@
+// src/lib/list/entryQueries.ts
+
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
+import type { GetEntryRequest } from "@/models/entries/entries";
+import type { GetSettledEntryRequest } from "@/models/entries/settlements";
+
+/* Shared by the CashFlow/Settled tables and exports so both hit the same rows. */
+
+export const parseOptionalAmount = (v: unknown): number | undefined => {
+  if (v === null || v === undefined) return undefined;
+
+  if (typeof v === "number") {
+    return Number.isFinite(v) ? v : undefined;
+  }
+
+  const raw = String(v).trim();
+  if (!raw) return undefined;
+
+  const cleaned = raw.replace(/[^\d.,-]/g, "").replace(/\s+/g, "");
+  const normalized =
+    cleaned.includes(",") && cleaned.includes(".")
+      ? cleaned.replace(/\./g, "").replace(",", ".")
+      : cleaned.replace(",", ".");
+
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const joinIds = (ids?: string[]) => (Array.isArray(ids) && ids.length ? ids.map(String).join(",") : undefined);
+
+function commonQuery(f?: EntryFilters) {
+  const qCombined =
+    (f?.description ? String(f.description).trim() : "") +
+    (f?.observation ? ` ${String(f.observation).trim()}` : "");
+
+  return {
+    q: qCombined.trim() || undefined,
+    description: f?.description || undefined,
+    observation: f?.observation || undefined,
+    cashflow_category: joinIds(f?.cashflow_category_id),
+    bank: joinIds(f?.bank_id),
+    project: joinIds(f?.project_id),
+    entity: joinIds(f?.entity_id),
+    department: joinIds(f?.department_id),
+    inventory_item: joinIds(f?.inventory_item_id),
+    document_type: joinIds(f?.document_type),
+    tags: joinIds(f?.tags),
+    custom_fields: f?.custom_fields && Object.keys(f.custom_fields).length ? JSON.stringify(f.custom_fields) : undefined,
+    installment: f?.installment,
+    settlement_state: f?.settlement_state,
+    query: f?.query ? JSON.stringify(f.query) : undefined,
+    tx_type: f?.tx_type === "credit" ? 1 : f?.tx_type === "debit" ? -1 : undefined,
+    amount_min: parseOptionalAmount(f?.amount_min),
+    amount_max: parseOptionalAmount(f?.amount_max),
+  };
+}
+
+/** `EntryFilters` → query for `getEntriesTable` (open entries, filtered by due date). */
+export function buildEntryQuery(f?: EntryFilters, sort?: EntrySortOrder): GetEntryRequest {
+  return {
+    date_from: f?.start_date || undefined,
+    date_to: f?.end_date || undefined,
+    ...commonQuery(f),
+    ordering: sort === "desc" ? "-due_date" : undefined,
+  };
+}
+
+/** `EntryFilters` → query for `getSettledEntriesTable` (filtered by value date). */
+export function buildSettledEntryQuery(f?: EntryFilters, sort?: EntrySortOrder): GetSettledEntryRequest {
+  return {
+    value_from: f?.start_date || undefined,
+    value_to: f?.end_date || undefined,
+    ...commonQuery(f),
+    ordering: sort === "desc" ? "-value_date" : undefined,
+    include_inactive: true,
+  };
+}
@@ -0,0 +1,209 @@
+// src/lib/list/entryViewUrl.ts
+
+import type {
+  CustomFieldFilters,
+  EntryFilters,
+  EntryViewState,
+  InstallmentFilter,
+  QueryGroup,
+  QueryNode,
+  SettlementStateFilter,
+} from "@/models/components/filterBar";
+
+/* Shareable `/cashflow` and `/settled` links. Params are short and flat so links stay readable. */
+
+type IdListKey =
+  | "bank_id"
+  | "cashflow_category_id"
+  | "project_id"
+  | "entity_id"
+  | "department_id"
+  | "inventory_item_id"
+  | "document_type";
+
+const ID_LIST_PARAMS: Record<IdListKey, string> = {
+  bank_id: "bank",
+  cashflow_category_id: "category",
+  project_id: "project",
+  entity_id: "entity",
+  department_id: "department",
+  inventory_item_id: "item",
+  document_type: "doc",
+};
+
+const INSTALLMENT_VALUES: InstallmentFilter[] = ["single", "installments"];
+const SETTLEMENT_STATE_VALUES: SettlementStateFilter[] = ["unsettled", "partial", "settled"];
+
+// Links are pasted by hand; anything outside these shapes is dropped rather than sent to the API
+const ID_RE = /^[\w-]{1,64}$/;
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const AMOUNT_RE = /^\d+(?:[.,]\d{1,2})?$/;
+const MAX_QUERY_DEPTH = 4;
+const MAX_TEXT = 200;
+const MAX_TAGS = 50;
+
+/* -------------------------------- Helpers -------------------------------- */
+
+const readIds = (raw: string | null): string[] =>
+  raw ? Array.from(new Set(raw.split(",").map((s) => s.trim()).filter((s) => ID_RE.test(s)))) : [];
+
+// Tags are free text, so they get the text treatment; `,` and `;` never occur inside one
+const readTags = (raw: string | null): string[] => {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const part of (raw ?? "").split(/[;,]/)) {
+    const tag = part.trim().slice(0, MAX_TEXT);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    out.push(tag);
+    if (out.length >= MAX_TAGS) break;
+  }
+  return out;
+};
+
+const readDate = (raw: string | null) => (raw && ISO_DATE_RE.test(raw) ? raw : undefined);
+
+const readAmount = (raw: string | null) => (raw && AMOUNT_RE.test(raw.trim()) ? raw.trim() : "");
+
+const readText = (raw: string | null) => (raw ?? "").slice(0, MAX_TEXT);
+
+function readEnum<T extends string>(raw: string | null, allowed: readonly T[]): T | undefined {
+  return allowed.find((v) => v === raw);
+}
+
+function isQueryNode(v: unknown, depth: number): v is QueryNode {
+  if (typeof v !== "object" || v === null) return false;
+  const n = v as Record<string, unknown>;
+  if (n.negate !== undefined && typeof n.negate !== "boolean") return false;
+
+  switch (n.type) {
+    case "group":
+      return isQueryGroup(v, depth);
+    case "text":
+      return (
+        (n.field === "description" || n.field === "observation") &&
+        (n.op === "contains" || n.op === "starts_with" || n.op === "equals") &&
+        typeof n.value === "string"
+      );
+    case "in":
+      return (
+        typeof n.field === "string" &&
+        Array.isArray(n.values) &&
+        n.values.every((x) => typeof x === "string" && ID_RE.test(x))
+      );
+    case "range":
+      return (
+        (n.field === "amount" || n.field === "date") &&
+        [n.min, n.max].every((x) => x === undefined || typeof x === "string")
+      );
+    default:
+      return false;
+  }
+}
+
+function isQueryGroup(v: unknown, depth = 0): v is QueryGroup {
+  if (depth > MAX_QUERY_DEPTH || typeof v !== "object" || v === null) return false;
+  const g = v as Record<string, unknown>;
+  return (
+    g.type === "group" &&
+    (g.op === "and" || g.op === "or") &&
+    Array.isArray(g.children) &&
+    g.children.every((c) => isQueryNode(c, depth + 1))
+  );
+}
+
+/** `{ fieldKey: [values] }`; keys must look like ids and values are trimmed to the text limit. */
+function readCustomFields(raw: string | null): CustomFieldFilters {
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+
+  const out: CustomFieldFilters = {};
+  for (const [key, values] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!ID_RE.test(key) || !Array.isArray(values)) continue;
+    const list = values.filter((v): v is string => typeof v === "string" && !!v).map((v) => v.slice(0, MAX_TEXT));
+    if (list.length) out[key] = Array.from(new Set(list));
+  }
+  return out;
+}
+
+function readQuery(raw: string | null): QueryGroup | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isQueryGroup(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/* --------------------------------- Public --------------------------------- */
+
+/** Reads a shared view; unknown or malformed params are ignored. */
+export function parseEntryViewParams(params: URLSearchParams, contextSettlement: boolean): EntryViewState {
+  const filters: EntryFilters = {
+    settlement_status: contextSettlement,
+    start_date: readDate(params.get("from")),
+    end_date: readDate(params.get("to")),
+    description: readText(params.get("q")),
+    observation: readText(params.get("obs")),
+    tx_type: readEnum(params.get("type"), ["credit", "debit"] as const),
+    amount_min: readAmount(params.get("min")),
+    amount_max: readAmount(params.get("max")),
+    installment: readEnum(params.get("installment"), INSTALLMENT_VALUES),
+    settlement_state: readEnum(params.get("state"), SETTLEMENT_STATE_VALUES),
+    tags: readTags(params.get("tag")),
+    custom_fields: readCustomFields(params.get("fields")),
+    query: readQuery(params.get("query")),
+  };
+
+  (Object.keys(ID_LIST_PARAMS) as IdListKey[]).forEach((key) => {
+    filters[key] = readIds(params.get(ID_LIST_PARAMS[key]));
+  });
+
+  const entry = params.get("entry");
+
+  return {
+    filters,
+    sort: params.get("sort") === "desc" ? "desc" : "asc",
+    entryId: entry && ID_RE.test(entry) ? entry : null,
+    layout: params.get("layout") === "calendar" ? "calendar" : "table",
+  };
+}
+
+/** Inverse of `parseEntryViewParams`; empty values are left out. */
+export function buildEntryViewParams(view: EntryViewState): URLSearchParams {
+  const { filters: f, sort, entryId, layout } = view;
+  const params = new URLSearchParams();
+  const set = (name: string, value?: string | null) => {
+    if (value) params.set(name, value);
+  };
+
+  set("from", f.start_date);
+  set("to", f.end_date);
+  set("q", f.description?.trim());
+  set("obs", f.observation?.trim());
+  set("type", f.tx_type);
+  set("min", f.amount_min);
+  set("max", f.amount_max);
+
+  (Object.keys(ID_LIST_PARAMS) as IdListKey[]).forEach((key) => {
+    set(ID_LIST_PARAMS[key], f[key]?.join(","));
+  });
+
+  set("tag", f.tags?.join(","));
+  set("fields", f.custom_fields && Object.keys(f.custom_fields).length ? JSON.stringify(f.custom_fields) : undefined);
+  set("installment", f.installment);
+  set("state", f.settlement_state);
+  set("query", f.query ? JSON.stringify(f.query) : undefined);
+  set("sort", sort === "desc" ? "desc" : undefined);
+  set("entry", entryId);
+  set("layout", layout === "calendar" ? layout : undefined);
+
+  return params;
+}
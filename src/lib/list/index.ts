@@ -1 +1,3 @@
-export * from "./cursors"
\ No newline at end of file
+export * from "./cursors"
+export * from "./entryQueries"
+export * from "./entryViewUrl"
@@ -0,0 +1,2 @@
+export * from "./suggestMatches"
+export * from "./openEntryMatches"
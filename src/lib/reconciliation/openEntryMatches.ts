@@ -0,0 +1,151 @@
+// src/lib/reconciliation/openEntryMatches.ts
+
+import { api } from "@/api/requests";
+import { isForeignCurrency } from "@/lib/currency";
+import type { Entry } from "@/models/entries/entries";
+import { toSignedMinor } from "../duplicates/scoreDuplicates";
+import { fetchAllCursor } from "../list";
+import { daysBetween, descriptionSimilarity } from "./suggestMatches";
+
+/**
+ * An entry that is still (partly) open, reduced to what a bank line can be
+ * matched on. Amounts are signed minor units (credit > 0, debit < 0).
+ */
+export type OpenEntryCandidate = {
+  id: string;
+  dueDate: string; // YYYY-MM-DD
+  /** What is left to settle. */
+  openAmountMinor: number;
+  entityId: string | null;
+  description: string;
+};
+
+/** The bank line side: a statement import row with its current draft values. */
+export type BankLine = {
+  date: string; // YYYY-MM-DD
+  amountMinor: number;
+  entityId: string | null;
+  description: string;
+};
+
+export type OpenEntrySignal = "amount" | "date" | "entity" | "description";
+
+export type OpenEntryMatch = {
+  id: string;
+  score: number; // 0..1
+  /** The line pays less than the open amount, so settling leaves a remainder. */
+  partial: boolean;
+  signals: OpenEntrySignal[];
+};
+
+export type OpenEntryOptions = {
+  /** Max distance in days between the line date and the due date. */
+  dateWindowDays?: number;
+  /** Matches below this score are dropped. */
+  minScore?: number;
+  /** Suggestions returned per line. */
+  limit?: number;
+};
+
+const DEFAULTS: Required<OpenEntryOptions> = {
+  // Bills are often paid a couple of weeks early or late
+  dateWindowDays: 15,
+  minScore: 0.6,
+  limit: 3,
+};
+
+const WEIGHTS = { amount: 0.5, date: 0.2, entity: 0.2, description: 0.1 } as const;
+
+/** Null for settled entries and foreign-currency ones, which a bank line cannot be compared with directly. */
+export function entryToOpenCandidate(
+  entry: Pick<Entry, "id" | "due_date" | "amount" | "open_amount" | "tx_type" | "currency" | "entity" | "description" | "is_settled">
+): OpenEntryCandidate | null {
+  if (entry.is_settled || isForeignCurrency(entry.currency)) return null;
+  const openAmountMinor = toSignedMinor(entry.open_amount ?? entry.amount, entry.tx_type);
+  if (!openAmountMinor) return null;
+
+  return {
+    id: entry.id,
+    dueDate: entry.due_date,
+    openAmountMinor,
+    entityId: entry.entity || null,
+    description: entry.description || "",
+  };
+}
+
+/**
+ * Scores how likely `line` pays `entry`. Same direction is required and the
+ * line may not exceed the open amount. An exact amount is the strong signal;
+ * a smaller one only counts as a partial payment when the entity or the
+ * wording backs it up.
+ */
+export function scoreOpenEntry(
+  line: BankLine,
+  entry: OpenEntryCandidate,
+  dateWindowDays: number = DEFAULTS.dateWindowDays
+): OpenEntryMatch {
+  const none: OpenEntryMatch = { id: entry.id, score: 0, partial: false, signals: [] };
+
+  if (!line.amountMinor || Math.sign(line.amountMinor) !== Math.sign(entry.openAmountMinor)) return none;
+  if (line.entityId && entry.entityId && line.entityId !== entry.entityId) return none;
+
+  const paid = Math.abs(line.amountMinor);
+  const open = Math.abs(entry.openAmountMinor);
+  if (paid > open) return none;
+  const partial = paid < open;
+
+  const gap = daysBetween(line.date, entry.dueDate);
+  if (gap > dateWindowDays) return none;
+  const dateScore = dateWindowDays > 0 ? 1 - gap / (dateWindowDays + 1) : 1;
+
+  // A missing entity on either side is neutral rather than a mismatch
+  const entityScore = line.entityId && entry.entityId ? 1 : 0.5;
+  const descriptionScore = descriptionSimilarity(line.description, entry.description);
+  if (partial && entityScore < 1 && descriptionScore < 0.3) return none;
+
+  const score =
+    (partial ? 0.5 : 1) * WEIGHTS.amount +
+    dateScore * WEIGHTS.date +
+    entityScore * WEIGHTS.entity +
+    descriptionScore * WEIGHTS.description;
+
+  const signals: OpenEntrySignal[] = [];
+  if (!partial) signals.push("amount");
+  if (gap <= 3) signals.push("date");
+  if (entityScore === 1) signals.push("entity");
+  if (descriptionScore >= 0.5) signals.push("description");
+
+  return { id: entry.id, score: Math.max(0, Math.min(1, score)), partial, signals };
+}
+
+/** Open entries `line` most likely pays, best first. */
+export function suggestOpenEntries(
+  line: BankLine,
+  pool: OpenEntryCandidate[],
+  options?: OpenEntryOptions
+): OpenEntryMatch[] {
+  const opts = { ...DEFAULTS, ...(options ?? {}) };
+  return pool
+    .map((entry) => scoreOpenEntry(line, entry, opts.dateWindowDays))
+    .filter((m) => m.score >= opts.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, opts.limit);
+}
+
+export type OpenEntryPool = {
+  candidates: OpenEntryCandidate[];
+  byId: Map<string, Entry>;
+};
+
+/** Unsettled and partly settled entries due between `date_from` and `date_to`. */
+export async function fetchOpenEntryPool(params: { date_from: string; date_to: string }): Promise<OpenEntryPool> {
+  const entries = await fetchAllCursor<Entry>((p) => api.getEntries({ ...params, ...p }), { pageSize: 200 });
+  const open = entries.filter((e) => !e.is_settled);
+  return {
+    candidates: open.flatMap((e) => {
+      const candidate = entryToOpenCandidate(e);
+      return candidate ? [candidate] : [];
+    }),
+    byId: new Map(open.map((e) => [e.id, e])),
+  };
+}
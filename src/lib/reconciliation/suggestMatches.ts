@@ -0,0 +1,225 @@
+// src/lib/reconciliation/suggestMatches.ts
+
+/**
+ * Minimal shape shared by statement lines and settled entries so the matcher
+ * does not depend on either model. Amounts are signed minor units
+ * (credit > 0, debit < 0).
+ */
+export type ReconcilableItem = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amountMinor: number;
+  description: string;
+};
+
+export type MatchSuggestion = {
+  leftIds: string[];
+  rightIds: string[];
+  score: number; // 0..1
+};
+
+export type SuggestMatchesOptions = {
+  /** Max distance in days between the two sides. */
+  dateWindowDays?: number;
+  /** Max number of items grouped on one side for 1:N and N:1 matches. */
+  maxGroupSize?: number;
+  /** Suggestions below this score are dropped. */
+  minScore?: number;
+};
+
+const DEFAULTS: Required<SuggestMatchesOptions> = {
+  dateWindowDays: 5,
+  maxGroupSize: 3,
+  minScore: 0.55,
+};
+
+const DAY_MS = 86_400_000;
+
+// Keeps the subset search bounded on busy accounts
+const MAX_GROUP_POOL = 24;
+
+function toDayNumber(iso: string): number {
+  const t = Date.parse(`${String(iso || "").slice(0, 10)}T00:00:00Z`);
+  return Number.isFinite(t) ? Math.round(t / DAY_MS) : NaN;
+}
+
+export function daysBetween(a: string, b: string): number {
+  const da = toDayNumber(a);
+  const db = toDayNumber(b);
+  if (!Number.isFinite(da) || !Number.isFinite(db)) return Infinity;
+  return Math.abs(da - db);
+}
+
+const TOKEN_RE = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): Set<string> {
+  const out = new Set<string>();
+  const normalized = String(text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+  for (const m of normalized.match(TOKEN_RE) ?? []) {
+    // Skip short tokens and pure numbers that are usually dates or doc numbers
+    if (m.length < 3 || /^\d+$/.test(m)) continue;
+    out.add(m);
+  }
+  return out;
+}
+
+/** Jaccard similarity between the word sets of two descriptions (0..1). */
+export function descriptionSimilarity(a: string, b: string): number {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (!ta.size || !tb.size) return 0;
+
+  let shared = 0;
+  for (const tok of ta) if (tb.has(tok)) shared += 1;
+  return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Scores how likely two groups describe the same movement.
+ * Amount carries most of the weight; date proximity and wording break ties.
+ */
+export function scoreGroups(
+  left: ReconcilableItem[],
+  right: ReconcilableItem[],
+  dateWindowDays: number = DEFAULTS.dateWindowDays
+): number {
+  if (!left.length || !right.length) return 0;
+
+  const leftSum = left.reduce((acc, i) => acc + i.amountMinor, 0);
+  const rightSum = right.reduce((acc, i) => acc + i.amountMinor, 0);
+  if (leftSum !== rightSum) return 0;
+
+  let maxGap = 0;
+  for (const l of left) {
+    for (const r of right) maxGap = Math.max(maxGap, daysBetween(l.date, r.date));
+  }
+  if (maxGap > dateWindowDays) return 0;
+
+  const dateScore = dateWindowDays > 0 ? 1 - maxGap / (dateWindowDays + 1) : 1;
+
+  const leftText = left.map((i) => i.description).join(" ");
+  const rightText = right.map((i) => i.description).join(" ");
+  const textScore = descriptionSimilarity(leftText, rightText);
+
+  // Grouped matches are less certain than a clean 1:1 pair
+  const groupPenalty = left.length + right.length > 2 ? 0.1 : 0;
+
+  return Math.max(0, Math.min(1, 0.6 + dateScore * 0.25 + textScore * 0.15 - groupPenalty));
+}
+
+function findSubsets(
+  pool: ReconcilableItem[],
+  target: number,
+  maxSize: number
+): ReconcilableItem[][] {
+  const out: ReconcilableItem[][] = [];
+  const picked: ReconcilableItem[] = [];
+
+  const walk = (start: number, sum: number) => {
+    if (picked.length >= 2 && sum === target) {
+      out.push([...picked]);
+      return;
+    }
+    if (picked.length >= maxSize) return;
+
+    for (let i = start; i < pool.length; i += 1) {
+      picked.push(pool[i]);
+      walk(i + 1, sum + pool[i].amountMinor);
+      picked.pop();
+    }
+  };
+
+  walk(0, 0);
+  return out;
+}
+
+/**
+ * Proposes matches between two sides (e.g. statement lines vs. settlements).
+ *
+ * 1. Clean 1:1 pairs with equal amounts, best score first.
+ * 2. For what is left, one item against a group of 2..maxGroupSize items on
+ *    the other side whose amounts add up exactly (1:N and N:1).
+ *
+ * Each item is used in at most one suggestion.
+ */
+export function suggestMatches(
+  left: ReconcilableItem[],
+  right: ReconcilableItem[],
+  options?: SuggestMatchesOptions
+): MatchSuggestion[] {
+  const opts = { ...DEFAULTS, ...(options ?? {}) };
+  const usedLeft = new Set<string>();
+  const usedRight = new Set<string>();
+  const suggestions: MatchSuggestion[] = [];
+
+  const pairs: MatchSuggestion[] = [];
+  for (const l of left) {
+    for (const r of right) {
+      if (l.amountMinor !== r.amountMinor) continue;
+      const score = scoreGroups([l], [r], opts.dateWindowDays);
+      if (score >= opts.minScore) {
+        pairs.push({ leftIds: [l.id], rightIds: [r.id], score });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => b.score - a.score);
+  for (const p of pairs) {
+    if (usedLeft.has(p.leftIds[0]) || usedRight.has(p.rightIds[0])) continue;
+    usedLeft.add(p.leftIds[0]);
+    usedRight.add(p.rightIds[0]);
+    suggestions.push(p);
+  }
+
+  const groupPass = (
+    singles: ReconcilableItem[],
+    others: ReconcilableItem[],
+    usedSingles: Set<string>,
+    usedOthers: Set<string>,
+    singleIsLeft: boolean
+  ) => {
+    for (const single of singles) {
+      if (usedSingles.has(single.id)) continue;
+
+      const pool = others
+        .filter(
+          (o) =>
+            !usedOthers.has(o.id) &&
+            Math.sign(o.amountMinor) === Math.sign(single.amountMinor) &&
+            Math.abs(o.amountMinor) < Math.abs(single.amountMinor) &&
+            daysBetween(o.date, single.date) <= opts.dateWindowDays
+        )
+        .sort((a, b) => daysBetween(a.date, single.date) - daysBetween(b.date, single.date))
+        .slice(0, MAX_GROUP_POOL);
+      if (pool.length < 2) continue;
+
+      let best: { group: ReconcilableItem[]; score: number } | null = null;
+      for (const group of findSubsets(pool, single.amountMinor, opts.maxGroupSize)) {
+        const score = singleIsLeft
+          ? scoreGroups([single], group, opts.dateWindowDays)
+          : scoreGroups(group, [single], opts.dateWindowDays);
+        if (score >= opts.minScore && (!best || score > best.score)) best = { group, score };
+      }
+      if (!best) continue;
+
+      usedSingles.add(single.id);
+      best.group.forEach((g) => usedOthers.add(g.id));
+
+      const groupIds = best.group.map((g) => g.id);
+      suggestions.push({
+        leftIds: singleIsLeft ? [single.id] : groupIds,
+        rightIds: singleIsLeft ? groupIds : [single.id],
+        score: best.score,
+      });
+    }
+  };
+
+  groupPass(left, right, usedLeft, usedRight, true);
+  groupPass(right, left, usedRight, usedLeft, false);
+
+  return suggestions;
+}
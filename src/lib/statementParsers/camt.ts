@@ -0,0 +1,122 @@
+// src/lib/statementParsers/camt.ts
+
+import { collapseSpaces, dateRange, decimalToMinor, isoDatePart } from "./helpers";
+import type { ParsedStatement, ParsedTransaction } from "./types";
+
+/*
+ * ISO 20022 bank-to-customer messages. CAMT.053 is the end-of-day statement
+ * (with balances); CAMT.054 is a debit/credit notification (entries only).
+ * Namespaces change with every version, so elements are matched by local name.
+ */
+
+function kids(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter((c) => c.localName === name);
+}
+
+/** First element along a slash-separated path of local names. */
+function at(el: Element | null | undefined, path: string): Element | null {
+  let current: Element | null = el ?? null;
+  for (const name of path.split("/")) {
+    current = kids(current, name)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function text(el: Element | null | undefined, path: string): string | null {
+  const value = at(el, path)?.textContent?.trim();
+  return value || null;
+}
+
+function signedAmount(el: Element): number | null {
+  const amount = decimalToMinor(text(el, "Amt"));
+  if (amount === null) return null;
+  return text(el, "CdtDbtInd") === "DBIT" ? -Math.abs(amount) : Math.abs(amount);
+}
+
+function dateOf(el: Element | null): string | null {
+  return isoDatePart(text(el, "Dt")) ?? isoDatePart(text(el, "DtTm"));
+}
+
+/** Party names moved under `Pty` in newer versions. */
+function partyName(details: Element | null, role: "Dbtr" | "Cdtr"): string | null {
+  return text(details, `RltdPties/${role}/Nm`) ?? text(details, `RltdPties/${role}/Pty/Nm`);
+}
+
+function parseEntry(entry: Element): ParsedTransaction | null {
+  const amountMinor = signedAmount(entry);
+  const date = dateOf(at(entry, "BookgDt")) ?? dateOf(at(entry, "ValDt"));
+  if (amountMinor === null || !date) return null;
+
+  const details = at(entry, "NtryDtls/TxDtls");
+  const counterparty = amountMinor < 0 ? partyName(details, "Cdtr") : partyName(details, "Dbtr");
+  const remittance = kids(at(details, "RmtInf"), "Ustrd")
+    .map((u) => u.textContent?.trim() ?? "")
+    .filter(Boolean)
+    .join(" ");
+
+  const description =
+    [counterparty, remittance].filter(Boolean).join(" ") ||
+    text(entry, "AddtlNtryInf") ||
+    text(details, "AddtlTxInf") ||
+    "";
+
+  return {
+    date,
+    amountMinor,
+    description: collapseSpaces(description),
+    reference: text(entry, "AcctSvcrRef") ?? text(details, "Refs/EndToEndId") ?? text(entry, "NtryRef"),
+    counterparty,
+  };
+}
+
+function balance(statement: Element, codes: string[]): number | null {
+  const found = kids(statement, "Bal").find((b) => codes.includes(text(b, "Tp/CdOrPrtry/Cd") ?? ""));
+  return found ? signedAmount(found) : null;
+}
+
+export function looksLikeCamt(text: string): boolean {
+  return /camt\.05[34]/i.test(text) || /<(\w+:)?(BkToCstmrStmt|BkToCstmrDbtCdtNtfctn)\b/.test(text);
+}
+
+export function parseCamt(source: string): ParsedStatement {
+  const doc = new DOMParser().parseFromString(source, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("The XML file is not well formed.");
+  }
+
+  // Searched anywhere so files wrapped in a business message envelope work too
+  const statementMsg = doc.getElementsByTagNameNS("*", "BkToCstmrStmt")[0];
+  const notificationMsg = doc.getElementsByTagNameNS("*", "BkToCstmrDbtCdtNtfctn")[0];
+  const statements = statementMsg ? kids(statementMsg, "Stmt") : kids(notificationMsg, "Ntfctn");
+  if (!statements.length) throw new Error("The file is not a CAMT.053 statement or CAMT.054 notification.");
+
+  let skipped = 0;
+  const transactions: ParsedTransaction[] = [];
+  for (const statement of statements) {
+    for (const entry of kids(statement, "Ntry")) {
+      // Only booked entries move the balance; pending ones come back booked later
+      const status = text(entry, "Sts/Cd") ?? text(entry, "Sts");
+      const tx = status && status !== "BOOK" ? null : parseEntry(entry);
+      if (tx) transactions.push(tx);
+      else skipped += 1;
+    }
+  }
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const range = dateRange(transactions.map((t) => t.date));
+
+  return {
+    format: statementMsg ? "camt053" : "camt054",
+    currency: text(first, "Acct/Ccy") ?? at(first, "Bal/Amt")?.getAttribute("Ccy") ?? null,
+    account: text(first, "Acct/Id/IBAN") ?? text(first, "Acct/Id/Othr/Id"),
+    periodStart: isoDatePart(text(first, "FrToDt/FrDtTm")) ?? range.start,
+    periodEnd: isoDatePart(text(last, "FrToDt/ToDtTm")) ?? range.end,
+    openingBalanceMinor: balance(first, ["OPBD", "PRCD"]),
+    closingBalanceMinor: balance(last, ["CLBD"]),
+    transactions,
+    skipped,
+  };
+}
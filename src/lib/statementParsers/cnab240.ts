@@ -0,0 +1,102 @@
+// src/lib/statementParsers/cnab240.ts
+
+import { brDateToISO, collapseSpaces, dateRange, impliedDecimalToMinor } from "./helpers";
+import type { ParsedStatement, ParsedTransaction } from "./types";
+
+/*
+ * FEBRABAN CNAB 240 "extrato para conciliação bancária" (service 04).
+ * Fixed-width 240 character records; positions below are 1-based as in the
+ * layout manual. Collection returns (segments T/U) are not statements and
+ * are rejected.
+ */
+
+const RECORD_LENGTH = 240;
+
+/** Characters `from`..`to`, both inclusive and 1-based. */
+function pos(line: string, from: number, to: number): string {
+  return line.slice(from - 1, to);
+}
+
+function recordType(line: string): string {
+  return pos(line, 8, 8);
+}
+
+function signed(amount: string, mark: string): number | null {
+  const value = impliedDecimalToMinor(amount);
+  if (value === null) return null;
+  return mark === "D" ? -value : value;
+}
+
+function toLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((l) => l.replace(/\s+$/, ""))
+    .filter((l) => l.length > 0);
+}
+
+export function looksLikeCnab240(text: string): boolean {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n").filter((l) => l.trim());
+  if (lines.length < 2) return false;
+  return lines.every((l) => l.length === RECORD_LENGTH) && recordType(lines[0]) === "0";
+}
+
+export function parseCnab240(text: string): ParsedStatement {
+  // Trailing blanks are trimmed above, so lines can be shorter than 240 here
+  const lines = toLines(text).map((l) => l.padEnd(RECORD_LENGTH, " "));
+
+  const batchHeaders = lines.filter((l) => recordType(l) === "1");
+  if (!batchHeaders.length) throw new Error("The CNAB file has no batch header.");
+  if (!batchHeaders.some((l) => pos(l, 9, 9) === "E" && pos(l, 10, 11) === "04")) {
+    throw new Error("Only CNAB 240 statement files (service 04) can be read here.");
+  }
+
+  const firstHeader = batchHeaders[0];
+  const batchTrailers = lines.filter((l) => recordType(l) === "5");
+  const lastTrailer = batchTrailers[batchTrailers.length - 1];
+
+  let skipped = 0;
+  const transactions: ParsedTransaction[] = [];
+  for (const line of lines) {
+    if (recordType(line) !== "3") continue;
+    if (pos(line, 14, 14) !== "E") {
+      skipped += 1;
+      continue;
+    }
+
+    const date = brDateToISO(pos(line, 143, 150));
+    const amountMinor = signed(pos(line, 151, 168), pos(line, 169, 169));
+    if (!date || amountMinor === null) {
+      skipped += 1;
+      continue;
+    }
+
+    const history = collapseSpaces(pos(line, 177, 201));
+    const complement = collapseSpaces(pos(line, 114, 133));
+    const document = collapseSpaces(pos(line, 202, 240));
+
+    transactions.push({
+      date,
+      amountMinor,
+      description: [history, complement].filter(Boolean).join(" ") || document,
+      reference: document || null,
+      counterparty: null,
+    });
+  }
+
+  const range = dateRange(transactions.map((t) => t.date));
+  const agency = pos(firstHeader, 53, 57).replace(/^0+/, "");
+  const account = `${pos(firstHeader, 59, 70).replace(/^0+/, "")}-${pos(firstHeader, 71, 71).trim()}`;
+
+  return {
+    format: "cnab240",
+    currency: pos(firstHeader, 171, 173).trim() || "BRL",
+    account: agency ? `${agency} / ${account}` : account,
+    periodStart: brDateToISO(pos(firstHeader, 143, 150)) ?? range.start,
+    periodEnd: (lastTrailer && brDateToISO(pos(lastTrailer, 143, 150))) ?? range.end,
+    openingBalanceMinor: signed(pos(firstHeader, 151, 168), pos(firstHeader, 169, 169)),
+    closingBalanceMinor: lastTrailer ? signed(pos(lastTrailer, 151, 168), pos(lastTrailer, 169, 169)) : null,
+    transactions,
+    skipped,
+  };
+}
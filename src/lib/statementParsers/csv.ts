@@ -0,0 +1,428 @@
+// src/lib/statementParsers/csv.ts
+
+import type {
+  AddCsvMappingProfileRequest,
+  CsvDateFormat,
+  CsvDelimiter,
+  CsvMappingProfile,
+} from "@/models/settings/csvMappingProfiles";
+
+import { collapseSpaces, dateRange } from "./helpers";
+import type { ParsedStatement, ParsedTransaction } from "./types";
+
+/*
+ * Bank CSV exports have no standard layout, so a mapping says where each
+ * field lives. The same mapping is saved per bank account as a profile and
+ * found again through the header row's fingerprint.
+ */
+
+/** Everything a profile stores about the layout itself. */
+export type CsvMapping = Omit<AddCsvMappingProfileRequest, "bank_account_id" | "name" | "header_fingerprint">;
+
+export type CsvRowError = { line: number; message: string };
+
+export type CsvMappingResult = {
+  statement: ParsedStatement;
+  /** Header cells, or "Column N" labels when the file has no header. */
+  columns: string[];
+  /** Data rows that could not be read, with 1-based line numbers. */
+  errors: CsvRowError[];
+};
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD.MM.YYYY",
+  "DD-MM-YYYY",
+  "YYYYMMDD",
+];
+
+const SAMPLE_LINES = 20;
+
+/* --------------------------------- Reading -------------------------------- */
+
+/** RFC 4180 rows: quoted cells may hold delimiters, doubled quotes and line breaks. */
+export function splitCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.map((r) => r.map((c) => c.trim()));
+}
+
+function isBlank(row: string[]): boolean {
+  return row.every((c) => !c);
+}
+
+/** The delimiter that splits the first lines into the most, and most even, columns. */
+export function sniffDelimiter(text: string): CsvDelimiter {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .filter((l) => l.trim())
+    .slice(0, SAMPLE_LINES)
+    .join("\n");
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = splitCsv(lines, delimiter).map((r) => r.length);
+    if (!counts.length) continue;
+    const mode = mostCommon(counts);
+    if (mode < 2) continue;
+    // Lines agreeing on the column count weigh more than a wide header line
+    const score = counts.filter((c) => c === mode).length * mode;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function mostCommon(values: number[]): number {
+  const tally = new Map<number, number>();
+  for (const v of values) tally.set(v, (tally.get(v) ?? 0) + 1);
+  let best = values[0];
+  for (const [value, count] of tally) if (count > (tally.get(best) ?? 0)) best = value;
+  return best;
+}
+
+function normalizeHeader(cell: string): string {
+  return collapseSpaces(cell.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase());
+}
+
+/**
+ * Identifies a bank's layout by its header row. Without a header only the
+ * column count is left to go on.
+ */
+export function headerFingerprint(text: string, mapping: Pick<CsvMapping, "delimiter" | "skip_rows" | "has_header">): string {
+  const rows = splitCsv(text, mapping.delimiter).filter((r) => !isBlank(r));
+  const first = rows[mapping.skip_rows] ?? [];
+  return mapping.has_header ? first.map(normalizeHeader).join("|") : `columns:${first.length}`;
+}
+
+/* --------------------------------- Values --------------------------------- */
+
+const DATE_PATTERNS: Record<CsvDateFormat, { re: RegExp; order: ["y" | "m" | "d", "y" | "m" | "d", "y" | "m" | "d"] }> = {
+  "YYYY-MM-DD": { re: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: ["y", "m", "d"] },
+  "DD/MM/YYYY": { re: /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?!\d)/, order: ["d", "m", "y"] },
+  "MM/DD/YYYY": { re: /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?!\d)/, order: ["m", "d", "y"] },
+  "DD.MM.YYYY": { re: /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})(?!\d)/, order: ["d", "m", "y"] },
+  "DD-MM-YYYY": { re: /^(\d{1,2})-(\d{1,2})-(\d{2}|\d{4})(?!\d)/, order: ["d", "m", "y"] },
+  YYYYMMDD: { re: /^(\d{4})(\d{2})(\d{2})(?!\d)/, order: ["y", "m", "d"] },
+};
+
+/** YYYY-MM-DD, or null when `raw` does not fit `format`. Two-digit years are 20xx. */
+export function parseCsvDate(raw: string, format: CsvDateFormat): string | null {
+  const { re, order } = DATE_PATTERNS[format];
+  const m = re.exec(raw.trim());
+  if (!m) return null;
+
+  const parts = { y: 0, m: 0, d: 0 };
+  order.forEach((key, i) => {
+    parts[key] = Number(m[i + 1]);
+  });
+  if (parts.y < 100) parts.y += 2000;
+
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  if (date.getUTCFullYear() !== parts.y || date.getUTCMonth() !== parts.m - 1 || date.getUTCDate() !== parts.d) {
+    return null;
+  }
+  return `${parts.y}-${String(parts.m).padStart(2, "0")}-${String(parts.d).padStart(2, "0")}`;
+}
+
+/**
+ * Signed minor units. Understands currency symbols, "(12.50)" and "12.50-"
+ * for negatives, and thousands separators opposite to `decimalSeparator`.
+ */
+export function parseCsvAmount(raw: string, decimalSeparator: "." | ","): number | null {
+  let s = raw.replace(/\s/g, "");
+  if (!s) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (s.endsWith("-")) {
+    negative = true;
+    s = s.slice(0, -1);
+  }
+  s = s.replace(/^[^\d+-]+|[^\d]+$/g, "");
+  if (s.startsWith("-")) {
+    negative = !negative;
+    s = s.slice(1);
+  } else if (s.startsWith("+")) s = s.slice(1);
+
+  const group = decimalSeparator === "." ? "," : ".";
+  s = s.split(group).join("");
+  if (decimalSeparator === ",") s = s.replace(",", ".");
+  if (!/^\d+(\.\d+)?$/.test(s)) return null;
+
+  const value = Math.round(Number(s) * 100);
+  return negative ? -value : value;
+}
+
+/* -------------------------------- Guessing -------------------------------- */
+
+const HEADER_PATTERNS = {
+  date: /^(date|data|datum|fecha|booking date|posted|transaction date|dt\b|data (de )?lancamento|buchungstag)/,
+  description: /(desc|histor|memo|narrat|details|libelle|verwendungszweck|buchungstext|lancamento|payee|beneficiar)/,
+  amount: /^(amount|valor|montant|betrag|importe|value|quantia)/,
+  debit: /(debit|debito|saida|withdraw|soll|paid out|money out)/,
+  credit: /(credit|credito|entrada|deposit|haben|paid in|money in)/,
+  balance: /(balance|saldo|solde|kontostand)/,
+  reference: /(^ref|reference|document|doc\b|documento|n[ºo°]?\s*doc|check|cheque|transaction id|id$)/,
+};
+
+function findColumn(header: string[], re: RegExp, taken: Set<number>): number | null {
+  const index = header.findIndex((h, i) => !taken.has(i) && re.test(h));
+  if (index < 0) return null;
+  taken.add(index);
+  return index;
+}
+
+function guessDateFormat(samples: string[]): CsvDateFormat | null {
+  const values = samples.filter(Boolean);
+  let best: CsvDateFormat | null = null;
+  let bestHits = 0;
+  // Strictly more hits to win: DD/MM comes before MM/DD, so US files only win when a day is above 12
+  for (const format of CSV_DATE_FORMATS) {
+    const hits = values.filter((v) => parseCsvDate(v, format) !== null).length;
+    if (hits > bestHits) {
+      best = format;
+      bestHits = hits;
+    }
+  }
+  // Footer lines ("Total", "Saldo anterior") are fine; a column of mostly non-dates is not
+  return bestHits * 2 > values.length ? best : null;
+}
+
+function guessDecimalSeparator(samples: string[]): "." | "," {
+  const comma = samples.filter((v) => /,\d{1,2}\)?-?$/.test(v.trim())).length;
+  const dot = samples.filter((v) => /\.\d{1,2}\)?-?$/.test(v.trim())).length;
+  return comma > dot ? "," : ".";
+}
+
+function looksNumeric(value: string): boolean {
+  return /^[(+-]?[^\d]{0,4}\d[\d.,\s]*\)?-?$/.test(value.trim());
+}
+
+/** A starting mapping for a file nobody has mapped yet. */
+export function guessCsvMapping(text: string): CsvMapping {
+  const delimiter = sniffDelimiter(text);
+  const rows = splitCsv(text, delimiter).filter((r) => !isBlank(r));
+  const width = mostCommon(rows.slice(0, SAMPLE_LINES * 5).map((r) => r.length));
+
+  // Title lines above the table usually have fewer cells than the table itself
+  const skip_rows = Math.max(0, rows.findIndex((r) => r.length === width));
+  const first = rows[skip_rows] ?? [];
+  const has_header =
+    first.some((c) => c && !looksNumeric(c)) &&
+    !first.some((c) => looksNumeric(c) || CSV_DATE_FORMATS.some((f) => parseCsvDate(c, f)));
+
+  const data = rows.slice(skip_rows + (has_header ? 1 : 0), skip_rows + (has_header ? 1 : 0) + SAMPLE_LINES);
+  const sample = (col: number | null) => (col === null ? [] : data.map((r) => r[col] ?? ""));
+
+  const columns: CsvMapping["columns"] = {
+    date: null,
+    description: [],
+    amount: null,
+    debit: null,
+    credit: null,
+    reference: null,
+    balance: null,
+  };
+
+  if (has_header) {
+    const header = first.map(normalizeHeader);
+    const taken = new Set<number>();
+    columns.date = findColumn(header, HEADER_PATTERNS.date, taken);
+    columns.balance = findColumn(header, HEADER_PATTERNS.balance, taken);
+    columns.debit = findColumn(header, HEADER_PATTERNS.debit, taken);
+    columns.credit = findColumn(header, HEADER_PATTERNS.credit, taken);
+    columns.amount = findColumn(header, HEADER_PATTERNS.amount, taken);
+    columns.reference = findColumn(header, HEADER_PATTERNS.reference, taken);
+    const description = findColumn(header, HEADER_PATTERNS.description, taken);
+    if (description !== null) columns.description = [description];
+  }
+
+  // Fill the gaps from the values themselves
+  const indexes = Array.from({ length: width }, (_, i) => i);
+  if (columns.date === null) {
+    columns.date = indexes.find((i) => guessDateFormat(sample(i)) !== null) ?? null;
+  }
+  const numeric = indexes.filter(
+    (i) => i !== columns.date && sample(i).filter(Boolean).length > 0 && sample(i).filter(Boolean).every(looksNumeric)
+  );
+  if (columns.amount === null && (columns.debit === null || columns.credit === null)) {
+    columns.debit = columns.credit = null;
+    columns.amount = numeric.find((i) => i !== columns.balance) ?? null;
+  }
+  if (!columns.description.length) {
+    const longest = indexes
+      .filter((i) => i !== columns.date && !numeric.includes(i))
+      .sort((a, b) => avgLength(sample(b)) - avgLength(sample(a)))[0];
+    if (longest !== undefined) columns.description = [longest];
+  }
+
+  const amount_mode = columns.amount === null && columns.debit !== null && columns.credit !== null ? "split" : "signed";
+  const amountSamples = [
+    ...sample(columns.amount),
+    ...sample(columns.debit),
+    ...sample(columns.credit),
+    ...sample(columns.balance),
+  ];
+
+  return {
+    delimiter,
+    skip_rows,
+    has_header,
+    date_format: guessDateFormat(sample(columns.date)) ?? "YYYY-MM-DD",
+    decimal_separator: guessDecimalSeparator(amountSamples),
+    amount_mode,
+    invert_sign: false,
+    columns,
+  };
+}
+
+function avgLength(values: string[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v.length, 0) / values.length : 0;
+}
+
+export function mappingFromProfile(profile: CsvMappingProfile): CsvMapping {
+  return {
+    delimiter: profile.delimiter,
+    skip_rows: profile.skip_rows,
+    has_header: profile.has_header,
+    date_format: profile.date_format,
+    decimal_separator: profile.decimal_separator,
+    amount_mode: profile.amount_mode,
+    invert_sign: profile.invert_sign,
+    columns: { ...profile.columns, description: [...profile.columns.description] },
+  };
+}
+
+/**
+ * The saved profile whose fingerprint matches `text`, preferring the bank
+ * account being imported into.
+ */
+export function findCsvProfile(
+  profiles: CsvMappingProfile[],
+  text: string,
+  bankAccountId: string
+): CsvMappingProfile | null {
+  const matching = profiles.filter((p) => headerFingerprint(text, p) === p.header_fingerprint);
+  return matching.find((p) => p.bank_account_id === bankAccountId) ?? matching[0] ?? null;
+}
+
+/* -------------------------------- Applying -------------------------------- */
+
+type BalancedTransaction = ParsedTransaction & { balanceMinor: number | null };
+
+/** Reads the rows of `text` through `mapping`. Rows that do not fit are counted and reported. */
+export function applyCsvMapping(text: string, mapping: CsvMapping): CsvMappingResult {
+  const { columns: map } = mapping;
+  const rows = splitCsv(text, mapping.delimiter).filter((r) => !isBlank(r));
+  const headerRow = mapping.has_header ? rows[mapping.skip_rows] ?? [] : [];
+  const firstData = mapping.skip_rows + (mapping.has_header ? 1 : 0);
+  // Reduced rather than spread: bank exports can have more rows than a call has argument slots
+  const width = rows.slice(firstData).reduce((max, r) => Math.max(max, r.length), headerRow.length);
+
+  const columns = Array.from({ length: width }, (_, i) => headerRow[i] || `Column ${i + 1}`);
+  const cell = (row: string[], col: number | null) => (col === null ? "" : row[col] ?? "");
+
+  const errors: CsvRowError[] = [];
+  const parsed: BalancedTransaction[] = [];
+
+  rows.slice(firstData).forEach((row, index) => {
+    const line = firstData + index + 1;
+    const fail = (message: string) => errors.push({ line, message });
+
+    const rawDate = cell(row, map.date);
+    const date = parseCsvDate(rawDate, mapping.date_format);
+    if (!date) return fail(rawDate ? `"${rawDate}" is not a ${mapping.date_format} date.` : "No date.");
+
+    let amountMinor: number | null;
+    if (mapping.amount_mode === "split") {
+      const debit = parseCsvAmount(cell(row, map.debit), mapping.decimal_separator);
+      const credit = parseCsvAmount(cell(row, map.credit), mapping.decimal_separator);
+      // Debit columns hold either positive or negative figures depending on the bank
+      amountMinor = debit === null && credit === null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+    } else {
+      amountMinor = parseCsvAmount(cell(row, map.amount), mapping.decimal_separator);
+    }
+    if (amountMinor === null) return fail("No readable amount.");
+    if (mapping.invert_sign) amountMinor = -amountMinor;
+
+    const reference = cell(row, map.reference);
+    parsed.push({
+      date,
+      amountMinor,
+      description: collapseSpaces(map.description.map((c) => cell(row, c)).join(" ")),
+      reference: reference || null,
+      counterparty: null,
+      balanceMinor: map.balance === null ? null : parseCsvAmount(cell(row, map.balance), mapping.decimal_separator),
+    });
+  });
+
+  // Many banks list the newest line first; balances are read oldest to newest
+  const ordered = parsed.length > 1 && parsed[0].date > parsed[parsed.length - 1].date ? [...parsed].reverse() : parsed;
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+  const range = dateRange(ordered.map((t) => t.date));
+
+  return {
+    statement: {
+      format: "csv",
+      currency: null,
+      account: null,
+      periodStart: range.start,
+      periodEnd: range.end,
+      openingBalanceMinor: first?.balanceMinor != null ? first.balanceMinor - first.amountMinor : null,
+      closingBalanceMinor: last?.balanceMinor ?? null,
+      transactions: ordered.map((tx) => ({
+        date: tx.date,
+        amountMinor: tx.amountMinor,
+        description: tx.description,
+        reference: tx.reference,
+        counterparty: tx.counterparty,
+      })),
+      skipped: errors.length,
+    },
+    columns,
+    errors,
+  };
+}
@@ -0,0 +1,73 @@
+// src/lib/statementParsers/helpers.ts
+
+/**
+ * Minor units from a decimal string. Accepts "1234.56", "1234,56" and
+ * grouped forms such as "1.234,56"; the last separator is the decimal one.
+ */
+export function decimalToMinor(raw: string | null | undefined): number | null {
+  const s = String(raw ?? "").replace(/\s/g, "");
+  if (!s) return null;
+
+  const lastDot = s.lastIndexOf(".");
+  const lastComma = s.lastIndexOf(",");
+  const decimalSep = lastDot > lastComma ? "." : lastComma > -1 ? "," : "";
+  const groupSep = decimalSep === "." ? "," : ".";
+
+  let normalized = s.split(groupSep).join("");
+  if (decimalSep === ",") normalized = normalized.replace(",", ".");
+  // MT940 writes "100," for whole amounts
+  if (normalized.endsWith(".")) normalized += "0";
+
+  const n = Number(normalized);
+  return Number.isFinite(n) ? Math.round(n * 100) : null;
+}
+
+/** Fixed-point amount with two implied decimals, as used by CNAB. */
+export function impliedDecimalToMinor(raw: string): number | null {
+  const digits = raw.trim();
+  if (!/^\d+$/.test(digits)) return null;
+  return Number(digits);
+}
+
+function validISO(y: number, m: number, d: number): string | null {
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${String(y).padStart(4, "0")}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** YYYYMMDD (extra time and zone suffixes are ignored, as in OFX). */
+export function compactDateToISO(raw: string | null | undefined): string | null {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(String(raw ?? "").trim());
+  return m ? validISO(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+}
+
+/** YYMMDD; years below 80 are 20xx. */
+export function shortDateToISO(raw: string): string | null {
+  const m = /^(\d{2})(\d{2})(\d{2})$/.exec(raw);
+  if (!m) return null;
+  const yy = Number(m[1]);
+  return validISO(yy < 80 ? 2000 + yy : 1900 + yy, Number(m[2]), Number(m[3]));
+}
+
+/** DDMMYYYY, as used by CNAB. */
+export function brDateToISO(raw: string): string | null {
+  const m = /^(\d{2})(\d{2})(\d{4})$/.exec(raw.trim());
+  return m ? validISO(Number(m[3]), Number(m[2]), Number(m[1])) : null;
+}
+
+/** YYYY-MM-DD from an ISO date or date-time. */
+export function isoDatePart(raw: string | null | undefined): string | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(raw ?? "").trim());
+  return m ? validISO(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+}
+
+export function collapseSpaces(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Earliest and latest transaction dates, used when the file has no period. */
+export function dateRange(dates: string[]): { start: string | null; end: string | null } {
+  if (!dates.length) return { start: null, end: null };
+  const sorted = [...dates].sort();
+  return { start: sorted[0], end: sorted[sorted.length - 1] };
+}
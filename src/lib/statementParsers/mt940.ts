@@ -0,0 +1,149 @@
+// src/lib/statementParsers/mt940.ts
+
+import { collapseSpaces, dateRange, decimalToMinor, shortDateToISO } from "./helpers";
+import type { ParsedStatement, ParsedTransaction } from "./types";
+
+/*
+ * SWIFT MT940 customer statement. Each field starts with ":tag:" at the
+ * beginning of a line and continues until the next tag; ":61:" is a
+ * statement line and the ":86:" right after it carries its narrative.
+ */
+
+type Field = { tag: string; value: string };
+
+type Balance = { amountMinor: number; currency: string; date: string | null };
+
+function splitFields(text: string): Field[] {
+  const body = text
+    .replace(/\r\n?/g, "\n")
+    // SWIFT envelope blocks {1:…}{2:…}{4: and the closing -}
+    .replace(/\{[1-3]:[^}]*\}/g, "")
+    .replace(/\{4:/g, "\n")
+    .replace(/-\}/g, "\n");
+
+  const fields: Field[] = [];
+  for (const line of body.split("\n")) {
+    const m = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (m) fields.push({ tag: m[1], value: m[2] });
+    else if (fields.length && line.trim() !== "-") fields[fields.length - 1].value += `\n${line}`;
+  }
+  return fields;
+}
+
+/** ":60F:", ":62F:" and friends: C/D mark, YYMMDD, currency, amount. */
+function parseBalance(value: string): Balance | null {
+  const m = /^([CD])(\d{6})([A-Z]{3})([\d,.]+)/.exec(value.trim());
+  if (!m) return null;
+  const amount = decimalToMinor(m[4]);
+  if (amount === null) return null;
+  return { amountMinor: m[1] === "D" ? -amount : amount, currency: m[3], date: shortDateToISO(m[2]) };
+}
+
+/** German banks structure ":86:" as "?20…?29" purpose, "?32/?33" name and so on. */
+function narrative(value: string): { description: string; counterparty: string | null } {
+  const flat = value.replace(/\n/g, "");
+  if (!/\?\d{2}/.test(flat)) return { description: collapseSpaces(value), counterparty: null };
+
+  const parts = new Map<number, string>();
+  for (const m of flat.matchAll(/\?(\d{2})([^?]*)/g)) parts.set(Number(m[1]), m[2]);
+
+  const pick = (codes: number[]) =>
+    codes
+      .map((c) => parts.get(c) ?? "")
+      .join("")
+      .trim();
+  const name = pick([32, 33]);
+  const purpose = pick([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63]);
+  const booking = pick([0]);
+
+  return {
+    description: collapseSpaces([name, purpose || booking].filter(Boolean).join(" ")),
+    counterparty: name || null,
+  };
+}
+
+const STATEMENT_LINE =
+  /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d[\d,]*)([NSF][A-Z0-9]{3})?([^\n/]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+function parseStatementLine(value: string): (ParsedTransaction & { supplementary: string }) | null {
+  const m = STATEMENT_LINE.exec(value.trim());
+  if (!m) return null;
+
+  const date = shortDateToISO(m[1]);
+  const amount = decimalToMinor(m[5]);
+  if (!date || amount === null) return null;
+
+  // Reversal of a credit takes money out, reversal of a debit puts it back
+  const mark = m[3];
+  const outgoing = mark === "D" || mark === "RC";
+  const customerRef = m[7]?.trim();
+  const bankRef = m[8]?.trim();
+
+  return {
+    date,
+    amountMinor: outgoing ? -amount : amount,
+    description: "",
+    reference: bankRef || (customerRef && customerRef !== "NONREF" ? customerRef : null),
+    counterparty: null,
+    supplementary: collapseSpaces(m[9] ?? ""),
+  };
+}
+
+export function looksLikeMt940(text: string): boolean {
+  return /(^|\n):20:/.test(text) && /(^|\n):6[02][FM]:/.test(text) && /(^|\n):61:/.test(text);
+}
+
+export function parseMt940(text: string): ParsedStatement {
+  const fields = splitFields(text);
+  if (!fields.length) throw new Error("The MT940 file has no fields.");
+
+  let opening: Balance | null = null;
+  let closing: Balance | null = null;
+  let account: string | null = null;
+  let skipped = 0;
+  const transactions: ParsedTransaction[] = [];
+  let pending: (ParsedTransaction & { supplementary: string }) | null = null;
+
+  const flush = (info?: string) => {
+    if (!pending) return;
+    const { supplementary, ...tx } = pending;
+    const fromInfo = info ? narrative(info) : null;
+    transactions.push({
+      ...tx,
+      description: fromInfo?.description || supplementary || tx.reference || "",
+      counterparty: fromInfo?.counterparty ?? null,
+    });
+    pending = null;
+  };
+
+  for (const { tag, value } of fields) {
+    if (tag === "86") {
+      flush(value);
+      continue;
+    }
+    flush();
+
+    if (tag === "25" && !account) account = value.trim();
+    else if ((tag === "60F" || tag === "60M") && !opening) opening = parseBalance(value);
+    else if (tag === "62F" || tag === "62M") closing = parseBalance(value);
+    else if (tag === "61") {
+      pending = parseStatementLine(value);
+      if (!pending) skipped += 1;
+    }
+  }
+  flush();
+
+  const range = dateRange(transactions.map((t) => t.date));
+
+  return {
+    format: "mt940",
+    currency: opening?.currency ?? closing?.currency ?? null,
+    account,
+    periodStart: opening?.date ?? range.start,
+    periodEnd: closing?.date ?? range.end,
+    openingBalanceMinor: opening?.amountMinor ?? null,
+    closingBalanceMinor: closing?.amountMinor ?? null,
+    transactions,
+    skipped,
+  };
+}
@@ -0,0 +1,100 @@
+// src/lib/statementParsers/ofx.ts
+
+import { collapseSpaces, compactDateToISO, dateRange, decimalToMinor } from "./helpers";
+import type { ParsedStatement, ParsedTransaction } from "./types";
+
+/*
+ * OFX 1.x is SGML: aggregates (<STMTTRN>…</STMTTRN>) are closed but leaf
+ * elements usually are not. OFX 2.x is XML and closes everything. Reading
+ * aggregates by their closing tag and leaves up to the next "<" or line
+ * break handles both.
+ */
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&");
+}
+
+function leaf(block: string, tag: string): string | null {
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  if (!m) return null;
+  const value = decodeEntities(m[1]).trim();
+  return value || null;
+}
+
+function aggregates(text: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  return Array.from(text.matchAll(re), (m) => m[1]);
+}
+
+function parseTransaction(block: string): ParsedTransaction | null {
+  const date = compactDateToISO(leaf(block, "DTPOSTED")) ?? compactDateToISO(leaf(block, "DTUSER"));
+  const amountMinor = decimalToMinor(leaf(block, "TRNAMT"));
+  if (!date || amountMinor === null) return null;
+
+  const name = leaf(block, "NAME") ?? leaf(block, "PAYEEID");
+  const memo = leaf(block, "MEMO");
+  // Many banks repeat the name in the memo; keep whichever says more
+  const description =
+    name && memo && !memo.toLowerCase().includes(name.toLowerCase())
+      ? `${name} ${memo}`
+      : memo ?? name ?? leaf(block, "TRNTYPE") ?? "";
+
+  return {
+    date,
+    amountMinor,
+    description: collapseSpaces(description),
+    reference: leaf(block, "FITID") ?? leaf(block, "CHECKNUM") ?? leaf(block, "REFNUM"),
+    counterparty: name,
+  };
+}
+
+export function looksLikeOfx(text: string): boolean {
+  return /OFXHEADER\s*[:=]/i.test(text) || /<OFX>/i.test(text);
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) throw new Error("The OFX file has no <OFX> section.");
+  const body = text.slice(start);
+
+  const statements = [...aggregates(body, "STMTRS"), ...aggregates(body, "CCSTMTRS")];
+  if (!statements.length) throw new Error("The OFX file has no bank or card statement.");
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+
+  let skipped = 0;
+  const transactions: ParsedTransaction[] = [];
+  for (const statement of statements) {
+    for (const block of aggregates(statement, "STMTTRN")) {
+      const tx = parseTransaction(block);
+      if (tx) transactions.push(tx);
+      else skipped += 1;
+    }
+  }
+
+  const tranList = aggregates(first, "BANKTRANLIST")[0] ?? "";
+  const lastTranList = aggregates(last, "BANKTRANLIST")[0] ?? "";
+  const range = dateRange(transactions.map((t) => t.date));
+  const ledger = aggregates(last, "LEDGERBAL")[0] ?? "";
+  const closingBalanceMinor = decimalToMinor(leaf(ledger, "BALAMT"));
+
+  return {
+    format: "ofx",
+    currency: leaf(first, "CURDEF"),
+    account: leaf(first, "ACCTID"),
+    periodStart: compactDateToISO(leaf(tranList, "DTSTART")) ?? range.start,
+    periodEnd: compactDateToISO(leaf(lastTranList, "DTEND")) ?? range.end,
+    // OFX only carries the closing (ledger) balance
+    openingBalanceMinor: null,
+    closingBalanceMinor,
+    transactions,
+    skipped,
+  };
+}
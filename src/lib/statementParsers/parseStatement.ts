@@ -0,0 +1,123 @@
+// src/lib/statementParsers/parseStatement.ts
+
+import type { StructuredStatement, StructuredStatementFormat } from "@/models/settings/statements";
+
+import { looksLikeCamt, parseCamt } from "./camt";
+import { looksLikeCnab240, parseCnab240 } from "./cnab240";
+import { looksLikeMt940, parseMt940 } from "./mt940";
+import { looksLikeOfx, parseOfx } from "./ofx";
+import type { ParsedStatement } from "./types";
+
+/** Extensions worth reading locally; anything else goes straight to upload. */
+export const STRUCTURED_STATEMENT_EXTENSIONS = [".ofx", ".qfx", ".xml", ".sta", ".mt940", ".940", ".txt", ".ret", ".cnab"];
+
+/** Format of a structured bank file, or null for PDFs, images and free-form CSV/XML. */
+export function detectStatementFormat(text: string): StructuredStatementFormat | null {
+  if (looksLikeOfx(text)) return "ofx";
+  if (looksLikeCamt(text)) return /BkToCstmrStmt/.test(text) ? "camt053" : "camt054";
+  if (looksLikeMt940(text)) return "mt940";
+  if (looksLikeCnab240(text)) return "cnab240";
+  return null;
+}
+
+export function parseStatementText(text: string, format: StructuredStatementFormat): ParsedStatement {
+  switch (format) {
+    case "ofx":
+      return parseOfx(text);
+    case "camt053":
+    case "camt054":
+      return parseCamt(text);
+    case "mt940":
+      return parseMt940(text);
+    case "cnab240":
+      return parseCnab240(text);
+    case "csv":
+      throw new Error("CSV files need a column mapping.");
+  }
+}
+
+/** UTF-8 first; older OFX, CNAB and CSV files are usually Windows-1252. */
+function decode(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+/** File contents as text, without a byte order mark. */
+export async function readStatementText(file: File): Promise<string> {
+  return decode(await file.arrayBuffer()).replace(/^\uFEFF/, "");
+}
+
+/**
+ * Parses `file` when it is a structured statement. Resolves to null when the
+ * file is not one (it should then go through server analysis) and rejects
+ * with a readable message when it is one but cannot be read.
+ */
+export async function readStructuredStatement(file: File): Promise<ParsedStatement | null> {
+  const name = file.name.toLowerCase();
+  if (!STRUCTURED_STATEMENT_EXTENSIONS.some((ext) => name.endsWith(ext))) return null;
+
+  const text = await readStatementText(file);
+  const format = detectStatementFormat(text);
+  if (!format) return null;
+
+  const statement = parseStatementText(text, format);
+  if (!statement.transactions.length) throw new Error("The file has no transactions.");
+  return statement;
+}
+
+/* -------------------------------- Balances -------------------------------- */
+
+export type StatementBalanceCheck = {
+  creditsMinor: number;
+  debitsMinor: number;
+  /** Opening plus movements; null without an opening balance. */
+  expectedClosingMinor: number | null;
+  /** Closing minus expected; zero when the file adds up. */
+  differenceMinor: number | null;
+  status: "balanced" | "mismatch" | "incomplete";
+};
+
+/** Checks that opening balance plus the transactions gives the closing balance. */
+export function checkStatementBalance(statement: ParsedStatement): StatementBalanceCheck {
+  let creditsMinor = 0;
+  let debitsMinor = 0;
+  for (const tx of statement.transactions) {
+    if (tx.amountMinor >= 0) creditsMinor += tx.amountMinor;
+    else debitsMinor += tx.amountMinor;
+  }
+
+  const { openingBalanceMinor: opening, closingBalanceMinor: closing } = statement;
+  const expectedClosingMinor = opening === null ? null : opening + creditsMinor + debitsMinor;
+  const differenceMinor = expectedClosingMinor === null || closing === null ? null : closing - expectedClosingMinor;
+
+  return {
+    creditsMinor,
+    debitsMinor,
+    expectedClosingMinor,
+    differenceMinor,
+    status: differenceMinor === null ? "incomplete" : differenceMinor === 0 ? "balanced" : "mismatch",
+  };
+}
+
+/** Payload for `prepare-import`, so the backend builds rows without AI analysis. */
+export function toStructuredStatement(statement: ParsedStatement): StructuredStatement {
+  return {
+    format: statement.format,
+    currency: statement.currency,
+    account: statement.account,
+    period_start: statement.periodStart,
+    period_end: statement.periodEnd,
+    opening_balance_minor: statement.openingBalanceMinor,
+    closing_balance_minor: statement.closingBalanceMinor,
+    transactions: statement.transactions.map((tx) => ({
+      date: tx.date,
+      amount_minor: tx.amountMinor,
+      description: tx.description,
+      reference: tx.reference,
+      counterparty: tx.counterparty,
+    })),
+  };
+}
@@ -0,0 +1,30 @@
+// src/lib/statementParsers/types.ts
+
+import type { StructuredStatementFormat } from "@/models/settings/statements";
+
+export type ParsedTransaction = {
+  /** Booking date, YYYY-MM-DD. */
+  date: string;
+  /** Signed minor units: credits > 0, debits < 0. */
+  amountMinor: number;
+  description: string;
+  /** Bank id for the line (FITID, AcctSvcrRef, document number…). */
+  reference: string | null;
+  counterparty: string | null;
+};
+
+export type ParsedStatement = {
+  format: StructuredStatementFormat;
+  /** ISO 4217 when the file states it. */
+  currency: string | null;
+  /** Account number or IBAN as written in the file. */
+  account: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  /** Signed minor units; null when the format or file leaves it out. */
+  openingBalanceMinor: number | null;
+  closingBalanceMinor: number | null;
+  transactions: ParsedTransaction[];
+  /** Lines the parser skipped, e.g. pending CAMT entries. */
+  skipped: number;
+};
@@ -4,6 +4,7 @@ import { useDispatch } from "react-redux";
 
 import { useSpifexWebSocket } from "@/lib/ws/useSpifexWebSocket";
 import type { LiveSyncEnvelope } from "@/lib/ws/types";
+import { emitNotificationCreated } from "@/lib/ws/notificationEvents";
 import { getAccess } from "@/lib/tokens";
 import { setAuthGate, clearAuthGate } from "@/lib/http";
 import { setIsSubscribed } from "@/redux";
@@ -45,6 +46,12 @@ export const LiveSyncBridge: React.FC<Props> = ({ enabled, orgExternalId, syncAu
       const curOrg = (orgExternalId || "").trim();
       if (curOrg && evOrg && evOrg !== curOrg) return;
 
+      // Inbox only needs a refetch, not an auth sync
+      if (t === "notification.created") {
+        emitNotificationCreated();
+        return;
+      }
+
       const shouldSync =
         t === "subscription.updated" ||
         t === "subscription.deleted" ||
@@ -0,0 +1,16 @@
+// src/lib/ws/notificationEvents.ts
+
+// LiveSyncBridge lives outside the router tree, so inbox widgets listen here instead of on the socket
+const listeners = new Set<() => void>();
+
+/** Runs `fn` whenever a `notification.created` event arrives; returns the unsubscribe. */
+export function onNotificationCreated(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function emitNotificationCreated() {
+  listeners.forEach((fn) => fn());
+}
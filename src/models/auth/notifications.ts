@@ -1,5 +1,7 @@
 // src/models/notifications.ts
 
+import type { Paginated } from "@/models/Api";
+
 export type NotificationCategory =
   | "security"
   | "billing"
@@ -27,3 +29,38 @@ export interface UpdateNotificationPreferenceItem {
 
 export type UpdateNotificationPreferencesRequest = UpdateNotificationPreferenceItem[];
 export type UpdateNotificationPreferencesResponse = NotificationPreference[];
+
+/* ---------------------------------- Inbox ---------------------------------- */
+
+export type InboxNotificationKind = "comment_mention";
+
+/** In-app notification; `notification.created` on LiveSync announces new ones. */
+export interface InboxNotification {
+  id: string;
+  kind: InboxNotificationKind | string; // unknown kinds render with the generic text
+  /** Who triggered it, e.g. the member who wrote the comment. */
+  actor: { id: string; name: string } | null;
+  /** Record the notification points at. */
+  target: {
+    owner_type: "entry" | "settlement";
+    owner_id: string;
+    label: string; // entry description at the time
+  } | null;
+  excerpt: string;
+  created_at: string; // ISO datetime
+  read_at: string | null;
+}
+
+export interface GetInboxNotificationsParams {
+  page_size?: number;
+  cursor?: string;
+  unread?: boolean;
+}
+
+export type GetInboxNotificationsResponse = Paginated<InboxNotification> & { unread_count: number };
+
+/** Marks the given ids as read, or everything when `all` is set. */
+export interface MarkNotificationsReadRequest {
+  ids?: string[];
+  all?: boolean;
+}
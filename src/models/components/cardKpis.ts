@@ -21,6 +21,16 @@ export type KpiQueryParams =
   | CashflowKpiQueryParams
   | SettledKpiQueryParams;
 
+/**
+ * All KPI amounts are in the organization currency. Foreign-currency entries
+ * without a rate are left out of the sums and counted here.
+ */
+export type KpiFxInfo = {
+  missing_rates: number;
+  /** Settled KPIs only: realized FX gain (+) or loss (-) month to date. */
+  realized_mtd?: MoneyDecimal;
+};
+
 /* ----------------------- Cashflow KPIs (planned / due) ----------------------- */
 
 export type CashflowKpis = {
@@ -38,6 +48,8 @@ export type CashflowKpis = {
 
   next7: { rec: MoneyDecimal; pay: MoneyDecimal; net: MoneyDecimal };
   overdue: { rec: MoneyDecimal; pay: MoneyDecimal; net: MoneyDecimal };
+
+  fx?: KpiFxInfo;
 };
 
 /* ----------------------- Settled KPIs (realized / value) ---------------------- */
@@ -55,4 +67,6 @@ export type SettledKpis = {
 
   mom_change: number | null;
   mom_infinite: boolean;
+
+  fx?: KpiFxInfo;
 };
@@ -1,5 +1,7 @@
 // src/models/components/filterBar.ts
 
+import type { ViewPresetOwner, ViewPresetVisibility } from "./viewPresets";
+
 export interface EntryFilters {
   settlement_status?: boolean;
   start_date?: string;
@@ -11,15 +13,80 @@ export interface EntryFilters {
   amount_max?: string;
   bank_id?: string[];
   cashflow_category_id?: string[];
+  project_id?: string[];
+  entity_id?: string[];
+  department_id?: string[];
+  inventory_item_id?: string[];
+  document_type?: string[];
+  tags?: string[];
+  custom_fields?: CustomFieldFilters;
+  installment?: InstallmentFilter;
+  settlement_state?: SettlementStateFilter;
+  /** Advanced mode; AND-ed with the plain fields above. */
+  query?: QueryGroup;
+}
+
+/** "single" = one-off entries, "installments" = entries belonging to an installment group. */
+export type InstallmentFilter = "single" | "installments";
+
+/** Open entries can be untouched or partially settled; settlements can be partial or final. */
+export type SettlementStateFilter = "unsettled" | "partial" | "settled";
+
+/**
+ * Custom field key → accepted values. An entry matches a key when its value is
+ * one of them (any overlap for multi-select); keys are AND-ed.
+ */
+export type CustomFieldFilters = Record<string, string[]>;
+
+/* ------------------------------ Advanced query ------------------------------ */
+
+export type QueryTextField = "description" | "observation";
+export type QueryIdField =
+  | "cashflow_category"
+  | "bank"
+  | "project"
+  | "entity"
+  | "department"
+  | "inventory_item"
+  | "document_type"
+  | "tx_type";
+export type QueryRangeField = "amount" | "date";
+export type QueryField = QueryTextField | QueryIdField | QueryRangeField;
+
+export type QueryTextOperator = "contains" | "starts_with" | "equals";
+
+export type QueryCondition =
+  | { type: "text"; field: QueryTextField; op: QueryTextOperator; value: string; negate?: boolean }
+  | { type: "in"; field: QueryIdField; values: string[]; negate?: boolean }
+  /** Bounds are inclusive; amounts are major-unit strings, dates YYYY-MM-DD. */
+  | { type: "range"; field: QueryRangeField; min?: string; max?: string; negate?: boolean };
+
+export interface QueryGroup {
+  type: "group";
+  op: "and" | "or";
+  negate?: boolean;
+  children: QueryNode[];
 }
 
+export type QueryNode = QueryGroup | QueryCondition;
+
 export type ChipKey =
   | "date"
   | "banks"
   | "categories"
   | "observation"
   | "tx_type"
-  | "amount";
+  | "amount"
+  | "projects"
+  | "entities"
+  | "departments"
+  | "items"
+  | "document_types"
+  | "tags"
+  | "custom_fields"
+  | "installment"
+  | "settlement_state"
+  | "advanced";
 
 export interface LocalFilters {
   settlement_status: boolean;
@@ -32,12 +99,43 @@ export interface LocalFilters {
   amount_max: string;
   bank_id: string[];
   cashflow_category_id: string[];
+  project_id: string[];
+  entity_id: string[];
+  department_id: string[];
+  inventory_item_id: string[];
+  document_type: string[];
+  tags: string[];
+  custom_fields: CustomFieldFilters;
+  installment?: InstallmentFilter;
+  settlement_state?: SettlementStateFilter;
+  query?: QueryGroup;
+}
+
+/** Date order of the CashFlow (due date) and Settled (value date) tables. */
+export type EntrySortOrder = "asc" | "desc";
+
+/** What a shared `/cashflow` or `/settled` link restores. */
+export interface EntryViewState {
+  filters: EntryFilters;
+  sort: EntrySortOrder;
+  /** Entry (CashFlow) or settlement (Settled) opened on load. */
+  entryId: string | null;
+  /** CashFlow only: flat table (default) or calendar. */
+  layout?: EntryLayout;
 }
 
+export type EntryLayout = "table" | "calendar";
+
 export type Visualization = {
   id: string;
   name: string;
   is_default?: boolean;
   settlement_status?: boolean;
   filters: EntryFilters;
+  visibility?: ViewPresetVisibility;
+  group_ids?: string[];
+  owner?: ViewPresetOwner | null;
+  is_org_default?: boolean;
+  /** Missing on presets created before sharing existed; those are the user's own. */
+  can_edit?: boolean;
 };
@@ -0,0 +1,50 @@
+// src/models/components/forecast.ts
+
+export type ForecastGranularity = "daily" | "weekly";
+export type ForecastHorizon = 3 | 6 | 12;
+
+/* ------------------------------- Assumptions ------------------------------- */
+
+/**
+ * Manual cash movement the books do not know about yet
+ * (e.g. an expected loan, a tax bill, a new contract).
+ */
+export interface ForecastAssumption {
+  id: string;
+  label: string;
+  date: string; // YYYY-MM-DD, first occurrence
+  amount: string; // decimal string, always positive
+  tx_type: "credit" | "debit";
+  /** 0 = one-off; otherwise repeats every N months until the horizon. */
+  interval_months: number;
+  bank_account_id?: string | null;
+}
+
+export type AddForecastAssumptionRequest = Omit<ForecastAssumption, "id">;
+export type EditForecastAssumptionRequest = Partial<AddForecastAssumptionRequest>;
+
+/* -------------------------------- Scenarios -------------------------------- */
+
+export type ForecastAdjustment =
+  | { kind: "delay_payables"; days: number }
+  | { kind: "delay_receivables"; days: number }
+  | { kind: "drop_entity"; entity_id: string; entity_label?: string; from_date?: string | null }
+  | { kind: "scale_inflows"; percent: number }
+  | { kind: "scale_outflows"; percent: number };
+
+export type ForecastAdjustmentKind = ForecastAdjustment["kind"];
+
+export interface ForecastScenario {
+  id: string;
+  name: string;
+  color?: string | null;
+  adjustments: ForecastAdjustment[];
+}
+
+export interface AddForecastScenarioRequest {
+  name: string;
+  color?: string | null;
+  adjustments: ForecastAdjustment[];
+}
+
+export type EditForecastScenarioRequest = Partial<AddForecastScenarioRequest>;
@@ -57,6 +57,14 @@ export interface ReportsSummaryLiquidity {
   avg_monthly_outflow_abs: Money;
 }
 
+/** Totals are converted to `currency` (the organization currency) at each entry's rate. */
+export interface ReportsSummaryFx {
+  currency: string;
+  converted_items: number;
+  missing_rates: number;
+  realized_gain_loss: Money;
+}
+
 export interface ReportsSummary {
   totals: ReportsSummaryTotals;
   mtd: { in: Money; out: Money; net: Money };
@@ -78,6 +86,7 @@ export interface ReportsSummary {
   largest_overdue_pay?: ReportsSummaryMiniItem | null;
   largest_overdue_rec?: ReportsSummaryMiniItem | null;
   next_due_items?: ReportsSummaryMiniItem[];
+  fx?: ReportsSummaryFx;
 }
 
 export interface ReportsSummaryResponse {
@@ -91,4 +100,52 @@ export interface ReportsSummaryParams {
   cashflow_category_id?: string;
   date_from?: string;
   date_to?: string;
-}
\ No newline at end of file
+}
+
+/* --------------------------------- Aging ---------------------------------- */
+
+export type AgingSide = "receivables" | "payables";
+
+/** Days past due at `as_of`; "current" is not yet due. */
+export type AgingBucket = "current" | "d1_30" | "d31_60" | "d61_90" | "d90_plus";
+
+export type AgingBuckets = Record<AgingBucket, Money> & { total: Money };
+
+/** One entity in one currency; amounts are open amounts in that currency. */
+export interface AgingEntityRow {
+  entity_id: string | null;
+  entity_name: string | null;
+  currency: string;
+  buckets: AgingBuckets;
+  open_items: number;
+  oldest_due_date: string | null;
+}
+
+export interface AgingCurrencyTotal {
+  currency: string;
+  buckets: AgingBuckets;
+}
+
+/** Days sales/payables outstanding over the trailing `period_days`, in the organization currency. */
+export interface AgingMetrics {
+  dso: number | null;
+  dpo: number | null;
+  period_days: number;
+  receivables_org: Money;
+  payables_org: Money;
+}
+
+export interface AgingReport {
+  side: AgingSide;
+  as_of: string;
+  /** Organization currency; entries with no currency are reported in it. */
+  currency: string;
+  rows: AgingEntityRow[];
+  totals_by_currency: AgingCurrencyTotal[];
+  metrics: AgingMetrics;
+}
+
+export interface AgingReportParams {
+  side: AgingSide;
+  as_of?: string;
+}
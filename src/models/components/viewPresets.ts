@@ -1,11 +1,29 @@
 // src/models/components/viewPresets.ts
 
+/** Who besides the owner can see a preset. */
+export type ViewPresetVisibility = "private" | "organization" | "groups";
+
+export interface ViewPresetOwner {
+  id: string;
+  name: string;
+  email?: string;
+}
+
 export interface ViewPreset {
   id: string;
   name: string;
+  /** Personal default of the owner. */
   is_default: boolean;
   settlement_status: boolean;
   filters: unknown;
+  visibility: ViewPresetVisibility;
+  /** RBAC groups the preset is shared with when `visibility` is "groups". */
+  group_ids: string[];
+  owner: ViewPresetOwner | null;
+  /** Applied to members without a personal default; only admins can pin it. */
+  is_org_default: boolean;
+  /** Computed by the API for the requesting user; false means read-only. */
+  can_edit: boolean;
 }
 
 /* ----------------------------- Requests / Responses ---------------------------- */
@@ -18,6 +36,8 @@ export interface AddViewPresetRequest {
   name: string;
   is_default?: boolean;
   filters: unknown;
+  visibility?: ViewPresetVisibility;
+  group_ids?: string[];
 }
 export type AddViewPresetResponse = ViewPreset;
 
@@ -25,5 +45,12 @@ export interface EditViewPresetRequest {
   name?: string;
   is_default?: boolean;
   filters?: unknown;
+  visibility?: ViewPresetVisibility;
+  group_ids?: string[];
+}
+
+/** Admin-only; the API clears the previous org default for the same context. */
+export interface PinViewPresetRequest {
+  is_org_default: boolean;
 }
 export type EditViewPresetResponse = ViewPreset;
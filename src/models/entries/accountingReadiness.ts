@@ -15,11 +15,21 @@ export interface AccountingLinkedJournal {
 
 export interface AccountingPreviewLine {
   side: 'debit' | 'credit';
+  /** Set on lines generated for one slice of a split entry. */
+  category_id?: string | null;
   account_code?: string;
   account_name?: string;
   amount?: string;
 }
 
+/** Policy status of one slice of a split entry; the entry is ready only when every slice is. */
+export interface AccountingAllocationReadiness {
+  category_id: string;
+  category_name?: string | null;
+  percent: string;
+  policy_configured: boolean;
+}
+
 export interface AccountingReadiness {
   status: AccountingReadinessStatus;
   label: string;
@@ -34,6 +44,7 @@ export interface AccountingReadiness {
   ledger_account_name?: string | null;
   linked_journal?: AccountingLinkedJournal | null;
   next_action?: string;
+  allocations?: AccountingAllocationReadiness[];
 }
 
 export interface EntryAccountingReadinessEnvelope {
@@ -60,5 +71,6 @@ export function fallbackAccountingReadiness(input?: Partial<AccountingReadiness>
     ledger_account_name: input?.ledger_account_name ?? null,
     linked_journal: input?.linked_journal ?? null,
     next_action: input?.next_action ?? 'Review accounting readiness',
+    allocations: input?.allocations ?? [],
   };
 }
@@ -0,0 +1,79 @@
+import type { Paginated } from "@/models/Api";
+
+/* --------------------------------- Status --------------------------------- */
+
+/** `not_required` entries match no active rule and settle freely. */
+export type ApprovalStatus = "not_required" | "pending" | "approved" | "rejected";
+
+/**
+ * Why the current user cannot decide: segregation of duties keeps whoever
+ * booked an entry from approving it, and whoever approved it from paying it.
+ */
+export type ApprovalBlockReason = "not_approver" | "booked_by_you" | "already_decided";
+
+export interface ApprovalGroupRef {
+  id: string;
+  name: string;
+}
+
+export interface ApprovalUserRef {
+  id: string;
+  name: string;
+}
+
+/** Approval state carried on every open entry. */
+export interface EntryApproval {
+  status: ApprovalStatus;
+  request_id: string | null;
+  rule_names: string[];
+  approver_groups: ApprovalGroupRef[];
+  decided_by: ApprovalUserRef | null;
+  decided_at: string | null;
+  comment: string | null;
+  /** False when the current user approved this entry; they may not settle it too. */
+  can_settle: boolean;
+}
+
+/* --------------------------------- Queue ---------------------------------- */
+
+export interface ApprovalRequestEntry {
+  id: string;
+  due_date: string;
+  description: string;
+  amount: string;
+  currency: string | null;
+  tx_type: string;
+  entity_name: string | null;
+  cashflow_category_name: string | null;
+  project_name: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  status: Exclude<ApprovalStatus, "not_required">;
+  entry: ApprovalRequestEntry;
+  rule_names: string[];
+  approver_groups: ApprovalGroupRef[];
+  requested_by: ApprovalUserRef | null;
+  requested_at: string;
+  decided_by: ApprovalUserRef | null;
+  decided_at: string | null;
+  comment: string | null;
+  can_decide: boolean;
+  block_reason: ApprovalBlockReason | null;
+}
+
+export interface GetApprovalRequestsParams {
+  status?: ApprovalRequest["status"];
+  /** Only requests the current user can decide. */
+  mine?: boolean;
+  cursor?: string;
+  page_size?: number;
+}
+
+export type GetApprovalRequestsResponse = Paginated<ApprovalRequest>;
+
+export interface DecideApprovalRequest {
+  /** Required when rejecting. */
+  comment?: string;
+}
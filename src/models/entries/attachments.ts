@@ -0,0 +1,30 @@
+// src/models/entries/attachments.ts
+
+/** Which record a file hangs off. */
+export type AttachmentOwnerType = "entry" | "settlement";
+
+/**
+ * File (receipt, invoice, proof of payment) attached to an entry or settlement.
+ *
+ * When an entry is settled the backend links its attachments to the new
+ * settlement as well; those come back with `inherited_from_entry_id` set.
+ */
+export interface Attachment {
+  id: string;
+  owner_type: AttachmentOwnerType;
+  owner_id: string;
+
+  filename: string;
+  content_type: string; // e.g. "application/pdf", "image/png"
+  size_bytes: number;
+
+  /** Small preview for images and first page of PDFs; null while still generating. */
+  thumbnail_url?: string | null;
+
+  inherited_from_entry_id?: string | null;
+
+  uploaded_at: string; // ISO datetime
+  uploaded_by?: string | null;
+}
+
+export type GetAttachmentsResponse = Attachment[];
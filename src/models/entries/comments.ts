@@ -0,0 +1,47 @@
+// src/models/entries/comments.ts
+
+import type { Paginated } from "@/models/Api";
+
+/** Which record a thread hangs off. */
+export type CommentOwnerType = "entry" | "settlement";
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  email?: string | null;
+}
+
+/** Member referenced with "@Name" in the body; the backend notifies each one once. */
+export interface CommentMention {
+  user_id: string;
+  name: string;
+}
+
+export interface EntryComment {
+  id: string;
+  owner_type: CommentOwnerType;
+  owner_id: string;
+
+  /** Plain text; mentions stay inline as "@Name". */
+  body: string;
+  mentions: CommentMention[];
+
+  author: CommentAuthor;
+  created_at: string; // ISO datetime
+  edited_at?: string | null;
+}
+
+/* ----------------------------- Requests / Responses ---------------------------- */
+
+export interface GetEntryCommentsParams {
+  page_size?: number;
+  cursor?: string;
+}
+
+/** Oldest first, so the thread reads top to bottom. */
+export type GetEntryCommentsResponse = Paginated<EntryComment>;
+
+export interface AddEntryCommentRequest {
+  body: string;
+  mention_ids: string[];
+}
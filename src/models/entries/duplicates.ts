@@ -0,0 +1,33 @@
+import type { Entry } from "./entries";
+
+/* --------------------------------- Merge ---------------------------------- */
+
+/**
+ * Folds `merge_ids` into `keep_id`: their attachments, comments and
+ * settlements move to the kept entry, then the merged entries are deleted.
+ */
+export interface MergeEntriesRequest {
+  keep_id: string;
+  merge_ids: string[];
+}
+
+export type MergeEntriesResponse = Entry;
+
+/* ------------------------------- Dismissals ------------------------------- */
+
+/** A pair the user confirmed are distinct entries; the review page hides it. */
+export interface DuplicateDismissal {
+  id: string;
+  entry_ids: [string, string];
+  dismissed_by: { id: string; name: string } | null;
+  created_at: string;
+}
+
+export type GetDuplicateDismissalsResponse = DuplicateDismissal[];
+
+/** Every pair among `entry_ids` is recorded as distinct. */
+export interface AddDuplicateDismissalRequest {
+  entry_ids: string[];
+}
+
+export type AddDuplicateDismissalResponse = DuplicateDismissal[];
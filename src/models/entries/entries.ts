@@ -1,8 +1,12 @@
 import type { Paginated } from "@/models/Api";
 
 import type { DepartmentAllocation } from "../settings/departments";
+import type { CategoryAllocation, CategoryAllocationInput } from "../settings/categories";
+import type { CustomFieldValues } from "../settings/customFields";
+import type { TrashReceipt } from "../settings/trash";
 import type { InventoryAllocation } from "@/models/settings/inventory";
 import type { AccountingReadiness } from "./accountingReadiness";
+import type { EntryApproval } from "./approvals";
 
 export interface GetEntryRequest {
   page_size?: number;
@@ -18,6 +22,19 @@ export interface GetEntryRequest {
   cashflow_category?: string;
   project?: string;
   entity?: string;
+  department?: string;
+  inventory_item?: string;
+  document_type?: string;
+  /** Comma-separated; entries carrying any of the tags match. */
+  tags?: string;
+  /** JSON-encoded `CustomFieldFilters`. */
+  custom_fields?: string;
+  installment?: "single" | "installments";
+  settlement_state?: "unsettled" | "partial" | "settled";
+  /** JSON-encoded `QueryGroup` from the FilterBar advanced mode. */
+  query?: string;
+  /** `due_date` (default) or `-due_date`. */
+  ordering?: "due_date" | "-due_date";
 
   amount_min?: number;
   amount_max?: number;
@@ -42,6 +59,13 @@ export interface Entry {
   open_amount?: string;
   tx_type: string;
 
+  /** ISO 4217; null means the organization currency. */
+  currency?: string | null;
+  /** Org-currency units per one unit of `currency`, locked when the entry was booked. */
+  fx_rate?: string | null;
+  /** `amount` at `fx_rate`; null while no rate exists for a foreign-currency entry. */
+  amount_org?: string | null;
+
   installment_group_id: string | null;
   installment_index: number | null;
   installment_count: number | null;
@@ -60,9 +84,23 @@ export interface Entry {
 
   departments: DepartmentAllocation[];
   items: InventoryAllocation[];
+  /**
+   * Set when the entry is split across categories; `cashflow_category` then
+   * holds the largest slice. Empty means the whole amount sits in `cashflow_category`.
+   */
+  category_allocations?: CategoryAllocation[];
+
+  /** Values keyed by `CustomFieldDefinition.key`. */
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
 
   running_balance?: string | null;
   accounting?: AccountingReadiness | null;
+  /** Settlement is blocked until `status` is `approved` or `not_required`. */
+  approval?: EntryApproval | null;
+
+  attachments_count?: number;
+  comments_count?: number;
 }
 
 export type EntryTxTypeLabel = "credit" | "debit" | string;
@@ -76,6 +114,10 @@ export interface EntryPayloadBase {
   amount: string;
   tx_type: EntryTxTypeLabel;
 
+  currency?: string | null;
+  /** Overrides the table rate for the due date. */
+  fx_rate?: string | null;
+
   installment_count?: number | null;
   installment_index?: number | null;
 
@@ -96,11 +138,28 @@ export interface EntryPayloadBase {
     item_id: string;
     quantity: string;
   }>;
+
+  /** Two or more slices adding up to 100% or to `amount`; an empty list removes the split. */
+  category_allocations?: CategoryAllocationInput[];
+
+  /** Replaces every value; omit a key to clear it. */
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
 }
 
 export type AddEntryRequest = EntryPayloadBase;
 export type EditEntryRequest = Partial<EntryPayloadBase>;
 
+/** All-or-nothing batch create; the backend rejects the whole batch if any item is invalid. */
+export interface AddEntriesBulkRequest {
+  items: AddEntryRequest[];
+  atomic?: boolean;
+}
+
+export interface AddEntriesBulkResponse {
+  created: Entry[];
+}
+
 export interface GetEntriesBulkRequest {
   ids: string[];
 }
@@ -111,6 +170,8 @@ export interface DeleteEntriesBulkRequest {
   ids: string[];
 }
 
+export type DeleteEntriesBulkResponse = TrashReceipt;
+
 export interface EditEntriesBulkRequest {
   ids: string[];
   data: Partial<EditEntryRequest>;
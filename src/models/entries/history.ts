@@ -0,0 +1,66 @@
+// src/models/entries/history.ts
+
+import type { Paginated } from "@/models/Api";
+
+/** Path through which a change reached the entry. */
+export type EntryHistorySource =
+  | "manual"
+  | "bulk_edit"
+  | "statement_import"
+  | "transfer"
+  | "settlement"
+  | "reversal"
+  | "system";
+
+export type EntryHistoryAction =
+  | "created"
+  | "updated"
+  | "settled"
+  | "unsettled"
+  | "reversed"
+  | "deleted"
+  | "restored";
+
+export interface EntryHistoryActor {
+  id: string;
+  name: string;
+  email?: string | null;
+}
+
+/**
+ * Single field diff. Values are raw (ids, decimals as strings); the backend
+ * fills `*_label` for foreign keys so the UI can show names instead of ids.
+ */
+export interface EntryFieldChange {
+  field: string;
+  old_value: string | number | boolean | null;
+  new_value: string | number | boolean | null;
+  old_label?: string | null;
+  new_label?: string | null;
+}
+
+export interface EntryHistoryContext {
+  bulk_operation_id?: string | null;
+  import_session_id?: string | null;
+  transfer_id?: string | null;
+  journal_entry_id?: string | null;
+  settlement_id?: string | null;
+}
+
+export interface EntryHistoryEvent {
+  id: string;
+  occurred_at: string; // ISO datetime
+  /** Null for automated changes (scheduled jobs, migrations). */
+  actor: EntryHistoryActor | null;
+  source: EntryHistorySource;
+  action: EntryHistoryAction;
+  changes: EntryFieldChange[];
+  context?: EntryHistoryContext | null;
+}
+
+export interface GetEntryHistoryParams {
+  page_size?: number;
+  cursor?: string;
+}
+
+export type GetEntryHistoryResponse = Paginated<EntryHistoryEvent>;
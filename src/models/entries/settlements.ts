@@ -1,6 +1,9 @@
 import type { Paginated } from "@/models/Api";
 import type { Entry } from "./entries";
 import type { BankAccount } from "@/models/settings/banking";
+import type { CategoryAllocation } from "@/models/settings/categories";
+import type { CustomFieldValues } from "@/models/settings/customFields";
+import type { TrashReceipt } from "@/models/settings/trash";
 
 /* ---------------------------------- Query ---------------------------------- */
 
@@ -19,6 +22,19 @@ export interface GetSettledEntryRequest {
   cashflow_category?: string;
   project?: string;
   entity?: string;
+  department?: string;
+  inventory_item?: string;
+  document_type?: string;
+  /** Comma-separated; entries carrying any of the tags match. */
+  tags?: string;
+  /** JSON-encoded `CustomFieldFilters`. */
+  custom_fields?: string;
+  installment?: "single" | "installments";
+  settlement_state?: "unsettled" | "partial" | "settled";
+  /** JSON-encoded `QueryGroup` from the FilterBar advanced mode. */
+  query?: string;
+  /** `value_date` (default) or `-value_date`. */
+  ordering?: "value_date" | "-value_date";
 
   tx_type?: number;
   amount_min?: number;
@@ -47,6 +63,13 @@ export interface SettledEntry {
   amount: string; // decimal string
   tx_type: string;
 
+  currency?: string | null;
+  /** Rate on the value date. */
+  fx_rate?: string | null;
+  amount_org?: string | null;
+  /** Org-currency difference between the booked and the settlement rate; credits gain when the rate rises. */
+  fx_gain_loss?: string | null;
+
   value_date: string; // YYYY-MM-DD
   settled_on: string; // ISO datetime
   partial_index: number | null;
@@ -70,6 +93,10 @@ export interface SettledEntry {
     percent: string;
   }>;
 
+  category_allocations?: CategoryAllocation[];
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
+
   items: Array<{
     item_id: string | null;
     sku: string;
@@ -82,6 +109,9 @@ export interface SettledEntry {
   bank: BankAccount | null;
 
   running_balance?: string | null;
+
+  attachments_count?: number;
+  comments_count?: number;
 }
 
 /* ---------------------------------- Write ---------------------------------- */
@@ -97,6 +127,8 @@ export interface BulkSettleItem {
   bank_id: string;
   amount: string;     // decimal string
   value_date: string; // YYYY-MM-DD
+  /** Foreign-currency entries only; the backend uses the table rate for `value_date` when omitted. */
+  fx_rate?: string;
 }
 
 export interface BulkSettleRequest {
@@ -108,6 +140,8 @@ export type BulkSettleError = {
   id?: string;
   entry_id?: string;
   error: string;
+  /** Set when an approval rule refuses the entry; mirrors `SettlementBlock`. */
+  code?: "approval_pending" | "approval_rejected" | "self_approved";
 };
 
 export type BulkSettleResponse =
@@ -118,4 +152,6 @@ export type BulkSettleResponse =
 
 export interface DeleteSettledEntriesBulkRequest {
   ids: string[];
-}
\ No newline at end of file
+}
+
+export type DeleteSettledEntriesBulkResponse = TrashReceipt;
\ No newline at end of file
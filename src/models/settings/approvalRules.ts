@@ -0,0 +1,42 @@
+// src/models/settings/approvalRules.ts
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * An entry needs approval when it matches every condition a rule sets; empty
+ * lists and a null `amount_min` match anything. When several rules match, the
+ * entry needs a decision from each of their groups.
+ */
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  is_active: boolean;
+  /** Payables only by default; receivables rarely need sign-off. */
+  tx_type: "debit" | "credit" | "any";
+  /** Organization-currency amount; entries at or above it match. */
+  amount_min: string | null;
+  cashflow_category_ids: string[];
+  project_ids: string[];
+  /** Members of any of these groups can decide. */
+  approver_group_ids: string[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface AddApprovalRuleRequest {
+  name: string;
+  is_active?: boolean;
+  tx_type: ApprovalRule["tx_type"];
+  amount_min?: string | null;
+  cashflow_category_ids?: string[];
+  project_ids?: string[];
+  approver_group_ids: string[];
+}
+
+export type EditApprovalRuleRequest = Partial<AddApprovalRuleRequest>;
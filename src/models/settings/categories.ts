@@ -35,3 +35,22 @@ export type AddCashflowCategoryRequest = {
 };
 
 export type EditCashflowCategoryRequest = Partial<AddCashflowCategoryRequest>;
+
+/**
+ * One slice of an entry split across categories. Both sides are stored;
+ * `amount` is `percent` of the entry amount, rounded so the slices add up.
+ */
+export type CategoryAllocation = {
+  cashflow_category_id: string;
+  code: string;
+  name: string;
+  percent: string;
+  amount: string;
+};
+
+/** Send either `percent` or `amount` per slice; the backend derives the other. */
+export type CategoryAllocationInput = {
+  cashflow_category_id: string;
+  percent?: string;
+  amount?: string;
+};
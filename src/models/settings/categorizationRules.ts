@@ -0,0 +1,58 @@
+// src/models/settings/categorizationRules.ts
+import type { StatementImportDepartment, StatementImportRow } from "@/models/settings/statements";
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Fills statement import rows before AI suggestions run. Rules are tried in
+ * `priority` order and the first one whose conditions all hold wins; empty
+ * conditions match anything. Only the actions a rule sets are applied.
+ */
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  is_active: boolean;
+  /** Lower runs first. */
+  priority: number;
+
+  /* Conditions */
+  /** Case-insensitive regular expression tested against the row description. */
+  description_pattern: string;
+  /** Absolute amounts in the row currency; either bound may be open. */
+  amount_min: string | null;
+  amount_max: string | null;
+  tx_type: "debit" | "credit" | "any";
+  /** Empty applies the rule to statements from any bank account. */
+  bank_account_ids: string[];
+
+  /* Actions */
+  ledger_account_id: string | null;
+  entity_id: string | null;
+  project_id: string | null;
+  departments: StatementImportDepartment[];
+  document_type: string | null;
+
+  /** Rows the rule has filled since it was created. */
+  match_count?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export type AddCategorizationRuleRequest = Omit<
+  CategorizationRule,
+  "id" | "priority" | "match_count" | "created_at" | "updated_at"
+> & { priority?: number };
+
+export type EditCategorizationRuleRequest = Partial<AddCategorizationRuleRequest>;
+
+export interface ApplyCategorizationRulesResponse {
+  /** Rows a rule filled on this run. */
+  matched: number;
+  rows: StatementImportRow[];
+}
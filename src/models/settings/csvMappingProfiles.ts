@@ -0,0 +1,60 @@
+// src/models/settings/csvMappingProfiles.ts
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+
+export type CsvDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY" | "DD.MM.YYYY" | "DD-MM-YYYY" | "YYYYMMDD";
+
+/** One signed amount column, or separate debit and credit columns. */
+export type CsvAmountMode = "signed" | "split";
+
+/** Zero-based column indexes; null leaves the field out. */
+export interface CsvColumnMap {
+  date: number | null;
+  /** Joined with a space, in this order. */
+  description: number[];
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  reference: number | null;
+  /** Running balance; lets the preview check opening and closing balances. */
+  balance: number | null;
+}
+
+/**
+ * How one bank lays out its CSV export. Profiles belong to a bank account and
+ * are picked automatically when an upload's header matches `header_fingerprint`.
+ */
+export interface CsvMappingProfile {
+  id: string;
+  bank_account_id: string;
+  name: string;
+  delimiter: CsvDelimiter;
+  /** Lines above the header (or above the first row without a header). */
+  skip_rows: number;
+  has_header: boolean;
+  date_format: CsvDateFormat;
+  decimal_separator: "." | ",";
+  amount_mode: CsvAmountMode;
+  /** For exports that write debits as positive numbers. */
+  invert_sign: boolean;
+  columns: CsvColumnMap;
+  header_fingerprint: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface GetCsvMappingProfilesParams {
+  bank_account_id?: string;
+}
+
+export type AddCsvMappingProfileRequest = Omit<CsvMappingProfile, "id" | "created_at" | "updated_at">;
+
+export type EditCsvMappingProfileRequest = Partial<AddCsvMappingProfileRequest>;
@@ -0,0 +1,67 @@
+// src/models/settings/customFields.ts
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+export type CustomFieldType = "text" | "number" | "date" | "select" | "multi_select";
+
+/**
+ * Org-defined metadata on entries, such as a purchase order number or a cost
+ * owner. Values live on the entry under `key`, which stays fixed once entries
+ * use it so renaming `label` never orphans data.
+ */
+export interface CustomFieldDefinition {
+  id: string;
+  /** Slug used in entry payloads, filters and export headers. */
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  /** Choices for `select` and `multi_select`; empty for the other types. */
+  options: string[];
+  is_required: boolean;
+  is_active: boolean;
+  /** Shown as an extra column in the cash flow table. */
+  show_in_table: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Text, decimal-string numbers and YYYY-MM-DD dates are strings; `multi_select`
+ * is a list. Keys without a value are omitted.
+ */
+export type CustomFieldValue = string | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface AddCustomFieldRequest {
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options?: string[];
+  is_required?: boolean;
+  is_active?: boolean;
+  show_in_table?: boolean;
+  sort_order?: number;
+}
+
+/** `key` and `field_type` are fixed after creation. */
+export type EditCustomFieldRequest = Partial<Omit<AddCustomFieldRequest, "key" | "field_type">>;
+
+/* -------------------------------------------------------------------------- */
+/* Tags                                                                        */
+/* -------------------------------------------------------------------------- */
+
+/** A free-form tag already used on entries, for autocomplete. */
+export interface EntryTag {
+  name: string;
+  entry_count: number;
+}
+
+export type GetEntryTagsResponse = EntryTag[];
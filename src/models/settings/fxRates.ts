@@ -0,0 +1,68 @@
+// src/models/settings/fxRates.ts
+import type { Paginated } from "@/models/Api";
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+export type FxRateSource = "manual" | "import";
+
+/**
+ * Exchange rate into the organization currency.
+ * `rate` is how many org-currency units one unit of `currency` is worth on `rate_date`.
+ */
+export interface FxRate {
+  id: string;
+  currency: string;     // ISO 4217
+  rate_date: string;    // YYYY-MM-DD
+  rate: string;         // decimal string, up to 8 places
+  source: FxRateSource;
+  updated_at?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Params                                                                      */
+/* -------------------------------------------------------------------------- */
+
+export interface GetFxRatesRequest {
+  page_size?: number;
+  cursor?: string;
+  currency?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export type GetFxRatesResponse = Paginated<FxRate>;
+
+/** Latest rate on or before `date`; the backend never looks forward. */
+export interface GetFxRateQuoteParams {
+  currency: string;
+  date: string;
+}
+
+export interface FxRateQuote {
+  currency: string;
+  date: string;
+  /** null when no rate exists on or before `date`. */
+  rate: string | null;
+  rate_date: string | null;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface AddFxRateRequest {
+  currency: string;
+  rate_date: string;
+  rate: string;
+}
+
+export type EditFxRateRequest = Partial<AddFxRateRequest>;
+
+/** CSV columns: `currency,date,rate`; an existing (currency, date) pair is overwritten. */
+export interface ImportFxRatesResponse {
+  created_count: number;
+  updated_count: number;
+  errors: Array<{ line: number; error: string }>;
+}
@@ -0,0 +1,83 @@
+// src/models/settings/holidays.ts
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `national` calendars are seeded from a country preset and keep their
+ * holidays in sync with it; `custom` calendars hold regional holidays and
+ * bank closures maintained by the organization.
+ */
+export type HolidayCalendarKind = "national" | "custom";
+
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  kind: HolidayCalendarKind;
+  country: string | null;   // ISO 3166-1 alpha-2, national calendars only
+  region: string | null;    // free text, e.g. "SP" or "Bavaria"
+  is_active: boolean;
+  holiday_count?: number;
+  updated_at?: string;
+}
+
+export type HolidayKind = "holiday" | "bank_closure";
+
+export interface Holiday {
+  id: string;
+  calendar_id: string;
+  date: string;             // YYYY-MM-DD
+  name: string;
+  kind: HolidayKind;
+  /** Repeats on the same day and month every year (e.g. Christmas). */
+  recurring_yearly: boolean;
+}
+
+/** A date closed by at least one active calendar, with recurring holidays already expanded. */
+export interface NonBusinessDay {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+  calendar_id: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Params                                                                      */
+/* -------------------------------------------------------------------------- */
+
+export interface GetHolidaysParams {
+  year?: number;
+}
+
+export interface GetNonBusinessDaysParams {
+  date_from: string;
+  date_to: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Payloads                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/** National calendars only need `country`; the backend names and fills them. */
+export interface AddHolidayCalendarRequest {
+  kind: HolidayCalendarKind;
+  name?: string;
+  country?: string;
+  region?: string;
+}
+
+export interface EditHolidayCalendarRequest {
+  name?: string;
+  region?: string | null;
+  is_active?: boolean;
+}
+
+export interface AddHolidayRequest {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+  recurring_yearly: boolean;
+}
+
+export type EditHolidayRequest = Partial<AddHolidayRequest>;
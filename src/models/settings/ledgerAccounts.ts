@@ -110,6 +110,8 @@ export interface DeleteAllLedgerAccountsRequest {
 export interface DeleteAllLedgerAccountsResponse {
   message: string;
   deleted_count: number;
+  /** Trash batch that restores every removed account. */
+  batch_id: string;
 }
 
 export interface GetLedgerAccountsTreeRequest {
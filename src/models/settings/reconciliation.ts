@@ -0,0 +1,110 @@
+// src/models/settings/reconciliation.ts
+import type { Paginated } from "@/models/Api";
+
+export type StatementLineStatus = "unmatched" | "matched" | "excluded";
+export type ReconciliationMatchSource = "manual" | "suggested";
+
+/* -------------------------------------------------------------------------- */
+/* Statement lines – parsed rows of uploaded bank statements                   */
+/* -------------------------------------------------------------------------- */
+
+export interface StatementLine {
+  id: string;
+  statement_id: string;
+  bank_account_id: string;
+  line_index: number;
+  value_date: string; // YYYY-MM-DD
+  description: string;
+  reference?: string | null;
+  amount_minor: number; // signed: credit > 0, debit < 0
+  currency_code?: string | null;
+  status: StatementLineStatus;
+  match_id?: string | null;
+}
+
+export interface GetStatementLinesParams {
+  bank_account_id: string;
+  date_from?: string;
+  date_to?: string;
+  status?: StatementLineStatus;
+  cursor?: string;
+  page_size?: number;
+}
+
+export type GetStatementLinesResponse = Paginated<StatementLine>;
+
+/* -------------------------------------------------------------------------- */
+/* Matches                                                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * One match can pair N statement lines with M settlements (1:1, 1:N or N:1).
+ */
+export interface ReconciliationMatch {
+  id: string;
+  bank_account_id: string;
+  statement_line_ids: string[];
+  settlement_ids: string[];
+  difference_minor: number;
+  source: ReconciliationMatchSource;
+  created_at: string;
+  created_by?: string | null;
+}
+
+export interface GetReconciliationMatchesParams {
+  bank_account_id: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface AddReconciliationMatchRequest {
+  bank_account_id: string;
+  statement_line_ids: string[];
+  settlement_ids: string[];
+  source?: ReconciliationMatchSource;
+}
+
+export interface AddReconciliationMatchesBulkRequest {
+  matches: AddReconciliationMatchRequest[];
+}
+
+/* -------------------------------------------------------------------------- */
+/* Summary                                                                     */
+/* -------------------------------------------------------------------------- */
+
+export interface ReconciliationAccountSummary {
+  bank_account_id: string;
+  bank_account_label?: string;
+  currency_code?: string;
+  statement_balance_minor: number;
+  book_balance_minor: number;
+  unreconciled_difference_minor: number;
+  unmatched_statement_lines: number;
+  unmatched_settlements: number;
+  locked_through: string | null;
+}
+
+export interface GetReconciliationSummaryParams {
+  date_to?: string;
+}
+
+export interface GetReconciliationSummaryResponse {
+  accounts: ReconciliationAccountSummary[];
+}
+
+/* -------------------------------------------------------------------------- */
+/* Period locks                                                                */
+/* -------------------------------------------------------------------------- */
+
+export interface ReconciliationPeriodLock {
+  id: string;
+  bank_account_id: string;
+  period_end: string; // YYYY-MM-DD, inclusive
+  locked_at: string;
+  locked_by?: string | null;
+}
+
+export interface LockReconciliationPeriodRequest {
+  bank_account_id: string;
+  period_end: string;
+}
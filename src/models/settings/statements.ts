@@ -1,5 +1,6 @@
 // src/models/settings/statements.ts
 import type { Paginated } from "@/models/Api";
+import type { CustomFieldValues } from "@/models/settings/customFields";
 
 export type ImportSessionStatus =
   | "draft"
@@ -13,7 +14,9 @@ export type ImportRowStatus =
   | "ready"
   | "excluded"
   | "created"
-  | "error";
+  | "error"
+  /** Likely already booked; left out of the commit until someone decides. */
+  | "duplicate";
 
 export type StatementSummary = {
   total_pages?: number;
@@ -115,6 +118,44 @@ export type CandidatePayload = {
   ai_completion?: AiCompletionPayload | null;
 };
 
+/**
+ * Existing record a row seems to repeat: a settled entry on the same bank
+ * account, or a row of an earlier committed import session.
+ */
+export type StatementImportDuplicateMatch = {
+  source: "settled_entry" | "import_row";
+  id: string;
+  date: string | null;
+  amount_minor: number | null;
+  description: string;
+  /** Signals behind the match, e.g. "same_reference", "same_amount_date". */
+  reasons: string[];
+  confidence: number;
+  /** For `import_row`: where the earlier row came from. */
+  session_id?: string | null;
+  statement_filename?: string | null;
+  /** Entry the earlier row created, when it was committed. */
+  entry_id?: string | null;
+};
+
+/**
+ * Open entry a row pays. On commit the row settles it on the session's bank
+ * account instead of creating a new entry.
+ */
+export type StatementImportEntryLink = {
+  entry_id: string;
+  due_date: string;
+  description: string;
+  /** Signed; what was still open when the link was made. */
+  open_amount_minor: number;
+  /** True when the row pays less than the open amount. */
+  partial: boolean;
+  /** Index of the partial settlement on the entry; set on commit, null for a full one. */
+  partial_index: number | null;
+  /** Row status before the link was made; unlinking puts it back. */
+  previous_status: ImportRowStatus;
+};
+
 export type StatementImportRow = {
   id: string;
   line_index: number;
@@ -148,6 +189,10 @@ export type StatementImportRow = {
   weekend_action?: number | null;
   review_notes: string;
   created_entry_id?: string | null;
+  /** Categorization rule that filled the row before AI suggestions, if any. */
+  matched_rule?: { id: string; name: string } | null;
+  duplicate_of?: StatementImportDuplicateMatch | null;
+  linked_entry?: StatementImportEntryLink | null;
 
   resolved_description?: string;
   resolved_observation?: string;
@@ -161,6 +206,8 @@ export type StatementImportRow = {
   resolved_installment_count?: number | null;
   resolved_interval_months?: number | null;
   resolved_weekend_action?: number | null;
+  resolved_tags?: string[];
+  resolved_custom_fields?: CustomFieldValues;
 };
 
 export type StatementImportSession = {
@@ -222,9 +269,36 @@ export type LatestStatementAnalysisResponse = {
   error_message: string;
 };
 
+export type StructuredStatementFormat = "ofx" | "camt053" | "camt054" | "mt940" | "cnab240" | "csv";
+
+export type StructuredStatementTransaction = {
+  date: string;
+  /** Signed minor units: credits > 0, debits < 0. */
+  amount_minor: number;
+  description: string;
+  reference: string | null;
+  counterparty: string | null;
+};
+
+/**
+ * Statement parsed in the browser from a structured bank file. When sent with
+ * `prepare-import`, rows are built from it and AI analysis is skipped.
+ */
+export type StructuredStatement = {
+  format: StructuredStatementFormat;
+  currency: string | null;
+  account: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance_minor: number | null;
+  closing_balance_minor: number | null;
+  transactions: StructuredStatementTransaction[];
+};
+
 export type PrepareStatementImportRequest = {
   bank_account_id?: string;
   force_rebuild?: boolean;
+  structured?: StructuredStatement;
 };
 
 export type PrepareStatementImportResponse = {
@@ -254,6 +328,8 @@ export type UpdateStatementImportRowRequest = Partial<{
   status: ImportRowStatus;
   review_notes: string;
   apply_to_installment_family: boolean;
+  /** Open entry to settle with this row; null goes back to creating a new entry. */
+  linked_entry_id: string | null;
 }>;
 
 export type BulkUpdateStatementImportRowsRequest = {
@@ -268,4 +344,20 @@ export type AcceptConfidentStatementImportRowsResponse = {
 export type CommitStatementImportSessionResponse = {
   created_count: number;
   entry_ids: string[];
+  /** Rows left out because they were still marked as duplicates. */
+  skipped_duplicates?: number;
+  /** Open entries settled by linked rows; not counted in `created_count`. */
+  settled_count?: number;
+  settled_entry_ids?: string[];
+};
+
+export type CheckStatementImportDuplicatesRequest = {
+  /** Rows the check may flag; rows left out are never touched. */
+  row_ids: string[];
+};
+
+export type CheckStatementImportDuplicatesResponse = {
+  /** Rows newly marked as duplicates on this run. */
+  marked: number;
+  rows: StatementImportRow[];
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+// src/models/settings/trash.ts
+import type { Paginated } from "@/models/Api";
+
+/* -------------------------------------------------------------------------- */
+/* Core model                                                                  */
+/* -------------------------------------------------------------------------- */
+
+export type TrashItemKind = "entry" | "settlement" | "bank" | "ledger_account" | "group";
+
+/**
+ * A soft-deleted record. Deletes move rows here instead of dropping them; they
+ * can be restored until `purge_at`, when the backend removes them for good.
+ */
+export interface TrashItem {
+  id: string;
+  kind: TrashItemKind;
+  /** Id of the deleted record, reused when it is restored. */
+  object_id: string;
+  /** Description, bank name, account code… whatever identifies the record. */
+  label: string;
+  /** Every record removed by one delete call shares a batch. */
+  batch_id: string;
+  deleted_at: string;
+  deleted_by: { id: string; name: string } | null;
+  purge_at: string;
+}
+
+/**
+ * Returned by delete endpoints. `batch_id` restores everything the call removed,
+ * which is what the "Undo" snackbar action sends.
+ */
+export interface TrashReceipt {
+  batch_id: string;
+  count: number;
+  purge_at: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Requests / responses                                                        */
+/* -------------------------------------------------------------------------- */
+
+export interface GetTrashParams {
+  kind?: TrashItemKind;
+  q?: string;
+  cursor?: string;
+  page_size?: number;
+}
+
+export type GetTrashResponse = Paginated<TrashItem>;
+
+/** Send `ids` to restore picked items or `batch_id` to undo a whole delete. */
+export interface RestoreTrashRequest {
+  ids?: string[];
+  batch_id?: string;
+}
+
+export interface RestoreTrashError {
+  id: string;
+  detail: string;
+}
+
+export interface RestoreTrashResponse {
+  restored: number;
+  /** Items that could not come back, e.g. a settlement whose entry is gone. */
+  errors: RestoreTrashError[];
+}
+
+/** Send `ids` to purge picked items or `all` to empty the trash. */
+export interface PurgeTrashRequest {
+  ids?: string[];
+  all?: boolean;
+}
+
+export interface PurgeTrashResponse {
+  purged: number;
+}
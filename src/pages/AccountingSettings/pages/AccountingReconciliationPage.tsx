@@ -1,8 +1,170 @@
 // src/pages/AccountingSettings/pages/AccountingReconciliationPage.tsx
 import React from "react";
 import { useTranslation } from "react-i18next";
-import { useNavigate } from "react-router-dom";
+
 import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import Input from "@/shared/ui/Input";
+import PageSkeleton from "@/shared/ui/Loaders/PageSkeleton";
+import { Select } from "src/shared/ui/Select";
+import Snackbar from "@/shared/ui/Snackbar";
+import { api } from "@/api";
+import { fetchAllCursor } from "@/lib/list";
+import { formatCurrency, formatDateFromISO, suggestMatches } from "@/lib";
+import type { MatchSuggestion, ReconcilableItem } from "@/lib";
+
+import type { BankAccount } from "@/models/settings/banking";
+import type { SettledEntry } from "@/models/entries/settlements";
+import type {
+  ReconciliationAccountSummary,
+  ReconciliationMatch,
+  ReconciliationPeriodLock,
+  StatementLine,
+} from "@/models/settings/reconciliation";
+
+type SnackbarState = {
+  severity: "error" | "success";
+  message: string;
+} | null;
+
+function extractCollection<T>(input: unknown): T[] {
+  if (Array.isArray(input)) return input as T[];
+  if (!input || typeof input !== "object") return [];
+
+  const obj = input as Record<string, unknown>;
+  for (const key of ["results", "items", "data", "accounts"]) {
+    const value = obj[key];
+    if (Array.isArray(value)) return value as T[];
+  }
+
+  if (obj.data && obj.data !== input) {
+    const nested = extractCollection<T>(obj.data);
+    if (nested.length || Array.isArray(obj.data)) return nested;
+  }
+
+  return [];
+}
+
+function settlementAmountMinor(entry: SettledEntry): number {
+  const n = Number(String(entry.amount ?? "0").trim());
+  const minor = Number.isFinite(n) ? Math.round(n * 100) : 0;
+  return String(entry.tx_type ?? "").toLowerCase().includes("credit") ? minor : -minor;
+}
+
+function formatMinor(minor: number, currency?: string): string {
+  return formatCurrency(minor / 100, currency);
+}
+
+function bankLabel(bank: BankAccount): string {
+  return [bank.institution, bank.branch, bank.account_number].filter(Boolean).join(" — ") || bank.id;
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function monthStartIso(): string {
+  const d = new Date();
+  return new Date(Date.UTC(d.getFullYear(), d.getMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function MetricCard({
+  label,
+  value,
+  detail,
+  tone = "default",
+}: {
+  label: string;
+  value: string | number;
+  detail: string;
+  tone?: "default" | "warning" | "success";
+}) {
+  const valueClass =
+    tone === "warning" ? "text-amber-700" : tone === "success" ? "text-emerald-700" : "text-gray-900";
+
+  return (
+    <article className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="text-[10px] uppercase tracking-wide text-gray-600">{label}</div>
+      <div className={`mt-2 text-[20px] font-semibold ${valueClass}`}>{value}</div>
+      <p className="mt-1 text-[12px] text-gray-600">{detail}</p>
+    </article>
+  );
+}
+
+type PaneRow = {
+  id: string;
+  date: string;
+  description: string;
+  amountMinor: number;
+  locked: boolean;
+};
+
+function MatchPane({
+  title,
+  rows,
+  selected,
+  suggested,
+  suggestedLabel,
+  emptyLabel,
+  currency,
+  onToggle,
+}: {
+  title: string;
+  rows: PaneRow[];
+  selected: Set<string>;
+  suggested: Set<string>;
+  suggestedLabel: string;
+  emptyLabel: string;
+  currency?: string;
+  onToggle: (id: string) => void;
+}) {
+  return (
+    <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+        <div className="text-[10px] uppercase tracking-wide text-gray-600">{title}</div>
+        <div className="text-[11px] text-gray-500">{rows.length}</div>
+      </div>
+
+      <div className="max-h-[420px] overflow-y-auto">
+        {rows.map((row) => (
+          <label
+            key={row.id}
+            className={`flex items-center gap-3 border-b border-gray-100 px-4 py-2.5 last:border-b-0 ${
+              row.locked ? "cursor-not-allowed opacity-60" : "cursor-pointer hover:bg-gray-50"
+            } ${selected.has(row.id) ? "bg-gray-50" : ""}`}
+          >
+            <Checkbox
+              checked={selected.has(row.id)}
+              disabled={row.locked}
+              onChange={() => onToggle(row.id)}
+              size="sm"
+            />
+            <div className="w-20 shrink-0 text-[12px] text-gray-600">{formatDateFromISO(row.date)}</div>
+            <div className="min-w-0 flex-1 truncate text-[13px] text-gray-900" title={row.description}>
+              {row.description || "—"}
+            </div>
+            {suggested.has(row.id) ? (
+              <span className="shrink-0 rounded-full border border-gray-200 px-1.5 py-0.5 text-[10px] text-gray-600">
+                {suggestedLabel}
+              </span>
+            ) : null}
+            <div
+              className={`w-28 shrink-0 text-right text-[13px] tabular-nums ${
+                row.amountMinor < 0 ? "text-red-700" : "text-gray-900"
+              }`}
+            >
+              {formatMinor(row.amountMinor, currency)}
+            </div>
+          </label>
+        ))}
+
+        {!rows.length ? (
+          <div className="px-4 py-10 text-center text-[13px] text-gray-500">{emptyLabel}</div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
 
 const AccountingReconciliationPage: React.FC = () => {
   const { i18n } = useTranslation("accountingSettings");
@@ -12,46 +174,356 @@ const AccountingReconciliationPage: React.FC = () => {
     [i18n]
   );
 
-  const navigate = useNavigate();
+  const [loading, setLoading] = React.useState(true);
+  const [workspaceLoading, setWorkspaceLoading] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [snackbar, setSnackbar] = React.useState<SnackbarState>(null);
 
-  const cards = [
-    {
-      title: t("reconciliationPage.cards.missingCategoryPolicy.title", "Missing category policy"),
-      description: t(
-        "reconciliationPage.cards.missingCategoryPolicy.description",
-        "Operational entries are categorized, but the category still does not translate into accounting accounts."
-      ),
-      cta: t("reconciliationPage.cards.missingCategoryPolicy.cta", "Open posting policies"),
-      onClick: () => navigate("/settings/accounting/posting-policies"),
-    },
-    {
-      title: t("reconciliationPage.cards.missingBankMapping.title", "Missing bank mapping"),
-      description: t(
-        "reconciliationPage.cards.missingBankMapping.description",
-        "Bank movements cannot post because the operational bank account is not linked to a bank-control ledger account."
-      ),
-      cta: t("reconciliationPage.cards.missingBankMapping.cta", "Open bank mappings"),
-      onClick: () => navigate("/settings/accounting/bank-mappings"),
-    },
-    {
-      title: t("reconciliationPage.cards.readyToPost.title", "Ready to post"),
-      description: t(
-        "reconciliationPage.cards.readyToPost.description",
-        "Entries already have category, policy, bank mapping, and accounting context resolved for posting review."
-      ),
-      cta: t("reconciliationPage.cards.readyToPost.cta", "Review journals"),
-      onClick: () => navigate("/settings/accounting/journals"),
-    },
-    {
-      title: t("reconciliationPage.cards.postedWithException.title", "Posted with exception"),
-      description: t(
-        "reconciliationPage.cards.postedWithException.description",
-        "Entries posted successfully but still need manual review, reversal, or deeper reconciliation follow-up."
+  const [banks, setBanks] = React.useState<BankAccount[]>([]);
+  const [summaries, setSummaries] = React.useState<ReconciliationAccountSummary[]>([]);
+
+  const [bankId, setBankId] = React.useState("");
+  const [dateFrom, setDateFrom] = React.useState(monthStartIso());
+  const [dateTo, setDateTo] = React.useState(todayIso());
+
+  const [lines, setLines] = React.useState<StatementLine[]>([]);
+  const [settlements, setSettlements] = React.useState<SettledEntry[]>([]);
+  const [matches, setMatches] = React.useState<ReconciliationMatch[]>([]);
+  const [locks, setLocks] = React.useState<ReconciliationPeriodLock[]>([]);
+
+  const [selectedLines, setSelectedLines] = React.useState<Set<string>>(new Set());
+  const [selectedSettlements, setSelectedSettlements] = React.useState<Set<string>>(new Set());
+  const [lockDate, setLockDate] = React.useState(todayIso());
+
+  const selectedBank = React.useMemo(() => banks.filter((bank) => bank.id === bankId), [banks, bankId]);
+  const currency = selectedBank[0]?.currency;
+
+  const lockedThrough = React.useMemo(() => {
+    const ends = locks.filter((lock) => lock.bank_account_id === bankId).map((lock) => lock.period_end);
+    return ends.length ? ends.sort()[ends.length - 1] : null;
+  }, [locks, bankId]);
+
+  const isLocked = React.useCallback(
+    (date: string) => !!lockedThrough && String(date).slice(0, 10) <= lockedThrough,
+    [lockedThrough]
+  );
+
+  /* ------------------------------- Loading -------------------------------- */
+
+  const loadSummary = React.useCallback(async () => {
+    try {
+      const response = await api.getReconciliationSummary({ date_to: dateTo || undefined });
+      setSummaries(
+        extractCollection<ReconciliationAccountSummary>((response as { data?: unknown })?.data ?? response)
+      );
+    } catch {
+      setSummaries([]);
+    }
+  }, [dateTo]);
+
+  const loadWorkspace = React.useCallback(async () => {
+    if (!bankId) {
+      setLines([]);
+      setSettlements([]);
+      setMatches([]);
+      setLocks([]);
+      return;
+    }
+
+    try {
+      setWorkspaceLoading(true);
+
+      const [nextLines, nextSettlements, matchesResponse, locksResponse] = await Promise.all([
+        fetchAllCursor<StatementLine>((params) =>
+          api.getStatementLines({
+            ...params,
+            bank_account_id: bankId,
+            date_from: dateFrom || undefined,
+            date_to: dateTo || undefined,
+          })
+        ),
+        fetchAllCursor<SettledEntry>((params) =>
+          api.getSettledEntries({
+            ...params,
+            bank: bankId,
+            value_from: dateFrom || undefined,
+            value_to: dateTo || undefined,
+          })
+        ),
+        api.getReconciliationMatches({
+          bank_account_id: bankId,
+          date_from: dateFrom || undefined,
+          date_to: dateTo || undefined,
+        }),
+        api.getReconciliationLocks(bankId),
+      ]);
+
+      setLines(nextLines.filter((line) => line.status !== "excluded"));
+      setSettlements(nextSettlements);
+      setMatches(
+        extractCollection<ReconciliationMatch>((matchesResponse as { data?: unknown })?.data ?? matchesResponse)
+      );
+      setLocks(
+        extractCollection<ReconciliationPeriodLock>((locksResponse as { data?: unknown })?.data ?? locksResponse)
+      );
+      setSelectedLines(new Set());
+      setSelectedSettlements(new Set());
+    } catch {
+      setSnackbar({
+        severity: "error",
+        message: t("reconciliationPage.loadError", "Failed to load reconciliation data."),
+      });
+    } finally {
+      setWorkspaceLoading(false);
+    }
+  }, [bankId, dateFrom, dateTo, t]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await api.getBanks({ active: "true" });
+        const nextBanks = extractCollection<BankAccount>((response as { data?: unknown })?.data ?? response);
+        if (cancelled) return;
+        setBanks(nextBanks);
+        setBankId((prev) => prev || nextBanks[0]?.id || "");
+      } catch {
+        if (!cancelled) {
+          setSnackbar({
+            severity: "error",
+            message: t("reconciliationPage.banksError", "Failed to load bank accounts."),
+          });
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  React.useEffect(() => {
+    void loadSummary();
+  }, [loadSummary]);
+
+  React.useEffect(() => {
+    void loadWorkspace();
+  }, [loadWorkspace]);
+
+  const refresh = React.useCallback(async () => {
+    await Promise.all([loadWorkspace(), loadSummary()]);
+  }, [loadWorkspace, loadSummary]);
+
+  /* ------------------------------ Derivations ----------------------------- */
+
+  const matchedLineIds = React.useMemo(
+    () => new Set(matches.flatMap((match) => match.statement_line_ids)),
+    [matches]
+  );
+
+  const matchedSettlementIds = React.useMemo(
+    () => new Set(matches.flatMap((match) => match.settlement_ids)),
+    [matches]
+  );
+
+  const openLines = React.useMemo<ReconcilableItem[]>(
+    () =>
+      lines
+        .filter((line) => !matchedLineIds.has(line.id))
+        .map((line) => ({
+          id: line.id,
+          date: line.value_date,
+          amountMinor: line.amount_minor,
+          description: [line.description, line.reference].filter(Boolean).join(" "),
+        })),
+    [lines, matchedLineIds]
+  );
+
+  const openSettlements = React.useMemo<ReconcilableItem[]>(
+    () =>
+      settlements
+        .filter((entry) => !matchedSettlementIds.has(entry.external_id))
+        .map((entry) => ({
+          id: entry.external_id,
+          date: entry.value_date,
+          amountMinor: settlementAmountMinor(entry),
+          description: [entry.description, entry.observation].filter(Boolean).join(" "),
+        })),
+    [settlements, matchedSettlementIds]
+  );
+
+  const suggestions = React.useMemo<MatchSuggestion[]>(
+    () =>
+      suggestMatches(
+        openLines.filter((item) => !isLocked(item.date)),
+        openSettlements.filter((item) => !isLocked(item.date))
       ),
-      cta: t("reconciliationPage.cards.postedWithException.cta", "Open journals"),
-      onClick: () => navigate("/settings/accounting/journals"),
-    },
-  ];
+    [openLines, openSettlements, isLocked]
+  );
+
+  const suggestedLineIds = React.useMemo(() => new Set(suggestions.flatMap((s) => s.leftIds)), [suggestions]);
+  const suggestedSettlementIds = React.useMemo(
+    () => new Set(suggestions.flatMap((s) => s.rightIds)),
+    [suggestions]
+  );
+
+  const lineById = React.useMemo(() => new Map(lines.map((line) => [line.id, line])), [lines]);
+  const settlementById = React.useMemo(
+    () => new Map(settlements.map((entry) => [entry.external_id, entry])),
+    [settlements]
+  );
+
+  const selectionTotals = React.useMemo(() => {
+    const statementMinor = openLines
+      .filter((item) => selectedLines.has(item.id))
+      .reduce((acc, item) => acc + item.amountMinor, 0);
+    const booksMinor = openSettlements
+      .filter((item) => selectedSettlements.has(item.id))
+      .reduce((acc, item) => acc + item.amountMinor, 0);
+    return { statementMinor, booksMinor, differenceMinor: statementMinor - booksMinor };
+  }, [openLines, openSettlements, selectedLines, selectedSettlements]);
+
+  const canMatchSelection =
+    selectedLines.size > 0 &&
+    selectedSettlements.size > 0 &&
+    selectionTotals.differenceMinor === 0 &&
+    // N:M groups are ambiguous; one side must be a single item
+    (selectedLines.size === 1 || selectedSettlements.size === 1);
+
+  const activeSummary = React.useMemo(
+    () => summaries.find((summary) => summary.bank_account_id === bankId) ?? null,
+    [summaries, bankId]
+  );
+
+  const bankMap = React.useMemo(() => new Map(banks.map((bank) => [bank.id, bankLabel(bank)])), [banks]);
+
+  /* -------------------------------- Actions ------------------------------- */
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<Set<string>>>) => (id: string) =>
+    setter((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const matchSelection = async () => {
+    if (!canMatchSelection) return;
+
+    try {
+      setSaving(true);
+      await api.addReconciliationMatch({
+        bank_account_id: bankId,
+        statement_line_ids: Array.from(selectedLines),
+        settlement_ids: Array.from(selectedSettlements),
+        source: "manual",
+      });
+      setSnackbar({ severity: "success", message: t("reconciliationPage.matchSaved", "Match saved.") });
+      await refresh();
+    } catch {
+      setSnackbar({ severity: "error", message: t("reconciliationPage.matchError", "Failed to save match.") });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const acceptSuggestions = async (items: MatchSuggestion[]) => {
+    if (!items.length) return;
+
+    try {
+      setSaving(true);
+      await api.addReconciliationMatchesBulk(
+        items.map((s) => ({
+          bank_account_id: bankId,
+          statement_line_ids: s.leftIds,
+          settlement_ids: s.rightIds,
+          source: "suggested",
+        }))
+      );
+      setSnackbar({
+        severity: "success",
+        message: t("reconciliationPage.suggestionsAccepted", "{{count}} matches saved.", { count: items.length }),
+      });
+      await refresh();
+    } catch {
+      setSnackbar({ severity: "error", message: t("reconciliationPage.matchError", "Failed to save match.") });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unmatch = async (match: ReconciliationMatch) => {
+    try {
+      setSaving(true);
+      await api.deleteReconciliationMatch(match.id);
+      await refresh();
+    } catch {
+      setSnackbar({ severity: "error", message: t("reconciliationPage.unmatchError", "Failed to remove match.") });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const lockPeriod = async () => {
+    if (!bankId || !lockDate) return;
+
+    const confirmed = window.confirm(
+      t(
+        "reconciliationPage.lock.confirm",
+        "Lock {{bank}} through {{date}}? Matches and settlements up to this date can no longer be changed.",
+        { bank: bankMap.get(bankId) ?? "", date: formatDateFromISO(lockDate) }
+      )
+    );
+    if (!confirmed) return;
+
+    try {
+      setSaving(true);
+      await api.lockReconciliationPeriod({ bank_account_id: bankId, period_end: lockDate });
+      setSnackbar({ severity: "success", message: t("reconciliationPage.lock.saved", "Period locked.") });
+      await refresh();
+    } catch {
+      setSnackbar({ severity: "error", message: t("reconciliationPage.lock.error", "Failed to lock period.") });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unlockPeriod = async (lock: ReconciliationPeriodLock) => {
+    try {
+      setSaving(true);
+      await api.unlockReconciliationPeriod(lock.id);
+      await refresh();
+    } catch {
+      setSnackbar({ severity: "error", message: t("reconciliationPage.lock.unlockError", "Failed to unlock period.") });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* -------------------------------- Render -------------------------------- */
+
+  if (loading) return <PageSkeleton rows={6} />;
+
+  const lineRows: PaneRow[] = openLines.map((item) => ({ ...item, locked: isLocked(item.date) }));
+  const settlementRows: PaneRow[] = openSettlements.map((item) => ({ ...item, locked: isLocked(item.date) }));
+
+  const describeSide = (ids: string[], side: "line" | "settlement") =>
+    ids
+      .map((id) =>
+        side === "line" ? lineById.get(id)?.description : settlementById.get(id)?.description
+      )
+      .filter(Boolean)
+      .join(" + ") || "—";
+
+  const sideTotal = (ids: string[], side: "line" | "settlement") =>
+    ids.reduce((acc, id) => {
+      if (side === "line") return acc + (lineById.get(id)?.amount_minor ?? 0);
+      const entry = settlementById.get(id);
+      return acc + (entry ? settlementAmountMinor(entry) : 0);
+    }, 0);
 
   return (
     <section className="space-y-4">
@@ -60,35 +532,372 @@ const AccountingReconciliationPage: React.FC = () => {
           <div className="text-[10px] uppercase tracking-wide text-gray-600"> {t("reconciliationPage.sectionLabel", "Reconciliation")}</div>
         </div>
 
-        <div className="px-4 py-4 sm:px-5">
-          <h2 className="text-[16px] font-semibold text-gray-900"> {t("reconciliationPage.title", "Accounting readiness board")}</h2>
-          <p className="mt-1 max-w-3xl text-[13px] leading-6 text-gray-600">
-            {t("reconciliationPage.description", "This area should act as the bridge between the operational cashflow layer and the accounting layer, surfacing what blocks posting, what is ready, and what needs review.")}
-          </p>
+        <div className="flex flex-col gap-4 px-4 py-4 sm:px-5">
+          <div className="max-w-3xl">
+            <h2 className="text-[16px] font-semibold text-gray-900"> {t("reconciliationPage.title", "Bank reconciliation")}</h2>
+            <p className="mt-1 text-[13px] leading-6 text-gray-600">
+              {t("reconciliationPage.description", "Match statement lines against settled entries for the same bank account, review suggested matches, and lock the period once the difference is cleared.")}
+            </p>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-3">
+            <Select<BankAccount>
+              label={t("common.bankAccount", "Bank account")}
+              items={banks}
+              selected={selectedBank}
+              onChange={(selected: BankAccount[]) => setBankId(selected[0]?.id ?? "")}
+              getItemKey={(bank: BankAccount) => bank.id}
+              getItemLabel={bankLabel}
+              buttonLabel={t("reconciliationPage.selectBank", "Select bank")}
+              singleSelect
+              hideCheckboxes
+            />
+            <Input
+              kind="date"
+              label={t("reconciliationPage.dateFrom", "From")}
+              value={dateFrom}
+              onValueChange={(value: string) => setDateFrom(value)}
+            />
+            <Input
+              kind="date"
+              label={t("reconciliationPage.dateTo", "To")}
+              value={dateTo}
+              onValueChange={(value: string) => setDateTo(value)}
+            />
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-4">
+            <MetricCard
+              label={t("reconciliationPage.metrics.statementBalance", "Statement balance")}
+              value={activeSummary ? formatMinor(activeSummary.statement_balance_minor, currency) : "—"}
+              detail={t("reconciliationPage.metrics.statementBalanceDetail", "Closing balance reported by the bank.")}
+            />
+            <MetricCard
+              label={t("reconciliationPage.metrics.bookBalance", "Book balance")}
+              value={activeSummary ? formatMinor(activeSummary.book_balance_minor, currency) : "—"}
+              detail={t("reconciliationPage.metrics.bookBalanceDetail", "Balance from settled entries.")}
+            />
+            <MetricCard
+              label={t("reconciliationPage.metrics.difference", "Unreconciled difference")}
+              value={activeSummary ? formatMinor(activeSummary.unreconciled_difference_minor, currency) : "—"}
+              detail={t("reconciliationPage.metrics.differenceDetail", "Statement minus books for this account.")}
+              tone={
+                !activeSummary ? "default" : activeSummary.unreconciled_difference_minor === 0 ? "success" : "warning"
+              }
+            />
+            <MetricCard
+              label={t("reconciliationPage.metrics.lockedThrough", "Locked through")}
+              value={lockedThrough ? formatDateFromISO(lockedThrough) : "—"}
+              detail={t("reconciliationPage.metrics.lockedThroughDetail", "Items up to this date are read-only.")}
+            />
+          </div>
         </div>
       </div>
 
-      <section className="grid gap-4 xl:grid-cols-2">
-        {cards.map((card) => (
-          <article key={card.title} className="rounded-lg border border-gray-200 bg-white p-5">
-            <div className="text-[10px] uppercase tracking-wide text-gray-600"> {t("reconciliationPage.queue", "Queue")}</div>
-            <h3 className="mt-2 text-[14px] font-semibold text-gray-900">{card.title}</h3>
-            <p className="mt-2 text-[13px] leading-6 text-gray-600">{card.description}</p>
-            <div className="mt-4">
-              <Button type="button" variant="outline" onClick={card.onClick}>
-                {card.cta}
+      {workspaceLoading ? (
+        <PageSkeleton rows={6} />
+      ) : (
+        <>
+          <section className="grid gap-4 xl:grid-cols-2">
+            <MatchPane
+              title={t("reconciliationPage.panes.statement", "Statement lines")}
+              rows={lineRows}
+              selected={selectedLines}
+              suggested={suggestedLineIds}
+              suggestedLabel={t("reconciliationPage.panes.suggestedTag", "Suggested")}
+              emptyLabel={t("reconciliationPage.panes.statementEmpty", "No unmatched statement lines in this period.")}
+              currency={currency}
+              onToggle={toggle(setSelectedLines)}
+            />
+            <MatchPane
+              title={t("reconciliationPage.panes.settlements", "Settled entries")}
+              rows={settlementRows}
+              selected={selectedSettlements}
+              suggested={suggestedSettlementIds}
+              suggestedLabel={t("reconciliationPage.panes.suggestedTag", "Suggested")}
+              emptyLabel={t("reconciliationPage.panes.settlementsEmpty", "No unmatched settled entries in this period.")}
+              currency={currency}
+              onToggle={toggle(setSelectedSettlements)}
+            />
+          </section>
+
+          <section className="flex flex-col gap-3 rounded-lg border border-gray-200 bg-white px-4 py-3 md:flex-row md:items-center md:justify-between">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-[13px] text-gray-700">
+              <span>
+                {t("reconciliationPage.selection.statement", "Statement")}:{" "}
+                <strong className="tabular-nums">{formatMinor(selectionTotals.statementMinor, currency)}</strong>
+              </span>
+              <span>
+                {t("reconciliationPage.selection.books", "Books")}:{" "}
+                <strong className="tabular-nums">{formatMinor(selectionTotals.booksMinor, currency)}</strong>
+              </span>
+              <span className={selectionTotals.differenceMinor === 0 ? "text-gray-700" : "text-amber-700"}>
+                {t("reconciliationPage.selection.difference", "Difference")}:{" "}
+                <strong className="tabular-nums">{formatMinor(selectionTotals.differenceMinor, currency)}</strong>
+              </span>
+            </div>
+
+            <Button type="button" disabled={!canMatchSelection || saving} onClick={() => void matchSelection()}>
+              {t("reconciliationPage.selection.match", "Match selected")}
+            </Button>
+          </section>
+
+          <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <div className="flex items-center justify-between border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+              <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                {t("reconciliationPage.suggestions.title", "Suggested matches")}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={!suggestions.length || saving}
+                onClick={() => void acceptSuggestions(suggestions)}
+              >
+                {t("reconciliationPage.suggestions.acceptAll", "Accept all")}
               </Button>
             </div>
-          </article>
-        ))}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left">
+                    {[
+                      t("reconciliationPage.columns.statement", "Statement"),
+                      t("reconciliationPage.columns.settlements", "Settled entries"),
+                      t("reconciliationPage.columns.amount", "Amount"),
+                      t("reconciliationPage.columns.confidence", "Confidence"),
+                      t("reconciliationPage.columns.actions", "Actions"),
+                    ].map((column) => (
+                      <th key={column} className="px-4 py-3 text-[10px] uppercase tracking-wide text-gray-600">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+
+                <tbody>
+                  {suggestions.map((s) => (
+                    <tr key={`${s.leftIds.join(",")}|${s.rightIds.join(",")}`} className="border-b border-gray-100 last:border-b-0">
+                      <td className="px-4 py-3 text-[13px] text-gray-900">{describeSide(s.leftIds, "line")}</td>
+                      <td className="px-4 py-3 text-[13px] text-gray-700">{describeSide(s.rightIds, "settlement")}</td>
+                      <td className="px-4 py-3 text-[13px] tabular-nums text-gray-700">
+                        {formatMinor(sideTotal(s.leftIds, "line"), currency)}
+                      </td>
+                      <td className="px-4 py-3 text-[13px] text-gray-700">{Math.round(s.score * 100)}%</td>
+                      <td className="px-4 py-3 text-right">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => void acceptSuggestions([s])}
+                        >
+                          {t("reconciliationPage.suggestions.accept", "Accept")}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+
+                  {!suggestions.length ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-10 text-center text-[13px] text-gray-500">
+                        {t("reconciliationPage.suggestions.empty", "No suggestions for the current selection.")}
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <div className="border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+              <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                {t("reconciliationPage.matches.title", "Reconciled matches")}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <tbody>
+                  {matches.map((match) => {
+                    const matchLocked = match.statement_line_ids.some((id) => {
+                      const line = lineById.get(id);
+                      return line ? isLocked(line.value_date) : false;
+                    });
+
+                    return (
+                      <tr key={match.id} className="border-b border-gray-100 last:border-b-0">
+                        <td className="px-4 py-3 text-[13px] text-gray-900">
+                          {describeSide(match.statement_line_ids, "line")}
+                        </td>
+                        <td className="px-4 py-3 text-[13px] text-gray-700">
+                          {describeSide(match.settlement_ids, "settlement")}
+                        </td>
+                        <td className="px-4 py-3 text-[13px] tabular-nums text-gray-700">
+                          {formatMinor(sideTotal(match.statement_line_ids, "line"), currency)}
+                        </td>
+                        <td className="px-4 py-3 text-[12px] text-gray-500">
+                          {match.source === "suggested"
+                            ? t("reconciliationPage.matches.suggested", "Suggested")
+                            : t("reconciliationPage.matches.manual", "Manual")}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={saving || matchLocked}
+                            onClick={() => void unmatch(match)}
+                          >
+                            {t("reconciliationPage.matches.unmatch", "Unmatch")}
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+
+                  {!matches.length ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-10 text-center text-[13px] text-gray-500">
+                        {t("reconciliationPage.matches.empty", "No matches in this period yet.")}
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+
+      <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+        <div className="border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+          <div className="text-[10px] uppercase tracking-wide text-gray-600">
+            {t("reconciliationPage.accounts.title", "Accounts overview")}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200 text-left">
+                {[
+                  t("reconciliationPage.accounts.bank", "Bank account"),
+                  t("reconciliationPage.accounts.difference", "Difference"),
+                  t("reconciliationPage.accounts.unmatchedLines", "Open lines"),
+                  t("reconciliationPage.accounts.unmatchedSettlements", "Open settlements"),
+                  t("reconciliationPage.accounts.lockedThrough", "Locked through"),
+                ].map((column) => (
+                  <th key={column} className="px-4 py-3 text-[10px] uppercase tracking-wide text-gray-600">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => (
+                <tr
+                  key={summary.bank_account_id}
+                  className={`cursor-pointer border-b border-gray-100 last:border-b-0 hover:bg-gray-50 ${
+                    summary.bank_account_id === bankId ? "bg-gray-50" : ""
+                  }`}
+                  onClick={() => setBankId(summary.bank_account_id)}
+                >
+                  <td className="px-4 py-3 text-[13px] text-gray-900">
+                    {bankMap.get(summary.bank_account_id) || summary.bank_account_label || summary.bank_account_id}
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-[13px] tabular-nums ${
+                      summary.unreconciled_difference_minor === 0 ? "text-gray-700" : "text-amber-700"
+                    }`}
+                  >
+                    {formatMinor(summary.unreconciled_difference_minor, summary.currency_code)}
+                  </td>
+                  <td className="px-4 py-3 text-[13px] text-gray-700">{summary.unmatched_statement_lines}</td>
+                  <td className="px-4 py-3 text-[13px] text-gray-700">{summary.unmatched_settlements}</td>
+                  <td className="px-4 py-3 text-[13px] text-gray-700">
+                    {summary.locked_through ? formatDateFromISO(summary.locked_through) : "—"}
+                  </td>
+                </tr>
+              ))}
+
+              {!summaries.length ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-10 text-center text-[13px] text-gray-500">
+                    {t("reconciliationPage.accounts.empty", "No bank accounts to reconcile.")}
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
       </section>
 
-      <section className="rounded-lg border border-dashed border-gray-300 bg-gray-50 p-4">
-        <div className="text-[10px] uppercase tracking-wide text-gray-600"> {t("reconciliationPage.backendProposal", "Backend proposal")}</div>
-        <p className="mt-2 text-[13px] leading-6 text-gray-700">
-          {t("reconciliationPage.backendProposalText", "Suggested endpoint: GET cashflow/accounting-readiness/, returning grouped queues by readiness state so this page can evolve from static guidance into a true operational board.")}
-        </p>
+      <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+        <div className="border-b border-gray-200 bg-gray-50 px-4 py-2.5">
+          <div className="text-[10px] uppercase tracking-wide text-gray-600">
+            {t("reconciliationPage.lock.title", "Period lock")}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 px-4 py-4 sm:px-5">
+          <p className="max-w-3xl text-[13px] leading-6 text-gray-600">
+            {t("reconciliationPage.lock.description", "Locking a reconciled period freezes matches and settlements of this bank account up to the selected date.")}
+          </p>
+
+          <div className="flex flex-col gap-3 md:flex-row md:items-end">
+            <div className="md:w-60">
+              <Input
+                kind="date"
+                label={t("reconciliationPage.lock.periodEnd", "Lock through")}
+                value={lockDate}
+                onValueChange={(value: string) => setLockDate(value)}
+              />
+            </div>
+            <Button type="button" disabled={!bankId || !lockDate || saving} onClick={() => void lockPeriod()}>
+              {t("reconciliationPage.lock.action", "Lock period")}
+            </Button>
+          </div>
+
+          {locks.length ? (
+            <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+              {locks.map((lock) => (
+                <li key={lock.id} className="flex items-center justify-between px-3 py-2 text-[13px] text-gray-700">
+                  <span>
+                    {t("reconciliationPage.lock.lockedThroughItem", "Locked through {{date}}", {
+                      date: formatDateFromISO(lock.period_end),
+                    })}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => void unlockPeriod(lock)}
+                  >
+                    {t("reconciliationPage.lock.unlock", "Unlock")}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
       </section>
+
+      {snackbar ? (
+        <Snackbar
+          open={!!snackbar}
+          onClose={() => setSnackbar(null)}
+          autoHideDuration={6000}
+          message={snackbar?.message}
+          severity={snackbar?.severity}
+          anchor={{ vertical: "bottom", horizontal: "center" }}
+          pauseOnHover
+          showCloseButton
+        />
+      ) : null}
     </section>
   );
 };
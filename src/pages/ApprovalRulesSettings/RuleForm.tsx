@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import { Select } from "src/shared/ui/Select";
+
+import type { GroupListItem } from "@/models/auth/rbac";
+import type { CashflowCategory } from "@/models/settings/categories";
+import type { Project } from "@/models/settings/projects";
+import type { AddApprovalRuleRequest, ApprovalRule } from "@/models/settings/approvalRules";
+
+type Option<K extends string> = { key: K; label: string };
+
+type Props = {
+  rule: ApprovalRule | null;
+  groups: GroupListItem[];
+  categories: CashflowCategory[];
+  projects: Project[];
+  busy: boolean;
+  onSubmit: (payload: AddApprovalRuleRequest) => void;
+  onCancel: () => void;
+};
+
+const RuleForm: React.FC<Props> = ({ rule, groups, categories, projects, busy, onSubmit, onCancel }) => {
+  const { t } = useTranslation("approvalRulesSettings");
+
+  const [name, setName] = useState(rule?.name ?? "");
+  const [txType, setTxType] = useState<ApprovalRule["tx_type"]>(rule?.tx_type ?? "debit");
+  const [amountMin, setAmountMin] = useState(rule?.amount_min ?? "");
+  const [categoryIds, setCategoryIds] = useState<string[]>(rule?.cashflow_category_ids ?? []);
+  const [projectIds, setProjectIds] = useState<string[]>(rule?.project_ids ?? []);
+  const [groupIds, setGroupIds] = useState<string[]>(rule?.approver_group_ids ?? []);
+  const [isActive, setIsActive] = useState(rule?.is_active ?? true);
+
+  const txOptions = useMemo<Option<ApprovalRule["tx_type"]>[]>(
+    () => [
+      { key: "debit", label: t("txType.debit") },
+      { key: "credit", label: t("txType.credit") },
+      { key: "any", label: t("txType.any") },
+    ],
+    [t]
+  );
+
+  const canSubmit = !!name.trim() && groupIds.length > 0 && !busy;
+
+  return (
+    <form
+      className="space-y-3 border-b border-gray-200 px-4 py-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit({
+          name: name.trim(),
+          is_active: isActive,
+          tx_type: txType,
+          amount_min: amountMin && Number(amountMin) > 0 ? amountMin : null,
+          cashflow_category_ids: categoryIds,
+          project_ids: projectIds,
+          approver_group_ids: groupIds,
+        });
+      }}
+    >
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input
+          kind="text"
+          label={t("field.name")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("field.namePlaceholder")}
+          disabled={busy}
+        />
+        <Select<Option<ApprovalRule["tx_type"]>>
+          label={t("field.txType")}
+          items={txOptions}
+          selected={txOptions.filter((o) => o.key === txType)}
+          onChange={(selected) => selected[0] && setTxType(selected[0].key)}
+          getItemKey={(o) => o.key}
+          getItemLabel={(o) => o.label}
+          singleSelect
+          hideCheckboxes
+          disabled={busy}
+        />
+        <Input
+          kind="amount"
+          label={t("field.amountMin")}
+          value={amountMin}
+          onValueChange={(next: string) => setAmountMin(next)}
+          zeroAsEmpty
+          disabled={busy}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Select<CashflowCategory>
+          label={t("field.categories")}
+          items={categories}
+          selected={categories.filter((c) => categoryIds.includes(c.id))}
+          onChange={(selected) => setCategoryIds(selected.map((c) => c.id))}
+          getItemKey={(c) => c.id}
+          getItemLabel={(c) => (c.code ? `${c.code} · ${c.name}` : c.name)}
+          buttonLabel={t("btnLabel.anyCategory")}
+          customStyles={{ maxHeight: "260px" }}
+          disabled={busy}
+        />
+        <Select<Project>
+          label={t("field.projects")}
+          items={projects}
+          selected={projects.filter((p) => projectIds.includes(p.id))}
+          onChange={(selected) => setProjectIds(selected.map((p) => p.id))}
+          getItemKey={(p) => p.id}
+          getItemLabel={(p) => p.name}
+          buttonLabel={t("btnLabel.anyProject")}
+          customStyles={{ maxHeight: "260px" }}
+          disabled={busy}
+        />
+        <Select<GroupListItem>
+          label={t("field.approvers")}
+          items={groups}
+          selected={groups.filter((g) => groupIds.includes(g.id))}
+          onChange={(selected) => setGroupIds(selected.map((g) => g.id))}
+          getItemKey={(g) => g.id}
+          getItemLabel={(g) => g.name}
+          buttonLabel={t("btnLabel.approvers")}
+          customStyles={{ maxHeight: "260px" }}
+          disabled={busy}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-[12px] text-gray-700">
+          <Checkbox size="sm" checked={isActive} onChange={() => setIsActive((v) => !v)} disabled={busy} />
+          {t("field.active")}
+        </label>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="cancel" onClick={onCancel} disabled={busy}>
+            {t("btn.cancel")}
+          </Button>
+          <Button type="submit" disabled={!canSubmit}>
+            {rule ? t("btn.save") : t("btn.add")}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RuleForm;
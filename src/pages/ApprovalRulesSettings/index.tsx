@@ -0,0 +1,335 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/ApprovalRulesSettings/index.tsx
+ * Rules that hold entries back from settlement until a group approves them.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Pencil, Trash2 } from "lucide-react";
+
+import PageSkeleton from "@/shared/ui/Loaders/PageSkeleton";
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { fetchAllCursor } from "@/lib/list";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+
+import type { GroupListItem } from "@/models/auth/rbac";
+import type { CashflowCategory } from "@/models/settings/categories";
+import type { Project } from "@/models/settings/projects";
+import type { AddApprovalRuleRequest, ApprovalRule } from "@/models/settings/approvalRules";
+
+import RuleForm from "./RuleForm";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+/** `null` adds a new rule; a rule id edits that rule. */
+type Editing = { id: string | null } | null;
+
+/* ------------------------------ Helpers ----------------------------------- */
+function getInitials(name?: string) {
+  if (!name) return "AR";
+  const p = name.split(" ").filter(Boolean);
+  return ((p[0]?.[0] || "") + (p.length > 1 ? p[p.length - 1][0] : "")).toUpperCase();
+}
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const ApprovalRulesSettings: React.FC = () => {
+  const { t, i18n } = useTranslation(["approvalRulesSettings"]);
+  const { user: authUser, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canAdd = isOwner || isSuperUser || handlePermissionExists("add_approval_rule");
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_approval_rule");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_approval_rule");
+
+  useEffect(() => {
+    document.title = t("approvalRulesSettings:title");
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+  const [editing, setEditing] = useState<Editing>(null);
+
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [groups, setGroups] = useState<GroupListItem[]>([]);
+  const [categories, setCategories] = useState<CashflowCategory[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  const names = useMemo(
+    () => ({
+      group: new Map(groups.map((g) => [g.id, g.name])),
+      category: new Map(categories.map((c) => [c.id, c.name])),
+      project: new Map(projects.map((p) => [p.id, p.name])),
+    }),
+    [categories, groups, projects]
+  );
+
+  /* ------------------------------- Loading -------------------------------- */
+
+  const fetchRules = useCallback(async () => {
+    const { data } = await api.getApprovalRules();
+    setRules(data ?? []);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const [, groupRes, categoryRes, projectList] = await Promise.all([
+          fetchRules(),
+          api.getGroups(),
+          api.getCashflowCategories(),
+          fetchAllCursor<Project>(api.getProjectsOptions),
+        ]);
+        if (!mounted) return;
+        setGroups(groupRes.data.results ?? []);
+        setCategories((categoryRes.data ?? []).filter((c) => c.is_active));
+        setProjects(projectList);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setSnack({ message: t("approvalRulesSettings:toast.fetchError"), severity: "error" });
+      } finally {
+        if (mounted) setIsInitialLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [fetchRules, t]);
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(
+    async (fn: () => Promise<void>, okMessage: string, fallbackError: string) => {
+      setBusy(true);
+      try {
+        await fn();
+        setSnack({ message: okMessage, severity: "success" });
+        await fetchRules();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [fetchRules]
+  );
+
+  const saveRule = useCallback(
+    (payload: AddApprovalRuleRequest) => {
+      const id = editing?.id ?? null;
+      return run(
+        async () => {
+          if (id) await api.editApprovalRule(id, payload);
+          else await api.addApprovalRule(payload);
+          setEditing(null);
+        },
+        t(id ? "approvalRulesSettings:toast.updated" : "approvalRulesSettings:toast.created"),
+        t("approvalRulesSettings:toast.saveError")
+      );
+    },
+    [editing, run, t]
+  );
+
+  const toggleActive = useCallback(
+    (rule: ApprovalRule) =>
+      run(
+        () => api.editApprovalRule(rule.id, { is_active: !rule.is_active }).then(() => undefined),
+        t(rule.is_active ? "approvalRulesSettings:toast.disabled" : "approvalRulesSettings:toast.enabled"),
+        t("approvalRulesSettings:toast.saveError")
+      ),
+    [run, t]
+  );
+
+  const deleteRule = useCallback(
+    (rule: ApprovalRule) =>
+      run(
+        () => api.deleteApprovalRule(rule.id).then(() => undefined),
+        t("approvalRulesSettings:toast.deleted"),
+        t("approvalRulesSettings:toast.deleteError")
+      ),
+    [run, t]
+  );
+
+  const describeRule = useCallback(
+    (rule: ApprovalRule) => {
+      const parts = [t(`approvalRulesSettings:txType.${rule.tx_type}`)];
+      if (rule.amount_min) {
+        parts.push(t("approvalRulesSettings:describe.amountMin", { amount: formatCurrency(rule.amount_min) }));
+      }
+      if (rule.cashflow_category_ids.length) {
+        const list = rule.cashflow_category_ids.map((id) => names.category.get(id) ?? "?").join(", ");
+        parts.push(t("approvalRulesSettings:describe.categories", { list }));
+      }
+      if (rule.project_ids.length) {
+        const list = rule.project_ids.map((id) => names.project.get(id) ?? "?").join(", ");
+        parts.push(t("approvalRulesSettings:describe.projects", { list }));
+      }
+      return parts.join(" • ");
+    },
+    [names, t]
+  );
+
+  if (isInitialLoading) {
+    return (
+      <>
+        <TopProgress active variant="top" topOffset={64} />
+        <PageSkeleton rows={5} />
+      </>
+    );
+  }
+
+  const editingRule = editing?.id ? rules.find((r) => r.id === editing.id) ?? null : null;
+
+  return (
+    <>
+      <TopProgress active={busy} variant="top" topOffset={64} />
+
+      <main className="min-h-full bg-transparent text-gray-900 px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-5xl mx-auto">
+          <header className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-5 py-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700">
+                  {getInitials(authUser?.name)}
+                </div>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("approvalRulesSettings:header.settings")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("approvalRulesSettings:header.title")}
+                  </h1>
+                </div>
+              </div>
+
+              {canAdd && !editing && (
+                <Button onClick={() => setEditing({ id: null })} disabled={busy}>
+                  {t("approvalRulesSettings:btn.new")}
+                </Button>
+              )}
+            </div>
+          </header>
+
+          <section className="mt-6">
+            <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                <span className="text-[11px] uppercase tracking-wide text-gray-700">
+                  {t("approvalRulesSettings:section.rules")}
+                </span>
+                <p className="text-[11px] text-gray-500">{t("approvalRulesSettings:section.rulesHint")}</p>
+              </div>
+
+              {editing && (
+                <RuleForm
+                  key={editing.id ?? "new"}
+                  rule={editingRule}
+                  groups={groups}
+                  categories={categories}
+                  projects={projects}
+                  busy={busy}
+                  onSubmit={(payload) => void saveRule(payload)}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+
+              <div className="divide-y divide-gray-200">
+                {rules.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-gray-500">{t("approvalRulesSettings:empty")}</p>
+                ) : (
+                  rules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                      <div className="min-w-0 flex-1">
+                        <p
+                          className={`text-[13px] font-medium truncate ${
+                            rule.is_active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          {rule.name}
+                        </p>
+                        <p className="text-[11px] text-gray-500">{describeRule(rule)}</p>
+                        <p className="text-[11px] text-gray-500">
+                          {t("approvalRulesSettings:describe.approvers", {
+                            list: rule.approver_group_ids.map((id) => names.group.get(id) ?? "?").join(", "),
+                          })}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        {canChange && (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => void toggleActive(rule)} disabled={busy}>
+                              {rule.is_active
+                                ? t("approvalRulesSettings:btn.disable")
+                                : t("approvalRulesSettings:btn.enable")}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditing({ id: rule.id })}
+                              disabled={busy}
+                              aria-label={t("approvalRulesSettings:btn.edit")}
+                              title={t("approvalRulesSettings:btn.edit")}
+                            >
+                              <Pencil size={14} />
+                            </Button>
+                          </>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => void deleteRule(rule)}
+                            disabled={busy}
+                            aria-label={t("approvalRulesSettings:btn.delete")}
+                            title={t("approvalRulesSettings:btn.delete")}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </section>
+        </div>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default ApprovalRulesSettings;
@@ -0,0 +1,149 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import Button from "@/shared/ui/Button";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { formatDateFromISO } from "@/lib";
+import type { ApprovalRequest } from "@/models/entries/approvals";
+
+type Props = {
+  request: ApprovalRequest;
+  busy: boolean;
+  onApprove: (request: ApprovalRequest, comment: string) => Promise<void>;
+  onReject: (request: ApprovalRequest, comment: string) => Promise<void>;
+};
+
+const STATUS_CLASSES: Record<ApprovalRequest["status"], string> = {
+  pending: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-700",
+};
+
+const ApprovalRequestRow: React.FC<Props> = ({ request, busy, onApprove, onReject }) => {
+  const { t } = useTranslation("approvals");
+
+  const [decision, setDecision] = useState<"approve" | "reject" | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { entry } = request;
+  const isDebit = String(entry.tx_type).toLowerCase().includes("debit");
+  const commentRequired = decision === "reject";
+
+  const details = [entry.entity_name, entry.cashflow_category_name, entry.project_name].filter(Boolean).join(" • ");
+
+  const submit = async () => {
+    if (!decision || (commentRequired && !comment.trim())) return;
+    if (decision === "approve") await onApprove(request, comment.trim());
+    else await onReject(request, comment.trim());
+    setDecision(null);
+    setComment("");
+  };
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <p className="truncate text-[13px] font-medium text-gray-900">{entry.description || "—"}</p>
+            <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] ${STATUS_CLASSES[request.status]}`}>
+              {t(`status.${request.status}`)}
+            </span>
+          </div>
+          <p className="mt-0.5 text-[11px] text-gray-500">
+            {t("row.due", { date: formatDateFromISO(entry.due_date) })}
+            {details ? ` • ${details}` : ""}
+          </p>
+          <p className="mt-0.5 text-[11px] text-gray-500">
+            {t("row.rules", { rules: request.rule_names.join(", ") || "—" })}
+            {" • "}
+            {t("row.approvers", { groups: request.approver_groups.map((g) => g.name).join(", ") || "—" })}
+          </p>
+          <p className="mt-0.5 text-[11px] text-gray-500">
+            {t("row.requested", {
+              name: request.requested_by?.name ?? "—",
+              date: formatDateFromISO(request.requested_at.slice(0, 10)),
+            })}
+          </p>
+
+          {request.decided_by ? (
+            <p className="mt-1 text-[11px] text-gray-700">
+              {t(`row.decided.${request.status === "rejected" ? "rejected" : "approved"}`, {
+                name: request.decided_by.name,
+                date: request.decided_at ? formatDateFromISO(request.decided_at.slice(0, 10)) : "",
+              })}
+              {request.comment ? <span className="text-gray-500"> — “{request.comment}”</span> : null}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="flex flex-col items-end gap-2 shrink-0">
+          <span className={`text-[13px] font-semibold tabular-nums ${isDebit ? "text-red-700" : "text-green-700"}`}>
+            {isDebit ? "−" : "+"}
+            {formatCurrency(entry.amount, entry.currency ?? undefined)}
+          </span>
+
+          {request.status === "pending" && request.can_decide && !decision ? (
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" onClick={() => setDecision("reject")} disabled={busy}>
+                {t("btn.reject")}
+              </Button>
+              <Button size="sm" onClick={() => setDecision("approve")} disabled={busy}>
+                {t("btn.approve")}
+              </Button>
+            </div>
+          ) : null}
+
+          {request.status === "pending" && !request.can_decide && request.block_reason ? (
+            <span className="max-w-[240px] text-right text-[11px] text-gray-500">
+              {t(`blockReason.${request.block_reason}`)}
+            </span>
+          ) : null}
+        </div>
+      </div>
+
+      {decision ? (
+        <form
+          className="mt-2 flex flex-col gap-2 rounded-md border border-gray-200 bg-gray-50 p-2 sm:flex-row sm:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submit();
+          }}
+        >
+          <label className="min-w-0 flex-1">
+            <span className="mb-1 block text-[11px] text-gray-600">
+              {commentRequired ? t("field.commentRequired") : t("field.comment")}
+            </span>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              autoFocus
+              className="w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-[12px] focus:outline-none focus:ring-1 focus:ring-gray-400"
+              placeholder={t("field.commentPlaceholder")}
+              disabled={busy}
+            />
+          </label>
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="cancel"
+              size="sm"
+              onClick={() => {
+                setDecision(null);
+                setComment("");
+              }}
+              disabled={busy}
+            >
+              {t("btn.cancel")}
+            </Button>
+            <Button type="submit" size="sm" disabled={busy || (commentRequired && !comment.trim())}>
+              {decision === "approve" ? t("btn.confirmApprove") : t("btn.confirmReject")}
+            </Button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+};
+
+export default ApprovalRequestRow;
@@ -0,0 +1,181 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/Approvals/index.tsx
+ * Queue of entries waiting on an approval rule before they can be settled.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+import Checkbox from "@/shared/ui/Checkbox";
+import Snackbar from "@/shared/ui/Snackbar";
+import PaginationArrows from "@/components/PaginationArrows/PaginationArrows";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { useCursorPager } from "@/hooks/useCursorPager";
+import { getCursorFromUrl } from "@/lib/list";
+import type { ApprovalRequest } from "@/models/entries/approvals";
+
+import ApprovalRequestRow from "./ApprovalRequestRow";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+type StatusTab = ApprovalRequest["status"];
+
+const TABS: StatusTab[] = ["pending", "approved", "rejected"];
+
+/* ------------------------------ Helpers ----------------------------------- */
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const Approvals: React.FC = () => {
+  const { t } = useTranslation("approvals");
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canDecide = isOwner || isSuperUser || handlePermissionExists("decide_approval_request");
+
+  useEffect(() => {
+    document.title = t("title");
+  }, [t]);
+
+  const [status, setStatus] = useState<StatusTab>("pending");
+  const [mineOnly, setMineOnly] = useState(canDecide);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      const { data } = await api.getApprovalRequests({ status, mine: mineOnly || undefined, cursor });
+      const nextCursor = data.next ? getCursorFromUrl(data.next) || data.next : undefined;
+      return { items: data.results ?? [], nextCursor };
+    },
+    [mineOnly, status]
+  );
+
+  const pager = useCursorPager<ApprovalRequest>(fetchPage, { deps: [mineOnly, status] });
+
+  const decide = useCallback(
+    async (request: ApprovalRequest, comment: string, approve: boolean) => {
+      setBusy(true);
+      try {
+        if (approve) await api.approveRequest(request.id, { comment: comment || undefined });
+        else await api.rejectRequest(request.id, { comment });
+        setSnack({ message: t(approve ? "toast.approved" : "toast.rejected"), severity: "success" });
+        await pager.refresh();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || t("toast.decideError"), severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [pager, t]
+  );
+
+  const handleApprove = useCallback(
+    (request: ApprovalRequest, comment: string) => decide(request, comment, true),
+    [decide]
+  );
+
+  const handleReject = useCallback(
+    (request: ApprovalRequest, comment: string) => decide(request, comment, false),
+    [decide]
+  );
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <TopProgress active={pager.loading || busy} variant="top" topOffset={64} />
+
+      <main className="mx-auto w-full max-w-5xl space-y-4 px-4 py-4 sm:px-6 md:py-6">
+        <div>
+          <h1 className="text-xl font-semibold md:text-2xl">{t("title")}</h1>
+          <p className="mt-1 text-sm text-gray-500">{t("subtitle")}</p>
+        </div>
+
+        <section className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+            <div className="flex items-center gap-1" role="tablist">
+              {TABS.map((tab) => (
+                <button
+                  key={tab}
+                  type="button"
+                  role="tab"
+                  aria-selected={status === tab}
+                  onClick={() => setStatus(tab)}
+                  className={`rounded-md border px-2 py-1 text-[11px] ${
+                    status === tab
+                      ? "border-gray-900 bg-gray-900 text-white"
+                      : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {t(`tabs.${tab}`)}
+                </button>
+              ))}
+            </div>
+
+            {canDecide && (
+              <label className="flex items-center gap-2 text-[12px] text-gray-700">
+                <Checkbox size="sm" checked={mineOnly} onChange={() => setMineOnly((v) => !v)} />
+                {t("filters.mine")}
+              </label>
+            )}
+          </div>
+
+          {pager.error ? (
+            <p className="p-4 text-center text-sm text-red-600">{t("toast.fetchError")}</p>
+          ) : pager.items.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500">
+              {pager.loading ? t("loading") : t(`empty.${status}`)}
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {pager.items.map((request) => (
+                <ApprovalRequestRow
+                  key={request.id}
+                  request={request}
+                  busy={busy}
+                  onApprove={handleApprove}
+                  onReject={handleReject}
+                />
+              ))}
+            </div>
+          )}
+
+          {pager.knownPages > 1 || pager.canNext ? (
+            <div className="flex justify-end border-t border-gray-200 px-4 py-2">
+              <PaginationArrows
+                onPrev={pager.prev}
+                onNext={pager.next}
+                disabledPrev={!pager.canPrev || busy}
+                disabledNext={!pager.canNext || busy}
+              />
+            </div>
+          ) : null}
+        </section>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </div>
+  );
+};
+
+export default Approvals;
@@ -28,7 +28,11 @@ import type { BankAccount, GetBanksParams } from "@/models/settings/banking";
 
 /* ----------------------------- Snackbar type ----------------------------- */
 type Snack =
-  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | {
+      message: React.ReactNode;
+      severity: "success" | "error" | "warning" | "info";
+      action?: { label: string; onClick: () => void };
+    }
   | null;
 
 /* ------------------------------ Helpers ---------------------------------- */
@@ -623,6 +627,24 @@ const BankSettings: React.FC = () => {
     setEditingBank(null);
   };
 
+  const undoDelete = async (bankId: string, batchId: string) => {
+    try {
+      await api.restoreTrash({ batch_id: batchId });
+      setDeletedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(bankId);
+        return next;
+      });
+      await pager.refresh();
+      setSnack({ message: t("toast.restored"), severity: "success" });
+    } catch (err) {
+      setSnack({
+        message: err instanceof Error ? err.message : t("errors.restoreError"),
+        severity: "error",
+      });
+    }
+  };
+
   /* ---------- ConfirmToast delete ----------------------------------------- */
   const requestDeleteBank = (bank: BankAccount) => {
     const name = bank.institution ?? "";
@@ -633,12 +655,16 @@ const BankSettings: React.FC = () => {
 
       try {
         setDeletedIds((prev) => new Set(prev).add(bank.id));
-        await api.deleteBank(bank.id);
+        const { data: receipt } = await api.deleteBank(bank.id);
 
         await pager.refresh();
         setAdded((prev) => prev.filter((x) => x.id !== bank.id));
 
-        setSnack({ message: t("toast.deleteOk"), severity: "info" });
+        setSnack({
+          message: t("toast.deleteOk"),
+          severity: "info",
+          action: { label: t("toast.undo"), onClick: () => void undoDelete(bank.id, receipt.batch_id) },
+        });
       } catch (err) {
         setDeletedIds((prev) => {
           const next = new Set(prev);
@@ -1148,6 +1174,7 @@ const BankSettings: React.FC = () => {
         autoHideDuration={6000}
         message={snack?.message}
         severity={snack?.severity}
+        action={snack?.action}
         anchor={{ vertical: "bottom", horizontal: "center" }}
         pauseOnHover
         showCloseButton
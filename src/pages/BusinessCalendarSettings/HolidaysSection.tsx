@@ -0,0 +1,327 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/BusinessCalendarSettings/HolidaysSection.tsx
+ * Holidays and bank closures of one calendar, one year at a time.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Pencil, Trash2 } from "lucide-react";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import { Select } from "src/shared/ui/Select";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { formatDateFromISO } from "@/lib";
+
+import type { Holiday, HolidayCalendar, HolidayKind } from "@/models/settings/holidays";
+
+/* ------------------------------- Types ----------------------------------- */
+
+type Notify = (snack: {
+  message: React.ReactNode;
+  severity: "success" | "error" | "warning" | "info";
+}) => void;
+
+type HolidayDraft = {
+  id: string | null;
+  date: string;
+  name: string;
+  kind: HolidayKind;
+  recurring_yearly: boolean;
+};
+
+type KindOption = { id: HolidayKind; label: string };
+
+interface HolidaysSectionProps {
+  calendar: HolidayCalendar;
+  title: string;
+  onChanged: (message: string) => Promise<void>;
+  onNotify: Notify;
+}
+
+/* ------------------------------ Helpers ----------------------------------- */
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+
+const HolidaysSection: React.FC<HolidaysSectionProps> = ({ calendar, title, onChanged, onNotify }) => {
+  const { t } = useTranslation(["businessCalendarSettings"]);
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  // National presets are kept in sync by the backend; regional days go in custom calendars
+  const editable = calendar.kind === "custom";
+  const canAdd = editable && (isOwner || isSuperUser || handlePermissionExists("add_holiday_calendar"));
+  const canChange = editable && (isOwner || isSuperUser || handlePermissionExists("change_holiday_calendar"));
+  const canDelete = editable && (isOwner || isSuperUser || handlePermissionExists("delete_holiday_calendar"));
+
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [draft, setDraft] = useState<HolidayDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const kindOptions = useMemo<KindOption[]>(
+    () => [
+      { id: "holiday", label: t("businessCalendarSettings:holidayKind.holiday") },
+      { id: "bank_closure", label: t("businessCalendarSettings:holidayKind.bank_closure") },
+    ],
+    [t]
+  );
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    setError(false);
+
+    (async () => {
+      try {
+        const { data } = await api.getHolidays(calendar.id, { year });
+        if (alive) setHolidays([...(data ?? [])].sort((a, b) => a.date.localeCompare(b.date)));
+      } catch (err) {
+        console.error(err);
+        if (alive) setError(true);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [calendar.id, year, reloadKey]);
+
+  /* ------------------------------- Editing -------------------------------- */
+
+  const openCreate = useCallback(() => {
+    setDraft({ id: null, date: `${year}-01-01`, name: "", kind: "holiday", recurring_yearly: false });
+  }, [year]);
+
+  const openEdit = useCallback((h: Holiday) => {
+    setDraft({ id: h.id, date: h.date, name: h.name, kind: h.kind, recurring_yearly: h.recurring_yearly });
+  }, []);
+
+  const draftValid = !!draft && !!draft.date && !!draft.name.trim();
+
+  const saveDraft = useCallback(async () => {
+    if (!draft || !draftValid) return;
+
+    setBusy(true);
+    try {
+      const payload = {
+        date: draft.date,
+        name: draft.name.trim(),
+        kind: draft.kind,
+        recurring_yearly: draft.recurring_yearly,
+      };
+      if (draft.id) await api.editHoliday(calendar.id, draft.id, payload);
+      else await api.addHoliday(calendar.id, payload);
+
+      setDraft(null);
+      setReloadKey((k) => k + 1);
+      await onChanged(t("businessCalendarSettings:toast.holidaySaved"));
+    } catch (err) {
+      onNotify({ message: apiErrorMessage(err) || t("businessCalendarSettings:toast.saveError"), severity: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }, [calendar.id, draft, draftValid, onChanged, onNotify, t]);
+
+  const deleteHoliday = useCallback(
+    async (h: Holiday) => {
+      setBusy(true);
+      try {
+        await api.deleteHoliday(calendar.id, h.id);
+        setReloadKey((k) => k + 1);
+        await onChanged(t("businessCalendarSettings:toast.holidayDeleted"));
+      } catch (err) {
+        onNotify({
+          message: apiErrorMessage(err) || t("businessCalendarSettings:toast.deleteError"),
+          severity: "error",
+        });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [calendar.id, onChanged, onNotify, t]
+  );
+
+  const globalBusy = busy || loading;
+
+  return (
+    <section className="mt-6">
+      <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+        <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <span className="text-[11px] uppercase tracking-wide text-gray-700">
+              {t("businessCalendarSettings:holidays.section", { name: title })}
+            </span>
+            <p className="text-[11px] text-gray-500">
+              {editable
+                ? t("businessCalendarSettings:holidays.hintCustom")
+                : t("businessCalendarSettings:holidays.hintNational")}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setYear((y) => y - 1)}
+                disabled={globalBusy}
+                aria-label={t("businessCalendarSettings:holidays.prevYear")}
+              >
+                ‹
+              </Button>
+              <span className="w-12 text-center text-[13px] font-medium tabular-nums">{year}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setYear((y) => y + 1)}
+                disabled={globalBusy}
+                aria-label={t("businessCalendarSettings:holidays.nextYear")}
+              >
+                ›
+              </Button>
+            </div>
+
+            {canAdd && (
+              <Button size="sm" onClick={openCreate} disabled={globalBusy || !!draft}>
+                {t("businessCalendarSettings:btn.addHoliday")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {draft && (
+          <form
+            className="grid grid-cols-1 gap-3 border-b border-gray-200 px-4 py-3 sm:grid-cols-[160px_1fr_180px_auto] sm:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void saveDraft();
+            }}
+          >
+            <Input
+              kind="date"
+              label={t("businessCalendarSettings:field.date")}
+              value={draft.date}
+              onValueChange={(iso) => setDraft((d) => (d ? { ...d, date: iso } : d))}
+              disabled={busy}
+            />
+            <Input
+              kind="text"
+              label={t("businessCalendarSettings:field.holidayName")}
+              value={draft.name}
+              onChange={(e) => setDraft((d) => (d ? { ...d, name: e.target.value } : d))}
+              disabled={busy}
+            />
+            <Select<KindOption>
+              label={t("businessCalendarSettings:field.kind")}
+              items={kindOptions}
+              selected={kindOptions.filter((o) => o.id === draft.kind)}
+              onChange={(items) => setDraft((d) => (d ? { ...d, kind: items[0]?.id ?? "holiday" } : d))}
+              getItemKey={(item) => item.id}
+              getItemLabel={(item) => item.label}
+              buttonLabel={t("businessCalendarSettings:field.kind")}
+              singleSelect
+              hideCheckboxes
+              hideFilter
+              clearOnClickOutside={false}
+              disabled={busy}
+            />
+            <div className="flex gap-2">
+              <Button variant="cancel" type="button" onClick={() => setDraft(null)} disabled={busy}>
+                {t("businessCalendarSettings:btn.cancel")}
+              </Button>
+              <Button type="submit" disabled={busy || !draftValid}>
+                {t("businessCalendarSettings:btn.save")}
+              </Button>
+            </div>
+            <label className="flex items-center gap-2 text-[12px] text-gray-700 sm:col-span-4">
+              <Checkbox
+                size="sm"
+                checked={draft.recurring_yearly}
+                onChange={(e) => setDraft((d) => (d ? { ...d, recurring_yearly: e.target.checked } : d))}
+                disabled={busy}
+              />
+              {t("businessCalendarSettings:field.recurringYearly")}
+            </label>
+          </form>
+        )}
+
+        {error ? (
+          <div className="p-6 text-center">
+            <p className="text-[13px] font-medium text-red-700 mb-2">
+              {t("businessCalendarSettings:holidays.fetchError")}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setReloadKey((k) => k + 1)} disabled={globalBusy}>
+              {t("businessCalendarSettings:btn.retry")}
+            </Button>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {holidays.length === 0 ? (
+              <p className="p-4 text-center text-sm text-gray-500">
+                {loading ? t("businessCalendarSettings:holidays.loading") : t("businessCalendarSettings:holidays.empty")}
+              </p>
+            ) : (
+              holidays.map((h) => (
+                <div key={h.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-medium text-gray-900 truncate">{h.name}</p>
+                    <p className="text-[11px] text-gray-500">
+                      {formatDateFromISO(h.date)} • {t(`businessCalendarSettings:holidayKind.${h.kind}`)}
+                      {h.recurring_yearly && ` • ${t("businessCalendarSettings:holidays.yearly")}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    {canChange && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openEdit(h)}
+                        disabled={globalBusy}
+                        aria-label={t("businessCalendarSettings:btn.edit")}
+                        title={t("businessCalendarSettings:btn.edit")}
+                      >
+                        <Pencil size={14} />
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => void deleteHoliday(h)}
+                        disabled={globalBusy}
+                        aria-label={t("businessCalendarSettings:btn.delete")}
+                        title={t("businessCalendarSettings:btn.delete")}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default HolidaysSection;
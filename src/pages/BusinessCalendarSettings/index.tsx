@@ -0,0 +1,388 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/BusinessCalendarSettings/index.tsx
+ * Holiday calendars used to shift due dates off non-business days.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Trash2 } from "lucide-react";
+
+import PageSkeleton from "@/shared/ui/Loaders/PageSkeleton";
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+import { Select } from "src/shared/ui/Select";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { invalidateNonBusinessDays } from "@/hooks/useNonBusinessDays";
+
+import { getCountries, type CountryOption } from "@/lib/location/countries";
+import type { HolidayCalendar } from "@/models/settings/holidays";
+
+import HolidaysSection from "./HolidaysSection";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+/* ------------------------------ Helpers ----------------------------------- */
+function getInitials(name?: string) {
+  if (!name) return "BC";
+  const p = name.split(" ").filter(Boolean);
+  return ((p[0]?.[0] || "") + (p.length > 1 ? p[p.length - 1][0] : "")).toUpperCase();
+}
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const BusinessCalendarSettings: React.FC = () => {
+  const { t, i18n } = useTranslation(["businessCalendarSettings"]);
+  const { user: authUser, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canAdd = isOwner || isSuperUser || handlePermissionExists("add_holiday_calendar");
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_holiday_calendar");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_holiday_calendar");
+
+  useEffect(() => {
+    document.title = t("businessCalendarSettings:title");
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [presetCountry, setPresetCountry] = useState<string | null>(null);
+  const [customName, setCustomName] = useState("");
+  const [customRegion, setCustomRegion] = useState("");
+
+  const countries = useMemo<CountryOption[]>(() => getCountries(i18n.language), [i18n.language]);
+
+  const countryLabel = useCallback(
+    (code: string | null) => (code ? (countries.find((c) => c.value === code)?.label ?? code) : ""),
+    [countries]
+  );
+
+  // A country can only be added once; its preset already covers every national holiday
+  const availableCountries = useMemo(() => {
+    const used = new Set(calendars.filter((c) => c.kind === "national").map((c) => c.country));
+    return countries.filter((c) => !used.has(c.value));
+  }, [calendars, countries]);
+
+  const selectedCalendar = useMemo(
+    () => calendars.find((c) => c.id === selectedId) ?? null,
+    [calendars, selectedId]
+  );
+
+  /* ------------------------------- Loading -------------------------------- */
+
+  const fetchCalendars = useCallback(async () => {
+    const { data } = await api.getHolidayCalendars();
+    const list = data ?? [];
+    setCalendars(list);
+    setSelectedId((prev) => (prev && list.some((c) => c.id === prev) ? prev : (list[0]?.id ?? null)));
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        await fetchCalendars();
+      } catch (err) {
+        console.error(err);
+        if (mounted) setSnack({ message: t("businessCalendarSettings:toast.fetchError"), severity: "error" });
+      } finally {
+        if (mounted) setIsInitialLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [fetchCalendars, t]);
+
+  // Every change reshapes due-date shifting across the app
+  const afterChange = useCallback(
+    async (message: string) => {
+      invalidateNonBusinessDays();
+      setSnack({ message, severity: "success" });
+      await fetchCalendars();
+    },
+    [fetchCalendars]
+  );
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(async (fn: () => Promise<void>, fallbackError: string) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err) {
+      setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const addPreset = useCallback(
+    () =>
+      run(async () => {
+        if (!presetCountry) return;
+        const { data } = await api.addHolidayCalendar({ kind: "national", country: presetCountry });
+        setPresetCountry(null);
+        setSelectedId(data.id);
+        await afterChange(t("businessCalendarSettings:toast.created"));
+      }, t("businessCalendarSettings:toast.saveError")),
+    [afterChange, presetCountry, run, t]
+  );
+
+  const addCustom = useCallback(
+    () =>
+      run(async () => {
+        const name = customName.trim();
+        if (!name) return;
+        const { data } = await api.addHolidayCalendar({
+          kind: "custom",
+          name,
+          region: customRegion.trim() || undefined,
+        });
+        setCustomName("");
+        setCustomRegion("");
+        setSelectedId(data.id);
+        await afterChange(t("businessCalendarSettings:toast.created"));
+      }, t("businessCalendarSettings:toast.saveError")),
+    [afterChange, customName, customRegion, run, t]
+  );
+
+  const toggleActive = useCallback(
+    (cal: HolidayCalendar) =>
+      run(async () => {
+        await api.editHolidayCalendar(cal.id, { is_active: !cal.is_active });
+        await afterChange(
+          t(cal.is_active ? "businessCalendarSettings:toast.disabled" : "businessCalendarSettings:toast.enabled")
+        );
+      }, t("businessCalendarSettings:toast.saveError")),
+    [afterChange, run, t]
+  );
+
+  const deleteCalendar = useCallback(
+    (cal: HolidayCalendar) =>
+      run(async () => {
+        await api.deleteHolidayCalendar(cal.id);
+        await afterChange(t("businessCalendarSettings:toast.deleted"));
+      }, t("businessCalendarSettings:toast.deleteError")),
+    [afterChange, run, t]
+  );
+
+  if (isInitialLoading) {
+    return (
+      <>
+        <TopProgress active variant="top" topOffset={64} />
+        <PageSkeleton rows={5} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <TopProgress active={busy} variant="top" topOffset={64} />
+
+      <main className="min-h-full bg-transparent text-gray-900 px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-5xl mx-auto">
+          <header className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-5 py-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700">
+                  {getInitials(authUser?.name)}
+                </div>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("businessCalendarSettings:header.settings")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("businessCalendarSettings:header.title")}
+                  </h1>
+                </div>
+              </div>
+            </div>
+          </header>
+
+          <section className="mt-6">
+            <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                <span className="text-[11px] uppercase tracking-wide text-gray-700">
+                  {t("businessCalendarSettings:section.calendars")}
+                </span>
+                <p className="text-[11px] text-gray-500">{t("businessCalendarSettings:section.calendarsHint")}</p>
+              </div>
+
+              {canAdd && (
+                <div className="grid grid-cols-1 gap-4 border-b border-gray-200 px-4 py-3 lg:grid-cols-2">
+                  <form
+                    className="flex items-end gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void addPreset();
+                    }}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <Select<CountryOption>
+                        label={t("businessCalendarSettings:field.country")}
+                        items={availableCountries}
+                        selected={availableCountries.filter((c) => c.value === presetCountry)}
+                        onChange={(items) => setPresetCountry(items[0]?.value ?? null)}
+                        getItemKey={(item) => item.value}
+                        getItemLabel={(item) => item.label}
+                        buttonLabel={t("businessCalendarSettings:btnLabel.country")}
+                        singleSelect
+                        hideCheckboxes
+                        clearOnClickOutside={false}
+                        customStyles={{ maxHeight: "260px" }}
+                        disabled={busy}
+                      />
+                    </div>
+                    <Button type="submit" disabled={busy || !presetCountry}>
+                      {t("businessCalendarSettings:btn.addPreset")}
+                    </Button>
+                  </form>
+
+                  <form
+                    className="flex items-end gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void addCustom();
+                    }}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <Input
+                        kind="text"
+                        label={t("businessCalendarSettings:field.name")}
+                        value={customName}
+                        onChange={(e) => setCustomName(e.target.value)}
+                        placeholder={t("businessCalendarSettings:field.namePlaceholder")}
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="w-[120px] shrink-0">
+                      <Input
+                        kind="text"
+                        label={t("businessCalendarSettings:field.region")}
+                        value={customRegion}
+                        onChange={(e) => setCustomRegion(e.target.value)}
+                        disabled={busy}
+                      />
+                    </div>
+                    <Button type="submit" variant="outline" disabled={busy || !customName.trim()}>
+                      {t("businessCalendarSettings:btn.addCustom")}
+                    </Button>
+                  </form>
+                </div>
+              )}
+
+              <div className="divide-y divide-gray-200">
+                {calendars.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-gray-500">{t("businessCalendarSettings:empty")}</p>
+                ) : (
+                  calendars.map((cal) => (
+                    <div
+                      key={cal.id}
+                      className={`flex items-center justify-between gap-3 px-4 py-2.5 ${
+                        cal.id === selectedId ? "bg-gray-50" : ""
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        className="min-w-0 flex-1 text-left"
+                        onClick={() => setSelectedId(cal.id)}
+                        aria-pressed={cal.id === selectedId}
+                      >
+                        <p
+                          className={`text-[13px] font-medium truncate ${
+                            cal.is_active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          {cal.kind === "national" ? countryLabel(cal.country) || cal.name : cal.name}
+                          {cal.region ? ` — ${cal.region}` : ""}
+                        </p>
+                        <p className="text-[11px] text-gray-500">
+                          {t(`businessCalendarSettings:kind.${cal.kind}`)}
+                          {cal.holiday_count != null &&
+                            ` • ${t("businessCalendarSettings:holidayCount", { count: cal.holiday_count })}`}
+                        </p>
+                      </button>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        {canChange && (
+                          <Button variant="outline" size="sm" onClick={() => void toggleActive(cal)} disabled={busy}>
+                            {cal.is_active
+                              ? t("businessCalendarSettings:btn.disable")
+                              : t("businessCalendarSettings:btn.enable")}
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => void deleteCalendar(cal)}
+                            disabled={busy}
+                            aria-label={t("businessCalendarSettings:btn.delete")}
+                            title={t("businessCalendarSettings:btn.delete")}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </section>
+
+          {selectedCalendar && (
+            <HolidaysSection
+              key={selectedCalendar.id}
+              calendar={selectedCalendar}
+              title={
+                selectedCalendar.kind === "national"
+                  ? countryLabel(selectedCalendar.country) || selectedCalendar.name
+                  : selectedCalendar.name
+              }
+              onChanged={afterChange}
+              onNotify={setSnack}
+            />
+          )}
+        </div>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default BusinessCalendarSettings;
@@ -4,22 +4,26 @@ import { useTranslation } from 'react-i18next';
 
 import { Sidebar } from '@/shared/layout/Sidebar';
 import type { SidebarEntryModalState } from '@/shared/layout/Sidebar/Sidebar';
-import { SettlementModal } from '@/components/Modal';
+import { SettlementModal, ExportEntriesModal } from '@/components/Modal';
 import { CashFlowTable, type CashFlowTableHandle } from '@/components/Table/CashFlowTable';
+import { CashFlowCalendar } from '@/components/CashFlowCalendar';
 import FilterBar from '@/components/FilterBar';
 import KpiCards from '@/components/KpiCards';
 import { SelectionActionsBar } from '@/components/SelectionActionsBar';
 import TopProgress from '@/shared/ui/Loaders/TopProgress';
+import Snackbar from '@/shared/ui/Snackbar';
 
 import AccountingReasonDrawer from '@/components/CashFlowAccounting/AccountingReasonDrawer';
 
 import { api } from '@/api/requests';
 import { PermissionMiddleware } from '@/middlewares';
 import { fetchAllCursor } from '@/lib/list';
+import { countSettlementBlocks } from '@/lib/approvals';
+import { useEntryViewLink } from '@/hooks/useEntryViewLink';
 
 import type { Entry } from '@/models/entries/entries';
 import type { AccountingReadiness } from '@/models/entries/accountingReadiness';
-import type { EntryFilters } from '@/models/components/filterBar';
+import type { EntryFilters, EntryLayout, EntrySortOrder } from '@/models/components/filterBar';
 import { type ModalType } from '@/components/Modal/Modal.types';
 import type { BankAccount } from '@/models/settings/banking';
 
@@ -50,6 +54,12 @@ const DEFAULT_FILTERS: EntryFilters = {
   amount_max: "",
 } as EntryFilters;
 
+type Snack = {
+  message: string;
+  severity: 'success' | 'error' | 'warning' | 'info';
+  action?: { label: string; onClick: () => void };
+} | null;
+
 const CashFlow = () => {
   const { t } = useTranslation(['cashFlow']);
   const navigate = useNavigate();
@@ -81,16 +91,58 @@ const CashFlow = () => {
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [selectedEntries, setSelectedEntries] = useState<Entry[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const [readinessByEntryId, setReadinessByEntryId] = useState<Record<string, AccountingReadiness>>({});
   const [reasonEntryId, setReasonEntryId] = useState<string | null>(null);
 
   const tableRef = useRef<CashFlowTableHandle>(null);
-  const [filters, setFilters] = useState<EntryFilters>(() => DEFAULT_FILTERS);
+  const [snack, setSnack] = useState<Snack>(null);
+  const [filterBarKey, setFilterBarKey] = useState(0);
+
+  const { initialView, writeView, getShareUrl } = useEntryViewLink({
+    contextSettlement: false,
+    onFiltersPruned: (next) => {
+      setFilters(next);
+      setFilterBarKey((k) => k + 1);
+      bumpAll();
+      setSnack({ message: t('cashFlow:link.unavailableFilters'), severity: 'warning' });
+    },
+  });
+
+  const [filters, setFilters] = useState<EntryFilters>(() => ({ ...DEFAULT_FILTERS, ...initialView.filters }));
+  const [sortOrder, setSortOrder] = useState<EntrySortOrder>(initialView.sort);
+  const [openEntryId, setOpenEntryId] = useState<string | null>(initialView.entryId);
+  const [layout, setLayout] = useState<EntryLayout>(initialView.layout ?? 'table');
+
+  useEffect(() => {
+    writeView({ filters, sort: sortOrder, entryId: openEntryId, layout });
+  }, [filters, sortOrder, openEntryId, layout, writeView]);
+
+  const undoDelete = useCallback(
+    async (batchId: string) => {
+      try {
+        const { data } = await api.restoreTrash({ batch_id: batchId });
+        bumpCashflow();
+        bumpKpis();
+        setSnack({ message: t('cashFlow:trash.restored', { count: data.restored }), severity: 'success' });
+      } catch {
+        setSnack({ message: t('cashFlow:trash.restoreError'), severity: 'error' });
+      }
+    },
+    [bumpCashflow, bumpKpis, t]
+  );
+
+  const handleLayoutChange = useCallback((next: EntryLayout) => {
+    // The calendar has no row selection, so drop whatever the table had
+    setSelectedIds([]);
+    setSelectedEntries([]);
+    setLayout(next);
+  }, []);
 
   const filterBarHotkeysEnabled = useMemo(
-    () => !isEditingModalOpen && !isSettlementModalOpen,
-    [isEditingModalOpen, isSettlementModalOpen]
+    () => !isEditingModalOpen && !isSettlementModalOpen && !isExportOpen,
+    [isEditingModalOpen, isSettlementModalOpen, isExportOpen]
   );
 
   const [banks, setBanks] = useState<BankAccount[]>([]);
@@ -127,6 +179,7 @@ const CashFlow = () => {
 
   const handleEditEntry = useCallback(
     async (entry: Entry) => {
+      setOpenEntryId(entry.id);
       setEditingModalType(entry.tx_type as ModalType);
       setEditingEntry(null);
       setIsEditingModalOpen(true);
@@ -138,6 +191,7 @@ const CashFlow = () => {
         setEditingModalType((res.data as Entry).tx_type as ModalType);
       } catch (err) {
         alert(getErrorMessage(err, t('cashFlow:errors.loadEntryDetailsUnexpected')));
+        setOpenEntryId(null);
         setIsEditingModalOpen(false);
         setEditingEntry(null);
         setEditingModalType(null);
@@ -149,12 +203,49 @@ const CashFlow = () => {
   );
 
   const handleCloseEditingModal = useCallback(() => {
+    setOpenEntryId(null);
     setIsEditingModalOpen(false);
     setEditingEntry(null);
     setEditingModalType(null);
     setIsEditingEntryLoading(false);
   }, []);
 
+  // Entry from a shared link: only open the modal once we know the viewer can load it
+  useEffect(() => {
+    const id = initialView.entryId;
+    if (!id) return;
+
+    let alive = true;
+
+    (async () => {
+      try {
+        const res = await api.getEntry(id);
+        if (!alive) return;
+        const entry = res.data as Entry;
+        setEditingEntry(entry);
+        setEditingModalType(entry.tx_type as ModalType);
+        setIsEditingModalOpen(true);
+      } catch {
+        if (!alive) return;
+        setOpenEntryId(null);
+        setSnack({ message: t('cashFlow:link.unavailableEntry'), severity: 'warning' });
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [initialView, t]);
+
+  const handleShareLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl());
+      setSnack({ message: t('cashFlow:link.copied'), severity: 'success' });
+    } catch {
+      setSnack({ message: t('cashFlow:link.copyFailed'), severity: 'error' });
+    }
+  }, [getShareUrl, t]);
+
   const editingEntryModalState: SidebarEntryModalState = {
     isOpen: isEditingModalOpen,
     type: editingModalType,
@@ -231,10 +322,14 @@ const CashFlow = () => {
         <div className="mt-[15px] pb-6 h-[calc(100vh-80px)] grid grid-rows-[auto_auto_minmax(0,1fr)] gap-4 overflow-hidden px-4 sm:px-10">
           <PermissionMiddleware codeName={['view_filters']} requireAll>
             <FilterBar
+              key={filterBarKey}
               onApply={handleApplyFilters}
+              initial={filters}
               bankActive
               contextSettlement={false}
               shortcutsEnabled={filterBarHotkeysEnabled}
+              onExport={() => setIsExportOpen(true)}
+              onShareLink={() => void handleShareLink()}
             />
           </PermissionMiddleware>
 
@@ -246,18 +341,51 @@ const CashFlow = () => {
             banksRefreshKey={banksKey}
           />
 
-          <div className="min-h-0 h-full">
-            <PermissionMiddleware codeName={['view_cash_flow_entries']} requireAll>
-              <CashFlowTable
-                ref={tableRef}
-                key={cashflowKey}
-                filters={filters}
-                onEdit={handleEditEntry}
-                onSelectionChange={handleSelectionChange}
-                onOpenAccountingReason={handleReasonRequest}
-                accountingStateById={readinessByEntryId}
-              />
-            </PermissionMiddleware>
+          <div className="min-h-0 h-full flex flex-col gap-2">
+            <div className="flex justify-end gap-1 shrink-0" role="tablist" aria-label={t('cashFlow:layout.label')}>
+              {(['table', 'calendar'] as EntryLayout[]).map((l) => (
+                <button
+                  key={l}
+                  type="button"
+                  role="tab"
+                  aria-selected={layout === l}
+                  onClick={() => handleLayoutChange(l)}
+                  className={`rounded-md border px-2 py-1 text-[11px] ${
+                    layout === l
+                      ? 'border-gray-900 bg-gray-900 text-white'
+                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {t(`cashFlow:layout.${l}`)}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-h-0">
+              <PermissionMiddleware codeName={['view_cash_flow_entries']} requireAll>
+                {layout === 'calendar' ? (
+                  <CashFlowCalendar
+                    key={cashflowKey}
+                    filters={filters}
+                    onEdit={handleEditEntry}
+                    onNotify={setSnack}
+                    onRescheduled={bumpKpis}
+                  />
+                ) : (
+                  <CashFlowTable
+                    ref={tableRef}
+                    key={cashflowKey}
+                    filters={filters}
+                    sortOrder={sortOrder}
+                    onSortOrderChange={setSortOrder}
+                    onEdit={handleEditEntry}
+                    onSelectionChange={handleSelectionChange}
+                    onOpenAccountingReason={handleReasonRequest}
+                    accountingStateById={readinessByEntryId}
+                  />
+                )}
+              </PermissionMiddleware>
+            </div>
           </div>
 
           {hasSelection ? (
@@ -272,8 +400,15 @@ const CashFlow = () => {
                 if (!selectedIds.length) return;
                 setIsDeleting(true);
                 try {
-                  if (selectedIds.length > 1) await api.deleteEntriesBulk(selectedIds as string[]);
-                  else await api.deleteEntry(selectedIds[0] as string);
+                  const { data: receipt } =
+                    selectedIds.length > 1
+                      ? await api.deleteEntriesBulk(selectedIds as string[])
+                      : await api.deleteEntry(selectedIds[0] as string);
+                  setSnack({
+                    message: t('cashFlow:trash.deleted', { count: receipt.count || selectedIds.length }),
+                    severity: 'info',
+                    action: { label: t('cashFlow:trash.undo'), onClick: () => void undoDelete(receipt.batch_id) },
+                  });
                   bumpCashflow();
                   bumpKpis();
                   setSelectedIds([]);
@@ -287,6 +422,8 @@ const CashFlow = () => {
               }}
               accountingReviewCount={selectedIds.length}
               onAccountingReview={() => navigate('/settings/accounting/reconciliation')}
+              approvalBlockedCount={countSettlementBlocks(selectedEntries)}
+              onApprovalQueue={() => navigate('/approvals')}
             />
           ) : null}
         </div>
@@ -310,12 +447,33 @@ const CashFlow = () => {
         </PermissionMiddleware>
       ) : null}
 
+      <ExportEntriesModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        context="cashflow"
+        filters={filters}
+        sort={sortOrder}
+        selectedIds={selectedIds}
+      />
+
       <AccountingReasonDrawer
         open={!!reasonEntryId}
         accounting={selectedAccounting}
         onClose={() => setReasonEntryId(null)}
         onOpenAccountingSettings={() => navigate('/settings/accounting/reconciliation')}
       />
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={6000}
+        message={snack?.message}
+        severity={snack?.severity}
+        action={snack?.action}
+        anchor={{ vertical: 'bottom', horizontal: 'center' }}
+        pauseOnHover
+        showCloseButton
+      />
     </div>
   );
 };
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import { Select } from "src/shared/ui/Select";
+
+import { evenSplit } from "@/lib/allocations";
+import { isValidRulePattern } from "@/lib/categorizationRules";
+
+import type { BankAccount } from "@/models/settings/banking";
+import type { Department } from "@/models/settings/departments";
+import type { Entity } from "@/models/settings/entities";
+import type { LedgerAccount } from "@/models/settings/ledgerAccounts";
+import type { Project } from "@/models/settings/projects";
+import type { StatementImportDepartment } from "@/models/settings/statements";
+import type { AddCategorizationRuleRequest, CategorizationRule } from "@/models/settings/categorizationRules";
+
+import { bankLabel, entityLabel, ledgerAccountLabel, type DocumentTypeOption } from "./helpers";
+
+type Option<K extends string> = { key: K; label: string };
+
+type Props = {
+  rule: CategorizationRule | null;
+  ledgerAccounts: LedgerAccount[];
+  entities: Entity[];
+  projects: Project[];
+  departments: Department[];
+  documentTypes: DocumentTypeOption[];
+  banks: BankAccount[];
+  busy: boolean;
+  onSubmit: (payload: AddCategorizationRuleRequest) => void;
+  onCancel: () => void;
+};
+
+const RuleForm: React.FC<Props> = ({
+  rule,
+  ledgerAccounts,
+  entities,
+  projects,
+  departments,
+  documentTypes,
+  banks,
+  busy,
+  onSubmit,
+  onCancel,
+}) => {
+  const { t } = useTranslation("categorizationRulesSettings");
+
+  const [name, setName] = useState(rule?.name ?? "");
+  const [pattern, setPattern] = useState(rule?.description_pattern ?? "");
+  const [txType, setTxType] = useState<CategorizationRule["tx_type"]>(rule?.tx_type ?? "any");
+  const [amountMin, setAmountMin] = useState(rule?.amount_min ?? "");
+  const [amountMax, setAmountMax] = useState(rule?.amount_max ?? "");
+  const [bankIds, setBankIds] = useState<string[]>(rule?.bank_account_ids ?? []);
+  const [ledgerAccountId, setLedgerAccountId] = useState(rule?.ledger_account_id ?? "");
+  const [entityId, setEntityId] = useState(rule?.entity_id ?? "");
+  const [projectId, setProjectId] = useState(rule?.project_id ?? "");
+  const [documentType, setDocumentType] = useState(rule?.document_type ?? "");
+  const [split, setSplit] = useState<StatementImportDepartment[]>(rule?.departments ?? []);
+  const [isActive, setIsActive] = useState(rule?.is_active ?? true);
+
+  const txOptions = useMemo<Option<CategorizationRule["tx_type"]>[]>(
+    () => [
+      { key: "any", label: t("txType.any") },
+      { key: "debit", label: t("txType.debit") },
+      { key: "credit", label: t("txType.credit") },
+    ],
+    [t]
+  );
+
+  const departmentNames = useMemo(() => new Map(departments.map((d) => [d.id, d.name])), [departments]);
+
+  const patternValid = isValidRulePattern(pattern);
+  const splitTotal = split.reduce((sum, d) => sum + (Number(d.percent) || 0), 0);
+  const splitValid = !split.length || Math.abs(splitTotal - 100) <= 0.001;
+  const hasCondition = !!pattern.trim() || txType !== "any" || !!amountMin || !!amountMax || bankIds.length > 0;
+  const hasAction = !!(ledgerAccountId || entityId || projectId || documentType || split.length);
+
+  const canSubmit = !!name.trim() && patternValid && splitValid && hasCondition && hasAction && !busy;
+
+  const handleDepartmentsChange = (selected: Department[]) => {
+    const shares = evenSplit(selected.length, 100);
+    setSplit(selected.map((d, i) => ({ department_id: d.id, percent: shares[i] })));
+  };
+
+  const single = <T,>(items: T[], match: (item: T) => boolean) => items.filter(match).slice(0, 1);
+
+  return (
+    <form
+      className="space-y-3 border-b border-gray-200 px-4 py-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit({
+          name: name.trim(),
+          is_active: isActive,
+          description_pattern: pattern.trim(),
+          amount_min: amountMin && Number(amountMin) > 0 ? amountMin : null,
+          amount_max: amountMax && Number(amountMax) > 0 ? amountMax : null,
+          tx_type: txType,
+          bank_account_ids: bankIds,
+          ledger_account_id: ledgerAccountId || null,
+          entity_id: entityId || null,
+          project_id: projectId || null,
+          departments: split,
+          document_type: documentType || null,
+        });
+      }}
+    >
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input
+          kind="text"
+          label={t("field.name")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("field.namePlaceholder")}
+          disabled={busy}
+        />
+        <div className="md:col-span-2 space-y-1">
+          <Input
+            kind="text"
+            label={t("field.pattern")}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={t("field.patternPlaceholder")}
+            disabled={busy}
+          />
+          <p className={`text-[11px] ${patternValid ? "text-gray-500" : "text-red-600"}`}>
+            {patternValid ? t("field.patternHint") : t("field.patternInvalid")}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+        <Select<Option<CategorizationRule["tx_type"]>>
+          label={t("field.txType")}
+          items={txOptions}
+          selected={txOptions.filter((o) => o.key === txType)}
+          onChange={(selected) => selected[0] && setTxType(selected[0].key)}
+          getItemKey={(o) => o.key}
+          getItemLabel={(o) => o.label}
+          singleSelect
+          hideCheckboxes
+          disabled={busy}
+        />
+        <Input
+          kind="amount"
+          label={t("field.amountMin")}
+          value={amountMin}
+          onValueChange={(next: string) => setAmountMin(next)}
+          zeroAsEmpty
+          disabled={busy}
+        />
+        <Input
+          kind="amount"
+          label={t("field.amountMax")}
+          value={amountMax}
+          onValueChange={(next: string) => setAmountMax(next)}
+          zeroAsEmpty
+          disabled={busy}
+        />
+        <Select<BankAccount>
+          label={t("field.banks")}
+          items={banks}
+          selected={banks.filter((b) => bankIds.includes(b.id))}
+          onChange={(selected) => setBankIds(selected.map((b) => b.id))}
+          getItemKey={(b) => b.id}
+          getItemLabel={bankLabel}
+          buttonLabel={t("btnLabel.anyBank")}
+          customStyles={{ maxHeight: "260px" }}
+          disabled={busy}
+        />
+      </div>
+
+      <div className="rounded-md border border-gray-200 bg-gray-50 p-3 space-y-3">
+        <span className="text-[11px] uppercase tracking-wide text-gray-700">{t("section.actions")}</span>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <Select<LedgerAccount>
+            label={t("field.ledgerAccount")}
+            items={ledgerAccounts}
+            selected={single(ledgerAccounts, (a) => a.id === ledgerAccountId)}
+            onChange={(selected) => setLedgerAccountId(selected[0]?.id ?? "")}
+            getItemKey={(a) => a.id}
+            getItemLabel={ledgerAccountLabel}
+            buttonLabel={t("btnLabel.keep")}
+            singleSelect
+            customStyles={{ maxHeight: "260px" }}
+            virtualize
+            virtualRowHeight={32}
+            virtualThreshold={300}
+            disabled={busy}
+          />
+          <Select<Entity>
+            label={t("field.entity")}
+            items={entities}
+            selected={single(entities, (e) => e.id === entityId)}
+            onChange={(selected) => setEntityId(selected[0]?.id ?? "")}
+            getItemKey={(e) => e.id}
+            getItemLabel={entityLabel}
+            buttonLabel={t("btnLabel.keep")}
+            singleSelect
+            customStyles={{ maxHeight: "260px" }}
+            virtualize
+            virtualRowHeight={32}
+            virtualThreshold={300}
+            disabled={busy}
+          />
+          <Select<Project>
+            label={t("field.project")}
+            items={projects}
+            selected={single(projects, (p) => p.id === projectId)}
+            onChange={(selected) => setProjectId(selected[0]?.id ?? "")}
+            getItemKey={(p) => p.id}
+            getItemLabel={(p) => p.name}
+            buttonLabel={t("btnLabel.keep")}
+            singleSelect
+            customStyles={{ maxHeight: "260px" }}
+            disabled={busy}
+          />
+          <Select<DocumentTypeOption>
+            label={t("field.documentType")}
+            items={documentTypes}
+            selected={single(documentTypes, (d) => d.id === documentType)}
+            onChange={(selected) => setDocumentType(selected[0]?.id ?? "")}
+            getItemKey={(d) => d.id}
+            getItemLabel={(d) => d.label}
+            buttonLabel={t("btnLabel.keep")}
+            singleSelect
+            customStyles={{ maxHeight: "260px" }}
+            disabled={busy}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Select<Department>
+            label={t("field.departments")}
+            items={departments}
+            selected={departments.filter((d) => split.some((s) => s.department_id === d.id))}
+            onChange={handleDepartmentsChange}
+            getItemKey={(d) => d.id}
+            getItemLabel={(d) => d.name}
+            buttonLabel={t("btnLabel.keep")}
+            clearOnClickOutside={false}
+            customStyles={{ maxHeight: "260px" }}
+            disabled={busy}
+          />
+          {split.length > 1 && (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              {split.map((row, index) => (
+                <Input
+                  key={row.department_id}
+                  kind="percentage"
+                  label={departmentNames.get(row.department_id) ?? row.department_id}
+                  value={row.percent}
+                  onValueChange={(next) =>
+                    setSplit((prev) => prev.map((d, i) => (i === index ? { ...d, percent: next } : d)))
+                  }
+                  zeroAsEmpty
+                  disabled={busy}
+                />
+              ))}
+            </div>
+          )}
+          {!splitValid && (
+            <p className="text-[11px] text-amber-700">{t("field.departmentsTotal", { total: splitTotal.toFixed(2) })}</p>
+          )}
+        </div>
+      </div>
+
+      {(!hasCondition || !hasAction) && (
+        <p className="text-[11px] text-gray-500">{!hasCondition ? t("hint.needCondition") : t("hint.needAction")}</p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-[12px] text-gray-700">
+          <Checkbox size="sm" checked={isActive} onChange={() => setIsActive((v) => !v)} disabled={busy} />
+          {t("field.active")}
+        </label>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="cancel" onClick={onCancel} disabled={busy}>
+            {t("btn.cancel")}
+          </Button>
+          <Button type="submit" disabled={!canSubmit}>
+            {rule ? t("btn.save") : t("btn.add")}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default RuleForm;
@@ -0,0 +1,13 @@
+// src/pages/CategorizationRulesSettings/helpers.ts
+
+import type { BankAccount } from "@/models/settings/banking";
+import type { Entity } from "@/models/settings/entities";
+import type { LedgerAccount } from "@/models/settings/ledgerAccounts";
+
+export type DocumentTypeOption = { id: string; label: string };
+
+export const entityLabel = (e: Entity) => e.full_name || e.alias_name || "—";
+
+export const ledgerAccountLabel = (a: LedgerAccount) => (a.code ? `${a.code} · ${a.name}` : a.name);
+
+export const bankLabel = (b: BankAccount) => `${b.institution} · ${b.account_number}`;
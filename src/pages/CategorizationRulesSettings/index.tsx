@@ -0,0 +1,542 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/CategorizationRulesSettings/index.tsx
+ * Rules that fill statement import rows before AI suggestions run.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react";
+
+import PageSkeleton from "@/shared/ui/Loaders/PageSkeleton";
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+
+import Button from "@/shared/ui/Button";
+import Input from "@/shared/ui/Input";
+import Snackbar from "@/shared/ui/Snackbar";
+import { Select } from "src/shared/ui/Select";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { fetchAllCursor } from "@/lib/list";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { findMatchingRule, sortRules } from "@/lib/categorizationRules";
+
+import type { DocumentType } from "@/models/entries/documentTypes";
+import type { BankAccount } from "@/models/settings/banking";
+import type { Department } from "@/models/settings/departments";
+import type { Entity } from "@/models/settings/entities";
+import type { LedgerAccount } from "@/models/settings/ledgerAccounts";
+import type { Project } from "@/models/settings/projects";
+import type { AddCategorizationRuleRequest, CategorizationRule } from "@/models/settings/categorizationRules";
+
+import RuleForm from "./RuleForm";
+import { bankLabel, entityLabel, ledgerAccountLabel, type DocumentTypeOption } from "./helpers";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+/** `null` adds a new rule; a rule id edits that rule. */
+type Editing = { id: string | null } | null;
+
+type TxOption = { key: "1" | "-1"; label: string };
+
+/* ------------------------------ Helpers ----------------------------------- */
+function getInitials(name?: string) {
+  if (!name) return "CR";
+  const p = name.split(" ").filter(Boolean);
+  return ((p[0]?.[0] || "") + (p.length > 1 ? p[p.length - 1][0] : "")).toUpperCase();
+}
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const CategorizationRulesSettings: React.FC = () => {
+  const { t, i18n } = useTranslation(["categorizationRulesSettings", "entriesModal"]);
+  const { user: authUser, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canAdd = isOwner || isSuperUser || handlePermissionExists("add_categorization_rule");
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_categorization_rule");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_categorization_rule");
+
+  useEffect(() => {
+    document.title = t("categorizationRulesSettings:title");
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+  const [editing, setEditing] = useState<Editing>(null);
+
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([]);
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
+  const [banks, setBanks] = useState<BankAccount[]>([]);
+
+  const [testDescription, setTestDescription] = useState("");
+  const [testAmount, setTestAmount] = useState("");
+  const [testTxType, setTestTxType] = useState<TxOption["key"]>("-1");
+
+  const documentTypeOptions = useMemo<DocumentTypeOption[]>(
+    () =>
+      documentTypes.map((d) => ({
+        id: d.code,
+        label: t(`entriesModal:documentTypes.${d.code}`, { defaultValue: d.code }),
+      })),
+    [documentTypes, t]
+  );
+
+  const names = useMemo(
+    () => ({
+      ledgerAccount: new Map(ledgerAccounts.map((a) => [a.id, ledgerAccountLabel(a)])),
+      entity: new Map(entities.map((e) => [e.id, entityLabel(e)])),
+      project: new Map(projects.map((p) => [p.id, p.name])),
+      department: new Map(departments.map((d) => [d.id, d.name])),
+      documentType: new Map(documentTypeOptions.map((d) => [d.id, d.label])),
+      bank: new Map(banks.map((b) => [b.id, bankLabel(b)])),
+    }),
+    [banks, departments, documentTypeOptions, entities, ledgerAccounts, projects]
+  );
+
+  const ordered = useMemo(() => sortRules(rules), [rules]);
+
+  const txOptions = useMemo<TxOption[]>(
+    () => [
+      { key: "-1", label: t("categorizationRulesSettings:txType.debit") },
+      { key: "1", label: t("categorizationRulesSettings:txType.credit") },
+    ],
+    [t]
+  );
+
+  /* ------------------------------- Loading -------------------------------- */
+
+  const fetchRules = useCallback(async () => {
+    const { data } = await api.getCategorizationRules();
+    setRules(data ?? []);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const [, accountList, entityList, projectList, departmentList, docTypeList, bankList] = await Promise.all([
+          fetchRules(),
+          fetchAllCursor<LedgerAccount>((params?: { cursor?: string }) =>
+            api.getLedgerAccounts({ cursor: params?.cursor, active: "true" })
+          ),
+          fetchAllCursor<Entity>(api.getEntitiesOptions),
+          fetchAllCursor<Project>(api.getProjectsOptions),
+          fetchAllCursor<Department>(api.getDepartmentsOptions),
+          fetchAllCursor<DocumentType>(api.getDocumentTypes),
+          fetchAllCursor<BankAccount>((params?: { cursor?: string }) =>
+            api.getBanks({ cursor: params?.cursor, active: "true" })
+          ),
+        ]);
+        if (!mounted) return;
+        setLedgerAccounts(accountList);
+        setEntities(entityList.filter((e) => e.is_active));
+        setProjects(projectList.filter((p) => p.is_active));
+        setDepartments(departmentList.filter((d) => d.is_active));
+        setDocumentTypes(docTypeList.filter((d) => d.is_active));
+        setBanks(bankList);
+      } catch (err) {
+        console.error(err);
+        if (mounted) setSnack({ message: t("categorizationRulesSettings:toast.fetchError"), severity: "error" });
+      } finally {
+        if (mounted) setIsInitialLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [fetchRules, t]);
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(
+    async (fn: () => Promise<void>, okMessage: string, fallbackError: string) => {
+      setBusy(true);
+      try {
+        await fn();
+        setSnack({ message: okMessage, severity: "success" });
+        await fetchRules();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [fetchRules]
+  );
+
+  const saveRule = useCallback(
+    (payload: AddCategorizationRuleRequest) => {
+      const id = editing?.id ?? null;
+      return run(
+        async () => {
+          if (id) await api.editCategorizationRule(id, payload);
+          // New rules go last so existing ones keep precedence
+          else await api.addCategorizationRule({ ...payload, priority: (ordered.at(-1)?.priority ?? 0) + 1 });
+          setEditing(null);
+        },
+        t(id ? "categorizationRulesSettings:toast.updated" : "categorizationRulesSettings:toast.created"),
+        t("categorizationRulesSettings:toast.saveError")
+      );
+    },
+    [editing, ordered, run, t]
+  );
+
+  const toggleActive = useCallback(
+    (rule: CategorizationRule) =>
+      run(
+        () => api.editCategorizationRule(rule.id, { is_active: !rule.is_active }).then(() => undefined),
+        t(rule.is_active ? "categorizationRulesSettings:toast.disabled" : "categorizationRulesSettings:toast.enabled"),
+        t("categorizationRulesSettings:toast.saveError")
+      ),
+    [run, t]
+  );
+
+  /** Swaps priorities with the neighbour; equal priorities get spread apart first. */
+  const move = useCallback(
+    (index: number, delta: -1 | 1) => {
+      const other = ordered[index + delta];
+      const rule = ordered[index];
+      if (!rule || !other) return;
+      return run(
+        async () => {
+          const a = rule.priority === other.priority ? index + delta : other.priority;
+          const b = rule.priority === other.priority ? index : rule.priority;
+          await Promise.all([
+            api.editCategorizationRule(rule.id, { priority: a }),
+            api.editCategorizationRule(other.id, { priority: b }),
+          ]);
+        },
+        t("categorizationRulesSettings:toast.reordered"),
+        t("categorizationRulesSettings:toast.saveError")
+      );
+    },
+    [ordered, run, t]
+  );
+
+  const deleteRule = useCallback(
+    (rule: CategorizationRule) => {
+      if (!window.confirm(t("categorizationRulesSettings:confirm.delete", { name: rule.name }))) return;
+      return run(
+        () => api.deleteCategorizationRule(rule.id).then(() => undefined),
+        t("categorizationRulesSettings:toast.deleted"),
+        t("categorizationRulesSettings:toast.deleteError")
+      );
+    },
+    [run, t]
+  );
+
+  const describeConditions = useCallback(
+    (rule: CategorizationRule) => {
+      const parts = [t(`categorizationRulesSettings:txType.${rule.tx_type}`)];
+      if (rule.description_pattern) {
+        parts.push(t("categorizationRulesSettings:describe.pattern", { pattern: rule.description_pattern }));
+      }
+      if (rule.amount_min) {
+        parts.push(t("categorizationRulesSettings:describe.amountMin", { amount: formatCurrency(rule.amount_min) }));
+      }
+      if (rule.amount_max) {
+        parts.push(t("categorizationRulesSettings:describe.amountMax", { amount: formatCurrency(rule.amount_max) }));
+      }
+      if (rule.bank_account_ids.length) {
+        const list = rule.bank_account_ids.map((id) => names.bank.get(id) ?? "?").join(", ");
+        parts.push(t("categorizationRulesSettings:describe.banks", { list }));
+      }
+      return parts.join(" • ");
+    },
+    [names, t]
+  );
+
+  const describeActions = useCallback(
+    (rule: CategorizationRule) => {
+      const parts: string[] = [];
+      if (rule.ledger_account_id) {
+        parts.push(
+          t("categorizationRulesSettings:describe.ledgerAccount", {
+            name: names.ledgerAccount.get(rule.ledger_account_id) ?? "?",
+          })
+        );
+      }
+      if (rule.entity_id) {
+        parts.push(t("categorizationRulesSettings:describe.entity", { name: names.entity.get(rule.entity_id) ?? "?" }));
+      }
+      if (rule.project_id) {
+        parts.push(t("categorizationRulesSettings:describe.project", { name: names.project.get(rule.project_id) ?? "?" }));
+      }
+      if (rule.departments.length) {
+        const list = rule.departments
+          .map((d) => `${names.department.get(d.department_id) ?? "?"} ${Number(d.percent)}%`)
+          .join(", ");
+        parts.push(t("categorizationRulesSettings:describe.departments", { list }));
+      }
+      if (rule.document_type) {
+        parts.push(
+          t("categorizationRulesSettings:describe.documentType", {
+            name: names.documentType.get(rule.document_type) ?? rule.document_type,
+          })
+        );
+      }
+      return parts.join(" • ");
+    },
+    [names, t]
+  );
+
+  // The tester has no statement behind it, so bank conditions are left out
+  const testMatch = useMemo(() => {
+    if (!testDescription.trim()) return null;
+    const amount = Number(testAmount);
+    return findMatchingRule(
+      rules.map((r) => ({ ...r, bank_account_ids: [] })),
+      {
+        description: testDescription,
+        amountMinor: testAmount && Number.isFinite(amount) ? Math.round(amount * 100) : null,
+        txType: Number(testTxType),
+        bankAccountId: null,
+      }
+    );
+  }, [rules, testAmount, testDescription, testTxType]);
+
+  if (isInitialLoading) {
+    return (
+      <>
+        <TopProgress active variant="top" topOffset={64} />
+        <PageSkeleton rows={5} />
+      </>
+    );
+  }
+
+  const editingRule = editing?.id ? rules.find((r) => r.id === editing.id) ?? null : null;
+
+  return (
+    <>
+      <TopProgress active={busy} variant="top" topOffset={64} />
+
+      <main className="min-h-full bg-transparent text-gray-900 px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-5xl mx-auto">
+          <header className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-5 py-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700">
+                  {getInitials(authUser?.name)}
+                </div>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("categorizationRulesSettings:header.settings")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("categorizationRulesSettings:header.title")}
+                  </h1>
+                </div>
+              </div>
+
+              {canAdd && !editing && (
+                <Button onClick={() => setEditing({ id: null })} disabled={busy}>
+                  {t("categorizationRulesSettings:btn.new")}
+                </Button>
+              )}
+            </div>
+          </header>
+
+          <section className="mt-6">
+            <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                <span className="text-[11px] uppercase tracking-wide text-gray-700">
+                  {t("categorizationRulesSettings:section.rules")}
+                </span>
+                <p className="text-[11px] text-gray-500">{t("categorizationRulesSettings:section.rulesHint")}</p>
+              </div>
+
+              {editing && (
+                <RuleForm
+                  key={editing.id ?? "new"}
+                  rule={editingRule}
+                  ledgerAccounts={ledgerAccounts}
+                  entities={entities}
+                  projects={projects}
+                  departments={departments}
+                  documentTypes={documentTypeOptions}
+                  banks={banks}
+                  busy={busy}
+                  onSubmit={(payload) => void saveRule(payload)}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+
+              <div className="divide-y divide-gray-200">
+                {ordered.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-gray-500">{t("categorizationRulesSettings:empty")}</p>
+                ) : (
+                  ordered.map((rule, index) => (
+                    <div
+                      key={rule.id}
+                      className={`flex items-center justify-between gap-3 px-4 py-2.5 ${
+                        testMatch?.id === rule.id ? "bg-emerald-50" : ""
+                      }`}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p
+                          className={`text-[13px] font-medium truncate ${
+                            rule.is_active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          <span className="mr-1.5 text-[11px] font-normal text-gray-400">#{index + 1}</span>
+                          {rule.name}
+                        </p>
+                        <p className="text-[11px] text-gray-500">
+                          {t("categorizationRulesSettings:describe.when", { conditions: describeConditions(rule) })}
+                        </p>
+                        <p className="text-[11px] text-gray-500">
+                          {t("categorizationRulesSettings:describe.then", { actions: describeActions(rule) })}
+                        </p>
+                        {rule.match_count != null && (
+                          <p className="text-[11px] text-gray-400">
+                            {t("categorizationRulesSettings:describe.matches", { count: rule.match_count })}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        {canChange && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => void move(index, -1)}
+                              disabled={busy || index === 0}
+                              aria-label={t("categorizationRulesSettings:btn.up")}
+                              title={t("categorizationRulesSettings:btn.up")}
+                            >
+                              <ArrowUp size={14} />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => void move(index, 1)}
+                              disabled={busy || index === ordered.length - 1}
+                              aria-label={t("categorizationRulesSettings:btn.down")}
+                              title={t("categorizationRulesSettings:btn.down")}
+                            >
+                              <ArrowDown size={14} />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => void toggleActive(rule)} disabled={busy}>
+                              {rule.is_active
+                                ? t("categorizationRulesSettings:btn.disable")
+                                : t("categorizationRulesSettings:btn.enable")}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditing({ id: rule.id })}
+                              disabled={busy}
+                              aria-label={t("categorizationRulesSettings:btn.edit")}
+                              title={t("categorizationRulesSettings:btn.edit")}
+                            >
+                              <Pencil size={14} />
+                            </Button>
+                          </>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => void deleteRule(rule)}
+                            disabled={busy}
+                            aria-label={t("categorizationRulesSettings:btn.delete")}
+                            title={t("categorizationRulesSettings:btn.delete")}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </section>
+
+          {ordered.length > 0 && (
+            <section className="mt-6">
+              <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+                <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                  <span className="text-[11px] uppercase tracking-wide text-gray-700">
+                    {t("categorizationRulesSettings:section.test")}
+                  </span>
+                  <p className="text-[11px] text-gray-500">{t("categorizationRulesSettings:section.testHint")}</p>
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 px-4 py-3 md:grid-cols-4">
+                  <div className="md:col-span-2">
+                    <Input
+                      kind="text"
+                      label={t("categorizationRulesSettings:test.description")}
+                      value={testDescription}
+                      onChange={(e) => setTestDescription(e.target.value)}
+                    />
+                  </div>
+                  <Input
+                    kind="amount"
+                    label={t("categorizationRulesSettings:test.amount")}
+                    value={testAmount}
+                    onValueChange={(next: string) => setTestAmount(next)}
+                    zeroAsEmpty
+                  />
+                  <Select<TxOption>
+                    label={t("categorizationRulesSettings:field.txType")}
+                    items={txOptions}
+                    selected={txOptions.filter((o) => o.key === testTxType)}
+                    onChange={(selected) => selected[0] && setTestTxType(selected[0].key)}
+                    getItemKey={(o) => o.key}
+                    getItemLabel={(o) => o.label}
+                    singleSelect
+                    hideCheckboxes
+                  />
+                </div>
+
+                {testDescription.trim() && (
+                  <p className="border-t border-gray-200 px-4 py-2.5 text-[12px] text-gray-700">
+                    {testMatch
+                      ? t("categorizationRulesSettings:test.matched", { name: testMatch.name })
+                      : t("categorizationRulesSettings:test.noMatch")}
+                  </p>
+                )}
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default CategorizationRulesSettings;
@@ -0,0 +1,394 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/CurrencySettings/FxRatesSection.tsx
+ * Exchange-rate table into the organization currency (manual + CSV import).
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Download, Pencil, Trash2, Upload } from "lucide-react";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import { Select } from "src/shared/ui/Select";
+import PaginationArrows from "@/components/PaginationArrows/PaginationArrows";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { useCursorPager } from "@/hooks/useCursorPager";
+import { getCursorFromUrl } from "@/lib/list";
+import { formatDateFromISO } from "@/lib";
+
+import type { CurrencyOption } from "@/lib/currency/currencies";
+import type { FxRate } from "@/models/settings/fxRates";
+
+/* ------------------------------- Types ----------------------------------- */
+
+type Notify = (snack: {
+  message: React.ReactNode;
+  severity: "success" | "error" | "warning" | "info";
+}) => void;
+
+type RateDraft = {
+  id: string | null;
+  currency: string | null;
+  rate_date: string;
+  rate: string;
+};
+
+interface FxRatesSectionProps {
+  orgCurrency: string | null;
+  currencies: CurrencyOption[];
+  onNotify: Notify;
+}
+
+/* ------------------------------ Helpers ----------------------------------- */
+
+const RATE_RE = /^\d{1,10}(?:\.\d{1,8})?$/;
+
+const normalizeRate = (raw: string) => raw.trim().replace(",", ".");
+
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+
+const FxRatesSection: React.FC<FxRatesSectionProps> = ({ orgCurrency, currencies, onNotify }) => {
+  const { t } = useTranslation(["currencySettings"]);
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canView = isOwner || isSuperUser || handlePermissionExists("view_fx_rate");
+  const canAdd = isOwner || isSuperUser || handlePermissionExists("add_fx_rate");
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_fx_rate");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_fx_rate");
+
+  const [currencyFilter, setCurrencyFilter] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RateDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // The org currency always converts at 1, so it never gets a row
+  const foreignCurrencies = useMemo(
+    () => currencies.filter((c) => c.value !== orgCurrency),
+    [currencies, orgCurrency]
+  );
+
+  const findCurrency = useCallback(
+    (code: string | null) => (code ? foreignCurrencies.filter((c) => c.value === code) : []),
+    [foreignCurrencies]
+  );
+
+  /* ------------------------------ Pagination ------------------------------ */
+
+  const fetchRatesPage = useCallback(
+    async (cursor?: string) => {
+      if (!canView) return { items: [] as FxRate[], nextCursor: undefined as string | undefined };
+
+      const { data, meta } = await api.getFxRates({ cursor, currency: currencyFilter || undefined });
+      const nextUrl = meta?.pagination?.next ?? data.next ?? null;
+
+      return {
+        items: data.results ?? [],
+        nextCursor: nextUrl ? getCursorFromUrl(nextUrl) || nextUrl : undefined,
+      };
+    },
+    [canView, currencyFilter]
+  );
+
+  const pager = useCursorPager<FxRate>(fetchRatesPage, {
+    autoLoadFirst: canView,
+    deps: [canView, currencyFilter],
+  });
+
+  /* ------------------------------- Editing -------------------------------- */
+
+  const openCreate = useCallback(() => {
+    setDraft({ id: null, currency: currencyFilter, rate_date: todayISO(), rate: "" });
+  }, [currencyFilter]);
+
+  const openEdit = useCallback((r: FxRate) => {
+    setDraft({ id: r.id, currency: r.currency, rate_date: r.rate_date, rate: r.rate });
+  }, []);
+
+  const draftRate = draft ? normalizeRate(draft.rate) : "";
+  const draftValid =
+    !!draft && !!draft.currency && !!draft.rate_date && RATE_RE.test(draftRate) && Number(draftRate) > 0;
+
+  const saveDraft = useCallback(async () => {
+    if (!draft || !draftValid || !draft.currency) return;
+
+    setBusy(true);
+    try {
+      const payload = { currency: draft.currency, rate_date: draft.rate_date, rate: draftRate };
+      if (draft.id) await api.editFxRate(draft.id, payload);
+      else await api.addFxRate(payload);
+
+      setDraft(null);
+      onNotify({ message: t("currencySettings:fx.toast.saved"), severity: "success" });
+      await pager.refresh();
+    } catch (err) {
+      onNotify({ message: apiErrorMessage(err) || t("currencySettings:fx.toast.saveError"), severity: "error" });
+    } finally {
+      setBusy(false);
+    }
+  }, [draft, draftRate, draftValid, onNotify, pager, t]);
+
+  const deleteRate = useCallback(
+    async (r: FxRate) => {
+      setDeletingId(r.id);
+      try {
+        await api.deleteFxRate(r.id);
+        onNotify({ message: t("currencySettings:fx.toast.deleted"), severity: "success" });
+        await pager.refresh();
+      } catch (err) {
+        onNotify({ message: apiErrorMessage(err) || t("currencySettings:fx.toast.deleteError"), severity: "error" });
+      } finally {
+        setDeletingId(null);
+      }
+    },
+    [onNotify, pager, t]
+  );
+
+  /* ------------------------------ CSV import ------------------------------ */
+
+  const handleImport = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      setBusy(true);
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        const { data } = await api.importFxRates(formData);
+
+        const firstError = data.errors?.[0];
+        onNotify({
+          message: [
+            t("currencySettings:fx.toast.imported", {
+              created: data.created_count,
+              updated: data.updated_count,
+            }),
+            firstError
+              ? t("currencySettings:fx.toast.importSkipped", {
+                  count: data.errors.length,
+                  line: firstError.line,
+                  error: firstError.error,
+                })
+              : null,
+          ]
+            .filter(Boolean)
+            .join(" "),
+          severity: firstError ? "warning" : "success",
+        });
+        await pager.refresh();
+      } catch (err) {
+        onNotify({ message: apiErrorMessage(err) || t("currencySettings:fx.toast.importError"), severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onNotify, pager, t]
+  );
+
+  if (!canView) return null;
+
+  const globalBusy = busy || pager.loading;
+
+  return (
+    <section className="mt-6">
+      <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+        <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <span className="text-[11px] uppercase tracking-wide text-gray-700">
+              {t("currencySettings:fx.section")}
+            </span>
+            <p className="text-[11px] text-gray-500">
+              {t("currencySettings:fx.hint", { currency: orgCurrency || "—" })}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="w-[180px]">
+              <Select<CurrencyOption>
+                items={foreignCurrencies}
+                selected={findCurrency(currencyFilter)}
+                onChange={(items) => setCurrencyFilter(items[0]?.value ?? null)}
+                getItemKey={(item) => item.value}
+                getItemLabel={(item) => item.label}
+                buttonLabel={t("currencySettings:fx.filterAll")}
+                singleSelect
+                hideCheckboxes
+                size="sm"
+                customStyles={{ maxHeight: "240px" }}
+                disabled={globalBusy}
+              />
+            </div>
+
+            {canAdd && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void api.downloadFxRatesCsvTemplate()}
+                  disabled={globalBusy}
+                  aria-label={t("currencySettings:fx.btn.template")}
+                  title={t("currencySettings:fx.btn.template")}
+                >
+                  <Download size={14} />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileRef.current?.click()}
+                  disabled={globalBusy}
+                  className="inline-flex items-center gap-1.5"
+                >
+                  <Upload size={14} />
+                  {t("currencySettings:fx.btn.import")}
+                </Button>
+                <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+                <Button size="sm" onClick={openCreate} disabled={globalBusy || !!draft}>
+                  {t("currencySettings:fx.btn.add")}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {draft && (
+          <form
+            className="grid grid-cols-1 gap-3 border-b border-gray-200 px-4 py-3 sm:grid-cols-[1fr_160px_160px_auto] sm:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void saveDraft();
+            }}
+          >
+            <Select<CurrencyOption>
+              label={t("currencySettings:fx.field.currency")}
+              items={foreignCurrencies}
+              selected={findCurrency(draft.currency)}
+              onChange={(items) => setDraft((d) => (d ? { ...d, currency: items[0]?.value ?? null } : d))}
+              getItemKey={(item) => item.value}
+              getItemLabel={(item) => item.label}
+              buttonLabel={t("currencySettings:btnLabel.currency")}
+              singleSelect
+              hideCheckboxes
+              clearOnClickOutside={false}
+              customStyles={{ maxHeight: "240px" }}
+              disabled={busy || !!draft.id}
+            />
+            <Input
+              kind="date"
+              label={t("currencySettings:fx.field.date")}
+              value={draft.rate_date}
+              onValueChange={(iso) => setDraft((d) => (d ? { ...d, rate_date: iso } : d))}
+              disabled={busy}
+            />
+            <Input
+              kind="text"
+              label={t("currencySettings:fx.field.rate", { currency: orgCurrency || "" })}
+              value={draft.rate}
+              inputMode="decimal"
+              placeholder="0.0000"
+              onChange={(e) => setDraft((d) => (d ? { ...d, rate: e.target.value } : d))}
+              errorMessage={draft.rate && !draftValid ? t("currencySettings:fx.field.rateInvalid") : undefined}
+              disabled={busy}
+            />
+            <div className="flex gap-2">
+              <Button variant="cancel" type="button" onClick={() => setDraft(null)} disabled={busy}>
+                {t("currencySettings:btn.cancel")}
+              </Button>
+              <Button type="submit" disabled={busy || !draftValid}>
+                {t("currencySettings:btn.save")}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {pager.error ? (
+          <div className="p-6 text-center">
+            <p className="text-[13px] font-medium text-red-700 mb-2">{t("currencySettings:fx.fetchError")}</p>
+            <Button variant="outline" size="sm" onClick={pager.refresh} disabled={globalBusy}>
+              {t("currencySettings:fx.btn.retry")}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-200">
+              {pager.items.length === 0 ? (
+                <p className="p-4 text-center text-sm text-gray-500">
+                  {pager.loading ? t("currencySettings:fx.loading") : t("currencySettings:fx.empty")}
+                </p>
+              ) : (
+                pager.items.map((r) => (
+                  <div
+                    key={r.id}
+                    className={`flex items-center justify-between gap-3 px-4 py-2.5 ${
+                      deletingId === r.id ? "opacity-60 pointer-events-none" : ""
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-medium text-gray-900 tabular-nums">
+                        1 {r.currency} = {r.rate} {orgCurrency}
+                      </p>
+                      <p className="text-[11px] text-gray-500">
+                        {formatDateFromISO(r.rate_date)} • {t(`currencySettings:fx.source.${r.source}`)}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      {canChange && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEdit(r)}
+                          disabled={globalBusy}
+                          aria-label={t("currencySettings:fx.btn.edit")}
+                          title={t("currencySettings:fx.btn.edit")}
+                        >
+                          <Pencil size={14} />
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => void deleteRate(r)}
+                          disabled={globalBusy}
+                          aria-label={t("currencySettings:fx.btn.delete")}
+                          title={t("currencySettings:fx.btn.delete")}
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <PaginationArrows
+              onPrev={pager.prev}
+              onNext={pager.next}
+              disabledPrev={!pager.canPrev || globalBusy}
+              disabledNext={!pager.canNext || globalBusy}
+            />
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default FxRatesSection;
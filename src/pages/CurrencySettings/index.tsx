@@ -29,6 +29,8 @@ import { getCurrencies } from "@/lib/currency/currencies";
 import type { RootState } from "@/redux/store";
 import { setUserOrganization } from "@/redux";
 
+import FxRatesSection from "./FxRatesSection";
+
 /* ------------------------------- Types ----------------------------------- */
 type Snack =
   | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
@@ -282,6 +284,8 @@ const CurrencySettings: React.FC = () => {
               </div>
             </div>
           </section>
+
+          <FxRatesSection orgCurrency={currency} currencies={allCurrencies} onNotify={setSnack} />
         </div>
 
         {modalOpen && (
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import Input from "@/shared/ui/Input";
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import { Select } from "src/shared/ui/Select";
+
+import { parseTags } from "@/lib/customFields";
+
+import type {
+  AddCustomFieldRequest,
+  CustomFieldDefinition,
+  CustomFieldType,
+} from "@/models/settings/customFields";
+
+type Option<K extends string> = { key: K; label: string };
+
+type Props = {
+  field: CustomFieldDefinition | null;
+  /** Keys already taken; a new field may not reuse one. */
+  usedKeys: string[];
+  busy: boolean;
+  onSubmit: (payload: AddCustomFieldRequest) => void;
+  onCancel: () => void;
+};
+
+const TYPES: CustomFieldType[] = ["text", "number", "date", "select", "multi_select"];
+
+/** "Purchase order nº" → "purchase_order_n" */
+function slugify(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+}
+
+const FieldForm: React.FC<Props> = ({ field, usedKeys, busy, onSubmit, onCancel }) => {
+  const { t } = useTranslation("customFieldsSettings");
+
+  const [label, setLabel] = useState(field?.label ?? "");
+  const [key, setKey] = useState(field?.key ?? "");
+  const [keyTouched, setKeyTouched] = useState(!!field);
+  const [fieldType, setFieldType] = useState<CustomFieldType>(field?.field_type ?? "text");
+  const [options, setOptions] = useState((field?.options ?? []).join(", "));
+  const [isRequired, setIsRequired] = useState(field?.is_required ?? false);
+  const [isActive, setIsActive] = useState(field?.is_active ?? true);
+  const [showInTable, setShowInTable] = useState(field?.show_in_table ?? false);
+
+  const typeOptions = useMemo<Option<CustomFieldType>[]>(
+    () => TYPES.map((k) => ({ key: k, label: t(`types.${k}`) })),
+    [t]
+  );
+
+  const effectiveKey = keyTouched ? key : slugify(label);
+  const hasOptions = fieldType === "select" || fieldType === "multi_select";
+  const parsedOptions = parseTags(options);
+
+  const keyTaken = !field && usedKeys.includes(effectiveKey);
+  const canSubmit =
+    !!label.trim() &&
+    /^[a-z][a-z0-9_]*$/.test(effectiveKey) &&
+    !keyTaken &&
+    (!hasOptions || parsedOptions.length > 0) &&
+    !busy;
+
+  return (
+    <form
+      className="space-y-3 border-b border-gray-200 px-4 py-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit({
+          key: effectiveKey,
+          label: label.trim(),
+          field_type: fieldType,
+          options: hasOptions ? parsedOptions : [],
+          is_required: isRequired,
+          is_active: isActive,
+          show_in_table: showInTable,
+        });
+      }}
+    >
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input
+          kind="text"
+          label={t("field.label")}
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={t("field.labelPlaceholder")}
+          disabled={busy}
+        />
+        <Input
+          kind="text"
+          label={t("field.key")}
+          value={effectiveKey}
+          onChange={(e) => {
+            setKeyTouched(true);
+            setKey(e.target.value.toLowerCase());
+          }}
+          errorMessage={keyTaken ? t("field.keyTaken") : undefined}
+          disabled={busy || !!field}
+        />
+        <Select<Option<CustomFieldType>>
+          label={t("field.type")}
+          items={typeOptions}
+          selected={typeOptions.filter((o) => o.key === fieldType)}
+          onChange={(selected) => selected[0] && setFieldType(selected[0].key)}
+          getItemKey={(o) => o.key}
+          getItemLabel={(o) => o.label}
+          singleSelect
+          hideCheckboxes
+          disabled={busy || !!field}
+        />
+      </div>
+
+      {hasOptions && (
+        <Input
+          kind="text"
+          label={t("field.options")}
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          placeholder={t("field.optionsPlaceholder")}
+          disabled={busy}
+        />
+      )}
+
+      <p className="text-[11px] text-gray-500">{field ? t("field.fixedHint") : t("field.keyHint")}</p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-[12px] text-gray-700">
+            <Checkbox size="sm" checked={isRequired} onChange={() => setIsRequired((v) => !v)} disabled={busy} />
+            {t("field.required")}
+          </label>
+          <label className="flex items-center gap-2 text-[12px] text-gray-700">
+            <Checkbox size="sm" checked={showInTable} onChange={() => setShowInTable((v) => !v)} disabled={busy} />
+            {t("field.showInTable")}
+          </label>
+          <label className="flex items-center gap-2 text-[12px] text-gray-700">
+            <Checkbox size="sm" checked={isActive} onChange={() => setIsActive((v) => !v)} disabled={busy} />
+            {t("field.active")}
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="cancel" onClick={onCancel} disabled={busy}>
+            {t("btn.cancel")}
+          </Button>
+          <Button type="submit" disabled={!canSubmit}>
+            {field ? t("btn.save") : t("btn.add")}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default FieldForm;
@@ -0,0 +1,336 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/CustomFieldsSettings/index.tsx
+ * Org-defined fields and their order, shown on entries, filters and exports.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react";
+
+import PageSkeleton from "@/shared/ui/Loaders/PageSkeleton";
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { invalidateCustomFields } from "@/hooks/useCustomFields";
+
+import type { AddCustomFieldRequest, CustomFieldDefinition } from "@/models/settings/customFields";
+
+import FieldForm from "./FieldForm";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+/** `null` adds a new field; a field id edits that field. */
+type Editing = { id: string | null } | null;
+
+/* ------------------------------ Helpers ----------------------------------- */
+function getInitials(name?: string) {
+  if (!name) return "CF";
+  const p = name.split(" ").filter(Boolean);
+  return ((p[0]?.[0] || "") + (p.length > 1 ? p[p.length - 1][0] : "")).toUpperCase();
+}
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const CustomFieldsSettings: React.FC = () => {
+  const { t, i18n } = useTranslation(["customFieldsSettings"]);
+  const { user: authUser, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canAdd = isOwner || isSuperUser || handlePermissionExists("add_custom_field");
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_custom_field");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_custom_field");
+
+  useEffect(() => {
+    document.title = t("customFieldsSettings:title");
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+  const [editing, setEditing] = useState<Editing>(null);
+
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+
+  const usedKeys = useMemo(() => fields.map((f) => f.key), [fields]);
+
+  /* ------------------------------- Loading -------------------------------- */
+
+  const fetchFields = useCallback(async () => {
+    const { data } = await api.getCustomFields();
+    setFields([...(data ?? [])].sort((a, b) => a.sort_order - b.sort_order));
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        await fetchFields();
+      } catch (err) {
+        console.error(err);
+        if (mounted) setSnack({ message: t("customFieldsSettings:toast.fetchError"), severity: "error" });
+      } finally {
+        if (mounted) setIsInitialLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [fetchFields, t]);
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(
+    async (fn: () => Promise<void>, okMessage: string, fallbackError: string) => {
+      setBusy(true);
+      try {
+        await fn();
+        setSnack({ message: okMessage, severity: "success" });
+        // Modal, table and filters read the shared cache
+        invalidateCustomFields();
+        await fetchFields();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [fetchFields]
+  );
+
+  const saveField = useCallback(
+    (payload: AddCustomFieldRequest) => {
+      const id = editing?.id ?? null;
+      return run(
+        async () => {
+          if (id) {
+            // Key and type are fixed once the field exists
+            await api.editCustomField(id, {
+              label: payload.label,
+              options: payload.options,
+              is_required: payload.is_required,
+              is_active: payload.is_active,
+              show_in_table: payload.show_in_table,
+            });
+          } else {
+            const last = fields.reduce((max, f) => Math.max(max, f.sort_order), 0);
+            await api.addCustomField({ ...payload, sort_order: last + 1 });
+          }
+          setEditing(null);
+        },
+        t(id ? "customFieldsSettings:toast.updated" : "customFieldsSettings:toast.created"),
+        t("customFieldsSettings:toast.saveError")
+      );
+    },
+    [editing, fields, run, t]
+  );
+
+  const moveField = useCallback(
+    (index: number, delta: -1 | 1) => {
+      const a = fields[index];
+      const b = fields[index + delta];
+      if (!a || !b) return;
+      // Equal orders (legacy rows) still need to end up distinct
+      const aOrder = a.sort_order === b.sort_order ? b.sort_order + delta : b.sort_order;
+      return run(
+        async () => {
+          await api.editCustomField(a.id, { sort_order: aOrder });
+          await api.editCustomField(b.id, { sort_order: a.sort_order });
+        },
+        t("customFieldsSettings:toast.reordered"),
+        t("customFieldsSettings:toast.saveError")
+      );
+    },
+    [fields, run, t]
+  );
+
+  const deleteField = useCallback(
+    (field: CustomFieldDefinition) => {
+      if (!window.confirm(t("customFieldsSettings:confirm.delete", { label: field.label }))) return;
+      return run(
+        () => api.deleteCustomField(field.id).then(() => undefined),
+        t("customFieldsSettings:toast.deleted"),
+        t("customFieldsSettings:toast.deleteError")
+      );
+    },
+    [run, t]
+  );
+
+  const describeField = useCallback(
+    (field: CustomFieldDefinition) => {
+      const parts = [t(`customFieldsSettings:types.${field.field_type}`), field.key];
+      if (field.options.length) parts.push(field.options.join(", "));
+      if (field.is_required) parts.push(t("customFieldsSettings:describe.required"));
+      if (field.show_in_table) parts.push(t("customFieldsSettings:describe.inTable"));
+      return parts.join(" • ");
+    },
+    [t]
+  );
+
+  if (isInitialLoading) {
+    return (
+      <>
+        <TopProgress active variant="top" topOffset={64} />
+        <PageSkeleton rows={5} />
+      </>
+    );
+  }
+
+  const editingField = editing?.id ? fields.find((f) => f.id === editing.id) ?? null : null;
+
+  return (
+    <>
+      <TopProgress active={busy} variant="top" topOffset={64} />
+
+      <main className="min-h-full bg-transparent text-gray-900 px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-5xl mx-auto">
+          <header className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-5 py-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700">
+                  {getInitials(authUser?.name)}
+                </div>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("customFieldsSettings:header.settings")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("customFieldsSettings:header.title")}
+                  </h1>
+                </div>
+              </div>
+
+              {canAdd && !editing && (
+                <Button onClick={() => setEditing({ id: null })} disabled={busy}>
+                  {t("customFieldsSettings:btn.new")}
+                </Button>
+              )}
+            </div>
+          </header>
+
+          <section className="mt-6">
+            <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                <span className="text-[11px] uppercase tracking-wide text-gray-700">
+                  {t("customFieldsSettings:section.fields")}
+                </span>
+                <p className="text-[11px] text-gray-500">{t("customFieldsSettings:section.fieldsHint")}</p>
+              </div>
+
+              {editing && (
+                <FieldForm
+                  key={editing.id ?? "new"}
+                  field={editingField}
+                  usedKeys={usedKeys}
+                  busy={busy}
+                  onSubmit={(payload) => void saveField(payload)}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+
+              <div className="divide-y divide-gray-200">
+                {fields.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-gray-500">{t("customFieldsSettings:empty")}</p>
+                ) : (
+                  fields.map((field, index) => (
+                    <div key={field.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                      <div className="min-w-0 flex-1">
+                        <p
+                          className={`text-[13px] font-medium truncate ${
+                            field.is_active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          {field.label}
+                        </p>
+                        <p className="text-[11px] text-gray-500 truncate">{describeField(field)}</p>
+                      </div>
+
+                      <div className="flex items-center gap-1 shrink-0">
+                        {canChange && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => void moveField(index, -1)}
+                              disabled={busy || index === 0}
+                              aria-label={t("customFieldsSettings:btn.moveUp")}
+                              title={t("customFieldsSettings:btn.moveUp")}
+                            >
+                              <ArrowUp size={14} />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => void moveField(index, 1)}
+                              disabled={busy || index === fields.length - 1}
+                              aria-label={t("customFieldsSettings:btn.moveDown")}
+                              title={t("customFieldsSettings:btn.moveDown")}
+                            >
+                              <ArrowDown size={14} />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditing({ id: field.id })}
+                              disabled={busy}
+                              aria-label={t("customFieldsSettings:btn.edit")}
+                              title={t("customFieldsSettings:btn.edit")}
+                            >
+                              <Pencil size={14} />
+                            </Button>
+                          </>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => void deleteField(field)}
+                            disabled={busy}
+                            aria-label={t("customFieldsSettings:btn.delete")}
+                            title={t("customFieldsSettings:btn.delete")}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </section>
+        </div>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default CustomFieldsSettings;
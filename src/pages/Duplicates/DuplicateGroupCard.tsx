@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Paperclip, Trash2 } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { formatDateFromISO } from "@/lib";
+import type { Entry } from "@/models/entries/entries";
+
+type Props = {
+  entries: Entry[];
+  score: number;
+  busy: boolean;
+  canMerge: boolean;
+  canDelete: boolean;
+  canDismiss: boolean;
+  onMerge: (keep: Entry, merge: Entry[]) => void;
+  onDelete: (entry: Entry) => void;
+  onDismiss: (entries: Entry[]) => void;
+};
+
+/** Settled entries and the ones carrying attachments are the costliest to lose. */
+function pickKeeper(entries: Entry[]): string {
+  const ranked = [...entries].sort(
+    (a, b) =>
+      Number(b.is_settled) - Number(a.is_settled) ||
+      (b.attachments_count ?? 0) - (a.attachments_count ?? 0) ||
+      a.due_date.localeCompare(b.due_date)
+  );
+  return ranked[0]?.id ?? "";
+}
+
+const DuplicateGroupCard: React.FC<Props> = ({
+  entries,
+  score,
+  busy,
+  canMerge,
+  canDelete,
+  canDismiss,
+  onMerge,
+  onDelete,
+  onDismiss,
+}) => {
+  const { t } = useTranslation("duplicates");
+  const [keepId, setKeepId] = useState(() => pickKeeper(entries));
+
+  const keep = entries.find((e) => e.id === keepId) ?? entries[0];
+  const others = entries.filter((e) => e.id !== keep.id);
+
+  return (
+    <div className="px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-[11px] uppercase tracking-wide text-gray-600">
+          {t("group.title", { count: entries.length, percent: Math.round(score * 100) })}
+        </span>
+
+        <div className="flex items-center gap-1">
+          {canDismiss && (
+            <Button variant="outline" size="sm" onClick={() => onDismiss(entries)} disabled={busy}>
+              {t("btn.dismiss")}
+            </Button>
+          )}
+          {canMerge && (
+            <Button size="sm" onClick={() => onMerge(keep, others)} disabled={busy}>
+              {t("btn.merge", { count: others.length })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ul className="mt-2 divide-y divide-gray-100 rounded-md border border-gray-200">
+        {entries.map((entry) => {
+          const isKeep = entry.id === keep.id;
+          const isDebit = String(entry.tx_type).toLowerCase().includes("debit");
+
+          return (
+            <li key={entry.id} className={`flex items-center gap-3 px-3 py-2 ${isKeep ? "bg-emerald-50/60" : ""}`}>
+              <label className="flex min-w-0 flex-1 cursor-pointer items-center gap-3">
+                <input
+                  type="radio"
+                  name={`keep-${entries[0].id}`}
+                  checked={isKeep}
+                  onChange={() => setKeepId(entry.id)}
+                  disabled={busy || !canMerge}
+                  aria-label={t("field.keep")}
+                />
+                <div className="min-w-0">
+                  <p className="truncate text-[13px] font-medium text-gray-900">{entry.description || "—"}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {formatDateFromISO(entry.due_date)}
+                    {entry.is_settled ? ` • ${t("row.settled")}` : ""}
+                    {isKeep ? ` • ${t("row.keep")}` : ""}
+                  </p>
+                </div>
+              </label>
+
+              {entry.attachments_count ? (
+                <span className="flex items-center gap-0.5 text-[11px] text-gray-500" title={t("row.attachments")}>
+                  <Paperclip size={12} />
+                  {entry.attachments_count}
+                </span>
+              ) : null}
+
+              <span className={`text-[13px] font-semibold tabular-nums ${isDebit ? "text-red-700" : "text-green-700"}`}>
+                {isDebit ? "−" : "+"}
+                {formatCurrency(entry.amount, entry.currency ?? undefined)}
+              </span>
+
+              <Link
+                to={`/cashflow?entry=${encodeURIComponent(entry.id)}`}
+                className="text-[11px] text-gray-600 underline hover:text-gray-900"
+              >
+                {t("btn.open")}
+              </Link>
+
+              {canDelete && !isKeep && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDelete(entry)}
+                  disabled={busy || entry.is_settled}
+                  aria-label={t("btn.delete")}
+                  title={entry.is_settled ? t("row.settledNoDelete") : t("btn.delete")}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateGroupCard;
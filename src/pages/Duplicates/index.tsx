@@ -0,0 +1,226 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/Duplicates/index.tsx
+ * Groups of entries that look booked twice, with merge, delete and dismiss.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+import Snackbar from "@/shared/ui/Snackbar";
+import { Select } from "src/shared/ui/Select";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import {
+  duplicatePairKey,
+  duplicateSearchRange,
+  fetchDuplicatePool,
+  groupDuplicates,
+  type DuplicatePool,
+} from "@/lib/duplicates";
+import type { Entry } from "@/models/entries/entries";
+
+import DuplicateGroupCard from "./DuplicateGroupCard";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+type WindowOption = { days: number; label: string };
+
+const WINDOWS = [30, 90, 180];
+
+/* ------------------------------ Helpers ----------------------------------- */
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+function todayISO() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/* -------------------------------------------------------------------------- */
+const Duplicates: React.FC = () => {
+  const { t } = useTranslation("duplicates");
+  const { isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canChange = isOwner || isSuperUser || handlePermissionExists("change_cash_flow_entries");
+  const canDelete = isOwner || isSuperUser || handlePermissionExists("delete_cash_flow_entries");
+
+  useEffect(() => {
+    document.title = t("title");
+  }, [t]);
+
+  const [windowDays, setWindowDays] = useState(90);
+  const [pool, setPool] = useState<DuplicatePool | null>(null);
+  const [ignoredPairs, setIgnoredPairs] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const windowOptions = useMemo<WindowOption[]>(
+    () => WINDOWS.map((days) => ({ days, label: t("filters.window", { count: days }) })),
+    [t]
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const today = todayISO();
+      const [nextPool, dismissals] = await Promise.all([
+        fetchDuplicatePool(duplicateSearchRange(today, today, windowDays)),
+        api.getDuplicateDismissals(),
+      ]);
+      setPool(nextPool);
+      setIgnoredPairs(new Set((dismissals.data ?? []).map((d) => duplicatePairKey(d.entry_ids[0], d.entry_ids[1]))));
+    } catch (err) {
+      console.error(err);
+      setSnack({ message: t("toast.fetchError"), severity: "error" });
+    } finally {
+      setLoading(false);
+    }
+  }, [t, windowDays]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const groups = useMemo(() => {
+    if (!pool) return [];
+    return groupDuplicates(pool.candidates, { ignoredPairs }).map((g) => ({
+      key: g.ids.join(","),
+      score: g.score,
+      entries: g.ids.flatMap((id) => {
+        const entry = pool.byId.get(id);
+        return entry ? [entry] : [];
+      }),
+    }));
+  }, [ignoredPairs, pool]);
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(
+    async (fn: () => Promise<void>, okMessage: string, fallbackError: string) => {
+      setBusy(true);
+      try {
+        await fn();
+        setSnack({ message: okMessage, severity: "success" });
+        await load();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [load]
+  );
+
+  const handleMerge = useCallback(
+    (keep: Entry, merge: Entry[]) => {
+      if (!window.confirm(t("confirm.merge", { count: merge.length }))) return;
+      void run(
+        () => api.mergeEntries({ keep_id: keep.id, merge_ids: merge.map((e) => e.id) }).then(() => undefined),
+        t("toast.merged", { count: merge.length }),
+        t("toast.mergeError")
+      );
+    },
+    [run, t]
+  );
+
+  const handleDelete = useCallback(
+    (entry: Entry) => {
+      if (!window.confirm(t("confirm.delete"))) return;
+      void run(() => api.deleteEntry(entry.id).then(() => undefined), t("toast.deleted"), t("toast.deleteError"));
+    },
+    [run, t]
+  );
+
+  const handleDismiss = useCallback(
+    (entries: Entry[]) =>
+      void run(
+        () => api.addDuplicateDismissal({ entry_ids: entries.map((e) => e.id) }).then(() => undefined),
+        t("toast.dismissed"),
+        t("toast.dismissError")
+      ),
+    [run, t]
+  );
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <TopProgress active={loading || busy} variant="top" topOffset={64} />
+
+      <main className="mx-auto w-full max-w-5xl space-y-4 px-4 py-4 sm:px-6 md:py-6">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-semibold md:text-2xl">{t("title")}</h1>
+            <p className="mt-1 text-sm text-gray-500">{t("subtitle")}</p>
+          </div>
+
+          <div className="w-48">
+            <Select<WindowOption>
+              label={t("filters.windowLabel")}
+              items={windowOptions}
+              selected={windowOptions.filter((o) => o.days === windowDays)}
+              onChange={(selected) => selected[0] && setWindowDays(selected[0].days)}
+              getItemKey={(o) => String(o.days)}
+              getItemLabel={(o) => o.label}
+              singleSelect
+              hideCheckboxes
+              disabled={loading || busy}
+            />
+          </div>
+        </div>
+
+        <section className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+          <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+            <span className="text-[11px] uppercase tracking-wide text-gray-700">
+              {t("section.groups", { count: groups.length })}
+            </span>
+          </div>
+
+          {groups.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500">{loading ? t("loading") : t("empty")}</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {groups.map((g) => (
+                <DuplicateGroupCard
+                  key={g.key}
+                  entries={g.entries}
+                  score={g.score}
+                  busy={busy}
+                  canMerge={canChange && canDelete}
+                  canDelete={canDelete}
+                  canDismiss={canChange}
+                  onMerge={handleMerge}
+                  onDelete={handleDelete}
+                  onDismiss={handleDismiss}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -46,6 +46,7 @@ const PERMISSION_ROWS: PermissionRow[] = [
   { code: "view_project", category: "visualization" },
   { code: "view_inventory", category: "visualization" },
   { code: "view_entity", category: "visualization" },
+  { code: "view_fx_rate", category: "visualization" },
 
   // ACTIONS
   { code: "add_cash_flow_entries", category: "actions" },
@@ -58,6 +59,8 @@ const PERMISSION_ROWS: PermissionRow[] = [
   { code: "add_entry_view", category: "actions" },
   { code: "change_entry_view", category: "actions" },
   { code: "delete_entry_view", category: "actions" },
+  { code: "share_entry_view", category: "actions" },
+  { code: "pin_entry_view", category: "actions" },
   { code: "add_statement", category: "actions" },
   { code: "change_statement", category: "actions" },
   { code: "delete_statement", category: "actions" },
@@ -88,6 +91,24 @@ const PERMISSION_ROWS: PermissionRow[] = [
   { code: "add_entity", category: "actions" },
   { code: "change_entity", category: "actions" },
   { code: "delete_entity", category: "actions" },
+  { code: "add_fx_rate", category: "actions" },
+  { code: "change_fx_rate", category: "actions" },
+  { code: "delete_fx_rate", category: "actions" },
+  { code: "add_holiday_calendar", category: "actions" },
+  { code: "change_holiday_calendar", category: "actions" },
+  { code: "delete_holiday_calendar", category: "actions" },
+  { code: "add_approval_rule", category: "actions" },
+  { code: "change_approval_rule", category: "actions" },
+  { code: "delete_approval_rule", category: "actions" },
+  { code: "decide_approval_request", category: "actions" },
+  { code: "add_custom_field", category: "actions" },
+  { code: "change_custom_field", category: "actions" },
+  { code: "delete_custom_field", category: "actions" },
+  { code: "restore_trash_item", category: "actions" },
+  { code: "purge_trash_item", category: "actions" },
+  { code: "add_categorization_rule", category: "actions" },
+  { code: "change_categorization_rule", category: "actions" },
+  { code: "delete_categorization_rule", category: "actions" },
 
   // PAGES
   { code: "view_home_dashboard_page", category: "pages" },
@@ -111,6 +132,13 @@ const PERMISSION_ROWS: PermissionRow[] = [
   { code: "view_notification_settings_page", category: "pages" },
   { code: "view_format_settings_page", category: "pages" },
   { code: "view_currency_settings_page", category: "pages" },
+  { code: "view_business_calendar_page", category: "pages" },
+  { code: "view_approval_queue_page", category: "pages" },
+  { code: "view_duplicates_page", category: "pages" },
+  { code: "view_approval_rules_page", category: "pages" },
+  { code: "view_custom_fields_page", category: "pages" },
+  { code: "view_trash_page", category: "pages" },
+  { code: "view_categorization_rules_page", category: "pages" },
 ];
 
 type GroupPermissionsTableProps = {
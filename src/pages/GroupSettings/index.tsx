@@ -24,7 +24,11 @@ import type { AddGroupRequest, GroupDetail, GroupListItem, Permission } from "@/
 
 /* ------------------------------ Snackbar type ----------------------------- */
 type Snack =
-  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | {
+      message: React.ReactNode;
+      severity: "success" | "error" | "warning" | "info";
+      action?: { label: string; onClick: () => void };
+    }
   | null;
 
 type ModalState =
@@ -74,6 +78,7 @@ const GroupSettings: React.FC = () => {
 
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [confirmText, setConfirmText] = useState("");
+  const [confirmLabel, setConfirmLabel] = useState("");
   const [confirmBusy, setConfirmBusy] = useState(false);
   const [confirmAction, setConfirmAction] = useState<(() => Promise<void>) | null>(null);
 
@@ -242,6 +247,7 @@ const GroupSettings: React.FC = () => {
     if (!selectedGroupDetail) return;
 
     setConfirmText(t("confirm.deleteText", { name: selectedGroupDetail.name }));
+    setConfirmLabel(t("confirm.confirmLabel"));
     setConfirmAction(() => async () => {
       try {
         await api.deleteGroup(selectedGroupDetail.id);
@@ -260,6 +266,42 @@ const GroupSettings: React.FC = () => {
     setConfirmOpen(true);
   };
 
+  const undoDeleteAllGroups = async (batchId: string) => {
+    try {
+      await api.restoreTrash({ batch_id: batchId });
+      await fetchAll({ background: true });
+      setSnack({ message: t("toast.restored"), severity: "success" });
+    } catch (error) {
+      console.error(error);
+      setSnack({ message: t("toast.restoreError"), severity: "error" });
+    }
+  };
+
+  const requestDeleteAllGroups = () => {
+    setConfirmText(t("confirm.deleteAllText"));
+    setConfirmLabel(t("confirm.deleteAllLabel"));
+    setConfirmAction(() => async () => {
+      try {
+        const { data } = await api.deleteAllGroups();
+        await fetchAll({ background: true });
+        setSelectedGroupId(null);
+        setSnack({
+          message: t("toast.deleteAllSuccess", { count: data.count }),
+          severity: "info",
+          action: { label: t("toast.undo"), onClick: () => void undoDeleteAllGroups(data.batch_id) },
+        });
+      } catch (error) {
+        console.error(error);
+        setSnack({ message: t("toast.deleteAllError"), severity: "error" });
+      } finally {
+        setConfirmOpen(false);
+        setConfirmBusy(false);
+      }
+    });
+
+    setConfirmOpen(true);
+  };
+
   const handleSavePermissions = async () => {
     if (!selectedGroupDetail) return;
 
@@ -334,11 +376,24 @@ const GroupSettings: React.FC = () => {
                   <div className="p-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between gap-3">
                     <div className="text-[11px] uppercase tracking-wide text-gray-700">{t("left.groups")}</div>
 
-                    <PermissionMiddleware codeName={"add_group"}>
-                      <Button className="!py-1.5 !px-3" onClick={openCreateModal} disabled={busy}>
-                        {t("left.create")}
-                      </Button>
-                    </PermissionMiddleware>
+                    <div className="flex items-center gap-2">
+                      <PermissionMiddleware codeName={"delete_group"}>
+                        <Button
+                          variant="outline"
+                          className="!py-1.5 !px-3"
+                          onClick={requestDeleteAllGroups}
+                          disabled={busy || groups.length === 0}
+                        >
+                          {t("left.deleteAll")}
+                        </Button>
+                      </PermissionMiddleware>
+
+                      <PermissionMiddleware codeName={"add_group"}>
+                        <Button className="!py-1.5 !px-3" onClick={openCreateModal} disabled={busy}>
+                          {t("left.create")}
+                        </Button>
+                      </PermissionMiddleware>
+                    </div>
                   </div>
 
                   <div className="p-3 border-b border-gray-200">
@@ -465,7 +520,7 @@ const GroupSettings: React.FC = () => {
       <ConfirmToast
         open={confirmOpen}
         text={confirmText}
-        confirmLabel={t("confirm.confirmLabel")}
+        confirmLabel={confirmLabel}
         cancelLabel={t("confirm.cancelLabel")}
         variant="danger"
         onCancel={() => {
@@ -493,6 +548,7 @@ const GroupSettings: React.FC = () => {
         autoHideDuration={4000}
         message={snack?.message}
         severity={snack?.severity}
+        action={snack?.action}
         anchor={{ vertical: "bottom", horizontal: "center" }}
         pauseOnHover
         showCloseButton
@@ -8,7 +8,9 @@ import {
   Bell,
   BookOpen,
   Building2,
+  CalendarDays,
   Coins,
+  CopyCheck,
   CreditCard,
   Eye,
   FileText,
@@ -24,11 +26,14 @@ import {
   Plus,
   Settings,
   Shield,
+  ShieldCheck,
   SlidersHorizontal,
   Table,
+  Tags,
   Trash2,
   User,
   Users,
+  Wand2,
 } from "lucide-react";
 
 export function permissionIcons(code: string): LucideIcon {
@@ -36,12 +41,15 @@ export function permissionIcons(code: string): LucideIcon {
   if (code.startsWith("add_")) return Plus;
   if (code.startsWith("change_")) return Pencil;
   if (code.startsWith("delete_")) return Trash2;
+  if (code === "decide_approval_request") return ShieldCheck;
 
   // Pages
   if (code === "view_home_dashboard_page") return LayoutDashboard;
   if (code === "view_cash_flow_page") return BarChart3;
   if (code === "view_settlement_page") return Table;
   if (code === "view_report_page") return FileText;
+  if (code === "view_approval_queue_page") return ShieldCheck;
+  if (code === "view_duplicates_page") return CopyCheck;
 
   if (code === "view_personal_settings_page") return User;
   if (code === "view_subscription_management_page") return CreditCard;
@@ -62,6 +70,11 @@ export function permissionIcons(code: string): LucideIcon {
   if (code === "view_notification_settings_page") return Bell;
   if (code === "view_format_settings_page") return Paintbrush;
   if (code === "view_currency_settings_page") return Coins;
+  if (code === "view_business_calendar_page") return CalendarDays;
+  if (code === "view_approval_rules_page") return ShieldCheck;
+  if (code === "view_custom_fields_page") return Tags;
+  if (code === "view_trash_page") return Trash2;
+  if (code === "view_categorization_rules_page") return Wand2;
 
   // Visualization (non-page)
   if (code === "view_filters") return SlidersHorizontal;
@@ -27,6 +27,7 @@ type Snack =
   | {
       message: React.ReactNode;
       severity: "success" | "error" | "warning" | "info";
+      action?: { label: string; onClick: () => void };
     }
   | null;
 
@@ -236,6 +237,8 @@ const LedgerWorkspace: React.FC<Props> = ({ ledgerProfile, title, description })
   const [saving, setSaving] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
   const [deletingAll, setDeletingAll] = useState(false);
+  // With no accounts left the page belongs to the setup gate, but only once the undo snackbar is gone
+  const [leaveOnSnackClose, setLeaveOnSnackClose] = useState(false);
 
   const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
   const [loading, setLoading] = useState(false);
@@ -591,6 +594,31 @@ const LedgerWorkspace: React.FC<Props> = ({ ledgerProfile, title, description })
     }
   };
 
+  useEffect(() => {
+    if (leaveOnSnackClose && !snack) navigate("/settings/register/ledger-accounts", { replace: true });
+  }, [leaveOnSnackClose, snack, navigate]);
+
+  const undoDeleteAll = async (batchId: string) => {
+    setLeaveOnSnackClose(false);
+
+    try {
+      await api.restoreTrash({ batch_id: batchId });
+      refreshAccounts();
+      setSnack({
+        message: t("workspace.restoredAll", "Ledger accounts restored."),
+        severity: "success",
+      });
+    } catch (error) {
+      setSnack({
+        message:
+          (error as Error)?.message ||
+          t("workspace.restoreAllError", "Could not restore the ledger accounts."),
+        severity: "error",
+      });
+      setLeaveOnSnackClose(true);
+    }
+  };
+
   const requestDeleteAll = async () => {
     const confirmed = window.confirm(
       t("workspace.deleteAllConfirm", "Delete all ledger accounts?")
@@ -599,12 +627,20 @@ const LedgerWorkspace: React.FC<Props> = ({ ledgerProfile, title, description })
 
     try {
       setDeletingAll(true);
-      await api.deleteAllLedgerAccounts();
+      const { data } = await api.deleteAllLedgerAccounts();
+      setAccounts([]);
       setSnack({
-        message: t("workspace.deleteAllSuccess", "All ledger accounts deleted."),
+        message: t(
+          "workspace.deleteAllTrashed",
+          "All ledger accounts moved to the trash. Restore them from Settings › Trash within 30 days."
+        ),
         severity: "success",
+        action: {
+          label: t("workspace.undo", "Undo"),
+          onClick: () => void undoDeleteAll(data.batch_id),
+        },
       });
-      navigate("/settings/register/ledger-accounts", { replace: true });
+      setLeaveOnSnackClose(true);
     } catch (error) {
       setSnack({
         message:
@@ -974,6 +1010,7 @@ const LedgerWorkspace: React.FC<Props> = ({ ledgerProfile, title, description })
         autoHideDuration={5000}
         message={snack?.message}
         severity={snack?.severity}
+        action={snack?.action}
         anchor={{ vertical: "bottom", horizontal: "center" }}
         pauseOnHover
         showCloseButton
@@ -0,0 +1,42 @@
+import dayjs from "dayjs";
+
+import type { Entry } from "@/models/entries/entries";
+import type { AgingBucket, AgingEntityRow } from "@/models/components/reports";
+import { parseMoney } from "./helpers";
+
+export const AGING_BUCKETS: AgingBucket[] = ["current", "d1_30", "d31_60", "d61_90", "d90_plus"];
+
+const ISO = "YYYY-MM-DD";
+
+/** Days-past-due limits per bucket, inclusive; `null` is open-ended. */
+const BUCKET_DAYS: Record<AgingBucket, [number | null, number | null]> = {
+  current: [null, 0],
+  d1_30: [1, 30],
+  d31_60: [31, 60],
+  d61_90: [61, 90],
+  d90_plus: [91, null],
+};
+
+/**
+ * Due-date window for a bucket at `asOf`, in the `date_from`/`date_to` shape the
+ * entries table takes. "Current" is everything due on or after `asOf`.
+ */
+export function bucketDueRange(bucket: AgingBucket, asOf: string): { date_from?: string; date_to?: string } {
+  const [minDays, maxDays] = BUCKET_DAYS[bucket];
+  const base = dayjs(asOf);
+  return {
+    date_from: maxDays === null ? undefined : base.subtract(maxDays, "day").format(ISO),
+    date_to: minDays === null ? undefined : base.subtract(minDays, "day").format(ISO),
+  };
+}
+
+/** Entries fetched for a bucket still include other entities and currencies. */
+export function belongsToRow(entry: Entry, row: AgingEntityRow, orgCurrency: string): boolean {
+  const currency = (entry.currency || orgCurrency).toUpperCase();
+  return (entry.entity ?? null) === row.entity_id && currency === row.currency.toUpperCase();
+}
+
+export const openAmount = (entry: Entry) =>
+  Math.abs(parseMoney(entry.open_amount) ?? parseMoney(entry.amount) ?? 0);
+
+export const daysPastDue = (dueDate: string, asOf: string) => Math.max(0, dayjs(asOf).diff(dayjs(dueDate), "day"));
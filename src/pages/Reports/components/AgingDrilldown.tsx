@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+
+import { api } from "@/api/requests";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { formatDateFromISO } from "@/lib";
+import { buildEntryQuery, buildEntryViewParams, fetchAllCursor } from "@/lib/list";
+import type { EntryFilters } from "@/models/components/filterBar";
+import type { Entry } from "@/models/entries/entries";
+import type { AgingBucket, AgingEntityRow, AgingSide } from "@/models/components/reports";
+
+import { belongsToRow, bucketDueRange, daysPastDue, openAmount } from "../aging";
+
+type Props = {
+  side: AgingSide;
+  asOf: string;
+  orgCurrency: string;
+  row: AgingEntityRow;
+  bucket: AgingBucket | "total";
+  onClose: () => void;
+};
+
+const AgingDrilldown: React.FC<Props> = ({ side, asOf, orgCurrency, row, bucket, onClose }) => {
+  const { t } = useTranslation("reports");
+
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Same filters drive the fetch and the "open in cash flow" link
+  const filters = useMemo<EntryFilters>(() => {
+    const range = bucket === "total" ? {} : bucketDueRange(bucket, asOf);
+    return {
+      settlement_status: false,
+      start_date: range.date_from,
+      end_date: range.date_to,
+      entity_id: row.entity_id ? [row.entity_id] : undefined,
+      tx_type: side === "receivables" ? "credit" : "debit",
+    };
+  }, [asOf, bucket, row.entity_id, side]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setError(null);
+      setLoading(true);
+
+      try {
+        const all = await fetchAllCursor<Entry>((params) =>
+          api.getEntriesTable({ ...buildEntryQuery(filters), ...params })
+        );
+        if (!cancelled) setEntries(all.filter((e) => belongsToRow(e, row, orgCurrency)));
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setError(t("aging.errors.drilldown"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, orgCurrency, row, t]);
+
+  const cashFlowHref = useMemo(
+    () => `/cashflow?${buildEntryViewParams({ filters, sort: "asc", entryId: null }).toString()}`,
+    [filters]
+  );
+
+  return (
+    <div className="mt-3 rounded-md border border-gray-200 bg-gray-50 px-3 py-2">
+      <div className="mb-2 flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-[12px] font-medium text-gray-900">
+            {row.entity_name || t("aging.unassigned")} · {t(`aging.buckets.${bucket}`)}
+          </p>
+          <p className="mt-0.5 text-[11px] text-gray-500">
+            {t("aging.drilldown.count", { count: entries.length })}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-[11px]">
+          {row.entity_id ? (
+            <Link to={cashFlowHref} className="text-blue-700 hover:underline">
+              {t("aging.drilldown.openInCashFlow")}
+            </Link>
+          ) : null}
+          <button type="button" onClick={onClose} className="text-gray-600 hover:underline">
+            {t("aging.drilldown.close")}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="py-3 text-center text-[12px] text-gray-500">{t("loading")}</p>
+      ) : error ? (
+        <p className="py-3 text-center text-[12px] text-red-600">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="py-3 text-center text-[12px] text-gray-500">{t("aging.drilldown.empty")}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {entries.map((entry) => {
+            const late = daysPastDue(entry.due_date, asOf);
+            return (
+              <li key={entry.id} className="flex items-center justify-between gap-3 py-1.5">
+                <div className="min-w-0">
+                  <Link
+                    to={`/cashflow?entry=${encodeURIComponent(entry.id)}`}
+                    className="block truncate text-[12px] text-gray-900 hover:underline"
+                  >
+                    {entry.description || "—"}
+                  </Link>
+                  <p className="text-[11px] text-gray-500">
+                    {formatDateFromISO(entry.due_date)}
+                    {late > 0 ? ` · ${t("aging.drilldown.daysLate", { count: late })}` : ""}
+                  </p>
+                </div>
+                <span className="shrink-0 text-[12px] font-medium tabular-nums text-gray-900">
+                  {formatCurrency(openAmount(entry), row.currency)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AgingDrilldown;
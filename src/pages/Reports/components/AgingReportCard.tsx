@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import dayjs from "dayjs";
+import { useTranslation } from "react-i18next";
+
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+import { api } from "@/api/requests";
+import { formatCurrency } from "@/lib/currency/formatCurrency";
+import { exportAgingReport, type AgingExportFormat } from "@/lib/export";
+import type { AgingBucket, AgingEntityRow, AgingReport, AgingSide } from "@/models/components/reports";
+
+import SectionCard from "./SectionCard";
+import MetricsGrid from "./MetricsGrid";
+import AgingDrilldown from "./AgingDrilldown";
+import { AGING_BUCKETS } from "../aging";
+import { fmtMoney, parseMoney } from "../helpers";
+
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+type Selection = { rowKey: string; bucket: AgingBucket | "total" } | null;
+
+const SIDES: AgingSide[] = ["receivables", "payables"];
+const COLUMNS: Array<AgingBucket | "total"> = [...AGING_BUCKETS, "total"];
+
+const rowKey = (row: AgingEntityRow) => `${row.entity_id ?? "none"}:${row.currency}`;
+
+const AgingReportCard: React.FC = () => {
+  const { t } = useTranslation("reports");
+
+  const [side, setSide] = useState<AgingSide>("receivables");
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const asOf = useMemo(() => dayjs().format("YYYY-MM-DD"), []);
+
+  const fetchReport = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const res = await api.getAgingReport({ side, as_of: asOf });
+      setReport(res.data);
+    } catch (e) {
+      console.error(e);
+      setReport(null);
+      setError(t("aging.errors.fetch"));
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, side, t]);
+
+  useEffect(() => {
+    setSelection(null);
+    void fetchReport();
+  }, [fetchReport]);
+
+  const metrics = useMemo(() => {
+    const m = report?.metrics;
+    if (!m) return [];
+
+    const days = (v: number | null) => (v === null ? "—" : t("aging.metrics.days", { count: Math.round(v) }));
+    const hint = t("aging.metrics.periodHint", { count: m.period_days });
+
+    return [
+      { label: t("aging.metrics.dso"), value: days(m.dso), hint },
+      { label: t("aging.metrics.dpo"), value: days(m.dpo), hint },
+      {
+        label: t("aging.metrics.openReceivables"),
+        value: fmtMoney(m.receivables_org),
+        hint: t("aging.metrics.orgCurrencyHint", { currency: report.currency }),
+      },
+      {
+        label: t("aging.metrics.openPayables"),
+        value: fmtMoney(m.payables_org),
+        hint: t("aging.metrics.orgCurrencyHint", { currency: report.currency }),
+        tone:
+          (parseMoney(m.payables_org) ?? 0) > (parseMoney(m.receivables_org) ?? 0)
+            ? ("negative" as const)
+            : undefined,
+      },
+    ];
+  }, [report, t]);
+
+  const selectedRow = useMemo(
+    () => (selection ? report?.rows.find((r) => rowKey(r) === selection.rowKey) ?? null : null),
+    [report, selection]
+  );
+
+  const handleExport = (format: AgingExportFormat) => {
+    if (!report) return;
+    const result = exportAgingReport(report, format);
+    setSnack({ message: result.message, severity: result.success ? "success" : "error" });
+  };
+
+  const toggleCell = (row: AgingEntityRow, bucket: AgingBucket | "total") => {
+    const key = rowKey(row);
+    setSelection((cur) => (cur?.rowKey === key && cur.bucket === bucket ? null : { rowKey: key, bucket }));
+  };
+
+  const amountCell = (value: unknown, currency: string) => {
+    const n = parseMoney(value) ?? 0;
+    return n === 0 ? "—" : formatCurrency(n, currency);
+  };
+
+  const sideTabs = (
+    <div className="flex flex-wrap items-center gap-1">
+      <div className="flex items-center gap-1" role="tablist">
+        {SIDES.map((s) => (
+          <button
+            key={s}
+            type="button"
+            role="tab"
+            aria-selected={side === s}
+            onClick={() => setSide(s)}
+            className={`rounded-md border px-2 py-1 text-[11px] ${
+              side === s
+                ? "border-gray-900 bg-gray-900 text-white"
+                : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {t(`aging.sides.${s}`)}
+          </button>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={!report?.rows.length}>
+        {t("aging.export.csv")}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleExport("xlsx")} disabled={!report?.rows.length}>
+        {t("aging.export.xlsx")}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {metrics.length ? <MetricsGrid metrics={metrics} /> : null}
+
+      <SectionCard title={t("aging.title")} subtitle={t("aging.subtitle")} right={sideTabs}>
+        {loading && !report ? (
+          <p className="py-6 text-center text-sm text-gray-500">{t("aging.loading")}</p>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-red-600">{error}</p>
+        ) : !report?.rows.length ? (
+          <div className="rounded-md border border-dashed border-gray-300 px-3 py-6 text-center text-sm text-gray-500">
+            {t(`aging.empty.${side}`)}
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[760px] text-[12px]">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-[11px] uppercase tracking-wide text-gray-600">
+                    <th className="py-1.5 pr-2 font-medium">{t("aging.columns.entity")}</th>
+                    {COLUMNS.map((c) => (
+                      <th key={c} className="px-2 py-1.5 text-right font-medium">
+                        {t(`aging.buckets.${c}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => {
+                    const key = rowKey(row);
+                    return (
+                      <tr key={key} className="border-b border-gray-100">
+                        <td className="max-w-[260px] py-1.5 pr-2">
+                          <p className="truncate text-gray-900">{row.entity_name || t("aging.unassigned")}</p>
+                          <p className="text-[11px] text-gray-500">
+                            {row.currency} · {t("aging.items", { count: row.open_items })}
+                          </p>
+                        </td>
+                        {COLUMNS.map((c) => {
+                          const value = parseMoney(row.buckets[c]) ?? 0;
+                          const active = selection?.rowKey === key && selection.bucket === c;
+                          const late = c === "d61_90" || c === "d90_plus";
+                          return (
+                            <td key={c} className="px-1 py-1 text-right">
+                              {value === 0 ? (
+                                <span className="px-1 text-gray-400">—</span>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => toggleCell(row, c)}
+                                  aria-pressed={active}
+                                  className={`rounded px-1 py-0.5 tabular-nums hover:bg-gray-100 ${
+                                    active ? "bg-gray-900 text-white hover:bg-gray-900" : ""
+                                  } ${!active && late ? "text-red-700" : ""} ${c === "total" ? "font-semibold" : ""}`}
+                                >
+                                  {formatCurrency(value, row.currency)}
+                                </button>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  {report.totals_by_currency.map((total) => (
+                    <tr key={total.currency} className="border-t border-gray-300 font-semibold text-gray-900">
+                      <td className="py-1.5 pr-2">{t("aging.totals", { currency: total.currency })}</td>
+                      {COLUMNS.map((c) => (
+                        <td key={c} className="px-2 py-1.5 text-right tabular-nums">
+                          {amountCell(total.buckets[c], total.currency)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tfoot>
+              </table>
+            </div>
+
+            {selection && selectedRow ? (
+              <AgingDrilldown
+                key={`${selection.rowKey}:${selection.bucket}`}
+                side={side}
+                asOf={report.as_of}
+                orgCurrency={report.currency}
+                row={selectedRow}
+                bucket={selection.bucket}
+                onClose={() => setSelection(null)}
+              />
+            ) : null}
+          </>
+        )}
+      </SectionCard>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+      />
+    </div>
+  );
+};
+
+export default AgingReportCard;
@@ -2,7 +2,7 @@
 
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import SectionCard from "./SectionCard";
-import type { ChartRange } from "../helpers";
+import type { ChartRange, ChartSeries } from "../helpers";
 import { compactCurrency, fmtMoney } from "../helpers";
 
 type ChartStats = {
@@ -17,6 +17,9 @@ type Props = {
   ranges: Record<string, ChartRange>;
   defaultRange?: string;
   stats?: ChartStats;
+  statLabels?: Partial<Record<keyof ChartStats, string>>;
+  /** Extra controls rendered next to the range switcher. */
+  toolbar?: React.ReactNode;
 };
 
 const W = 720;
@@ -75,9 +78,13 @@ function splineAt(pts: [number, number][], t: number, axis: 0 | 1): number {
   );
 }
 
-function buildSamples(data: number[]) {
-  const minV = Math.min(...data, 0);
-  const maxV = Math.max(...data, 0);
+function seriesValues(series?: ChartSeries[]): number[] {
+  return (series ?? []).flatMap((s) => s.data);
+}
+
+function buildSamples(data: number[], extra: number[] = []) {
+  const minV = Math.min(...data, ...extra, 0);
+  const maxV = Math.max(...data, ...extra, 0);
   const pad = Math.max((maxV - minV) * 0.18, 1);
   const mn = minV - pad;
   const mx = maxV + pad;
@@ -99,6 +106,15 @@ function samplesToPath(spts: [number, number][]) {
   return spts.map((p, i) => `${i === 0 ? "M" : "L"}${p[0]} ${p[1]}`).join(" ");
 }
 
+function seriesPath(data: number[], mn: number, mx: number) {
+  const pts: [number, number][] = data.map((v, i) => [scaleX(i, data.length), scaleY(v, mn, mx)]);
+  const spts: [number, number][] = Array.from({ length: SAMPLES }, (_, s) => {
+    const t = s / (SAMPLES - 1);
+    return [splineAt(pts, t, 0), splineAt(pts, t, 1)];
+  });
+  return samplesToPath(spts);
+}
+
 function lerpSamples(a: [number, number][], b: [number, number][], t: number): [number, number][] {
   return a.map((p, i) => [p[0] + (b[i][0] - p[0]) * t, p[1] + (b[i][1] - p[1]) * t]);
 }
@@ -120,8 +136,12 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
   ranges,
   defaultRange = "12M",
   stats,
+  statLabels,
+  toolbar,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  // Several charts can live on one page; defs ids must not collide
+  const uid = React.useId().replace(/[^a-zA-Z0-9]/g, "");
   const rafMorphRef = useRef<number | null>(null);
   const rafSpringRef = useRef<number | null>(null);
   const rafSplitRef = useRef<number | null>(null);
@@ -148,6 +168,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
   const curRawPts = useRef<[number, number][]>([]);
   const curData = useRef<number[]>([]);
   const curLabels = useRef<string[]>([]);
+  const curSeries = useRef<ChartSeries[]>([]);
   const curDomain = useRef({ mn: 0, mx: 1 });
   const curRangeKey = useRef(defaultRange);
   const isBuilt = useRef(false);
@@ -160,6 +181,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
     ttDate: null as SVGTextElement | null,
     ttVal: null as SVGTextElement | null,
     ttDir: null as SVGTextElement | null,
+    overlayG: null as SVGGElement | null,
     coloredLine: null as SVGPathElement | null,
     grayLine: null as SVGPathElement | null,
     coloredFill: null as SVGPathElement | null,
@@ -293,12 +315,34 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
     });
   }, []);
 
+  const drawOverlays = useCallback((series: ChartSeries[], mn: number, mx: number) => {
+    const g = h.current.overlayG;
+    if (!g) return;
+
+    g.innerHTML = "";
+    for (const s of series) {
+      if (!s.data.length) continue;
+      g.append(
+        svgEl("path", {
+          d: seriesPath(s.data, mn, mx),
+          fill: "none",
+          stroke: s.color,
+          "stroke-width": "1.5",
+          "stroke-dasharray": "4 3",
+          "stroke-linecap": "round",
+          "stroke-linejoin": "round",
+        })
+      );
+    }
+  }, []);
+
   const morphTo = useCallback(
-    (newData: number[], newLabels: string[]) => {
+    (newData: number[], newLabels: string[], newSeries: ChartSeries[] = []) => {
       if (!curSamples.current.length) return;
 
       const fromSamples = [...curSamples.current];
-      const { samples: toSamples, rawPts, mn, mx } = buildSamples(newData);
+      const { samples: toSamples, rawPts, mn, mx } = buildSamples(newData, seriesValues(newSeries));
+      h.current.overlayG?.setAttribute("opacity", "0");
 
       const isUpSeries = newData[newData.length - 1] >= newData[0];
       const lc = isUpSeries ? "#0E9384" : "#D92D20";
@@ -340,8 +384,12 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
         curRawPts.current = rawPts;
         curData.current = newData;
         curLabels.current = newLabels;
+        curSeries.current = newSeries;
         curDomain.current = { mn, mx };
 
+        drawOverlays(newSeries, mn, mx);
+        h.current.overlayG?.setAttribute("opacity", "1");
+
         splitRef.current.target = 1;
         startSplitAnim();
         resetHeader();
@@ -351,7 +399,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       spring.current.targetAlpha = 0;
       startSpring();
     },
-    [resetHeader, startSpring, startSplitAnim, updateAxes]
+    [drawOverlays, resetHeader, startSpring, startSplitAnim, updateAxes]
   );
 
   const onMouseMove = useCallback(
@@ -452,9 +500,10 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
     svg.innerHTML = "";
     curData.current = initial.data;
     curLabels.current = initial.labels;
+    curSeries.current = initial.series ?? [];
     curRangeKey.current = defaultRange;
 
-    const { samples, mn, mx, rawPts } = buildSamples(initial.data);
+    const { samples, mn, mx, rawPts } = buildSamples(initial.data, seriesValues(initial.series));
     curSamples.current = samples;
     curRawPts.current = rawPts;
     curDomain.current = { mn, mx };
@@ -465,7 +514,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
 
     const defs = svgEl("defs");
     const gradC = svgEl("linearGradient", {
-      id: "reportsLineColoredGrad",
+      id: `reportsLineColoredGrad${uid}`,
       x1: "0",
       y1: "0",
       x2: "0",
@@ -476,7 +525,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
     gradC.append(stop0, stop1);
 
     const gradG = svgEl("linearGradient", {
-      id: "reportsLineGrayGrad",
+      id: `reportsLineGrayGrad${uid}`,
       x1: "0",
       y1: "0",
       x2: "0",
@@ -487,11 +536,11 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       svgEl("stop", { offset: "100%", "stop-color": "#111827", "stop-opacity": "0" })
     );
 
-    const clipC = svgEl("clipPath", { id: "reportsLineClipColored" });
+    const clipC = svgEl("clipPath", { id: `reportsLineClipColored${uid}` });
     const coloredCR = svgEl("rect", { x: String(PL), y: "0", width: String(CW), height: String(H) });
     clipC.append(coloredCR);
 
-    const clipG = svgEl("clipPath", { id: "reportsLineClipGray" });
+    const clipG = svgEl("clipPath", { id: `reportsLineClipGray${uid}` });
     const grayCR = svgEl("rect", { x: String(PL + CW), y: "0", width: "0", height: String(H) });
     clipG.append(grayCR);
 
@@ -553,14 +602,14 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
 
     const grayFill = svgEl("path", {
       d: fillD,
-      fill: "url(#reportsLineGrayGrad)",
-      "clip-path": "url(#reportsLineClipGray)",
+      fill: `url(#reportsLineGrayGrad${uid})`,
+      "clip-path": `url(#reportsLineClipGray${uid})`,
     });
 
     const coloredFill = svgEl("path", {
       d: fillD,
-      fill: "url(#reportsLineColoredGrad)",
-      "clip-path": "url(#reportsLineClipColored)",
+      fill: `url(#reportsLineColoredGrad${uid})`,
+      "clip-path": `url(#reportsLineClipColored${uid})`,
     });
 
     const grayLine = svgEl("path", {
@@ -570,7 +619,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       "stroke-width": "2",
       "stroke-linecap": "round",
       "stroke-linejoin": "round",
-      "clip-path": "url(#reportsLineClipGray)",
+      "clip-path": `url(#reportsLineClipGray${uid})`,
     });
 
     const coloredLine = svgEl("path", {
@@ -580,12 +629,17 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       "stroke-width": "2",
       "stroke-linecap": "round",
       "stroke-linejoin": "round",
-      "clip-path": "url(#reportsLineClipColored)",
+      "clip-path": `url(#reportsLineClipColored${uid})`,
     });
 
     svg.append(grayFill, coloredFill, grayLine, coloredLine);
     Object.assign(h.current, { grayFill, coloredFill, grayLine, coloredLine });
 
+    const overlayG = svgEl("g", { "pointer-events": "none" });
+    svg.append(overlayG);
+    h.current.overlayG = overlayG;
+    drawOverlays(curSeries.current, mn, mx);
+
     const vline = svgEl("line", {
       x1: "0",
       y1: String(PT),
@@ -681,7 +735,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       if (rafSpringRef.current) cancelAnimationFrame(rafSpringRef.current);
       if (rafSplitRef.current) cancelAnimationFrame(rafSplitRef.current);
     };
-  }, [applySplit, defaultRange, onMouseLeave, onMouseMove, ranges, resetHeader, updateAxes]);
+  }, [applySplit, defaultRange, drawOverlays, onMouseLeave, onMouseMove, ranges, resetHeader, uid, updateAxes]);
 
   useEffect(() => {
     if (!isBuilt.current) return;
@@ -691,7 +745,7 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
     const next = ranges[activeRange];
     if (!next || !next.data.length) return;
 
-    morphTo(next.data, next.labels);
+    morphTo(next.data, next.labels, next.series);
   }, [activeRange, morphTo, ranges]);
 
   const isUp = displayDiff >= 0;
@@ -702,7 +756,8 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
       title={title}
       subtitle={subLabel}
       right={
-        <div className="flex gap-1">
+        <div className="flex flex-wrap items-center justify-end gap-1">
+          {toolbar}
           {Object.keys(ranges).map((range) => (
             <button
               key={range}
@@ -748,18 +803,29 @@ const AnimatedRangeLineChart: React.FC<Props> = ({
         />
       </div>
 
+      {ranges[activeRange]?.series?.length ? (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+          {ranges[activeRange].series!.map((s) => (
+            <span key={s.key} className="flex items-center gap-1.5 text-[11px] text-gray-600">
+              <span className="h-0 w-4 border-t-2 border-dashed" style={{ borderColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      ) : null}
+
       <div className="mt-3 grid grid-cols-1 gap-3 border-t border-gray-200 pt-3 sm:grid-cols-3">
         <div>
           <div className="text-[13px] font-medium text-gray-900">{stats?.inflow ?? "—"}</div>
-          <div className="mt-0.5 text-[11px] text-gray-400">Inflow</div>
+          <div className="mt-0.5 text-[11px] text-gray-400">{statLabels?.inflow ?? "Inflow"}</div>
         </div>
         <div>
           <div className="text-[13px] font-medium text-gray-900">{stats?.outflow ?? "—"}</div>
-          <div className="mt-0.5 text-[11px] text-gray-400">Outflow</div>
+          <div className="mt-0.5 text-[11px] text-gray-400">{statLabels?.outflow ?? "Outflow"}</div>
         </div>
         <div>
           <div className="text-[13px] font-medium text-gray-900">{stats?.context ?? "—"}</div>
-          <div className="mt-0.5 text-[11px] text-gray-400">Context</div>
+          <div className="mt-0.5 text-[11px] text-gray-400">{statLabels?.context ?? "Context"}</div>
         </div>
       </div>
     </SectionCard>
@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import dayjs from "dayjs";
+import { useTranslation } from "react-i18next";
+
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+import { Select } from "@/shared/ui/Select";
+import { api } from "@/api/requests";
+import { useNonBusinessDays } from "@/hooks/useNonBusinessDays";
+import { fetchAllCursor } from "@/lib/list";
+import type { Entry } from "@/models/entries/entries";
+import type { Entity } from "@/models/settings/entities";
+import type { BankAccountTableRow } from "@/models/settings/banking";
+import type {
+  ForecastAssumption,
+  ForecastGranularity,
+  ForecastHorizon,
+  ForecastScenario,
+} from "@/models/components/forecast";
+
+import AnimatedRangeLineChart from "./AnimatedRangeLineChart";
+import ForecastEditor from "./ForecastEditor";
+import { fmtMoney, parseMoney, type ChartRange } from "../helpers";
+import {
+  SCENARIO_COLORS,
+  applyScenario,
+  assumptionsToFlows,
+  buildBalanceSeries,
+  entriesToFlows,
+  lowestPoint,
+  projectRecurring,
+} from "../forecast";
+
+const HORIZONS: ForecastHorizon[] = [3, 6, 12];
+
+type Props = {
+  banks: BankAccountTableRow[];
+  totalConsolidatedBalance: number;
+};
+
+const scenarioColor = (scenario: ForecastScenario, index: number) =>
+  scenario.color || SCENARIO_COLORS[index % SCENARIO_COLORS.length];
+
+const ForecastCard: React.FC<Props> = ({ banks, totalConsolidatedBalance }) => {
+  const { t } = useTranslation("reports");
+
+  const [bankId, setBankId] = useState<string>("");
+  const [granularity, setGranularity] = useState<ForecastGranularity>("weekly");
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [scenarios, setScenarios] = useState<ForecastScenario[]>([]);
+  const [assumptions, setAssumptions] = useState<ForecastAssumption[]>([]);
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [activeIds, setActiveIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  const today = useMemo(() => dayjs().format("YYYY-MM-DD"), []);
+  const horizonEnd = useMemo(
+    () => dayjs(today).add(Math.max(...HORIZONS), "month").format("YYYY-MM-DD"),
+    [today]
+  );
+
+  const fetchScenarios = useCallback(async () => {
+    const [scenarioRes, assumptionRes] = await Promise.all([
+      api.getForecastScenarios(),
+      api.getForecastAssumptions(),
+    ]);
+    setScenarios(scenarioRes.data ?? []);
+    setAssumptions(assumptionRes.data ?? []);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setError(null);
+      setLoading(true);
+
+      try {
+        const [openEntries] = await Promise.all([
+          fetchAllCursor<Entry>((params) =>
+            api.getEntries({ ...params, date_to: horizonEnd, bank: bankId || undefined })
+          ),
+          fetchScenarios(),
+        ]);
+        if (!cancelled) setEntries(openEntries);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setError(t("forecast.errors.fetch"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bankId, fetchScenarios, horizonEnd, t]);
+
+  useEffect(() => {
+    fetchAllCursor<Entity>(api.getEntitiesOptions)
+      .then(setEntities)
+      .catch((e) => console.error(e));
+  }, []);
+
+  const startBalance = useMemo(() => {
+    if (!bankId) return totalConsolidatedBalance;
+    const bank = banks.find((b) => b.id === bankId);
+    return parseMoney(bank?.consolidated_balance) ?? 0;
+  }, [bankId, banks, totalConsolidatedBalance]);
+
+  // The extra month covers dates pushed forward past the horizon
+  const { days: closedDays } = useNonBusinessDays(
+    today,
+    dayjs(horizonEnd).add(1, "month").format("YYYY-MM-DD")
+  );
+
+  const baseFlows = useMemo(
+    () => [
+      ...entriesToFlows(entries, today, closedDays),
+      ...projectRecurring(entries, horizonEnd, closedDays),
+      ...assumptionsToFlows(assumptions, today, horizonEnd, bankId || null, closedDays),
+    ],
+    [assumptions, bankId, closedDays, entries, horizonEnd, today]
+  );
+
+  const activeScenarios = useMemo(
+    () => scenarios.filter((s) => activeIds.has(s.id)),
+    [activeIds, scenarios]
+  );
+
+  const ranges = useMemo(() => {
+    const out: Record<string, ChartRange> = {};
+
+    for (const months of HORIZONS) {
+      const end = dayjs(today).add(months, "month").format("YYYY-MM-DD");
+      const base = buildBalanceSeries(baseFlows, startBalance, today, end, granularity);
+
+      out[`${months}M`] = {
+        labels: base.labels,
+        data: base.data,
+        series: activeScenarios.map((scenario) => ({
+          key: scenario.id,
+          label: scenario.name,
+          color: scenarioColor(scenario, scenarios.indexOf(scenario)),
+          data: buildBalanceSeries(
+            applyScenario(baseFlows, scenario),
+            startBalance,
+            today,
+            end,
+            granularity
+          ).data,
+        })),
+      };
+    }
+
+    return out;
+  }, [activeScenarios, baseFlows, granularity, scenarios, startBalance, today]);
+
+  const baseline = useMemo(
+    () => buildBalanceSeries(baseFlows, startBalance, today, horizonEnd, granularity),
+    [baseFlows, granularity, horizonEnd, startBalance, today]
+  );
+
+  const low = useMemo(() => lowestPoint(baseline), [baseline]);
+  const firstNegative = useMemo(() => {
+    const idx = baseline.data.findIndex((v) => v < 0);
+    return idx >= 0 ? baseline.dates[idx] : null;
+  }, [baseline]);
+
+  const toggleScenario = (id: string) => {
+    setActiveIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedBank = useMemo(() => banks.filter((b) => b.id === bankId), [bankId, banks]);
+
+  // The chart builds its SVG once, so inputs that change the shape remount it
+  const chartKey = [bankId, granularity, ...activeScenarios.map((s) => s.id)].join("|");
+
+  const toolbar = (
+    <>
+      <div className="w-44">
+        <Select<BankAccountTableRow>
+          label=""
+          items={banks}
+          selected={selectedBank}
+          onChange={(selected: BankAccountTableRow[]) => setBankId(selected[0]?.id ?? "")}
+          getItemKey={(bank) => bank.id}
+          getItemLabel={(bank) => bank.institution}
+          buttonLabel={t("forecast.allBanks")}
+          singleSelect
+          hideCheckboxes
+          size="xs"
+        />
+      </div>
+      {(["daily", "weekly"] as ForecastGranularity[]).map((g) => (
+        <button
+          key={g}
+          type="button"
+          onClick={() => setGranularity(g)}
+          className={`rounded-md border px-2 py-1 text-[11px] ${
+            granularity === g
+              ? "border-gray-900 bg-gray-900 text-white"
+              : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          {t(`forecast.granularity.${g}`)}
+        </button>
+      ))}
+    </>
+  );
+
+  return (
+    <section className="space-y-3">
+      <AnimatedRangeLineChart
+        key={chartKey}
+        title={t("forecast.title")}
+        subLabel={t("forecast.subtitle")}
+        ranges={ranges}
+        defaultRange="3M"
+        toolbar={toolbar}
+        statLabels={{
+          inflow: t("forecast.stats.lowest"),
+          outflow: t("forecast.stats.belowZero"),
+          context: t("forecast.stats.endBalance"),
+        }}
+        stats={{
+          inflow: low ? `${fmtMoney(low.value)} · ${dayjs(low.date).format("DD MMM")}` : "—",
+          outflow: firstNegative ? dayjs(firstNegative).format("DD MMM YY") : t("forecast.stats.never"),
+          context: fmtMoney(baseline.data[baseline.data.length - 1] ?? startBalance),
+        }}
+      />
+
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      {loading ? <p className="text-[12px] text-gray-500">{t("forecast.loading")}</p> : null}
+
+      <div className="rounded-md border border-gray-300 bg-white px-3 py-3">
+        <div className="mb-2 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-[12px] font-medium text-gray-900">{t("forecast.scenarios.title")}</p>
+            <p className="mt-1 text-[11px] text-gray-500">{t("forecast.scenarios.subtitle")}</p>
+          </div>
+          <Button variant="common" size="sm" onClick={() => setEditorOpen((v) => !v)}>
+            {editorOpen ? t("forecast.buttons.close") : t("forecast.buttons.manage")}
+          </Button>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <p className="text-[12px] text-gray-500">{t("forecast.scenarios.empty")}</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {scenarios.map((scenario, i) => (
+              <label key={scenario.id} className="flex items-center gap-2 text-[12px] text-gray-800">
+                <Checkbox
+                  size="sm"
+                  checked={activeIds.has(scenario.id)}
+                  onChange={() => toggleScenario(scenario.id)}
+                />
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: scenarioColor(scenario, i) }}
+                />
+                {scenario.name}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {editorOpen ? (
+          <ForecastEditor
+            scenarios={scenarios}
+            assumptions={assumptions}
+            entities={entities}
+            banks={banks}
+            onChanged={fetchScenarios}
+          />
+        ) : null}
+      </div>
+    </section>
+  );
+};
+
+export default ForecastCard;
@@ -0,0 +1,388 @@
+import React, { useMemo, useState } from "react";
+import dayjs from "dayjs";
+import { useTranslation } from "react-i18next";
+
+import Button from "@/shared/ui/Button";
+import Input from "@/shared/ui/Input";
+import { Select } from "@/shared/ui/Select";
+import { api } from "@/api/requests";
+import type { Entity } from "@/models/settings/entities";
+import type { BankAccountTableRow } from "@/models/settings/banking";
+import type {
+  ForecastAdjustment,
+  ForecastAdjustmentKind,
+  ForecastAssumption,
+  ForecastScenario,
+} from "@/models/components/forecast";
+
+import { fmtMoney } from "../helpers";
+
+type Option<K extends string | number> = { key: K; label: string };
+
+type Props = {
+  scenarios: ForecastScenario[];
+  assumptions: ForecastAssumption[];
+  entities: Entity[];
+  banks: BankAccountTableRow[];
+  onChanged: () => Promise<void>;
+};
+
+const ADJUSTMENT_KINDS: ForecastAdjustmentKind[] = [
+  "delay_payables",
+  "delay_receivables",
+  "drop_entity",
+  "scale_inflows",
+  "scale_outflows",
+];
+
+const INTERVALS = [0, 1, 3, 6, 12];
+
+const entityLabel = (e: Entity) => e.alias_name || e.full_name || e.id;
+
+const ForecastEditor: React.FC<Props> = ({ scenarios, assumptions, entities, banks, onChanged }) => {
+  const { t } = useTranslation("reports");
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /* ------------------------------ Scenario form ----------------------------- */
+
+  const [scenarioName, setScenarioName] = useState("");
+  const [kind, setKind] = useState<ForecastAdjustmentKind>("delay_receivables");
+  const [param, setParam] = useState("");
+  const [entityId, setEntityId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+
+  /* ----------------------------- Assumption form ---------------------------- */
+
+  const [label, setLabel] = useState("");
+  const [date, setDate] = useState(dayjs().format("YYYY-MM-DD"));
+  const [amount, setAmount] = useState("");
+  const [txType, setTxType] = useState<"credit" | "debit">("debit");
+  const [intervalMonths, setIntervalMonths] = useState(0);
+  const [assumptionBankId, setAssumptionBankId] = useState("");
+
+  const kindOptions = useMemo<Option<ForecastAdjustmentKind>[]>(
+    () => ADJUSTMENT_KINDS.map((k) => ({ key: k, label: t(`forecast.adjustments.${k}`) })),
+    [t]
+  );
+
+  const txOptions = useMemo<Option<"credit" | "debit">[]>(
+    () => [
+      { key: "credit", label: t("forecast.assumptions.credit") },
+      { key: "debit", label: t("forecast.assumptions.debit") },
+    ],
+    [t]
+  );
+
+  const intervalOptions = useMemo<Option<number>[]>(
+    () =>
+      INTERVALS.map((m) => ({
+        key: m,
+        label: m === 0 ? t("forecast.assumptions.once") : t("forecast.assumptions.everyMonths", { count: m }),
+      })),
+    [t]
+  );
+
+  const describeAdjustment = (adj: ForecastAdjustment): string => {
+    switch (adj.kind) {
+      case "delay_payables":
+      case "delay_receivables":
+        return t(`forecast.describe.${adj.kind}`, { days: adj.days });
+      case "drop_entity":
+        return t("forecast.describe.drop_entity", { entity: adj.entity_label || adj.entity_id });
+      case "scale_inflows":
+      case "scale_outflows":
+        return t(`forecast.describe.${adj.kind}`, { percent: adj.percent });
+      default:
+        return "";
+    }
+  };
+
+  const buildAdjustment = (): ForecastAdjustment | null => {
+    const n = Number(String(param).replace(",", "."));
+
+    switch (kind) {
+      case "delay_payables":
+      case "delay_receivables":
+        return Number.isFinite(n) && n > 0 ? { kind, days: Math.round(n) } : null;
+      case "scale_inflows":
+      case "scale_outflows":
+        return Number.isFinite(n) && n !== 0 ? { kind, percent: n } : null;
+      case "drop_entity": {
+        const entity = entities.find((e) => e.id === entityId);
+        if (!entity) return null;
+        return {
+          kind,
+          entity_id: entity.id,
+          entity_label: entityLabel(entity),
+          from_date: fromDate || null,
+        };
+      }
+      default:
+        return null;
+    }
+  };
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await onChanged();
+    } catch (e) {
+      console.error(e);
+      setError(t("forecast.errors.save"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddScenario = () => {
+    const adjustment = buildAdjustment();
+    if (!scenarioName.trim() || !adjustment) {
+      setError(t("forecast.errors.invalidScenario"));
+      return;
+    }
+
+    void run(async () => {
+      await api.addForecastScenario({ name: scenarioName.trim(), adjustments: [adjustment] });
+      setScenarioName("");
+      setParam("");
+      setEntityId("");
+      setFromDate("");
+    });
+  };
+
+  const handleAddAdjustment = (scenario: ForecastScenario) => {
+    const adjustment = buildAdjustment();
+    if (!adjustment) {
+      setError(t("forecast.errors.invalidScenario"));
+      return;
+    }
+
+    void run(() =>
+      api.editForecastScenario(scenario.id, { adjustments: [...scenario.adjustments, adjustment] })
+    );
+  };
+
+  const handleDeleteScenario = (scenario: ForecastScenario) => {
+    if (!window.confirm(t("forecast.scenarios.confirmDelete", { name: scenario.name }))) return;
+    void run(() => api.deleteForecastScenario(scenario.id));
+  };
+
+  const handleAddAssumption = () => {
+    if (!label.trim() || !date || !(Number(amount) > 0)) {
+      setError(t("forecast.errors.invalidAssumption"));
+      return;
+    }
+
+    void run(async () => {
+      await api.addForecastAssumption({
+        label: label.trim(),
+        date,
+        amount,
+        tx_type: txType,
+        interval_months: intervalMonths,
+        bank_account_id: assumptionBankId || null,
+      });
+      setLabel("");
+      setAmount("");
+    });
+  };
+
+  const handleDeleteAssumption = (assumption: ForecastAssumption) => {
+    void run(() => api.deleteForecastAssumption(assumption.id));
+  };
+
+  const needsNumber = kind !== "drop_entity";
+
+  return (
+    <div className="mt-4 space-y-5 border-t border-gray-200 pt-4">
+      {error ? <p className="text-[12px] text-red-600">{error}</p> : null}
+
+      {/* Scenarios */}
+      <div className="space-y-3">
+        <p className="text-[12px] font-medium text-gray-900">{t("forecast.scenarios.new")}</p>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <Input
+            kind="text"
+            label={t("forecast.fields.name")}
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+          />
+
+          <Select<Option<ForecastAdjustmentKind>>
+            label={t("forecast.fields.adjustment")}
+            items={kindOptions}
+            selected={kindOptions.filter((o) => o.key === kind)}
+            onChange={(selected) => selected[0] && setKind(selected[0].key)}
+            getItemKey={(o) => o.key}
+            getItemLabel={(o) => o.label}
+            singleSelect
+            hideCheckboxes
+          />
+
+          {needsNumber ? (
+            <Input
+              kind="text"
+              inputMode="decimal"
+              label={
+                kind === "delay_payables" || kind === "delay_receivables"
+                  ? t("forecast.fields.days")
+                  : t("forecast.fields.percent")
+              }
+              value={param}
+              onChange={(e) => setParam(e.target.value)}
+            />
+          ) : (
+            <>
+              <Select<Entity>
+                label={t("forecast.fields.entity")}
+                items={entities}
+                selected={entities.filter((e) => e.id === entityId)}
+                onChange={(selected) => setEntityId(selected[0]?.id ?? "")}
+                getItemKey={(e) => e.id}
+                getItemLabel={entityLabel}
+                buttonLabel={t("forecast.fields.selectEntity")}
+                singleSelect
+                hideCheckboxes
+              />
+              <Input
+                kind="date"
+                label={t("forecast.fields.fromDate")}
+                value={fromDate}
+                onValueChange={(value: string) => setFromDate(value)}
+              />
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="primary" size="sm" onClick={handleAddScenario} disabled={busy}>
+            {t("forecast.buttons.addScenario")}
+          </Button>
+        </div>
+
+        {scenarios.length ? (
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+            {scenarios.map((scenario) => (
+              <li key={scenario.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-[13px] text-gray-900">{scenario.name}</p>
+                  <p className="mt-0.5 text-[11px] text-gray-500">
+                    {scenario.adjustments.map(describeAdjustment).join(" · ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="common" size="xs" onClick={() => handleAddAdjustment(scenario)} disabled={busy}>
+                    {t("forecast.buttons.addAdjustment")}
+                  </Button>
+                  <Button variant="outlineDanger" size="xs" onClick={() => handleDeleteScenario(scenario)} disabled={busy}>
+                    {t("forecast.buttons.delete")}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+
+      {/* Assumptions */}
+      <div className="space-y-3">
+        <div>
+          <p className="text-[12px] font-medium text-gray-900">{t("forecast.assumptions.title")}</p>
+          <p className="mt-1 text-[11px] text-gray-500">{t("forecast.assumptions.subtitle")}</p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3 xl:grid-cols-6">
+          <Input
+            kind="text"
+            label={t("forecast.fields.label")}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Input
+            kind="date"
+            label={t("forecast.fields.date")}
+            value={date}
+            onValueChange={(value: string) => setDate(value)}
+          />
+          <Input
+            kind="amount"
+            label={t("forecast.fields.amount")}
+            value={amount}
+            onValueChange={(next: string) => setAmount(next)}
+            zeroAsEmpty
+          />
+          <Select<Option<"credit" | "debit">>
+            label={t("forecast.fields.type")}
+            items={txOptions}
+            selected={txOptions.filter((o) => o.key === txType)}
+            onChange={(selected) => selected[0] && setTxType(selected[0].key)}
+            getItemKey={(o) => o.key}
+            getItemLabel={(o) => o.label}
+            singleSelect
+            hideCheckboxes
+          />
+          <Select<Option<number>>
+            label={t("forecast.fields.repeat")}
+            items={intervalOptions}
+            selected={intervalOptions.filter((o) => o.key === intervalMonths)}
+            onChange={(selected) => selected[0] && setIntervalMonths(selected[0].key)}
+            getItemKey={(o) => o.key}
+            getItemLabel={(o) => o.label}
+            singleSelect
+            hideCheckboxes
+          />
+          <Select<BankAccountTableRow>
+            label={t("forecast.fields.bank")}
+            items={banks}
+            selected={banks.filter((b) => b.id === assumptionBankId)}
+            onChange={(selected) => setAssumptionBankId(selected[0]?.id ?? "")}
+            getItemKey={(b) => b.id}
+            getItemLabel={(b) => b.institution}
+            buttonLabel={t("forecast.allBanks")}
+            singleSelect
+            hideCheckboxes
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="primary" size="sm" onClick={handleAddAssumption} disabled={busy}>
+            {t("forecast.buttons.addAssumption")}
+          </Button>
+        </div>
+
+        {assumptions.length ? (
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+            {assumptions.map((a) => (
+              <li key={a.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-[13px] text-gray-900">{a.label}</p>
+                  <p className="mt-0.5 text-[11px] text-gray-500">
+                    {dayjs(a.date).format("DD MMM YY")} ·{" "}
+                    <span className={a.tx_type === "credit" ? "text-emerald-700" : "text-rose-700"}>
+                      {a.tx_type === "credit" ? "+" : "−"}
+                      {fmtMoney(a.amount)}
+                    </span>{" "}
+                    · {intervalOptions.find((o) => o.key === a.interval_months)?.label ??
+                      t("forecast.assumptions.everyMonths", { count: a.interval_months })}
+                  </p>
+                </div>
+                <Button variant="outlineDanger" size="xs" onClick={() => handleDeleteAssumption(a)} disabled={busy}>
+                  {t("forecast.buttons.delete")}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[12px] text-gray-500">{t("forecast.assumptions.empty")}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ForecastEditor;
@@ -0,0 +1,228 @@
+import dayjs from "dayjs";
+
+import { convertToOrg, isForeignCurrency } from "@/lib/currency";
+import { shiftToBusinessDay, type ClosedDays } from "@/lib/date";
+import type { Entry } from "@/models/entries/entries";
+import type {
+  ForecastAdjustment,
+  ForecastAssumption,
+  ForecastGranularity,
+  ForecastScenario,
+} from "@/models/components/forecast";
+import { parseMoney } from "./helpers";
+
+export type ForecastFlowSource = "entry" | "recurring" | "assumption";
+
+export type ForecastFlow = {
+  date: string; // YYYY-MM-DD
+  amount: number; // signed major units: inflow > 0, outflow < 0
+  entityId: string | null;
+  source: ForecastFlowSource;
+};
+
+export type ForecastSeries = {
+  dates: string[];
+  labels: string[];
+  data: number[];
+};
+
+const ISO = "YYYY-MM-DD";
+
+export const SCENARIO_COLORS = ["#7C3AED", "#F59E0B", "#0891B2", "#DB2777", "#4F46E5", "#64748B"];
+
+const isCredit = (txType: string) => String(txType ?? "").toLowerCase().includes("credit");
+
+/** What is still open by default; `full` ignores partial settlements, for installments not booked yet. */
+function entryAmount(entry: Entry, basis: "open" | "full" = "open"): number {
+  let raw = (basis === "open" ? parseMoney(entry.open_amount) : null) ?? parseMoney(entry.amount) ?? 0;
+  // Projections are in the org currency; foreign entries without a rate drop out like in the KPIs
+  if (isForeignCurrency(entry.currency)) raw = convertToOrg(raw, entry.fx_rate) ?? 0;
+  const abs = Math.abs(raw);
+  return isCredit(entry.tx_type) ? abs : -abs;
+}
+
+/**
+ * Banks don't clear on weekends or holidays. Flows follow the entry's
+ * `weekend_action`; without one, cash lands on the next business day.
+ */
+function clearingDate(date: string, weekendAction: number | null | undefined, closed?: ClosedDays): string {
+  return shiftToBusinessDay(date, weekendAction === -1 ? -1 : 1, closed);
+}
+
+/**
+ * Open entries become dated flows. Anything already overdue is assumed to
+ * clear on the next business day from today rather than vanish from the projection.
+ */
+export function entriesToFlows(entries: Entry[], today: string, closed?: ClosedDays): ForecastFlow[] {
+  return entries
+    .filter((entry) => !entry.is_settled && !entry.transfer_id)
+    .map((entry) => ({
+      date:
+        entry.due_date < today
+          ? clearingDate(today, 1, closed)
+          : clearingDate(entry.due_date, entry.weekend_action, closed),
+      amount: entryAmount(entry),
+      entityId: entry.entity,
+      source: "entry" as const,
+    }));
+}
+
+/**
+ * Extends installment groups that keep going past the last entry we have.
+ *
+ * For every `installment_group_id` with `interval_months > 0`, the latest
+ * open installment is repeated at its full amount every `interval_months`
+ * until either the declared `installment_count` is reached or the horizon
+ * ends. Groups with no count are treated as open-ended recurrences. Projected dates are shifted
+ * off non-business days the same way the backend shifts real installments.
+ */
+export function projectRecurring(entries: Entry[], horizonEnd: string, closed?: ClosedDays): ForecastFlow[] {
+  const latestByGroup = new Map<string, Entry>();
+
+  for (const entry of entries) {
+    if (!entry.installment_group_id || !(entry.interval_months > 0)) continue;
+
+    const prev = latestByGroup.get(entry.installment_group_id);
+    const later =
+      !prev ||
+      (entry.installment_index ?? 0) > (prev.installment_index ?? 0) ||
+      ((entry.installment_index ?? 0) === (prev.installment_index ?? 0) && entry.due_date > prev.due_date);
+
+    if (later) latestByGroup.set(entry.installment_group_id, entry);
+  }
+
+  const out: ForecastFlow[] = [];
+  const end = dayjs(horizonEnd);
+
+  for (const last of latestByGroup.values()) {
+    const remaining =
+      last.installment_count != null && last.installment_index != null
+        ? last.installment_count - last.installment_index
+        : Infinity;
+
+    let next = dayjs(last.due_date).add(last.interval_months, "month");
+    for (let i = 0; i < remaining && !next.isAfter(end); i += 1) {
+      out.push({
+        date: clearingDate(next.format(ISO), last.weekend_action, closed),
+        amount: entryAmount(last, "full"),
+        entityId: last.entity,
+        source: "recurring",
+      });
+      next = next.add(last.interval_months, "month");
+    }
+  }
+
+  return out;
+}
+
+export function assumptionsToFlows(
+  assumptions: ForecastAssumption[],
+  from: string,
+  horizonEnd: string,
+  bankAccountId?: string | null,
+  closed?: ClosedDays
+): ForecastFlow[] {
+  const out: ForecastFlow[] = [];
+  const start = dayjs(from);
+  const end = dayjs(horizonEnd);
+
+  for (const a of assumptions) {
+    // Bank-specific assumptions only apply to that bank's projection
+    if (bankAccountId && a.bank_account_id && a.bank_account_id !== bankAccountId) continue;
+
+    const abs = Math.abs(parseMoney(a.amount) ?? 0);
+    if (!abs) continue;
+
+    const amount = a.tx_type === "credit" ? abs : -abs;
+    let d = dayjs(a.date);
+
+    while (!d.isAfter(end)) {
+      if (!d.isBefore(start)) {
+        out.push({ date: clearingDate(d.format(ISO), 1, closed), amount, entityId: null, source: "assumption" });
+      }
+      if (!(a.interval_months > 0)) break;
+      d = d.add(a.interval_months, "month");
+    }
+  }
+
+  return out;
+}
+
+function applyAdjustment(flows: ForecastFlow[], adj: ForecastAdjustment): ForecastFlow[] {
+  switch (adj.kind) {
+    case "delay_payables":
+      return flows.map((f) =>
+        f.amount < 0 ? { ...f, date: dayjs(f.date).add(adj.days, "day").format(ISO) } : f
+      );
+    case "delay_receivables":
+      return flows.map((f) =>
+        f.amount > 0 ? { ...f, date: dayjs(f.date).add(adj.days, "day").format(ISO) } : f
+      );
+    case "drop_entity":
+      return flows.filter(
+        (f) => f.entityId !== adj.entity_id || (!!adj.from_date && f.date < adj.from_date)
+      );
+    case "scale_inflows":
+      return flows.map((f) => (f.amount > 0 ? { ...f, amount: f.amount * (1 + adj.percent / 100) } : f));
+    case "scale_outflows":
+      return flows.map((f) => (f.amount < 0 ? { ...f, amount: f.amount * (1 + adj.percent / 100) } : f));
+    default:
+      return flows;
+  }
+}
+
+export function applyScenario(flows: ForecastFlow[], scenario: ForecastScenario): ForecastFlow[] {
+  return (scenario.adjustments ?? []).reduce(applyAdjustment, flows);
+}
+
+/**
+ * Running balance at the end of each day (or week) from `from` to `horizonEnd`.
+ * Flows pushed past the horizon by a scenario simply fall out of the window.
+ */
+export function buildBalanceSeries(
+  flows: ForecastFlow[],
+  startBalance: number,
+  from: string,
+  horizonEnd: string,
+  granularity: ForecastGranularity
+): ForecastSeries {
+  const byDay = new Map<string, number>();
+  for (const f of flows) byDay.set(f.date, (byDay.get(f.date) ?? 0) + f.amount);
+
+  const dates: string[] = [];
+  const labels: string[] = [];
+  const data: number[] = [];
+
+  const step = granularity === "weekly" ? 7 : 1;
+  const end = dayjs(horizonEnd);
+
+  let balance = startBalance;
+  let cursor = dayjs(from);
+
+  while (!cursor.isAfter(end)) {
+    const stepEnd = cursor.add(step - 1, "day");
+    const bucketEnd = stepEnd.isAfter(end) ? end : stepEnd;
+
+    for (let d = cursor; !d.isAfter(bucketEnd); d = d.add(1, "day")) {
+      balance += byDay.get(d.format(ISO)) ?? 0;
+    }
+
+    dates.push(bucketEnd.format(ISO));
+    labels.push(bucketEnd.format("DD MMM"));
+    data.push(Math.round(balance * 100) / 100);
+
+    cursor = bucketEnd.add(1, "day");
+  }
+
+  return { dates, labels, data };
+}
+
+export function lowestPoint(series: ForecastSeries): { date: string; value: number } | null {
+  if (!series.data.length) return null;
+
+  let idx = 0;
+  for (let i = 1; i < series.data.length; i += 1) {
+    if (series.data[i] < series.data[idx]) idx = i;
+  }
+  return { date: series.dates[idx], value: series.data[idx] };
+}
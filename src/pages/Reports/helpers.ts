@@ -16,9 +16,18 @@ export type Tone = "neutral" | "positive" | "negative";
 
 export type RangeKey = "3M" | "6M" | "12M" | "ALL";
 
+export type ChartSeries = {
+  key: string;
+  label: string;
+  color: string;
+  data: number[];
+};
+
 export type ChartRange = {
   labels: string[];
   data: number[];
+  /** Extra lines drawn on the same axes (e.g. forecast scenarios). */
+  series?: ChartSeries[];
 };
 
 export type SplitBarDatum = {
@@ -151,6 +160,8 @@ export function buildReportsViewModel({ data, totalConsolidatedBalance, t }: Bui
   const next30Pay = toNum0(data?.next30.pay);
   const next30Net = toNum0(data?.next30.net);
 
+  const fxRealized = toNum0(data?.fx?.realized_gain_loss);
+
   const monthlyBars: SplitBarDatum[] = (data?.monthly.bars ?? []).map((item) => ({
     key: item.key,
     month: item.month,
@@ -238,6 +249,16 @@ export function buildReportsViewModel({ data, totalConsolidatedBalance, t }: Bui
     },
   ];
 
+  // Only orgs with foreign-currency entries get the FX card
+  if (data?.fx?.converted_items) {
+    metrics.push({
+      label: t("kpis.fxRealized"),
+      value: fmtMoney(fxRealized),
+      hint: t("kpis.fxRealizedHint", { count: data.fx.converted_items, currency: data.fx.currency }),
+      tone: fxRealized > 0 ? "positive" : fxRealized < 0 ? "negative" : "neutral",
+    });
+  }
+
   const insights: string[] = [];
   if (Number.isFinite(runwayMonths) && runwayMonths < 3) insights.push(t("insights.runwayLow"));
   if (Number.isFinite(runwayMonths) && runwayMonths >= 6) insights.push(t("insights.runwayHealthy"));
@@ -246,6 +267,7 @@ export function buildReportsViewModel({ data, totalConsolidatedBalance, t }: Bui
   if (next7Pay > next7Rec) insights.push(t("insights.next7Pressure"));
   if (Number.isFinite(momChange) && momChange > 0) insights.push(t("insights.momPositive", { value: `+${asPct(momChange)}` }));
   if (Number.isFinite(momChange) && momChange < 0) insights.push(t("insights.momNegative", { value: asPct(momChange) }));
+  if (data?.fx?.missing_rates) insights.push(t("insights.fxMissing", { count: data.fx.missing_rates }));
 
   return {
     metrics,
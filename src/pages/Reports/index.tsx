@@ -6,7 +6,7 @@ import Button from "@/shared/ui/Button";
 import TopProgress from "@/shared/ui/Loaders/TopProgress";
 import { api } from "@/api/requests";
 import type { ReportsSummary } from "@/models/components/reports";
-import type { GetBanksTableResponse } from "@/models/settings/banking";
+import type { BankAccountTableRow, GetBanksTableResponse } from "@/models/settings/banking";
 
 import {
   buildReportsViewModel,
@@ -22,6 +22,8 @@ import ExpenseBreakdownCard from "./components/ExpenseBreakdownCard";
 import OverdueListCard from "./components/OverdueListCard";
 import AttentionPanel from "./components/AttentionPanel";
 import InsightsCard from "./components/InsightsCard";
+import ForecastCard from "./components/ForecastCard";
+import AgingReportCard from "./components/AgingReportCard";
 
 const START_DATE = dayjs().startOf("month").subtract(12, "month").format("YYYY-MM-DD");
 const END_DATE = dayjs().endOf("month").format("YYYY-MM-DD");
@@ -72,6 +74,7 @@ const ReportsPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [banksError, setBanksError] = useState<string | null>(null);
   const [totalConsolidatedBalance, setTotalConsolidatedBalance] = useState(0);
+  const [banks, setBanks] = useState<BankAccountTableRow[]>([]);
 
   useEffect(() => {
     document.title = t("pageTitle");
@@ -98,9 +101,11 @@ const ReportsPage: React.FC = () => {
       const res = await api.getBanksTable({ active: true, ids: [] });
       const payload = res.data as GetBanksTableResponse;
       setTotalConsolidatedBalance(parseMoney(payload?.total_consolidated_balance) ?? 0);
+      setBanks(payload?.banks ?? []);
     } catch (e) {
       console.error(e);
       setTotalConsolidatedBalance(0);
+      setBanks([]);
       setBanksError(t("errors.fetchBanksTotal"));
     } finally {
       setLoadingBanks(false);
@@ -274,6 +279,8 @@ const ReportsPage: React.FC = () => {
                 />
               </section>
 
+              <ForecastCard banks={banks} totalConsolidatedBalance={totalConsolidatedBalance} />
+
               <section className="grid grid-cols-1 gap-3 xl:grid-cols-[1.45fr_0.85fr]">
                 <AnimatedSplitBarsChart
                   title={t("charts.flowComposition")}
@@ -302,6 +309,8 @@ const ReportsPage: React.FC = () => {
 
                 <InsightsCard insights={vm.insights} />
               </section>
+
+              <AgingReportCard />
             </>
           ) : null}
         </div>
@@ -6,13 +6,16 @@ import { SettledEntriesTable, type SettledEntriesTableHandle } from "@/component
 import FilterBar from "@/components/FilterBar";
 import KpiCards from "@/components/KpiCards";
 import { SelectionActionsBar, type MinimalEntry } from "@/components/SelectionActionsBar";
+import { ExportEntriesModal } from "@/components/Modal";
 import TopProgress from "@/shared/ui/Loaders/TopProgress";
+import Snackbar from "@/shared/ui/Snackbar";
 
 import { api } from "@/api/requests";
 import { PermissionMiddleware } from "@/middlewares";
+import { useEntryViewLink } from "@/hooks/useEntryViewLink";
 
 import type { SettledEntry } from "@/models/entries/settlements";
-import type { EntryFilters } from "@/models/components/filterBar";
+import type { EntryFilters, EntrySortOrder } from "@/models/components/filterBar";
 
 const DEFAULT_FILTERS: EntryFilters = {
   bank_id: [],
@@ -26,6 +29,12 @@ const DEFAULT_FILTERS: EntryFilters = {
   amount_max: "",
 } as EntryFilters;
 
+type Snack = {
+  message: string;
+  severity: "success" | "error" | "warning" | "info";
+  action?: { label: string; onClick: () => void };
+} | null;
+
 const Settled = () => {
   const { t } = useTranslation(["settled"]);
 
@@ -48,18 +57,87 @@ const Settled = () => {
     bumpKpis();
   }, [bumpTable, bumpBanks, bumpKpis]);
 
-  const [filters, setFilters] = useState<EntryFilters>(() => DEFAULT_FILTERS);
+  const [snack, setSnack] = useState<Snack>(null);
+  const [filterBarKey, setFilterBarKey] = useState(0);
+
+  const undoReturn = useCallback(
+    async (batchId: string) => {
+      try {
+        const { data } = await api.restoreTrash({ batch_id: batchId });
+        bumpAll();
+        setSnack({ message: t("settled:trash.restored", { count: data.restored }), severity: "success" });
+      } catch {
+        setSnack({ message: t("settled:trash.restoreError"), severity: "error" });
+      }
+    },
+    [bumpAll, t]
+  );
+
+  const { initialView, writeView, getShareUrl } = useEntryViewLink({
+    contextSettlement: true,
+    onFiltersPruned: (next) => {
+      setFilters(next);
+      setFilterBarKey((k) => k + 1);
+      bumpAll();
+      setSnack({ message: t("settled:link.unavailableFilters"), severity: "warning" });
+    },
+  });
+
+  const [filters, setFilters] = useState<EntryFilters>(() => ({ ...DEFAULT_FILTERS, ...initialView.filters }));
+  const [sortOrder, setSortOrder] = useState<EntrySortOrder>(initialView.sort);
+  const [openEntryId, setOpenEntryId] = useState<string | null>(null);
+  // A shared settlement stays here until we know the viewer can read it
+  const [pendingEntryId, setPendingEntryId] = useState<string | null>(initialView.entryId);
+
+  useEffect(() => {
+    writeView({ filters, sort: sortOrder, entryId: openEntryId ?? pendingEntryId });
+  }, [filters, sortOrder, openEntryId, pendingEntryId, writeView]);
 
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [selectedEntries, setSelectedEntries] = useState<SettledEntry[]>([]);
   const [isReturning, setIsReturning] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const tableRef = useRef<SettledEntriesTableHandle>(null);
 
-  const filterBarHotkeysEnabled = useMemo(() => true, []);
+  const filterBarHotkeysEnabled = useMemo(() => !isExportOpen, [isExportOpen]);
 
   const toggleSidebar = () => setIsSidebarOpen((prev) => !prev);
 
+  useEffect(() => {
+    const id = initialView.entryId;
+    if (!id) return;
+
+    let alive = true;
+
+    (async () => {
+      try {
+        const { data } = await api.getSettledEntriesBulk([id]);
+        if (!alive) return;
+        if (!Array.isArray(data) || !data.length) throw new Error("not found");
+        setOpenEntryId(id);
+        setPendingEntryId(null);
+      } catch {
+        if (!alive) return;
+        setPendingEntryId(null);
+        setSnack({ message: t("settled:link.unavailableEntry"), severity: "warning" });
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [initialView, t]);
+
+  const handleShareLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl());
+      setSnack({ message: t("settled:link.copied"), severity: "success" });
+    } catch {
+      setSnack({ message: t("settled:link.copyFailed"), severity: "error" });
+    }
+  }, [getShareUrl, t]);
+
   const handleApplyFilters = useCallback(
     ({ filters: newFilters }: { filters: EntryFilters }) => {
       setFilters(newFilters);
@@ -119,11 +197,14 @@ const Settled = () => {
         >
           <PermissionMiddleware codeName={["view_filters"]} requireAll>
             <FilterBar
+              key={filterBarKey}
               onApply={handleApplyFilters}
               bankActive={true}
               contextSettlement={true}
               shortcutsEnabled={filterBarHotkeysEnabled}
               initial={filters}
+              onExport={() => setIsExportOpen(true)}
+              onShareLink={() => void handleShareLink()}
             />
           </PermissionMiddleware>
 
@@ -142,6 +223,10 @@ const Settled = () => {
                 key={tableKey}
                 filters={filters}
                 onSelectionChange={handleSelectionChange}
+                sortOrder={sortOrder}
+                onSortOrderChange={setSortOrder}
+                openEntryId={openEntryId}
+                onOpenEntryChange={setOpenEntryId}
               />
             </PermissionMiddleware>
           </div>
@@ -158,11 +243,13 @@ const Settled = () => {
 
                 setIsReturning(true);
                 try {
-                  if (selectedIds.length > 1) {
-                    await api.deleteSettledEntriesBulk(selectedIds as string[]);
-                  } else {
-                    await api.deleteSettledEntry(selectedIds[0] as string);
-                  }
+                  // The bulk route also covers one id and returns the batch undo restores
+                  const { data: receipt } = await api.deleteSettledEntriesBulk(selectedIds as string[]);
+                  setSnack({
+                    message: t("settled:trash.returned", { count: receipt.count || selectedIds.length }),
+                    severity: "info",
+                    action: { label: t("settled:trash.undo"), onClick: () => void undoReturn(receipt.batch_id) },
+                  });
 
                   bumpAll();
                   setSelectedIds([]);
@@ -179,6 +266,27 @@ const Settled = () => {
           )}
         </div>
       </div>
+
+      <ExportEntriesModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        context="settled"
+        filters={filters}
+        sort={sortOrder}
+        selectedIds={selectedIds}
+      />
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={6000}
+        message={snack?.message}
+        severity={snack?.severity}
+        action={snack?.action}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
     </div>
   );
 };
@@ -0,0 +1,85 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import Button from "@/shared/ui/Button";
+import Checkbox from "@/shared/ui/Checkbox";
+
+import { formatDateFromISO } from "@/lib";
+import type { TrashItem } from "@/models/settings/trash";
+
+type Props = {
+  item: TrashItem;
+  selected: boolean;
+  busy: boolean;
+  canRestore: boolean;
+  canPurge: boolean;
+  onToggle: (item: TrashItem) => void;
+  onRestore: (item: TrashItem) => void;
+  onPurge: (item: TrashItem) => void;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(purgeAt: string) {
+  const ms = Date.parse(purgeAt) - Date.now();
+  return Number.isNaN(ms) ? 0 : Math.max(0, Math.ceil(ms / DAY_MS));
+}
+
+const TrashItemRow: React.FC<Props> = ({ item, selected, busy, canRestore, canPurge, onToggle, onRestore, onPurge }) => {
+  const { t } = useTranslation("trashSettings");
+  const days = daysLeft(item.purge_at);
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2.5">
+      {(canRestore || canPurge) && (
+        <Checkbox size="sm" checked={selected} onChange={() => onToggle(item)} disabled={busy} />
+      )}
+
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="shrink-0 rounded-full border border-gray-200 bg-gray-50 px-2 py-[1px] text-[10px] uppercase tracking-wide text-gray-600">
+            {t(`kinds.${item.kind}`)}
+          </span>
+          <p className="truncate text-[13px] font-medium text-gray-900">{item.label || "—"}</p>
+        </div>
+        <p className="mt-0.5 truncate text-[11px] text-gray-500">
+          {item.deleted_by
+            ? t("row.deletedBy", { name: item.deleted_by.name, date: formatDateFromISO(item.deleted_at) })
+            : t("row.deletedOn", { date: formatDateFromISO(item.deleted_at) })}
+          {" • "}
+          <span className={days <= 3 ? "text-amber-700" : undefined}>{t("row.purgeIn", { count: days })}</span>
+        </p>
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        {canRestore && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRestore(item)}
+            disabled={busy}
+            aria-label={t("btn.restore")}
+            title={t("btn.restore")}
+          >
+            <RotateCcw size={14} />
+          </Button>
+        )}
+        {canPurge && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPurge(item)}
+            disabled={busy}
+            aria-label={t("btn.purge")}
+            title={t("btn.purge")}
+          >
+            <Trash2 size={14} />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashItemRow;
@@ -0,0 +1,305 @@
+/* --------------------------------------------------------------------------
+ * File: src/pages/TrashSettings/index.tsx
+ * Deleted entries, settlements and master data, restorable until purged.
+ * -------------------------------------------------------------------------- */
+
+import axios from "axios";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import TopProgress from "@/shared/ui/Loaders/TopProgress";
+import Button from "@/shared/ui/Button";
+import Snackbar from "@/shared/ui/Snackbar";
+import PaginationArrows from "@/components/PaginationArrows/PaginationArrows";
+
+import { api } from "@/api/requests";
+import { useAuthContext } from "@/hooks/useAuth";
+import { useCursorPager } from "@/hooks/useCursorPager";
+import { getCursorFromUrl } from "@/lib/list";
+import type { RestoreTrashResponse, TrashItem, TrashItemKind } from "@/models/settings/trash";
+
+import TrashItemRow from "./TrashItemRow";
+
+/* ------------------------------- Types ----------------------------------- */
+type Snack =
+  | { message: React.ReactNode; severity: "success" | "error" | "warning" | "info" }
+  | null;
+
+type KindTab = "all" | TrashItemKind;
+
+const TABS: KindTab[] = ["all", "entry", "settlement", "bank", "ledger_account", "group"];
+
+/* ------------------------------ Helpers ----------------------------------- */
+function getInitials(name?: string) {
+  if (!name) return "TR";
+  const p = name.split(" ").filter(Boolean);
+  return ((p[0]?.[0] || "") + (p.length > 1 ? p[p.length - 1][0] : "")).toUpperCase();
+}
+
+function apiErrorMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err)) return null;
+  const data = err.response?.data;
+  if (typeof data?.message === "string") return data.message;
+  if (typeof data?.detail === "string") return data.detail;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+const TrashSettings: React.FC = () => {
+  const { t, i18n } = useTranslation(["trashSettings"]);
+  const { user: authUser, isOwner, isSuperUser, handlePermissionExists } = useAuthContext();
+
+  const canRestore = isOwner || isSuperUser || handlePermissionExists("restore_trash_item");
+  const canPurge = isOwner || isSuperUser || handlePermissionExists("purge_trash_item");
+
+  useEffect(() => {
+    document.title = t("trashSettings:title");
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.language;
+  }, [i18n.language]);
+
+  const [kind, setKind] = useState<KindTab>("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [snack, setSnack] = useState<Snack>(null);
+
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      const { data } = await api.getTrash({ kind: kind === "all" ? undefined : kind, cursor });
+      const nextCursor = data.next ? getCursorFromUrl(data.next) || data.next : undefined;
+      return { items: data.results ?? [], nextCursor };
+    },
+    [kind]
+  );
+
+  const pager = useCursorPager<TrashItem>(fetchPage, { deps: [kind] });
+
+  // Selection only spans what is on screen
+  useEffect(() => {
+    setSelected(new Set());
+  }, [pager.items]);
+
+  const allSelected = pager.items.length > 0 && pager.items.every((item) => selected.has(item.id));
+
+  const toggle = useCallback((item: TrashItem) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.add(item.id);
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelected(allSelected ? new Set() : new Set(pager.items.map((item) => item.id)));
+  }, [allSelected, pager.items]);
+
+  /* ------------------------------- Actions -------------------------------- */
+
+  const run = useCallback(
+    async (fn: () => Promise<React.ReactNode>, fallbackError: string) => {
+      setBusy(true);
+      try {
+        const message = await fn();
+        setSnack({ message, severity: "success" });
+        await pager.refresh();
+      } catch (err) {
+        setSnack({ message: apiErrorMessage(err) || fallbackError, severity: "error" });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [pager]
+  );
+
+  const describeRestore = useCallback(
+    (res: RestoreTrashResponse) => {
+      if (!res.errors.length) return t("trashSettings:toast.restored", { count: res.restored });
+      return (
+        <>
+          {t("trashSettings:toast.restoredPartial", { count: res.restored, failed: res.errors.length })}
+          <ul className="mt-1 list-disc pl-4 text-[12px]">
+            {res.errors.slice(0, 3).map((e) => (
+              <li key={e.id}>{e.detail}</li>
+            ))}
+          </ul>
+        </>
+      );
+    },
+    [t]
+  );
+
+  const restore = useCallback(
+    (ids: string[]) =>
+      run(async () => {
+        const { data } = await api.restoreTrash({ ids });
+        return describeRestore(data);
+      }, t("trashSettings:toast.restoreError")),
+    [describeRestore, run, t]
+  );
+
+  const purge = useCallback(
+    (ids: string[]) => {
+      if (!window.confirm(t("trashSettings:confirm.purge", { count: ids.length }))) return;
+      return run(async () => {
+        const { data } = await api.purgeTrash({ ids });
+        return t("trashSettings:toast.purged", { count: data.purged });
+      }, t("trashSettings:toast.purgeError"));
+    },
+    [run, t]
+  );
+
+  const emptyTrash = useCallback(() => {
+    if (!window.confirm(t("trashSettings:confirm.empty"))) return;
+    return run(async () => {
+      const { data } = await api.purgeTrash({ all: true });
+      return t("trashSettings:toast.purged", { count: data.purged });
+    }, t("trashSettings:toast.purgeError"));
+  }, [run, t]);
+
+  const selectedIds = useMemo(() => Array.from(selected), [selected]);
+
+  return (
+    <>
+      <TopProgress active={pager.loading || busy} variant="top" topOffset={64} />
+
+      <main className="min-h-full bg-transparent text-gray-900 px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-5xl mx-auto">
+          <header className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-5 py-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-9 w-9 rounded-md border border-gray-200 bg-gray-50 grid place-items-center text-[11px] font-semibold text-gray-700">
+                  {getInitials(authUser?.name)}
+                </div>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-600">
+                    {t("trashSettings:header.settings")}
+                  </div>
+                  <h1 className="text-[16px] font-semibold text-gray-900 leading-snug">
+                    {t("trashSettings:header.title")}
+                  </h1>
+                </div>
+              </div>
+
+              {canPurge && (
+                <Button variant="outline" onClick={() => void emptyTrash()} disabled={busy}>
+                  {t("trashSettings:btn.empty")}
+                </Button>
+              )}
+            </div>
+          </header>
+
+          <section className="mt-6">
+            <div className="rounded-lg border border-gray-200 bg-white overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 bg-gray-50">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-1" role="tablist">
+                    {TABS.map((tab) => (
+                      <button
+                        key={tab}
+                        type="button"
+                        role="tab"
+                        aria-selected={kind === tab}
+                        onClick={() => setKind(tab)}
+                        className={`rounded-md border px-2 py-1 text-[11px] ${
+                          kind === tab
+                            ? "border-gray-900 bg-gray-900 text-white"
+                            : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {t(`trashSettings:tabs.${tab}`)}
+                      </button>
+                    ))}
+                  </div>
+
+                  {selectedIds.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-[11px] text-gray-600">
+                        {t("trashSettings:selection.count", { count: selectedIds.length })}
+                      </span>
+                      {canRestore && (
+                        <Button size="sm" onClick={() => void restore(selectedIds)} disabled={busy}>
+                          {t("trashSettings:btn.restoreSelected")}
+                        </Button>
+                      )}
+                      {canPurge && (
+                        <Button variant="outline" size="sm" onClick={() => void purge(selectedIds)} disabled={busy}>
+                          {t("trashSettings:btn.purgeSelected")}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <p className="mt-1 text-[11px] text-gray-500">{t("trashSettings:section.hint")}</p>
+              </div>
+
+              {pager.error ? (
+                <p className="p-4 text-center text-sm text-red-600">{t("trashSettings:toast.fetchError")}</p>
+              ) : pager.items.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-500">
+                  {pager.loading ? t("trashSettings:loading") : t("trashSettings:empty")}
+                </p>
+              ) : (
+                <>
+                  {(canRestore || canPurge) && (
+                    <div className="border-b border-gray-200 px-4 py-1.5">
+                      <button
+                        type="button"
+                        onClick={toggleAll}
+                        className="text-[11px] text-gray-600 underline hover:text-gray-800"
+                        disabled={busy}
+                      >
+                        {allSelected ? t("trashSettings:selection.none") : t("trashSettings:selection.all")}
+                      </button>
+                    </div>
+                  )}
+                  <div className="divide-y divide-gray-200">
+                    {pager.items.map((item) => (
+                      <TrashItemRow
+                        key={item.id}
+                        item={item}
+                        selected={selected.has(item.id)}
+                        busy={busy}
+                        canRestore={canRestore}
+                        canPurge={canPurge}
+                        onToggle={toggle}
+                        onRestore={(it) => void restore([it.id])}
+                        onPurge={(it) => void purge([it.id])}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {pager.knownPages > 1 || pager.canNext ? (
+                <div className="flex justify-end border-t border-gray-200 px-4 py-2">
+                  <PaginationArrows
+                    onPrev={pager.prev}
+                    onNext={pager.next}
+                    disabledPrev={!pager.canPrev || busy}
+                    disabledNext={!pager.canNext || busy}
+                  />
+                </div>
+              ) : null}
+            </div>
+          </section>
+        </div>
+      </main>
+
+      <Snackbar
+        open={!!snack}
+        onClose={() => setSnack(null)}
+        autoHideDuration={5000}
+        message={snack?.message}
+        severity={snack?.severity}
+        anchor={{ vertical: "bottom", horizontal: "center" }}
+        pauseOnHover
+        showCloseButton
+      />
+    </>
+  );
+};
+
+export default TrashSettings;
@@ -23,6 +23,8 @@ const PasswordVerification = lazy(() => import("@/pages/Auth/PasswordVerificatio
 const HomeDashboard = lazy(() => import("@/pages/HomeDashboard"));
 const CashFlow = lazy(() => import("@/pages/CashFlow"));
 const SettledEntries = lazy(() => import("@/pages/SettledEntries"));
+const Approvals = lazy(() => import("@/pages/Approvals"));
+const Duplicates = lazy(() => import("@/pages/Duplicates"));
 const Reports = lazy(() => import("@/pages/Reports"));
 const PersonalLocaleSetup = lazy(() => import("@/pages/PersonalLocaleSetup"));
 const OnboardingPage = lazy(() => import("@/pages/Onboarding"));
@@ -47,6 +49,11 @@ const Statements = lazy(() => import("@/pages/Statements"));
 const NotificationSettings = lazy(() => import("@/pages/NotificationSettings"));
 const FormatSettings = lazy(() => import("@/pages/FormatSettings"));
 const CurrencySettings = lazy(() => import("@/pages/CurrencySettings"));
+const BusinessCalendarSettings = lazy(() => import("@/pages/BusinessCalendarSettings"));
+const ApprovalRulesSettings = lazy(() => import("@/pages/ApprovalRulesSettings"));
+const CustomFieldsSettings = lazy(() => import("@/pages/CustomFieldsSettings"));
+const TrashSettings = lazy(() => import("@/pages/TrashSettings"));
+const CategorizationRulesSettings = lazy(() => import("@/pages/CategorizationRulesSettings"));
 const SubscriptionCanceled = lazy(() => import("@/pages/SubscriptionCanceled"));
 
 // Status Pages
@@ -150,6 +157,24 @@ const routes: RouteObject[] = [
                     </PermissionMiddleware>
                 )
             },
+            // Approvals
+            {
+                path: 'approvals',
+                element: (
+                    <PermissionMiddleware codeName="view_approval_queue_page" redirectTo={'/cashflow'}>
+                        <Approvals />
+                    </PermissionMiddleware>
+                )
+            },
+            // Duplicates
+            {
+                path: 'duplicates',
+                element: (
+                    <PermissionMiddleware codeName="view_duplicates_page" redirectTo={'/cashflow'}>
+                        <Duplicates />
+                    </PermissionMiddleware>
+                )
+            },
             // Reports
             {
                 path: 'reports',
@@ -330,6 +355,46 @@ const routes: RouteObject[] = [
                     path: 'manage-currency',
                     element: <CurrencySettings />
                 },
+                {
+                    path: 'business-calendar',
+                    element: (
+                    <PermissionMiddleware codeName="view_business_calendar_page" behavior="redirect" redirectTo={'/settings'}>
+                        <BusinessCalendarSettings />
+                    </PermissionMiddleware>
+                    ),
+                },
+                {
+                    path: 'approval-rules',
+                    element: (
+                    <PermissionMiddleware codeName="view_approval_rules_page" behavior="redirect" redirectTo={'/settings'}>
+                        <ApprovalRulesSettings />
+                    </PermissionMiddleware>
+                    ),
+                },
+                {
+                    path: 'custom-fields',
+                    element: (
+                    <PermissionMiddleware codeName="view_custom_fields_page" behavior="redirect" redirectTo={'/settings'}>
+                        <CustomFieldsSettings />
+                    </PermissionMiddleware>
+                    ),
+                },
+                {
+                    path: 'trash',
+                    element: (
+                    <PermissionMiddleware codeName="view_trash_page" behavior="redirect" redirectTo={'/settings'}>
+                        <TrashSettings />
+                    </PermissionMiddleware>
+                    ),
+                },
+                {
+                    path: 'categorization-rules',
+                    element: (
+                    <PermissionMiddleware codeName="view_categorization_rules_page" behavior="redirect" redirectTo={'/settings'}>
+                        <CategorizationRulesSettings />
+                    </PermissionMiddleware>
+                    ),
+                },
             ]
             },
             // Status
@@ -7,6 +7,7 @@ import { useAuthContext } from "@/hooks/useAuth";
 import type { OnboardingStatus } from "@/models/auth/onboarding";
 
 import UserMenu from "@/components/UserMenu";
+import NotificationInbox from "@/components/NotificationInbox";
 
 type NavbarDesktopProps = {
   userMenuOpen: boolean;
@@ -73,6 +74,32 @@ const NavbarDesktop: React.FC<NavbarDesktopProps> = ({
               </NavLink>
             </PermissionMiddleware>
 
+            <PermissionMiddleware codeName="view_approval_queue_page">
+              <NavLink
+                to="/approvals"
+                className={({ isActive }) =>
+                  `px-3 py-2 rounded-md text-sm font-medium ${
+                    isActive ? "text-orange-500 font-bold" : "text-gray-800"
+                  }`
+                }
+              >
+                {t("links.approvals")}
+              </NavLink>
+            </PermissionMiddleware>
+
+            <PermissionMiddleware codeName="view_duplicates_page">
+              <NavLink
+                to="/duplicates"
+                className={({ isActive }) =>
+                  `px-3 py-2 rounded-md text-sm font-medium ${
+                    isActive ? "text-orange-500 font-bold" : "text-gray-800"
+                  }`
+                }
+              >
+                {t("links.duplicates")}
+              </NavLink>
+            </PermissionMiddleware>
+
             {(isSubscribed || isSuperUser) && (
               <PermissionMiddleware codeName="view_report_page">
                 <NavLink
@@ -103,6 +130,8 @@ const NavbarDesktop: React.FC<NavbarDesktopProps> = ({
               </button>
             )}
 
+            <NotificationInbox />
+
             <div className="relative" ref={userMenuRef}>
               <button
                 onClick={onToggleUserMenu}
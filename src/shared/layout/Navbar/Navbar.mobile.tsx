@@ -5,13 +5,14 @@
 import React, { useCallback, useMemo, useRef } from "react";
 import { NavLink, useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
-import { AlertTriangle, BarChart3, ChevronDown, Home, LayoutDashboard, Wallet, X } from "lucide-react";
+import { AlertTriangle, BarChart3, ChevronDown, CopyCheck, Home, LayoutDashboard, ShieldCheck, Wallet, X } from "lucide-react";
 
 import { PermissionMiddleware } from "@/middlewares";
 import { useAuthContext } from "@/hooks/useAuth";
 import type { OnboardingStatus } from "@/models/auth/onboarding";
 
 import UserMenu from "@/components/UserMenu";
+import NotificationInbox from "@/components/NotificationInbox";
 
 type MobileNavItemProps = {
   to: string;
@@ -160,6 +161,8 @@ const NavbarMobile: React.FC<NavbarMobileProps> = ({
                 </button>
               )}
 
+              <NotificationInbox compact />
+
               <div className="relative" ref={userMenuRef}>
                 <button
                   onClick={onToggleUserMenu}
@@ -278,6 +281,24 @@ const NavbarMobile: React.FC<NavbarMobileProps> = ({
                 />
               </PermissionMiddleware>
 
+              <PermissionMiddleware codeName="view_approval_queue_page">
+                <MobileNavItem
+                  to="/approvals"
+                  label={t("navbar:links.approvals")}
+                  Icon={ShieldCheck}
+                  onNavigate={onCloseDrawer}
+                />
+              </PermissionMiddleware>
+
+              <PermissionMiddleware codeName="view_duplicates_page">
+                <MobileNavItem
+                  to="/duplicates"
+                  label={t("navbar:links.duplicates")}
+                  Icon={CopyCheck}
+                  onNavigate={onCloseDrawer}
+                />
+              </PermissionMiddleware>
+
               {(isSubscribed || isSuperUser) && (
                 <PermissionMiddleware codeName="view_report_page">
                   <MobileNavItem
@@ -11,6 +11,7 @@ type Props = {
   handleOpenModal: (type: ModalType) => void;
   handleOpenTransferenceModal: () => void;
   handleOpenStatementImportModal: () => void;
+  handleOpenBulkEntryModal: () => void;
   mode: SidebarMode;
 };
 
@@ -20,6 +21,7 @@ const SidebarDesktop: React.FC<Props> = ({
   handleOpenModal,
   handleOpenTransferenceModal,
   handleOpenStatementImportModal,
+  handleOpenBulkEntryModal,
   mode,
 }) => {
   const { t } = useTranslation(["sidebar"]);
@@ -203,6 +205,34 @@ const SidebarDesktop: React.FC<Props> = ({
                 }
               />
             </PermissionMiddleware>
+
+            <PermissionMiddleware codeName={["add_cash_flow_entries"]} requireAll>
+              <ActionButton
+                onClick={handleOpenBulkEntryModal}
+                label={t("sidebar:sidebar.items.bulkEntry")}
+                icon={
+                  <svg
+                    className="h-5 w-5"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                  >
+                    <rect
+                      x="4"
+                      y="4.5"
+                      width="16"
+                      height="15"
+                      rx="2"
+                      strokeWidth="1.75"
+                    />
+                    <path
+                      d="M4 9.5h16M4 14.5h16M10 4.5v15"
+                      strokeWidth="1.75"
+                    />
+                  </svg>
+                }
+              />
+            </PermissionMiddleware>
           </>
         )}
       </div>
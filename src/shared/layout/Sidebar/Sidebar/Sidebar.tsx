@@ -4,7 +4,7 @@ import { PermissionMiddleware } from "@/middlewares";
 import SidebarDesktop from "./Sidebar.desktop";
 import SidebarMobile from "./Sidebar.mobile";
 
-import { EntriesModal, StatementImportModal, TransferenceModal } from "@/components/Modal";
+import { BulkEntryModal, EntriesModal, StatementImportModal, TransferenceModal } from "@/components/Modal";
 import type { ModalType } from "@/components/Modal/Modal.types";
 
 import { api } from "@/api/requests";
@@ -51,6 +51,7 @@ const Sidebar: React.FC<SidebarProps> = ({
 
   const [isTransferenceOpen, setIsTransferenceOpen] = useState(false);
   const [isStatementImportOpen, setIsStatementImportOpen] = useState(false);
+  const [isBulkEntryOpen, setIsBulkEntryOpen] = useState(false);
 
   const [banks, setBanks] = useState<BankAccount[]>([]);
 
@@ -132,6 +133,10 @@ const Sidebar: React.FC<SidebarProps> = ({
     onTransferenceSaved?.();
   };
 
+  const handleBulkEntrySave = () => {
+    onEntriesSaved?.();
+  };
+
   const handleStatementImportClose = () => {
     setIsStatementImportOpen(false);
   };
@@ -143,6 +148,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     handleOpenModal: openEntryModal,
     handleOpenTransferenceModal: () => setIsTransferenceOpen(true),
     handleOpenStatementImportModal: () => setIsStatementImportOpen(true),
+    handleOpenBulkEntryModal: () => setIsBulkEntryOpen(true),
   };
 
   return (
@@ -162,6 +168,16 @@ const Sidebar: React.FC<SidebarProps> = ({
         </PermissionMiddleware>
       )}
 
+      {isBulkEntryOpen && (
+        <PermissionMiddleware codeName={"add_cash_flow_entries"}>
+          <BulkEntryModal
+            isOpen={isBulkEntryOpen}
+            onClose={() => setIsBulkEntryOpen(false)}
+            onSave={handleBulkEntrySave}
+          />
+        </PermissionMiddleware>
+      )}
+
       {isTransferenceOpen && (
         <PermissionMiddleware codeName={"add_transference"}>
           <TransferenceModal
@@ -20,6 +20,8 @@ import {
   Bell,
   Shield,
   Building2,
+  CalendarDays,
+  ShieldCheck,
   Users,
   Layers3,
   Landmark,
@@ -32,6 +34,9 @@ import {
   FolderKanban,
   IdCard,
   ListTree,
+  Tags,
+  Trash2,
+  Wand2,
   X,
 } from "lucide-react";
 
@@ -65,6 +70,8 @@ const Icons = {
   // Organization
   building: <Building2 className={iconClass} aria-hidden="true" />,
   members: <Users className={iconClass} aria-hidden="true" />,
+  calendar: <CalendarDays className={iconClass} aria-hidden="true" />,
+  approvals: <ShieldCheck className={iconClass} aria-hidden="true" />,
   groups: <UsersRound className={iconClass} aria-hidden="true" />,
   layers: <Layers3 className={iconClass} aria-hidden="true" />,
 
@@ -82,6 +89,9 @@ const Icons = {
   inventory: <Boxes className={iconClass} aria-hidden="true" />,
   projects: <FolderKanban className={iconClass} aria-hidden="true" />,
   departments: <Network className={iconClass} aria-hidden="true" />,
+  customFields: <Tags className={iconClass} aria-hidden="true" />,
+  trash: <Trash2 className={iconClass} aria-hidden="true" />,
+  rules: <Wand2 className={iconClass} aria-hidden="true" />,
 } as const;
 
 type IconKey = keyof typeof Icons;
@@ -121,6 +131,9 @@ const SidebarSettingsMobile: FC<SidebarSettingsProps> = ({
           { id: "organization-settings", icon: "building", label: t("items.organization-settings"), permission: "view_organization_settings_page" },
           { id: "members", icon: "members", label: t("items.members"), permission: "view_member_settings_page" },
           { id: "groups", icon: "groups", label: t("items.groups"), permission: "view_group_settings_page" },
+          { id: "business-calendar", icon: "calendar", label: t("items.business-calendar"), permission: "view_business_calendar_page" },
+          { id: "approval-rules", icon: "approvals", label: t("items.approval-rules"), permission: "view_approval_rules_page" },
+          { id: "trash", icon: "trash", label: t("items.trash"), permission: "view_trash_page" },
           { id: "subscription-management", icon: "layers", label: t("items.subscription-management"), permission: "view_subscription_management_page" },
         ],
       },
@@ -131,6 +144,7 @@ const SidebarSettingsMobile: FC<SidebarSettingsProps> = ({
           { id: "banks", icon: "bank", label: t("items.banks"), permission: "view_bank_settings_page" },
           { id: "categories", icon: "category", label: t("items.categories"), permission: "view_bank_settings_page" }, // view_category_settings_page
           { id: "bank-statements", icon: "card", label: t("items.bank-statements"), permission: "view_statements_page" },
+          { id: "categorization-rules", icon: "rules", label: t("items.categorization-rules"), permission: "view_categorization_rules_page" },
         ],
       },
       {
@@ -141,6 +155,7 @@ const SidebarSettingsMobile: FC<SidebarSettingsProps> = ({
           { id: "inventory", icon: "inventory", label: t("items.inventory"), permission: "view_inventory_settings_page" },
           { id: "entities", icon: "entities", label: t("items.entities"), permission: "view_entity_settings_page" },
           { id: "departments", icon: "departments", label: t("items.departments"), permission: "view_department_settings_page" },
+          { id: "custom-fields", icon: "customFields", label: t("items.custom-fields"), permission: "view_custom_fields_page" },
         ],
       },
       {
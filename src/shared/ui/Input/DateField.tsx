@@ -22,6 +22,7 @@ import {
   isSameMonth,
   isSameDay,
   addDays,
+  isWeekend,
 } from "date-fns";
 import { getEffectiveDateFormat } from "@/lib/date";
 
@@ -62,6 +63,7 @@ const DateField = forwardRef<HTMLInputElement, DateInputProps>(
       style,
       name,
       required,
+      nonBusinessDays,
       ...rest
     },
     forwardedRef
@@ -440,6 +442,8 @@ const DateField = forwardRef<HTMLInputElement, DateInputProps>(
         const current = curr;
         const isCurrentMonth = isSameMonth(current, calendarMonth);
         const isSelected = selectedDate ? isSameDay(current, selectedDate) : false;
+        const closedDay = nonBusinessDays?.get(format(current, "yyyy-MM-dd"));
+        const isOffDay = !!nonBusinessDays && (!!closedDay || isWeekend(current));
 
         days.push(
           <button
@@ -451,9 +455,12 @@ const DateField = forwardRef<HTMLInputElement, DateInputProps>(
               "rounded-full flex items-center justify-center",
               sz.dayCell,
               !isCurrentMonth && "text-gray-400",
+              isCurrentMonth && !isSelected && isOffDay && "text-gray-400",
+              !isSelected && closedDay && "text-red-600 underline decoration-dotted underline-offset-2",
               isSelected && "bg-gray-900 text-white",
               !isSelected && "hover:bg-gray-100"
             )}
+            title={closedDay?.name}
             tabIndex={isCalendarOpen ? 0 : -1}
           >
             {format(current, "d")}
@@ -93,6 +93,8 @@ export type DateInputProps = InputCommonProps &
     kind: "date";
     value?: string;
     onValueChange?: (valueIso: string) => void;
+    /** Holidays / bank closures keyed by YYYY-MM-DD; when set, the picker marks them and weekends. */
+    nonBusinessDays?: ReadonlyMap<string, { name: string }>;
   };
 
 export type InputProps =
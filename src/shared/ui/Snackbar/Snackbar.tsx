@@ -66,6 +66,7 @@ const Snackbar: React.FC<SnackbarProps> = ({
   className = "",
   message,
   severity = "info",
+  action,
   children,
   anchor = { vertical: "bottom", horizontal: "center" },
   transitionDuration = 220,
@@ -234,6 +235,27 @@ const Snackbar: React.FC<SnackbarProps> = ({
               <div className="text-sm leading-relaxed">{frozenContent}</div>
             </div>
 
+            {action && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  clearTimer();
+                  // Close first so the action can open a follow-up message
+                  onClose();
+                  action.onClick();
+                }}
+                className={cls(
+                  "my-1.5 shrink-0 self-center rounded-md px-2 py-1 text-sm font-semibold",
+                  "text-[color:var(--accentPrimary)] hover:bg-black/5 dark:hover:bg-white/10",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--accentPrimary)]/70",
+                  "transition-colors"
+                )}
+              >
+                {action.label}
+              </button>
+            )}
+
             {showCloseButton && (
               <button
                 type="button"
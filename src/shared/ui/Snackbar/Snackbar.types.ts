@@ -17,6 +17,12 @@ export interface SnackbarProps {
   /** Severidade usada quando `message` é fornecida */
   severity?: "success" | "error" | "warning" | "info";
 
+  /** Ação opcional (ex.: "Desfazer") exibida ao lado da mensagem; fecha o Snackbar ao clicar */
+  action?: {
+    label: React.ReactNode;
+    onClick: () => void;
+  };
+
   /** Conteúdo livre (geralmente um Alert custom) */
   children?: React.ReactNode;
 